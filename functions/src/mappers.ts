@@ -1,7 +1,15 @@
+import { DEFAULT_RECURRENCE_CONFIG, type RecurrenceConfig, type RecurrenceMatch, findRecurrence } from "./recurrence";
+import { buildNcSearchTokens } from "./search";
+import { SEVERITY_ORDER, type SeverityRule, classifyQuestionNc } from "./severity";
+
 export type ChecklistAnswer = {
   questionId: string;
   response: "ok" | "nc" | "na";
   observation?: string;
+  photoUrls?: string[];
+  photoUrl?: string;
+  recurrence?: { previousResponseId: string; status: "resolved" | "still_nc" };
+  variableValue?: string | number | boolean | null;
 };
 
 export type ExtraNonConformity = {
@@ -19,6 +27,8 @@ export type ChecklistResponseDoc = {
   operatorNome?: string | null;
   templateId: string;
   createdAt?: string;
+  km?: number;
+  horimetro?: number;
   answers?: ChecklistAnswer[];
   extraNonConformities?: ExtraNonConformity[];
 };
@@ -31,6 +41,10 @@ export type TemplateQuestion = {
   category?: string;
   group?: string;
   section?: string;
+  severity?: string;
+  safetyRisk?: boolean;
+  impactAvailability?: boolean;
+  severityRules?: SeverityRule[];
 };
 
 export type MachineDoc = {
@@ -44,7 +58,51 @@ export type ExistingNcInfo = {
   id: string;
   createdAt: number;
   normalizedTitle: string;
+  description?: string;
   systemCategory?: string;
+  originQuestionId?: string;
+};
+
+/** NC ainda aberta da máquina que veio de uma pergunta do checklist. */
+export type OpenNcInfo = {
+  id: string;
+  originQuestionId: string;
+  createdAt: number;
+  severity: string;
+  safetyRisk: boolean;
+  dueAt?: string;
+  /** Checklists que já relataram a NC, contando o que a abriu. */
+  checklistCount: number;
+};
+
+/** Mesmo formato de `NcOccurrence` (`src/types/nonconformity.ts`), sem `ncId`. */
+export type ChecklistOccurrenceDoc = {
+  title: string;
+  description?: string;
+  createdAt: string;
+  createdBy: { id: string; matricula: string; nome?: string };
+  originChecklistResponseId: string;
+  originQuestionId: string;
+  photoUrls?: string[];
+  reading?: { km?: number; horimetro?: number };
+};
+
+export type OccurrenceUpdate = {
+  ncId: string;
+  occurrence: ChecklistOccurrenceDoc;
+  checklistCount: number;
+  /**
+   * Presente quando o problema persistiu o bastante para subir a severidade;
+   * traz o prazo e a política de SLA recalculados para a nova severidade.
+   */
+  raisedSeverity?: {
+    before: string;
+    after: string;
+    severityRank: number;
+    dueAt: string;
+    dueAtBefore: string | null;
+    slaPolicyId: string;
+  };
 };
 
 export type TelemetrySnapshot = {
@@ -57,6 +115,15 @@ export type TelemetrySnapshot = {
   windowEnd?: string;
 } | null;
 
+/** Campos de `slaPolicies` usados para calcular o prazo (mesma regra de `src/lib/sla.ts`). */
+export type SlaPolicyDoc = {
+  id: string;
+  severity?: string | null;
+  safetyRisk?: boolean | null;
+  setor?: string | null;
+  resolutionHours: number;
+};
+
 export type ExplosionDoc = {
   title: string;
   description?: string | null;
@@ -65,6 +132,7 @@ export type ExplosionDoc = {
   impactAvailability: boolean;
   status: "aberta";
   dueAt: string;
+  slaPolicyId: string;
   createdAt: string;
   createdBy: { id: string; matricula: string; nome?: string };
   linkedAsset: { id: string; tag: string; modelo?: string; tipo?: string; setor?: string };
@@ -75,11 +143,17 @@ export type ExplosionDoc = {
   rootCause: null;
   actions: [];
   recurrenceOfId?: string | null;
+  /** Regra e pontuação que ligaram a NC à anterior; confirmada ou desfeita no painel. */
+  recurrenceMatch?: RecurrenceMatch | null;
   telemetryRef: TelemetrySnapshot;
   yearMonth: string;
   severityRank: number;
   systemCategory?: string | null;
   normalizedTitle: string;
+  /** Índice da busca de `GET /api/nc`. */
+  searchTokens: string[];
+  /** Vira `true` quando a NC é mesclada em outra; a contagem de `GET /api/nc` filtra por ele. */
+  merged: false;
 };
 
 const SEVERITY_RANK: Record<string, number> = {
@@ -94,11 +168,30 @@ const DUE_DAYS: Record<string, number> = {
   alta: 2,
 };
 
-function computeDueAt(createdAtISO: string, severity: string): string {
-  const date = new Date(createdAtISO);
-  const days = DUE_DAYS[severity] ?? DUE_DAYS.media;
-  date.setDate(date.getDate() + days);
-  return date.toISOString();
+const normalizeSetor = (value?: string | null) => value?.trim().toLowerCase() || null;
+
+/** Política configurada mais específica (setor > risco de segurança > severidade). */
+export function resolveSlaPolicyDoc(
+  policies: SlaPolicyDoc[],
+  nc: { severity: string; safetyRisk: boolean; setor?: string },
+): SlaPolicyDoc | undefined {
+  const setor = normalizeSetor(nc.setor);
+  let best: { policy: SlaPolicyDoc; score: number } | undefined;
+  for (const policy of policies) {
+    if (policy.severity && policy.severity !== nc.severity) continue;
+    const hasSafety = typeof policy.safetyRisk === "boolean";
+    if (hasSafety && policy.safetyRisk !== nc.safetyRisk) continue;
+    const policySetor = normalizeSetor(policy.setor);
+    if (policySetor && policySetor !== setor) continue;
+    const score = (policySetor ? 4 : 0) + (hasSafety ? 2 : 0) + (policy.severity ? 1 : 0);
+    if (!best || score > best.score) best = { policy, score };
+  }
+  return best?.policy;
+}
+
+function computeDueAt(createdAtISO: string, severity: string, policy?: SlaPolicyDoc): string {
+  const hours = policy?.resolutionHours ?? (DUE_DAYS[severity] ?? DUE_DAYS.media) * 24;
+  return new Date(new Date(createdAtISO).getTime() + hours * 60 * 60 * 1000).toISOString();
 }
 
 function computeYearMonth(createdAtISO: string): string {
@@ -129,17 +222,107 @@ function extractSystem(question?: TemplateQuestion): string | undefined {
   );
 }
 
-function findRecurrence(
-  existing: ExistingNcInfo[],
-  normalizedTitle: string,
-  systemCategory?: string,
-): string | undefined {
-  return existing.find((item) => {
-    if (systemCategory && item.systemCategory && item.systemCategory === systemCategory) {
-      return true;
-    }
-    return item.normalizedTitle === normalizedTitle;
-  })?.id;
+function nextSeverity(severity: string): string {
+  const index = SEVERITY_ORDER.indexOf(severity);
+  return SEVERITY_ORDER[Math.min(index < 0 ? 1 : index + 1, SEVERITY_ORDER.length - 1)];
+}
+
+function moreSevere(a: string, b: string): string {
+  return SEVERITY_ORDER.indexOf(b) > SEVERITY_ORDER.indexOf(a) ? b : a;
+}
+
+/** NC aberta mais recente da máquina para a mesma pergunta. */
+export function findOpenNc(openNcs: OpenNcInfo[], questionId: string): OpenNcInfo | undefined {
+  return openNcs
+    .filter((nc) => nc.originQuestionId === questionId)
+    .sort((a, b) => b.createdAt - a.createdAt)[0];
+}
+
+function createdByOf(response: ChecklistResponseDoc) {
+  return {
+    id: response.userId,
+    matricula: response.operatorMatricula || response.userId,
+    nome: response.operatorNome ?? undefined,
+  };
+}
+
+/**
+ * Respostas "NC" de perguntas que já têm NC aberta na máquina viram ocorrências
+ * dela em vez de NCs novas. A NC sobe para a severidade configurada na
+ * pergunta e nas regras da variável, se a resposta pedir mais que a atual, e a
+ * cada `escalateAfterChecklists` relatos sobe mais um nível (até alta). O prazo
+ * volta a ser o da política de SLA da nova severidade, contado da abertura da NC.
+ */
+export function mapRepeatedOccurrences(options: {
+  responseId: string;
+  response: ChecklistResponseDoc;
+  templateQuestions: Map<string, TemplateQuestion>;
+  openNcs: OpenNcInfo[];
+  createdAtISO: string;
+  escalateAfterChecklists: number;
+  machine?: MachineDoc;
+  slaPolicies?: SlaPolicyDoc[];
+}): OccurrenceUpdate[] {
+  const { responseId, response, templateQuestions, openNcs, createdAtISO, escalateAfterChecklists } = options;
+  const updates: OccurrenceUpdate[] = [];
+  const reading = {
+    ...(typeof response.km === "number" ? { km: response.km } : {}),
+    ...(typeof response.horimetro === "number" ? { horimetro: response.horimetro } : {}),
+  };
+
+  for (const answer of response.answers ?? []) {
+    if (answer.response !== "nc") continue;
+    const open = findOpenNc(openNcs, answer.questionId);
+    if (!open) continue;
+    const photoUrls = answer.photoUrls?.length ? answer.photoUrls : answer.photoUrl ? [answer.photoUrl] : [];
+    const question = templateQuestions.get(answer.questionId);
+    const checklistCount = open.checklistCount + 1;
+    const current = moreSevere(open.severity, classifyQuestionNc(question, answer.variableValue).severity);
+    const raised = checklistCount % escalateAfterChecklists === 0 ? nextSeverity(current) : current;
+    const slaPolicy =
+      raised !== open.severity
+        ? resolveSlaPolicyDoc(options.slaPolicies ?? [], {
+            severity: raised,
+            safetyRisk: open.safetyRisk,
+            setor: options.machine?.setor,
+          })
+        : undefined;
+    const openedAtISO = open.createdAt ? new Date(open.createdAt).toISOString() : createdAtISO;
+
+    updates.push({
+      ncId: open.id,
+      occurrence: {
+        title: question?.text ?? `Pergunta ${answer.questionId}`,
+        ...(answer.observation ? { description: answer.observation } : {}),
+        createdAt: createdAtISO,
+        createdBy: createdByOf(response),
+        originChecklistResponseId: responseId,
+        originQuestionId: answer.questionId,
+        ...(photoUrls.length ? { photoUrls } : {}),
+        ...(Object.keys(reading).length ? { reading } : {}),
+      },
+      checklistCount,
+      ...(raised !== open.severity
+        ? {
+            raisedSeverity: {
+              before: open.severity,
+              after: raised,
+              severityRank: severityRank(raised),
+              dueAt: computeDueAt(openedAtISO, raised, slaPolicy),
+              dueAtBefore: open.dueAt ?? null,
+              slaPolicyId: slaPolicy?.id ?? `default-${raised}`,
+            },
+          }
+        : {}),
+    });
+  }
+
+  return updates;
+}
+
+/** NC de segurança com severidade alta: a máquina sai de operação até a resolução. */
+export function requiresMachineDowntime(doc: Pick<ExplosionDoc, "severity" | "safetyRisk">): boolean {
+  return doc.severity === "alta" && doc.safetyRisk;
 }
 
 export function mapChecklistResponseToDocs(options: {
@@ -150,6 +333,10 @@ export function mapChecklistResponseToDocs(options: {
   recent: ExistingNcInfo[];
   telemetry?: TelemetrySnapshot;
   createdAtISO: string;
+  slaPolicies?: SlaPolicyDoc[];
+  recurrence?: RecurrenceConfig;
+  /** Perguntas com NC aberta não geram NC nova (ver `mapRepeatedOccurrences`). */
+  openNcs?: OpenNcInfo[];
 }): ExplosionDoc[] {
   const { responseId, response, machine, templateQuestions, recent, telemetry, createdAtISO } = options;
   const docs: ExplosionDoc[] = [];
@@ -162,11 +349,7 @@ export function mapChecklistResponseToDocs(options: {
     setor: machine?.setor,
   };
 
-  const createdBy = {
-    id: response.userId,
-    matricula: response.operatorMatricula || response.userId,
-    nome: response.operatorNome ?? undefined,
-  };
+  const createdBy = createdByOf(response);
 
   const pushRecord = (
     payload: {
@@ -182,7 +365,23 @@ export function mapChecklistResponseToDocs(options: {
   ) => {
     const severity = (payload.severity ?? "media") as string;
     const normalizedTitle = normalize(payload.title);
-    const recurrenceId = findRecurrence(recent, normalizedTitle, payload.systemCategory);
+    const recurrence = findRecurrence(
+      recent,
+      {
+        title: payload.title,
+        description: payload.description,
+        severity,
+        systemCategory: payload.systemCategory,
+        originQuestionId: payload.originQuestionId,
+        createdAt: new Date(createdAtISO).getTime(),
+      },
+      options.recurrence ?? DEFAULT_RECURRENCE_CONFIG,
+    );
+    const slaPolicy = resolveSlaPolicyDoc(options.slaPolicies ?? [], {
+      severity,
+      safetyRisk: payload.safetyRisk ?? false,
+      setor: machine?.setor,
+    });
 
     docs.push({
       title: payload.title,
@@ -191,7 +390,8 @@ export function mapChecklistResponseToDocs(options: {
       safetyRisk: payload.safetyRisk ?? false,
       impactAvailability: payload.impactAvailability ?? false,
       status: "aberta",
-      dueAt: computeDueAt(createdAtISO, severity),
+      dueAt: computeDueAt(createdAtISO, severity, slaPolicy),
+      slaPolicyId: slaPolicy?.id ?? `default-${severity}`,
       createdAt: createdAtISO,
       createdBy,
       linkedAsset: baseAsset,
@@ -201,22 +401,31 @@ export function mapChecklistResponseToDocs(options: {
       originQuestionId: payload.originQuestionId ?? null,
       rootCause: null,
       actions: [],
-      recurrenceOfId: recurrenceId ?? null,
+      recurrenceOfId: recurrence?.ofId ?? null,
+      recurrenceMatch: recurrence ?? null,
       telemetryRef: telemetry ?? null,
       yearMonth: computeYearMonth(createdAtISO),
       severityRank: severityRank(severity),
       systemCategory: payload.systemCategory ?? null,
       normalizedTitle,
+      searchTokens: buildNcSearchTokens({
+        title: payload.title,
+        description: payload.description,
+        linkedAsset: baseAsset,
+        createdBy,
+      }),
+      merged: false,
     });
   };
 
   for (const answer of response.answers ?? []) {
     if (answer.response !== "nc") continue;
+    if (findOpenNc(options.openNcs ?? [], answer.questionId)) continue;
     const question = templateQuestions.get(answer.questionId);
     pushRecord({
       title: question?.text ?? `Pergunta ${answer.questionId}`,
       description: answer.observation,
-      severity: "media",
+      ...classifyQuestionNc(question, answer.variableValue),
       source: "checklist_question",
       originQuestionId: answer.questionId,
       systemCategory: extractSystem(question),
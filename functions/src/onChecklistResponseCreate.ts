@@ -1,22 +1,26 @@
 import { initializeApp } from "firebase-admin/app";
-import { getFirestore, Timestamp } from "firebase-admin/firestore";
+import { FieldValue, getFirestore, Timestamp } from "firebase-admin/firestore";
 import { onDocumentCreated } from "firebase-functions/v2/firestore";
 import { logger } from "firebase-functions";
-import { fetchTelemetrySnapshot } from "./telemetryStub";
+import { fetchTelemetrySnapshot } from "./telemetry";
 import {
   type ChecklistResponseDoc,
   type ExistingNcInfo,
   type MachineDoc,
+  type OccurrenceUpdate,
+  type OpenNcInfo,
+  type SlaPolicyDoc,
   type TemplateQuestion,
   mapChecklistResponseToDocs,
+  mapRepeatedOccurrences,
+  requiresMachineDowntime,
 } from "./mappers";
+import { maxRecurrenceWindowMs, resolveRecurrenceConfig } from "./recurrence";
 
 initializeApp();
 
 const db = getFirestore();
 
-const THIRTY_DAYS_IN_MS = 1000 * 60 * 60 * 24 * 30;
-
 type TemplateDoc = {
   title?: string;
   questions?: TemplateQuestion[];
@@ -31,27 +35,171 @@ function normalize(value: string): string {
     .trim();
 }
 
-export async function loadRecentNonConformities(assetId: string, cutoff: number): Promise<ExistingNcInfo[]> {
+/**
+ * NCs da máquina: as criadas depois de `cutoff` (busca de recorrência) e as
+ * ainda abertas vindas de pergunta do checklist, que recebem as repetições.
+ * NCs mescladas ficam de fora das duas: os relatos delas já estão na principal.
+ */
+export async function loadMachineNonConformities(
+  assetId: string,
+  cutoff: number,
+): Promise<{ recent: ExistingNcInfo[]; open: OpenNcInfo[] }> {
   const snapshot = await db.collection("nonConformities").where("linkedAsset.id", "==", assetId).get();
-  return snapshot.docs
-    .map((docSnap) => {
-      const data = docSnap.data();
-      const createdAtValue: string | Timestamp | undefined = data.createdAt ?? data.createdAtTs;
-      let createdAtMillis = 0;
-      if (createdAtValue instanceof Timestamp) {
-        createdAtMillis = createdAtValue.toMillis();
-      } else if (typeof createdAtValue === "string") {
-        const parsed = new Date(createdAtValue).getTime();
-        createdAtMillis = Number.isNaN(parsed) ? 0 : parsed;
-      }
-      return {
+  const recent: ExistingNcInfo[] = [];
+  const open: OpenNcInfo[] = [];
+  for (const docSnap of snapshot.docs) {
+    const data = docSnap.data();
+    const createdAtValue: string | Timestamp | undefined = data.createdAt ?? data.createdAtTs;
+    let createdAtMillis = 0;
+    if (createdAtValue instanceof Timestamp) {
+      createdAtMillis = createdAtValue.toMillis();
+    } else if (typeof createdAtValue === "string") {
+      const parsed = new Date(createdAtValue).getTime();
+      createdAtMillis = Number.isNaN(parsed) ? 0 : parsed;
+    }
+    const originQuestionId = typeof data.originQuestionId === "string" ? data.originQuestionId : undefined;
+    if (createdAtMillis >= cutoff && !data.mergedIntoId) {
+      recent.push({
         id: docSnap.id,
         createdAt: createdAtMillis,
         normalizedTitle: normalize(String(data.normalizedTitle ?? data.title ?? "")),
+        description: typeof data.description === "string" ? data.description : undefined,
         systemCategory: typeof data.systemCategory === "string" ? data.systemCategory : undefined,
-      } satisfies ExistingNcInfo;
-    })
-    .filter((item) => item.createdAt >= cutoff);
+        originQuestionId,
+      });
+    }
+    if (originQuestionId && data.status !== "resolvida" && !data.mergedIntoId) {
+      const occurrences: Array<{ ncId?: unknown }> = Array.isArray(data.occurrences) ? data.occurrences : [];
+      open.push({
+        id: docSnap.id,
+        originQuestionId,
+        createdAt: createdAtMillis,
+        severity: typeof data.severity === "string" ? data.severity : "media",
+        safetyRisk: data.safetyRisk === true,
+        dueAt: typeof data.dueAt === "string" ? data.dueAt : undefined,
+        checklistCount: 1 + occurrences.filter((occurrence) => !occurrence.ncId).length,
+      });
+    }
+  }
+  return { recent, open };
+}
+
+/**
+ * Registra as repetições nas NCs abertas (ocorrência, severidade elevada com
+ * novo prazo de SLA e auditoria) e devolve as que passaram a parar a máquina.
+ * A auditoria usa um ID derivado da resposta: se a função for executada de
+ * novo, a NC já registrada não recebe a ocorrência duas vezes.
+ */
+async function appendOccurrences(
+  responseId: string,
+  updates: OccurrenceUpdate[],
+  openNcs: OpenNcInfo[],
+  atISO: string,
+) {
+  const downtime: Array<{ id: string; title: string }> = [];
+  for (const update of updates) {
+    const ref = db.collection("nonConformities").doc(update.ncId);
+    const auditRef = ref.collection("audits").doc(`occurrence_${responseId}`);
+    const raisedTo = await db.runTransaction(async (tx) => {
+      const existing = await tx.get(auditRef);
+      if (existing.exists) {
+        const severity = existing.data()?.diff?.severity?.after;
+        return typeof severity === "string" ? severity : undefined;
+      }
+
+      const raised = update.raisedSeverity;
+      tx.update(ref, {
+        occurrences: FieldValue.arrayUnion(update.occurrence),
+        ...(raised
+          ? {
+              severity: raised.after,
+              severityRank: raised.severityRank,
+              dueAt: raised.dueAt,
+              slaPolicyId: raised.slaPolicyId,
+            }
+          : {}),
+        updatedAt: atISO,
+      });
+      tx.create(auditRef, {
+        type: "updated",
+        byUserId: "system",
+        byNome: null,
+        byRole: null,
+        atISO,
+        diff: {
+          occurrences: { before: null, after: update.occurrence },
+          ...(raised
+            ? {
+                severity: { before: raised.before, after: raised.after },
+                dueAt: { before: raised.dueAtBefore, after: raised.dueAt },
+              }
+            : {}),
+        },
+      });
+      // Subir para alta dispara o mesmo e-mail das NCs abertas já com severidade alta.
+      if (raised?.after === "alta") {
+        tx.set(db.collection("notificationEvents").doc(`nc_created_${update.ncId}_alta`), {
+          kind: "nc_created",
+          refId: update.ncId,
+          createdAt: atISO,
+          processedAt: null,
+        });
+      }
+      return raised?.after;
+    });
+
+    const open = openNcs.find((nc) => nc.id === update.ncId);
+    if (raisedTo && open && requiresMachineDowntime({ severity: raisedTo, safetyRisk: open.safetyRisk })) {
+      downtime.push({ id: update.ncId, title: update.occurrence.title });
+    }
+  }
+  return downtime;
+}
+
+/**
+ * Marca a máquina como parada (`down`) pelas NCs de segurança recém-abertas,
+ * encerrando o período de status atual. Máquinas desativadas não mudam.
+ * Mesma regra de `markMachineDownForNc` em `src/lib/machine-status.ts`; roda em
+ * transação para que NCs simultâneas não sobrescrevam `downtimeNcIds` nem abram
+ * dois períodos.
+ */
+async function markMachineDown(machineId: string, ncs: Array<{ id: string; title: string }>, atISO: string) {
+  const machineRef = db.collection("machines").doc(machineId);
+  const periods = db.collection("machineStatusPeriods");
+  await db.runTransaction(async (tx) => {
+    const machineSnap = await tx.get(machineRef);
+    if (!machineSnap.exists) return;
+    const data = machineSnap.data() ?? {};
+    const status = typeof data.status === "string" ? data.status : "available";
+    if (status === "retired") return;
+
+    const downtimeNcIds = FieldValue.arrayUnion(...ncs.map((nc) => nc.id));
+    if (status === "down") {
+      tx.update(machineRef, { downtimeNcIds });
+      return;
+    }
+
+    const reason = `NC de segurança: ${ncs[0].title}`;
+    const open = await tx.get(periods.where("machineId", "==", machineId).where("end", "==", null));
+    open.docs.forEach((docSnap) => tx.update(docSnap.ref, { end: atISO }));
+    tx.create(periods.doc(), {
+      machineId,
+      status: "down",
+      start: atISO,
+      end: null,
+      reason,
+      source: "nc",
+      ncId: ncs[0].id,
+      changedBy: null,
+    });
+    tx.update(machineRef, {
+      status: "down",
+      statusSince: atISO,
+      statusReason: reason,
+      statusSource: "nc",
+      downtimeNcIds,
+    });
+  });
 }
 
 function ensureIsoDate(value?: string): string {
@@ -78,9 +226,11 @@ export const onChecklistResponseCreate = onDocumentCreated(
     const createdAtISO = ensureIsoDate(response.createdAt);
     const createdAtDate = new Date(createdAtISO);
 
-    const [machineSnap, templateSnap] = await Promise.all([
+    const [machineSnap, templateSnap, slaPoliciesSnap, recurrenceSnap] = await Promise.all([
       db.collection("machines").doc(response.machineId).get(),
       db.collection("checklistTemplates").doc(response.templateId).get(),
+      db.collection("slaPolicies").get(),
+      db.collection("settings").doc("recurrence").get(),
     ]);
 
     const machineData = (machineSnap.data() as MachineDoc | undefined) ?? {};
@@ -89,16 +239,21 @@ export const onChecklistResponseCreate = onDocumentCreated(
       (templateData.questions ?? []).map((question) => [question.id, question]),
     );
 
-    const recent = await loadRecentNonConformities(
+    const recurrence = resolveRecurrenceConfig(recurrenceSnap.data());
+    const { recent, open } = await loadMachineNonConformities(
       response.machineId,
-      createdAtDate.getTime() - THIRTY_DAYS_IN_MS,
+      createdAtDate.getTime() - maxRecurrenceWindowMs(recurrence),
     );
 
-    const telemetry = await fetchTelemetrySnapshot(response.machineId, createdAtISO).catch((error) => {
+    const telemetry = await fetchTelemetrySnapshot(db, response.machineId, createdAtISO).catch((error) => {
       logger.warn("Telemetry snapshot failed", { responseId, error });
       return undefined;
     });
 
+    const slaPolicies = slaPoliciesSnap.docs
+      .map((docSnap) => ({ id: docSnap.id, ...docSnap.data() }) as SlaPolicyDoc)
+      .filter((policy) => typeof policy.resolutionHours === "number");
+
     const documents = mapChecklistResponseToDocs({
       responseId,
       response,
@@ -107,8 +262,37 @@ export const onChecklistResponseCreate = onDocumentCreated(
       recent,
       telemetry,
       createdAtISO,
+      slaPolicies,
+      recurrence,
+      openNcs: open,
     });
 
+    const repeated = mapRepeatedOccurrences({
+      responseId,
+      response,
+      templateQuestions: questionMap,
+      openNcs: open,
+      createdAtISO,
+      escalateAfterChecklists: recurrence.escalateAfterChecklists,
+      machine: machineData,
+      slaPolicies,
+    });
+    if (repeated.length) {
+      const downtime = await appendOccurrences(responseId, repeated, open, new Date().toISOString()).catch((error) => {
+        logger.error("Failed to append occurrences to open nonConformities", { responseId, error });
+        throw error;
+      });
+      logger.info("Appended checklist occurrences to open nonConformities", {
+        responseId,
+        ncIds: repeated.map((update) => update.ncId),
+      });
+      if (downtime.length) {
+        await markMachineDown(response.machineId, downtime, new Date().toISOString()).catch((error) => {
+          logger.error("Failed to mark machine as down", { responseId, machineId: response.machineId, error });
+        });
+      }
+    }
+
     if (documents.length === 0) {
       logger.info("No nonConformities to create for response", { responseId });
       return;
@@ -127,10 +311,36 @@ export const onChecklistResponseCreate = onDocumentCreated(
         }),
     );
 
-    await Promise.all(writes);
+    const refs = await Promise.all(writes);
     logger.info("Created nonConformities from checklist response", {
       responseId,
       total: documents.length,
     });
+
+    // Eventos para o job de e-mail do painel (`/api/jobs/send-notifications`).
+    const notifyNcs = documents
+      .map((docData, index) => ({ id: refs[index].id, docData }))
+      .filter(({ docData }) => docData.severity === "alta" || docData.safetyRisk);
+    await Promise.all(
+      notifyNcs.map(({ id }) =>
+        db.collection("notificationEvents").doc(`nc_created_${id}`).set({
+          kind: "nc_created",
+          refId: id,
+          createdAt: new Date().toISOString(),
+          processedAt: null,
+        }),
+      ),
+    ).catch((error) => {
+      logger.error("Failed to enqueue NC notifications", { responseId, error });
+    });
+
+    const downtimeNcs = documents
+      .map((docData, index) => ({ id: refs[index].id, title: docData.title, docData }))
+      .filter(({ docData }) => requiresMachineDowntime(docData));
+    if (downtimeNcs.length) {
+      await markMachineDown(response.machineId, downtimeNcs, new Date().toISOString()).catch((error) => {
+        logger.error("Failed to mark machine as down", { responseId, machineId: response.machineId, error });
+      });
+    }
   },
 );
@@ -0,0 +1,129 @@
+import type { ExistingNcInfo } from "./mappers";
+
+export type RecurrenceRule = "origin_question" | "text_similarity";
+
+/** Configuração em `settings/recurrence` (mesmos padrões de `src/lib/recurrence.ts`). */
+export type RecurrenceConfig = {
+  /** Similaridade mínima (0 a 1) entre os textos para o segundo critério. */
+  similarityThreshold: number;
+  /** Janela, em dias, por severidade da NC nova. */
+  windowDays: Record<string, number>;
+  /** A cada quantos checklists relatando a NC ainda aberta a severidade sobe um nível. */
+  escalateAfterChecklists: number;
+};
+
+export type RecurrenceMatch = {
+  ofId: string;
+  rule: RecurrenceRule;
+  score: number;
+  status: "suggested";
+};
+
+export const DEFAULT_RECURRENCE_CONFIG: RecurrenceConfig = {
+  similarityThreshold: 0.6,
+  windowDays: { baixa: 30, media: 30, alta: 30 },
+  escalateAfterChecklists: 3,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const STOPWORDS = new Set([
+  "a", "o", "as", "os", "de", "da", "do", "das", "dos", "e", "em", "na", "no", "nas", "nos",
+  "por", "com", "sem", "para", "um", "uma", "ao", "se",
+]);
+
+function normalize(value: string): string {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+function tokens(value?: string): Set<string> {
+  if (!value) return new Set();
+  return new Set(normalize(value).split(" ").filter((word) => word && !STOPWORDS.has(word)));
+}
+
+/** Índice de Jaccard entre os conjuntos de palavras (0 quando algum está vazio). */
+export function tokenSimilarity(a: Set<string>, b: Set<string>): number {
+  if (!a.size || !b.size) return 0;
+  let shared = 0;
+  for (const token of a) if (b.has(token)) shared += 1;
+  return shared / (a.size + b.size - shared);
+}
+
+/** Valores válidos do documento de configuração; o resto vem do padrão. */
+export function resolveRecurrenceConfig(raw: unknown): RecurrenceConfig {
+  const data = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  const threshold = data.similarityThreshold;
+  const escalateAfter = data.escalateAfterChecklists;
+  const windows = data.windowDays && typeof data.windowDays === "object" ? (data.windowDays as Record<string, unknown>) : {};
+  const windowDays = { ...DEFAULT_RECURRENCE_CONFIG.windowDays };
+  for (const severity of Object.keys(windowDays)) {
+    const days = windows[severity];
+    if (typeof days === "number" && Number.isFinite(days) && days > 0) windowDays[severity] = days;
+  }
+  return {
+    similarityThreshold:
+      typeof threshold === "number" && threshold > 0 && threshold <= 1
+        ? threshold
+        : DEFAULT_RECURRENCE_CONFIG.similarityThreshold,
+    windowDays,
+    escalateAfterChecklists:
+      typeof escalateAfter === "number" && Number.isInteger(escalateAfter) && escalateAfter >= 2
+        ? escalateAfter
+        : DEFAULT_RECURRENCE_CONFIG.escalateAfterChecklists,
+  };
+}
+
+/** Maior janela configurada; limite da busca de NCs anteriores da máquina. */
+export function maxRecurrenceWindowMs(config: RecurrenceConfig): number {
+  return Math.max(...Object.values(config.windowDays)) * DAY_MS;
+}
+
+/**
+ * Procura a NC anterior da mesma máquina de que a nova é recorrência, dentro da
+ * janela da severidade: primeiro pela mesma pergunta de origem; depois pela
+ * similaridade de título/descrição, só entre NCs do mesmo sistema.
+ */
+export function findRecurrence(
+  existing: ExistingNcInfo[],
+  nc: {
+    title: string;
+    description?: string;
+    severity: string;
+    systemCategory?: string;
+    originQuestionId?: string;
+    createdAt: number;
+  },
+  config: RecurrenceConfig = DEFAULT_RECURRENCE_CONFIG,
+): RecurrenceMatch | undefined {
+  const windowDays = config.windowDays[nc.severity] ?? DEFAULT_RECURRENCE_CONFIG.windowDays.media;
+  const cutoff = nc.createdAt - windowDays * DAY_MS;
+  const inWindow = existing
+    .filter((item) => item.createdAt >= cutoff && item.createdAt <= nc.createdAt)
+    .sort((a, b) => b.createdAt - a.createdAt);
+
+  if (nc.originQuestionId) {
+    const sameQuestion = inWindow.find((item) => item.originQuestionId === nc.originQuestionId);
+    if (sameQuestion) return { ofId: sameQuestion.id, rule: "origin_question", score: 1, status: "suggested" };
+  }
+
+  const title = tokens(nc.title);
+  const text = new Set([...title, ...tokens(nc.description)]);
+  let best: RecurrenceMatch | undefined;
+  for (const item of inWindow) {
+    if (nc.systemCategory && item.systemCategory && item.systemCategory !== nc.systemCategory) continue;
+    const itemTitle = tokens(item.normalizedTitle);
+    const similarity = Math.max(
+      tokenSimilarity(title, itemTitle),
+      tokenSimilarity(text, new Set([...itemTitle, ...tokens(item.description)])),
+    );
+    const score = Math.round(similarity * 100) / 100;
+    if (score < config.similarityThreshold || (best && score <= best.score)) continue;
+    best = { ofId: item.id, rule: "text_similarity", score, status: "suggested" };
+  }
+  return best;
+}
@@ -0,0 +1,39 @@
+/** Mesma regra de `src/lib/nc-search.ts`: a API busca por estes tokens. */
+const MAX_TOKEN_LENGTH = 20;
+const MIN_TOKEN_LENGTH = 2;
+const MAX_TOKENS = 400;
+
+const words = (value: unknown): string[] =>
+  typeof value === "string"
+    ? value
+        .normalize("NFD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter((word) => word.length >= MIN_TOKEN_LENGTH)
+    : [];
+
+/** Palavras de título, descrição, TAG e operador com seus prefixos (`searchTokens`). */
+export function buildNcSearchTokens(source: {
+  title?: string | null;
+  description?: string | null;
+  linkedAsset?: { tag?: string | null } | null;
+  createdBy?: { nome?: string | null; matricula?: string | null } | null;
+}): string[] {
+  const tokens = new Set<string>();
+  const fields = [
+    source.title,
+    source.description,
+    source.linkedAsset?.tag,
+    source.createdBy?.nome,
+    source.createdBy?.matricula,
+  ];
+  for (const word of fields.flatMap(words)) {
+    const limit = Math.min(word.length, MAX_TOKEN_LENGTH);
+    for (let length = MIN_TOKEN_LENGTH; length <= limit; length += 1) {
+      tokens.add(word.slice(0, length));
+    }
+    if (tokens.size >= MAX_TOKENS) break;
+  }
+  return Array.from(tokens).slice(0, MAX_TOKENS);
+}
@@ -0,0 +1,80 @@
+/** Regra de `ChecklistQuestion.severityRules` (mesma forma de `src/types/checklist.ts`). */
+export type SeverityRule = {
+  operator: "gt" | "gte" | "lt" | "lte" | "eq";
+  value: number | string | boolean;
+  severity: string;
+  safetyRisk?: boolean;
+  impactAvailability?: boolean;
+};
+
+export type NcClassification = {
+  severity: string;
+  safetyRisk: boolean;
+  impactAvailability: boolean;
+};
+
+/** Da mais leve à mais grave. */
+export const SEVERITY_ORDER = ["baixa", "media", "alta"];
+
+const isSeverity = (value: unknown): value is string =>
+  typeof value === "string" && SEVERITY_ORDER.includes(value);
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === "number") return Number.isFinite(value) ? value : undefined;
+  if (typeof value !== "string" || !value.trim()) return undefined;
+  const parsed = Number(value.replace(",", "."));
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function normalizeText(value: unknown): string {
+  return String(value).trim().toLowerCase();
+}
+
+/** Compara o valor da variável com a regra; valores ausentes não atendem a nenhuma. */
+export function matchesSeverityRule(rule: SeverityRule, value: unknown): boolean {
+  if (value === undefined || value === null || value === "") return false;
+  if (rule.operator === "eq") {
+    const expected = toNumber(rule.value);
+    const current = toNumber(value);
+    if (typeof rule.value !== "boolean" && expected !== undefined && current !== undefined) return current === expected;
+    return normalizeText(value) === normalizeText(rule.value);
+  }
+  const current = toNumber(value);
+  const limit = toNumber(rule.value);
+  if (current === undefined || limit === undefined) return false;
+  switch (rule.operator) {
+    case "gt":
+      return current > limit;
+    case "gte":
+      return current >= limit;
+    case "lt":
+      return current < limit;
+    case "lte":
+      return current <= limit;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Classificação da NC aberta por uma pergunta: o padrão da pergunta (média,
+ * sem risco, sem impacto quando não configurado) agravado pelas regras que o
+ * valor da variável atende.
+ */
+export function classifyQuestionNc(
+  question: { severity?: string; safetyRisk?: boolean; impactAvailability?: boolean; severityRules?: SeverityRule[] } | undefined,
+  variableValue: unknown,
+): NcClassification {
+  const result: NcClassification = {
+    severity: isSeverity(question?.severity) ? question.severity : "media",
+    safetyRisk: question?.safetyRisk === true,
+    impactAvailability: question?.impactAvailability === true,
+  };
+  for (const rule of question?.severityRules ?? []) {
+    if (!isSeverity(rule.severity) || !matchesSeverityRule(rule, variableValue)) continue;
+    if (SEVERITY_ORDER.indexOf(rule.severity) > SEVERITY_ORDER.indexOf(result.severity)) result.severity = rule.severity;
+    if (rule.safetyRisk) result.safetyRisk = true;
+    if (rule.impactAvailability) result.impactAvailability = true;
+  }
+  return result;
+}
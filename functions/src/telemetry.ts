@@ -0,0 +1,40 @@
+import type { Firestore } from "firebase-admin/firestore";
+import { type TelemetrySnapshot, fetchTelemetrySnapshot as fetchStubSnapshot } from "./telemetryStub";
+
+const TELEMETRY_READINGS_COLLECTION = "telemetryReadings";
+
+/**
+ * Telemetria da máquina no momento do checklist. Com `TELEMETRY_PROVIDER=aemp`, usa a
+ * última leitura importada do AEMP até `atIso`; sem configuração, mantém o stub.
+ */
+export async function fetchTelemetrySnapshot(
+  db: Firestore,
+  assetId: string,
+  atIso: string,
+): Promise<TelemetrySnapshot | undefined> {
+  if (process.env.TELEMETRY_PROVIDER !== "aemp") {
+    return fetchStubSnapshot(assetId, atIso);
+  }
+
+  const snapshot = await db
+    .collection(TELEMETRY_READINGS_COLLECTION)
+    .where("machineId", "==", assetId)
+    .where("at", "<=", atIso)
+    .orderBy("at", "desc")
+    .limit(1)
+    .get();
+  const data = snapshot.docs[0]?.data();
+  if (!data) return undefined;
+
+  const telemetry: TelemetrySnapshot = {};
+  if (typeof data.hours === "number") telemetry.hours = data.hours;
+  if (typeof data.odometerKm === "number") telemetry.odometerKm = data.odometerKm;
+  if (typeof data.fuelUsedL === "number") telemetry.fuelUsedL = data.fuelUsedL;
+  if (typeof data.idleTimeH === "number") telemetry.idleTimeH = data.idleTimeH;
+  if (Array.isArray(data.faultCodes)) {
+    telemetry.faultCodes = (data.faultCodes as unknown[]).filter((code): code is string => typeof code === "string");
+  }
+  if (typeof data.windowStart === "string") telemetry.windowStart = data.windowStart;
+  telemetry.windowEnd = typeof data.windowEnd === "string" ? data.windowEnd : String(data.at);
+  return telemetry;
+}
@@ -0,0 +1,63 @@
+import { applicationDefault, cert, initializeApp } from "firebase-admin/app";
+import { FieldPath, getFirestore, Timestamp, type DocumentData, type QueryDocumentSnapshot } from "firebase-admin/firestore";
+import { buildNcSearchTokens } from "@/lib/nc-search";
+
+const PAGE_SIZE = 300;
+
+const sameTokens = (current: unknown, next: string[]) =>
+  Array.isArray(current) && current.length === next.length && current.every((token, index) => token === next[index]);
+
+/**
+ * Preenche `searchTokens`, `createdAtTs` e `merged` nas NCs antigas, sem os
+ * quais elas somem de `GET /api/nc` ou do total da lista.
+ */
+async function main() {
+  const credential = process.env.FIREBASE_SERVICE_ACCOUNT
+    ? cert(JSON.parse(process.env.FIREBASE_SERVICE_ACCOUNT))
+    : applicationDefault();
+
+  initializeApp({ credential });
+  const firestore = getFirestore();
+
+  let last: QueryDocumentSnapshot<DocumentData> | null = null;
+  let scanned = 0;
+  let updated = 0;
+
+  for (;;) {
+    let query = firestore.collection("nonConformities").orderBy(FieldPath.documentId()).limit(PAGE_SIZE);
+    if (last) query = query.startAfter(last);
+    const snapshot = await query.get();
+    if (snapshot.empty) break;
+
+    const batch = firestore.batch();
+    let pending = 0;
+    for (const doc of snapshot.docs) {
+      const data = doc.data();
+      const updates: Record<string, unknown> = {};
+      const tokens = buildNcSearchTokens(data);
+      if (!sameTokens(data.searchTokens, tokens)) updates.searchTokens = tokens;
+      const createdAt = typeof data.createdAt === "string" ? new Date(data.createdAt) : null;
+      if (!data.createdAtTs && createdAt && !Number.isNaN(createdAt.getTime())) {
+        updates.createdAtTs = Timestamp.fromDate(createdAt);
+      }
+      const merged = typeof data.mergedIntoId === "string" && data.mergedIntoId !== "";
+      if (data.merged !== merged) updates.merged = merged;
+      if (Object.keys(updates).length) {
+        batch.update(doc.ref, updates);
+        pending += 1;
+      }
+    }
+    if (pending) await batch.commit();
+
+    scanned += snapshot.size;
+    updated += pending;
+    last = snapshot.docs[snapshot.docs.length - 1];
+  }
+
+  console.log(`Backfill concluído: ${updated} de ${scanned} NCs atualizadas.`);
+}
+
+main().catch((error) => {
+  console.error("Backfill falhou", error);
+  process.exit(1);
+});
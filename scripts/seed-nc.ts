@@ -1,5 +1,6 @@
 import { applicationDefault, cert, initializeApp } from "firebase-admin/app";
 import { getFirestore, Timestamp } from "firebase-admin/firestore";
+import { buildNcSearchTokens } from "@/lib/nc-search";
 import type { NcAction, NcStatus, Severity, TelemetryRef } from "@/types/nonconformity";
 
 const severityRank: Record<Severity, number> = {
@@ -90,10 +91,13 @@ async function main() {
     const actions = buildCorrectiveAction(createdAt.toISOString(), status);
     const dueDays = severity === "alta" ? 2 : severity === "media" ? 5 : 10;
     const dueAt = new Date(createdAt.getTime() + dueDays * 24 * 60 * 60 * 1000);
+    const title = randomOf(titles);
+    const description = "Gerado via seed de desenvolvimento";
+    const createdBy = { id: "seed-user", matricula: "0000", nome: "Usuário Seed" };
 
     await firestore.collection("nonConformities").add({
-      title: randomOf(titles),
-      description: "Gerado via seed de desenvolvimento",
+      title,
+      description,
       severity,
       safetyRisk: severity === "alta" ? Math.random() > 0.4 : Math.random() > 0.8,
       impactAvailability: Math.random() > 0.5,
@@ -101,7 +105,7 @@ async function main() {
       dueAt: dueAt.toISOString(),
       createdAt: createdAt.toISOString(),
       createdAtTs: Timestamp.fromDate(createdAt),
-      createdBy: { id: "seed-user", matricula: "0000", nome: "Usuário Seed" },
+      createdBy,
       linkedAsset: asset,
       linkedTemplateId: "template-seed",
       source: Math.random() > 0.5 ? "checklist_extra" : "checklist_question",
@@ -113,7 +117,9 @@ async function main() {
       telemetryRef: createTelemetry(),
       yearMonth: createdAt.toISOString().slice(0, 7),
       severityRank: severityRank[severity],
-      normalizedTitle: randomOf(titles).toLowerCase(),
+      normalizedTitle: title.toLowerCase(),
+      searchTokens: buildNcSearchTokens({ title, description, linkedAsset: asset, createdBy }),
+      merged: false,
     });
   });
 
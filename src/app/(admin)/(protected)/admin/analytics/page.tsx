@@ -5,6 +5,10 @@ import { collection, getDocs, orderBy, query } from "firebase/firestore";
 import { db } from "@/lib/firebase";
 import { ChecklistResponse } from "@/types/checklist";
 import { Machine, resolveMachineFleetType } from "@/types/machine";
+import MachineAvailabilitySection from "@/components/MachineAvailabilitySection";
+import MaintenanceCostSection from "@/components/MaintenanceCostSection";
+import MissedChecklistEventsSection from "@/components/MissedChecklistEventsSection";
+import PeriodicityTimelineSection from "@/components/PeriodicityTimelineSection";
 import {
   Bar,
   BarChart,
@@ -27,8 +31,12 @@ const PERIODICITY_UNITS = {
   day: { singular: "dia", plural: "dias" },
   week: { singular: "semana", plural: "semanas" },
   month: { singular: "mês", plural: "meses" },
+  hours: { singular: "hora", plural: "horas" },
+  km: { singular: "km", plural: "km" },
 } as const;
 
+const USAGE_SUFFIX = { km: "km", horimetro: "h" } as const;
+
 type Kpis = {
   totalChecklists: number;
   totalNC: number;
@@ -66,6 +74,12 @@ type PeriodicityComplianceItem = {
   quantity: number;
   anchor: "last_submission" | "calendar";
   status: "compliant" | "non_compliant";
+  usage?: {
+    meter: keyof typeof USAGE_SUFFIX;
+    dueAt: number;
+    currentReading: number;
+    projectedDueAt: string | null;
+  };
 };
 
 type PeriodicityComplianceResponse = {
@@ -89,11 +103,11 @@ export default function AnalyticsPage() {
   const responsesCol = useMemo(() => collection(db, "checklistResponses"), []);
   const machinesCol = useMemo(() => collection(db, "machines"), []);
 
-  const refreshPeriodicity = useCallback(async () => {
+  const refreshPeriodicity = useCallback(async (force = false) => {
     setPeriodicityLoading(true);
     setPeriodicityError(null);
     try {
-      const response = await fetch("/api/kpi/periodicity-compliance", {
+      const response = await fetch(`/api/kpi/periodicity-compliance${force ? "?refresh=true" : ""}`, {
         method: "GET",
         cache: "no-store",
       });
@@ -285,6 +299,11 @@ export default function AnalyticsPage() {
     [],
   );
 
+  const formatNumberPtBr = useCallback(
+    (value: number) => new Intl.NumberFormat("pt-BR", { maximumFractionDigits: 1 }).format(value),
+    [],
+  );
+
   const formatDatePtBr = useCallback((value?: string) => {
     if (!value) return "Nunca";
     const date = new Date(value);
@@ -306,7 +325,7 @@ export default function AnalyticsPage() {
           <h2 className="text-lg font-semibold">Periodicidade mínima</h2>
           <button
             type="button"
-            onClick={() => refreshPeriodicity()}
+            onClick={() => refreshPeriodicity(true)}
             className="rounded-md border border-[var(--border)] bg-white px-3 py-1 text-sm font-medium text-[var(--text)] shadow-sm transition hover:bg-[var(--surface)] disabled:opacity-60"
             disabled={periodicityLoading}
           >
@@ -385,6 +404,17 @@ export default function AnalyticsPage() {
                     <div className="mt-2 space-y-1 text-xs text-red-600">
                       <p>Último envio: {formatDatePtBr(item.lastSubmissionAt)}</p>
                       <p>Exigido: {renderRequirement(item)}</p>
+                      {item.usage && (
+                        <>
+                          <p>
+                            Vence em {formatNumberPtBr(item.usage.dueAt)} {USAGE_SUFFIX[item.usage.meter]} / atual{" "}
+                            {formatNumberPtBr(item.usage.currentReading)} {USAGE_SUFFIX[item.usage.meter]}
+                          </p>
+                          {item.usage.projectedDueAt && (
+                            <p>Vencimento projetado: {formatDatePtBr(item.usage.projectedDueAt)}</p>
+                          )}
+                        </>
+                      )}
                     </div>
                   </div>
                 ))}
@@ -394,6 +424,14 @@ export default function AnalyticsPage() {
         )}
       </section>
 
+      <MissedChecklistEventsSection />
+
+      <PeriodicityTimelineSection />
+
+      <MachineAvailabilitySection />
+
+      <MaintenanceCostSection />
+
       <section className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
         <KpiCard title="Checklists" value={loading ? "-" : kpis.totalChecklists} />
         <KpiCard
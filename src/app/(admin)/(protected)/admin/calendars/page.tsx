@@ -0,0 +1,155 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { db } from "@/lib/firebase";
+import WorkingCalendarForm from "@/components/WorkingCalendarForm";
+import { buildDefaultWorkingCalendar, normalizeWorkingCalendar } from "@/lib/working-calendar";
+import type { WorkingCalendar } from "@/types/working-calendar";
+import { addDoc, collection, doc, getDocs, setDoc } from "firebase/firestore";
+
+const WEEKDAY_SHORT = ["Dom", "Seg", "Ter", "Qua", "Qui", "Sex", "Sáb"];
+
+type UiState = {
+  mode: "list" | "edit";
+  selected?: WorkingCalendar | null;
+};
+
+export default function WorkingCalendarsAdminPage() {
+  const [calendars, setCalendars] = useState<WorkingCalendar[]>([]);
+  const [setores, setSetores] = useState<string[]>([]);
+  const [ui, setUi] = useState<UiState>({ mode: "list" });
+
+  const calendarsCol = useMemo(() => collection(db, "workingCalendars"), []);
+
+  const fetchAll = useCallback(async () => {
+    const [calendarSnap, machineSnap] = await Promise.all([
+      getDocs(calendarsCol),
+      getDocs(collection(db, "machines")),
+    ]);
+    const list = calendarSnap.docs
+      .map((docSnapshot) => normalizeWorkingCalendar(docSnapshot.id, docSnapshot.data()))
+      .filter((calendar): calendar is WorkingCalendar => Boolean(calendar));
+    const machineSetores = machineSnap.docs
+      .map((docSnapshot) => docSnapshot.data().setor)
+      .filter((setor): setor is string => typeof setor === "string" && Boolean(setor.trim()))
+      .map((setor) => setor.trim());
+    setCalendars(list);
+    setSetores(
+      Array.from(new Set([...machineSetores, ...list.map((calendar) => calendar.setor)])).sort((a, b) =>
+        a.localeCompare(b),
+      ),
+    );
+  }, [calendarsCol]);
+
+  useEffect(() => {
+    fetchAll();
+  }, [fetchAll]);
+
+  const calendarBySetor = useMemo(
+    () => new Map(calendars.map((calendar) => [calendar.setor, calendar])),
+    [calendars],
+  );
+
+  const handleSave = async (calendar: WorkingCalendar, data: Omit<WorkingCalendar, "id" | "updatedAt">) => {
+    const payload = { ...data, updatedAt: new Date().toISOString() };
+    if (calendar.id) {
+      await setDoc(doc(db, "workingCalendars", calendar.id), payload);
+    } else {
+      await addDoc(calendarsCol, payload);
+    }
+    await fetchAll();
+    setUi({ mode: "list" });
+  };
+
+  const describeShifts = (calendar: WorkingCalendar) =>
+    calendar.shifts.length
+      ? calendar.shifts.map((shift) => `${shift.name} (${shift.start}–${shift.end})`).join(", ")
+      : "Turno único";
+
+  return (
+    <div className="space-y-6">
+      <header className="space-y-1">
+        <h1 className="text-2xl font-semibold tracking-tight">Calendários de trabalho</h1>
+        <p className="text-sm text-[var(--muted)]">
+          Dias úteis, turnos e feriados por setor. Usados pelas periodicidades com âncora de calendário.
+        </p>
+      </header>
+
+      {ui.mode === "edit" && ui.selected && (
+        <section className="light-card space-y-4">
+          <div>
+            <h2 className="text-lg font-semibold">Calendário — {ui.selected.setor}</h2>
+            <p className="text-sm text-[var(--muted)]">
+              Dias fora do calendário e feriados não contam como falta de checklist.
+            </p>
+          </div>
+          <WorkingCalendarForm
+            initial={ui.selected}
+            onSubmit={(data) => handleSave(ui.selected!, data)}
+            onCancel={() => setUi({ mode: "list" })}
+          />
+        </section>
+      )}
+
+      {ui.mode === "list" && (
+        <section className="light-card overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-[var(--surface)] text-xs uppercase tracking-wide text-[var(--hint)]">
+                <tr>
+                  <th className="px-4 py-3 text-left font-medium">Setor</th>
+                  <th className="px-4 py-3 text-left font-medium">Dias</th>
+                  <th className="px-4 py-3 text-left font-medium">Turnos</th>
+                  <th className="px-4 py-3 text-left font-medium">Feriados</th>
+                  <th className="px-4 py-3 text-right font-medium">Ações</th>
+                </tr>
+              </thead>
+              <tbody>
+                {setores.map((setor) => {
+                  const configured = calendarBySetor.get(setor);
+                  const calendar = configured ?? buildDefaultWorkingCalendar(setor);
+                  return (
+                    <tr
+                      key={setor}
+                      className="border-t border-[var(--border)] transition hover:bg-[var(--primary-50)]"
+                    >
+                      <td className="px-4 py-3 text-[var(--text)]">
+                        {setor}
+                        {!configured && (
+                          <span className="ml-2 text-xs text-[var(--hint)]">(padrão)</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-[var(--muted)]">
+                        {calendar.weekdays.map((day) => WEEKDAY_SHORT[day]).join(", ") || "-"}
+                      </td>
+                      <td className="px-4 py-3 text-[var(--muted)]">{describeShifts(calendar)}</td>
+                      <td className="px-4 py-3 text-[var(--muted)]">{calendar.holidays.length}</td>
+                      <td className="px-4 py-3">
+                        <div className="flex justify-end gap-2">
+                          <button
+                            onClick={() => setUi({ mode: "edit", selected: calendar })}
+                            className="rounded-md bg-[var(--warning)] px-3 py-1 text-xs font-semibold text-white transition hover:bg-amber-700 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-[var(--warning)] focus-visible:ring-offset-2"
+                          >
+                            Editar
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+
+                {setores.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="px-4 py-6 text-center text-[var(--hint)]">
+                      Nenhum setor cadastrado nas máquinas até o momento.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      )}
+    </div>
+  );
+}
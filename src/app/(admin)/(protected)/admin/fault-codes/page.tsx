@@ -0,0 +1,180 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import NcSuggestionsSection from "@/components/NcSuggestionsSection";
+import { FAULT_CODE_CSV_HEADER, parseFaultCodeCsv } from "@/lib/fault-codes";
+import {
+  FAULT_CODE_PROTOCOL_LABEL,
+  type FaultCodeCatalogEntry,
+  type FaultCodeProtocol,
+} from "@/types/fault-code";
+
+const SEVERITY_LABEL = { baixa: "Baixa", media: "Média", alta: "Alta" } as const;
+
+const inputClass =
+  "rounded-md border border-[var(--border)] bg-[var(--surface)] px-3 py-2 text-sm text-[var(--text)] focus:outline-none focus:ring-2 focus:ring-[var(--primary)]";
+
+export default function FaultCodesAdminPage() {
+  const [entries, setEntries] = useState<FaultCodeCatalogEntry[]>([]);
+  const [protocol, setProtocol] = useState<FaultCodeProtocol>("j1939");
+  const [oem, setOem] = useState("");
+  const [csv, setCsv] = useState("");
+  const [importing, setImporting] = useState(false);
+  const [message, setMessage] = useState<{ kind: "error" | "success"; text: string } | null>(null);
+
+  const fetchCatalog = useCallback(async () => {
+    try {
+      const response = await fetch("/api/fault-codes", { cache: "no-store" });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(typeof payload?.error === "string" ? payload.error : "Falha ao carregar o catálogo.");
+      }
+      setEntries((payload?.data ?? []) as FaultCodeCatalogEntry[]);
+    } catch (err) {
+      console.error("Failed to load fault code catalog", err);
+      setMessage({ kind: "error", text: (err as Error).message });
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchCatalog();
+  }, [fetchCatalog]);
+
+  const handleImport = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const { rows, errors } = parseFaultCodeCsv(csv);
+    if (errors.length) {
+      setMessage({ kind: "error", text: errors.slice(0, 5).join(" · ") });
+      return;
+    }
+    if (!rows.length) {
+      setMessage({ kind: "error", text: "Cole ao menos uma linha da tabela." });
+      return;
+    }
+
+    setImporting(true);
+    setMessage(null);
+    try {
+      const response = await fetch("/api/fault-codes", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ protocol, oem: oem.trim() || null, entries: rows }),
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(typeof payload?.error === "string" ? payload.error : "Falha ao importar.");
+      }
+      setCsv("");
+      setMessage({ kind: "success", text: `${payload?.imported ?? rows.length} código(s) importado(s).` });
+      await fetchCatalog();
+    } catch (err) {
+      setMessage({ kind: "error", text: (err as Error).message });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <header className="space-y-1">
+        <h1 className="text-2xl font-semibold tracking-tight">Códigos de falha</h1>
+        <p className="text-sm text-[var(--muted)]">
+          Catálogo J1939, OBD-II e de fabricantes usado para decodificar a telemetria e sugerir NCs.
+        </p>
+      </header>
+
+      <section className="light-card space-y-4">
+        <h2 className="text-lg font-semibold">Importar tabela</h2>
+        <form onSubmit={handleImport} className="space-y-3">
+          <div className="grid gap-3 sm:grid-cols-2">
+            <label className="grid gap-1 text-sm font-medium text-[var(--text)]">
+              Protocolo
+              <select
+                className={inputClass}
+                value={protocol}
+                onChange={(event) => setProtocol(event.target.value as FaultCodeProtocol)}
+              >
+                {(Object.keys(FAULT_CODE_PROTOCOL_LABEL) as FaultCodeProtocol[]).map((value) => (
+                  <option key={value} value={value}>
+                    {FAULT_CODE_PROTOCOL_LABEL[value]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="grid gap-1 text-sm font-medium text-[var(--text)]">
+              Fabricante (opcional)
+              <input
+                className={inputClass}
+                value={oem}
+                onChange={(event) => setOem(event.target.value)}
+                placeholder="Ex.: CAT, Volvo"
+              />
+            </label>
+          </div>
+          <label className="grid gap-1 text-sm font-medium text-[var(--text)]">
+            Tabela ({FAULT_CODE_CSV_HEADER})
+            <textarea
+              className={`${inputClass} min-h-[140px] font-mono`}
+              value={csv}
+              onChange={(event) => setCsv(event.target.value)}
+              placeholder={"100:1;Pressão do óleo do motor;Pressão muito baixa;Motor;alta\nE123;Bomba hidráulica;Sobrecarga;Hidráulico;media"}
+            />
+          </label>
+          {message && (
+            <p className={`text-sm ${message.kind === "error" ? "text-[var(--danger)]" : "text-emerald-700"}`}>
+              {message.text}
+            </p>
+          )}
+          <button
+            type="submit"
+            disabled={importing}
+            className="rounded-md bg-[var(--primary)] px-4 py-2 text-sm font-semibold text-white shadow-sm-soft transition hover:bg-[var(--primary-700)] disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            {importing ? "Importando..." : "Importar"}
+          </button>
+        </form>
+      </section>
+
+      <NcSuggestionsSection />
+
+      <section className="light-card overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-[var(--surface)] text-xs uppercase tracking-wide text-[var(--hint)]">
+              <tr>
+                <th className="px-4 py-3 text-left font-medium">Código</th>
+                <th className="px-4 py-3 text-left font-medium">Protocolo</th>
+                <th className="px-4 py-3 text-left font-medium">Componente</th>
+                <th className="px-4 py-3 text-left font-medium">Modo de falha</th>
+                <th className="px-4 py-3 text-left font-medium">Sistema</th>
+                <th className="px-4 py-3 text-left font-medium">Severidade</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map((entry) => (
+                <tr key={entry.id} className="border-t border-[var(--border)]">
+                  <td className="px-4 py-3 font-mono text-[var(--text)]">{entry.code}</td>
+                  <td className="px-4 py-3 text-[var(--muted)]">
+                    {FAULT_CODE_PROTOCOL_LABEL[entry.protocol]}
+                    {entry.oem ? ` · ${entry.oem}` : ""}
+                  </td>
+                  <td className="px-4 py-3 text-[var(--text)]">{entry.component}</td>
+                  <td className="px-4 py-3 text-[var(--muted)]">{entry.failureMode}</td>
+                  <td className="px-4 py-3 text-[var(--muted)]">{entry.systemCategory}</td>
+                  <td className="px-4 py-3 text-[var(--muted)]">{SEVERITY_LABEL[entry.severity]}</td>
+                </tr>
+              ))}
+              {entries.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="px-4 py-6 text-center text-[var(--hint)]">
+                    Nenhum código importado. As tabelas embutidas de J1939 e OBD-II continuam valendo.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </section>
+    </div>
+  );
+}
@@ -10,14 +10,14 @@ import type { NonConformity } from "@/types/nonconformity";
 import type { Machine } from "@/types/machine";
 import { resolveMachineFleetType } from "@/types/machine";
 import { db } from "@/lib/firebase";
-import {
-  calcAvgContainmentHours,
-  calcAvgResolutionHours,
-  groupByDayWeek,
-} from "@/lib/kpis/nc";
+import { groupByDayWeek } from "@/lib/kpis/nc";
+import type { ReliabilityMetrics, ReliabilityReport } from "@/lib/kpis/reliability";
+import type { CostReport } from "@/lib/kpis/costs";
 import {
   CartesianGrid,
   Legend,
+  Line,
+  LineChart,
   ResponsiveContainer,
   Scatter,
   ScatterChart,
@@ -46,6 +46,35 @@ type IdlePoint = {
   title: string;
 };
 
+type ReliabilityResponse = ReliabilityReport & {
+  from: string;
+  to: string;
+  machine: {
+    machineId: string;
+    modelo: string;
+    metrics: ReliabilityMetrics;
+    model: (ReliabilityMetrics & { modelo: string; machines: number }) | null;
+    bySystem: ReliabilityReport["bySystem"];
+    trend: ReliabilityReport["trend"];
+  } | null;
+};
+
+type CostResponse = CostReport & { from: string; to: string };
+
+type ComparisonRow = ReliabilityMetrics & { scope: string };
+
+type CostMonthRow = CostReport["byMonth"][number];
+
+type SystemRow = ReliabilityReport["bySystem"][number];
+
+const formatHours = (value: number | null | undefined) => (typeof value === "number" ? value.toFixed(1) : "-");
+
+const formatPercent = (value: number | null | undefined) =>
+  typeof value === "number" ? `${value.toFixed(1)}%` : "-";
+
+const formatCurrency = (value: number | null | undefined) =>
+  typeof value === "number" ? value.toLocaleString("pt-BR", { style: "currency", currency: "BRL" }) : "-";
+
 const severityLabel: Record<string, string> = {
   baixa: "Baixa",
   media: "Média",
@@ -70,6 +99,8 @@ export default function AssetReliabilityPage() {
   const assetId = params?.id;
   const [machine, setMachine] = useState<Machine | null>(null);
   const [records, setRecords] = useState<NonConformity[]>([]);
+  const [reliability, setReliability] = useState<ReliabilityResponse | null>(null);
+  const [costs, setCosts] = useState<CostResponse | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -92,10 +123,21 @@ export default function AssetReliabilityPage() {
           fleetType: resolveMachineFleetType(machineData.fleetType),
         });
 
-        const response = await fetch(`/api/nc?assetId=${assetId}&pageSize=500`);
+        const [response, reliabilityResponse, costsResponse] = await Promise.all([
+          fetch(`/api/nc?assetId=${assetId}&pageSize=500`),
+          fetch(`/api/kpi/reliability?machineId=${encodeURIComponent(assetId)}`, { cache: "no-store" }),
+          fetch(`/api/kpi/costs?machineId=${encodeURIComponent(assetId)}`, { cache: "no-store" }),
+        ]);
         if (!response.ok) throw new Error("Falha ao carregar NCs deste ativo");
+        if (!reliabilityResponse.ok) throw new Error("Falha ao carregar indicadores de confiabilidade");
         const payload = await response.json();
         setRecords(payload.data as NonConformity[]);
+        setReliability((await reliabilityResponse.json()) as ReliabilityResponse);
+        if (costsResponse.ok) {
+          setCosts((await costsResponse.json()) as CostResponse);
+        } else {
+          console.warn("Failed to load maintenance costs", costsResponse.status);
+        }
       } catch (err) {
         console.error(err);
         setError("Não foi possível carregar os dados de confiabilidade.");
@@ -107,61 +149,30 @@ export default function AssetReliabilityPage() {
     load();
   }, [assetId]);
 
-  const metrics = useMemo(() => {
-    if (!records.length) {
-      return {
-        totalNc: 0,
-        openNc: 0,
-        closedNc: 0,
-        avgContainment: 0,
-        avgResolution: 0,
-        mtbf: undefined as number | undefined,
-        mttr: undefined as number | undefined,
-        availability: undefined as number | undefined,
-        ncPer100h: undefined as number | undefined,
-        ncPer1000km: undefined as number | undefined,
-      };
-    }
-
-    const totalNc = records.length;
+  const counts = useMemo(() => {
     const openNc = records.filter((record) => record.status !== "resolvida").length;
-    const closedNc = totalNc - openNc;
-    const avgContainment = calcAvgContainmentHours(records);
-    const avgResolution = calcAvgResolutionHours(records);
-
-    const hoursReadings = records
-      .map((record) => record.telemetryRef?.hours)
-      .filter((value): value is number => typeof value === "number")
-      .sort((a, b) => a - b);
-
-    const kmReadings = records
-      .map((record) => record.telemetryRef?.odometerKm)
-      .filter((value): value is number => typeof value === "number")
-      .sort((a, b) => a - b);
-
-    const hoursSpan = hoursReadings.length >= 2 ? hoursReadings.at(-1)! - hoursReadings[0]! : undefined;
-    const kmSpan = kmReadings.length >= 2 ? kmReadings.at(-1)! - kmReadings[0]! : undefined;
-
-    const mtbf = hoursSpan && closedNc > 0 ? hoursSpan / closedNc : undefined;
-    const mttr = closedNc > 0 ? avgResolution : undefined;
-    const availability = mtbf && mttr ? mtbf / (mtbf + mttr) : undefined;
-    const ncPer100h = hoursSpan ? (totalNc / hoursSpan) * 100 : undefined;
-    const ncPer1000km = kmSpan ? (totalNc / kmSpan) * 1000 : undefined;
-
-    return {
-      totalNc,
-      openNc,
-      closedNc,
-      avgContainment,
-      avgResolution,
-      mtbf,
-      mttr,
-      availability,
-      ncPer100h,
-      ncPer1000km,
-    };
+    return { totalNc: records.length, openNc, closedNc: records.length - openNc };
   }, [records]);
 
+  const ownMetrics = reliability?.machine?.metrics;
+
+  const comparison = useMemo<ComparisonRow[]>(() => {
+    if (!reliability?.machine) return [];
+    const rows: ComparisonRow[] = [{ scope: "Este ativo", ...reliability.machine.metrics }];
+    if (reliability.machine.model) {
+      rows.push({
+        scope: `Modelo ${reliability.machine.model.modelo} (${reliability.machine.model.machines} máq.)`,
+        ...reliability.machine.model,
+      });
+    }
+    rows.push({ scope: "Frota", ...reliability.fleet });
+    return rows;
+  }, [reliability]);
+
+  const systemRows = useMemo<SystemRow[]>(() => reliability?.machine?.bySystem ?? [], [reliability]);
+
+  const costMonths = useMemo<CostMonthRow[]>(() => costs?.byMonth.filter((month) => month.total > 0) ?? [], [costs]);
+
   const resolutionScatter = useMemo<ResolutionPoint[]>(
     () =>
       records
@@ -234,29 +245,156 @@ export default function AssetReliabilityPage() {
       <Card className="grid gap-4 md:grid-cols-2 xl:grid-cols-4" padding="lg">
         <div>
           <div className="text-sm text-gray-500">NCs registradas</div>
-          <div className="text-2xl font-semibold text-gray-900">{metrics.totalNc}</div>
-          <div className="text-xs text-gray-500">Aberta(s): {metrics.openNc} • Fechada(s): {metrics.closedNc}</div>
+          <div className="text-2xl font-semibold text-gray-900">{counts.totalNc}</div>
+          <div className="text-xs text-gray-500">Aberta(s): {counts.openNc} • Fechada(s): {counts.closedNc}</div>
         </div>
         <div>
           <div className="text-sm text-gray-500">MTBF (h)</div>
-          <div className="text-2xl font-semibold text-gray-900">
-            {metrics.mtbf ? metrics.mtbf.toFixed(1) : "-"}
+          <div className="text-2xl font-semibold text-gray-900">{formatHours(ownMetrics?.mtbf)}</div>
+          <div className="text-xs text-gray-500">
+            {ownMetrics?.failures ?? 0} falha(s) em {formatHours(ownMetrics?.operatingHours)} h
           </div>
         </div>
         <div>
           <div className="text-sm text-gray-500">MTTR (h)</div>
-          <div className="text-2xl font-semibold text-gray-900">
-            {metrics.mttr ? metrics.mttr.toFixed(1) : "-"}
-          </div>
+          <div className="text-2xl font-semibold text-gray-900">{formatHours(ownMetrics?.mttr)}</div>
+          <div className="text-xs text-gray-500">Falhas/1.000 h: {formatHours(ownMetrics?.failureRatePer1000h)}</div>
         </div>
         <div>
           <div className="text-sm text-gray-500">Disponibilidade</div>
-          <div className="text-2xl font-semibold text-gray-900">
-            {metrics.availability ? `${(metrics.availability * 100).toFixed(1)}%` : "-"}
-          </div>
+          <div className="text-2xl font-semibold text-gray-900">{formatPercent(ownMetrics?.availability)}</div>
         </div>
       </Card>
 
+      {reliability && (
+        <Card padding="lg" className="space-y-4">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-gray-900">Comparativo</h2>
+            <span className="text-xs text-gray-500">
+              {dateFormatter.format(new Date(reliability.from))} – {dateFormatter.format(new Date(reliability.to))}
+            </span>
+          </div>
+          <DataTable
+            columns={[
+              { key: "scope", label: "Escopo" },
+              { key: "mtbf", label: "MTBF (h)", render: (row: ComparisonRow) => formatHours(row.mtbf) },
+              { key: "mttr", label: "MTTR (h)", render: (row: ComparisonRow) => formatHours(row.mttr) },
+              {
+                key: "failureRatePer1000h",
+                label: "Falhas/1.000 h",
+                render: (row: ComparisonRow) => formatHours(row.failureRatePer1000h),
+              },
+              {
+                key: "availability",
+                label: "Disponibilidade",
+                render: (row: ComparisonRow) => formatPercent(row.availability),
+              },
+            ]}
+            data={comparison}
+            page={1}
+            pageSize={comparison.length || 1}
+            total={comparison.length}
+            isLoading={false}
+            onPageChange={() => undefined}
+            onPageSizeChange={() => undefined}
+          />
+        </Card>
+      )}
+
+      {costs && (
+        <Card padding="lg" className="space-y-4">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-gray-900">Custos de manutenção</h2>
+            <span className="text-xs text-gray-500">
+              {dateFormatter.format(new Date(costs.from))} – {dateFormatter.format(new Date(costs.to))}
+            </span>
+          </div>
+          <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-4">
+            <div>
+              <div className="text-sm text-gray-500">Custo total</div>
+              <div className="text-2xl font-semibold text-gray-900">{formatCurrency(costs.fleet.total)}</div>
+              <div className="text-xs text-gray-500">{costs.fleet.ncs} NC(s) com custo</div>
+            </div>
+            <div>
+              <div className="text-sm text-gray-500">Composição</div>
+              <div className="text-xs text-gray-500">Mão de obra: {formatCurrency(costs.fleet.labor)}</div>
+              <div className="text-xs text-gray-500">Peças: {formatCurrency(costs.fleet.parts)}</div>
+              <div className="text-xs text-gray-500">Serviços: {formatCurrency(costs.fleet.services)}</div>
+            </div>
+            <div>
+              <div className="text-sm text-gray-500">Custo por hora</div>
+              <div className="text-2xl font-semibold text-gray-900">{formatCurrency(costs.fleet.costPerHour)}</div>
+              <div className="text-xs text-gray-500">{formatHours(costs.fleet.operatingHours)} h de operação</div>
+            </div>
+            <div>
+              <div className="text-sm text-gray-500">Custo por km</div>
+              <div className="text-2xl font-semibold text-gray-900">{formatCurrency(costs.fleet.costPerKm)}</div>
+              <div className="text-xs text-gray-500">{formatHours(costs.fleet.kmDriven)} km rodados</div>
+            </div>
+          </div>
+          {costMonths.length > 0 && (
+            <DataTable
+              columns={[
+                { key: "month", label: "Mês" },
+                { key: "total", label: "Total", render: (row: CostMonthRow) => formatCurrency(row.total) },
+                { key: "labor", label: "Mão de obra", render: (row: CostMonthRow) => formatCurrency(row.labor) },
+                { key: "parts", label: "Peças", render: (row: CostMonthRow) => formatCurrency(row.parts) },
+                { key: "services", label: "Serviços", render: (row: CostMonthRow) => formatCurrency(row.services) },
+                { key: "costPerHour", label: "R$/h", render: (row: CostMonthRow) => formatCurrency(row.costPerHour) },
+              ]}
+              data={costMonths}
+              page={1}
+              pageSize={costMonths.length}
+              total={costMonths.length}
+              isLoading={false}
+              onPageChange={() => undefined}
+              onPageSizeChange={() => undefined}
+            />
+          )}
+        </Card>
+      )}
+
+      <div className="grid gap-6 xl:grid-cols-2">
+        <Card padding="lg" className="space-y-4">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-gray-900">Tendência de MTBF e MTTR</h2>
+            <span className="text-xs text-gray-500">Horas por mês</span>
+          </div>
+          <div className="h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={reliability?.machine?.trend ?? []}>
+                <CartesianGrid stroke="#e5e7eb" />
+                <XAxis dataKey="month" />
+                <YAxis />
+                <Tooltip />
+                <Legend />
+                <Line type="monotone" dataKey="mtbf" name="MTBF (h)" stroke="#2563eb" connectNulls />
+                <Line type="monotone" dataKey="mttr" name="MTTR (h)" stroke="#f97316" connectNulls />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </Card>
+
+        <Card padding="lg" className="space-y-4">
+          <h2 className="text-lg font-semibold text-gray-900">Falhas por sistema</h2>
+          <DataTable
+            columns={[
+              { key: "system", label: "Sistema" },
+              { key: "failures", label: "Falhas" },
+              { key: "mtbf", label: "MTBF (h)", render: (row: SystemRow) => formatHours(row.mtbf) },
+              { key: "mttr", label: "MTTR (h)", render: (row: SystemRow) => formatHours(row.mttr) },
+            ]}
+            data={systemRows}
+            page={1}
+            pageSize={systemRows.length || 1}
+            total={systemRows.length}
+            isLoading={false}
+            onPageChange={() => undefined}
+            onPageSizeChange={() => undefined}
+          />
+        </Card>
+      </div>
+
       <div className="grid gap-6 xl:grid-cols-2">
         <Card padding="lg" className="space-y-4">
           <div className="flex items-center justify-between">
@@ -2,7 +2,7 @@
 
 import { useCallback, useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
-import { db } from "@/lib/firebase";
+import { auth, db } from "@/lib/firebase";
 import {
   addDoc,
   collection,
@@ -13,15 +13,26 @@ import {
 } from "firebase/firestore";
 import {
   MACHINE_FLEET_TYPE_LABEL,
+  MACHINE_STATUS_LABEL,
   Machine,
+  MachineStatus,
   resolveMachineFleetType,
+  resolveMachineStatus,
 } from "@/types/machine";
 import MachineForm from "@/components/MachineForm";
+import MachineStatusForm from "@/components/MachineStatusForm";
 import QrCodeGenerator from "@/components/QrCodeGenerator";
 import WeeklyChecklistForm from "@/components/WeeklyChecklistForm";
 
+const STATUS_BADGE_CLASS: Record<MachineStatus, string> = {
+  available: "bg-emerald-100 text-emerald-700",
+  restricted: "bg-amber-100 text-amber-700",
+  down: "bg-red-100 text-red-700",
+  retired: "bg-gray-200 text-gray-700",
+};
+
 type UiState = {
-  mode: "list" | "create" | "edit" | "qr" | "weekly";
+  mode: "list" | "create" | "edit" | "qr" | "weekly" | "status";
   selected?: Machine | null;
 };
 
@@ -69,6 +80,26 @@ export default function MachinesAdminPage() {
     await fetchMachines();
   };
 
+  const handleStatusChange = async (machine: Machine, status: MachineStatus, reason: string) => {
+    const user = auth.currentUser;
+    const response = await fetch(`/api/machines/${machine.id}/status`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        status,
+        reason: reason || undefined,
+        actor: user ? { id: user.uid, nome: user.displayName ?? user.email ?? null } : undefined,
+      }),
+    });
+    if (!response.ok) {
+      const payload = await response.json().catch(() => null);
+      alert(typeof payload?.error === "string" ? payload.error : "Falha ao atualizar status.");
+      return;
+    }
+    await fetchMachines();
+    setUi({ mode: "list" });
+  };
+
   const qrValueFor = (machine: Machine) =>
     `${window.location.origin}/checklist/${encodeURIComponent(machine.tag)}`;
 
@@ -161,6 +192,24 @@ export default function MachinesAdminPage() {
         </section>
       )}
 
+      {ui.mode === "status" && ui.selected && (
+        <section className="light-card space-y-4">
+          <div>
+            <h2 className="text-lg font-semibold">
+              Status operacional — {ui.selected.modelo} ({ui.selected.tag})
+            </h2>
+            <p className="text-sm text-[var(--muted)]">
+              NCs de segurança com severidade alta param a máquina automaticamente e a liberam quando resolvidas.
+            </p>
+          </div>
+          <MachineStatusForm
+            machine={ui.selected}
+            onSubmit={(status, reason) => handleStatusChange(ui.selected!, status, reason)}
+            onCancel={() => setUi({ mode: "list" })}
+          />
+        </section>
+      )}
+
       {ui.mode === "weekly" && ui.selected && (
         <WeeklyChecklistForm
           machine={ui.selected}
@@ -179,6 +228,7 @@ export default function MachinesAdminPage() {
                   <th className="px-4 py-3 text-left font-medium">Setor</th>
                   <th className="px-4 py-3 text-left font-medium">TAG</th>
                   <th className="px-4 py-3 text-left font-medium">Tipo</th>
+                  <th className="px-4 py-3 text-left font-medium">Status</th>
                   <th className="px-4 py-3 text-right font-medium">Ações</th>
                 </tr>
               </thead>
@@ -199,6 +249,14 @@ export default function MachinesAdminPage() {
                     <td className="px-4 py-3 text-[var(--muted)]">
                       {MACHINE_FLEET_TYPE_LABEL[resolveMachineFleetType(machine.fleetType)]}
                     </td>
+                    <td className="px-4 py-3">
+                      <span
+                        className={`inline-flex rounded-full px-2 py-0.5 text-xs font-semibold ${STATUS_BADGE_CLASS[resolveMachineStatus(machine.status)]}`}
+                        title={machine.statusReason ?? undefined}
+                      >
+                        {MACHINE_STATUS_LABEL[resolveMachineStatus(machine.status)]}
+                      </span>
+                    </td>
                     <td className="px-4 py-3">
                       <div className="flex justify-end gap-2">
                         <button
@@ -213,6 +271,12 @@ export default function MachinesAdminPage() {
                         >
                           Checklist semanal
                         </button>
+                        <button
+                          onClick={() => setUi({ mode: "status", selected: machine })}
+                          className="rounded-md border border-[var(--border)] bg-[var(--surface)] px-3 py-1 text-xs font-semibold text-[var(--text)] transition hover:bg-[var(--primary-50)] focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-[var(--primary)]"
+                        >
+                          Status
+                        </button>
                         <button
                           onClick={() => setUi({ mode: "qr", selected: machine })}
                           className="rounded-md bg-[var(--success)] px-3 py-1 text-xs font-semibold text-white transition hover:bg-emerald-700 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-[var(--success)] focus-visible:ring-offset-2"
@@ -238,7 +302,7 @@ export default function MachinesAdminPage() {
 
                 {machines.length === 0 && (
                   <tr>
-                    <td colSpan={6} className="px-4 py-6 text-center text-[var(--hint)]">
+                    <td colSpan={7} className="px-4 py-6 text-center text-[var(--hint)]">
                       Nenhuma máquina cadastrada até o momento.
                     </td>
                   </tr>
@@ -1,13 +1,33 @@
 ﻿"use client";
 
 import { useCallback, useEffect, useMemo, useState } from "react";
+import Image from "next/image";
+import Link from "next/link";
 import { useParams, useRouter } from "next/navigation";
 import Card from "@/components/ui/Card";
 import Alert from "@/components/ui/Alert";
-import type { NcAction, NonConformity, NcStatus, Severity, TelemetryRef } from "@/types/nonconformity";
+import { authHeaders } from "@/lib/auth-headers";
+import { auth } from "@/lib/firebase";
+import type { NcTransitionRule } from "@/lib/nc-workflow";
+import {
+  occurrenceKey,
+  type NcAction,
+  type NcActionCost,
+  type NcAuditEntry,
+  type NcAuditEventType,
+  type NonConformity,
+  type NcStatus,
+  type Severity,
+  type TelemetryRef,
+} from "@/types/nonconformity";
+import type { DecodedFaultCode } from "@/types/fault-code";
+import { MAX_WHYS, ROOT_CAUSE_TAXONOMY } from "@/lib/root-cause";
+import { ISHIKAWA_CATEGORIES, ISHIKAWA_CATEGORY_LABEL, type IshikawaCategory } from "@/types/root-cause";
+import { PART_REQUEST_STATUS_LABEL, type PartRequest } from "@/types/part";
+import { RECURRENCE_RULE_LABEL, RECURRENCE_STATUS_LABEL, type NcRecurrenceMatch } from "@/types/recurrence";
+import { SLA_ESCALATION_LEVEL_LABEL, SLA_STATE_LABEL } from "@/types/sla";
 
 const severityOptions: Severity[] = ["alta", "media", "baixa"];
-const statusOptions: NcStatus[] = ["aberta", "em_execucao", "aguardando_peca", "bloqueada", "resolvida"];
 
 const statusLabel: Record<NcStatus, string> = {
   aberta: "Aberta",
@@ -23,19 +43,46 @@ const severityLabel: Record<Severity, string> = {
   baixa: "Baixa",
 };
 
-type AuditEntry = {
-  id: string;
-  byUserId?: string;
-  byNome?: string;
-  atISO?: string;
-  diff?: Record<string, { before: unknown; after: unknown }>;
+const auditEventLabel: Record<NcAuditEventType, string> = {
+  updated: "Edição",
+  started: "Execução iniciada",
+  waiting_part: "Aguardando peça",
+  blocked: "Bloqueada",
+  resumed: "Execução retomada",
+  resolved: "Resolvida",
+  reopened: "Reaberta",
+  escalated: "Escalonada (SLA)",
+  effectiveness_proposed: "Eficácia proposta",
+  effectiveness_confirmed: "Eficácia confirmada",
+  merged: "NCs mescladas",
+  split: "NC separada",
 };
 
+type AuditEntry = Partial<NcAuditEntry> & { id: string };
+
+type SplitDraft = {
+  title: string;
+  description: string;
+  severity: Severity;
+  actionIds: string[];
+  occurrenceIds: string[];
+};
+
+const EMPTY_SPLIT: SplitDraft = { title: "", description: "", severity: "media", actionIds: [], occurrenceIds: [] };
+
+const toggleId = (ids: string[], id: string) => (ids.includes(id) ? ids.filter((item) => item !== id) : [...ids, id]);
+
 type DraftState = {
   status: NcStatus;
+  statusReason?: string;
+  partNumber?: string;
+  partExpectedAt?: string;
   severity: Severity;
   dueAt?: string;
   rootCause?: string;
+  whys: string[];
+  causeCategory?: IshikawaCategory;
+  causeCode?: string;
   actions: NcAction[];
   safetyRisk?: boolean;
   impactAvailability?: boolean;
@@ -78,6 +125,9 @@ function createDraft(record: NonConformity): DraftState {
     severity: (record.severity ?? "media") as Severity,
     dueAt: record.dueAt,
     rootCause: record.rootCause ?? "",
+    whys: record.rootCauseAnalysis?.whys.length ? [...record.rootCauseAnalysis.whys] : [""],
+    causeCategory: record.rootCauseAnalysis?.category,
+    causeCode: record.rootCauseAnalysis?.causeCode,
     actions: record.actions ? structuredClone(record.actions) : [],
     safetyRisk: record.safetyRisk ?? false,
     impactAvailability: record.impactAvailability ?? false,
@@ -97,12 +147,12 @@ function sanitizeActions(actions: NcAction[]): NcAction[] {
 async function patchNc(id: string, body: Record<string, unknown>) {
   const response = await fetch(`/api/nc/${id}`, {
     method: "PATCH",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ ...body, actor: { id: "admin-ui", nome: "Painel Admin" } }),
+    headers: { "Content-Type": "application/json", ...(await authHeaders()) },
+    body: JSON.stringify(body),
   });
   if (!response.ok) {
-    const message = await response.text();
-    throw new Error(message || "Falha ao atualizar NC");
+    const payload = await response.json().catch(() => null);
+    throw new Error(typeof payload?.error === "string" ? payload.error : "Falha ao atualizar NC");
   }
 }
 
@@ -111,13 +161,18 @@ export default function NonConformityDetailPage() {
   const router = useRouter();
   const [record, setRecord] = useState<NonConformity | null>(null);
   const [audits, setAudits] = useState<AuditEntry[]>([]);
+  const [transitions, setTransitions] = useState<NcTransitionRule[]>([]);
   const [draft, setDraft] = useState<DraftState | null>(null);
   const [telemetry, setTelemetry] = useState<TelemetryRef | null>(null);
+  const [decodedFaults, setDecodedFaults] = useState<DecodedFaultCode[]>([]);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [feedback, setFeedback] = useState<{ type: "success" | "error"; text: string } | null>(null);
   const [refreshToken, setRefreshToken] = useState(0);
+  const [partRequests, setPartRequests] = useState<PartRequest[]>([]);
+  const [partDraft, setPartDraft] = useState({ partCode: "", quantity: "1", expectedAt: "" });
+  const [splitDraft, setSplitDraft] = useState<SplitDraft>(EMPTY_SPLIT);
 
   const ncId = params?.id;
 
@@ -134,6 +189,7 @@ export default function NonConformityDetailPage() {
       setDraft(createDraft(nc));
       setTelemetry(nc.telemetryRef ?? null);
       setAudits(payload.audits as AuditEntry[]);
+      setTransitions((payload.transitions ?? []) as NcTransitionRule[]);
     } catch (err) {
       console.error(err);
       setError("Não foi possível carregar esta não conformidade.");
@@ -146,7 +202,37 @@ export default function NonConformityDetailPage() {
     loadData();
   }, [loadData, refreshToken]);
 
+  useEffect(() => {
+    if (!ncId) return;
+    fetch(`/api/part-requests?ncId=${encodeURIComponent(ncId)}`, { cache: "no-store" })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((payload) => setPartRequests((payload?.data ?? []) as PartRequest[]))
+      .catch((err) => console.error("Failed to load part requests", err));
+  }, [ncId, refreshToken]);
+
+  useEffect(() => {
+    const codes = Array.from(new Set([...(telemetry?.faultCodes ?? []), ...(record?.faultCode ? [record.faultCode] : [])]));
+    if (!codes.length) {
+      setDecodedFaults([]);
+      return;
+    }
+    let cancelled = false;
+    fetch(`/api/fault-codes/decode?codes=${encodeURIComponent(codes.join(","))}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((payload) => {
+        if (!cancelled) setDecodedFaults((payload?.data ?? []) as DecodedFaultCode[]);
+      })
+      .catch((err) => console.error("Failed to decode fault codes", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [telemetry, record?.faultCode]);
+
   const requiresCapa = record?.recurrenceOfId ? true : false;
+  // NCs anteriores ao motor de recorrência só têm o `recurrenceOfId`.
+  const recurrence: (Partial<NcRecurrenceMatch> & { ofId: string }) | null =
+    record?.recurrenceMatch ?? (record?.recurrenceOfId ? { ofId: record.recurrenceOfId } : null);
+  const pendingTransition = transitions.find((rule) => rule.to === draft?.status);
 
   const timeline = useMemo(() => {
     if (!record) return [] as { title: string; timestamp: string; description?: string }[];
@@ -197,6 +283,14 @@ export default function NonConformityDetailPage() {
     });
   };
 
+  const updateActionCost = (action: NcAction, patch: Partial<NcActionCost>) => {
+    const merged: NcActionCost = { ...action.cost, ...patch };
+    const cost = Object.fromEntries(
+      Object.entries(merged).filter(([, value]) => value !== undefined && value !== ""),
+    ) as NcActionCost;
+    updateAction(action.id, { cost: Object.keys(cost).length ? cost : undefined });
+  };
+
   const removeAction = (actionId: string) => {
     setDraft((prev) => {
       if (!prev) return prev;
@@ -226,9 +320,19 @@ export default function NonConformityDetailPage() {
     try {
       await patchNc(ncId, {
         status: draft.status,
+        transition: pendingTransition
+          ? { reason: draft.statusReason, partNumber: draft.partNumber, expectedAt: draft.partExpectedAt }
+          : undefined,
         severity: draft.severity,
         dueAt: draft.dueAt,
         rootCause: draft.rootCause,
+        rootCauseAnalysis: draft.causeCategory
+          ? {
+              whys: draft.whys.map((why) => why.trim()).filter(Boolean),
+              category: draft.causeCategory,
+              causeCode: draft.causeCode ?? null,
+            }
+          : null,
         actions: sanitizeActions(draft.actions),
         safetyRisk: draft.safetyRisk,
         impactAvailability: draft.impactAvailability,
@@ -237,7 +341,7 @@ export default function NonConformityDetailPage() {
       setRefreshToken((prev) => prev + 1);
     } catch (err) {
       console.error(err);
-      setFeedback({ type: "error", text: "Erro ao salvar alterações." });
+      setFeedback({ type: "error", text: (err as Error).message || "Erro ao salvar alterações." });
     } finally {
       setSaving(false);
     }
@@ -250,6 +354,148 @@ export default function NonConformityDetailPage() {
     }
   };
 
+  const handleRequestPart = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!ncId || !partDraft.partCode.trim()) return;
+    setSaving(true);
+    setFeedback(null);
+    try {
+      const response = await fetch("/api/part-requests", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...(await authHeaders()) },
+        body: JSON.stringify({
+          ncId,
+          partCode: partDraft.partCode,
+          quantity: Number(partDraft.quantity) || 1,
+          expectedAt: partDraft.expectedAt ? new Date(`${partDraft.expectedAt}T12:00:00`).toISOString() : null,
+        }),
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok) throw new Error(payload?.error ?? "Falha ao requisitar peça.");
+      setPartDraft({ partCode: "", quantity: "1", expectedAt: "" });
+      setFeedback({ type: "success", text: "Peça requisitada." });
+      setRefreshToken((prev) => prev + 1);
+    } catch (err) {
+      console.error(err);
+      setFeedback({ type: "error", text: (err as Error).message });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleConfirmEffectiveness = async (actionId: string, effective: boolean) => {
+    if (!ncId) return;
+    let justification: string | null = null;
+    if (!effective && record?.status === "resolvida") {
+      justification = prompt("Justificativa da reabertura")?.trim() || null;
+      if (!justification) return;
+    }
+    setSaving(true);
+    setFeedback(null);
+    try {
+      const response = await fetch(`/api/nc/${ncId}/capa-verification`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...(await authHeaders()) },
+        body: JSON.stringify({ actionId, effective, justification }),
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok) throw new Error(payload?.error ?? "Falha ao confirmar a eficácia.");
+      setFeedback({
+        type: "success",
+        text: payload?.reopened
+          ? "Ação não eficaz: a NC foi reaberta para um novo CAPA."
+          : "Eficácia da ação registrada.",
+      });
+      setRefreshToken((prev) => prev + 1);
+    } catch (err) {
+      console.error(err);
+      setFeedback({ type: "error", text: (err as Error).message });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRecurrenceDecision = async (decision: "confirm" | "unlink") => {
+    if (!ncId) return;
+    setSaving(true);
+    setFeedback(null);
+    try {
+      const response = await fetch(`/api/nc/${ncId}/recurrence`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          decision,
+          actor: {
+            id: auth.currentUser?.uid ?? "admin-ui",
+            nome: auth.currentUser?.displayName ?? auth.currentUser?.email ?? "Painel Admin",
+          },
+        }),
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok) throw new Error(payload?.error ?? "Falha ao atualizar a recorrência.");
+      setFeedback({
+        type: "success",
+        text: decision === "confirm" ? "Recorrência confirmada." : "Recorrência desvinculada: a NC não exige mais CAPA.",
+      });
+      setRefreshToken((prev) => prev + 1);
+    } catch (err) {
+      console.error(err);
+      setFeedback({ type: "error", text: (err as Error).message });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSplit = async () => {
+    if (!ncId) return;
+    setSaving(true);
+    setFeedback(null);
+    try {
+      const response = await fetch(`/api/nc/${ncId}/split`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...(await authHeaders()) },
+        body: JSON.stringify({
+          ...splitDraft,
+          description: splitDraft.description.trim() || null,
+        }),
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok) throw new Error(payload?.error ?? "Falha ao separar a NC.");
+      setSplitDraft(EMPTY_SPLIT);
+      setFeedback({ type: "success", text: `Nova NC criada: ${payload?.created?.title ?? ""}.` });
+      setRefreshToken((prev) => prev + 1);
+    } catch (err) {
+      console.error(err);
+      setFeedback({ type: "error", text: (err as Error).message });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCreateWorkOrder = async () => {
+    if (!ncId) return;
+    setSaving(true);
+    setFeedback(null);
+    try {
+      const response = await fetch("/api/work-orders", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...(await authHeaders()) },
+        body: JSON.stringify({
+          ncIds: [ncId],
+          plannedDate: new Date().toISOString().slice(0, 10),
+          mechanicIds: [],
+        }),
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok) throw new Error(payload?.error ?? "Falha ao gerar ordem de serviço.");
+      router.push(`/admin/work-orders/${payload.data.id}`);
+    } catch (err) {
+      console.error(err);
+      setFeedback({ type: "error", text: (err as Error).message });
+      setSaving(false);
+    }
+  };
+
   if (loading || !draft || !record) {
     return (
       <div className="space-y-4">
@@ -284,6 +530,22 @@ export default function NonConformityDetailPage() {
 
       {feedback && <Alert variant={feedback.type === "success" ? "success" : "error"} description={feedback.text} />}
 
+      {record.mergedIntoId && (
+        <Alert
+          variant="warning"
+          title="NC mesclada"
+          description={
+            <>
+              Esta NC é uma ocorrência da{" "}
+              <Link href={`/admin/non-conformities/${record.mergedIntoId}`} className="font-medium underline">
+                NC principal
+              </Link>
+              . Ações e tratativa ficam na principal.
+            </>
+          }
+        />
+      )}
+
       <div className="grid gap-6 xl:grid-cols-3">
         <Card className="space-y-6" padding="lg">
           <div className="grid gap-4 md:grid-cols-2">
@@ -294,13 +556,60 @@ export default function NonConformityDetailPage() {
                 onChange={(event) => updateDraft({ status: event.target.value as NcStatus })}
                 className="w-full rounded-md border border-[var(--border)] bg-white px-3 py-2 text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-[var(--primary)]"
               >
-                {statusOptions.map((option) => (
-                  <option key={option} value={option}>
-                    {statusLabel[option]}
+                <option value={record.status}>{statusLabel[record.status]}</option>
+                {transitions.map((rule) => (
+                  <option key={rule.to} value={rule.to}>
+                    {statusLabel[rule.to]}
                   </option>
                 ))}
               </select>
             </label>
+            {pendingTransition?.requires === "partRequest" && (
+              <>
+                <label className="text-sm text-gray-700">
+                  <span className="mb-1 block text-xs uppercase tracking-wide text-gray-500">Código da peça</span>
+                  <input
+                    value={draft.partNumber ?? ""}
+                    onChange={(event) => updateDraft({ partNumber: event.target.value })}
+                    className="w-full rounded-md border border-[var(--border)] bg-white px-3 py-2 text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-[var(--primary)]"
+                  />
+                </label>
+                <label className="text-sm text-gray-700">
+                  <span className="mb-1 block text-xs uppercase tracking-wide text-gray-500">Previsão de chegada</span>
+                  <input
+                    type="date"
+                    value={draft.partExpectedAt ? draft.partExpectedAt.slice(0, 10) : ""}
+                    onChange={(event) =>
+                      updateDraft({
+                        partExpectedAt: event.target.value ? new Date(event.target.value).toISOString() : undefined,
+                      })
+                    }
+                    className="w-full rounded-md border border-[var(--border)] bg-white px-3 py-2 text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-[var(--primary)]"
+                  />
+                </label>
+              </>
+            )}
+            {(pendingTransition?.requires === "blockerReason" || pendingTransition?.requires === "justification") && (
+              <label className="text-sm text-gray-700 md:col-span-2">
+                <span className="mb-1 block text-xs uppercase tracking-wide text-gray-500">
+                  {pendingTransition.requires === "justification" ? "Justificativa da reabertura" : "Motivo do bloqueio"}
+                </span>
+                <input
+                  value={draft.statusReason ?? ""}
+                  onChange={(event) => updateDraft({ statusReason: event.target.value })}
+                  className="w-full rounded-md border border-[var(--border)] bg-white px-3 py-2 text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-[var(--primary)]"
+                />
+              </label>
+            )}
+            {record.status === "aguardando_peca" && record.waitingPart && (
+              <p className="text-xs text-gray-600 md:col-span-2">
+                Peça {record.waitingPart.partNumber}, prevista para{" "}
+                {dateFormatter.format(new Date(record.waitingPart.expectedAt))}.
+              </p>
+            )}
+            {record.status === "bloqueada" && record.blockedReason && (
+              <p className="text-xs text-gray-600 md:col-span-2">Bloqueio: {record.blockedReason}</p>
+            )}
             <label className="text-sm text-gray-700">
               <span className="mb-1 block text-xs uppercase tracking-wide text-gray-500">Severidade</span>
               <select
@@ -349,14 +658,84 @@ export default function NonConformityDetailPage() {
           <div className="space-y-2">
             <div className="flex items-center justify-between">
               <h2 className="text-lg font-semibold text-gray-900">Causa raiz</h2>
-              {requiresCapa && (!draft.rootCause || !draft.rootCause.trim()) && (
+              {requiresCapa && !draft.rootCause?.trim() && !draft.causeCategory && (
                 <span className="text-xs font-semibold text-red-600">Obrigatória (recorrência)</span>
               )}
             </div>
+            <div className="grid gap-3 md:grid-cols-2">
+              <label className="block text-xs uppercase tracking-wide text-gray-500">
+                Categoria (Ishikawa)
+                <select
+                  value={draft.causeCategory ?? ""}
+                  onChange={(event) =>
+                    updateDraft({
+                      causeCategory: (event.target.value || undefined) as IshikawaCategory | undefined,
+                      causeCode: undefined,
+                    })
+                  }
+                  className="mt-1 w-full rounded-md border border-[var(--border)] bg-white px-3 py-2 text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-[var(--primary)]"
+                >
+                  <option value="">Não classificada</option>
+                  {ISHIKAWA_CATEGORIES.map((category) => (
+                    <option key={category} value={category}>
+                      {ISHIKAWA_CATEGORY_LABEL[category]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="block text-xs uppercase tracking-wide text-gray-500">
+                Causa
+                <select
+                  value={draft.causeCode ?? ""}
+                  onChange={(event) => updateDraft({ causeCode: event.target.value || undefined })}
+                  disabled={!draft.causeCategory}
+                  className="mt-1 w-full rounded-md border border-[var(--border)] bg-white px-3 py-2 text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-[var(--primary)] disabled:bg-gray-50"
+                >
+                  <option value="">Sem causa específica</option>
+                  {ROOT_CAUSE_TAXONOMY.filter((option) => option.category === draft.causeCategory).map((option) => (
+                    <option key={option.code} value={option.code}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-xs uppercase tracking-wide text-gray-500">5 porquês</span>
+                {draft.whys.length < MAX_WHYS && (
+                  <button
+                    type="button"
+                    onClick={() => updateDraft({ whys: [...draft.whys, ""] })}
+                    className="text-xs font-medium text-blue-600 hover:underline"
+                  >
+                    + Por quê
+                  </button>
+                )}
+              </div>
+              {draft.whys.map((why, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <span className="w-6 text-xs font-semibold text-gray-500">{index + 1}.</span>
+                  <input
+                    value={why}
+                    onChange={(event) =>
+                      updateDraft({
+                        whys: draft.whys.map((item, position) => (position === index ? event.target.value : item)),
+                      })
+                    }
+                    placeholder={index === 0 ? "Por que a falha ocorreu?" : "Por quê?"}
+                    className="w-full rounded-md border border-[var(--border)] bg-white px-3 py-2 text-sm text-gray-700 placeholder:text-gray-400 focus:outline-none focus:ring-2 focus:ring-[var(--primary)]"
+                  />
+                </div>
+              ))}
+              {!draft.causeCategory && draft.whys.some((why) => why.trim()) && (
+                <p className="text-xs text-amber-600">Selecione a categoria para salvar a análise.</p>
+              )}
+            </div>
             <textarea
               value={draft.rootCause ?? ""}
               onChange={(event) => updateDraft({ rootCause: event.target.value })}
-              placeholder="Descreva a causa raiz identificada"
+              placeholder="Síntese da causa raiz (preenchida a partir da análise, se vazia)"
               rows={3}
               className="w-full rounded-lg border border-[var(--border)] bg-white px-3 py-2 text-sm text-gray-700 placeholder:text-gray-400 focus:outline-none focus:ring-2 focus:ring-[var(--primary)]"
             />
@@ -403,7 +782,18 @@ export default function NonConformityDetailPage() {
                         <option value="corretiva">Corretiva</option>
                         <option value="preventiva">Preventiva</option>
                       </select>
-                      {action.type === "preventiva" && (
+                      {action.type === "preventiva" && action.verification && (
+                        <span className="text-xs text-[var(--hint)]">
+                          {action.verification.status === "confirmed"
+                            ? action.effective
+                              ? "Eficaz (verificada)"
+                              : "Não eficaz (verificada)"
+                            : action.verification.status === "proposed"
+                              ? `Proposta: ${action.verification.proposal === "effective" ? "eficaz" : "não eficaz"}`
+                              : `Verificação em ${formatDateTime(action.verification.dueAt)}`}
+                        </span>
+                      )}
+                      {action.type === "preventiva" && !action.verification && (
                         <label className="flex items-center gap-1 text-xs text-[var(--hint)]">
                           <input
                             type="checkbox"
@@ -469,6 +859,128 @@ export default function NonConformityDetailPage() {
                         />
                       </label>
                     </div>
+                    {action.verification && action.verification.status !== "confirmed" && (
+                      <div className="space-y-2 rounded-md border border-amber-200 bg-amber-50 p-3 text-xs text-gray-700">
+                        <p className="font-semibold">
+                          Verificação de eficácia{" "}
+                          {action.verification.status === "proposed"
+                            ? `— proposta: ${action.verification.proposal === "effective" ? "eficaz" : "não eficaz"}`
+                            : `agendada para ${formatDateTime(action.verification.dueAt)}`}
+                        </p>
+                        {action.verification.evidence && (
+                          <ul className="list-disc space-y-1 pl-4">
+                            <li>
+                              {action.verification.evidence.inspections} inspeção(ões) da pergunta de origem,{" "}
+                              {action.verification.evidence.failedInspections.length} não conforme(s)
+                            </li>
+                            {action.verification.evidence.failedInspections.map((item) => (
+                              <li key={item.responseId}>
+                                Checklist {item.responseId} em {formatDateTime(item.at)}
+                              </li>
+                            ))}
+                            {action.verification.evidence.relatedNcs.map((related) => (
+                              <li key={related.id}>
+                                <Link href={`/admin/non-conformities/${related.id}`} className="text-blue-600 hover:underline">
+                                  {related.title}
+                                </Link>{" "}
+                                ({formatDateTime(related.createdAt)})
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                        <div className="flex flex-wrap gap-2">
+                          <button
+                            type="button"
+                            onClick={() => handleConfirmEffectiveness(action.id, true)}
+                            disabled={saving}
+                            className="rounded-md bg-emerald-600 px-2.5 py-1 font-semibold text-white hover:bg-emerald-500 disabled:opacity-70"
+                          >
+                            Confirmar eficaz
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => handleConfirmEffectiveness(action.id, false)}
+                            disabled={saving}
+                            className="rounded-md bg-red-600 px-2.5 py-1 font-semibold text-white hover:bg-red-500 disabled:opacity-70"
+                          >
+                            Não eficaz (reabrir CAPA)
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                    <div className="grid gap-3 md:grid-cols-4">
+                      <label className="block text-xs uppercase tracking-wide text-gray-500">
+                        Horas de mão de obra
+                        <input
+                          type="number"
+                          min={0}
+                          step="0.5"
+                          value={action.cost?.laborHours ?? ""}
+                          onChange={(event) =>
+                            updateActionCost(action, {
+                              laborHours: event.target.value === "" ? undefined : Number(event.target.value),
+                            })
+                          }
+                          className="mt-1 w-full rounded-md border border-[var(--border)] bg-white px-3 py-2 text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-[var(--primary)]"
+                        />
+                      </label>
+                      <label className="block text-xs uppercase tracking-wide text-gray-500">
+                        Valor/hora (R$)
+                        <input
+                          type="number"
+                          min={0}
+                          step="0.01"
+                          value={action.cost?.laborRate ?? ""}
+                          onChange={(event) =>
+                            updateActionCost(action, {
+                              laborRate: event.target.value === "" ? undefined : Number(event.target.value),
+                            })
+                          }
+                          className="mt-1 w-full rounded-md border border-[var(--border)] bg-white px-3 py-2 text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-[var(--primary)]"
+                        />
+                      </label>
+                      <label className="block text-xs uppercase tracking-wide text-gray-500">
+                        Peças (R$)
+                        <input
+                          type="number"
+                          min={0}
+                          step="0.01"
+                          value={action.cost?.parts ?? ""}
+                          onChange={(event) =>
+                            updateActionCost(action, {
+                              parts: event.target.value === "" ? undefined : Number(event.target.value),
+                            })
+                          }
+                          className="mt-1 w-full rounded-md border border-[var(--border)] bg-white px-3 py-2 text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-[var(--primary)]"
+                        />
+                      </label>
+                      <label className="block text-xs uppercase tracking-wide text-gray-500">
+                        Terceiros (R$)
+                        <input
+                          type="number"
+                          min={0}
+                          step="0.01"
+                          value={action.cost?.services ?? ""}
+                          onChange={(event) =>
+                            updateActionCost(action, {
+                              services: event.target.value === "" ? undefined : Number(event.target.value),
+                            })
+                          }
+                          className="mt-1 w-full rounded-md border border-[var(--border)] bg-white px-3 py-2 text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-[var(--primary)]"
+                        />
+                      </label>
+                    </div>
+                    {typeof action.cost?.services === "number" && action.cost.services > 0 && (
+                      <label className="block text-xs uppercase tracking-wide text-gray-500">
+                        Serviço de terceiros
+                        <input
+                          value={action.cost?.servicesDescription ?? ""}
+                          onChange={(event) => updateActionCost(action, { servicesDescription: event.target.value || undefined })}
+                          placeholder="Fornecedor e serviço executado"
+                          className="mt-1 w-full rounded-md border border-[var(--border)] bg-white px-3 py-2 text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-[var(--primary)]"
+                        />
+                      </label>
+                    )}
                   </div>
                 </div>
               ))}
@@ -501,6 +1013,193 @@ export default function NonConformityDetailPage() {
         </Card>
 
         <div className="xl:col-span-1 space-y-6">
+          {recurrence && (
+            <Card padding="lg" className="space-y-3">
+              <div className="flex items-center justify-between gap-2">
+                <h2 className="text-lg font-semibold text-gray-900">Recorrência</h2>
+                {record.recurrenceMatch && (
+                  <span className="rounded-full bg-gray-100 px-2 py-0.5 text-xs font-semibold text-gray-600">
+                    {RECURRENCE_STATUS_LABEL[record.recurrenceMatch.status]}
+                  </span>
+                )}
+              </div>
+              <p className="text-sm text-gray-700">
+                Recorrência de{" "}
+                <Link href={`/admin/non-conformities/${recurrence.ofId}`} className="font-medium text-blue-600 hover:underline">
+                  NC {recurrence.ofId}
+                </Link>
+              </p>
+              <p className="text-xs text-[var(--hint)]">
+                {recurrence.rule ? RECURRENCE_RULE_LABEL[recurrence.rule] : "Critério anterior (sistema ou título)"}
+                {recurrence.rule === "text_similarity" && recurrence.score !== undefined
+                  ? ` · similaridade ${Math.round(recurrence.score * 100)}%`
+                  : ""}
+                {recurrence.decidedAt
+                  ? ` · revisada em ${formatDateTime(recurrence.decidedAt)}${recurrence.decidedBy?.nome ? ` por ${recurrence.decidedBy.nome}` : ""}`
+                  : ""}
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {record.recurrenceMatch?.status !== "confirmed" && (
+                  <button
+                    type="button"
+                    onClick={() => handleRecurrenceDecision("confirm")}
+                    disabled={saving}
+                    className="rounded-md bg-blue-600 px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-blue-500 disabled:cursor-not-allowed disabled:opacity-70"
+                  >
+                    {record.recurrenceOfId ? "Confirmar recorrência" : "Vincular novamente"}
+                  </button>
+                )}
+                {record.recurrenceOfId && (
+                  <button
+                    type="button"
+                    onClick={() => handleRecurrenceDecision("unlink")}
+                    disabled={saving}
+                    className="rounded-md border border-[var(--border)] px-3 py-1.5 text-xs font-semibold text-gray-700 transition hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-70"
+                  >
+                    Desvincular
+                  </button>
+                )}
+              </div>
+            </Card>
+          )}
+
+          {(record.occurrences?.length ?? 0) > 0 && (
+            <Card padding="lg" className="space-y-3">
+              <h2 className="text-lg font-semibold text-gray-900">
+                Ocorrências ({record.occurrences?.length})
+              </h2>
+              <ul className="space-y-3">
+                {record.occurrences?.map((occurrence) => (
+                  <li key={occurrenceKey(occurrence)} className="space-y-1 border-l border-[var(--border)] pl-4 text-sm">
+                    <div className="text-xs uppercase tracking-wide text-gray-400">
+                      {formatDateTime(occurrence.createdAt)} · {occurrence.createdBy.nome ?? occurrence.createdBy.matricula} ·{" "}
+                      {occurrence.ncId ? "NC mesclada" : "Checklist repetido"}
+                    </div>
+                    <div className="font-medium text-gray-800">{occurrence.title}</div>
+                    {occurrence.description && <div className="text-[var(--hint)]">{occurrence.description}</div>}
+                    {occurrence.reading && (
+                      <div className="text-xs text-[var(--hint)]">
+                        {[
+                          occurrence.reading.horimetro !== undefined ? `Horímetro ${occurrence.reading.horimetro} h` : null,
+                          occurrence.reading.km !== undefined ? `${occurrence.reading.km} km` : null,
+                        ]
+                          .filter(Boolean)
+                          .join(" · ")}
+                      </div>
+                    )}
+                    {occurrence.originChecklistResponseId && (
+                      <Link
+                        href={`/admin/responses/${occurrence.originChecklistResponseId}`}
+                        className="text-xs font-medium text-blue-600 hover:underline"
+                      >
+                        Ver checklist de origem
+                      </Link>
+                    )}
+                    {occurrence.photoUrls && occurrence.photoUrls.length > 0 && (
+                      <div className="flex flex-wrap gap-2 pt-1">
+                        {occurrence.photoUrls.map((url, index) => (
+                          <a
+                            key={`${occurrenceKey(occurrence)}-photo-${index}`}
+                            href={url}
+                            target="_blank"
+                            rel="noreferrer"
+                            className="block h-16 w-16 overflow-hidden rounded-md border border-[var(--border)]"
+                          >
+                            <Image
+                              src={url}
+                              alt={`Foto ${index + 1}`}
+                              width={64}
+                              height={64}
+                              unoptimized
+                              className="h-full w-full object-cover"
+                            />
+                          </a>
+                        ))}
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </Card>
+          )}
+
+          {!record.mergedIntoId && (
+            <Card padding="lg" className="space-y-3">
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900">Separar NC</h2>
+                <p className="text-xs text-[var(--hint)]">
+                  Cria uma NC nova para um problema sem relação com este, levando as ações e ocorrências marcadas.
+                </p>
+              </div>
+              <input
+                value={splitDraft.title}
+                onChange={(event) => setSplitDraft((prev) => ({ ...prev, title: event.target.value }))}
+                placeholder="Título da nova NC"
+                className="w-full rounded-md border border-[var(--border)] bg-white px-3 py-2 text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-[var(--primary)]"
+              />
+              <textarea
+                value={splitDraft.description}
+                onChange={(event) => setSplitDraft((prev) => ({ ...prev, description: event.target.value }))}
+                placeholder="Descrição"
+                rows={2}
+                className="w-full rounded-md border border-[var(--border)] bg-white px-3 py-2 text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-[var(--primary)]"
+              />
+              <select
+                value={splitDraft.severity}
+                onChange={(event) => setSplitDraft((prev) => ({ ...prev, severity: event.target.value as Severity }))}
+                className="w-full rounded-md border border-[var(--border)] bg-white px-3 py-2 text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-[var(--primary)]"
+              >
+                {severityOptions.map((option) => (
+                  <option key={option} value={option}>
+                    Severidade {severityLabel[option].toLowerCase()}
+                  </option>
+                ))}
+              </select>
+              {(record.actions?.length ?? 0) > 0 && (
+                <fieldset className="space-y-1 text-sm text-gray-700">
+                  <legend className="text-xs uppercase tracking-wide text-gray-500">Ações a mover</legend>
+                  {record.actions?.map((action) => (
+                    <label key={action.id} className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={splitDraft.actionIds.includes(action.id)}
+                        onChange={() => setSplitDraft((prev) => ({ ...prev, actionIds: toggleId(prev.actionIds, action.id) }))}
+                        className="rounded border-gray-300 text-blue-600 focus:ring-[var(--primary)]"
+                      />
+                      {action.description}
+                    </label>
+                  ))}
+                </fieldset>
+              )}
+              {(record.occurrences?.length ?? 0) > 0 && (
+                <fieldset className="space-y-1 text-sm text-gray-700">
+                  <legend className="text-xs uppercase tracking-wide text-gray-500">Ocorrências a mover</legend>
+                  {record.occurrences?.map((occurrence) => (
+                    <label key={occurrenceKey(occurrence)} className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={splitDraft.occurrenceIds.includes(occurrenceKey(occurrence))}
+                        onChange={() =>
+                          setSplitDraft((prev) => ({ ...prev, occurrenceIds: toggleId(prev.occurrenceIds, occurrenceKey(occurrence)) }))
+                        }
+                        className="rounded border-gray-300 text-blue-600 focus:ring-[var(--primary)]"
+                      />
+                      {occurrence.title} ({formatDateTime(occurrence.createdAt)})
+                    </label>
+                  ))}
+                </fieldset>
+              )}
+              <button
+                type="button"
+                onClick={handleSplit}
+                disabled={saving || !splitDraft.title.trim()}
+                className="rounded-md border border-[var(--border)] px-3 py-1.5 text-xs font-semibold text-gray-700 transition hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-70"
+              >
+                Separar em nova NC
+              </button>
+            </Card>
+          )}
+
           <Card padding="lg" className="space-y-4">
             <h2 className="text-lg font-semibold text-gray-900">Linha do tempo</h2>
             <div className="space-y-3">
@@ -552,7 +1251,22 @@ export default function NonConformityDetailPage() {
                 {telemetry.faultCodes && telemetry.faultCodes.length > 0 && (
                   <div className="col-span-2">
                     <dt className="text-xs uppercase tracking-wide text-gray-500">Fault codes</dt>
-                    <dd className="font-medium">{telemetry.faultCodes.join(", ")}</dd>
+                    {decodedFaults.length > 0 ? (
+                      <dd className="space-y-1">
+                        {decodedFaults.map((fault) => (
+                          <div key={fault.raw}>
+                            <span className="font-mono font-medium">{fault.raw}</span>
+                            <span className="text-gray-600">
+                              {" "}
+                              · {fault.component} · {fault.failureMode} · {fault.systemCategory} (
+                              {severityLabel[fault.severity]})
+                            </span>
+                          </div>
+                        ))}
+                      </dd>
+                    ) : (
+                      <dd className="font-medium">{telemetry.faultCodes.join(", ")}</dd>
+                    )}
                   </div>
                 )}
                 {telemetry.windowStart && (
@@ -573,6 +1287,105 @@ export default function NonConformityDetailPage() {
             )}
           </Card>
 
+          <Card padding="lg" className="space-y-3">
+            <h2 className="text-lg font-semibold text-gray-900">Ordem de serviço</h2>
+            {record.workOrderId ? (
+              <Link
+                href={`/admin/work-orders/${record.workOrderId}`}
+                className="text-sm font-medium text-[var(--primary)] hover:underline"
+              >
+                Abrir ordem de serviço vinculada
+              </Link>
+            ) : record.status === "resolvida" ? (
+              <p className="text-sm text-gray-500">NC resolvida sem ordem de serviço.</p>
+            ) : (
+              <button
+                type="button"
+                onClick={handleCreateWorkOrder}
+                disabled={saving}
+                className="rounded-md border border-[var(--border)] px-3 py-2 text-sm font-semibold text-gray-700 transition hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                Gerar ordem de serviço
+              </button>
+            )}
+          </Card>
+
+          <Card padding="lg" className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-gray-900">Peças</h2>
+              <Link href="/admin/parts" className="text-xs font-semibold text-[var(--primary)] hover:underline">
+                Requisições
+              </Link>
+            </div>
+            {partRequests.length === 0 ? (
+              <p className="text-sm text-gray-500">Nenhuma peça requisitada.</p>
+            ) : (
+              <ul className="space-y-1 text-xs text-gray-600">
+                {partRequests.map((request) => (
+                  <li key={request.id}>
+                    <span className="font-mono font-medium text-gray-800">{request.partCode}</span> ×{" "}
+                    {request.quantity} · {PART_REQUEST_STATUS_LABEL[request.status]}
+                    {request.expectedAt ? ` · previsão ${dateFormatter.format(new Date(request.expectedAt))}` : ""}
+                  </li>
+                ))}
+              </ul>
+            )}
+            {record.status !== "resolvida" && (
+              <form onSubmit={handleRequestPart} className="grid grid-cols-[1fr_4rem] gap-2">
+                <input
+                  value={partDraft.partCode}
+                  onChange={(event) => setPartDraft({ ...partDraft, partCode: event.target.value })}
+                  placeholder="Código da peça"
+                  className="rounded-md border border-[var(--border)] bg-white px-3 py-2 text-sm text-gray-700"
+                />
+                <input
+                  type="number"
+                  min={1}
+                  value={partDraft.quantity}
+                  onChange={(event) => setPartDraft({ ...partDraft, quantity: event.target.value })}
+                  className="rounded-md border border-[var(--border)] bg-white px-3 py-2 text-sm text-gray-700"
+                />
+                <input
+                  type="date"
+                  value={partDraft.expectedAt}
+                  onChange={(event) => setPartDraft({ ...partDraft, expectedAt: event.target.value })}
+                  className="rounded-md border border-[var(--border)] bg-white px-3 py-2 text-sm text-gray-700"
+                />
+                <button
+                  type="submit"
+                  disabled={saving || !partDraft.partCode.trim()}
+                  className="rounded-md border border-[var(--border)] px-3 py-2 text-sm font-semibold text-gray-700 transition hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-60"
+                >
+                  Requisitar
+                </button>
+              </form>
+            )}
+          </Card>
+
+          <Card padding="lg" className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-gray-900">SLA</h2>
+              {record.slaState && record.status !== "resolvida" && (
+                <span className="text-xs font-semibold text-gray-600">{SLA_STATE_LABEL[record.slaState]}</span>
+              )}
+            </div>
+            <p className="text-sm text-gray-700">Prazo: {formatDateTime(record.dueAt)}</p>
+            <p className="text-sm text-gray-700">Responsável: {record.owner?.nome ?? record.owner?.id ?? "-"}</p>
+            {record.escalations && record.escalations.length > 0 ? (
+              <ul className="space-y-1 text-xs text-gray-600">
+                {record.escalations.map((escalation) => (
+                  <li key={`${escalation.level}-${escalation.at}`}>
+                    {formatDateTime(escalation.at)} · {SLA_ESCALATION_LEVEL_LABEL[escalation.level]}
+                    {escalation.notified ? ` (${escalation.notified.nome})` : " (sem contato cadastrado)"} ·{" "}
+                    {escalation.overdueHours} h de atraso
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-xs text-gray-500">Nenhum escalonamento.</p>
+            )}
+          </Card>
+
           <Card padding="lg" className="space-y-4">
             <h2 className="text-lg font-semibold text-gray-900">Auditoria</h2>
             {audits.length === 0 ? (
@@ -582,11 +1395,17 @@ export default function NonConformityDetailPage() {
                 {audits.map((audit) => (
                   <div key={audit.id} className="rounded-lg border border-[var(--border)] bg-white p-3">
                     <div className="flex items-center justify-between">
-                      <span className="font-medium text-gray-800">{audit.byNome ?? audit.byUserId ?? "Usuário"}</span>
+                      <span className="font-medium text-gray-800">
+                        {audit.byNome ?? audit.byUserId ?? "Usuário"}
+                        {audit.type && audit.type !== "updated" ? ` · ${auditEventLabel[audit.type]}` : ""}
+                      </span>
                       {audit.atISO && (
                         <span className="text-xs text-gray-500">{formatDateTime(audit.atISO)}</span>
                       )}
                     </div>
+                    {audit.transition?.reason && (
+                      <p className="mt-1 text-xs text-gray-600">{audit.transition.reason}</p>
+                    )}
                     {audit.diff && (
                       <ul className="mt-2 space-y-1 text-xs text-[var(--hint)]">
                         {Object.entries(audit.diff).map(([field, change]) => (
@@ -2,7 +2,10 @@
 
 import Image from "next/image";
 import { useCallback, useEffect, useMemo, useState } from "react";
+import NcBulkSection from "@/components/NcBulkSection";
+import NcMergeSection from "@/components/NcMergeSection";
 import { db } from "@/lib/firebase";
+import { mapNonConformityDoc } from "@/lib/firestore/nc";
 import {
   ChecklistRecurrenceStatus,
   ChecklistNonConformityTreatment,
@@ -15,6 +18,7 @@ import {
   resolveMachineActorLabel,
   resolveMachineFleetType,
 } from "@/types/machine";
+import type { NcOwner, NonConformity } from "@/types/nonconformity";
 import {
   collection,
   doc,
@@ -47,6 +51,8 @@ type PendingItem = {
   operatorMatricula?: string;
   isRecurrence: boolean;
   recurrenceStatus?: ChecklistRecurrenceStatus;
+  /** NC aberta pela Cloud Function para esta resposta (origem ou reincidência). */
+  nc?: NonConformity;
 };
 
 type FeedbackState = {
@@ -70,6 +76,26 @@ const statusOptions: { value: StatusFilter; label: string }[] = [
 
 const statusOrder: NonConformityStatus[] = ["open", "in_progress", "resolved"];
 
+/**
+ * Indexa as NCs pela resposta e pergunta que as geraram, no formato do `id` dos
+ * itens da lista. Reincidências apontam para a NC em que viraram ocorrência;
+ * NCs mescladas ficam de fora, porque suas ocorrências já estão na principal.
+ */
+const indexNcsByOrigin = (ncs: NonConformity[]): Map<string, NonConformity> => {
+  const byOrigin = new Map<string, NonConformity>();
+  for (const nc of ncs) {
+    if (nc.mergedIntoId) continue;
+    if (nc.originQuestionId) {
+      byOrigin.set(`${nc.originChecklistResponseId}-${nc.originQuestionId}`, nc);
+    }
+    for (const occurrence of nc.occurrences ?? []) {
+      const questionId = occurrence.originQuestionId ?? nc.originQuestionId;
+      if (questionId) byOrigin.set(`${occurrence.originChecklistResponseId}-${questionId}`, nc);
+    }
+  }
+  return byOrigin;
+};
+
 export default function NonConformitiesAdminPage() {
   const [machines, setMachines] = useState<Machine[]>([]);
   const [items, setItems] = useState<PendingItem[]>([]);
@@ -79,20 +105,26 @@ export default function NonConformitiesAdminPage() {
   const [feedback, setFeedback] = useState<FeedbackState | null>(null);
   const [machineFilter, setMachineFilter] = useState<string>("all");
   const [statusFilter, setStatusFilter] = useState<StatusFilter>("pending");
+  const [owners, setOwners] = useState<NcOwner[]>([]);
+  const [selectedNcIds, setSelectedNcIds] = useState<string[]>([]);
 
   const machinesCol = useMemo(() => collection(db, "machines"), []);
   const templatesCol = useMemo(() => collection(db, "checklistTemplates"), []);
   const responsesCol = useMemo(() => collection(db, "checklistResponses"), []);
+  const ncsCol = useMemo(() => collection(db, "nonConformities"), []);
+  const usersCol = useMemo(() => collection(db, "users"), []);
 
   const loadData = useCallback(async () => {
     setLoading(true);
     setFeedback(null);
 
     try {
-      const [machinesSnap, templatesSnap, responsesSnap] = await Promise.all([
+      const [machinesSnap, templatesSnap, responsesSnap, ncsSnap, usersSnap] = await Promise.all([
         getDocs(machinesCol),
         getDocs(templatesCol),
         getDocs(query(responsesCol, orderBy("createdAt", "desc"))),
+        getDocs(ncsCol),
+        getDocs(usersCol),
       ]);
 
       const machineList = machinesSnap.docs.map((docSnap) => {
@@ -117,6 +149,8 @@ export default function NonConformitiesAdminPage() {
         return { id: docSnap.id, ...data } satisfies ChecklistResponse;
       });
 
+      const ncByOrigin = indexNcsByOrigin(ncsSnap.docs.map((docSnap) => mapNonConformityDoc(docSnap)));
+
       const nextResponsesMap: Record<string, ChecklistResponse> = {};
       const pendingItems: PendingItem[] = [];
 
@@ -166,6 +200,7 @@ export default function NonConformitiesAdminPage() {
             operatorMatricula: response.operatorMatricula,
             isRecurrence: Boolean(recurrenceInfo),
             recurrenceStatus: recurrenceInfo?.status,
+            nc: ncByOrigin.get(`${response.id}-${answer.questionId}`),
           });
         }
       }
@@ -177,6 +212,13 @@ export default function NonConformitiesAdminPage() {
       setMachines(machineList);
       setItems(pendingItems);
       setResponsesMap(nextResponsesMap);
+      setOwners(
+        usersSnap.docs
+          .filter((docSnap) => docSnap.data().role === "mecanico")
+          .map((docSnap) => ({ id: docSnap.id, nome: String(docSnap.data().nome ?? docSnap.id) }))
+          .sort((a, b) => (a.nome ?? "").localeCompare(b.nome ?? "")),
+      );
+      setSelectedNcIds([]);
     } catch (error) {
       console.error("Erro ao carregar não conformidades", error);
       setFeedback({
@@ -186,7 +228,7 @@ export default function NonConformitiesAdminPage() {
     } finally {
       setLoading(false);
     }
-  }, [machinesCol, responsesCol, templatesCol]);
+  }, [machinesCol, ncsCol, responsesCol, templatesCol, usersCol]);
 
   useEffect(() => {
     void loadData();
@@ -210,6 +252,17 @@ export default function NonConformitiesAdminPage() {
     });
   }, [items, machineFilter, statusFilter]);
 
+  const filteredNcs = useMemo(() => {
+    const byId = new Map<string, NonConformity>();
+    for (const item of filteredItems) {
+      if (item.nc) byId.set(item.nc.id, item.nc);
+    }
+    return Array.from(byId.values());
+  }, [filteredItems]);
+
+  const toggleNc = (ncId: string) =>
+    setSelectedNcIds((prev) => (prev.includes(ncId) ? prev.filter((id) => id !== ncId) : [...prev, ncId]));
+
   const updateItemField = (id: string, patch: Partial<PendingItem>) => {
     setItems((prev) =>
       prev.map((item) => (item.id === id ? { ...item, ...patch } : item)),
@@ -344,6 +397,15 @@ export default function NonConformitiesAdminPage() {
         </div>
       </section>
 
+      <NcBulkSection
+        records={filteredNcs}
+        selectedIds={selectedNcIds}
+        onSelectedIdsChange={setSelectedNcIds}
+        owners={owners}
+        onApplied={loadData}
+      />
+      {machineFilter !== "all" && <NcMergeSection machineId={machineFilter} />}
+
       {feedback && (
         <div
           className={`rounded-lg border px-4 py-3 text-sm ${
@@ -376,9 +438,20 @@ export default function NonConformitiesAdminPage() {
               >
               <header className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
                 <div className="space-y-1">
-                  <p className="text-sm font-semibold text-gray-900">
-                    {index + 1}. {item.questionText}
-                  </p>
+                  <div className="flex items-start gap-2">
+                    {item.nc && (
+                      <input
+                        type="checkbox"
+                        checked={selectedNcIds.includes(item.nc.id)}
+                        onChange={() => item.nc && toggleNc(item.nc.id)}
+                        aria-label={`Selecionar ${item.questionText} para ações em lote`}
+                        className="mt-0.5"
+                      />
+                    )}
+                    <p className="text-sm font-semibold text-gray-900">
+                      {index + 1}. {item.questionText}
+                    </p>
+                  </div>
                   <div className="text-xs text-gray-500">
                     <span>Checklist enviado em {new Date(item.createdAt).toLocaleString()}</span>
                     {item.template && (
@@ -459,6 +532,14 @@ export default function NonConformitiesAdminPage() {
                   >
                     Ver checklist
                   </a>
+                  {item.nc && (
+                    <a
+                      href={`/admin/non-conformities/${item.nc.id}`}
+                      className="rounded-md border border-gray-300 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-gray-700 transition hover:border-gray-400 hover:bg-gray-50"
+                    >
+                      Abrir NC
+                    </a>
+                  )}
                 </div>
               </header>
 
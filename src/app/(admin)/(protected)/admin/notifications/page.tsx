@@ -0,0 +1,394 @@
+"use client";
+
+import { collection, getDocs } from "firebase/firestore";
+import { useCallback, useEffect, useState } from "react";
+import { db } from "@/lib/firebase";
+import {
+  NOTIFICATION_KIND_LABEL,
+  type NotificationDelivery,
+  type NotificationDeliveryStatus,
+  type NotificationKind,
+  type NotificationSubscription,
+} from "@/types/notification";
+
+const NOTIFICATION_KINDS = Object.keys(NOTIFICATION_KIND_LABEL) as NotificationKind[];
+
+const STATUS_LABEL: Record<NotificationDeliveryStatus, string> = {
+  pending: "Pendente",
+  sent: "Enviado",
+  failed: "Falhou",
+};
+
+const STATUS_CLASS: Record<NotificationDeliveryStatus, string> = {
+  pending: "text-amber-700",
+  sent: "text-emerald-700",
+  failed: "text-[var(--danger)]",
+};
+
+const inputClass =
+  "rounded-md border border-[var(--border)] bg-[var(--surface)] px-3 py-2 text-sm text-[var(--text)] focus:outline-none focus:ring-2 focus:ring-[var(--primary)]";
+
+type MachineOption = { id: string; tag: string };
+
+type SubscriptionDraft = {
+  id?: string;
+  nome: string;
+  email: string;
+  kinds: NotificationKind[];
+  setores: string;
+  machineIds: string[];
+  active: boolean;
+};
+
+const EMPTY_DRAFT: SubscriptionDraft = {
+  nome: "",
+  email: "",
+  kinds: ["nc_created", "checklist_missed"],
+  setores: "",
+  machineIds: [],
+  active: true,
+};
+
+const toDraft = (subscription: NotificationSubscription): SubscriptionDraft => ({
+  id: subscription.id,
+  nome: subscription.nome,
+  email: subscription.email,
+  kinds: subscription.kinds,
+  setores: subscription.setores.join(", "),
+  machineIds: subscription.machineIds,
+  active: subscription.active,
+});
+
+const formatDateTime = (iso: string | null) => (iso ? new Date(iso).toLocaleString("pt-BR") : "-");
+
+async function sendJson(url: string, method: string, body?: unknown) {
+  const response = await fetch(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const payload = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(typeof payload?.error === "string" ? payload.error : "Falha ao salvar.");
+  }
+  return payload;
+}
+
+export default function NotificationsAdminPage() {
+  const [subscriptions, setSubscriptions] = useState<NotificationSubscription[]>([]);
+  const [deliveries, setDeliveries] = useState<NotificationDelivery[]>([]);
+  const [machines, setMachines] = useState<MachineOption[]>([]);
+  const [draft, setDraft] = useState<SubscriptionDraft>(EMPTY_DRAFT);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ kind: "error" | "success"; text: string } | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const [subscriptionsRes, deliveriesRes, machinesSnap] = await Promise.all([
+        fetch("/api/notifications/subscriptions", { cache: "no-store" }),
+        fetch("/api/notifications/deliveries?limit=100", { cache: "no-store" }),
+        getDocs(collection(db, "machines")),
+      ]);
+      const subscriptionsPayload = await subscriptionsRes.json().catch(() => null);
+      const deliveriesPayload = await deliveriesRes.json().catch(() => null);
+      if (!subscriptionsRes.ok || !deliveriesRes.ok) {
+        throw new Error(subscriptionsPayload?.error ?? deliveriesPayload?.error ?? "Falha ao carregar notificações.");
+      }
+      setSubscriptions((subscriptionsPayload?.data ?? []) as NotificationSubscription[]);
+      setDeliveries((deliveriesPayload?.data ?? []) as NotificationDelivery[]);
+      setMachines(
+        machinesSnap.docs
+          .map((docSnap) => ({ id: docSnap.id, tag: String(docSnap.data().tag ?? docSnap.id) }))
+          .sort((a, b) => a.tag.localeCompare(b.tag)),
+      );
+    } catch (err) {
+      console.error("Failed to load notification settings", err);
+      setMessage({ kind: "error", text: (err as Error).message });
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const run = async (action: () => Promise<unknown>, success: string) => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      await action();
+      setMessage({ kind: "success", text: success });
+      await refresh();
+    } catch (err) {
+      setMessage({ kind: "error", text: (err as Error).message });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const saveSubscription = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!draft.kinds.length) {
+      setMessage({ kind: "error", text: "Selecione ao menos um tipo de aviso." });
+      return;
+    }
+    const body = {
+      nome: draft.nome,
+      email: draft.email,
+      kinds: draft.kinds,
+      setores: draft.setores
+        .split(",")
+        .map((item) => item.trim())
+        .filter(Boolean),
+      machineIds: draft.machineIds,
+      active: draft.active,
+    };
+    run(async () => {
+      await sendJson(
+        draft.id ? `/api/notifications/subscriptions/${draft.id}` : "/api/notifications/subscriptions",
+        draft.id ? "PUT" : "POST",
+        body,
+      );
+      setDraft(EMPTY_DRAFT);
+    }, "Assinatura salva.");
+  };
+
+  const removeSubscription = (subscription: NotificationSubscription) => {
+    if (!confirm(`Remover a assinatura de ${subscription.nome}?`)) return;
+    run(() => sendJson(`/api/notifications/subscriptions/${subscription.id}`, "DELETE"), "Assinatura removida.");
+  };
+
+  const toggleKind = (kind: NotificationKind) =>
+    setDraft((prev) => ({
+      ...prev,
+      kinds: prev.kinds.includes(kind) ? prev.kinds.filter((item) => item !== kind) : [...prev.kinds, kind],
+    }));
+
+  const machineTag = (id: string) => machines.find((machine) => machine.id === id)?.tag ?? id;
+
+  const describeScope = (subscription: NotificationSubscription) =>
+    [
+      subscription.setores.length ? `Setores: ${subscription.setores.join(", ")}` : null,
+      subscription.machineIds.length ? `Máquinas: ${subscription.machineIds.map(machineTag).join(", ")}` : null,
+    ]
+      .filter(Boolean)
+      .join(" · ") || "Toda a frota";
+
+  return (
+    <div className="space-y-6">
+      <header className="space-y-1">
+        <h1 className="text-2xl font-semibold tracking-tight">Notificações por e-mail</h1>
+        <p className="text-sm text-[var(--muted)]">
+          Quem recebe avisos de NCs críticas, prazos, escalonamentos e checklists perdidos, e o histórico de envios.
+        </p>
+      </header>
+
+      {message && (
+        <p className={`text-sm ${message.kind === "error" ? "text-[var(--danger)]" : "text-emerald-700"}`}>
+          {message.text}
+        </p>
+      )}
+
+      <section className="light-card overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-[var(--surface)] text-xs uppercase tracking-wide text-[var(--hint)]">
+              <tr>
+                <th className="px-4 py-3 text-left font-medium">Destinatário</th>
+                <th className="px-4 py-3 text-left font-medium">Avisos</th>
+                <th className="px-4 py-3 text-left font-medium">Escopo</th>
+                <th className="px-4 py-3 text-left font-medium">Situação</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody>
+              {subscriptions.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-4 py-6 text-center text-[var(--muted)]">
+                    Nenhuma assinatura cadastrada.
+                  </td>
+                </tr>
+              )}
+              {subscriptions.map((subscription) => (
+                <tr key={subscription.id} className="border-t border-[var(--border)]">
+                  <td className="px-4 py-3">
+                    <div className="font-medium text-[var(--text)]">{subscription.nome}</div>
+                    <div className="text-xs text-[var(--muted)]">{subscription.email}</div>
+                  </td>
+                  <td className="px-4 py-3 text-[var(--muted)]">
+                    {subscription.kinds.map((kind) => NOTIFICATION_KIND_LABEL[kind]).join(", ")}
+                  </td>
+                  <td className="px-4 py-3 text-[var(--muted)]">{describeScope(subscription)}</td>
+                  <td className="px-4 py-3 text-[var(--muted)]">{subscription.active ? "Ativa" : "Pausada"}</td>
+                  <td className="px-4 py-3 text-right">
+                    <div className="flex justify-end gap-2">
+                      <button
+                        type="button"
+                        onClick={() => setDraft(toDraft(subscription))}
+                        className="text-xs font-semibold text-[var(--primary)] hover:underline"
+                      >
+                        Editar
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => removeSubscription(subscription)}
+                        className="text-xs font-semibold text-[var(--danger)] hover:underline"
+                      >
+                        Remover
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </section>
+
+      <section className="light-card space-y-4">
+        <div>
+          <h2 className="text-lg font-semibold">{draft.id ? "Editar assinatura" : "Nova assinatura"}</h2>
+          <p className="text-xs text-[var(--muted)]">
+            Sem setores nem máquinas, a assinatura vale para toda a frota. Ações atribuídas vão para o e-mail do cadastro do
+            usuário.
+          </p>
+        </div>
+        <form onSubmit={saveSubscription} className="space-y-3">
+          <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+            <label className="grid gap-1 text-sm font-medium text-[var(--text)]">
+              Nome
+              <input
+                className={inputClass}
+                value={draft.nome}
+                onChange={(event) => setDraft((prev) => ({ ...prev, nome: event.target.value }))}
+                required
+              />
+            </label>
+            <label className="grid gap-1 text-sm font-medium text-[var(--text)]">
+              E-mail
+              <input
+                type="email"
+                className={inputClass}
+                value={draft.email}
+                onChange={(event) => setDraft((prev) => ({ ...prev, email: event.target.value }))}
+                required
+              />
+            </label>
+            <label className="grid gap-1 text-sm font-medium text-[var(--text)]">
+              Setores
+              <input
+                className={inputClass}
+                value={draft.setores}
+                onChange={(event) => setDraft((prev) => ({ ...prev, setores: event.target.value }))}
+                placeholder="Separados por vírgula"
+              />
+            </label>
+            <label className="grid gap-1 text-sm font-medium text-[var(--text)]">
+              Máquinas
+              <select
+                multiple
+                className={`${inputClass} h-28`}
+                value={draft.machineIds}
+                onChange={(event) =>
+                  setDraft((prev) => ({
+                    ...prev,
+                    machineIds: Array.from(event.target.selectedOptions).map((option) => option.value),
+                  }))
+                }
+              >
+                {machines.map((machine) => (
+                  <option key={machine.id} value={machine.id}>
+                    {machine.tag}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <fieldset className="grid gap-1 text-sm text-[var(--text)]">
+              <legend className="font-medium">Avisos</legend>
+              {NOTIFICATION_KINDS.map((kind) => (
+                <label key={kind} className="flex items-center gap-2">
+                  <input type="checkbox" checked={draft.kinds.includes(kind)} onChange={() => toggleKind(kind)} />
+                  {NOTIFICATION_KIND_LABEL[kind]}
+                </label>
+              ))}
+            </fieldset>
+            <label className="flex items-center gap-2 text-sm font-medium text-[var(--text)]">
+              <input
+                type="checkbox"
+                checked={draft.active}
+                onChange={(event) => setDraft((prev) => ({ ...prev, active: event.target.checked }))}
+              />
+              Assinatura ativa
+            </label>
+          </div>
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={saving}
+              className="rounded-md bg-[var(--primary)] px-4 py-2 text-sm font-semibold text-white shadow-sm-soft transition hover:bg-[var(--primary-700)] disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              Salvar assinatura
+            </button>
+            {draft.id && (
+              <button
+                type="button"
+                onClick={() => setDraft(EMPTY_DRAFT)}
+                className="rounded-md border border-[var(--border)] px-4 py-2 text-sm font-semibold transition hover:bg-[var(--surface)]"
+              >
+                Cancelar
+              </button>
+            )}
+          </div>
+        </form>
+      </section>
+
+      <section className="light-card overflow-hidden">
+        <div className="px-4 pt-4">
+          <h2 className="text-lg font-semibold">Envios recentes</h2>
+          <p className="text-xs text-[var(--muted)]">Falhas são reenviadas automaticamente com intervalo crescente.</p>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="mt-3 w-full text-sm">
+            <thead className="bg-[var(--surface)] text-xs uppercase tracking-wide text-[var(--hint)]">
+              <tr>
+                <th className="px-4 py-3 text-left font-medium">Criado em</th>
+                <th className="px-4 py-3 text-left font-medium">Para</th>
+                <th className="px-4 py-3 text-left font-medium">Assunto</th>
+                <th className="px-4 py-3 text-left font-medium">Situação</th>
+                <th className="px-4 py-3 text-left font-medium">Tentativas</th>
+              </tr>
+            </thead>
+            <tbody>
+              {deliveries.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-4 py-6 text-center text-[var(--muted)]">
+                    Nenhum envio registrado.
+                  </td>
+                </tr>
+              )}
+              {deliveries.map((delivery) => (
+                <tr key={delivery.id} className="border-t border-[var(--border)] align-top">
+                  <td className="px-4 py-3 text-[var(--muted)]">{formatDateTime(delivery.createdAt)}</td>
+                  <td className="px-4 py-3 text-[var(--text)]">{delivery.to}</td>
+                  <td className="px-4 py-3 text-[var(--muted)]">{delivery.subject}</td>
+                  <td className="px-4 py-3">
+                    <span className={`font-medium ${STATUS_CLASS[delivery.status]}`}>{STATUS_LABEL[delivery.status]}</span>
+                    {delivery.status === "sent" && (
+                      <div className="text-xs text-[var(--hint)]">{formatDateTime(delivery.sentAt)}</div>
+                    )}
+                    {delivery.status === "pending" && delivery.attempts > 0 && (
+                      <div className="text-xs text-[var(--hint)]">Nova tentativa {formatDateTime(delivery.nextAttemptAt)}</div>
+                    )}
+                    {delivery.lastError && delivery.status !== "sent" && (
+                      <div className="text-xs text-[var(--danger)]">{delivery.lastError}</div>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-[var(--muted)]">{delivery.attempts}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,368 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useState } from "react";
+import { authHeaders } from "@/lib/auth-headers";
+import {
+  PART_REQUEST_STATUS_LABEL,
+  type BlockingPartsEntry,
+  type Part,
+  type PartRequest,
+  type PartRequestStatus,
+} from "@/types/part";
+
+const inputClass =
+  "rounded-md border border-[var(--border)] bg-[var(--surface)] px-3 py-2 text-sm text-[var(--text)] focus:outline-none focus:ring-2 focus:ring-[var(--primary)]";
+
+const buttonClass =
+  "rounded-md bg-[var(--primary)] px-4 py-2 text-sm font-semibold text-white shadow-sm-soft transition hover:bg-[var(--primary-700)] disabled:cursor-not-allowed disabled:opacity-60";
+
+type PartDraft = {
+  id?: string;
+  code: string;
+  description: string;
+  compatibleModels: string;
+  unitCost: string;
+  active: boolean;
+};
+
+const EMPTY_PART: PartDraft = { code: "", description: "", compatibleModels: "", unitCost: "", active: true };
+
+const toDraft = (part: Part): PartDraft => ({
+  id: part.id,
+  code: part.code,
+  description: part.description,
+  compatibleModels: part.compatibleModels.join(", "),
+  unitCost: part.unitCost === null || part.unitCost === undefined ? "" : String(part.unitCost),
+  active: part.active,
+});
+
+const formatDate = (value?: string | null) => (value ? new Date(value).toLocaleDateString("pt-BR") : "-");
+
+/** Próximos status oferecidos na tabela de requisições. */
+const NEXT_ACTIONS: Partial<Record<PartRequestStatus, Array<{ status: PartRequestStatus; label: string }>>> = {
+  requested: [
+    { status: "ordered", label: "Marcar pedida" },
+    { status: "received", label: "Recebida" },
+    { status: "cancelled", label: "Cancelar" },
+  ],
+  ordered: [
+    { status: "received", label: "Recebida" },
+    { status: "cancelled", label: "Cancelar" },
+  ],
+};
+
+async function sendJson(url: string, method: string, body?: unknown) {
+  const response = await fetch(url, {
+    method,
+    headers: { "Content-Type": "application/json", ...(await authHeaders()) },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const payload = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(typeof payload?.error === "string" ? payload.error : "Falha ao salvar.");
+  }
+  return payload;
+}
+
+export default function PartsAdminPage() {
+  const [parts, setParts] = useState<Part[]>([]);
+  const [requests, setRequests] = useState<PartRequest[]>([]);
+  const [blocking, setBlocking] = useState<BlockingPartsEntry[]>([]);
+  const [showClosed, setShowClosed] = useState(false);
+  const [partDraft, setPartDraft] = useState<PartDraft>(EMPTY_PART);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ kind: "error" | "success"; text: string } | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const [partsRes, requestsRes, blockingRes] = await Promise.all([
+        fetch("/api/parts", { cache: "no-store" }),
+        fetch(`/api/part-requests${showClosed ? "" : "?status=open"}`, { cache: "no-store" }),
+        fetch("/api/part-requests/blocking", { cache: "no-store" }),
+      ]);
+      const [partsPayload, requestsPayload, blockingPayload] = await Promise.all(
+        [partsRes, requestsRes, blockingRes].map((response) => response.json().catch(() => null)),
+      );
+      if (!partsRes.ok || !requestsRes.ok || !blockingRes.ok) {
+        throw new Error(
+          partsPayload?.error ?? requestsPayload?.error ?? blockingPayload?.error ?? "Falha ao carregar peças.",
+        );
+      }
+      setParts((partsPayload?.data ?? []) as Part[]);
+      setRequests((requestsPayload?.data ?? []) as PartRequest[]);
+      setBlocking((blockingPayload?.data ?? []) as BlockingPartsEntry[]);
+    } catch (err) {
+      console.error("Failed to load parts", err);
+      setMessage({ kind: "error", text: (err as Error).message });
+    }
+  }, [showClosed]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const run = async (action: () => Promise<unknown>, success: string) => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      const result = await action();
+      setMessage({ kind: "success", text: typeof result === "string" ? result : success });
+      await refresh();
+    } catch (err) {
+      setMessage({ kind: "error", text: (err as Error).message });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSavePart = (event: React.FormEvent) => {
+    event.preventDefault();
+    const body = {
+      code: partDraft.code,
+      description: partDraft.description,
+      compatibleModels: partDraft.compatibleModels
+        .split(",")
+        .map((model) => model.trim())
+        .filter(Boolean),
+      unitCost: partDraft.unitCost ? Number(partDraft.unitCost) : null,
+      active: partDraft.active,
+    };
+    run(async () => {
+      if (partDraft.id) await sendJson(`/api/parts/${partDraft.id}`, "PUT", body);
+      else await sendJson("/api/parts", "POST", body);
+      setPartDraft(EMPTY_PART);
+    }, "Peça salva.");
+  };
+
+  const updateRequest = (request: PartRequest, status: PartRequestStatus) =>
+    run(async () => {
+      const payload = await sendJson(`/api/part-requests/${request.id}`, "PATCH", {
+        status,
+      });
+      return payload?.ncResumed ? `Peças recebidas: NC "${request.ncTitle}" voltou para execução.` : undefined;
+    }, `Requisição ${PART_REQUEST_STATUS_LABEL[status].toLowerCase()}.`);
+
+  const updateExpectedAt = (request: PartRequest, value: string) =>
+    run(
+      () =>
+        sendJson(`/api/part-requests/${request.id}`, "PATCH", {
+          expectedAt: value ? new Date(`${value}T12:00:00`).toISOString() : null,
+        }),
+      "Previsão de entrega atualizada.",
+    );
+
+  return (
+    <div className="space-y-6">
+      <header className="space-y-1">
+        <h1 className="text-2xl font-semibold tracking-tight">Peças</h1>
+        <p className="text-sm text-[var(--muted)]">
+          Catálogo de peças e requisições das NCs em aguardando peça. Quando todas as peças de uma NC chegam, ela volta
+          para execução.
+        </p>
+      </header>
+
+      {message && (
+        <p className={`text-sm ${message.kind === "error" ? "text-[var(--danger)]" : "text-emerald-700"}`}>
+          {message.text}
+        </p>
+      )}
+
+      <section className="light-card space-y-3">
+        <h2 className="text-lg font-semibold">Máquinas aguardando peças</h2>
+        {blocking.length === 0 && <p className="text-sm text-[var(--muted)]">Nenhuma requisição em aberto.</p>}
+        <div className="grid gap-3 lg:grid-cols-2">
+          {blocking.map((entry) => (
+            <div key={entry.machineId} className="rounded-lg border border-[var(--border)] p-3 text-sm">
+              <div className="flex items-center justify-between">
+                <span className="font-semibold">{entry.machineTag}</span>
+                <span className={`text-xs font-semibold ${entry.machineDown ? "text-[var(--danger)]" : "text-[var(--muted)]"}`}>
+                  {entry.machineDown ? "Parada" : "Em operação"} · {entry.waitingNcIds.length} NC(s) aguardando
+                </span>
+              </div>
+              <ul className="mt-2 space-y-1 text-xs text-[var(--muted)]">
+                {entry.requests.map((request) => (
+                  <li key={request.id}>
+                    <span className="font-mono text-[var(--text)]">{request.partCode}</span> × {request.quantity} ·{" "}
+                    {PART_REQUEST_STATUS_LABEL[request.status]} · previsão {formatDate(request.expectedAt)}
+                    {request.overdue && <span className="font-semibold text-[var(--danger)]"> (atrasada)</span>} ·{" "}
+                    {request.waitingDays} dia(s)
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      </section>
+
+      <section className="light-card overflow-hidden">
+        <div className="flex items-center justify-between px-4 pt-4">
+          <h2 className="text-lg font-semibold">Requisições</h2>
+          <label className="flex items-center gap-2 text-sm text-[var(--muted)]">
+            <input type="checkbox" checked={showClosed} onChange={(event) => setShowClosed(event.target.checked)} />
+            Mostrar encerradas
+          </label>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="mt-3 w-full text-sm">
+            <thead className="bg-[var(--surface)] text-xs uppercase tracking-wide text-[var(--hint)]">
+              <tr>
+                <th className="px-4 py-3 text-left font-medium">Peça</th>
+                <th className="px-4 py-3 text-left font-medium">NC</th>
+                <th className="px-4 py-3 text-left font-medium">Máquina</th>
+                <th className="px-4 py-3 text-left font-medium">Status</th>
+                <th className="px-4 py-3 text-left font-medium">Previsão</th>
+                <th className="px-4 py-3 text-right font-medium">Ações</th>
+              </tr>
+            </thead>
+            <tbody>
+              {requests.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="px-4 py-6 text-center text-[var(--muted)]">
+                    Nenhuma requisição.
+                  </td>
+                </tr>
+              )}
+              {requests.map((request) => (
+                <tr key={request.id} className="border-t border-[var(--border)]">
+                  <td className="px-4 py-3">
+                    <div className="font-mono font-medium">{request.partCode}</div>
+                    <div className="text-xs text-[var(--hint)]">
+                      {request.description || "-"} · {request.quantity} un.
+                    </div>
+                  </td>
+                  <td className="px-4 py-3">
+                    <Link href={`/admin/non-conformities/${request.ncId}`} className="text-[var(--primary)] hover:underline">
+                      {request.ncTitle || request.ncId}
+                    </Link>
+                  </td>
+                  <td className="px-4 py-3 text-[var(--muted)]">{request.machineTag}</td>
+                  <td className="px-4 py-3 text-[var(--muted)]">{PART_REQUEST_STATUS_LABEL[request.status]}</td>
+                  <td className="px-4 py-3">
+                    {NEXT_ACTIONS[request.status] ? (
+                      <input
+                        type="date"
+                        className={inputClass}
+                        defaultValue={request.expectedAt?.slice(0, 10) ?? ""}
+                        disabled={saving}
+                        onBlur={(event) => {
+                          if (event.target.value !== (request.expectedAt?.slice(0, 10) ?? "")) {
+                            updateExpectedAt(request, event.target.value);
+                          }
+                        }}
+                      />
+                    ) : (
+                      <span className="text-[var(--muted)]">{formatDate(request.receivedAt ?? request.expectedAt)}</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    <div className="flex justify-end gap-2">
+                      {(NEXT_ACTIONS[request.status] ?? []).map((action) => (
+                        <button
+                          key={action.status}
+                          type="button"
+                          disabled={saving}
+                          onClick={() => updateRequest(request, action.status)}
+                          className="text-xs font-semibold text-[var(--primary)] hover:underline disabled:opacity-60"
+                        >
+                          {action.label}
+                        </button>
+                      ))}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </section>
+
+      <section className="light-card space-y-4">
+        <h2 className="text-lg font-semibold">Catálogo</h2>
+        <form onSubmit={handleSavePart} className="grid gap-3 sm:grid-cols-2 lg:grid-cols-5">
+          <input
+            className={inputClass}
+            placeholder="Código"
+            value={partDraft.code}
+            onChange={(event) => setPartDraft({ ...partDraft, code: event.target.value })}
+            required
+          />
+          <input
+            className={`${inputClass} lg:col-span-2`}
+            placeholder="Descrição"
+            value={partDraft.description}
+            onChange={(event) => setPartDraft({ ...partDraft, description: event.target.value })}
+            required
+          />
+          <input
+            className={inputClass}
+            placeholder="Modelos compatíveis (vírgula)"
+            value={partDraft.compatibleModels}
+            onChange={(event) => setPartDraft({ ...partDraft, compatibleModels: event.target.value })}
+          />
+          <input
+            type="number"
+            min={0}
+            step="0.01"
+            className={inputClass}
+            placeholder="Custo unitário"
+            value={partDraft.unitCost}
+            onChange={(event) => setPartDraft({ ...partDraft, unitCost: event.target.value })}
+          />
+          <label className="flex items-center gap-2 text-sm text-[var(--text)]">
+            <input
+              type="checkbox"
+              checked={partDraft.active}
+              onChange={(event) => setPartDraft({ ...partDraft, active: event.target.checked })}
+            />
+            Ativa
+          </label>
+          <div className="flex gap-2 lg:col-span-4">
+            <button type="submit" disabled={saving} className={buttonClass}>
+              {partDraft.id ? "Salvar peça" : "Adicionar peça"}
+            </button>
+            {partDraft.id && (
+              <button type="button" onClick={() => setPartDraft(EMPTY_PART)} className="text-sm text-[var(--muted)]">
+                Cancelar edição
+              </button>
+            )}
+          </div>
+        </form>
+        <ul className="divide-y divide-[var(--border)] text-sm">
+          {parts.length === 0 && <li className="py-3 text-[var(--muted)]">Nenhuma peça cadastrada.</li>}
+          {parts.map((part) => (
+            <li key={part.id} className="flex items-center justify-between gap-3 py-3">
+              <div>
+                <span className="font-mono font-medium">{part.code}</span> · {part.description}
+                {!part.active && <span className="text-xs text-[var(--hint)]"> (inativa)</span>}
+                <div className="text-xs text-[var(--hint)]">
+                  {part.compatibleModels.length ? part.compatibleModels.join(", ") : "Todos os modelos"}
+                  {part.unitCost !== null && part.unitCost !== undefined
+                    ? ` · ${part.unitCost.toLocaleString("pt-BR", { style: "currency", currency: "BRL" })}`
+                    : ""}
+                </div>
+              </div>
+              <div className="flex gap-3">
+                <button
+                  type="button"
+                  onClick={() => setPartDraft(toDraft(part))}
+                  className="text-xs font-semibold text-[var(--primary)] hover:underline"
+                >
+                  Editar
+                </button>
+                <button
+                  type="button"
+                  disabled={saving}
+                  onClick={() => run(() => sendJson(`/api/parts/${part.id}`, "DELETE"), "Peça removida.")}
+                  className="text-xs font-semibold text-[var(--danger)] hover:underline"
+                >
+                  Remover
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { Severity } from "@/types/nonconformity";
+import type { RecurrenceSettings } from "@/types/recurrence";
+
+const SEVERITY_LABEL: Record<Severity, string> = { baixa: "Baixa", media: "Média", alta: "Alta" };
+
+const inputClass =
+  "rounded-md border border-[var(--border)] bg-[var(--surface)] px-3 py-2 text-sm text-[var(--text)] focus:outline-none focus:ring-2 focus:ring-[var(--primary)]";
+
+type SettingsDraft = {
+  similarityPercent: string;
+  windowDays: Record<Severity, string>;
+  escalateAfterChecklists: string;
+};
+
+function toDraft(settings: RecurrenceSettings): SettingsDraft {
+  return {
+    similarityPercent: String(Math.round(settings.similarityThreshold * 100)),
+    windowDays: {
+      baixa: String(settings.windowDays.baixa),
+      media: String(settings.windowDays.media),
+      alta: String(settings.windowDays.alta),
+    },
+    escalateAfterChecklists: String(settings.escalateAfterChecklists),
+  };
+}
+
+export default function RecurrenceAdminPage() {
+  const [draft, setDraft] = useState<SettingsDraft | null>(null);
+  const [defaults, setDefaults] = useState<RecurrenceSettings | null>(null);
+  const [updatedAt, setUpdatedAt] = useState<string | undefined>();
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ kind: "error" | "success"; text: string } | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch("/api/recurrence/settings", { cache: "no-store" });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok) throw new Error(payload?.error ?? "Falha ao carregar a configuração de recorrência.");
+      const settings = payload.data as RecurrenceSettings;
+      setDraft(toDraft(settings));
+      setDefaults((payload.defaults ?? null) as RecurrenceSettings | null);
+      setUpdatedAt(settings.updatedAt);
+    } catch (err) {
+      console.error("Failed to load recurrence settings", err);
+      setMessage({ kind: "error", text: (err as Error).message });
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const save = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!draft) return;
+    setSaving(true);
+    setMessage(null);
+    try {
+      const response = await fetch("/api/recurrence/settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          similarityThreshold: Number(draft.similarityPercent) / 100,
+          windowDays: {
+            baixa: Number(draft.windowDays.baixa),
+            media: Number(draft.windowDays.media),
+            alta: Number(draft.windowDays.alta),
+          },
+          escalateAfterChecklists: Number(draft.escalateAfterChecklists),
+        }),
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok) throw new Error(payload?.error ?? "Falha ao salvar.");
+      setMessage({ kind: "success", text: "Configuração salva. Vale para as próximas NCs." });
+      await refresh();
+    } catch (err) {
+      setMessage({ kind: "error", text: (err as Error).message });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <header className="space-y-1">
+        <h1 className="text-2xl font-semibold tracking-tight">Recorrência de NCs</h1>
+        <p className="text-sm text-[var(--muted)]">
+          Uma NC nova é recorrência de outra da mesma máquina quando vem da mesma pergunta do checklist ou, no mesmo
+          sistema, quando título e descrição são semelhantes. O vínculo pode ser confirmado ou desfeito no detalhe da NC.
+          Enquanto a NC da mesma pergunta segue aberta, novos checklists não abrem outra NC: entram como ocorrência.
+        </p>
+      </header>
+
+      {message && (
+        <p className={`text-sm ${message.kind === "error" ? "text-[var(--danger)]" : "text-emerald-700"}`}>
+          {message.text}
+        </p>
+      )}
+
+      {draft && (
+        <section className="light-card space-y-4">
+          <form onSubmit={save} className="space-y-3">
+            <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+              <label className="grid gap-1 text-sm font-medium text-[var(--text)]">
+                Similaridade mínima (%)
+                <input
+                  type="number"
+                  min={10}
+                  max={100}
+                  className={inputClass}
+                  value={draft.similarityPercent}
+                  onChange={(event) => setDraft((prev) => prev && { ...prev, similarityPercent: event.target.value })}
+                  required
+                />
+              </label>
+              {(Object.keys(SEVERITY_LABEL) as Severity[]).map((severity) => (
+                <label key={severity} className="grid gap-1 text-sm font-medium text-[var(--text)]">
+                  Janela, severidade {SEVERITY_LABEL[severity].toLowerCase()} (dias)
+                  <input
+                    type="number"
+                    min={1}
+                    max={365}
+                    className={inputClass}
+                    value={draft.windowDays[severity]}
+                    onChange={(event) =>
+                      setDraft(
+                        (prev) => prev && { ...prev, windowDays: { ...prev.windowDays, [severity]: event.target.value } },
+                      )
+                    }
+                    required
+                  />
+                </label>
+              ))}
+            </div>
+            <label className="grid max-w-xs gap-1 text-sm font-medium text-[var(--text)]">
+              Subir severidade a cada (checklists)
+              <input
+                type="number"
+                min={2}
+                max={50}
+                className={inputClass}
+                value={draft.escalateAfterChecklists}
+                onChange={(event) => setDraft((prev) => prev && { ...prev, escalateAfterChecklists: event.target.value })}
+                required
+              />
+              <span className="text-xs font-normal text-[var(--hint)]">
+                Checklists que relatam de novo uma NC aberta viram ocorrências dela; a cada N relatos, a severidade sobe um
+                nível.
+              </span>
+            </label>
+            <div className="flex flex-wrap items-center gap-2">
+              <button
+                type="submit"
+                disabled={saving}
+                className="rounded-md bg-[var(--primary)] px-4 py-2 text-sm font-semibold text-white shadow-sm-soft transition hover:bg-[var(--primary-700)] disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                Salvar configuração
+              </button>
+              {defaults && (
+                <button
+                  type="button"
+                  onClick={() => setDraft(toDraft(defaults))}
+                  className="rounded-md border border-[var(--border)] px-4 py-2 text-sm font-semibold transition hover:bg-[var(--surface)]"
+                >
+                  Restaurar padrão
+                </button>
+              )}
+              {updatedAt && (
+                <span className="text-xs text-[var(--hint)]">
+                  Atualizada em {new Date(updatedAt).toLocaleString("pt-BR")}
+                </span>
+              )}
+            </div>
+          </form>
+        </section>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,426 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { Severity } from "@/types/nonconformity";
+import {
+  SLA_ESCALATION_LEVELS,
+  SLA_ESCALATION_LEVEL_LABEL,
+  type SetorEscalationContacts,
+  type SlaEscalationLevel,
+  type SlaPolicy,
+} from "@/types/sla";
+
+const SEVERITY_LABEL: Record<Severity, string> = { baixa: "Baixa", media: "Média", alta: "Alta" };
+
+const inputClass =
+  "rounded-md border border-[var(--border)] bg-[var(--surface)] px-3 py-2 text-sm text-[var(--text)] focus:outline-none focus:ring-2 focus:ring-[var(--primary)]";
+
+type PolicyDraft = {
+  id?: string;
+  name: string;
+  severity: Severity | "";
+  safetyRisk: "" | "true" | "false";
+  setor: string;
+  resolutionHours: string;
+  dueSoonHours: string;
+  escalation: Record<SlaEscalationLevel, string>;
+};
+
+type ContactsDraft = {
+  setor: string;
+  supervisorNome: string;
+  supervisorEmail: string;
+  managerNome: string;
+  managerEmail: string;
+};
+
+const EMPTY_POLICY: PolicyDraft = {
+  name: "",
+  severity: "",
+  safetyRisk: "",
+  setor: "",
+  resolutionHours: "120",
+  dueSoonHours: "24",
+  escalation: { responsible: "0", supervisor: "24", manager: "72" },
+};
+
+const EMPTY_CONTACTS: ContactsDraft = {
+  setor: "",
+  supervisorNome: "",
+  supervisorEmail: "",
+  managerNome: "",
+  managerEmail: "",
+};
+
+function toDraft(policy: SlaPolicy): PolicyDraft {
+  const escalation = { ...EMPTY_POLICY.escalation };
+  for (const level of SLA_ESCALATION_LEVELS) {
+    const step = policy.escalation.find((item) => item.level === level);
+    escalation[level] = step ? String(step.afterOverdueHours) : "";
+  }
+  return {
+    id: policy.id,
+    name: policy.name,
+    severity: policy.severity ?? "",
+    safetyRisk: policy.safetyRisk === null ? "" : policy.safetyRisk ? "true" : "false",
+    setor: policy.setor ?? "",
+    resolutionHours: String(policy.resolutionHours),
+    dueSoonHours: String(policy.dueSoonHours),
+    escalation,
+  };
+}
+
+const describeCriteria = (policy: SlaPolicy) =>
+  [
+    policy.severity ? `Severidade ${SEVERITY_LABEL[policy.severity].toLowerCase()}` : null,
+    policy.safetyRisk === null ? null : policy.safetyRisk ? "com risco de segurança" : "sem risco de segurança",
+    policy.setor ? `setor ${policy.setor}` : null,
+  ]
+    .filter(Boolean)
+    .join(", ") || "Todas as NCs";
+
+const describeEscalation = (policy: SlaPolicy) =>
+  policy.escalation
+    .map((step) => `${SLA_ESCALATION_LEVEL_LABEL[step.level]} +${step.afterOverdueHours}h`)
+    .join(" → ") || "Sem escalonamento";
+
+async function sendJson(url: string, method: string, body?: unknown) {
+  const response = await fetch(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const payload = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(typeof payload?.error === "string" ? payload.error : "Falha ao salvar.");
+  }
+  return payload;
+}
+
+export default function SlaAdminPage() {
+  const [policies, setPolicies] = useState<SlaPolicy[]>([]);
+  const [defaults, setDefaults] = useState<SlaPolicy[]>([]);
+  const [contacts, setContacts] = useState<SetorEscalationContacts[]>([]);
+  const [policyDraft, setPolicyDraft] = useState<PolicyDraft>(EMPTY_POLICY);
+  const [contactsDraft, setContactsDraft] = useState<ContactsDraft>(EMPTY_CONTACTS);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ kind: "error" | "success"; text: string } | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const [policiesRes, contactsRes] = await Promise.all([
+        fetch("/api/sla/policies", { cache: "no-store" }),
+        fetch("/api/sla/contacts", { cache: "no-store" }),
+      ]);
+      const policiesPayload = await policiesRes.json().catch(() => null);
+      const contactsPayload = await contactsRes.json().catch(() => null);
+      if (!policiesRes.ok || !contactsRes.ok) {
+        throw new Error(policiesPayload?.error ?? contactsPayload?.error ?? "Falha ao carregar configuração de SLA.");
+      }
+      setPolicies((policiesPayload?.data ?? []) as SlaPolicy[]);
+      setDefaults((policiesPayload?.defaults ?? []) as SlaPolicy[]);
+      setContacts((contactsPayload?.data ?? []) as SetorEscalationContacts[]);
+    } catch (err) {
+      console.error("Failed to load SLA configuration", err);
+      setMessage({ kind: "error", text: (err as Error).message });
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const run = async (action: () => Promise<unknown>, success: string) => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      await action();
+      setMessage({ kind: "success", text: success });
+      await refresh();
+    } catch (err) {
+      setMessage({ kind: "error", text: (err as Error).message });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const savePolicy = (event: React.FormEvent) => {
+    event.preventDefault();
+    const body = {
+      name: policyDraft.name,
+      severity: policyDraft.severity || null,
+      safetyRisk: policyDraft.safetyRisk === "" ? null : policyDraft.safetyRisk === "true",
+      setor: policyDraft.setor.trim() || null,
+      resolutionHours: Number(policyDraft.resolutionHours),
+      dueSoonHours: Number(policyDraft.dueSoonHours),
+      escalation: SLA_ESCALATION_LEVELS.filter((level) => policyDraft.escalation[level] !== "").map((level) => ({
+        level,
+        afterOverdueHours: Number(policyDraft.escalation[level]),
+      })),
+    };
+    run(async () => {
+      await sendJson(policyDraft.id ? `/api/sla/policies/${policyDraft.id}` : "/api/sla/policies", policyDraft.id ? "PUT" : "POST", body);
+      setPolicyDraft(EMPTY_POLICY);
+    }, "Política salva.");
+  };
+
+  const removePolicy = (policy: SlaPolicy) => {
+    if (!confirm(`Remover a política "${policy.name}"?`)) return;
+    run(() => sendJson(`/api/sla/policies/${policy.id}`, "DELETE"), "Política removida.");
+  };
+
+  const saveContacts = (event: React.FormEvent) => {
+    event.preventDefault();
+    const contact = (nome: string, email: string) => (nome.trim() ? { nome, email: email.trim() || null } : null);
+    run(async () => {
+      await sendJson("/api/sla/contacts", "PUT", {
+        setor: contactsDraft.setor.trim() || null,
+        supervisor: contact(contactsDraft.supervisorNome, contactsDraft.supervisorEmail),
+        manager: contact(contactsDraft.managerNome, contactsDraft.managerEmail),
+      });
+      setContactsDraft(EMPTY_CONTACTS);
+    }, "Contatos salvos.");
+  };
+
+  const updateEscalation = (level: SlaEscalationLevel, value: string) =>
+    setPolicyDraft((prev) => ({ ...prev, escalation: { ...prev.escalation, [level]: value } }));
+
+  return (
+    <div className="space-y-6">
+      <header className="space-y-1">
+        <h1 className="text-2xl font-semibold tracking-tight">SLA e escalonamento</h1>
+        <p className="text-sm text-[var(--muted)]">
+          Prazos de resolução das NCs por severidade, risco de segurança e setor, e quem é acionado quando vencem.
+        </p>
+      </header>
+
+      {message && (
+        <p className={`text-sm ${message.kind === "error" ? "text-[var(--danger)]" : "text-emerald-700"}`}>
+          {message.text}
+        </p>
+      )}
+
+      <section className="light-card overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-[var(--surface)] text-xs uppercase tracking-wide text-[var(--hint)]">
+              <tr>
+                <th className="px-4 py-3 text-left font-medium">Política</th>
+                <th className="px-4 py-3 text-left font-medium">Aplica-se a</th>
+                <th className="px-4 py-3 text-left font-medium">Prazo</th>
+                <th className="px-4 py-3 text-left font-medium">Alerta</th>
+                <th className="px-4 py-3 text-left font-medium">Escalonamento (após vencer)</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody>
+              {[...policies, ...defaults].map((policy) => {
+                const isDefault = defaults.includes(policy);
+                return (
+                  <tr key={policy.id} className="border-t border-[var(--border)]">
+                    <td className="px-4 py-3 font-medium text-[var(--text)]">
+                      {policy.name}
+                      {isDefault && <span className="ml-2 text-xs text-[var(--hint)]">padrão</span>}
+                    </td>
+                    <td className="px-4 py-3 text-[var(--muted)]">{describeCriteria(policy)}</td>
+                    <td className="px-4 py-3 text-[var(--muted)]">{policy.resolutionHours} h</td>
+                    <td className="px-4 py-3 text-[var(--muted)]">{policy.dueSoonHours} h antes</td>
+                    <td className="px-4 py-3 text-[var(--muted)]">{describeEscalation(policy)}</td>
+                    <td className="px-4 py-3 text-right">
+                      {!isDefault && (
+                        <div className="flex justify-end gap-2">
+                          <button
+                            type="button"
+                            onClick={() => setPolicyDraft(toDraft(policy))}
+                            className="text-xs font-semibold text-[var(--primary)] hover:underline"
+                          >
+                            Editar
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => removePolicy(policy)}
+                            className="text-xs font-semibold text-[var(--danger)] hover:underline"
+                          >
+                            Remover
+                          </button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </section>
+
+      <section className="light-card space-y-4">
+        <h2 className="text-lg font-semibold">{policyDraft.id ? "Editar política" : "Nova política"}</h2>
+        <form onSubmit={savePolicy} className="space-y-3">
+          <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+            <label className="grid gap-1 text-sm font-medium text-[var(--text)]">
+              Nome
+              <input
+                className={inputClass}
+                value={policyDraft.name}
+                onChange={(event) => setPolicyDraft((prev) => ({ ...prev, name: event.target.value }))}
+                required
+              />
+            </label>
+            <label className="grid gap-1 text-sm font-medium text-[var(--text)]">
+              Severidade
+              <select
+                className={inputClass}
+                value={policyDraft.severity}
+                onChange={(event) => setPolicyDraft((prev) => ({ ...prev, severity: event.target.value as Severity | "" }))}
+              >
+                <option value="">Qualquer</option>
+                {(Object.keys(SEVERITY_LABEL) as Severity[]).map((severity) => (
+                  <option key={severity} value={severity}>
+                    {SEVERITY_LABEL[severity]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="grid gap-1 text-sm font-medium text-[var(--text)]">
+              Risco de segurança
+              <select
+                className={inputClass}
+                value={policyDraft.safetyRisk}
+                onChange={(event) =>
+                  setPolicyDraft((prev) => ({ ...prev, safetyRisk: event.target.value as PolicyDraft["safetyRisk"] }))
+                }
+              >
+                <option value="">Qualquer</option>
+                <option value="true">Sim</option>
+                <option value="false">Não</option>
+              </select>
+            </label>
+            <label className="grid gap-1 text-sm font-medium text-[var(--text)]">
+              Setor
+              <input
+                className={inputClass}
+                value={policyDraft.setor}
+                onChange={(event) => setPolicyDraft((prev) => ({ ...prev, setor: event.target.value }))}
+                placeholder="Qualquer"
+              />
+            </label>
+            <label className="grid gap-1 text-sm font-medium text-[var(--text)]">
+              Prazo de resolução (h)
+              <input
+                type="number"
+                min={1}
+                className={inputClass}
+                value={policyDraft.resolutionHours}
+                onChange={(event) => setPolicyDraft((prev) => ({ ...prev, resolutionHours: event.target.value }))}
+                required
+              />
+            </label>
+            <label className="grid gap-1 text-sm font-medium text-[var(--text)]">
+              Alerta antes do vencimento (h)
+              <input
+                type="number"
+                min={0}
+                className={inputClass}
+                value={policyDraft.dueSoonHours}
+                onChange={(event) => setPolicyDraft((prev) => ({ ...prev, dueSoonHours: event.target.value }))}
+                required
+              />
+            </label>
+            {SLA_ESCALATION_LEVELS.map((level) => (
+              <label key={level} className="grid gap-1 text-sm font-medium text-[var(--text)]">
+                {SLA_ESCALATION_LEVEL_LABEL[level]} (h após vencer)
+                <input
+                  type="number"
+                  min={0}
+                  className={inputClass}
+                  value={policyDraft.escalation[level]}
+                  onChange={(event) => updateEscalation(level, event.target.value)}
+                  placeholder="Não acionar"
+                />
+              </label>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={saving}
+              className="rounded-md bg-[var(--primary)] px-4 py-2 text-sm font-semibold text-white shadow-sm-soft transition hover:bg-[var(--primary-700)] disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              Salvar política
+            </button>
+            {policyDraft.id && (
+              <button
+                type="button"
+                onClick={() => setPolicyDraft(EMPTY_POLICY)}
+                className="rounded-md border border-[var(--border)] px-4 py-2 text-sm font-semibold transition hover:bg-[var(--surface)]"
+              >
+                Cancelar
+              </button>
+            )}
+          </div>
+        </form>
+      </section>
+
+      <section className="light-card space-y-4">
+        <div>
+          <h2 className="text-lg font-semibold">Contatos por setor</h2>
+          <p className="text-xs text-[var(--muted)]">
+            O responsável é o dono da ação em aberto da NC. Sem setor, o cadastro vale para os setores sem contato próprio.
+          </p>
+        </div>
+        {contacts.length > 0 && (
+          <ul className="space-y-1 text-sm">
+            {contacts.map((entry) => (
+              <li key={entry.id} className="text-[var(--muted)]">
+                <span className="font-medium text-[var(--text)]">{entry.setor ?? "Demais setores"}</span>: supervisor{" "}
+                {entry.supervisor?.nome ?? "-"}, gerente {entry.manager?.nome ?? "-"}
+              </li>
+            ))}
+          </ul>
+        )}
+        <form onSubmit={saveContacts} className="grid gap-3 sm:grid-cols-2 lg:grid-cols-5">
+          <input
+            className={inputClass}
+            value={contactsDraft.setor}
+            onChange={(event) => setContactsDraft((prev) => ({ ...prev, setor: event.target.value }))}
+            placeholder="Setor (vazio = demais)"
+          />
+          <input
+            className={inputClass}
+            value={contactsDraft.supervisorNome}
+            onChange={(event) => setContactsDraft((prev) => ({ ...prev, supervisorNome: event.target.value }))}
+            placeholder="Supervisor"
+          />
+          <input
+            type="email"
+            className={inputClass}
+            value={contactsDraft.supervisorEmail}
+            onChange={(event) => setContactsDraft((prev) => ({ ...prev, supervisorEmail: event.target.value }))}
+            placeholder="E-mail do supervisor"
+          />
+          <input
+            className={inputClass}
+            value={contactsDraft.managerNome}
+            onChange={(event) => setContactsDraft((prev) => ({ ...prev, managerNome: event.target.value }))}
+            placeholder="Gerente"
+          />
+          <input
+            type="email"
+            className={inputClass}
+            value={contactsDraft.managerEmail}
+            onChange={(event) => setContactsDraft((prev) => ({ ...prev, managerEmail: event.target.value }))}
+            placeholder="E-mail do gerente"
+          />
+          <button
+            type="submit"
+            disabled={saving}
+            className="rounded-md bg-[var(--primary)] px-4 py-2 text-sm font-semibold text-white shadow-sm-soft transition hover:bg-[var(--primary-700)] disabled:cursor-not-allowed disabled:opacity-60 sm:col-span-2 lg:col-span-1"
+          >
+            Salvar contatos
+          </button>
+        </form>
+      </section>
+    </div>
+  );
+}
@@ -17,6 +17,8 @@ const UNIT_LABEL = {
   day: { singular: "dia", plural: "dias" },
   week: { singular: "semana", plural: "semanas" },
   month: { singular: "mês", plural: "meses" },
+  hours: { singular: "hora", plural: "horas" },
+  km: { singular: "km", plural: "km" },
 } as const;
 
 type UiState = {
@@ -50,7 +52,7 @@ export default function TemplatesAdminPage() {
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ ...config, anchor: "last_submission" }),
+        body: JSON.stringify(config),
       });
       if (!response.ok) {
         const payload = await response.json().catch(() => null);
@@ -179,7 +181,7 @@ export default function TemplatesAdminPage() {
                             template.periodicity.quantity > 1
                               ? UNIT_LABEL[template.periodicity.unit].plural
                               : UNIT_LABEL[template.periodicity.unit].singular
-                          }`}
+                          }${template.periodicity.anchor === "calendar" ? " (calendário do setor)" : ""}`}
                         </span>
                       </div>
                     ) : (
@@ -0,0 +1,467 @@
+"use client";
+
+import Link from "next/link";
+import { collection, getDocs } from "firebase/firestore";
+import { useParams } from "next/navigation";
+import { useCallback, useEffect, useState } from "react";
+import SignaturePad from "@/components/SignaturePad";
+import { authHeaders } from "@/lib/auth-headers";
+import { db } from "@/lib/firebase";
+import { buildUploadFilename, dataUrlToBlob, uploadImageToR2 } from "@/lib/image-upload";
+import type { NonConformity } from "@/types/nonconformity";
+import {
+  WORK_ORDER_STATUS_LABEL,
+  type WorkOrder,
+  type WorkOrderLabor,
+  type WorkOrderPart,
+  type WorkOrderTask,
+} from "@/types/work-order";
+
+const inputClass =
+  "rounded-md border border-[var(--border)] bg-[var(--surface)] px-3 py-2 text-sm text-[var(--text)] focus:outline-none focus:ring-2 focus:ring-[var(--primary)]";
+
+const buttonClass =
+  "rounded-md bg-[var(--primary)] px-4 py-2 text-sm font-semibold text-white shadow-sm-soft transition hover:bg-[var(--primary-700)] disabled:cursor-not-allowed disabled:opacity-60";
+
+const secondaryButtonClass =
+  "rounded-md border border-[var(--border)] px-4 py-2 text-sm font-semibold transition hover:bg-[var(--surface)] disabled:cursor-not-allowed disabled:opacity-60";
+
+type MechanicOption = { id: string; nome: string };
+
+type Draft = {
+  plannedDate: string;
+  mechanicIds: string[];
+  tasks: WorkOrderTask[];
+  labor: WorkOrderLabor[];
+  parts: WorkOrderPart[];
+};
+
+const toDraft = (order: WorkOrder): Draft => ({
+  plannedDate: order.plannedDate,
+  mechanicIds: order.mechanics.map((mechanic) => mechanic.id),
+  tasks: structuredClone(order.tasks),
+  labor: structuredClone(order.labor),
+  parts: structuredClone(order.parts),
+});
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+async function sendJson(url: string, method: string, body: unknown) {
+  const response = await fetch(url, {
+    method,
+    headers: { "Content-Type": "application/json", ...(await authHeaders()) },
+    body: JSON.stringify(body),
+  });
+  const payload = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(typeof payload?.error === "string" ? payload.error : "Falha ao salvar.");
+  }
+  return payload;
+}
+
+export default function WorkOrderDetailPage() {
+  const params = useParams<{ id: string }>();
+  const orderId = params?.id;
+  const [order, setOrder] = useState<WorkOrder | null>(null);
+  const [ncs, setNcs] = useState<NonConformity[]>([]);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [mechanicOptions, setMechanicOptions] = useState<MechanicOption[]>([]);
+  const [signOffNome, setSignOffNome] = useState("");
+  const [signature, setSignature] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ kind: "error" | "success"; text: string } | null>(null);
+
+  const load = useCallback(async () => {
+    if (!orderId) return;
+    try {
+      const response = await fetch(`/api/work-orders/${orderId}`, { cache: "no-store" });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok) throw new Error(payload?.error ?? "Falha ao carregar ordem de serviço.");
+      const loaded = payload.data as WorkOrder;
+      setOrder(loaded);
+      setDraft(toDraft(loaded));
+      setNcs((payload.ncs ?? []) as NonConformity[]);
+    } catch (err) {
+      console.error("Failed to load work order", err);
+      setMessage({ kind: "error", text: (err as Error).message });
+    }
+  }, [orderId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    getDocs(collection(db, "users"))
+      .then((snapshot) =>
+        setMechanicOptions(
+          snapshot.docs
+            .filter((docSnap) => docSnap.data().role === "mecanico")
+            .map((docSnap) => ({ id: docSnap.id, nome: String(docSnap.data().nome ?? docSnap.id) }))
+            .sort((a, b) => a.nome.localeCompare(b.nome)),
+        ),
+      )
+      .catch((err) => console.error("Failed to load mechanics", err));
+  }, []);
+
+  const run = async (action: () => Promise<unknown>, success: string) => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      await action();
+      setMessage({ kind: "success", text: success });
+      await load();
+    } catch (err) {
+      setMessage({ kind: "error", text: (err as Error).message });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!order || !draft) {
+    return (
+      <div className="space-y-4">
+        {message ? (
+          <p className="text-sm text-[var(--danger)]">{message.text}</p>
+        ) : (
+          <p className="text-sm text-[var(--hint)]">Carregando ordem de serviço…</p>
+        )}
+      </div>
+    );
+  }
+
+  const editable = order.status === "planejada" || order.status === "em_execucao";
+  const assigned = mechanicOptions.filter((option) => draft.mechanicIds.includes(option.id));
+  const mechanicName = (id: string) =>
+    mechanicOptions.find((option) => option.id === id)?.nome ??
+    order.mechanics.find((mechanic) => mechanic.id === id)?.nome ??
+    id;
+  const totalHours = draft.labor.reduce((total, entry) => total + (Number(entry.hours) || 0), 0);
+
+  const update = (patch: Partial<Draft>) => setDraft((prev) => (prev ? { ...prev, ...patch } : prev));
+
+  const updateItem = <K extends "tasks" | "labor" | "parts">(key: K, id: string, patch: Partial<Draft[K][number]>) =>
+    setDraft((prev) =>
+      prev ? { ...prev, [key]: prev[key].map((item) => (item.id === id ? { ...item, ...patch } : item)) } : prev,
+    );
+
+  const removeItem = (key: "tasks" | "labor" | "parts", id: string) =>
+    setDraft((prev) => (prev ? { ...prev, [key]: prev[key].filter((item) => item.id !== id) } : prev));
+
+  const save = () =>
+    run(
+      () =>
+        sendJson(`/api/work-orders/${order.id}`, "PATCH", {
+          plannedDate: draft.plannedDate,
+          mechanicIds: draft.mechanicIds,
+          tasks: draft.tasks.filter((task) => task.description.trim()),
+          labor: draft.labor.map((entry) => ({ ...entry, hours: Number(entry.hours) })),
+          parts: draft.parts
+            .filter((part) => part.partNumber.trim())
+            .map((part) => ({
+              ...part,
+              quantity: Number(part.quantity),
+              unitCost: part.unitCost === null || part.unitCost === undefined ? null : Number(part.unitCost),
+            })),
+        }),
+      "Ordem de serviço salva.",
+    );
+
+  const start = () =>
+    run(() => sendJson(`/api/work-orders/${order.id}`, "PATCH", { status: "em_execucao" }), "Execução iniciada.");
+
+  const cancel = () => {
+    const reason = prompt("Motivo do cancelamento");
+    if (!reason?.trim()) return;
+    run(
+      () => sendJson(`/api/work-orders/${order.id}`, "PATCH", { status: "cancelada", cancelReason: reason }),
+      "Ordem de serviço cancelada.",
+    );
+  };
+
+  const complete = () => {
+    if (!signOffNome.trim() || !signature) {
+      setMessage({ kind: "error", text: "Informe o nome e colete a assinatura de conclusão." });
+      return;
+    }
+    run(async () => {
+      const signatureUrl = await uploadImageToR2(
+        dataUrlToBlob(signature),
+        buildUploadFilename(["work-orders", order.id, "sign-off"], "png"),
+      );
+      await sendJson(`/api/work-orders/${order.id}/complete`, "POST", {
+        signOff: { nome: signOffNome, signatureUrl },
+      });
+    }, "Ordem de serviço concluída e NCs resolvidas.");
+  };
+
+  return (
+    <div className="space-y-6">
+      <Link href="/admin/work-orders" className="text-sm font-medium text-[var(--primary)] hover:underline">
+        ← Ordens de serviço
+      </Link>
+
+      <header className="space-y-1">
+        <h1 className="text-2xl font-semibold tracking-tight">{order.title}</h1>
+        <p className="text-sm text-[var(--muted)]">
+          {order.machineTag} · {WORK_ORDER_STATUS_LABEL[order.status]}
+          {order.cancelReason ? ` · ${order.cancelReason}` : ""}
+        </p>
+      </header>
+
+      {message && (
+        <p className={`text-sm ${message.kind === "error" ? "text-[var(--danger)]" : "text-emerald-700"}`}>
+          {message.text}
+        </p>
+      )}
+
+      <section className="light-card space-y-3">
+        <h2 className="text-lg font-semibold">NCs vinculadas</h2>
+        <ul className="space-y-1 text-sm">
+          {ncs.map((nc) => (
+            <li key={nc.id}>
+              <Link href={`/admin/non-conformities/${nc.id}`} className="text-[var(--primary)] hover:underline">
+                {nc.title}
+              </Link>
+              <span className="text-[var(--muted)]"> · {nc.status}</span>
+            </li>
+          ))}
+        </ul>
+      </section>
+
+      <section className="light-card space-y-4">
+        <h2 className="text-lg font-semibold">Planejamento</h2>
+        <div className="grid gap-3 sm:grid-cols-2">
+          <label className="grid gap-1 text-sm font-medium text-[var(--text)]">
+            Data planejada
+            <input
+              type="date"
+              className={inputClass}
+              value={draft.plannedDate}
+              disabled={!editable}
+              onChange={(event) => update({ plannedDate: event.target.value })}
+            />
+          </label>
+          <fieldset className="grid gap-1 text-sm text-[var(--text)]">
+            <legend className="font-medium">Mecânicos</legend>
+            {mechanicOptions.map((mechanic) => (
+              <label key={mechanic.id} className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  disabled={!editable}
+                  checked={draft.mechanicIds.includes(mechanic.id)}
+                  onChange={() =>
+                    update({
+                      mechanicIds: draft.mechanicIds.includes(mechanic.id)
+                        ? draft.mechanicIds.filter((id) => id !== mechanic.id)
+                        : [...draft.mechanicIds, mechanic.id],
+                    })
+                  }
+                />
+                {mechanic.nome}
+              </label>
+            ))}
+          </fieldset>
+        </div>
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold">Tarefas</h3>
+          {draft.tasks.map((task) => (
+            <div key={task.id} className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                disabled={!editable}
+                checked={task.done}
+                onChange={(event) => updateItem("tasks", task.id, { done: event.target.checked })}
+              />
+              <input
+                className={`${inputClass} flex-1`}
+                disabled={!editable}
+                value={task.description}
+                onChange={(event) => updateItem("tasks", task.id, { description: event.target.value })}
+              />
+              {editable && (
+                <button type="button" onClick={() => removeItem("tasks", task.id)} className="text-xs text-[var(--danger)]">
+                  Remover
+                </button>
+              )}
+            </div>
+          ))}
+          {editable && (
+            <button
+              type="button"
+              onClick={() => update({ tasks: [...draft.tasks, { id: crypto.randomUUID(), description: "", done: false }] })}
+              className="text-xs font-semibold text-[var(--primary)] hover:underline"
+            >
+              + Tarefa
+            </button>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold">Mão de obra ({totalHours.toLocaleString("pt-BR")} h)</h3>
+          {draft.labor.map((entry) => (
+            <div key={entry.id} className="grid gap-2 sm:grid-cols-[1fr_10rem_6rem_auto]">
+              <select
+                className={inputClass}
+                disabled={!editable}
+                value={entry.mechanicId}
+                onChange={(event) => updateItem("labor", entry.id, { mechanicId: event.target.value })}
+              >
+                <option value={entry.mechanicId}>{mechanicName(entry.mechanicId)}</option>
+                {assigned
+                  .filter((mechanic) => mechanic.id !== entry.mechanicId)
+                  .map((mechanic) => (
+                    <option key={mechanic.id} value={mechanic.id}>
+                      {mechanic.nome}
+                    </option>
+                  ))}
+              </select>
+              <input
+                type="date"
+                className={inputClass}
+                disabled={!editable}
+                value={entry.date}
+                onChange={(event) => updateItem("labor", entry.id, { date: event.target.value })}
+              />
+              <input
+                type="number"
+                min={0.25}
+                step={0.25}
+                className={inputClass}
+                disabled={!editable}
+                value={entry.hours}
+                onChange={(event) => updateItem("labor", entry.id, { hours: Number(event.target.value) })}
+              />
+              {editable && (
+                <button type="button" onClick={() => removeItem("labor", entry.id)} className="text-xs text-[var(--danger)]">
+                  Remover
+                </button>
+              )}
+            </div>
+          ))}
+          {editable && assigned.length > 0 && (
+            <button
+              type="button"
+              onClick={() =>
+                update({
+                  labor: [...draft.labor, { id: crypto.randomUUID(), mechanicId: assigned[0].id, hours: 1, date: today() }],
+                })
+              }
+              className="text-xs font-semibold text-[var(--primary)] hover:underline"
+            >
+              + Apontamento
+            </button>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold">Peças consumidas</h3>
+          {draft.parts.map((part) => (
+            <div key={part.id} className="grid gap-2 sm:grid-cols-[10rem_1fr_6rem_8rem_auto]">
+              <input
+                className={inputClass}
+                disabled={!editable}
+                value={part.partNumber}
+                placeholder="Código"
+                onChange={(event) => updateItem("parts", part.id, { partNumber: event.target.value })}
+              />
+              <input
+                className={inputClass}
+                disabled={!editable}
+                value={part.description}
+                placeholder="Descrição"
+                onChange={(event) => updateItem("parts", part.id, { description: event.target.value })}
+              />
+              <input
+                type="number"
+                min={0}
+                step="any"
+                className={inputClass}
+                disabled={!editable}
+                value={part.quantity}
+                onChange={(event) => updateItem("parts", part.id, { quantity: Number(event.target.value) })}
+              />
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                className={inputClass}
+                disabled={!editable}
+                value={part.unitCost ?? ""}
+                placeholder="Custo unit."
+                onChange={(event) =>
+                  updateItem("parts", part.id, { unitCost: event.target.value ? Number(event.target.value) : null })
+                }
+              />
+              {editable && (
+                <button type="button" onClick={() => removeItem("parts", part.id)} className="text-xs text-[var(--danger)]">
+                  Remover
+                </button>
+              )}
+            </div>
+          ))}
+          {editable && (
+            <button
+              type="button"
+              onClick={() =>
+                update({
+                  parts: [...draft.parts, { id: crypto.randomUUID(), partNumber: "", description: "", quantity: 1, unitCost: null }],
+                })
+              }
+              className="text-xs font-semibold text-[var(--primary)] hover:underline"
+            >
+              + Peça
+            </button>
+          )}
+        </div>
+
+        {editable && (
+          <div className="flex flex-wrap gap-2">
+            <button type="button" onClick={save} disabled={saving} className={buttonClass}>
+              Salvar
+            </button>
+            {order.status === "planejada" && (
+              <button type="button" onClick={start} disabled={saving} className={secondaryButtonClass}>
+                Iniciar execução
+              </button>
+            )}
+            <button type="button" onClick={cancel} disabled={saving} className={secondaryButtonClass}>
+              Cancelar ordem
+            </button>
+          </div>
+        )}
+      </section>
+
+      <section className="light-card space-y-4">
+        <h2 className="text-lg font-semibold">Conclusão</h2>
+        {order.signOff ? (
+          <div className="space-y-2 text-sm text-[var(--muted)]">
+            <p>
+              Assinada por {order.signOff.nome} em {new Date(order.signOff.signedAt).toLocaleString("pt-BR")}.
+            </p>
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img src={order.signOff.signatureUrl} alt="Assinatura de conclusão" className="h-24 rounded border border-[var(--border)] bg-white" />
+          </div>
+        ) : editable ? (
+          <div className="space-y-3">
+            <p className="text-xs text-[var(--muted)]">
+              Salve os apontamentos antes de concluir. A conclusão encerra as ações corretivas em aberto e resolve as NCs
+              vinculadas.
+            </p>
+            <label className="grid gap-1 text-sm font-medium text-[var(--text)] sm:max-w-sm">
+              Responsável pela conclusão
+              <input className={inputClass} value={signOffNome} onChange={(event) => setSignOffNome(event.target.value)} />
+            </label>
+            <SignaturePad label="Assinatura" required onChange={setSignature} />
+            <button type="button" onClick={complete} disabled={saving} className={buttonClass}>
+              Concluir ordem de serviço
+            </button>
+          </div>
+        ) : (
+          <p className="text-sm text-[var(--muted)]">Ordem cancelada.</p>
+        )}
+      </section>
+    </div>
+  );
+}
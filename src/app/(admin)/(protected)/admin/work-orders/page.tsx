@@ -0,0 +1,270 @@
+"use client";
+
+import Link from "next/link";
+import { collection, getDocs } from "firebase/firestore";
+import { useCallback, useEffect, useState } from "react";
+import { authHeaders } from "@/lib/auth-headers";
+import { db } from "@/lib/firebase";
+import type { NonConformity } from "@/types/nonconformity";
+import { WORK_ORDER_STATUS_LABEL, type WorkOrder, type WorkOrderStatus } from "@/types/work-order";
+
+const inputClass =
+  "rounded-md border border-[var(--border)] bg-[var(--surface)] px-3 py-2 text-sm text-[var(--text)] focus:outline-none focus:ring-2 focus:ring-[var(--primary)]";
+
+type MachineOption = { id: string; tag: string };
+type MechanicOption = { id: string; nome: string };
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const formatDate = (value: string) => (value ? new Date(`${value}T12:00:00`).toLocaleDateString("pt-BR") : "-");
+
+const laborHours = (order: WorkOrder) => order.labor.reduce((total, entry) => total + entry.hours, 0);
+
+export default function WorkOrdersPage() {
+  const [orders, setOrders] = useState<WorkOrder[]>([]);
+  const [machines, setMachines] = useState<MachineOption[]>([]);
+  const [mechanics, setMechanics] = useState<MechanicOption[]>([]);
+  const [statusFilter, setStatusFilter] = useState<WorkOrderStatus | "">("");
+  const [machineId, setMachineId] = useState("");
+  const [openNcs, setOpenNcs] = useState<NonConformity[]>([]);
+  const [selectedNcs, setSelectedNcs] = useState<string[]>([]);
+  const [plannedDate, setPlannedDate] = useState(today());
+  const [selectedMechanics, setSelectedMechanics] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ kind: "error" | "success"; text: string } | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/work-orders${statusFilter ? `?status=${statusFilter}` : ""}`, {
+        cache: "no-store",
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok) throw new Error(payload?.error ?? "Falha ao carregar ordens de serviço.");
+      setOrders((payload?.data ?? []) as WorkOrder[]);
+    } catch (err) {
+      console.error("Failed to load work orders", err);
+      setMessage({ kind: "error", text: (err as Error).message });
+    }
+  }, [statusFilter]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    Promise.all([getDocs(collection(db, "machines")), getDocs(collection(db, "users"))])
+      .then(([machinesSnap, usersSnap]) => {
+        setMachines(
+          machinesSnap.docs
+            .map((docSnap) => ({ id: docSnap.id, tag: String(docSnap.data().tag ?? docSnap.id) }))
+            .sort((a, b) => a.tag.localeCompare(b.tag)),
+        );
+        setMechanics(
+          usersSnap.docs
+            .filter((docSnap) => docSnap.data().role === "mecanico")
+            .map((docSnap) => ({ id: docSnap.id, nome: String(docSnap.data().nome ?? docSnap.id) }))
+            .sort((a, b) => a.nome.localeCompare(b.nome)),
+        );
+      })
+      .catch((err) => console.error("Failed to load machines and mechanics", err));
+  }, []);
+
+  useEffect(() => {
+    setSelectedNcs([]);
+    if (!machineId) {
+      setOpenNcs([]);
+      return;
+    }
+    let cancelled = false;
+    fetch(`/api/nc?machineId=${encodeURIComponent(machineId)}&pageSize=100`, { cache: "no-store" })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((payload) => {
+        if (cancelled) return;
+        const ncs = ((payload?.data ?? []) as NonConformity[]).filter((nc) => nc.status !== "resolvida");
+        setOpenNcs(ncs);
+      })
+      .catch((err) => console.error("Failed to load machine NCs", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [machineId]);
+
+  const toggle = (list: string[], value: string) =>
+    list.includes(value) ? list.filter((item) => item !== value) : [...list, value];
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!selectedNcs.length) {
+      setMessage({ kind: "error", text: "Selecione ao menos uma NC." });
+      return;
+    }
+    setSaving(true);
+    setMessage(null);
+    try {
+      const response = await fetch("/api/work-orders", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...(await authHeaders()) },
+        body: JSON.stringify({
+          ncIds: selectedNcs,
+          plannedDate,
+          mechanicIds: selectedMechanics,
+        }),
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok) throw new Error(payload?.error ?? "Falha ao criar ordem de serviço.");
+      setMessage({ kind: "success", text: "Ordem de serviço criada." });
+      setMachineId("");
+      setSelectedMechanics([]);
+      await refresh();
+    } catch (err) {
+      setMessage({ kind: "error", text: (err as Error).message });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <header className="space-y-1">
+        <h1 className="text-2xl font-semibold tracking-tight">Ordens de serviço</h1>
+        <p className="text-sm text-[var(--muted)]">
+          Planejamento da oficina a partir das NCs: mecânicos designados, tarefas, horas, peças e assinatura de conclusão.
+        </p>
+      </header>
+
+      {message && (
+        <p className={`text-sm ${message.kind === "error" ? "text-[var(--danger)]" : "text-emerald-700"}`}>
+          {message.text}
+        </p>
+      )}
+
+      <section className="light-card space-y-4">
+        <h2 className="text-lg font-semibold">Nova ordem de serviço</h2>
+        <form onSubmit={handleCreate} className="space-y-3">
+          <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+            <label className="grid gap-1 text-sm font-medium text-[var(--text)]">
+              Máquina
+              <select className={inputClass} value={machineId} onChange={(event) => setMachineId(event.target.value)}>
+                <option value="">Selecione</option>
+                {machines.map((machine) => (
+                  <option key={machine.id} value={machine.id}>
+                    {machine.tag}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="grid gap-1 text-sm font-medium text-[var(--text)]">
+              Data planejada
+              <input
+                type="date"
+                className={inputClass}
+                value={plannedDate}
+                onChange={(event) => setPlannedDate(event.target.value)}
+                required
+              />
+            </label>
+          </div>
+          {machineId && (
+            <fieldset className="space-y-1 text-sm text-[var(--text)]">
+              <legend className="font-medium">NCs em aberto</legend>
+              {openNcs.length === 0 && <p className="text-xs text-[var(--muted)]">Nenhuma NC em aberto para a máquina.</p>}
+              {openNcs.map((nc) => (
+                <label key={nc.id} className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={selectedNcs.includes(nc.id)}
+                    disabled={Boolean(nc.workOrderId)}
+                    onChange={() => setSelectedNcs((prev) => toggle(prev, nc.id))}
+                  />
+                  {nc.title}
+                  {nc.workOrderId && <span className="text-xs text-[var(--hint)]">(já em ordem de serviço)</span>}
+                </label>
+              ))}
+            </fieldset>
+          )}
+          <fieldset className="space-y-1 text-sm text-[var(--text)]">
+            <legend className="font-medium">Mecânicos</legend>
+            {mechanics.length === 0 && <p className="text-xs text-[var(--muted)]">Nenhum usuário com perfil de mecânico.</p>}
+            <div className="flex flex-wrap gap-4">
+              {mechanics.map((mechanic) => (
+                <label key={mechanic.id} className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={selectedMechanics.includes(mechanic.id)}
+                    onChange={() => setSelectedMechanics((prev) => toggle(prev, mechanic.id))}
+                  />
+                  {mechanic.nome}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+          <button
+            type="submit"
+            disabled={saving}
+            className="rounded-md bg-[var(--primary)] px-4 py-2 text-sm font-semibold text-white shadow-sm-soft transition hover:bg-[var(--primary-700)] disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            Criar ordem de serviço
+          </button>
+        </form>
+      </section>
+
+      <section className="light-card overflow-hidden">
+        <div className="flex items-center justify-between px-4 pt-4">
+          <h2 className="text-lg font-semibold">Ordens</h2>
+          <select
+            className={inputClass}
+            value={statusFilter}
+            onChange={(event) => setStatusFilter(event.target.value as WorkOrderStatus | "")}
+          >
+            <option value="">Todos os status</option>
+            {(Object.keys(WORK_ORDER_STATUS_LABEL) as WorkOrderStatus[]).map((status) => (
+              <option key={status} value={status}>
+                {WORK_ORDER_STATUS_LABEL[status]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="mt-3 w-full text-sm">
+            <thead className="bg-[var(--surface)] text-xs uppercase tracking-wide text-[var(--hint)]">
+              <tr>
+                <th className="px-4 py-3 text-left font-medium">Ordem</th>
+                <th className="px-4 py-3 text-left font-medium">Máquina</th>
+                <th className="px-4 py-3 text-left font-medium">Planejada</th>
+                <th className="px-4 py-3 text-left font-medium">Mecânicos</th>
+                <th className="px-4 py-3 text-left font-medium">Horas</th>
+                <th className="px-4 py-3 text-left font-medium">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {orders.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="px-4 py-6 text-center text-[var(--muted)]">
+                    Nenhuma ordem de serviço.
+                  </td>
+                </tr>
+              )}
+              {orders.map((order) => (
+                <tr key={order.id} className="border-t border-[var(--border)]">
+                  <td className="px-4 py-3">
+                    <Link href={`/admin/work-orders/${order.id}`} className="font-medium text-[var(--primary)] hover:underline">
+                      {order.title}
+                    </Link>
+                    <div className="text-xs text-[var(--hint)]">{order.ncIds.length} NC(s)</div>
+                  </td>
+                  <td className="px-4 py-3 text-[var(--muted)]">{order.machineTag}</td>
+                  <td className="px-4 py-3 text-[var(--muted)]">{formatDate(order.plannedDate)}</td>
+                  <td className="px-4 py-3 text-[var(--muted)]">
+                    {order.mechanics.map((mechanic) => mechanic.nome).join(", ") || "-"}
+                  </td>
+                  <td className="px-4 py-3 text-[var(--muted)]">{laborHours(order).toLocaleString("pt-BR")}</td>
+                  <td className="px-4 py-3 text-[var(--muted)]">{WORK_ORDER_STATUS_LABEL[order.status]}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminDb } from "@/lib/firebase-admin";
+import { decodeFaultCode } from "@/lib/fault-codes";
+import { loadFaultCodeCatalog } from "@/lib/nc-suggestions";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_CODES = 50;
+
+export async function GET(request: NextRequest) {
+  const url = new URL(request.url);
+  const codes = (url.searchParams.get("codes") ?? "")
+    .split(",")
+    .map((code) => code.trim())
+    .filter(Boolean);
+  const oem = url.searchParams.get("oem")?.trim() || undefined;
+
+  if (!codes.length || codes.length > MAX_CODES) {
+    return NextResponse.json({ error: `Informe de 1 a ${MAX_CODES} códigos em codes` }, { status: 400 });
+  }
+
+  try {
+    const catalog = await loadFaultCodeCatalog(getAdminDb());
+    return NextResponse.json({ data: codes.map((code) => decodeFaultCode(code, catalog, oem)) });
+  } catch (error) {
+    console.error("GET /api/fault-codes/decode failed", error);
+    return NextResponse.json({ error: "Falha ao decodificar códigos de falha" }, { status: 500 });
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getAdminDb } from "@/lib/firebase-admin";
+import { FAULT_CODE_CATALOG_COLLECTION, catalogCode, faultCodeCatalogId } from "@/lib/fault-codes";
+import { loadFaultCodeCatalog } from "@/lib/nc-suggestions";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_IMPORT = 500;
+
+const importSchema = z.object({
+  protocol: z.enum(["j1939", "obd2", "oem"]),
+  oem: z.string().trim().max(80).nullish(),
+  entries: z
+    .array(
+      z.object({
+        code: z.string().trim().min(1),
+        component: z.string().trim().min(1),
+        failureMode: z.string().trim().min(1),
+        systemCategory: z.string().trim().min(1),
+        severity: z.enum(["baixa", "media", "alta"]),
+      }),
+    )
+    .min(1)
+    .max(MAX_IMPORT),
+});
+
+export async function GET(request: NextRequest) {
+  const url = new URL(request.url);
+  const protocol = url.searchParams.get("protocol")?.trim() || undefined;
+  const oem = url.searchParams.get("oem")?.trim().toLowerCase() || undefined;
+
+  try {
+    const data = (await loadFaultCodeCatalog(getAdminDb()))
+      .filter((entry) => !protocol || entry.protocol === protocol)
+      .filter((entry) => !oem || entry.oem?.toLowerCase() === oem)
+      .sort((a, b) => a.protocol.localeCompare(b.protocol) || a.code.localeCompare(b.code));
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error("GET /api/fault-codes failed", error);
+    return NextResponse.json({ error: "Falha ao carregar o catálogo de falhas" }, { status: 500 });
+  }
+}
+
+/** Importa uma tabela de códigos; entradas com o mesmo protocolo, fabricante e código são substituídas. */
+export async function POST(request: NextRequest) {
+  const parsed = importSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Informe o protocolo e as entradas (código, componente, modo de falha, sistema e severidade)." },
+      { status: 400 },
+    );
+  }
+  const { protocol, entries } = parsed.data;
+  const oem = parsed.data.oem || null;
+
+  try {
+    const db = getAdminDb();
+    const importedAt = new Date().toISOString();
+    const collection = db.collection(FAULT_CODE_CATALOG_COLLECTION);
+    await Promise.all(
+      entries.map((entry) => {
+        const code = catalogCode(protocol, entry.code);
+        return collection.doc(faultCodeCatalogId({ protocol, oem, code })).set({
+          ...entry,
+          code,
+          protocol,
+          oem,
+          importedAt,
+        });
+      }),
+    );
+    return NextResponse.json({ imported: entries.length }, { status: 201 });
+  } catch (error) {
+    console.error("POST /api/fault-codes failed", error);
+    return NextResponse.json({ error: "Falha ao importar o catálogo de falhas" }, { status: 500 });
+  }
+}
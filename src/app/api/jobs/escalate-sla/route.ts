@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+import { runSlaEscalation } from "@/lib/sla-escalation";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const { scanned, byState, escalated } = await runSlaEscalation();
+
+    return NextResponse.json({ ok: true, scanned, byState, escalated: escalated.length });
+  } catch (error) {
+    console.error("GET /api/jobs/escalate-sla failed", error);
+    return NextResponse.json({ error: "Falha ao executar escalonamento de SLA" }, { status: 500 });
+  }
+}
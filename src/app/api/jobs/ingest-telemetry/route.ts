@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+import { ingestTelemetry } from "@/lib/telemetry";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const result = await ingestTelemetry();
+
+    return NextResponse.json({ ok: true, ...result });
+  } catch (error) {
+    console.error("GET /api/jobs/ingest-telemetry failed", error);
+    return NextResponse.json({ error: "Falha ao importar telemetria" }, { status: 500 });
+  }
+}
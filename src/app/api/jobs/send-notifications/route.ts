@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import { deliverPendingNotifications, processNotificationEvents } from "@/lib/notifications";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const events = await processNotificationEvents();
+    const deliveries = await deliverPendingNotifications();
+
+    return NextResponse.json({ ok: true, events, deliveries });
+  } catch (error) {
+    console.error("GET /api/jobs/send-notifications failed", error);
+    return NextResponse.json({ error: "Falha ao enviar notificações" }, { status: 500 });
+  }
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { runCapaVerification } from "@/lib/capa-verification";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const { scanned, proposed } = await runCapaVerification();
+
+    return NextResponse.json({
+      ok: true,
+      scanned,
+      proposed: proposed.length,
+      notEffective: proposed.filter((item) => item.proposal === "not_effective").length,
+    });
+  } catch (error) {
+    console.error("GET /api/jobs/verify-capa failed", error);
+    return NextResponse.json({ error: "Falha ao verificar a eficácia das ações preventivas" }, { status: 500 });
+  }
+}
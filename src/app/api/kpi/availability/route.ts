@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminDb } from "@/lib/firebase-admin";
+import { calcFleetAvailability, calcMachineAvailability } from "@/lib/kpis/availability";
+import { MACHINE_STATUS_PERIODS_COLLECTION } from "@/lib/machine-status";
+import { type Machine, type MachineStatusPeriod, resolveMachineStatus } from "@/types/machine";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const DEFAULT_RANGE_DAYS = 30;
+const MS_IN_DAY = 24 * 60 * 60 * 1000;
+
+function parseDate(value: string | null): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+export async function GET(request: NextRequest) {
+  const url = new URL(request.url);
+  const fromParam = url.searchParams.get("from");
+  const toParam = url.searchParams.get("to");
+  const setor = url.searchParams.get("setor")?.trim() || undefined;
+
+  const parsedTo = parseDate(toParam);
+  if (toParam && !parsedTo) {
+    return NextResponse.json({ error: "Parâmetro to inválido" }, { status: 400 });
+  }
+  const parsedFrom = parseDate(fromParam);
+  if (fromParam && !parsedFrom) {
+    return NextResponse.json({ error: "Parâmetro from inválido" }, { status: 400 });
+  }
+
+  const now = new Date();
+  const requestedTo = parsedTo ?? now;
+  const to = requestedTo.getTime() > now.getTime() ? now : requestedTo;
+  const from = parsedFrom ?? new Date(to.getTime() - DEFAULT_RANGE_DAYS * MS_IN_DAY);
+  if (from.getTime() >= to.getTime()) {
+    return NextResponse.json({ error: "Intervalo inválido: from deve ser menor que to" }, { status: 400 });
+  }
+
+  try {
+    const db = getAdminDb();
+    const [machinesSnap, periodsSnap] = await Promise.all([
+      db.collection("machines").get(),
+      db.collection(MACHINE_STATUS_PERIODS_COLLECTION).where("start", "<", to.toISOString()).get(),
+    ]);
+
+    const periodsByMachine = new Map<string, MachineStatusPeriod[]>();
+    for (const docSnap of periodsSnap.docs) {
+      const period = { id: docSnap.id, ...docSnap.data() } as MachineStatusPeriod;
+      if (period.end && period.end <= from.toISOString()) continue;
+      const list = periodsByMachine.get(period.machineId) ?? [];
+      list.push(period);
+      periodsByMachine.set(period.machineId, list);
+    }
+
+    const machines = machinesSnap.docs
+      .map((docSnap) => ({ id: docSnap.id, ...(docSnap.data() as Omit<Machine, "id">) }))
+      .filter((machine) => !setor || machine.setor === setor);
+
+    const items = machines
+      .map((machine) => ({
+        ...calcMachineAvailability(machine.id, periodsByMachine.get(machine.id) ?? [], from, to),
+        machineName: machine.modelo || machine.tag || machine.id,
+        tag: machine.tag,
+        setor: machine.setor,
+        status: resolveMachineStatus(machine.status),
+        statusSince: machine.statusSince ?? null,
+      }))
+      .sort((a, b) => (a.availability ?? 101) - (b.availability ?? 101));
+
+    return NextResponse.json({
+      from: from.toISOString(),
+      to: to.toISOString(),
+      fleet: calcFleetAvailability(items, items.map((item) => item.status)),
+      machines: items,
+    });
+  } catch (error) {
+    console.error("GET /api/kpi/availability failed", error);
+    return NextResponse.json({ error: "Falha ao calcular disponibilidade" }, { status: 500 });
+  }
+}
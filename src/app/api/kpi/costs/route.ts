@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminDb } from "@/lib/firebase-admin";
+import { mapNonConformityDoc } from "@/lib/firestore/nc";
+import { type KmReading, buildCostReport, deriveCostEntries } from "@/lib/kpis/costs";
+import { sanitizeDate } from "@/lib/kpis/periodicity";
+import type { HourReading } from "@/lib/kpis/reliability";
+import { cumulativeReading } from "@/lib/meter-readings";
+import type { ChecklistResponse } from "@/types/checklist";
+import type { Machine } from "@/types/machine";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_RANGE_DAYS = 366;
+const MAX_FETCH = 500;
+const MS_IN_DAY = 24 * 60 * 60 * 1000;
+
+function parseDate(value: string | null): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+/** Custos lançados nas ações das NCs; por padrão, do início do ano até hoje. */
+export async function GET(request: NextRequest) {
+  const url = new URL(request.url);
+  const fromParam = url.searchParams.get("from");
+  const toParam = url.searchParams.get("to");
+  const machineId = url.searchParams.get("machineId")?.trim() || undefined;
+  const setor = url.searchParams.get("setor")?.trim() || undefined;
+
+  const parsedTo = parseDate(toParam);
+  if (toParam && !parsedTo) {
+    return NextResponse.json({ error: "Parâmetro to inválido" }, { status: 400 });
+  }
+  const parsedFrom = parseDate(fromParam);
+  if (fromParam && !parsedFrom) {
+    return NextResponse.json({ error: "Parâmetro from inválido" }, { status: 400 });
+  }
+
+  const to = parsedTo ?? new Date();
+  const from = parsedFrom ?? new Date(Date.UTC(to.getUTCFullYear(), 0, 1));
+  if (from.getTime() >= to.getTime()) {
+    return NextResponse.json({ error: "Intervalo inválido: from deve ser menor que to" }, { status: 400 });
+  }
+  if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * MS_IN_DAY) {
+    return NextResponse.json({ error: `Intervalo máximo de ${MAX_RANGE_DAYS} dias` }, { status: 400 });
+  }
+
+  try {
+    const db = getAdminDb();
+    const [machinesSnap, ncSnap, responsesSnap] = await Promise.all([
+      db.collection("machines").get(),
+      db
+        .collection("nonConformities")
+        .where("createdAt", "<=", to.toISOString())
+        .orderBy("createdAt", "desc")
+        .limit(MAX_FETCH)
+        .get(),
+      db
+        .collection("checklistResponses")
+        .where("createdAt", ">=", from.toISOString())
+        .where("createdAt", "<=", to.toISOString())
+        .orderBy("createdAt", "desc")
+        .get(),
+    ]);
+
+    const machines = machinesSnap.docs
+      .map((docSnap) => ({ id: docSnap.id, ...(docSnap.data() as Omit<Machine, "id">) }))
+      .filter((machine) => !setor || machine.setor === setor)
+      .filter((machine) => !machineId || machine.id === machineId);
+    if (machineId && !machines.length) {
+      return NextResponse.json({ error: "Máquina não encontrada" }, { status: 404 });
+    }
+
+    const entries = deriveCostEntries(ncSnap.docs.map((docSnap) => mapNonConformityDoc(docSnap))).filter((entry) => {
+      const at = Date.parse(entry.at);
+      return at >= from.getTime() && at <= to.getTime();
+    });
+
+    const hourReadings: HourReading[] = [];
+    const kmReadings: KmReading[] = [];
+    for (const docSnap of responsesSnap.docs) {
+      const data = docSnap.data() as Partial<ChecklistResponse> & { createdAtTs?: unknown };
+      const at = sanitizeDate(data.createdAt ?? data.createdAtTs);
+      if (!data.machineId || !at) continue;
+      const hours = cumulativeReading(data, "horimetro");
+      if (hours !== null) hourReadings.push({ machineId: data.machineId, at, hours });
+      const km = cumulativeReading(data, "km");
+      if (km !== null) kmReadings.push({ machineId: data.machineId, at, km });
+    }
+
+    const report = buildCostReport({ machines, entries, hourReadings, kmReadings });
+
+    return NextResponse.json({
+      from: from.toISOString(),
+      to: to.toISOString(),
+      ...report,
+    });
+  } catch (error) {
+    console.error("GET /api/kpi/costs failed", error);
+    return NextResponse.json({ error: "Falha ao calcular custos de manutenção" }, { status: 500 });
+  }
+}
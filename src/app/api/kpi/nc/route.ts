@@ -6,9 +6,12 @@ import {
   calcAvgResolutionHours,
   calcOnTimePercentage,
   calcRecurrenceRate,
+  countableNcs,
+  countOccurrences,
   countOpenedBySeverity,
   groupByDayWeek,
   groupByRootCause,
+  groupByRootCauseCategory,
   groupBySystem,
 } from "@/lib/kpis/nc";
 import type { NcAction, NonConformity } from "@/types/nonconformity";
@@ -71,7 +74,7 @@ export async function GET() {
       .limit(MAX_FETCH)
       .get();
 
-    const records = snapshot.docs.map((docSnap) => mapNonConformityDoc(docSnap));
+    const records = countableNcs(snapshot.docs.map((docSnap) => mapNonConformityDoc(docSnap)));
     const now = new Date();
 
     const openRecords = records.filter((record) => record.status !== "resolvida");
@@ -81,11 +84,15 @@ export async function GET() {
     const dailySeries = groupByDayWeek(records, "day");
     const weeklySeries = groupByDayWeek(records, "week");
 
-    const rootCauseParetoMap = groupByRootCause(records.filter((record) => Boolean(record.rootCause)));
+    const withRootCause = records.filter((record) => Boolean(record.rootCause || record.rootCauseAnalysis));
+    const rootCauseParetoMap = groupByRootCause(withRootCause);
     const rootCausePareto = Object.entries(rootCauseParetoMap)
       .sort((a, b) => b[1] - a[1])
       .slice(0, 5)
       .map(([rootCause, value]) => ({ rootCause, value }));
+    const rootCauseCategories = Object.entries(groupByRootCauseCategory(withRootCause))
+      .sort((a, b) => b[1] - a[1])
+      .map(([category, value]) => ({ category, value }));
 
     const systemBreakdownMap = groupBySystem(records);
     const systemBreakdown = Object.entries(systemBreakdownMap).map(([system, value]) => ({
@@ -103,6 +110,7 @@ export async function GET() {
 
     return NextResponse.json({
       openTotal: openRecords.length,
+      openOccurrences: countOccurrences(openRecords),
       openBySeverity,
       onTimePercentage,
       recurrence30d,
@@ -113,6 +121,7 @@ export async function GET() {
         weekly: weeklySeries,
       },
       rootCausePareto,
+      rootCauseCategories,
       systemBreakdown,
       severityBySystem,
     });
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { loadPeriodicityCompliance } from "@/lib/kpis/periodicity";
+import { readPeriodicityCache } from "@/lib/kpis/periodicity-snapshots";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -37,7 +38,17 @@ export async function GET(request: NextRequest) {
   const machineId = machineIdParam?.trim() ? machineIdParam.trim() : undefined;
   const templateId = templateIdParam?.trim() ? templateIdParam.trim() : undefined;
 
+  // Sem filtros, o resultado do job é servido enquanto o cache estiver válido.
+  const useCache = !fromParam && !toParam && !machineId && !templateId && url.searchParams.get("refresh") !== "true";
+
   try {
+    if (useCache) {
+      const cached = await readPeriodicityCache();
+      if (cached) {
+        return NextResponse.json(cached);
+      }
+    }
+
     const result = await loadPeriodicityCompliance({
       filters: {
         from: from,
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  type PeriodicityTimelineGranularity,
+  loadPeriodicityTimeline,
+} from "@/lib/kpis/periodicity-timeline";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 186;
+const MS_IN_DAY = 24 * 60 * 60 * 1000;
+
+function parseDate(value: string | null): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    return undefined;
+  }
+  return date;
+}
+
+function isGranularity(value: string | null): value is PeriodicityTimelineGranularity {
+  return value === "day" || value === "week" || value === "month";
+}
+
+export async function GET(request: NextRequest) {
+  const url = new URL(request.url);
+  const fromParam = url.searchParams.get("from");
+  const toParam = url.searchParams.get("to");
+  const granularityParam = url.searchParams.get("granularity");
+
+  const parsedTo = parseDate(toParam);
+  if (toParam && !parsedTo) {
+    return NextResponse.json({ error: "Parâmetro to inválido" }, { status: 400 });
+  }
+
+  const parsedFrom = parseDate(fromParam);
+  if (fromParam && !parsedFrom) {
+    return NextResponse.json({ error: "Parâmetro from inválido" }, { status: 400 });
+  }
+
+  const to = parsedTo ?? new Date();
+  const from = parsedFrom ?? new Date(to.getTime() - DEFAULT_RANGE_DAYS * MS_IN_DAY);
+
+  if (from.getTime() >= to.getTime()) {
+    return NextResponse.json({ error: "Intervalo inválido: from deve ser menor que to" }, { status: 400 });
+  }
+
+  if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * MS_IN_DAY) {
+    return NextResponse.json(
+      { error: `Intervalo máximo de ${MAX_RANGE_DAYS} dias` },
+      { status: 400 },
+    );
+  }
+
+  if (granularityParam && !isGranularity(granularityParam)) {
+    return NextResponse.json({ error: "Parâmetro granularity inválido" }, { status: 400 });
+  }
+
+  const trimmed = (key: string) => {
+    const value = url.searchParams.get(key)?.trim();
+    return value ? value : undefined;
+  };
+
+  try {
+    const result = await loadPeriodicityTimeline({
+      filters: {
+        from,
+        to,
+        machineId: trimmed("machineId"),
+        templateId: trimmed("templateId"),
+        setor: trimmed("setor"),
+      },
+      granularity: isGranularity(granularityParam) ? granularityParam : undefined,
+      includePeriods: url.searchParams.get("includePeriods") === "true",
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("GET /api/kpi/periodicity-timeline failed", error);
+    return NextResponse.json({ error: "Falha ao calcular histórico de conformidade" }, { status: 500 });
+  }
+}
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getAdminDb } from "@/lib/firebase-admin";
+import { MACHINE_STATUS_PERIODS_COLLECTION, changeMachineStatus } from "@/lib/machine-status";
+import { MACHINE_STATUS_LABEL, type Machine, type MachineStatus, resolveMachineStatus } from "@/types/machine";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const HISTORY_LIMIT = 50;
+
+const STATUS_VALUES = Object.keys(MACHINE_STATUS_LABEL) as [MachineStatus, ...MachineStatus[]];
+
+const bodySchema = z.object({
+  status: z.enum(STATUS_VALUES),
+  reason: z.string().trim().max(500).optional(),
+  actor: z
+    .object({
+      id: z.string().trim().min(1),
+      nome: z.string().trim().nullish(),
+    })
+    .optional(),
+});
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+async function resolveId(context: RouteContext): Promise<string | null> {
+  const { id } = await context.params;
+  const normalized = typeof id === "string" ? id.trim() : "";
+  return normalized || null;
+}
+
+export async function GET(_request: NextRequest, context: RouteContext) {
+  const id = await resolveId(context);
+  if (!id) {
+    return NextResponse.json({ error: "Parâmetro id inválido" }, { status: 400 });
+  }
+
+  try {
+    const db = getAdminDb();
+    const machineSnap = await db.collection("machines").doc(id).get();
+    if (!machineSnap.exists) {
+      return NextResponse.json({ error: "Máquina não encontrada" }, { status: 404 });
+    }
+    const machine = (machineSnap.data() ?? {}) as Partial<Machine>;
+    const historySnap = await db
+      .collection(MACHINE_STATUS_PERIODS_COLLECTION)
+      .where("machineId", "==", id)
+      .orderBy("start", "desc")
+      .limit(HISTORY_LIMIT)
+      .get();
+
+    return NextResponse.json({
+      status: resolveMachineStatus(machine.status),
+      statusSince: machine.statusSince ?? null,
+      statusReason: machine.statusReason ?? null,
+      downtimeNcIds: machine.downtimeNcIds ?? [],
+      history: historySnap.docs.map((docSnap) => ({ id: docSnap.id, ...docSnap.data() })),
+    });
+  } catch (error) {
+    console.error(`GET /api/machines/${id}/status failed`, error);
+    return NextResponse.json({ error: "Falha ao carregar status da máquina" }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  const id = await resolveId(context);
+  if (!id) {
+    return NextResponse.json({ error: "Parâmetro id inválido" }, { status: 400 });
+  }
+
+  const parsed = bodySchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Status inválido" }, { status: 400 });
+  }
+
+  try {
+    const db = getAdminDb();
+    const machineSnap = await db.collection("machines").doc(id).get();
+    if (!machineSnap.exists) {
+      return NextResponse.json({ error: "Máquina não encontrada" }, { status: 404 });
+    }
+
+    const { status, reason, actor } = parsed.data;
+    const result = await changeMachineStatus(db, {
+      machineId: id,
+      status,
+      source: "manual",
+      reason: reason || null,
+      actor: actor ? { id: actor.id, nome: actor.nome ?? null } : null,
+    });
+
+    return NextResponse.json({ ok: true, changed: result.changed, status });
+  } catch (error) {
+    console.error(`PATCH /api/machines/${id}/status failed`, error);
+    return NextResponse.json({ error: "Falha ao atualizar status da máquina" }, { status: 500 });
+  }
+}
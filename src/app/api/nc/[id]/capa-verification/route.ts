@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { capaConfirmationSchema, confirmCapaVerification } from "@/lib/capa-verification";
+import { getAdminDb } from "@/lib/firebase-admin";
+import { resolveRequestActor } from "@/lib/request-actor";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+/** Confirma a eficácia proposta para uma ação preventiva; "não eficaz" reabre a NC. */
+export async function POST(request: NextRequest, context: RouteContext) {
+  const { id } = await context.params;
+  if (!id?.trim()) {
+    return NextResponse.json({ error: "Parâmetro id inválido" }, { status: 400 });
+  }
+
+  const parsed = capaConfirmationSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Informe a ação e se ela foi eficaz." }, { status: 400 });
+  }
+
+  try {
+    const db = getAdminDb();
+    const requester = await resolveRequestActor(request, db);
+    if (!requester.ok) {
+      return NextResponse.json({ error: requester.error }, { status: requester.status });
+    }
+    const result = await confirmCapaVerification(db, id.trim(), parsed.data, requester.actor);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json({ data: result.data, reopened: result.reopened });
+  } catch (error) {
+    console.error(`POST /api/nc/${id}/capa-verification failed`, error);
+    return NextResponse.json({ error: "Falha ao confirmar a eficácia da ação" }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminDb } from "@/lib/firebase-admin";
+import { decideRecurrence, recurrenceDecisionSchema } from "@/lib/recurrence";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+/** Confirma ou desvincula a recorrência sugerida para a NC. */
+export async function POST(request: NextRequest, context: RouteContext) {
+  const { id } = await context.params;
+  if (!id?.trim()) {
+    return NextResponse.json({ error: "Parâmetro id inválido" }, { status: 400 });
+  }
+
+  const parsed = recurrenceDecisionSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Informe se a recorrência deve ser confirmada ou desvinculada." }, { status: 400 });
+  }
+
+  try {
+    const result = await decideRecurrence(getAdminDb(), id.trim(), parsed.data);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json({ data: result.data });
+  } catch (error) {
+    console.error(`POST /api/nc/${id}/recurrence failed`, error);
+    return NextResponse.json({ error: "Falha ao atualizar a recorrência" }, { status: 500 });
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminDb } from "@/lib/firebase-admin";
+import { ncSplitSchema, splitNonConformity } from "@/lib/nc-merge";
+import { resolveRequestActor } from "@/lib/request-actor";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+/** Separa parte da NC (ações e ocorrências) em uma NC nova. */
+export async function POST(request: NextRequest, context: RouteContext) {
+  const { id } = await context.params;
+  if (!id?.trim()) {
+    return NextResponse.json({ error: "Parâmetro id inválido" }, { status: 400 });
+  }
+
+  const parsed = ncSplitSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Informe o título da nova NC." }, { status: 400 });
+  }
+
+  try {
+    const db = getAdminDb();
+    const requester = await resolveRequestActor(request, db);
+    if (!requester.ok) {
+      return NextResponse.json({ error: requester.error }, { status: requester.status });
+    }
+    const result = await splitNonConformity(db, id.trim(), parsed.data, requester.actor);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json({ data: result.data, created: result.created }, { status: 201 });
+  } catch (error) {
+    console.error(`POST /api/nc/${id}/split failed`, error);
+    return NextResponse.json({ error: "Falha ao separar a NC" }, { status: 500 });
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminDb } from "@/lib/firebase-admin";
+import { bulkUpdateNonConformities, ncBulkUpdateSchema } from "@/lib/nc-update";
+import { resolveRequestActor } from "@/lib/request-actor";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Aplica status, responsável, prazo ou severidade a várias NCs. Responde 200
+ * mesmo com falhas parciais; o resultado de cada NC vem em `results`.
+ */
+export async function POST(request: NextRequest) {
+  const parsed = ncBulkUpdateSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Selecione as NCs e ao menos uma alteração válida." }, { status: 400 });
+  }
+
+  try {
+    const db = getAdminDb();
+    const requester = await resolveRequestActor(request, db);
+    if (!requester.ok) {
+      return NextResponse.json({ error: requester.error }, { status: requester.status });
+    }
+    const results = await bulkUpdateNonConformities(db, parsed.data, requester.actor);
+    const succeeded = results.filter((result) => result.ok).length;
+    return NextResponse.json({ results, succeeded, failed: results.length - succeeded });
+  } catch (error) {
+    console.error("POST /api/nc/bulk failed", error);
+    return NextResponse.json({ error: "Falha ao aplicar as alterações em lote" }, { status: 500 });
+  }
+}
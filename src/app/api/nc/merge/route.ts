@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminDb } from "@/lib/firebase-admin";
+import { mergeNonConformities, ncMergeSchema } from "@/lib/nc-merge";
+import { resolveRequestActor } from "@/lib/request-actor";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** Mescla NCs duplicadas da mesma máquina na NC principal. */
+export async function POST(request: NextRequest) {
+  const parsed = ncMergeSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Informe a NC principal e as NCs a mesclar." }, { status: 400 });
+  }
+
+  try {
+    const db = getAdminDb();
+    const requester = await resolveRequestActor(request, db);
+    if (!requester.ok) {
+      return NextResponse.json({ error: requester.error }, { status: requester.status });
+    }
+    const result = await mergeNonConformities(db, parsed.data, requester.actor);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json({ data: result.data });
+  } catch (error) {
+    console.error("POST /api/nc/merge failed", error);
+    return NextResponse.json({ error: "Falha ao mesclar as NCs" }, { status: 500 });
+  }
+}
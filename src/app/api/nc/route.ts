@@ -1,18 +1,15 @@
 import { randomUUID } from "node:crypto";
 
 import { NextRequest, NextResponse } from "next/server";
-import { Timestamp, type DocumentData, type Query, type QueryDocumentSnapshot } from "firebase-admin/firestore";
 import { z } from "zod";
 
 import { getAdminDb } from "@/lib/firebase-admin";
-import { mapNonConformityDoc } from "@/lib/firestore/nc";
-import type { NcStatus, NonConformity, Severity } from "@/types/nonconformity";
+import { listNonConformities } from "@/lib/nc-list";
+import type { NcStatus, Severity } from "@/types/nonconformity";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-const MAX_FETCH = 500;
-
 const STATUS_VALUES: readonly NcStatus[] = [
   "aberta",
   "em_execucao",
@@ -23,20 +20,10 @@ const STATUS_VALUES: readonly NcStatus[] = [
 
 const SEVERITY_VALUES: readonly Severity[] = ["baixa", "media", "alta"];
 
-function isMissingIndexError(error: unknown): boolean {
-  if (!error || typeof error !== "object") return false;
-  const code = (error as { code?: unknown }).code;
-  if (code !== "FAILED_PRECONDITION" && code !== 9) {
-    return false;
-  }
-  const message = (error as { message?: unknown }).message;
-  if (typeof message !== "string") return false;
-  return message.toLowerCase().includes("index");
-}
-
 const querySchema = z
   .object({
     page: z.coerce.number().int().min(1).default(1),
+    cursor: z.string().trim().min(1).optional(),
     pageSize: z
       .coerce.number()
       .int()
@@ -72,43 +59,6 @@ function parseDate(value: string, options: { endOfDay?: boolean } = {}): Date |
   return date;
 }
 
-function withinRange(target: Date | null, from?: Date | null, to?: Date | null): boolean {
-  if (!from && !to) return true;
-  if (!target) return false;
-  if (from && target.getTime() < from.getTime()) return false;
-  if (to && target.getTime() > to.getTime()) return false;
-  return true;
-}
-
-function matchesSearch(record: NonConformity, searchTerm: string | null): boolean {
-  if (!searchTerm) return true;
-  const normalized = searchTerm.toLowerCase();
-  const haystack = [
-    record.title,
-    record.description ?? "",
-    record.linkedAsset?.tag ?? "",
-    record.linkedAsset?.modelo ?? "",
-    record.linkedAsset?.setor ?? "",
-    record.createdBy?.nome ?? "",
-    record.createdBy?.matricula ?? "",
-    record.rootCause ?? "",
-    record.originChecklistResponseId ?? "",
-    record.originQuestionId ?? "",
-    record.systemCategory ?? "",
-  ]
-    .filter((value) => typeof value === "string" && value)
-    .join(" ")
-    .toLowerCase();
-
-  return haystack.includes(normalized);
-}
-
-function deriveSortKey(record: NonConformity): number {
-  const createdAtDate = new Date(record.createdAt);
-  if (Number.isNaN(createdAtDate.getTime())) return 0;
-  return createdAtDate.getTime();
-}
-
 export async function GET(request: NextRequest) {
   const params = Object.fromEntries(request.nextUrl.searchParams.entries());
   const parsed = querySchema.safeParse(params);
@@ -122,6 +72,7 @@ export async function GET(request: NextRequest) {
 
   const {
     page,
+    cursor,
     pageSize,
     status,
     severity,
@@ -159,102 +110,16 @@ export async function GET(request: NextRequest) {
   }
 
   try {
-    const db = getAdminDb();
-    let baseQuery: Query<DocumentData> = db.collection("nonConformities");
-
-    if (status) {
-      baseQuery = baseQuery.where("status", "==", status);
-    }
-
-    if (severity) {
-      baseQuery = baseQuery.where("severity", "==", severity);
-    }
-
-    if (assetId) {
-      baseQuery = baseQuery.where("linkedAsset.id", "==", assetId);
-    }
-
-    const fetchLimit = Math.min(
-      MAX_FETCH,
-      Math.max(page * pageSize + pageSize, pageSize * 2),
+    const result = await listNonConformities(
+      getAdminDb(),
+      { status, severity, assetId, templateId, operatorMatricula, search: searchTerm, from: fromDate, to: toDate },
+      { pageSize, cursor, skip: (page - 1) * pageSize },
     );
-
-    let timestampQuery = baseQuery.orderBy("createdAtTs", "desc");
-    if (fromDate) {
-      timestampQuery = timestampQuery.where("createdAtTs", ">=", Timestamp.fromDate(fromDate));
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
     }
-    if (toDate) {
-      timestampQuery = timestampQuery.where("createdAtTs", "<=", Timestamp.fromDate(toDate));
-    }
-
-    const stringOrderQuery = baseQuery.orderBy("createdAt", "desc");
-
-    let docs: QueryDocumentSnapshot<DocumentData>[] = [];
-    let usedFallback = false;
-
-    try {
-      const snapshot = await timestampQuery.limit(fetchLimit).get();
-      docs = snapshot.docs;
-    } catch (error) {
-      if (!isMissingIndexError(error)) {
-        throw error;
-      }
-      usedFallback = true;
-      console.warn(
-        "Falling back to createdAt ordering for nonConformities query; createdAtTs index missing",
-        error,
-      );
-      const fallbackSnapshot = await stringOrderQuery.limit(fetchLimit).get();
-      docs = fallbackSnapshot.docs;
-    }
-
-    if ((fromDate || toDate) && (!usedFallback || docs.length < fetchLimit)) {
-      const fallbackSnapshot = await stringOrderQuery.limit(fetchLimit).get();
-      const seen = new Set(docs.map((doc) => doc.id));
-      for (const doc of fallbackSnapshot.docs) {
-        if (!seen.has(doc.id)) {
-          docs.push(doc);
-        }
-      }
-    }
-
-    const mapped = new Map<string, { record: NonConformity; sortKey: number }>();
-    for (const doc of docs) {
-      const record = mapNonConformityDoc(doc);
-      mapped.set(record.id, { record, sortKey: deriveSortKey(record) });
-    }
-
-    const filtered = Array.from(mapped.values()).filter(({ record }) => {
-      const createdAtDate = new Date(record.createdAt);
-      const normalizedDate = Number.isNaN(createdAtDate.getTime()) ? null : createdAtDate;
-
-      if (!withinRange(normalizedDate, fromDate, toDate)) {
-        return false;
-      }
-
-      if (templateId && record.linkedTemplateId !== templateId) {
-        return false;
-      }
-
-      if (operatorMatricula && record.createdBy?.matricula !== operatorMatricula) {
-        return false;
-      }
-
-      if (!matchesSearch(record, searchTerm)) {
-        return false;
-      }
-
-      return true;
-    });
-
-    filtered.sort((a, b) => b.sortKey - a.sortKey || a.record.id.localeCompare(b.record.id));
-
-    const total = filtered.length;
-    const start = (page - 1) * pageSize;
-    const paginated = filtered.slice(start, start + pageSize).map((item) => item.record);
-    const hasMore = start + pageSize < total;
-
-    return NextResponse.json({ data: paginated, page, pageSize, total, hasMore });
+    const { data, total, totalEstimated, hasMore, nextCursor } = result;
+    return NextResponse.json({ data, page, pageSize, total, totalEstimated, hasMore, nextCursor });
   } catch (error) {
     console.error("GET /api/nc failed", error);
     const requestId = randomUUID();
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getAdminDb } from "@/lib/firebase-admin";
+import { NC_SUGGESTIONS_COLLECTION, acceptNcSuggestion, mapNcSuggestion } from "@/lib/nc-suggestions";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const bodySchema = z.object({
+  action: z.enum(["accept", "dismiss"]),
+  actor: z
+    .object({
+      id: z.string().trim().min(1),
+      nome: z.string().trim().nullish(),
+    })
+    .optional(),
+});
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  const { id: rawId } = await context.params;
+  const id = typeof rawId === "string" ? rawId.trim() : "";
+  if (!id) {
+    return NextResponse.json({ error: "Parâmetro id inválido" }, { status: 400 });
+  }
+
+  const parsed = bodySchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Informe a ação (accept ou dismiss)." }, { status: 400 });
+  }
+  const body = parsed.data;
+
+  try {
+    const db = getAdminDb();
+    const ref = db.collection(NC_SUGGESTIONS_COLLECTION).doc(id);
+    const snapshot = await ref.get();
+    if (!snapshot.exists) {
+      return NextResponse.json({ error: "Sugestão não encontrada" }, { status: 404 });
+    }
+
+    const suggestion = mapNcSuggestion(snapshot);
+    if (suggestion.status !== "pending") {
+      return NextResponse.json({ error: "Sugestão já analisada" }, { status: 409 });
+    }
+
+    const actor = { id: body.actor?.id ?? "system", nome: body.actor?.nome ?? null };
+    if (body.action === "accept") {
+      await acceptNcSuggestion(db, suggestion, actor);
+    } else {
+      await ref.update({ status: "dismissed", resolvedAt: new Date().toISOString(), resolvedBy: actor });
+    }
+
+    const refreshed = await ref.get();
+    return NextResponse.json({ data: mapNcSuggestion(refreshed) });
+  } catch (error) {
+    console.error(`PATCH /api/nc/suggestions/${id} failed`, error);
+    return NextResponse.json({ error: "Falha ao atualizar a sugestão" }, { status: 500 });
+  }
+}
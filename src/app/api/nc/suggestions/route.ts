@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminDb } from "@/lib/firebase-admin";
+import { NC_SUGGESTIONS_COLLECTION, mapNcSuggestion } from "@/lib/nc-suggestions";
+import type { NcSuggestionStatus } from "@/types/fault-code";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_FETCH = 500;
+const DEFAULT_LIMIT = 50;
+
+const STATUS_VALUES: readonly NcSuggestionStatus[] = ["pending", "accepted", "dismissed"];
+
+export async function GET(request: NextRequest) {
+  const url = new URL(request.url);
+  const statusParam = url.searchParams.get("status");
+  const machineId = url.searchParams.get("machineId")?.trim() || undefined;
+  const limitParam = url.searchParams.get("limit");
+
+  if (statusParam && !STATUS_VALUES.includes(statusParam as NcSuggestionStatus)) {
+    return NextResponse.json({ error: "Parâmetro status inválido" }, { status: 400 });
+  }
+
+  const limit = limitParam ? Number(limitParam) : DEFAULT_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_FETCH) {
+    return NextResponse.json({ error: "Parâmetro limit inválido" }, { status: 400 });
+  }
+
+  try {
+    const snapshot = await getAdminDb()
+      .collection(NC_SUGGESTIONS_COLLECTION)
+      .orderBy("createdAt", "desc")
+      .limit(MAX_FETCH)
+      .get();
+
+    const data = snapshot.docs
+      .map(mapNcSuggestion)
+      .filter((suggestion) => !statusParam || suggestion.status === statusParam)
+      .filter((suggestion) => !machineId || suggestion.machineId === machineId)
+      .slice(0, limit);
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error("GET /api/nc/suggestions failed", error);
+    return NextResponse.json({ error: "Falha ao carregar sugestões de NC" }, { status: 500 });
+  }
+}
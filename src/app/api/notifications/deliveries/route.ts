@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminDb } from "@/lib/firebase-admin";
+import { NOTIFICATION_DELIVERIES_COLLECTION, mapNotificationDelivery } from "@/lib/notifications";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 500;
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const status = searchParams.get("status");
+  const limit = Math.min(Number(searchParams.get("limit")) || DEFAULT_LIMIT, MAX_LIMIT);
+
+  try {
+    const snapshot = await getAdminDb()
+      .collection(NOTIFICATION_DELIVERIES_COLLECTION)
+      .orderBy("createdAt", "desc")
+      .limit(MAX_LIMIT)
+      .get();
+    const data = snapshot.docs
+      .map(mapNotificationDelivery)
+      .filter((delivery) => !status || delivery.status === status)
+      .slice(0, limit);
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error("GET /api/notifications/deliveries failed", error);
+    return NextResponse.json({ error: "Falha ao carregar envios" }, { status: 500 });
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminDb } from "@/lib/firebase-admin";
+import { NOTIFICATION_SUBSCRIPTIONS_COLLECTION, notificationSubscriptionInputSchema } from "@/lib/notifications";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+async function resolveId(context: RouteContext): Promise<string | null> {
+  const { id } = await context.params;
+  const normalized = typeof id === "string" ? id.trim() : "";
+  return normalized || null;
+}
+
+export async function PUT(request: NextRequest, context: RouteContext) {
+  const id = await resolveId(context);
+  if (!id) {
+    return NextResponse.json({ error: "Parâmetro id inválido" }, { status: 400 });
+  }
+
+  const parsed = notificationSubscriptionInputSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Assinatura inválida" }, { status: 400 });
+  }
+
+  try {
+    const ref = getAdminDb().collection(NOTIFICATION_SUBSCRIPTIONS_COLLECTION).doc(id);
+    if (!(await ref.get()).exists) {
+      return NextResponse.json({ error: "Assinatura não encontrada" }, { status: 404 });
+    }
+    await ref.set({ ...parsed.data, userId: parsed.data.userId ?? null, updatedAt: new Date().toISOString() });
+    return NextResponse.json({ id });
+  } catch (error) {
+    console.error(`PUT /api/notifications/subscriptions/${id} failed`, error);
+    return NextResponse.json({ error: "Falha ao atualizar assinatura" }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: NextRequest, context: RouteContext) {
+  const id = await resolveId(context);
+  if (!id) {
+    return NextResponse.json({ error: "Parâmetro id inválido" }, { status: 400 });
+  }
+
+  try {
+    await getAdminDb().collection(NOTIFICATION_SUBSCRIPTIONS_COLLECTION).doc(id).delete();
+    return NextResponse.json({ id });
+  } catch (error) {
+    console.error(`DELETE /api/notifications/subscriptions/${id} failed`, error);
+    return NextResponse.json({ error: "Falha ao remover assinatura" }, { status: 500 });
+  }
+}
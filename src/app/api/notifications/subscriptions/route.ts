@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminDb } from "@/lib/firebase-admin";
+import {
+  NOTIFICATION_SUBSCRIPTIONS_COLLECTION,
+  mapNotificationSubscription,
+  notificationSubscriptionInputSchema,
+} from "@/lib/notifications";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const snapshot = await getAdminDb().collection(NOTIFICATION_SUBSCRIPTIONS_COLLECTION).get();
+    const data = snapshot.docs.map(mapNotificationSubscription).sort((a, b) => a.nome.localeCompare(b.nome));
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error("GET /api/notifications/subscriptions failed", error);
+    return NextResponse.json({ error: "Falha ao carregar assinaturas" }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const parsed = notificationSubscriptionInputSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Assinatura inválida" }, { status: 400 });
+  }
+
+  try {
+    const ref = await getAdminDb()
+      .collection(NOTIFICATION_SUBSCRIPTIONS_COLLECTION)
+      .add({ ...parsed.data, userId: parsed.data.userId ?? null, updatedAt: new Date().toISOString() });
+    return NextResponse.json({ id: ref.id }, { status: 201 });
+  } catch (error) {
+    console.error("POST /api/notifications/subscriptions failed", error);
+    return NextResponse.json({ error: "Falha ao criar assinatura" }, { status: 500 });
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminDb } from "@/lib/firebase-admin";
+import { partRequestUpdateSchema, updatePartRequest } from "@/lib/parts";
+import { resolveRequestActor } from "@/lib/request-actor";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+async function resolveId(context: RouteContext): Promise<string | null> {
+  const { id } = await context.params;
+  const normalized = typeof id === "string" ? id.trim() : "";
+  return normalized || null;
+}
+
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  const id = await resolveId(context);
+  if (!id) {
+    return NextResponse.json({ error: "Parâmetro id inválido" }, { status: 400 });
+  }
+
+  const parsed = partRequestUpdateSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Requisição de peça inválida" }, { status: 400 });
+  }
+
+  try {
+    const db = getAdminDb();
+    const requester = await resolveRequestActor(request, db);
+    if (!requester.ok) {
+      return NextResponse.json({ error: requester.error }, { status: requester.status });
+    }
+    const result = await updatePartRequest(db, id, parsed.data, requester.actor);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json({ data: result.data, ncResumed: result.ncResumed });
+  } catch (error) {
+    console.error(`PATCH /api/part-requests/${id} failed`, error);
+    return NextResponse.json({ error: "Falha ao atualizar requisição de peça" }, { status: 500 });
+  }
+}
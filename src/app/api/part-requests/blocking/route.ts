@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+import { getAdminDb } from "@/lib/firebase-admin";
+import { loadBlockingPartsReport } from "@/lib/parts";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const data = await loadBlockingPartsReport(getAdminDb());
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error("GET /api/part-requests/blocking failed", error);
+    return NextResponse.json({ error: "Falha ao gerar relatório de peças pendentes" }, { status: 500 });
+  }
+}
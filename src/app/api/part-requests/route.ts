@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminDb } from "@/lib/firebase-admin";
+import {
+  PART_REQUESTS_COLLECTION,
+  createPartRequest,
+  isOpenPartRequest,
+  mapPartRequestDoc,
+  partRequestCreateSchema,
+} from "@/lib/parts";
+import { resolveRequestActor } from "@/lib/request-actor";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_FETCH = 500;
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const status = searchParams.get("status");
+  const ncId = searchParams.get("ncId");
+  const machineId = searchParams.get("machineId");
+  const workOrderId = searchParams.get("workOrderId");
+
+  try {
+    const snapshot = await getAdminDb()
+      .collection(PART_REQUESTS_COLLECTION)
+      .orderBy("requestedAt", "desc")
+      .limit(MAX_FETCH)
+      .get();
+    const data = snapshot.docs
+      .map(mapPartRequestDoc)
+      .filter((item) => !status || (status === "open" ? isOpenPartRequest(item) : item.status === status))
+      .filter((item) => !ncId || item.ncId === ncId)
+      .filter((item) => !machineId || item.machineId === machineId)
+      .filter((item) => !workOrderId || item.workOrderId === workOrderId);
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error("GET /api/part-requests failed", error);
+    return NextResponse.json({ error: "Falha ao carregar requisições de peças" }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const parsed = partRequestCreateSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Requisição de peça inválida" }, { status: 400 });
+  }
+
+  try {
+    const db = getAdminDb();
+    const requester = await resolveRequestActor(request, db);
+    if (!requester.ok) {
+      return NextResponse.json({ error: requester.error }, { status: requester.status });
+    }
+    const result = await createPartRequest(db, parsed.data, requester.actor);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json({ data: result.data }, { status: 201 });
+  } catch (error) {
+    console.error("POST /api/part-requests failed", error);
+    return NextResponse.json({ error: "Falha ao criar requisição de peça" }, { status: 500 });
+  }
+}
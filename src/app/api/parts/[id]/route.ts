@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminDb } from "@/lib/firebase-admin";
+import { PARTS_COLLECTION, partInputSchema } from "@/lib/parts";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+async function resolveId(context: RouteContext): Promise<string | null> {
+  const { id } = await context.params;
+  const normalized = typeof id === "string" ? id.trim() : "";
+  return normalized || null;
+}
+
+export async function PUT(request: NextRequest, context: RouteContext) {
+  const id = await resolveId(context);
+  if (!id) {
+    return NextResponse.json({ error: "Parâmetro id inválido" }, { status: 400 });
+  }
+
+  const parsed = partInputSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Peça inválida" }, { status: 400 });
+  }
+
+  try {
+    const ref = getAdminDb().collection(PARTS_COLLECTION).doc(id);
+    if (!(await ref.get()).exists) {
+      return NextResponse.json({ error: "Peça não encontrada" }, { status: 404 });
+    }
+    await ref.set({ ...parsed.data, updatedAt: new Date().toISOString() });
+    return NextResponse.json({ id });
+  } catch (error) {
+    console.error(`PUT /api/parts/${id} failed`, error);
+    return NextResponse.json({ error: "Falha ao atualizar peça" }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: NextRequest, context: RouteContext) {
+  const id = await resolveId(context);
+  if (!id) {
+    return NextResponse.json({ error: "Parâmetro id inválido" }, { status: 400 });
+  }
+
+  try {
+    await getAdminDb().collection(PARTS_COLLECTION).doc(id).delete();
+    return NextResponse.json({ id });
+  } catch (error) {
+    console.error(`DELETE /api/parts/${id} failed`, error);
+    return NextResponse.json({ error: "Falha ao remover peça" }, { status: 500 });
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminDb } from "@/lib/firebase-admin";
+import { PARTS_COLLECTION, isPartCompatible, mapPartDoc, partInputSchema } from "@/lib/parts";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const q = searchParams.get("q")?.trim().toLowerCase();
+  const model = searchParams.get("model");
+
+  try {
+    const snapshot = await getAdminDb().collection(PARTS_COLLECTION).get();
+    const data = snapshot.docs
+      .map(mapPartDoc)
+      .filter((part) => !q || part.code.toLowerCase().includes(q) || part.description.toLowerCase().includes(q))
+      .filter((part) => !model || isPartCompatible(part, model))
+      .sort((a, b) => a.code.localeCompare(b.code));
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error("GET /api/parts failed", error);
+    return NextResponse.json({ error: "Falha ao carregar catálogo de peças" }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const parsed = partInputSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Peça inválida" }, { status: 400 });
+  }
+
+  try {
+    const collection = getAdminDb().collection(PARTS_COLLECTION);
+    const duplicate = await collection.where("code", "==", parsed.data.code).limit(1).get();
+    if (!duplicate.empty) {
+      return NextResponse.json({ error: "Já existe uma peça com este código" }, { status: 409 });
+    }
+    const ref = await collection.add({ ...parsed.data, updatedAt: new Date().toISOString() });
+    return NextResponse.json({ id: ref.id }, { status: 201 });
+  } catch (error) {
+    console.error("POST /api/parts failed", error);
+    return NextResponse.json({ error: "Falha ao cadastrar peça" }, { status: 500 });
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getAdminDb } from "@/lib/firebase-admin";
+import {
+  MISSED_CHECKLIST_EVENTS_COLLECTION,
+  type MissedChecklistEventActor,
+  mapMissedChecklistEvent,
+} from "@/lib/kpis/periodicity-snapshots";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const actorSchema = z.object({
+  id: z.string().trim().min(1),
+  nome: z.string().trim().nullish(),
+});
+
+const bodySchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("acknowledge"), actor: actorSchema.optional() }),
+  z.object({
+    action: z.literal("justify"),
+    justification: z.string().trim().min(1),
+    actor: actorSchema.optional(),
+  }),
+]);
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  const { id: rawId } = await context.params;
+  const id = typeof rawId === "string" ? rawId.trim() : "";
+  if (!id) {
+    return NextResponse.json({ error: "Parâmetro id inválido" }, { status: 400 });
+  }
+
+  const parsed = bodySchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Informe a ação (acknowledge ou justify) e, para justificar, o motivo." },
+      { status: 400 },
+    );
+  }
+  const body = parsed.data;
+
+  try {
+    const ref = getAdminDb().collection(MISSED_CHECKLIST_EVENTS_COLLECTION).doc(id);
+    const snapshot = await ref.get();
+    if (!snapshot.exists) {
+      return NextResponse.json({ error: "Evento não encontrado" }, { status: 404 });
+    }
+
+    const existing = mapMissedChecklistEvent(snapshot);
+    const actor: MissedChecklistEventActor = {
+      id: body.actor?.id ?? "system",
+      nome: body.actor?.nome ?? null,
+    };
+    const nowIso = new Date().toISOString();
+    const updates: Record<string, unknown> = {};
+
+    if (body.action === "acknowledge") {
+      if (existing.status !== "open") {
+        return NextResponse.json({ error: "Evento já reconhecido" }, { status: 409 });
+      }
+      Object.assign(updates, { status: "acknowledged", acknowledgedAt: nowIso, acknowledgedBy: actor });
+    } else {
+      Object.assign(updates, {
+        status: "justified",
+        justification: body.justification,
+        justifiedAt: nowIso,
+        justifiedBy: actor,
+      });
+      if (!existing.acknowledgedAt) {
+        Object.assign(updates, { acknowledgedAt: nowIso, acknowledgedBy: actor });
+      }
+    }
+
+    await ref.update(updates);
+    const refreshed = await ref.get();
+    return NextResponse.json({ data: mapMissedChecklistEvent(refreshed) });
+  } catch (error) {
+    console.error(`PATCH /api/periodicity/events/${id} failed`, error);
+    return NextResponse.json({ error: "Falha ao atualizar o evento" }, { status: 500 });
+  }
+}
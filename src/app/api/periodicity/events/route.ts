@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminDb } from "@/lib/firebase-admin";
+import {
+  MISSED_CHECKLIST_EVENTS_COLLECTION,
+  type MissedChecklistEventStatus,
+  mapMissedChecklistEvent,
+} from "@/lib/kpis/periodicity-snapshots";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_FETCH = 500;
+const DEFAULT_LIMIT = 50;
+
+const STATUS_VALUES: readonly MissedChecklistEventStatus[] = ["open", "acknowledged", "justified"];
+
+export async function GET(request: NextRequest) {
+  const url = new URL(request.url);
+  const statusParam = url.searchParams.get("status");
+  const machineId = url.searchParams.get("machineId")?.trim() || undefined;
+  const templateId = url.searchParams.get("templateId")?.trim() || undefined;
+  const limitParam = url.searchParams.get("limit");
+
+  if (statusParam && !STATUS_VALUES.includes(statusParam as MissedChecklistEventStatus)) {
+    return NextResponse.json({ error: "Parâmetro status inválido" }, { status: 400 });
+  }
+
+  const limit = limitParam ? Number(limitParam) : DEFAULT_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_FETCH) {
+    return NextResponse.json({ error: "Parâmetro limit inválido" }, { status: 400 });
+  }
+
+  try {
+    const snapshot = await getAdminDb()
+      .collection(MISSED_CHECKLIST_EVENTS_COLLECTION)
+      .orderBy("detectedAt", "desc")
+      .limit(MAX_FETCH)
+      .get();
+
+    const data = snapshot.docs
+      .map(mapMissedChecklistEvent)
+      .filter((event) => !statusParam || event.status === statusParam)
+      .filter((event) => !machineId || event.machineId === machineId)
+      .filter((event) => !templateId || event.templateId === templateId)
+      .slice(0, limit);
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error("GET /api/periodicity/events failed", error);
+    return NextResponse.json({ error: "Falha ao carregar checklists perdidos" }, { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminDb } from "@/lib/firebase-admin";
+import {
+  DEFAULT_RECURRENCE_SETTINGS,
+  RECURRENCE_SETTINGS_COLLECTION,
+  RECURRENCE_SETTINGS_DOC,
+  loadRecurrenceSettings,
+  recurrenceSettingsSchema,
+} from "@/lib/recurrence";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const data = await loadRecurrenceSettings(getAdminDb());
+    return NextResponse.json({ data, defaults: DEFAULT_RECURRENCE_SETTINGS });
+  } catch (error) {
+    console.error("GET /api/recurrence/settings failed", error);
+    return NextResponse.json({ error: "Falha ao carregar a configuração de recorrência" }, { status: 500 });
+  }
+}
+
+/** Vale para as NCs abertas a partir de agora; vínculos já gravados não mudam. */
+export async function PUT(request: NextRequest) {
+  const parsed = recurrenceSettingsSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Configuração de recorrência inválida" }, { status: 400 });
+  }
+
+  try {
+    await getAdminDb()
+      .collection(RECURRENCE_SETTINGS_COLLECTION)
+      .doc(RECURRENCE_SETTINGS_DOC)
+      .set({ ...parsed.data, updatedAt: new Date().toISOString() });
+    return NextResponse.json({ data: parsed.data });
+  } catch (error) {
+    console.error("PUT /api/recurrence/settings failed", error);
+    return NextResponse.json({ error: "Falha ao salvar a configuração de recorrência" }, { status: 500 });
+  }
+}
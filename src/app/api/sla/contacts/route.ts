@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminDb } from "@/lib/firebase-admin";
+import { SLA_CONTACTS_COLLECTION } from "@/lib/sla";
+import {
+  escalationContactsId,
+  escalationContactsInputSchema,
+  loadEscalationContacts,
+} from "@/lib/sla-escalation";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const data = (await loadEscalationContacts(getAdminDb())).sort((a, b) =>
+      (a.setor ?? "").localeCompare(b.setor ?? ""),
+    );
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error("GET /api/sla/contacts failed", error);
+    return NextResponse.json({ error: "Falha ao carregar contatos de escalonamento" }, { status: 500 });
+  }
+}
+
+/** Grava supervisor e gerente do setor, substituindo o cadastro anterior. */
+export async function PUT(request: NextRequest) {
+  const parsed = escalationContactsInputSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Informe setor, supervisor e gerente válidos." }, { status: 400 });
+  }
+  const { setor, supervisor, manager } = parsed.data;
+  const id = escalationContactsId(setor);
+
+  try {
+    await getAdminDb()
+      .collection(SLA_CONTACTS_COLLECTION)
+      .doc(id)
+      .set({
+        setor: setor || null,
+        supervisor: supervisor ? { id: supervisor.id ?? null, nome: supervisor.nome, email: supervisor.email ?? null } : null,
+        manager: manager ? { id: manager.id ?? null, nome: manager.nome, email: manager.email ?? null } : null,
+        updatedAt: new Date().toISOString(),
+      });
+    return NextResponse.json({ id });
+  } catch (error) {
+    console.error("PUT /api/sla/contacts failed", error);
+    return NextResponse.json({ error: "Falha ao salvar contatos de escalonamento" }, { status: 500 });
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminDb } from "@/lib/firebase-admin";
+import { SLA_POLICIES_COLLECTION } from "@/lib/sla";
+import { slaPolicyInputSchema } from "@/lib/sla-escalation";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+async function resolveId(context: RouteContext): Promise<string | null> {
+  const { id } = await context.params;
+  const normalized = typeof id === "string" ? id.trim() : "";
+  return normalized || null;
+}
+
+export async function PUT(request: NextRequest, context: RouteContext) {
+  const id = await resolveId(context);
+  if (!id) {
+    return NextResponse.json({ error: "Parâmetro id inválido" }, { status: 400 });
+  }
+
+  const parsed = slaPolicyInputSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Política de SLA inválida" }, { status: 400 });
+  }
+
+  try {
+    const ref = getAdminDb().collection(SLA_POLICIES_COLLECTION).doc(id);
+    if (!(await ref.get()).exists) {
+      return NextResponse.json({ error: "Política não encontrada" }, { status: 404 });
+    }
+    await ref.set({ ...parsed.data, updatedAt: new Date().toISOString() });
+    return NextResponse.json({ id });
+  } catch (error) {
+    console.error(`PUT /api/sla/policies/${id} failed`, error);
+    return NextResponse.json({ error: "Falha ao atualizar política de SLA" }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: NextRequest, context: RouteContext) {
+  const id = await resolveId(context);
+  if (!id) {
+    return NextResponse.json({ error: "Parâmetro id inválido" }, { status: 400 });
+  }
+
+  try {
+    await getAdminDb().collection(SLA_POLICIES_COLLECTION).doc(id).delete();
+    return NextResponse.json({ id });
+  } catch (error) {
+    console.error(`DELETE /api/sla/policies/${id} failed`, error);
+    return NextResponse.json({ error: "Falha ao remover política de SLA" }, { status: 500 });
+  }
+}
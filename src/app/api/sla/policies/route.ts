@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminDb } from "@/lib/firebase-admin";
+import { DEFAULT_SLA_POLICIES, SLA_POLICIES_COLLECTION } from "@/lib/sla";
+import { loadSlaPolicies, slaPolicyInputSchema } from "@/lib/sla-escalation";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const data = (await loadSlaPolicies(getAdminDb())).sort((a, b) => a.name.localeCompare(b.name));
+    return NextResponse.json({ data, defaults: DEFAULT_SLA_POLICIES });
+  } catch (error) {
+    console.error("GET /api/sla/policies failed", error);
+    return NextResponse.json({ error: "Falha ao carregar políticas de SLA" }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const parsed = slaPolicyInputSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Política de SLA inválida" }, { status: 400 });
+  }
+
+  try {
+    const ref = await getAdminDb()
+      .collection(SLA_POLICIES_COLLECTION)
+      .add({ ...parsed.data, updatedAt: new Date().toISOString() });
+    return NextResponse.json({ id: ref.id }, { status: 201 });
+  } catch (error) {
+    console.error("POST /api/sla/policies failed", error);
+    return NextResponse.json({ error: "Falha ao criar política de SLA" }, { status: 500 });
+  }
+}
@@ -2,21 +2,24 @@ import { NextRequest, NextResponse } from "next/server";
 import { getAdminDb } from "@/lib/firebase-admin";
 import type {
   ChecklistPeriodicityAnchor,
-  ChecklistPeriodicityUnit,
   ChecklistTemplatePeriodicity,
 } from "@/types/checklist";
 
+type PeriodicityUnit = ChecklistTemplatePeriodicity["unit"];
+
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-function computeWindowDays(quantity: number, unit: ChecklistPeriodicityUnit): number {
+function computeWindowDays(quantity: number, unit: PeriodicityUnit): number {
+  // Periodicidades por uso (horas/km) não têm janela em dias.
+  if (unit === "hours" || unit === "km") return 0;
   if (unit === "day") return quantity;
   if (unit === "week") return quantity * 7;
   return quantity * 30;
 }
 
-function isValidUnit(value: unknown): value is ChecklistPeriodicityUnit {
-  return value === "day" || value === "week" || value === "month";
+function isValidUnit(value: unknown): value is PeriodicityUnit {
+  return value === "day" || value === "week" || value === "month" || value === "hours" || value === "km";
 }
 
 function isValidAnchor(value: unknown): value is ChecklistPeriodicityAnchor {
@@ -74,7 +77,7 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
     const quantityRaw = payload.quantity;
     const anchorRaw = payload.anchor;
 
-    let unit: ChecklistPeriodicityUnit = currentPeriodicity?.unit ?? "day";
+    let unit: PeriodicityUnit = currentPeriodicity?.unit ?? "day";
     let quantity = currentPeriodicity?.quantity ?? 1;
     let anchor: ChecklistPeriodicityAnchor = currentPeriodicity?.anchor ?? "last_submission";
 
@@ -97,8 +100,11 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
       return NextResponse.json({ error: "Âncora inválida" }, { status: 400 });
     }
 
-    if (anchor !== "last_submission" && activeValue) {
-      return NextResponse.json({ error: "Anchor calendar ainda não suportada" }, { status: 400 });
+    if (anchor === "calendar" && (unit === "hours" || unit === "km") && activeValue) {
+      return NextResponse.json(
+        { error: "Âncora calendar não se aplica a periodicidade por horas/km" },
+        { status: 400 },
+      );
     }
 
     if (activeValue && !isValidUnit(unit)) {
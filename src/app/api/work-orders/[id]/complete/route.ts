@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminDb } from "@/lib/firebase-admin";
+import { resolveRequestActor } from "@/lib/request-actor";
+import { completeWorkOrder, workOrderCompleteSchema } from "@/lib/work-orders";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+export async function POST(request: NextRequest, context: RouteContext) {
+  const { id } = await context.params;
+  if (!id?.trim()) {
+    return NextResponse.json({ error: "Parâmetro id inválido" }, { status: 400 });
+  }
+
+  const parsed = workOrderCompleteSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Informe o nome e a assinatura de conclusão." }, { status: 400 });
+  }
+
+  try {
+    const db = getAdminDb();
+    const requester = await resolveRequestActor(request, db);
+    if (!requester.ok) {
+      return NextResponse.json({ error: requester.error }, { status: requester.status });
+    }
+    const result = await completeWorkOrder(db, id.trim(), parsed.data, requester.actor);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json({ data: result.data });
+  } catch (error) {
+    console.error(`POST /api/work-orders/${id}/complete failed`, error);
+    return NextResponse.json({ error: "Falha ao concluir ordem de serviço" }, { status: 500 });
+  }
+}
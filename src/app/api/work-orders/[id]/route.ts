@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminDb } from "@/lib/firebase-admin";
+import { mapNonConformityDoc } from "@/lib/firestore/nc";
+import { resolveRequestActor } from "@/lib/request-actor";
+import { WORK_ORDERS_COLLECTION, mapWorkOrderDoc, updateWorkOrder, workOrderUpdateSchema } from "@/lib/work-orders";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+async function resolveId(context: RouteContext): Promise<string | null> {
+  const { id } = await context.params;
+  const normalized = typeof id === "string" ? id.trim() : "";
+  return normalized || null;
+}
+
+export async function GET(_request: NextRequest, context: RouteContext) {
+  const id = await resolveId(context);
+  if (!id) {
+    return NextResponse.json({ error: "Parâmetro id inválido" }, { status: 400 });
+  }
+
+  try {
+    const db = getAdminDb();
+    const snapshot = await db.collection(WORK_ORDERS_COLLECTION).doc(id).get();
+    if (!snapshot.exists) {
+      return NextResponse.json({ error: "Ordem de serviço não encontrada" }, { status: 404 });
+    }
+    const order = mapWorkOrderDoc(snapshot);
+    const ncSnaps = await Promise.all(order.ncIds.map((ncId) => db.collection("nonConformities").doc(ncId).get()));
+    const ncs = ncSnaps.filter((snap) => snap.exists).map(mapNonConformityDoc);
+    return NextResponse.json({ data: order, ncs });
+  } catch (error) {
+    console.error(`GET /api/work-orders/${id} failed`, error);
+    return NextResponse.json({ error: "Falha ao carregar ordem de serviço" }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  const id = await resolveId(context);
+  if (!id) {
+    return NextResponse.json({ error: "Parâmetro id inválido" }, { status: 400 });
+  }
+
+  const parsed = workOrderUpdateSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Dados da ordem de serviço inválidos" }, { status: 400 });
+  }
+
+  try {
+    const db = getAdminDb();
+    const requester = await resolveRequestActor(request, db);
+    if (!requester.ok) {
+      return NextResponse.json({ error: requester.error }, { status: requester.status });
+    }
+    const result = await updateWorkOrder(db, id, parsed.data);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json({ data: result.data });
+  } catch (error) {
+    console.error(`PATCH /api/work-orders/${id} failed`, error);
+    return NextResponse.json({ error: "Falha ao atualizar ordem de serviço" }, { status: 500 });
+  }
+}
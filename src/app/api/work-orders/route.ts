@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminDb } from "@/lib/firebase-admin";
+import { resolveRequestActor } from "@/lib/request-actor";
+import { WORK_ORDERS_COLLECTION, createWorkOrder, mapWorkOrderDoc, workOrderCreateSchema } from "@/lib/work-orders";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_FETCH = 500;
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const status = searchParams.get("status");
+  const machineId = searchParams.get("machineId");
+  const ncId = searchParams.get("ncId");
+
+  try {
+    const snapshot = await getAdminDb()
+      .collection(WORK_ORDERS_COLLECTION)
+      .orderBy("createdAt", "desc")
+      .limit(MAX_FETCH)
+      .get();
+    const data = snapshot.docs
+      .map(mapWorkOrderDoc)
+      .filter((order) => !status || order.status === status)
+      .filter((order) => !machineId || order.machineId === machineId)
+      .filter((order) => !ncId || order.ncIds.includes(ncId));
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error("GET /api/work-orders failed", error);
+    return NextResponse.json({ error: "Falha ao carregar ordens de serviço" }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const parsed = workOrderCreateSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Ordem de serviço inválida" }, { status: 400 });
+  }
+
+  try {
+    const db = getAdminDb();
+    const requester = await resolveRequestActor(request, db);
+    if (!requester.ok) {
+      return NextResponse.json({ error: requester.error }, { status: requester.status });
+    }
+    const result = await createWorkOrder(db, parsed.data, requester.actor);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json({ data: result.data }, { status: 201 });
+  } catch (error) {
+    console.error("POST /api/work-orders failed", error);
+    return NextResponse.json({ error: "Falha ao criar ordem de serviço" }, { status: 500 });
+  }
+}
@@ -5,7 +5,6 @@ import { useEffect, useMemo, useRef, useState } from "react";
 import { useParams, useRouter } from "next/navigation";
 import {
   Timestamp,
-  addDoc,
   collection,
   doc,
   getDoc,
@@ -13,19 +12,23 @@ import {
   limit,
   orderBy,
   query,
-  serverTimestamp,
   where,
 } from "firebase/firestore";
 import { db } from "@/lib/firebase";
 import { ensureAnonymousAuth } from "@/lib/ensureAnonymousAuth";
 import {
+  MACHINE_STATUS_LABEL,
   Machine,
   resolveMachineActorKind,
   resolveMachineActorLabel,
   resolveMachineFleetType,
+  resolveMachineStatus,
 } from "@/types/machine";
 import type {
   ChecklistAnswer,
+  ChecklistMeterKind,
+  ChecklistMeterReplacement,
+  ChecklistReadingFlag,
   ChecklistRecurrenceStatus,
   ChecklistResponse,
   ChecklistTemplate,
@@ -35,16 +38,66 @@ import type {
 import {
   formatDateShort,
   getActorSnapshot,
+  getMeterHistory,
   getPreviousReading,
   getTemplateActorConfig,
+  getWorkingCalendar,
   getTemplateHeader,
   resolveDriverName,
   resolvePrimaryActorLabel,
   resolveSecondaryActorLabel,
 } from "@/lib/checklist";
+import {
+  METER_DEVICE_LABEL,
+  METER_LABEL,
+  METER_UNIT_SUFFIX,
+  USAGE_PERIODICITY_METER,
+  appendMeterReading,
+  buildMeterReplacement,
+  computeAverageDailyUsage,
+  evaluateUsagePeriodicity,
+  isUsagePeriodicityUnit,
+  resolveMeterOffsets,
+  validateMeterReading,
+  type MeterHistory,
+  type MeterValidationResult,
+  type UsagePeriodicityStatus,
+} from "@/lib/meter-readings";
+import { resolveChecklistAvailabilityGate } from "@/lib/machine-status";
+import { evaluateCalendarCompliance } from "@/lib/working-calendar";
+import {
+  buildUploadFilename,
+  resolveBlobExtension,
+} from "@/lib/image-upload";
+import {
+  cacheMachineBundle,
+  cacheMeterHistory,
+  cacheUserDirectory,
+  loadCachedMachineBundle,
+  loadCachedMeterHistory,
+  type CachedDirectoryUser,
+} from "@/lib/offline/cache";
+import {
+  buildDraftKey,
+  clearDraft,
+  hasDraftContent,
+  loadDraft,
+  purgeExpiredDrafts,
+  saveDraft,
+  type ChecklistDraft,
+  type ChecklistDraftAnswer,
+} from "@/lib/offline/drafts";
+import {
+  enqueueChecklist,
+  type OutboxPhoto,
+  type OutboxResponsePayload,
+  type OutboxSignature,
+} from "@/lib/offline/outbox";
 import type { UserRole } from "@/types/user";
+import type { WorkingCalendar } from "@/types/working-calendar";
 import { useUserLookup } from "@/hooks/useUserLookup";
 import { useNotification } from "@/hooks/useNotification";
+import { useOutboxSync } from "@/hooks/useOutboxSync";
 import Notification from "@/components/Notification";
 import Spinner from "@/components/Spinner";
 import SignaturePad from "@/components/SignaturePad";
@@ -80,6 +133,7 @@ type PreviousResponseMeta = {
   createdAt?: string | null;
   km?: number | null;
   horimetro?: number | null;
+  meterOffsets?: ChecklistResponse["meterOffsets"];
 };
 
 type PreviousNcMap = Record<string, ChecklistAnswer>;
@@ -90,10 +144,32 @@ type ExtraNc = {
   severity?: "baixa" | "media" | "alta";
 };
 
+type MeterReplacementDraft = {
+  replaced: boolean;
+  oldFinalValue: string;
+  newInitialValue: string;
+};
+
+const METER_KINDS: readonly ChecklistMeterKind[] = ["km", "horimetro"];
+
+const EMPTY_METER_REPLACEMENTS: Record<ChecklistMeterKind, MeterReplacementDraft> = {
+  km: { replaced: false, oldFinalValue: "", newInitialValue: "0" },
+  horimetro: { replaced: false, oldFinalValue: "", newInitialValue: "0" },
+};
+
+const parseMeterInput = (value: string): number | null => {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  const parsed = Number(trimmed);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
 type PeriodicityRestriction = {
   lastSubmissionAt: string;
-  nextAllowedAt: string;
+  /** Nas periodicidades por uso, é a data projetada pelo uso médio (pode faltar). */
+  nextAllowedAt: string | null;
   intervalLabel: string;
+  usage?: UsagePeriodicityStatus;
 };
 
 const PERIODICITY_UNIT_LABEL: Record<
@@ -103,10 +179,14 @@ const PERIODICITY_UNIT_LABEL: Record<
   day: { singular: "dia", plural: "dias" },
   week: { singular: "semana", plural: "semanas" },
   month: { singular: "mês", plural: "meses" },
+  hours: { singular: "hora", plural: "horas" },
+  km: { singular: "km", plural: "km" },
 };
 
 const MS_IN_DAY = 24 * 60 * 60 * 1000;
 
+const DRAFT_SAVE_DEBOUNCE_MS = 800;
+
 const formatDateTimePtBr = (date: Date): string => {
   return date.toLocaleString("pt-BR", {
     day: "2-digit",
@@ -126,6 +206,15 @@ const formatPeriodicityInterval = (
   return `${quantity} ${quantity === 1 ? label.singular : label.plural}`;
 };
 
+const formatNumericPtBr = (value: number): string => {
+  return new Intl.NumberFormat("pt-BR", { maximumFractionDigits: 2 }).format(value);
+};
+
+const formatUsageDue = (usage: UsagePeriodicityStatus): string => {
+  const suffix = METER_UNIT_SUFFIX[usage.meter];
+  return `Próximo envio previsto em ${formatNumericPtBr(usage.dueAt)} ${suffix} (atual ${formatNumericPtBr(usage.currentReading)} ${suffix}).`;
+};
+
 const computeNextAllowedDate = (
   periodicity: ChecklistTemplatePeriodicity,
   lastSubmission: Date,
@@ -158,119 +247,6 @@ const resolveCreatedAtIso = (
   return null;
 };
 
-const formatNumericPtBr = (value: number): string => {
-  return new Intl.NumberFormat("pt-BR", { maximumFractionDigits: 2 }).format(value);
-};
-
-const dataUrlToBlob = (dataUrl: string): Blob => {
-  const [header, data] = dataUrl.split(",");
-  if (!header || !data) {
-    throw new Error("INVALID_DATA_URL");
-  }
-  const mimeMatch = header.match(/data:(.*);base64/);
-  const mimeType = mimeMatch ? mimeMatch[1] : "image/png";
-  const binary = atob(data);
-  const length = binary.length;
-  const buffer = new Uint8Array(length);
-  for (let index = 0; index < length; index++) {
-    buffer[index] = binary.charCodeAt(index);
-  }
-  return new Blob([buffer], { type: mimeType });
-};
-
-const sanitizeFilenameSegment = (segment: string): string => {
-  return segment.replace(/[^a-zA-Z0-9-_]/g, "-");
-};
-
-const resolveBlobExtension = (blob: Blob, fallback = "png"): string => {
-  if (typeof File !== "undefined" && blob instanceof File && typeof blob.name === "string") {
-    const extensionMatch = blob.name.match(/\.([a-zA-Z0-9]+)$/);
-    if (extensionMatch?.[1]) {
-      const normalized = extensionMatch[1].toLowerCase();
-      return normalized === "jpeg" ? "jpg" : normalized;
-    }
-  }
-  if (blob.type) {
-    const typeExtension = blob.type.split("/").pop();
-    if (typeExtension && typeExtension !== blob.type) {
-      const normalized = typeExtension.toLowerCase();
-      return normalized === "jpeg" ? "jpg" : normalized;
-    }
-  }
-  return fallback;
-};
-
-const buildUploadFilename = (segments: string[], extension: string): string => {
-  const sanitizedSegments = segments
-    .map((segment) => sanitizeFilenameSegment(segment))
-    .filter((segment) => Boolean(segment));
-  const base = sanitizedSegments.length ? sanitizedSegments.join("-") : "upload";
-  const safeExtension = extension.replace(/[^a-zA-Z0-9]/g, "").toLowerCase() || "png";
-  return `${base}.${safeExtension}`;
-};
-
-const uploadImageToR2 = async (image: Blob | File, filename: string): Promise<string> => {
-  const sanitizedFilename = filename.replace(/[^a-zA-Z0-9-_.]/g, "-");
-  const finalFilename = sanitizedFilename || "upload.png";
-  const baseName = finalFilename.replace(/\.[^./]+$/, "");
-
-  const formData = new FormData();
-  formData.append("image", image, finalFilename);
-  formData.append("filename", finalFilename);
-  formData.append("name", baseName || "upload");
-
-  let response: Response;
-  try {
-    response = await fetch("/api/images/upload", {
-      method: "POST",
-      body: formData,
-    });
-  } catch (networkError) {
-    console.error("Falha de rede ao enviar imagem para o R2", networkError);
-    throw new Error("R2_UPLOAD_NETWORK_ERROR");
-  }
-
-  type UploadResponse = { url?: string; error?: string };
-  let payload: UploadResponse | null = null;
-  try {
-    payload = (await response.json()) as UploadResponse;
-  } catch (parseError) {
-    console.error("Falha ao interpretar resposta da API de upload", parseError);
-  }
-
-  if (!response.ok) {
-    console.error("Resposta inválida ao enviar imagem", { status: response.status, payload });
-    throw new Error("R2_UPLOAD_FAILED");
-  }
-
-  const resolvedUrl = payload?.url;
-
-  if (!resolvedUrl) {
-    console.error("Resposta da API de upload sem URL", payload);
-    throw new Error("R2_UPLOAD_NO_URL");
-  }
-
-  return resolvedUrl;
-};
-
-type ChecklistResponsePayload = {
-  machineId: string;
-  userId: string;
-  operatorMatricula: string;
-  operatorNome: string | null;
-  templateId: string;
-  createdAt: string;
-  createdAtTs: ReturnType<typeof serverTimestamp>;
-  answers: ChecklistAnswer[];
-  km?: number;
-  horimetro?: number;
-  extraNonConformities?: ExtraNc[];
-  previousKm?: number | null;
-  headerFrozen?: ChecklistResponse["headerFrozen"];
-  actor?: ChecklistResponse["actor"];
-  signatures?: ChecklistResponse["signatures"];
-};
-
 const resolvePhotoRule = (
   question: ChecklistTemplate["questions"][number],
 ): ChecklistPhotoRule => {
@@ -429,13 +405,36 @@ export default function ChecklistByTagPage() {
   const [periodicityRestriction, setPeriodicityRestriction] =
     useState<PeriodicityRestriction | null>(null);
   const [previousMachineReading, setPreviousMachineReading] = useState<number | null>(null);
+  const [meterHistory, setMeterHistory] = useState<MeterHistory | null>(null);
+  /** Origem do histórico: consulta ao Firestore, cache do dispositivo ou nenhuma (offline sem cache). */
+  const [meterHistorySource, setMeterHistorySource] =
+    useState<"live" | "cached" | "unavailable">("live");
+  const [workingCalendar, setWorkingCalendar] = useState<WorkingCalendar | null>(null);
+  const [meterReplacements, setMeterReplacements] =
+    useState<Record<ChecklistMeterKind, MeterReplacementDraft>>(EMPTY_METER_REPLACEMENTS);
+  const [confirmedMeterJumps, setConfirmedMeterJumps] = useState<
+    Partial<Record<ChecklistMeterKind, boolean>>
+  >({});
 
   const { userLookup, userInfo, nome, setNome } = useUserLookup(matricula);
   const { notification, showNotification, hideNotification } = useNotification();
+  const {
+    entries: outboxEntries,
+    pendingCount,
+    isOnline,
+    syncing: outboxSyncing,
+    syncNow,
+    refresh: refreshOutbox,
+  } = useOutboxSync();
+  const [offlineCachedAt, setOfflineCachedAt] = useState<string | null>(null);
+  const [signatureResetKey, setSignatureResetKey] = useState(0);
+  const [draftPrompt, setDraftPrompt] = useState<ChecklistDraft | null>(null);
+  const [draftReadyKey, setDraftReadyKey] = useState<string | null>(null);
 
   const machinesCol = useMemo(() => collection(db, "machines"), []);
   const templatesCol = useMemo(() => collection(db, "checklistTemplates"), []);
   const responsesCol = useMemo(() => collection(db, "checklistResponses"), []);
+  const usersCol = useMemo(() => collection(db, "users"), []);
 
   useEffect(() => {
     return () => {
@@ -459,26 +458,25 @@ export default function ChecklistByTagPage() {
           console.error("Falha ao autenticar anonimamente para o checklist", authError);
         }
 
-        const machineQuery = query(
-          machinesCol,
-          where("tag", "==", decodeURIComponent(String(tag)))
-        );
-        const machineSnap = await getDocs(machineQuery);
-        if (machineSnap.empty) {
-          throw new Error("Máquina não encontrada pelo QR ou TAG.");
-        }
-        const machineDoc = machineSnap.docs[0];
-        const machineRaw = machineDoc.data() as Omit<Machine, "id">;
-        const machineData = {
-          id: machineDoc.id,
-          ...machineRaw,
-          fleetType: resolveMachineFleetType(machineRaw.fleetType),
-        } satisfies Machine;
-        setMachine(machineData);
+        const decodedTag = decodeURIComponent(String(tag));
+        let machineData: Machine;
+        let fetched: ChecklistTemplate[] = [];
 
-        if (machineData.checklists?.length) {
-          const fetched: ChecklistTemplate[] = [];
-          for (const tplId of machineData.checklists) {
+        try {
+          const machineQuery = query(machinesCol, where("tag", "==", decodedTag));
+          const machineSnap = await getDocs(machineQuery);
+          if (machineSnap.empty) {
+            throw new Error("Máquina não encontrada pelo QR ou TAG.");
+          }
+          const machineDoc = machineSnap.docs[0];
+          const machineRaw = machineDoc.data() as Omit<Machine, "id">;
+          machineData = {
+            id: machineDoc.id,
+            ...machineRaw,
+            fleetType: resolveMachineFleetType(machineRaw.fleetType),
+          } satisfies Machine;
+
+          for (const tplId of machineData.checklists ?? []) {
             const tplSnap = await getDoc(doc(templatesCol, tplId));
             if (tplSnap.exists()) {
               const tpl = {
@@ -488,15 +486,45 @@ export default function ChecklistByTagPage() {
               if (tpl.isActive) fetched.push(tpl);
             }
           }
-          setTemplates(fetched);
-          // Não seleciona automaticamente - aguarda seleção no modal
-          if (fetched.length > 0) {
-            setShowTemplateModal(true);
-          } else {
-            setTemplates([]);
+
+          setOfflineCachedAt(null);
+          void cacheMachineBundle(decodedTag, { machine: machineData, templates: fetched });
+          void getDocs(usersCol)
+            .then((usersSnap) => {
+              const directory: CachedDirectoryUser[] = usersSnap.docs
+                .map((userDoc) => {
+                  const data = userDoc.data() as Partial<CachedDirectoryUser>;
+                  if (!data.matricula || !data.role) return null;
+                  return {
+                    id: userDoc.id,
+                    matricula: String(data.matricula),
+                    nome: data.nome?.trim() ?? "",
+                    role: data.role,
+                  } satisfies CachedDirectoryUser;
+                })
+                .filter((user): user is CachedDirectoryUser => Boolean(user));
+              return cacheUserDirectory(directory);
+            })
+            .catch((error) => {
+              console.warn("Falha ao salvar diretório de usuários no dispositivo", error);
+            });
+        } catch (networkError) {
+          // Sem sinal no campo: usamos a última cópia salva desta máquina.
+          const cached = await loadCachedMachineBundle(decodedTag);
+          if (!cached) {
+            throw networkError;
           }
-        } else {
-          setTemplates([]);
+          console.warn("Checklist carregado do cache offline", networkError);
+          machineData = cached.value.machine;
+          fetched = cached.value.templates;
+          setOfflineCachedAt(cached.cachedAt);
+        }
+
+        setMachine(machineData);
+        setTemplates(fetched);
+        // Não seleciona automaticamente - aguarda seleção no modal
+        if (fetched.length > 0) {
+          setShowTemplateModal(true);
         }
 
         const savedMatricula = sessionStorage.getItem("matricula");
@@ -512,12 +540,15 @@ export default function ChecklistByTagPage() {
     };
 
     load();
-  }, [machinesCol, tag, templatesCol, setNome]);
+  }, [machinesCol, tag, templatesCol, usersCol, setNome]);
 
   useEffect(() => {
     let cancelled = false;
     if (!machine) {
       setPreviousMachineReading(null);
+      setMeterHistory(null);
+      setMeterHistorySource("live");
+      setWorkingCalendar(null);
       previousReadingRef.current = null;
       return () => {
         cancelled = true;
@@ -525,9 +556,23 @@ export default function ChecklistByTagPage() {
     }
 
     const fetchPreviousReading = async () => {
-      const reading = await getPreviousReading(db, machine.id);
+      const [reading, history, calendar] = await Promise.all([
+        getPreviousReading(db, machine.id),
+        getMeterHistory(db, machine.id),
+        getWorkingCalendar(db, machine.setor),
+      ]);
+      const cached = history ? null : await loadCachedMeterHistory(machine.id);
       if (cancelled) return;
       setPreviousMachineReading(typeof reading.value === "number" ? reading.value : null);
+      if (history) {
+        setMeterHistory(history);
+        setMeterHistorySource("live");
+        void cacheMeterHistory(machine.id, history);
+      } else {
+        setMeterHistory(cached?.value ?? null);
+        setMeterHistorySource(cached ? "cached" : "unavailable");
+      }
+      setWorkingCalendar(calendar);
       previousReadingRef.current = reading;
     };
 
@@ -542,6 +587,11 @@ export default function ChecklistByTagPage() {
     return templates.find((tpl) => tpl.id === selectedTemplateId) || null;
   }, [templates, selectedTemplateId]);
 
+  const availabilityGate = useMemo(
+    () => (machine ? resolveChecklistAvailabilityGate(machine.status, currentTemplate?.type) : null),
+    [machine, currentTemplate?.type],
+  );
+
   const machineActorKind = useMemo(
     () => resolveMachineActorKind(machine ?? undefined),
     [machine],
@@ -619,6 +669,7 @@ export default function ChecklistByTagPage() {
           createdAt: createdAtIso,
           km: typeof data.km === "number" ? data.km : null,
           horimetro: typeof data.horimetro === "number" ? data.horimetro : null,
+          meterOffsets: data.meterOffsets,
         };
 
         const ncMap: PreviousNcMap = {};
@@ -638,7 +689,6 @@ export default function ChecklistByTagPage() {
 
         setPreviousResponseMeta(meta);
         setPreviousNcMap(ncMap);
-        setRecurrenceDecisions({});
       } catch (error) {
         console.error("Erro ao carregar checklist anterior", error);
         if (!cancelled) {
@@ -677,11 +727,168 @@ export default function ChecklistByTagPage() {
     setDriverNome("");
     setOperatorSignatureDataUrl(null);
     setDriverSignatureDataUrl(null);
+    setMeterReplacements(EMPTY_METER_REPLACEMENTS);
+    setConfirmedMeterJumps({});
   }, [selectedTemplateId]);
 
+  const meterValidations = useMemo(() => {
+    const inputs: Record<ChecklistMeterKind, string> = { km, horimetro };
+    const result: Partial<Record<ChecklistMeterKind, MeterValidationResult>> = {};
+    for (const kind of METER_KINDS) {
+      const value = parseMeterInput(inputs[kind]);
+      if (value === null || !meterHistory) continue;
+      result[kind] = validateMeterReading({
+        kind,
+        value,
+        history: meterHistory.entries[kind],
+        meterReplaced: meterReplacements[kind].replaced,
+      });
+    }
+    return result;
+  }, [km, horimetro, meterHistory, meterReplacements]);
+
+  /* ============================
+     Rascunho local (autosave)
+  ============================ */
+  const draftKey = useMemo(() => {
+    if (!machine || !currentTemplate || !userInfo?.matricula) return null;
+    return buildDraftKey(machine.tag, currentTemplate.id, userInfo.matricula);
+  }, [machine, currentTemplate, userInfo?.matricula]);
+
+  useEffect(() => {
+    void purgeExpiredDrafts().catch((error) => {
+      console.warn("Falha ao limpar rascunhos expirados", error);
+    });
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    setDraftPrompt(null);
+    setDraftReadyKey(null);
+    if (!draftKey) return;
+
+    loadDraft(draftKey)
+      .then((draft) => {
+        if (cancelled) return;
+        if (draft && hasDraftContent(draft)) {
+          setDraftPrompt(draft);
+        } else {
+          setDraftReadyKey(draftKey);
+        }
+      })
+      .catch((error) => {
+        console.warn("Falha ao carregar rascunho do checklist", error);
+        if (!cancelled) setDraftReadyKey(draftKey);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [draftKey]);
+
+  useEffect(() => {
+    // Só salva depois que o operador decidiu sobre um rascunho existente,
+    // para não sobrescrevê-lo com o formulário vazio.
+    if (!draftKey || !machine || !currentTemplate || draftReadyKey !== draftKey) return;
+
+    const timeoutId = window.setTimeout(() => {
+      const draftAnswers: Record<string, ChecklistDraftAnswer> = {};
+      for (const [questionId, answer] of Object.entries(answers)) {
+        draftAnswers[questionId] = {
+          questionId,
+          response: answer.response,
+          observation: answer.observation,
+          variableValue: answer.variableValue,
+          photos: (answer.photos ?? []).map((photo) => ({
+            id: photo.id,
+            name: photo.file.name,
+            blob: photo.file,
+          })),
+        };
+      }
+      const draft = {
+        key: draftKey,
+        tag: machine.tag,
+        templateId: currentTemplate.id,
+        matricula: userInfo?.matricula ?? "",
+        answers: draftAnswers,
+        extraNcs,
+        recurrenceDecisions,
+        km,
+        horimetro,
+        driverMatricula,
+        driverNome,
+        operatorSignatureDataUrl,
+        driverSignatureDataUrl,
+      };
+      const persist = hasDraftContent(draft) ? saveDraft(draft) : clearDraft(draftKey);
+      void persist.catch((error) => {
+        console.warn("Falha ao salvar rascunho do checklist", error);
+      });
+    }, DRAFT_SAVE_DEBOUNCE_MS);
+
+    return () => window.clearTimeout(timeoutId);
+  }, [
+    draftKey,
+    draftReadyKey,
+    machine,
+    currentTemplate,
+    userInfo?.matricula,
+    answers,
+    extraNcs,
+    recurrenceDecisions,
+    km,
+    horimetro,
+    driverMatricula,
+    driverNome,
+    operatorSignatureDataUrl,
+    driverSignatureDataUrl,
+  ]);
+
+  const restoreDraft = (draft: ChecklistDraft) => {
+    clearAllPreviewUrls();
+    const restored: AnswerMap = {};
+    for (const [questionId, answer] of Object.entries(draft.answers)) {
+      restored[questionId] = {
+        questionId,
+        response: answer.response,
+        observation: answer.observation,
+        variableValue: answer.variableValue,
+        photos: answer.photos.map((photo) => {
+          const file = new File([photo.blob], photo.name, { type: photo.blob.type });
+          const previewUrl = URL.createObjectURL(file);
+          registerPreviewUrl(previewUrl);
+          return { id: photo.id, file, previewUrl };
+        }),
+      };
+    }
+    setAnswers(restored);
+    setExtraNcs(draft.extraNcs);
+    setRecurrenceDecisions(draft.recurrenceDecisions);
+    kmEditedRef.current = true;
+    horimetroEditedRef.current = true;
+    setKm(draft.km);
+    setHorimetro(draft.horimetro);
+    setDriverMatricula(draft.driverMatricula);
+    setDriverNome(draft.driverNome);
+    setOperatorSignatureDataUrl(draft.operatorSignatureDataUrl);
+    setDriverSignatureDataUrl(draft.driverSignatureDataUrl);
+    setSignatureResetKey((prev) => prev + 1);
+    setDraftPrompt(null);
+    setDraftReadyKey(draft.key);
+  };
+
+  const discardDraft = (draft: ChecklistDraft) => {
+    void clearDraft(draft.key).catch((error) => {
+      console.warn("Falha ao descartar rascunho do checklist", error);
+    });
+    setDraftPrompt(null);
+    setDraftReadyKey(draft.key);
+  };
+
   useEffect(() => {
     const periodicity = currentTemplate?.periodicity;
-    if (!periodicity || !periodicity.active || periodicity.anchor !== "last_submission") {
+    if (!periodicity || !periodicity.active) {
       setPeriodicityRestriction(null);
       return;
     }
@@ -698,13 +905,68 @@ export default function ChecklistByTagPage() {
       return;
     }
 
+    if (isUsagePeriodicityUnit(periodicity.unit)) {
+      const meter = USAGE_PERIODICITY_METER[periodicity.unit];
+      const lastValue = previousResponseMeta?.[meter];
+      const entries = meterHistory?.entries[meter] ?? [];
+      const latest = entries[0];
+      const currentOffset = meterHistory?.offsets[meter] ?? 0;
+      const typedValue = parseMeterInput(meter === "km" ? km : horimetro);
+      const currentValue = typedValue ?? latest?.value ?? null;
+      if (typeof lastValue !== "number" || currentValue === null) {
+        setPeriodicityRestriction(null);
+        return;
+      }
+      const usage = evaluateUsagePeriodicity({
+        meter,
+        interval: periodicity.quantity,
+        lastCumulative: lastValue + (previousResponseMeta?.meterOffsets?.[meter] ?? 0),
+        currentCumulative: currentValue + currentOffset,
+        currentOffset,
+        currentReadingAt: typedValue === null && latest ? new Date(latest.at) : new Date(),
+        averageDailyUsage: computeAverageDailyUsage(entries),
+      });
+      setPeriodicityRestriction({
+        lastSubmissionAt: lastDate.toISOString(),
+        nextAllowedAt: usage.projectedDueAt,
+        intervalLabel: formatPeriodicityInterval(periodicity),
+        usage,
+      });
+      return;
+    }
+
+    if (periodicity.anchor === "calendar") {
+      if (!workingCalendar) {
+        setPeriodicityRestriction(null);
+        return;
+      }
+      // Na âncora de calendário o aviso só aparece se o período atual já foi cumprido.
+      const evaluation = evaluateCalendarCompliance({
+        calendar: workingCalendar,
+        unit: periodicity.unit,
+        quantity: periodicity.quantity,
+        lastSubmissionAt: lastDate.toISOString(),
+        reference: new Date(),
+      });
+      setPeriodicityRestriction(
+        evaluation.submittedInCurrentPeriod && evaluation.currentPeriod
+          ? {
+              lastSubmissionAt: lastDate.toISOString(),
+              nextAllowedAt: evaluation.currentPeriod.end,
+              intervalLabel: `${formatPeriodicityInterval(periodicity)} (calendário do setor)`,
+            }
+          : null,
+      );
+      return;
+    }
+
     const nextAllowed = computeNextAllowedDate(periodicity, lastDate);
     setPeriodicityRestriction({
       lastSubmissionAt: lastDate.toISOString(),
       nextAllowedAt: nextAllowed.toISOString(),
       intervalLabel: formatPeriodicityInterval(periodicity),
     });
-  }, [currentTemplate, previousResponseMeta]);
+  }, [currentTemplate, previousResponseMeta, meterHistory, workingCalendar, km, horimetro]);
 
   /* ============================
      Helpers
@@ -752,11 +1014,32 @@ export default function ChecklistByTagPage() {
   const handleKmChange = (value: string) => {
     kmEditedRef.current = true;
     setKm(value);
+    setConfirmedMeterJumps((prev) => ({ ...prev, km: false }));
   };
 
   const handleHorimetroChange = (value: string) => {
     horimetroEditedRef.current = true;
     setHorimetro(value);
+    setConfirmedMeterJumps((prev) => ({ ...prev, horimetro: false }));
+  };
+
+  const updateMeterReplacement = (
+    kind: ChecklistMeterKind,
+    changes: Partial<MeterReplacementDraft>,
+  ) => {
+    setMeterReplacements((prev) => {
+      const current = prev[kind];
+      const next = { ...current, ...changes };
+      // Sugere a última leitura registrada como leitura final do medidor antigo.
+      if (changes.replaced && !current.oldFinalValue) {
+        const previousValue = meterValidations[kind]?.previous?.value
+          ?? meterHistory?.entries[kind][0]?.value;
+        if (typeof previousValue === "number") {
+          next.oldFinalValue = String(previousValue);
+        }
+      }
+      return { ...prev, [kind]: next };
+    });
   };
 
   const addPhotos = (questionId: string, fileList: FileList | null) => {
@@ -843,12 +1126,23 @@ export default function ChecklistByTagPage() {
   ============================ */
   const handleSubmit = async () => {
     if (!machine || !currentTemplate) return;
+    if (availabilityGate?.level === "block") {
+      showNotification(availabilityGate.message, "error");
+      return;
+    }
 
     setIsSubmitting(true);
     try {
       const { userId, nome: nomeResolved } = await validateUser();
 
-      if (periodicityRestriction) {
+      if (periodicityRestriction?.usage) {
+        if (periodicityRestriction.usage.remaining > 0) {
+          showNotification(
+            `Este checklist possui periodicidade recomendada de ${periodicityRestriction.intervalLabel}. ${formatUsageDue(periodicityRestriction.usage)} O envio antecipado será registrado normalmente.`,
+            "info",
+          );
+        }
+      } else if (periodicityRestriction?.nextAllowedAt) {
         const nextAllowedDate = new Date(periodicityRestriction.nextAllowedAt);
         if (!Number.isNaN(nextAllowedDate.getTime()) && nextAllowedDate.getTime() > Date.now()) {
           const lastSubmissionLabel = periodicityRestriction.lastSubmissionAt
@@ -913,7 +1207,9 @@ export default function ChecklistByTagPage() {
         return;
       }
 
-      const uploadedAnswers: ChecklistAnswer[] = [];
+      const outboxId = doc(responsesCol).id;
+      const queuedAnswers: ChecklistAnswer[] = [];
+      const queuedPhotos: OutboxPhoto[] = [];
       const uploadBatchId = `${Date.now()}`;
       for (const question of currentTemplate.questions) {
         const base = answers[question.id];
@@ -945,32 +1241,17 @@ export default function ChecklistByTagPage() {
           }
         }
 
-        const draftPhotos = base.photos ?? [];
-        if (draftPhotos.length) {
-          const photoUrls: string[] = [];
-          for (const draft of draftPhotos) {
-            try {
-              const extension = resolveBlobExtension(draft.file, "jpg");
-              const filename = buildUploadFilename(
-                [machine.id, currentTemplate.id, uploadBatchId, question.id, draft.id],
-                extension,
-              );
-              const url = await uploadImageToR2(draft.file, filename);
-              photoUrls.push(url);
-            } catch (error) {
-              console.error("Erro ao enviar foto do checklist", error);
-              showNotification(
-                "Não foi possível fazer upload de uma das fotos. Verifique sua conexão e tente novamente.",
-                "error",
-              );
-              const uploadError = new Error("PHOTO_UPLOAD_ERROR");
-              uploadError.name = "PhotoUploadError";
-              throw uploadError;
-            }
-          }
-          if (photoUrls.length) {
-            answer.photoUrls = photoUrls;
-          }
+        for (const draft of base.photos ?? []) {
+          const extension = resolveBlobExtension(draft.file, "jpg");
+          queuedPhotos.push({
+            id: draft.id,
+            questionId: question.id,
+            blob: draft.file,
+            filename: buildUploadFilename(
+              [machine.id, currentTemplate.id, uploadBatchId, question.id, draft.id],
+              extension,
+            ),
+          });
         }
 
         if (previousResponseMeta && previousNcMap[question.id]) {
@@ -984,7 +1265,7 @@ export default function ChecklistByTagPage() {
           }
         }
 
-        uploadedAnswers.push(answer);
+        queuedAnswers.push(answer);
       }
 
       if (actorConfig.requireOperatorSignature && !operatorSignatureDataUrl) {
@@ -1024,6 +1305,53 @@ export default function ChecklistByTagPage() {
           : null;
       const readingNumber = kmNumber ?? horimetroNumber;
 
+      const readingNumbers: Record<ChecklistMeterKind, number | null> = {
+        km: kmNumber,
+        horimetro: horimetroNumber,
+      };
+      const replacementsToRecord: ChecklistMeterReplacement[] = [];
+      const readingFlags: ChecklistReadingFlag[] = [];
+      for (const kind of METER_KINDS) {
+        const value = readingNumbers[kind];
+        if (value === null) continue;
+        const label = METER_LABEL[kind];
+        const validation = meterValidations[kind];
+        const decrease = validation?.issues.find((issue) => issue.code === "decrease");
+        if (decrease) {
+          showNotification(decrease.message, "warning");
+          return;
+        }
+        const jump = validation?.issues.find((issue) => issue.code === "implausible_jump");
+        if (jump && validation?.previous && validation.maxExpectedDelta !== null) {
+          if (!confirmedMeterJumps[kind]) {
+            showNotification(`${jump.message} Confirme a leitura de ${label} para continuar.`, "warning");
+            return;
+          }
+          readingFlags.push({
+            kind,
+            code: "implausible_jump",
+            value,
+            previousValue: validation.previous.value,
+            maxExpectedDelta: validation.maxExpectedDelta,
+          });
+        }
+        const replacement = meterReplacements[kind];
+        if (replacement.replaced) {
+          const oldFinalValue = parseMeterInput(replacement.oldFinalValue);
+          const newInitialValue = parseMeterInput(replacement.newInitialValue) ?? 0;
+          if (oldFinalValue === null) {
+            showNotification(
+              `Informe a leitura final do ${METER_DEVICE_LABEL[kind]} substituído.`,
+              "warning",
+            );
+            return;
+          }
+          replacementsToRecord.push(
+            buildMeterReplacement({ kind, oldFinalValue, newInitialValue }),
+          );
+        }
+      }
+
       const previousReading =
         previousReadingRef.current ?? (await getPreviousReading(db, machine.id));
       previousReadingRef.current = previousReading;
@@ -1048,52 +1376,21 @@ export default function ChecklistByTagPage() {
         driverNome: showDriverFields ? driverNomeValue : undefined,
       });
 
-      const uploadSignature = async (
-        dataUrl: string,
-        role: "operator" | "driver",
-      ) => {
-        const blob = dataUrlToBlob(dataUrl);
-        const extension = resolveBlobExtension(blob, "png");
-        const filename = buildUploadFilename(
-          [machine.id, currentTemplate.id, uploadBatchId, "signatures", role],
-          extension,
-        );
-        return uploadImageToR2(blob, filename);
-      };
-
-      let operatorSignatureUrl: string | null = null;
-      if (operatorSignatureDataUrl) {
-        try {
-          operatorSignatureUrl = await uploadSignature(operatorSignatureDataUrl, "operator");
-        } catch (error) {
-          console.error("Erro ao enviar assinatura do operador", error);
-          showNotification(
-            "Não foi possível salvar a assinatura. Tente novamente.",
-            "error",
-          );
-          const uploadError = new Error("SIGNATURE_UPLOAD_ERROR");
-          uploadError.name = "SignatureUploadError";
-          throw uploadError;
-        }
-      }
-
-      let driverSignatureUrl: string | null = null;
-      if (driverSignatureDataUrl) {
-        try {
-          driverSignatureUrl = await uploadSignature(driverSignatureDataUrl, "driver");
-        } catch (error) {
-          console.error(
-            `Erro ao enviar assinatura do ${secondaryActorLabel.toLowerCase()}`,
-            error,
-          );
-          showNotification(
-            `Não foi possível salvar a assinatura do ${secondaryActorLabel.toLowerCase()}. Tente novamente.`,
-            "error",
-          );
-          const uploadError = new Error("SIGNATURE_UPLOAD_ERROR");
-          uploadError.name = "SignatureUploadError";
-          throw uploadError;
-        }
+      const queuedSignatures: OutboxSignature[] = [];
+      const signatureSources: Array<[OutboxSignature["role"], string | null]> = [
+        ["operator", operatorSignatureDataUrl],
+        ["driver", driverSignatureDataUrl],
+      ];
+      for (const [role, dataUrl] of signatureSources) {
+        if (!dataUrl) continue;
+        queuedSignatures.push({
+          role,
+          dataUrl,
+          filename: buildUploadFilename(
+            [machine.id, currentTemplate.id, uploadBatchId, "signatures", role],
+            "png",
+          ),
+        });
       }
 
       const headerFrozen = {
@@ -1110,22 +1407,17 @@ export default function ChecklistByTagPage() {
         dataInspecao: inspectionDateLabel,
       } satisfies NonNullable<ChecklistResponse["headerFrozen"]>;
 
-      const payload: ChecklistResponsePayload = {
+      const payload: OutboxResponsePayload = {
         machineId: machine.id,
         userId,
         operatorMatricula: matriculaValue,
         operatorNome: nomeValue || null,
         templateId: currentTemplate.id,
         createdAt: new Date().toISOString(),
-        createdAtTs: serverTimestamp(),
-        answers: uploadedAnswers,
+        answers: queuedAnswers,
         previousKm: previousReadingValue,
         headerFrozen,
         actor: actorSnapshot,
-        signatures: {
-          operatorUrl: operatorSignatureUrl,
-          driverUrl: driverSignatureUrl,
-        },
       };
 
       if (kmNumber != null) {
@@ -1135,6 +1427,15 @@ export default function ChecklistByTagPage() {
         payload.horimetro = horimetroNumber;
       }
 
+      // Sem histórico (offline e sem cache) os deslocamentos vigentes são
+      // desconhecidos: grava só as trocas e deixa o histórico derivá-los.
+      const meterOffsets = meterHistory
+        ? resolveMeterOffsets(meterHistory.offsets, replacementsToRecord)
+        : {};
+      if (Object.keys(meterOffsets).length) payload.meterOffsets = meterOffsets;
+      if (replacementsToRecord.length) payload.meterReplacements = replacementsToRecord;
+      if (readingFlags.length) payload.readingFlags = readingFlags;
+
       // Anexa NCs extras (se houver título preenchido)
       const extras = extraNcs
         .map((extra) => {
@@ -1154,25 +1455,54 @@ export default function ChecklistByTagPage() {
 
       if (extras.length) payload.extraNonConformities = extras;
 
-      await addDoc(responsesCol, payload);
+      await enqueueChecklist({
+        id: outboxId,
+        label: `${machine.tag} – ${currentTemplate.title}`,
+        response: payload,
+        photos: queuedPhotos,
+        signatures: queuedSignatures,
+      });
+      if (meterHistory) {
+        const nextHistory = appendMeterReading(meterHistory, {
+          responseId: outboxId,
+          at: payload.createdAt,
+          values: { km: payload.km, horimetro: payload.horimetro },
+          offsets: meterOffsets,
+        });
+        setMeterHistory(nextHistory);
+        void cacheMeterHistory(machine.id, nextHistory);
+      }
+      if (draftKey) {
+        await clearDraft(draftKey).catch((error) => {
+          console.warn("Falha ao remover rascunho após envio", error);
+        });
+      }
 
-      showNotification("Checklist enviado com sucesso!", "success");
+      const syncResult = await syncNow();
       clearAllPreviewUrls();
       setOperatorSignatureDataUrl(null);
       setDriverSignatureDataUrl(null);
       setDriverMatricula("");
       setDriverNome("");
-      router.push("/login");
+
+      if (syncResult.synced.includes(outboxId)) {
+        showNotification("Checklist enviado com sucesso!", "success");
+        router.push("/login");
+        return;
+      }
+
+      await refreshOutbox();
+      setAnswers({});
+      setExtraNcs([]);
+      setRecurrenceDecisions({});
+      setSignatureResetKey((prev) => prev + 1);
+      showNotification(
+        "Checklist salvo no dispositivo. Ele será sincronizado automaticamente quando houver conexão.",
+        "info",
+      );
     } catch (error) {
       console.error(error);
-      if (
-        !(
-          error instanceof Error &&
-          (error.name === "PhotoUploadError" || error.name === "SignatureUploadError")
-        )
-      ) {
-        showNotification("Erro ao enviar checklist. Tente novamente.", "error");
-      }
+      showNotification("Erro ao salvar checklist. Tente novamente.", "error");
     } finally {
       setIsSubmitting(false);
     }
@@ -1217,8 +1547,9 @@ export default function ChecklistByTagPage() {
   const periodicityLastDate = periodicityRestriction?.lastSubmissionAt
     ? new Date(periodicityRestriction.lastSubmissionAt)
     : null;
-  const periodicityAlertActive =
-    periodicityNextAllowedDate && !Number.isNaN(periodicityNextAllowedDate.getTime())
+  const periodicityAlertActive = periodicityRestriction?.usage
+    ? periodicityRestriction.usage.remaining > 0
+    : periodicityNextAllowedDate && !Number.isNaN(periodicityNextAllowedDate.getTime())
       ? periodicityNextAllowedDate.getTime() > Date.now()
       : false;
   const periodicityLastLabel =
@@ -1231,7 +1562,90 @@ export default function ChecklistByTagPage() {
       : null;
 
   const submitDisabled =
-    !currentTemplate || userLookup.state !== "found" || !userHasAccess || isSubmitting;
+    !currentTemplate ||
+    userLookup.state !== "found" ||
+    !userHasAccess ||
+    isSubmitting ||
+    availabilityGate?.level === "block";
+
+  const renderMeterChecks = (kind: ChecklistMeterKind) => {
+    const validation = meterValidations[kind];
+    const replacement = meterReplacements[kind];
+    const label = METER_DEVICE_LABEL[kind];
+    const hasJump = validation?.issues.some((issue) => issue.code === "implausible_jump");
+    return (
+      <div className="space-y-2 pt-1">
+        {meterHistorySource === "unavailable" && (
+          <p className="text-xs text-amber-700">
+            Validação pendente: sem conexão para consultar as leituras anteriores da máquina.
+          </p>
+        )}
+        {meterHistorySource === "cached" && (
+          <p className="text-xs text-amber-700">
+            Sem conexão: leitura validada com o último histórico salvo neste dispositivo.
+          </p>
+        )}
+        {validation?.issues.map((issue) => (
+          <p
+            key={issue.code}
+            className={`text-xs ${
+              issue.severity === "error" ? "text-[var(--danger)]" : "text-amber-700"
+            }`}
+          >
+            {issue.message}
+          </p>
+        ))}
+        {hasJump && (
+          <label className="inline-flex items-center gap-2 text-xs text-[var(--text)]">
+            <input
+              type="checkbox"
+              checked={Boolean(confirmedMeterJumps[kind])}
+              onChange={(event) =>
+                setConfirmedMeterJumps((prev) => ({ ...prev, [kind]: event.target.checked }))
+              }
+              className="accent-amber-600"
+            />
+            <span>Confirmo que a leitura está correta</span>
+          </label>
+        )}
+        <label className="flex items-center gap-2 text-xs text-[var(--hint)]">
+          <input
+            type="checkbox"
+            checked={replacement.replaced}
+            onChange={(event) => updateMeterReplacement(kind, { replaced: event.target.checked })}
+            className="accent-[var(--primary)]"
+          />
+          <span>Houve troca do {label}</span>
+        </label>
+        {replacement.replaced && (
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <label className="text-xs text-[var(--hint)]">Leitura final do {label} antigo</label>
+              <input
+                type="number"
+                value={replacement.oldFinalValue}
+                onChange={(event) =>
+                  updateMeterReplacement(kind, { oldFinalValue: event.target.value })
+                }
+                className="w-full rounded-md border border-[var(--border)] bg-[var(--bg)] px-2 py-1 text-sm text-[var(--text)] focus:ring-2 focus:ring-[var(--primary)]"
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="text-xs text-[var(--hint)]">Leitura inicial do {label} novo</label>
+              <input
+                type="number"
+                value={replacement.newInitialValue}
+                onChange={(event) =>
+                  updateMeterReplacement(kind, { newInitialValue: event.target.value })
+                }
+                className="w-full rounded-md border border-[var(--border)] bg-[var(--bg)] px-2 py-1 text-sm text-[var(--text)] focus:ring-2 focus:ring-[var(--primary)]"
+              />
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
 
   const handleTemplateSelect = (templateId: string) => {
     setSelectedTemplateId(templateId);
@@ -1435,15 +1849,110 @@ export default function ChecklistByTagPage() {
           </p>
         </header>
 
+        {(offlineCachedAt || !isOnline) && (
+          <section className="rounded-xl border border-[var(--border)] bg-[var(--surface)] p-4 space-y-1 text-sm text-[var(--text)]">
+            <p className="font-semibold">Modo offline</p>
+            <p className="text-[var(--hint)]">
+              {offlineCachedAt
+                ? `Dados da máquina carregados do dispositivo (atualizados em ${formatDateTimePtBr(new Date(offlineCachedAt))}).`
+                : "Sem conexão no momento."}
+              {" O checklist pode ser preenchido normalmente e será enviado quando a conexão voltar."}
+            </p>
+          </section>
+        )}
+
+        {draftPrompt && (
+          <section className="rounded-xl border border-[var(--primary)]/40 bg-[var(--primary-50)] p-4 space-y-2 text-sm text-[var(--text)]">
+            <p className="font-semibold">Continuar de onde parou?</p>
+            <p className="text-[var(--hint)]">
+              Existe um rascunho deste checklist salvo em{" "}
+              {formatDateTimePtBr(new Date(draftPrompt.savedAt))}, com respostas, fotos e
+              assinaturas preenchidas anteriormente.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <button
+                type="button"
+                onClick={() => restoreDraft(draftPrompt)}
+                className="rounded-md bg-[var(--primary)] px-3 py-1.5 text-sm font-semibold text-white hover:bg-[var(--primary-700)]"
+              >
+                Continuar rascunho
+              </button>
+              <button
+                type="button"
+                onClick={() => discardDraft(draftPrompt)}
+                className="rounded-md border border-[var(--border)] bg-white px-3 py-1.5 text-sm font-semibold text-[var(--text)] hover:bg-[var(--surface)]"
+              >
+                Descartar e começar novo
+              </button>
+            </div>
+          </section>
+        )}
+
+        {pendingCount > 0 && (
+          <section className="rounded-xl border border-amber-300 bg-amber-50 p-4 space-y-2 text-sm text-amber-800">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <p className="font-semibold">
+                {pendingCount === 1
+                  ? "1 checklist pendente de sincronização"
+                  : `${pendingCount} checklists pendentes de sincronização`}
+              </p>
+              <button
+                type="button"
+                onClick={() => void syncNow()}
+                disabled={outboxSyncing || !isOnline}
+                className="rounded-md border border-amber-400 bg-white px-3 py-1 text-xs font-semibold text-amber-800 hover:bg-amber-100 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                {outboxSyncing ? "Sincronizando…" : "Sincronizar agora"}
+              </button>
+            </div>
+            <ul className="space-y-1 text-xs">
+              {outboxEntries.map((entry) => (
+                <li key={entry.id}>
+                  {entry.label} – salvo em {formatDateTimePtBr(new Date(entry.queuedAt))}
+                  {entry.status === "failed" && entry.lastError
+                    ? ` (última tentativa falhou: ${entry.lastError})`
+                    : ""}
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        {availabilityGate && (
+          <section
+            className={`rounded-xl border p-4 space-y-1 text-[var(--text)] ${
+              availabilityGate.level === "block"
+                ? "border-[var(--danger)]/30 bg-[var(--danger)]/10"
+                : "border-[var(--warning)]/30 bg-[var(--warning)]/10"
+            }`}
+          >
+            <p
+              className={`font-semibold ${
+                availabilityGate.level === "block" ? "text-[var(--danger)]" : "text-[var(--warning)]"
+              }`}
+            >
+              {MACHINE_STATUS_LABEL[resolveMachineStatus(machine?.status)]}
+            </p>
+            <p className="text-sm">
+              {availabilityGate.message}
+              {machine?.statusReason ? ` Motivo: ${machine.statusReason}.` : ""}
+            </p>
+          </section>
+        )}
+
         {periodicityRestriction && periodicityAlertActive && (
           <section className="rounded-xl border border-[var(--warning)]/30 bg-[var(--warning)]/10 p-4 space-y-1 text-[var(--text)]">
             <p className="font-semibold text-[var(--warning)]">Checklist realizado recentemente</p>
             <p className="text-sm">
               Periodicidade recomendada: {periodicityRestriction.intervalLabel}.
               {periodicityLastLabel ? ` Último envio em ${periodicityLastLabel}.` : ""}
-              {periodicityNextAllowedLabel
-                ? ` Próximo envio sugerido a partir de ${periodicityNextAllowedLabel}.`
-                : ""}
+              {periodicityRestriction.usage
+                ? ` ${formatUsageDue(periodicityRestriction.usage)}${
+                    periodicityNextAllowedLabel ? ` Previsão pelo uso médio: ${periodicityNextAllowedLabel}.` : ""
+                  }`
+                : periodicityNextAllowedLabel
+                  ? ` Próximo envio sugerido a partir de ${periodicityNextAllowedLabel}.`
+                  : ""}
               {" O envio antecipado será computado normalmente."}
             </p>
           </section>
@@ -1545,6 +2054,7 @@ export default function ChecklistByTagPage() {
                   Última leitura da máquina: {formatNumericPtBr(previousMachineReading)}
                 </p>
               )}
+              {renderMeterChecks("km")}
             </div>
             <div className="space-y-1">
               <label className="text-sm text-[var(--hint)]">Horímetro</label>
@@ -1559,6 +2069,7 @@ export default function ChecklistByTagPage() {
                   Último horímetro registrado: {formatNumericPtBr(previousResponseMeta.horimetro)}
                 </p>
               )}
+              {renderMeterChecks("horimetro")}
             </div>
           </div>
         </section>
@@ -2007,6 +2518,8 @@ export default function ChecklistByTagPage() {
           <h2 className="font-semibold">Assinaturas</h2>
           <div className="space-y-3">
             <SignaturePad
+              key={`operator-${signatureResetKey}`}
+              initialValue={operatorSignatureDataUrl}
               label={`Assinatura do ${primaryActorLabel.toLowerCase()}`}
               description={`Confirmar o checklist como ${primaryActorLabel.toLowerCase()}.`}
               required={actorConfig.requireOperatorSignature}
@@ -2015,6 +2528,8 @@ export default function ChecklistByTagPage() {
           </div>
           {(showDriverFields || actorConfig.kind === "mecanico" || actorConfig.requireMotoristSignature) && (
             <SignaturePad
+              key={`driver-${signatureResetKey}`}
+              initialValue={driverSignatureDataUrl}
               label={`Assinatura do ${secondaryActorLabel.toLowerCase()}`}
               description={
                 actorConfig.kind === "mecanico"
@@ -19,7 +19,14 @@ const NAV: NavItem[] = [
   { href: "/admin/responses", label: "Checklists", badge: "Histórico" },
   { href: "/admin/variables", label: "Variáveis Respondidas", badge: "Dados" },
   { href: "/admin/non-conformities", label: "Não conformidades", badge: "NCs" },
+  { href: "/admin/work-orders", label: "Ordens de serviço", badge: "Oficina" },
+  { href: "/admin/parts", label: "Peças", badge: "Estoque" },
+  { href: "/admin/sla", label: "SLA", badge: "Prazos" },
+  { href: "/admin/recurrence", label: "Recorrência", badge: "NCs" },
+  { href: "/admin/notifications", label: "Notificações", badge: "E-mail" },
+  { href: "/admin/fault-codes", label: "Códigos de falha", badge: "Telemetria" },
   { href: "/admin/users", label: "Usuários" },
+  { href: "/admin/calendars", label: "Calendários", badge: "Turnos" },
 ];
 
 export default function AdminSidebar() {
@@ -0,0 +1,123 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { FleetAvailability, MachineAvailability } from "@/lib/kpis/availability";
+import { MACHINE_STATUS_LABEL, type MachineStatus } from "@/types/machine";
+
+type AvailabilityResponse = {
+  from: string;
+  to: string;
+  fleet: FleetAvailability;
+  machines: Array<
+    MachineAvailability & { machineName: string; tag?: string; setor?: string; status: MachineStatus }
+  >;
+};
+
+const RANGE_OPTIONS = [7, 30, 90] as const;
+
+const formatPercent = (value: number | null) =>
+  value === null ? "-" : `${value.toLocaleString("pt-BR", { maximumFractionDigits: 1 })}%`;
+
+const formatHours = (value: number) => `${value.toLocaleString("pt-BR", { maximumFractionDigits: 1 })} h`;
+
+export default function MachineAvailabilitySection() {
+  const [rangeDays, setRangeDays] = useState<(typeof RANGE_OPTIONS)[number]>(30);
+  const [data, setData] = useState<AvailabilityResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      setError(null);
+      try {
+        const from = new Date(Date.now() - rangeDays * 24 * 60 * 60 * 1000).toISOString();
+        const response = await fetch(`/api/kpi/availability?from=${encodeURIComponent(from)}`, {
+          cache: "no-store",
+        });
+        const payload = await response.json().catch(() => null);
+        if (!response.ok) {
+          throw new Error(typeof payload?.error === "string" ? payload.error : "Falha ao carregar disponibilidade.");
+        }
+        if (!cancelled) setData(payload as AvailabilityResponse);
+      } catch (err) {
+        console.error("Failed to load availability", err);
+        if (!cancelled) setError((err as Error).message ?? "Falha ao carregar disponibilidade.");
+      }
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [rangeDays]);
+
+  return (
+    <section className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h2 className="text-lg font-semibold">Disponibilidade</h2>
+        <select
+          value={rangeDays}
+          onChange={(event) => setRangeDays(Number(event.target.value) as (typeof RANGE_OPTIONS)[number])}
+          className="rounded-md border border-[var(--border)] bg-white px-2 py-1 text-sm"
+        >
+          {RANGE_OPTIONS.map((days) => (
+            <option key={days} value={days}>
+              Últimos {days} dias
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div>
+      )}
+
+      {data && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+            <Stat label="Disponibilidade da frota" value={formatPercent(data.fleet.availability)} />
+            <Stat label="Horas paradas" value={formatHours(data.fleet.downHours)} />
+            <Stat label="Paradas no período" value={data.fleet.downtimeEvents} />
+            <Stat label="Paradas agora" value={data.fleet.downNow} />
+          </div>
+
+          <div className="overflow-x-auto rounded-2xl border border-[var(--border)] bg-[var(--surface)]">
+            <table className="w-full text-sm">
+              <thead className="text-xs uppercase tracking-wide text-[var(--hint)]">
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium">Máquina</th>
+                  <th className="px-4 py-2 text-left font-medium">Status</th>
+                  <th className="px-4 py-2 text-right font-medium">Disponibilidade</th>
+                  <th className="px-4 py-2 text-right font-medium">Parada</th>
+                  <th className="px-4 py-2 text-right font-medium">Restrita</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.machines.map((machine) => (
+                  <tr key={machine.machineId} className="border-t border-[var(--border)]">
+                    <td className="px-4 py-2">
+                      {machine.machineName}
+                      {machine.tag ? <span className="ml-1 text-xs text-[var(--hint)]">({machine.tag})</span> : null}
+                    </td>
+                    <td className="px-4 py-2 text-[var(--muted)]">{MACHINE_STATUS_LABEL[machine.status]}</td>
+                    <td className="px-4 py-2 text-right">{formatPercent(machine.availability)}</td>
+                    <td className="px-4 py-2 text-right">{formatHours(machine.downHours)}</td>
+                    <td className="px-4 py-2 text-right">{formatHours(machine.restrictedHours)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: string | number }) {
+  return (
+    <div className="rounded-xl border border-[var(--border)] bg-white p-3">
+      <p className="text-xs text-[var(--muted)]">{label}</p>
+      <p className="text-xl font-semibold">{value}</p>
+    </div>
+  );
+}
@@ -19,6 +19,8 @@ export default function MachineForm({ initial, onSubmit, onCancel }: Props) {
   const [placa, setPlaca] = useState(initial?.placa ?? "");
   const [setor, setSetor] = useState(initial?.setor ?? "");
   const [combustivel, setCombustivel] = useState(initial?.combustivel ?? "");
+  const [serialNumber, setSerialNumber] = useState(initial?.serialNumber ?? "");
+  const [pin, setPin] = useState(initial?.pin ?? "");
   const [tag, setTag] = useState(initial?.tag ?? "");
   const [fleetType, setFleetType] = useState<MachineFleetType>(
     resolveMachineFleetType(initial?.fleetType),
@@ -39,6 +41,8 @@ export default function MachineForm({ initial, onSubmit, onCancel }: Props) {
       placa: placa || undefined,
       setor,
       combustivel: combustivel || undefined,
+      serialNumber: serialNumber.trim() || undefined,
+      pin: pin.trim() || undefined,
       tag,
       checklists: initial?.checklists ?? [],
       fleetType,
@@ -86,6 +90,25 @@ export default function MachineForm({ initial, onSubmit, onCancel }: Props) {
         />
       </div>
 
+      <div className="grid grid-cols-1 gap-3">
+        <label className="text-sm">Número de série (opcional)</label>
+        <input
+          className="rounded-md bg-gray-800 border border-gray-700 px-3 py-2"
+          value={serialNumber}
+          onChange={(e) => setSerialNumber(e.target.value)}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 gap-3">
+        <label className="text-sm">PIN (opcional)</label>
+        <input
+          className="rounded-md bg-gray-800 border border-gray-700 px-3 py-2"
+          value={pin}
+          onChange={(e) => setPin(e.target.value)}
+        />
+        <p className="text-xs text-gray-400">Usados para vincular a telemetria ISO 15143-3 (AEMP 2.0).</p>
+      </div>
+
       <div className="grid grid-cols-1 gap-3">
         <label className="text-sm">TAG (UUID do QR)</label>
         <input
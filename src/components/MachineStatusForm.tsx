@@ -0,0 +1,116 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  MACHINE_STATUS_LABEL,
+  type Machine,
+  type MachineStatus,
+  type MachineStatusPeriod,
+  resolveMachineStatus,
+} from "@/types/machine";
+
+type Props = {
+  machine: Machine;
+  onSubmit: (status: MachineStatus, reason: string) => Promise<void>;
+  onCancel?: () => void;
+};
+
+const inputClass =
+  "rounded-md border border-[var(--border)] bg-[var(--surface)] px-3 py-2 text-sm text-[var(--text)] focus:outline-none focus:ring-2 focus:ring-[var(--primary)]";
+
+const formatDate = (value?: string | null) => (value ? new Date(value).toLocaleString("pt-BR") : "atual");
+
+export default function MachineStatusForm({ machine, onSubmit, onCancel }: Props) {
+  const [status, setStatus] = useState<MachineStatus>(resolveMachineStatus(machine.status));
+  const [reason, setReason] = useState("");
+  const [history, setHistory] = useState<MachineStatusPeriod[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    fetch(`/api/machines/${machine.id}/status`, { cache: "no-store" })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((payload) => setHistory((payload?.history ?? []) as MachineStatusPeriod[]))
+      .catch((error) => console.error("Failed to load machine status history", error));
+  }, [machine.id]);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setLoading(true);
+    try {
+      await onSubmit(status, reason.trim());
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid gap-3 sm:grid-cols-[220px_minmax(0,1fr)]">
+        <label className="grid gap-1 text-sm font-medium text-[var(--text)]">
+          Status
+          <select
+            className={inputClass}
+            value={status}
+            onChange={(event) => setStatus(event.target.value as MachineStatus)}
+          >
+            {(Object.keys(MACHINE_STATUS_LABEL) as MachineStatus[]).map((value) => (
+              <option key={value} value={value}>
+                {MACHINE_STATUS_LABEL[value]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="grid gap-1 text-sm font-medium text-[var(--text)]">
+          Motivo
+          <input
+            className={inputClass}
+            value={reason}
+            onChange={(event) => setReason(event.target.value)}
+            placeholder="Ex.: troca de pneus, aguardando peça"
+          />
+        </label>
+      </div>
+
+      {machine.downtimeNcIds && machine.downtimeNcIds.length > 0 && (
+        <p className="text-xs text-[var(--danger)]">
+          {machine.downtimeNcIds.length} NC(s) de segurança em aberto mantêm esta máquina parada.
+        </p>
+      )}
+
+      {history.length > 0 && (
+        <div className="space-y-1">
+          <span className="text-sm font-medium text-[var(--text)]">Histórico</span>
+          <ul className="space-y-1 text-xs text-[var(--muted)]">
+            {history.map((period) => (
+              <li key={period.id}>
+                {MACHINE_STATUS_LABEL[resolveMachineStatus(period.status)]}: {formatDate(period.start)} –{" "}
+                {formatDate(period.end)}
+                {period.reason ? ` · ${period.reason}` : ""}
+                {period.source === "nc" ? " (automático)" : ""}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          type="submit"
+          disabled={loading}
+          className="rounded-md bg-[var(--primary)] px-4 py-2 text-sm font-semibold text-white shadow-sm-soft transition hover:bg-[var(--primary-700)] disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          {loading ? "Salvando..." : "Salvar status"}
+        </button>
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="rounded-md border border-[var(--border)] bg-[var(--surface)] px-4 py-2 text-sm font-semibold text-[var(--text)] transition hover:bg-[var(--primary-50)]"
+          >
+            Cancelar
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
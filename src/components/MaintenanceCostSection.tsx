@@ -0,0 +1,180 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Bar, BarChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import type { CostMetrics, CostReport } from "@/lib/kpis/costs";
+
+type CostResponse = CostReport & { from: string; to: string };
+
+type Grouping = "machine" | "model" | "setor" | "system";
+
+const GROUPING_LABEL: Record<Grouping, string> = {
+  machine: "Máquina",
+  model: "Modelo",
+  setor: "Setor",
+  system: "Sistema",
+};
+
+const RANGE_OPTIONS = [
+  { value: "year", label: "Ano atual" },
+  { value: "90", label: "Últimos 90 dias" },
+  { value: "365", label: "Últimos 12 meses" },
+] as const;
+
+const formatCurrency = (value: number | null) =>
+  value === null ? "-" : value.toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+
+function rowsFor(data: CostResponse, grouping: Grouping): Array<CostMetrics & { label: string }> {
+  if (grouping === "model") return data.byModel.map((item) => ({ ...item, label: item.modelo }));
+  if (grouping === "setor") return data.bySetor.map((item) => ({ ...item, label: item.setor }));
+  if (grouping === "system") return data.bySystem.map((item) => ({ ...item, label: item.system }));
+  return data.byMachine.filter((item) => item.total > 0).map((item) => ({ ...item, label: item.tag }));
+}
+
+export default function MaintenanceCostSection() {
+  const [range, setRange] = useState<(typeof RANGE_OPTIONS)[number]["value"]>("year");
+  const [grouping, setGrouping] = useState<Grouping>("machine");
+  const [data, setData] = useState<CostResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      setError(null);
+      try {
+        const params =
+          range === "year"
+            ? ""
+            : `?from=${encodeURIComponent(new Date(Date.now() - Number(range) * 24 * 60 * 60 * 1000).toISOString())}`;
+        const response = await fetch(`/api/kpi/costs${params}`, { cache: "no-store" });
+        const payload = await response.json().catch(() => null);
+        if (!response.ok) {
+          throw new Error(typeof payload?.error === "string" ? payload.error : "Falha ao carregar custos.");
+        }
+        if (!cancelled) setData(payload as CostResponse);
+      } catch (err) {
+        console.error("Failed to load maintenance costs", err);
+        if (!cancelled) setError((err as Error).message ?? "Falha ao carregar custos.");
+      }
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [range]);
+
+  const rows = data ? rowsFor(data, grouping) : [];
+
+  return (
+    <section className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h2 className="text-lg font-semibold">Custos de manutenção</h2>
+        <div className="flex gap-2">
+          <select
+            value={grouping}
+            onChange={(event) => setGrouping(event.target.value as Grouping)}
+            className="rounded-md border border-[var(--border)] bg-white px-2 py-1 text-sm"
+          >
+            {(Object.keys(GROUPING_LABEL) as Grouping[]).map((key) => (
+              <option key={key} value={key}>
+                Por {GROUPING_LABEL[key].toLowerCase()}
+              </option>
+            ))}
+          </select>
+          <select
+            value={range}
+            onChange={(event) => setRange(event.target.value as (typeof RANGE_OPTIONS)[number]["value"])}
+            className="rounded-md border border-[var(--border)] bg-white px-2 py-1 text-sm"
+          >
+            {RANGE_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div>
+      )}
+
+      {data && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-3 md:grid-cols-3 lg:grid-cols-6">
+            <Stat label="Custo total" value={formatCurrency(data.fleet.total)} />
+            <Stat label="Mão de obra" value={formatCurrency(data.fleet.labor)} />
+            <Stat label="Peças" value={formatCurrency(data.fleet.parts)} />
+            <Stat label="Serviços de terceiros" value={formatCurrency(data.fleet.services)} />
+            <Stat label="Custo por hora" value={formatCurrency(data.fleet.costPerHour)} />
+            <Stat label="Custo por km" value={formatCurrency(data.fleet.costPerKm)} />
+          </div>
+
+          {data.byMonth.some((month) => month.total > 0) && (
+            <div className="h-64 rounded-2xl border border-[var(--border)] bg-[var(--surface)] p-3">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={data.byMonth}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="month" />
+                  <YAxis />
+                  <Tooltip formatter={(value) => formatCurrency(Number(value))} />
+                  <Legend />
+                  <Bar dataKey="labor" name="Mão de obra" stackId="cost" fill="#3b82f6" />
+                  <Bar dataKey="parts" name="Peças" stackId="cost" fill="#f59e0b" />
+                  <Bar dataKey="services" name="Serviços" stackId="cost" fill="#a855f7" />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+
+          <div className="overflow-x-auto rounded-2xl border border-[var(--border)] bg-[var(--surface)]">
+            <table className="w-full text-sm">
+              <thead className="text-xs uppercase tracking-wide text-[var(--hint)]">
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium">{GROUPING_LABEL[grouping]}</th>
+                  <th className="px-4 py-2 text-right font-medium">NCs</th>
+                  <th className="px-4 py-2 text-right font-medium">Total</th>
+                  <th className="px-4 py-2 text-right font-medium">Mão de obra</th>
+                  <th className="px-4 py-2 text-right font-medium">Peças</th>
+                  <th className="px-4 py-2 text-right font-medium">Serviços</th>
+                  <th className="px-4 py-2 text-right font-medium">R$/h</th>
+                  <th className="px-4 py-2 text-right font-medium">R$/km</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.length === 0 && (
+                  <tr>
+                    <td colSpan={8} className="px-4 py-4 text-center text-[var(--muted)]">
+                      Nenhum custo lançado no período.
+                    </td>
+                  </tr>
+                )}
+                {rows.map((row) => (
+                  <tr key={row.label} className="border-t border-[var(--border)]">
+                    <td className="px-4 py-2">{row.label}</td>
+                    <td className="px-4 py-2 text-right">{row.ncs}</td>
+                    <td className="px-4 py-2 text-right font-medium">{formatCurrency(row.total)}</td>
+                    <td className="px-4 py-2 text-right">{formatCurrency(row.labor)}</td>
+                    <td className="px-4 py-2 text-right">{formatCurrency(row.parts)}</td>
+                    <td className="px-4 py-2 text-right">{formatCurrency(row.services)}</td>
+                    <td className="px-4 py-2 text-right">{formatCurrency(row.costPerHour)}</td>
+                    <td className="px-4 py-2 text-right">{formatCurrency(row.costPerKm)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: string | number }) {
+  return (
+    <div className="rounded-xl border border-[var(--border)] bg-white p-3">
+      <p className="text-xs text-[var(--muted)]">{label}</p>
+      <p className="text-xl font-semibold">{value}</p>
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { auth } from "@/lib/firebase";
+import type { MissedChecklistEvent, MissedChecklistEventStatus } from "@/lib/kpis/periodicity-snapshots";
+
+const STATUS_LABEL: Record<MissedChecklistEventStatus, string> = {
+  open: "Pendente",
+  acknowledged: "Reconhecido",
+  justified: "Justificado",
+};
+
+const STATUS_CLASS: Record<MissedChecklistEventStatus, string> = {
+  open: "bg-red-100 text-red-700",
+  acknowledged: "bg-amber-100 text-amber-700",
+  justified: "bg-emerald-100 text-emerald-700",
+};
+
+const formatDate = (value?: string) => (value ? new Date(value).toLocaleString("pt-BR") : "Nunca");
+
+export default function MissedChecklistEventsSection() {
+  const [events, setEvents] = useState<MissedChecklistEvent[]>([]);
+  const [statusFilter, setStatusFilter] = useState<MissedChecklistEventStatus | "">("open");
+  const [loading, setLoading] = useState(false);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams();
+      if (statusFilter) params.set("status", statusFilter);
+      const response = await fetch(`/api/periodicity/events?${params.toString()}`, { cache: "no-store" });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(typeof payload?.error === "string" ? payload.error : "Falha ao carregar eventos.");
+      }
+      setEvents((payload?.data ?? []) as MissedChecklistEvent[]);
+    } catch (err) {
+      console.error("Failed to load missed checklist events", err);
+      setError((err as Error).message ?? "Falha ao carregar eventos.");
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const update = async (event: MissedChecklistEvent, action: "acknowledge" | "justify") => {
+    let justification: string | undefined;
+    if (action === "justify") {
+      const input = window.prompt(
+        "Justificativa (ex.: máquina parada, em manutenção):",
+        event.justification ?? "",
+      );
+      if (input === null) return;
+      justification = input.trim();
+      if (!justification) {
+        alert("Informe a justificativa.");
+        return;
+      }
+    }
+
+    const user = auth.currentUser;
+    setSavingId(event.id);
+    try {
+      const response = await fetch(`/api/periodicity/events/${event.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          action,
+          justification,
+          actor: user ? { id: user.uid, nome: user.displayName ?? user.email ?? null } : undefined,
+        }),
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(typeof payload?.error === "string" ? payload.error : "Falha ao atualizar evento.");
+      }
+      await refresh();
+    } catch (err) {
+      alert((err as Error).message);
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <section className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold">Checklists perdidos</h2>
+          <p className="text-xs text-[var(--muted)]">
+            Itens que saíram da periodicidade desde a verificação anterior do job.
+          </p>
+        </div>
+        <select
+          value={statusFilter}
+          onChange={(event) => setStatusFilter(event.target.value as MissedChecklistEventStatus | "")}
+          className="rounded-md border border-[var(--border)] bg-white px-2 py-1 text-sm"
+        >
+          <option value="open">Pendentes</option>
+          <option value="acknowledged">Reconhecidos</option>
+          <option value="justified">Justificados</option>
+          <option value="">Todos</option>
+        </select>
+      </div>
+
+      {error && (
+        <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div>
+      )}
+
+      {!error && !loading && events.length === 0 && (
+        <p className="text-sm text-[var(--muted)]">Nenhum evento encontrado.</p>
+      )}
+
+      {events.length > 0 && (
+        <div className="space-y-2">
+          {events.map((event) => (
+            <div key={event.id} className="rounded-md border border-[var(--border)] bg-white p-3 shadow-sm">
+              <div className="flex flex-col gap-2 sm:flex-row sm:items-start sm:justify-between">
+                <div className="space-y-1">
+                  <p className="text-sm font-semibold">{event.templateName}</p>
+                  <p className="text-xs text-[var(--muted)]">{event.machineName ?? event.machineId}</p>
+                  <p className="text-xs text-[var(--muted)]">
+                    Detectado em {formatDate(event.detectedAt)} · último envio {formatDate(event.lastSubmissionAt)}
+                  </p>
+                  {event.justification && (
+                    <p className="text-xs text-[var(--text)]">
+                      Justificativa: {event.justification}
+                      {event.justifiedBy?.nome ? ` (${event.justifiedBy.nome})` : ""}
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <span
+                    className={`inline-flex rounded-full px-2 py-0.5 text-[11px] font-semibold ${STATUS_CLASS[event.status]}`}
+                  >
+                    {STATUS_LABEL[event.status]}
+                  </span>
+                  {event.status === "open" && (
+                    <button
+                      type="button"
+                      disabled={savingId === event.id}
+                      onClick={() => update(event, "acknowledge")}
+                      className="rounded-md border border-[var(--border)] px-3 py-1 text-xs font-semibold transition hover:bg-[var(--surface)] disabled:opacity-60"
+                    >
+                      Ciente
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    disabled={savingId === event.id}
+                    onClick={() => update(event, "justify")}
+                    className="rounded-md bg-[var(--primary)] px-3 py-1 text-xs font-semibold text-white transition hover:bg-[var(--primary-700)] disabled:opacity-60"
+                  >
+                    {event.justification ? "Editar justificativa" : "Justificar"}
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,274 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import { authHeaders } from "@/lib/auth-headers";
+import { ncsToCsv } from "@/lib/nc-export";
+import type { NcOwner, NcStatus, NonConformity, Severity } from "@/types/nonconformity";
+
+const STATUS_LABEL: Record<NcStatus, string> = {
+  aberta: "Aberta",
+  em_execucao: "Em execução",
+  aguardando_peca: "Aguardando peça",
+  bloqueada: "Bloqueada",
+  resolvida: "Resolvida",
+};
+
+const SEVERITY_LABEL: Record<Severity, string> = { baixa: "Baixa", media: "Média", alta: "Alta" };
+
+type BulkResult = { id: string; ok: boolean; changed?: boolean; error?: string };
+
+type Draft = {
+  status: NcStatus | "";
+  reason: string;
+  partNumber: string;
+  expectedDate: string;
+  ownerId: string;
+  dueDate: string;
+  severity: Severity | "";
+};
+
+/** Valor do seletor de responsável que remove o responsável atual. */
+const CLEAR_OWNER = "__clear__";
+
+const EMPTY_DRAFT: Draft = {
+  status: "",
+  reason: "",
+  partNumber: "",
+  expectedDate: "",
+  ownerId: "",
+  dueDate: "",
+  severity: "",
+};
+
+type Props = {
+  /** NCs vinculadas aos itens visíveis na lista da página. */
+  records: NonConformity[];
+  selectedIds: string[];
+  onSelectedIdsChange: (ids: string[]) => void;
+  /** Usuários que podem ser responsáveis (cadastro em `users`). */
+  owners: NcOwner[];
+  /** Chamado depois de aplicar, para a página recarregar a lista. */
+  onApplied: () => Promise<void> | void;
+};
+
+export default function NcBulkSection({ records, selectedIds, onSelectedIdsChange, owners, onApplied }: Props) {
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [results, setResults] = useState<BulkResult[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ kind: "error" | "success"; text: string } | null>(null);
+
+  const titles = useMemo(() => new Map(records.map((record) => [record.id, record.title])), [records]);
+  const selected = useMemo(() => records.filter((record) => selectedIds.includes(record.id)), [records, selectedIds]);
+  const allSelected = records.length > 0 && selected.length === records.length;
+
+  const toggleAll = () => onSelectedIdsChange(allSelected ? [] : records.map((record) => record.id));
+
+  const buildChanges = () => {
+    const changes: Record<string, unknown> = {};
+    if (draft.status) {
+      changes.status = draft.status;
+      if (draft.reason.trim() || draft.partNumber.trim() || draft.expectedDate) {
+        changes.transition = {
+          reason: draft.reason.trim() || null,
+          partNumber: draft.partNumber.trim() || null,
+          expectedAt: draft.expectedDate ? new Date(`${draft.expectedDate}T12:00:00`).toISOString() : null,
+        };
+      }
+    }
+    if (draft.ownerId === CLEAR_OWNER) {
+      changes.owner = null;
+    } else if (draft.ownerId) {
+      const owner = owners.find((candidate) => candidate.id === draft.ownerId);
+      if (owner) changes.owner = { id: owner.id, nome: owner.nome };
+    }
+    if (draft.dueDate) changes.dueAt = new Date(`${draft.dueDate}T23:59:00`).toISOString();
+    if (draft.severity) changes.severity = draft.severity;
+    return changes;
+  };
+
+  const changes = buildChanges();
+  const canApply = selected.length > 0 && Object.keys(changes).length > 0;
+
+  const apply = async () => {
+    setSaving(true);
+    setMessage(null);
+    setResults([]);
+    try {
+      const response = await fetch("/api/nc/bulk", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...(await authHeaders()) },
+        body: JSON.stringify({ ids: selected.map((record) => record.id), changes }),
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(typeof payload?.error === "string" ? payload.error : "Falha ao aplicar as alterações.");
+      }
+      const failed = Number(payload?.failed ?? 0);
+      setResults((payload?.results ?? []) as BulkResult[]);
+      setMessage({
+        kind: failed ? "error" : "success",
+        text: `${payload?.succeeded ?? 0} NC(s) atualizada(s)${failed ? `, ${failed} com falha` : ""}.`,
+      });
+      setDraft(EMPTY_DRAFT);
+      await onApplied();
+    } catch (err) {
+      setMessage({ kind: "error", text: (err as Error).message });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const exportCsv = () => {
+    const blob = new Blob(["\uFEFF" + ncsToCsv(selected.length ? selected : records)], {
+      type: "text/csv;charset=utf-8",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `ncs-${new Date().toISOString().slice(0, 10)}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const failures = results.filter((result) => !result.ok);
+
+  return (
+    <section className="space-y-3 rounded-xl border border-gray-200 bg-white p-4 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold">Ações em lote</h2>
+          <p className="text-xs text-gray-500">
+            Marque as NCs na lista abaixo e aplique status, responsável, prazo ou severidade de uma vez. Cada NC segue
+            as regras do fluxo e ganha sua própria auditoria.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <label className="flex items-center gap-1 text-sm text-gray-600">
+            <input type="checkbox" checked={allSelected} disabled={!records.length} onChange={toggleAll} />
+            Selecionar todas da lista
+          </label>
+          <button
+            type="button"
+            disabled={!records.length}
+            onClick={exportCsv}
+            className="rounded-md border border-gray-300 px-3 py-1.5 text-sm font-medium text-gray-700 transition hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {selected.length ? "Exportar selecionadas (CSV)" : "Exportar lista (CSV)"}
+          </button>
+        </div>
+      </div>
+
+      <div className="grid gap-3 rounded-lg border border-gray-100 bg-gray-50 p-3 text-sm md:grid-cols-4">
+        <label className="space-y-1">
+          <span className="text-xs font-medium text-gray-600">Status</span>
+          <select
+            value={draft.status}
+            onChange={(event) => setDraft((prev) => ({ ...prev, status: event.target.value as Draft["status"] }))}
+            className="w-full rounded-md border border-gray-300 px-2 py-1.5"
+          >
+            <option value="">Manter</option>
+            {(Object.keys(STATUS_LABEL) as NcStatus[]).map((status) => (
+              <option key={status} value={status}>
+                {STATUS_LABEL[status]}
+              </option>
+            ))}
+          </select>
+          {(draft.status === "bloqueada" || draft.status === "aberta") && (
+            <input
+              value={draft.reason}
+              onChange={(event) => setDraft((prev) => ({ ...prev, reason: event.target.value }))}
+              placeholder={draft.status === "bloqueada" ? "Motivo do bloqueio" : "Justificativa da reabertura"}
+              className="w-full rounded-md border border-gray-300 px-2 py-1.5"
+            />
+          )}
+          {draft.status === "aguardando_peca" && (
+            <input
+              value={draft.partNumber}
+              onChange={(event) => setDraft((prev) => ({ ...prev, partNumber: event.target.value }))}
+              placeholder="Código da peça"
+              className="w-full rounded-md border border-gray-300 px-2 py-1.5"
+            />
+          )}
+          {draft.status === "aguardando_peca" && (
+            <input
+              type="date"
+              value={draft.expectedDate}
+              onChange={(event) => setDraft((prev) => ({ ...prev, expectedDate: event.target.value }))}
+              aria-label="Previsão de chegada da peça"
+              className="w-full rounded-md border border-gray-300 px-2 py-1.5"
+            />
+          )}
+        </label>
+        <label className="space-y-1">
+          <span className="text-xs font-medium text-gray-600">Responsável</span>
+          <select
+            value={draft.ownerId}
+            onChange={(event) => setDraft((prev) => ({ ...prev, ownerId: event.target.value }))}
+            className="w-full rounded-md border border-gray-300 px-2 py-1.5"
+          >
+            <option value="">Manter</option>
+            <option value={CLEAR_OWNER}>Remover responsável</option>
+            {owners.map((owner) => (
+              <option key={owner.id} value={owner.id}>
+                {owner.nome ?? owner.id}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span className="text-xs font-medium text-gray-600">Prazo</span>
+          <input
+            type="date"
+            value={draft.dueDate}
+            onChange={(event) => setDraft((prev) => ({ ...prev, dueDate: event.target.value }))}
+            className="w-full rounded-md border border-gray-300 px-2 py-1.5"
+          />
+        </label>
+        <label className="space-y-1">
+          <span className="text-xs font-medium text-gray-600">Severidade</span>
+          <select
+            value={draft.severity}
+            onChange={(event) => setDraft((prev) => ({ ...prev, severity: event.target.value as Draft["severity"] }))}
+            className="w-full rounded-md border border-gray-300 px-2 py-1.5"
+          >
+            <option value="">Manter</option>
+            {(Object.keys(SEVERITY_LABEL) as Severity[]).map((severity) => (
+              <option key={severity} value={severity}>
+                {SEVERITY_LABEL[severity]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <div className="flex items-center justify-between gap-3 md:col-span-4">
+          <span className="text-xs text-gray-500">{selected.length} NC(s) selecionada(s)</span>
+          <button
+            type="button"
+            disabled={!canApply || saving}
+            onClick={apply}
+            className="rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white transition hover:bg-blue-500 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {saving ? "Aplicando..." : "Aplicar às selecionadas"}
+          </button>
+        </div>
+      </div>
+
+      {message && (
+        <p className={`text-sm ${message.kind === "error" ? "text-red-700" : "text-emerald-700"}`}>{message.text}</p>
+      )}
+
+      {failures.length > 0 && (
+        <ul className="space-y-1 rounded-md border border-red-100 bg-red-50 p-3 text-xs text-red-800">
+          {failures.map((result) => (
+            <li key={result.id}>
+              <Link href={`/admin/non-conformities/${result.id}`} className="font-medium hover:underline">
+                {titles.get(result.id) ?? result.id}
+              </Link>
+              : {result.error ?? "Falha ao atualizar a NC"}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
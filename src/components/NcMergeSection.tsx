@@ -0,0 +1,155 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { authHeaders } from "@/lib/auth-headers";
+import type { NonConformity } from "@/types/nonconformity";
+
+const SEVERITY_LABEL = { baixa: "Baixa", media: "Média", alta: "Alta" } as const;
+
+const formatDate = (value?: string | null) => (value ? new Date(value).toLocaleString("pt-BR") : "-");
+
+type Props = {
+  /** Só NCs da mesma máquina podem ser mescladas. */
+  machineId: string;
+};
+
+export default function NcMergeSection({ machineId }: Props) {
+  const [records, setRecords] = useState<NonConformity[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [primaryId, setPrimaryId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ kind: "error" | "success"; text: string } | null>(null);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ machineId, pageSize: "100" });
+      const response = await fetch(`/api/nc?${params.toString()}`, { cache: "no-store" });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(typeof payload?.error === "string" ? payload.error : "Falha ao carregar NCs.");
+      }
+      const list = ((payload?.data ?? []) as NonConformity[]).filter((record) => record.status !== "resolvida");
+      setRecords(list);
+      setSelectedIds([]);
+      setPrimaryId(null);
+    } catch (err) {
+      console.error("Failed to load NCs for merge", err);
+      setMessage({ kind: "error", text: (err as Error).message ?? "Falha ao carregar NCs." });
+    } finally {
+      setLoading(false);
+    }
+  }, [machineId]);
+
+  useEffect(() => {
+    setMessage(null);
+    refresh();
+  }, [refresh]);
+
+  const toggle = (id: string) => {
+    setSelectedIds((prev) => (prev.includes(id) ? prev.filter((item) => item !== id) : [...prev, id]));
+    if (primaryId === id) setPrimaryId(null);
+  };
+
+  const merge = async () => {
+    if (!primaryId) return;
+    setSaving(true);
+    setMessage(null);
+    try {
+      const response = await fetch("/api/nc/merge", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...(await authHeaders()) },
+        body: JSON.stringify({
+          primaryId,
+          mergedIds: selectedIds.filter((id) => id !== primaryId),
+        }),
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(typeof payload?.error === "string" ? payload.error : "Falha ao mesclar NCs.");
+      }
+      setMessage({ kind: "success", text: "NCs mescladas na principal." });
+      await refresh();
+    } catch (err) {
+      setMessage({ kind: "error", text: (err as Error).message });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const canMerge = Boolean(primaryId) && selectedIds.includes(primaryId ?? "") && selectedIds.length >= 2;
+
+  return (
+    <section className="space-y-3 rounded-xl border border-gray-200 bg-white p-4 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold">Mesclar NCs duplicadas</h2>
+          <p className="text-xs text-gray-500">
+            Marque as NCs que descrevem o mesmo problema e escolha a principal. As demais viram ocorrências dela e saem
+            das listas e indicadores.
+          </p>
+        </div>
+        <button
+          type="button"
+          disabled={!canMerge || saving}
+          onClick={merge}
+          className="rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white transition hover:bg-blue-500 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {saving ? "Mesclando..." : "Mesclar selecionadas"}
+        </button>
+      </div>
+
+      {message && (
+        <p className={`text-sm ${message.kind === "error" ? "text-red-700" : "text-emerald-700"}`}>{message.text}</p>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Carregando NCs da máquina...</p>
+      ) : records.length < 2 ? (
+        <p className="text-sm text-gray-500">Esta máquina não tem NCs abertas suficientes para mesclar.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 text-sm">
+          {records.map((record) => {
+            const selected = selectedIds.includes(record.id);
+            return (
+              <li key={record.id} className="flex flex-wrap items-center gap-3 py-2">
+                <input
+                  type="checkbox"
+                  checked={selected}
+                  onChange={() => toggle(record.id)}
+                  className="rounded border-gray-300 text-blue-600"
+                  aria-label={`Selecionar ${record.title}`}
+                />
+                <label className="flex items-center gap-1 text-xs text-gray-600">
+                  <input
+                    type="radio"
+                    name="merge-primary"
+                    disabled={!selected}
+                    checked={primaryId === record.id}
+                    onChange={() => setPrimaryId(record.id)}
+                  />
+                  Principal
+                </label>
+                <div className="min-w-0 flex-1">
+                  <Link
+                    href={`/admin/non-conformities/${record.id}`}
+                    className="font-medium text-gray-900 hover:underline"
+                  >
+                    {record.title}
+                  </Link>
+                  <p className="text-xs text-gray-500">
+                    Aberta em {formatDate(record.createdAt)} · severidade{" "}
+                    {record.severity ? SEVERITY_LABEL[record.severity].toLowerCase() : "-"}
+                    {record.occurrences?.length ? ` · ${record.occurrences.length} ocorrência(s) mesclada(s)` : ""}
+                  </p>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,164 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { auth } from "@/lib/firebase";
+import { FAULT_CODE_PROTOCOL_LABEL, type NcSuggestion, type NcSuggestionStatus } from "@/types/fault-code";
+
+const STATUS_LABEL: Record<NcSuggestionStatus, string> = {
+  pending: "Pendente",
+  accepted: "NC aberta",
+  dismissed: "Descartada",
+};
+
+const STATUS_CLASS: Record<NcSuggestionStatus, string> = {
+  pending: "bg-amber-100 text-amber-700",
+  accepted: "bg-emerald-100 text-emerald-700",
+  dismissed: "bg-gray-100 text-gray-600",
+};
+
+const SEVERITY_LABEL = { baixa: "Baixa", media: "Média", alta: "Alta" } as const;
+
+const formatDate = (value?: string | null) => (value ? new Date(value).toLocaleString("pt-BR") : "-");
+
+export default function NcSuggestionsSection() {
+  const [suggestions, setSuggestions] = useState<NcSuggestion[]>([]);
+  const [statusFilter, setStatusFilter] = useState<NcSuggestionStatus | "">("pending");
+  const [loading, setLoading] = useState(false);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams();
+      if (statusFilter) params.set("status", statusFilter);
+      const response = await fetch(`/api/nc/suggestions?${params.toString()}`, { cache: "no-store" });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(typeof payload?.error === "string" ? payload.error : "Falha ao carregar sugestões.");
+      }
+      setSuggestions((payload?.data ?? []) as NcSuggestion[]);
+    } catch (err) {
+      console.error("Failed to load NC suggestions", err);
+      setError((err as Error).message ?? "Falha ao carregar sugestões.");
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const update = async (suggestion: NcSuggestion, action: "accept" | "dismiss") => {
+    const user = auth.currentUser;
+    setSavingId(suggestion.id);
+    try {
+      const response = await fetch(`/api/nc/suggestions/${suggestion.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          action,
+          actor: user ? { id: user.uid, nome: user.displayName ?? user.email ?? null } : undefined,
+        }),
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(typeof payload?.error === "string" ? payload.error : "Falha ao atualizar sugestão.");
+      }
+      await refresh();
+    } catch (err) {
+      alert((err as Error).message);
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <section className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold">NCs sugeridas pela telemetria</h2>
+          <p className="text-xs text-[var(--muted)]">
+            Falhas que ficaram ativas em máquinas sem NC aberta para o mesmo código ou sistema.
+          </p>
+        </div>
+        <select
+          value={statusFilter}
+          onChange={(event) => setStatusFilter(event.target.value as NcSuggestionStatus | "")}
+          className="rounded-md border border-[var(--border)] bg-white px-2 py-1 text-sm"
+        >
+          <option value="pending">Pendentes</option>
+          <option value="accepted">Aceitas</option>
+          <option value="dismissed">Descartadas</option>
+          <option value="">Todas</option>
+        </select>
+      </div>
+
+      {error && (
+        <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div>
+      )}
+
+      {!error && !loading && suggestions.length === 0 && (
+        <p className="text-sm text-[var(--muted)]">Nenhuma sugestão encontrada.</p>
+      )}
+
+      {suggestions.length > 0 && (
+        <div className="space-y-2">
+          {suggestions.map((suggestion) => (
+            <div key={suggestion.id} className="rounded-md border border-[var(--border)] bg-white p-3 shadow-sm">
+              <div className="flex flex-col gap-2 sm:flex-row sm:items-start sm:justify-between">
+                <div className="space-y-1">
+                  <p className="text-sm font-semibold">{suggestion.title}</p>
+                  <p className="text-xs text-[var(--muted)]">
+                    {suggestion.machineTag ?? suggestion.machineId} · {suggestion.fault.raw} (
+                    {FAULT_CODE_PROTOCOL_LABEL[suggestion.fault.protocol]}) · {suggestion.fault.systemCategory} ·
+                    severidade {SEVERITY_LABEL[suggestion.fault.severity]}
+                  </p>
+                  <p className="text-xs text-[var(--muted)]">Leitura de {formatDate(suggestion.readingAt)}</p>
+                  {suggestion.ncId && (
+                    <Link
+                      href={`/admin/non-conformities/${suggestion.ncId}`}
+                      className="text-xs font-semibold text-[var(--primary)] hover:underline"
+                    >
+                      Abrir NC
+                    </Link>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <span
+                    className={`inline-flex rounded-full px-2 py-0.5 text-[11px] font-semibold ${STATUS_CLASS[suggestion.status]}`}
+                  >
+                    {STATUS_LABEL[suggestion.status]}
+                  </span>
+                  {suggestion.status === "pending" && (
+                    <>
+                      <button
+                        type="button"
+                        disabled={savingId === suggestion.id}
+                        onClick={() => update(suggestion, "dismiss")}
+                        className="rounded-md border border-[var(--border)] px-3 py-1 text-xs font-semibold transition hover:bg-[var(--surface)] disabled:opacity-60"
+                      >
+                        Descartar
+                      </button>
+                      <button
+                        type="button"
+                        disabled={savingId === suggestion.id}
+                        onClick={() => update(suggestion, "accept")}
+                        className="rounded-md bg-[var(--primary)] px-3 py-1 text-xs font-semibold text-white transition hover:bg-[var(--primary-700)] disabled:opacity-60"
+                      >
+                        Abrir NC
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,233 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import type {
+  PeriodicityTimelineCounts,
+  PeriodicityTimelineResult,
+} from "@/lib/kpis/periodicity-timeline";
+
+const MS_IN_DAY = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_DAYS = 30;
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+const formatPercent = (value: number | null) =>
+  value === null ? "-" : `${value.toLocaleString("pt-BR", { maximumFractionDigits: 1 })}%`;
+
+function cellClass(cell: PeriodicityTimelineCounts): string {
+  if (!cell.expected) return "bg-gray-100";
+  if (cell.compliance === null) return "bg-slate-200";
+  if (cell.compliance >= 100) return cell.late ? "bg-emerald-300" : "bg-emerald-500";
+  if (cell.compliance > 0) return "bg-amber-400";
+  return "bg-red-500";
+}
+
+function describeCell(day: string, cell: PeriodicityTimelineCounts): string {
+  if (!cell.expected) return `${day}: sem checklist esperado`;
+  return `${day}: ${cell.done} no prazo, ${cell.late} atrasado(s), ${cell.missed} perdido(s), ${cell.open} em aberto`;
+}
+
+export default function PeriodicityTimelineSection() {
+  const [from, setFrom] = useState(() => toDateInput(new Date(Date.now() - DEFAULT_RANGE_DAYS * MS_IN_DAY)));
+  const [to, setTo] = useState(() => toDateInput(new Date()));
+  const [timeline, setTimeline] = useState<PeriodicityTimelineResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({
+        from: new Date(`${from}T00:00:00`).toISOString(),
+        to: new Date(`${to}T23:59:59`).toISOString(),
+      });
+      const response = await fetch(`/api/kpi/periodicity-timeline?${params.toString()}`, {
+        method: "GET",
+        cache: "no-store",
+      });
+      if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        const message = typeof payload?.error === "string" ? payload.error : "Falha ao carregar histórico.";
+        throw new Error(message);
+      }
+      setTimeline((await response.json()) as PeriodicityTimelineResult);
+    } catch (err) {
+      console.error("Failed to load periodicity timeline", err);
+      setError((err as Error).message ?? "Falha ao carregar histórico.");
+    } finally {
+      setLoading(false);
+    }
+  }, [from, to]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return (
+    <section className="space-y-3">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold">Histórico de conformidade</h2>
+          <p className="text-xs text-[var(--muted)]">
+            Períodos esperados no intervalo, marcados como no prazo, atrasados ou perdidos.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-end gap-2 text-sm">
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-[var(--muted)]">De</span>
+            <input
+              type="date"
+              value={from}
+              max={to}
+              onChange={(event) => setFrom(event.target.value)}
+              className="rounded-md border border-[var(--border)] bg-white px-2 py-1"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-[var(--muted)]">Até</span>
+            <input
+              type="date"
+              value={to}
+              min={from}
+              onChange={(event) => setTo(event.target.value)}
+              className="rounded-md border border-[var(--border)] bg-white px-2 py-1"
+            />
+          </label>
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div>
+      )}
+
+      {loading && !timeline && <p className="text-sm text-[var(--muted)]">Carregando histórico...</p>}
+
+      {timeline && timeline.summary.expected === 0 && !error && (
+        <p className="text-sm text-[var(--muted)]">Nenhum checklist periódico esperado no intervalo.</p>
+      )}
+
+      {timeline && timeline.summary.expected > 0 && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+            <Stat label="Conformidade" value={formatPercent(timeline.summary.compliance)} />
+            <Stat label="No prazo" value={formatPercent(timeline.summary.onTime)} />
+            <Stat label="Atrasados" value={timeline.summary.late} />
+            <Stat label="Perdidos" value={timeline.summary.missed} />
+          </div>
+
+          <div className="rounded-2xl border border-[var(--border)] bg-[var(--surface)] p-5">
+            <h3 className="mb-3 text-lg font-semibold">Tendência de conformidade</h3>
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={timeline.trend}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="bucket" />
+                  <YAxis domain={[0, 100]} unit="%" />
+                  <Tooltip />
+                  <Legend />
+                  <Line type="monotone" dataKey="compliance" name="Conformidade" stroke="#22c55e" connectNulls />
+                  <Line type="monotone" dataKey="onTime" name="No prazo" stroke="#3b82f6" connectNulls />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          <div className="rounded-2xl border border-[var(--border)] bg-[var(--surface)] p-5">
+            <h3 className="mb-3 text-lg font-semibold">Máquina x dia</h3>
+            <div className="overflow-x-auto">
+              <table className="text-xs">
+                <tbody>
+                  {timeline.heatmap.rows.map((row) => (
+                    <tr key={row.machineId}>
+                      <th className="whitespace-nowrap pr-3 text-left font-medium text-[var(--text)]">
+                        {row.machineName}
+                      </th>
+                      {row.cells.map((cell, index) => {
+                        const day = timeline.heatmap.days[index];
+                        return (
+                          <td key={day} className="p-0.5">
+                            <div
+                              className={`h-4 w-4 rounded-sm ${cellClass(cell)}`}
+                              title={describeCell(day, cell)}
+                            />
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <p className="mt-2 text-xs text-[var(--muted)]">
+              Verde: cumprido (claro quando houve atraso) · Âmbar: parcial · Vermelho: perdido · Cinza: sem
+              exigência ou em aberto.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-1 gap-4 lg:grid-cols-2">
+            <BreakdownTable
+              title="Por setor"
+              rows={timeline.bySetor.map((row) => ({ key: row.setor || "-", label: row.setor || "-", ...row }))}
+            />
+            <BreakdownTable
+              title="Por template"
+              rows={timeline.byTemplate.map((row) => ({ key: row.templateId, label: row.templateName, ...row }))}
+            />
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: string | number }) {
+  return (
+    <div className="rounded-xl border border-[var(--border)] bg-white p-3">
+      <p className="text-xs text-[var(--muted)]">{label}</p>
+      <p className="text-xl font-semibold">{value}</p>
+    </div>
+  );
+}
+
+function BreakdownTable({
+  title,
+  rows,
+}: {
+  title: string;
+  rows: Array<PeriodicityTimelineCounts & { key: string; label: string }>;
+}) {
+  return (
+    <div className="rounded-2xl border border-[var(--border)] bg-[var(--surface)] p-5">
+      <h3 className="mb-3 text-lg font-semibold">{title}</h3>
+      <table className="w-full text-sm">
+        <thead className="text-xs uppercase tracking-wide text-[var(--hint)]">
+          <tr>
+            <th className="py-1 text-left font-medium">Nome</th>
+            <th className="py-1 text-right font-medium">Conformidade</th>
+            <th className="py-1 text-right font-medium">Perdidos</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.key} className="border-t border-[var(--border)]">
+              <td className="py-1">{row.label}</td>
+              <td className="py-1 text-right">{formatPercent(row.compliance)}</td>
+              <td className="py-1 text-right">{row.missed}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
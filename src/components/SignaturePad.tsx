@@ -7,16 +7,25 @@ type Props = {
   onChange: (value: string | null) => void;
   required?: boolean;
   description?: string;
+  /** Assinatura já capturada (data URL), redesenhada ao montar o componente. */
+  initialValue?: string | null;
 };
 
 const CANVAS_HEIGHT = 160;
 
-export default function SignaturePad({ label, onChange, required = false, description }: Props) {
+export default function SignaturePad({
+  label,
+  onChange,
+  required = false,
+  description,
+  initialValue,
+}: Props) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const isDrawingRef = useRef(false);
   const hasStrokeRef = useRef(false);
   const [isEmpty, setIsEmpty] = useState(true);
   const onChangeRef = useRef(onChange);
+  const initialValueRef = useRef(initialValue);
 
   useEffect(() => {
     onChangeRef.current = onChange;
@@ -58,6 +67,20 @@ export default function SignaturePad({ label, onChange, required = false, descri
 
   useEffect(() => {
     resetCanvas(false);
+    const initial = initialValueRef.current;
+    const canvas = canvasRef.current;
+    if (!initial || !canvas) return;
+    const image = new Image();
+    image.onload = () => {
+      const context = canvas.getContext("2d");
+      if (!context) return;
+      const displayWidth = canvas.clientWidth || canvas.offsetWidth || 600;
+      const displayHeight = canvas.clientHeight || CANVAS_HEIGHT;
+      context.drawImage(image, 0, 0, displayWidth, displayHeight);
+      hasStrokeRef.current = true;
+      setIsEmpty(false);
+    };
+    image.src = initial;
   }, [resetCanvas]);
 
   const getContext = () => {
@@ -2,16 +2,28 @@
 
 import { useEffect, useMemo, useState } from "react";
 import {
+  ChecklistNcSeverity,
   ChecklistPeriodicityUnit,
   ChecklistPhotoRule,
   ChecklistQuestion,
   ChecklistTemplate,
   ChecklistTemplateActorConfig,
   ChecklistTemplateHeader,
+  ChecklistTemplatePeriodicity,
+  ChecklistSeverityRule,
+  ChecklistSeverityRuleOperator,
   ChecklistVariableCondition,
   ChecklistVariableType,
 } from "@/types/checklist";
 
+type SeverityRuleDraft = {
+  key: string;
+  operator: ChecklistSeverityRuleOperator;
+  value: string;
+  severity: ChecklistNcSeverity;
+  safetyRisk: boolean;
+};
+
 type QuestionDraft = {
   id: string;
   text: string;
@@ -30,14 +42,70 @@ type QuestionDraft = {
   variablePeriodicityEnabled?: boolean;
   variablePeriodicityQuantity?: number;
   variablePeriodicityUnit?: ChecklistPeriodicityUnit;
+  // Classificação da NC aberta pela pergunta
+  severity: ChecklistNcSeverity;
+  safetyRisk: boolean;
+  impactAvailability: boolean;
+  systemCategory: string;
+  severityRules: SeverityRuleDraft[];
+};
+
+const SYSTEM_CATEGORY_SUGGESTIONS = [
+  "Motor",
+  "Transmissão",
+  "Freios",
+  "Hidráulico",
+  "Elétrico",
+  "Arrefecimento",
+  "Combustível",
+  "Pneus e rodas",
+  "Cabine",
+  "Segurança",
+];
+
+const severityRuleOperatorLabel: Record<ChecklistSeverityRuleOperator, string> = {
+  gt: "maior que",
+  gte: "maior ou igual a",
+  lt: "menor que",
+  lte: "menor ou igual a",
+  eq: "igual a",
 };
 
+const newQuestionDraft = (text: string, photoRule: ChecklistPhotoRule): QuestionDraft => ({
+  id: crypto.randomUUID(),
+  text,
+  photoRule,
+  severity: "media",
+  safetyRisk: false,
+  impactAvailability: false,
+  systemCategory: "",
+  severityRules: [],
+});
+
+const isNumericVariable = (type?: ChecklistVariableType) => type === "int" || type === "decimal";
+
+/** Valor da regra no tipo da variável; `undefined` quando não dá para comparar. */
+function parseSeverityRuleValue(
+  raw: string,
+  type: ChecklistVariableType | undefined,
+): ChecklistSeverityRule["value"] | undefined {
+  const trimmed = raw.trim();
+  if (!trimmed) return undefined;
+  if (isNumericVariable(type)) {
+    const parsed = Number(trimmed.replace(",", "."));
+    return Number.isFinite(parsed) ? parsed : undefined;
+  }
+  if (type === "boolean") return ["true", "sim", "1"].includes(trimmed.toLowerCase());
+  return trimmed;
+}
+
 export type TemplateFormPayload = {
   template: Omit<ChecklistTemplate, "id" | "periodicity">;
   periodicity: {
     active: boolean;
     quantity: number;
-    unit: ChecklistPeriodicityUnit;
+    unit: ChecklistTemplatePeriodicity["unit"];
+    anchor: ChecklistTemplatePeriodicity["anchor"];
   };
 };
 
@@ -112,6 +180,17 @@ export default function TemplateForm({ initial, onSubmit, onCancel }: Props) {
       variablePeriodicityEnabled: Boolean(question.variable?.periodicity?.active),
       variablePeriodicityQuantity: question.variable?.periodicity?.quantity ?? 1,
       variablePeriodicityUnit: question.variable?.periodicity?.unit ?? "day",
+      severity: question.severity ?? "media",
+      safetyRisk: question.safetyRisk ?? false,
+      impactAvailability: question.impactAvailability ?? false,
+      systemCategory: question.systemCategory ?? "",
+      severityRules: (question.severityRules ?? []).map((rule) => ({
+        key: crypto.randomUUID(),
+        operator: rule.operator,
+        value: typeof rule.value === "boolean" ? (rule.value ? "sim" : "não") : String(rule.value),
+        severity: rule.severity,
+        safetyRisk: rule.safetyRisk ?? false,
+      })),
     }));
   });
   const [draggingQuestionId, setDraggingQuestionId] = useState<string | null>(null);
@@ -123,23 +202,19 @@ export default function TemplateForm({ initial, onSubmit, onCancel }: Props) {
   const [periodicityQuantity, setPeriodicityQuantity] = useState<number>(
     initial?.periodicity?.quantity ?? 1,
   );
-  const [periodicityUnit, setPeriodicityUnit] = useState<ChecklistPeriodicityUnit>(
+  const [periodicityUnit, setPeriodicityUnit] = useState<ChecklistTemplatePeriodicity["unit"]>(
     initial?.periodicity?.unit ?? "day",
   );
+  const [periodicityAnchor, setPeriodicityAnchor] = useState<ChecklistTemplatePeriodicity["anchor"]>(
+    initial?.periodicity?.anchor ?? "last_submission",
+  );
+  const usagePeriodicity = periodicityUnit === "hours" || periodicityUnit === "km";
 
   useEffect(() => {
     if (!initial) {
       setQuestions([
-        {
-          id: crypto.randomUUID(),
-          text: "Há vazamentos visíveis?",
-          photoRule: "required_nc",
-        },
-        {
-          id: crypto.randomUUID(),
-          text: "Luzes e setas funcionando?",
-          photoRule: "optional",
-        },
+        newQuestionDraft("Há vazamentos visíveis?", "required_nc"),
+        newQuestionDraft("Luzes e setas funcionando?", "optional"),
       ]);
     }
   }, [initial]);
@@ -147,7 +222,7 @@ export default function TemplateForm({ initial, onSubmit, onCancel }: Props) {
   const addQuestion = () => {
     setQuestions((prev) => [
       ...prev,
-      { id: crypto.randomUUID(), text: "", photoRule: "optional" },
+      newQuestionDraft("", "optional"),
     ]);
   };
 
@@ -236,7 +311,12 @@ export default function TemplateForm({ initial, onSubmit, onCancel }: Props) {
             text: question.text,
             photoRule: question.photoRule,
             requiresPhoto: question.photoRule === "required_nc",
+            severity: question.severity,
+            safetyRisk: question.safetyRisk,
+            impactAvailability: question.impactAvailability,
           };
+          const systemCategory = question.systemCategory.trim();
+          if (systemCategory) base.systemCategory = systemCategory;
           // Anexa variável somente quando habilitada e com dados válidos
           const name = (question.variableName ?? "").trim();
           if (
@@ -286,6 +366,20 @@ export default function TemplateForm({ initial, onSubmit, onCancel }: Props) {
             }
 
             base.variable = variable;
+
+            const severityRules = question.severityRules.flatMap((rule): ChecklistSeverityRule[] => {
+              const value = parseSeverityRuleValue(rule.value, variable.type);
+              if (value === undefined) return [];
+              return [
+                {
+                  operator: isNumericVariable(variable.type) ? rule.operator : "eq",
+                  value,
+                  severity: rule.severity,
+                  ...(rule.safetyRisk ? { safetyRisk: true } : {}),
+                },
+              ];
+            });
+            if (severityRules.length) base.severityRules = severityRules;
           }
           return base;
         }),
@@ -296,6 +390,7 @@ export default function TemplateForm({ initial, onSubmit, onCancel }: Props) {
         active: periodicityActive,
         quantity: normalizedQuantity,
         unit: periodicityUnit,
+        anchor: usagePeriodicity ? "last_submission" : periodicityAnchor,
       },
     });
   };
@@ -311,6 +406,8 @@ export default function TemplateForm({ initial, onSubmit, onCancel }: Props) {
       day: { singular: "dia", plural: "dias" },
       week: { singular: "semana", plural: "semanas" },
       month: { singular: "mês", plural: "meses" },
+      hours: { singular: "hora de horímetro", plural: "horas de horímetro" },
+      km: { singular: "km rodado", plural: "km rodados" },
     }),
     [],
   );
@@ -320,6 +417,10 @@ export default function TemplateForm({ initial, onSubmit, onCancel }: Props) {
         Math.max(1, Math.floor(periodicityQuantity)) === 1
           ? periodicityUnitLabel[periodicityUnit].singular
           : periodicityUnitLabel[periodicityUnit].plural
+      }${
+        periodicityAnchor === "calendar" && !usagePeriodicity
+          ? " do calendário do setor (dias não úteis e feriados não contam)"
+          : ""
       }.`
     : "Nenhuma exigência de periodicidade ativa.";
 
@@ -517,15 +618,33 @@ export default function TemplateForm({ initial, onSubmit, onCancel }: Props) {
               <select
                 value={periodicityUnit}
                 onChange={(event) =>
-                  setPeriodicityUnit(event.target.value as ChecklistPeriodicityUnit)
+                  setPeriodicityUnit(event.target.value as ChecklistTemplatePeriodicity["unit"])
                 }
                 className="rounded-md border border-[var(--border)] bg-white px-3 py-2 text-sm text-[var(--text)] shadow-sm focus:outline-none focus:ring-2 focus:ring-[var(--primary)] focus:border-[var(--primary)]"
               >
                 <option value="day">Dia</option>
                 <option value="week">Semana</option>
                 <option value="month">Mês</option>
+                <option value="hours">Horas (horímetro)</option>
+                <option value="km">KM rodados</option>
               </select>
             </label>
+
+            {!usagePeriodicity && (
+              <label className="flex flex-col gap-1 text-sm sm:col-span-2">
+                <span>Contagem</span>
+                <select
+                  value={periodicityAnchor}
+                  onChange={(event) =>
+                    setPeriodicityAnchor(event.target.value as ChecklistTemplatePeriodicity["anchor"])
+                  }
+                  className="rounded-md border border-[var(--border)] bg-white px-3 py-2 text-sm text-[var(--text)] shadow-sm focus:outline-none focus:ring-2 focus:ring-[var(--primary)] focus:border-[var(--primary)]"
+                >
+                  <option value="last_submission">Janela móvel desde o último envio</option>
+                  <option value="calendar">Calendário do setor (dia útil/turno, semana ISO, mês)</option>
+                </select>
+              </label>
+            )}
           </div>
         )}
       </section>
@@ -662,6 +781,58 @@ export default function TemplateForm({ initial, onSubmit, onCancel }: Props) {
                 </button>
               </div>
 
+              <div className="mt-3 space-y-2 rounded-md border border-[var(--border)] bg-[var(--surface)] p-3">
+                <span className="text-xs uppercase tracking-wide text-[var(--hint)]">
+                  Classificação da NC
+                </span>
+                <div className="grid gap-3 sm:grid-cols-2">
+                  <label className="flex flex-col gap-1 text-sm">
+                    <span>Severidade padrão</span>
+                    <select
+                      value={question.severity}
+                      onChange={(e) =>
+                        updateQuestion(question.id, { severity: e.target.value as ChecklistNcSeverity })
+                      }
+                      className="rounded-md border border-[var(--border)] bg-white px-3 py-2 text-sm text-[var(--text)] shadow-sm focus:outline-none focus:ring-2 focus:ring-[var(--primary)] focus:border-[var(--primary)]"
+                    >
+                      <option value="baixa">Baixa</option>
+                      <option value="media">Média</option>
+                      <option value="alta">Alta</option>
+                    </select>
+                  </label>
+                  <label className="flex flex-col gap-1 text-sm">
+                    <span>Sistema</span>
+                    <input
+                      value={question.systemCategory}
+                      onChange={(e) => updateQuestion(question.id, { systemCategory: e.target.value })}
+                      list="template-system-categories"
+                      placeholder="Ex.: Freios"
+                      className="rounded-md border border-[var(--border)] bg-white px-3 py-2 text-sm text-[var(--text)] shadow-sm focus:outline-none focus:ring-2 focus:ring-[var(--primary)] focus:border-[var(--primary)]"
+                    />
+                  </label>
+                </div>
+                <div className="flex flex-wrap gap-4">
+                  <label className="inline-flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      className="accent-blue-500"
+                      checked={question.safetyRisk}
+                      onChange={(e) => updateQuestion(question.id, { safetyRisk: e.target.checked })}
+                    />
+                    Risco de segurança
+                  </label>
+                  <label className="inline-flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      className="accent-blue-500"
+                      checked={question.impactAvailability}
+                      onChange={(e) => updateQuestion(question.id, { impactAvailability: e.target.checked })}
+                    />
+                    Afeta a disponibilidade
+                  </label>
+                </div>
+              </div>
+
               <div className="mt-3 space-y-2 rounded-md border border-[var(--border)] bg-[var(--surface)] p-3">
                 <label className="inline-flex items-center gap-2 text-sm">
                   <input
@@ -882,6 +1053,103 @@ export default function TemplateForm({ initial, onSubmit, onCancel }: Props) {
                     )}
                   </div>
                 )}
+
+                {/* Regras de severidade pelo valor da variável */}
+                {question.variableEnabled && (
+                  <div className="mt-3 space-y-2 rounded-md border border-[var(--border)] bg-white p-3">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-sm">Regras de severidade pelo valor informado</span>
+                      <button
+                        type="button"
+                        onClick={() =>
+                          updateQuestion(question.id, {
+                            severityRules: [
+                              ...question.severityRules,
+                              {
+                                key: crypto.randomUUID(),
+                                operator: isNumericVariable(question.variableType) ? "gt" : "eq",
+                                value: "",
+                                severity: "alta",
+                                safetyRisk: false,
+                              },
+                            ],
+                          })
+                        }
+                        className="rounded-md border border-[var(--border)] px-2 py-1 text-xs font-semibold text-[var(--text)] transition hover:bg-[var(--surface)]"
+                      >
+                        Adicionar regra
+                      </button>
+                    </div>
+                    {question.severityRules.map((rule) => {
+                      const updateRule = (patch: Partial<SeverityRuleDraft>) =>
+                        updateQuestion(question.id, {
+                          severityRules: question.severityRules.map((item) =>
+                            item.key === rule.key ? { ...item, ...patch } : item,
+                          ),
+                        });
+                      return (
+                        <div key={rule.key} className="flex flex-wrap items-center gap-2 text-sm">
+                          <span>Se o valor for</span>
+                          <select
+                            value={isNumericVariable(question.variableType) ? rule.operator : "eq"}
+                            disabled={!isNumericVariable(question.variableType)}
+                            onChange={(e) =>
+                              updateRule({ operator: e.target.value as ChecklistSeverityRuleOperator })
+                            }
+                            className="rounded-md border border-[var(--border)] bg-white px-3 py-2 text-sm text-[var(--text)] shadow-sm focus:outline-none focus:ring-2 focus:ring-[var(--primary)] focus:border-[var(--primary)]"
+                          >
+                            {Object.entries(severityRuleOperatorLabel).map(([value, label]) => (
+                              <option key={value} value={value}>
+                                {label}
+                              </option>
+                            ))}
+                          </select>
+                          <input
+                            value={rule.value}
+                            onChange={(e) => updateRule({ value: e.target.value })}
+                            placeholder={question.variableType === "boolean" ? "sim / não" : "Valor"}
+                            className="w-28 rounded-md border border-[var(--border)] bg-white px-3 py-2 text-sm text-[var(--text)] shadow-sm focus:outline-none focus:ring-2 focus:ring-[var(--primary)] focus:border-[var(--primary)]"
+                          />
+                          <span>a NC nasce com severidade</span>
+                          <select
+                            value={rule.severity}
+                            onChange={(e) => updateRule({ severity: e.target.value as ChecklistNcSeverity })}
+                            className="rounded-md border border-[var(--border)] bg-white px-3 py-2 text-sm text-[var(--text)] shadow-sm focus:outline-none focus:ring-2 focus:ring-[var(--primary)] focus:border-[var(--primary)]"
+                          >
+                            <option value="baixa">Baixa</option>
+                            <option value="media">Média</option>
+                            <option value="alta">Alta</option>
+                          </select>
+                          <label className="inline-flex items-center gap-1">
+                            <input
+                              type="checkbox"
+                              className="accent-blue-500"
+                              checked={rule.safetyRisk}
+                              onChange={(e) => updateRule({ safetyRisk: e.target.checked })}
+                            />
+                            e risco de segurança
+                          </label>
+                          <button
+                            type="button"
+                            onClick={() =>
+                              updateQuestion(question.id, {
+                                severityRules: question.severityRules.filter((item) => item.key !== rule.key),
+                              })
+                            }
+                            className="text-xs font-semibold text-[var(--danger)] hover:underline"
+                          >
+                            Remover
+                          </button>
+                        </div>
+                      );
+                    })}
+                    {question.severityRules.length === 0 && (
+                      <p className="text-xs text-[var(--hint)]">
+                        Sem regras, a NC usa a classificação padrão da pergunta. As regras só agravam a classificação.
+                      </p>
+                    )}
+                  </div>
+                )}
               </div>
             </div>
           ))}
@@ -889,6 +1157,11 @@ export default function TemplateForm({ initial, onSubmit, onCancel }: Props) {
           {questions.length === 0 && (
             <p className="text-sm text-[var(--hint)]">Nenhuma pergunta adicionada.</p>
           )}
+          <datalist id="template-system-categories">
+            {SYSTEM_CATEGORY_SUGGESTIONS.map((category) => (
+              <option key={category} value={category} />
+            ))}
+          </datalist>
         </div>
       </div>
 
@@ -21,6 +21,7 @@ export default function UserForm({ initial, onSubmit, onCancel }: Props) {
   const [nome, setNome] = useState(initial?.nome ?? "");
   const [role, setRole] = useState<UserRole>(initial?.role ?? "operador");
   const [setor, setSetor] = useState(initial?.setor ?? "");
+  const [email, setEmail] = useState(initial?.email ?? "");
   const [loading, setLoading] = useState(false);
 
   const handleSubmit = async (event: React.FormEvent) => {
@@ -31,6 +32,7 @@ export default function UserForm({ initial, onSubmit, onCancel }: Props) {
       nome,
       role,
       setor: setor || undefined,
+      email: email.trim() || undefined,
     });
     setLoading(false);
   };
@@ -85,6 +87,18 @@ export default function UserForm({ initial, onSubmit, onCancel }: Props) {
         <span className="text-xs text-[var(--hint)]">Campo opcional, preencha se desejar segmentar acessos por área.</span>
       </div>
 
+      <div className="grid gap-2">
+        <label className="text-sm font-medium text-[var(--text)]">E-mail</label>
+        <input
+          type="email"
+          className="rounded-md border border-[var(--border)] bg-[var(--surface)] px-3 py-2 text-sm text-[var(--text)] focus:outline-none focus:ring-2 focus:ring-[var(--primary)]"
+          value={email}
+          onChange={(event) => setEmail(event.target.value)}
+          placeholder="Ex.: reginaldo@empresa.com"
+        />
+        <span className="text-xs text-[var(--hint)]">Opcional. Recebe os avisos de ações de NC atribuídas ao usuário.</span>
+      </div>
+
       <div className="flex flex-wrap items-center gap-3">
         <button
           type="submit"
@@ -0,0 +1,217 @@
+"use client";
+
+import { useState } from "react";
+import type { WorkingCalendar, WorkingShift } from "@/types/working-calendar";
+import { isValidHoliday, isValidShiftTime, isValidTimeZone } from "@/lib/working-calendar";
+
+type Props = {
+  initial: WorkingCalendar;
+  onSubmit: (data: Omit<WorkingCalendar, "id" | "updatedAt">) => Promise<void>;
+  onCancel?: () => void;
+};
+
+const WEEKDAY_OPTIONS: { value: number; label: string }[] = [
+  { value: 1, label: "Seg" },
+  { value: 2, label: "Ter" },
+  { value: 3, label: "Qua" },
+  { value: 4, label: "Qui" },
+  { value: 5, label: "Sex" },
+  { value: 6, label: "Sáb" },
+  { value: 0, label: "Dom" },
+];
+
+const inputClass =
+  "rounded-md border border-[var(--border)] bg-[var(--surface)] px-3 py-2 text-sm text-[var(--text)] focus:outline-none focus:ring-2 focus:ring-[var(--primary)]";
+
+export default function WorkingCalendarForm({ initial, onSubmit, onCancel }: Props) {
+  const [weekdays, setWeekdays] = useState<number[]>(initial.weekdays);
+  const [shifts, setShifts] = useState<WorkingShift[]>(initial.shifts);
+  const [holidays, setHolidays] = useState<string[]>(initial.holidays);
+  const [holidayDraft, setHolidayDraft] = useState("");
+  const [timezone, setTimezone] = useState(initial.timezone);
+  const [loading, setLoading] = useState(false);
+
+  const toggleWeekday = (value: number) => {
+    setWeekdays((prev) =>
+      prev.includes(value) ? prev.filter((day) => day !== value) : [...prev, value].sort((a, b) => a - b),
+    );
+  };
+
+  const updateShift = (id: string, changes: Partial<WorkingShift>) => {
+    setShifts((prev) => prev.map((shift) => (shift.id === id ? { ...shift, ...changes } : shift)));
+  };
+
+  const addShift = () => {
+    setShifts((prev) => [
+      ...prev,
+      { id: crypto.randomUUID(), name: `Turno ${prev.length + 1}`, start: "06:00", end: "14:00" },
+    ]);
+  };
+
+  const addHoliday = () => {
+    if (!isValidHoliday(holidayDraft)) return;
+    setHolidays((prev) => (prev.includes(holidayDraft) ? prev : [...prev, holidayDraft].sort()));
+    setHolidayDraft("");
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const invalidShift = shifts.find((shift) => !isValidShiftTime(shift.start) || !isValidShiftTime(shift.end));
+    if (invalidShift) {
+      alert(`Informe horários válidos (HH:mm) para o turno ${invalidShift.name || invalidShift.id}.`);
+      return;
+    }
+    if (!isValidTimeZone(timezone)) {
+      alert("Fuso horário inválido. Use o formato IANA, ex.: America/Sao_Paulo.");
+      return;
+    }
+    setLoading(true);
+    try {
+      await onSubmit({
+        setor: initial.setor,
+        weekdays,
+        shifts: shifts.map((shift) => ({ ...shift, name: shift.name.trim() || `${shift.start}-${shift.end}` })),
+        holidays,
+        timezone,
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid gap-2">
+        <span className="text-sm font-medium text-[var(--text)]">Dias trabalhados</span>
+        <div className="flex flex-wrap gap-3">
+          {WEEKDAY_OPTIONS.map((option) => (
+            <label key={option.value} className="flex items-center gap-1 text-sm">
+              <input
+                type="checkbox"
+                checked={weekdays.includes(option.value)}
+                onChange={() => toggleWeekday(option.value)}
+                className="accent-blue-500"
+              />
+              {option.label}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid gap-2">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium text-[var(--text)]">Turnos</span>
+          <button
+            type="button"
+            onClick={addShift}
+            className="rounded-md border border-[var(--primary)] px-3 py-1 text-xs font-semibold text-[var(--primary)] transition hover:bg-[var(--primary-50)]"
+          >
+            + Adicionar turno
+          </button>
+        </div>
+        {shifts.length === 0 && (
+          <p className="text-xs text-[var(--hint)]">
+            Sem turnos cadastrados: o dia inteiro é considerado um único período.
+          </p>
+        )}
+        {shifts.map((shift) => (
+          <div key={shift.id} className="grid grid-cols-[minmax(0,1fr)_110px_110px_auto] items-center gap-2">
+            <input
+              className={inputClass}
+              value={shift.name}
+              onChange={(event) => updateShift(shift.id, { name: event.target.value })}
+              placeholder="Nome do turno"
+            />
+            <input
+              type="time"
+              className={inputClass}
+              value={shift.start}
+              onChange={(event) => updateShift(shift.id, { start: event.target.value })}
+            />
+            <input
+              type="time"
+              className={inputClass}
+              value={shift.end}
+              onChange={(event) => updateShift(shift.id, { end: event.target.value })}
+            />
+            <button
+              type="button"
+              onClick={() => setShifts((prev) => prev.filter((item) => item.id !== shift.id))}
+              className="rounded-md bg-[var(--danger)] px-3 py-1 text-xs font-semibold text-white transition hover:bg-red-700"
+            >
+              Remover
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid gap-2">
+        <span className="text-sm font-medium text-[var(--text)]">Feriados e paradas</span>
+        <div className="flex gap-2">
+          <input
+            type="date"
+            className={inputClass}
+            value={holidayDraft}
+            onChange={(event) => setHolidayDraft(event.target.value)}
+          />
+          <button
+            type="button"
+            onClick={addHoliday}
+            className="rounded-md border border-[var(--primary)] px-3 py-1 text-xs font-semibold text-[var(--primary)] transition hover:bg-[var(--primary-50)]"
+          >
+            Adicionar
+          </button>
+        </div>
+        {holidays.length > 0 && (
+          <ul className="flex flex-wrap gap-2">
+            {holidays.map((holiday) => (
+              <li
+                key={holiday}
+                className="inline-flex items-center gap-2 rounded-full bg-[var(--surface)] px-3 py-1 text-xs text-[var(--muted)]"
+              >
+                {holiday.split("-").reverse().join("/")}
+                <button
+                  type="button"
+                  onClick={() => setHolidays((prev) => prev.filter((item) => item !== holiday))}
+                  className="font-semibold text-[var(--danger)]"
+                  aria-label={`Remover ${holiday}`}
+                >
+                  ×
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="grid gap-2">
+        <label className="text-sm font-medium text-[var(--text)]">Fuso horário</label>
+        <input
+          className={inputClass}
+          value={timezone}
+          onChange={(event) => setTimezone(event.target.value)}
+          placeholder="America/Sao_Paulo"
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          type="submit"
+          disabled={loading}
+          className="rounded-md bg-[var(--primary)] px-4 py-2 text-sm font-semibold text-white shadow-sm-soft transition hover:bg-[var(--primary-700)] disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          {loading ? "Salvando..." : "Salvar calendário"}
+        </button>
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="rounded-md border border-[var(--border)] bg-[var(--surface)] px-4 py-2 text-sm font-semibold text-[var(--text)] transition hover:bg-[var(--primary-50)]"
+          >
+            Cancelar
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,84 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { db } from "@/lib/firebase";
+import { ensureAnonymousAuth } from "@/lib/ensureAnonymousAuth";
+import { dataUrlToBlob, uploadImageToR2 } from "@/lib/image-upload";
+import { isIndexedDbAvailable } from "@/lib/offline/idb";
+import {
+  type OutboxEntry,
+  type OutboxSyncResult,
+  createFirestoreResponseWriter,
+  listOutbox,
+  syncOutbox,
+} from "@/lib/offline/outbox";
+
+const RETRY_INTERVAL_MS = 60 * 1000;
+
+const resolveOnline = () => (typeof navigator === "undefined" ? true : navigator.onLine);
+
+export function useOutboxSync() {
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const [isOnline, setIsOnline] = useState<boolean>(resolveOnline);
+  const [syncing, setSyncing] = useState(false);
+
+  const deps = useMemo(
+    () => ({
+      upload: uploadImageToR2,
+      writeResponse: createFirestoreResponseWriter(db),
+      dataUrlToBlob,
+    }),
+    [],
+  );
+
+  const refresh = useCallback(async () => {
+    if (!isIndexedDbAvailable()) return;
+    try {
+      setEntries(await listOutbox());
+    } catch (error) {
+      console.error("Falha ao ler checklists pendentes", error);
+    }
+  }, []);
+
+  const syncNow = useCallback(async (): Promise<OutboxSyncResult> => {
+    if (!isIndexedDbAvailable() || !resolveOnline()) {
+      return { synced: [], failed: [] };
+    }
+    setSyncing(true);
+    try {
+      try {
+        await ensureAnonymousAuth();
+      } catch (authError) {
+        // Sem sessão as regras recusam a gravação; os checklists ficam na fila.
+        console.error("Falha ao autenticar para sincronizar checklists", authError);
+        return { synced: [], failed: [] };
+      }
+      return await syncOutbox(deps);
+    } finally {
+      setSyncing(false);
+      await refresh();
+    }
+  }, [deps, refresh]);
+
+  useEffect(() => {
+    void refresh().then(() => syncNow());
+
+    const handleOnline = () => {
+      setIsOnline(true);
+      void syncNow();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    const intervalId = window.setInterval(() => {
+      void syncNow();
+    }, RETRY_INTERVAL_MS);
+
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+      window.clearInterval(intervalId);
+    };
+  }, [refresh, syncNow]);
+
+  return { entries, pendingCount: entries.length, isOnline, syncing, syncNow, refresh };
+}
@@ -1,6 +1,7 @@
 import { useEffect, useMemo, useState } from "react";
 import { collection, getDocs, query, where } from "firebase/firestore";
 import { db } from "@/lib/firebase";
+import { findCachedUser } from "@/lib/offline/cache";
 import type { UserRole } from "@/types/user";
 
 type LookupState = "idle" | "searching" | "found" | "not_found" | "error";
@@ -105,6 +106,17 @@ export function useUserLookup(matriculaInput: string) {
       } catch (error) {
         if (cancelled) return;
         console.error(error);
+        // Sem conexão, recorremos ao diretório de usuários salvo no dispositivo.
+        const cachedUser = await findCachedUser(trimmed);
+        if (cancelled) return;
+        if (cachedUser) {
+          setUserInfo(cachedUser);
+          setNome(cachedUser.nome);
+          setUserLookup({ state: "found", message: "" });
+          sessionStorage.setItem("matricula", trimmed);
+          sessionStorage.setItem("role", cachedUser.role);
+          return;
+        }
         setUserLookup({ state: "error", message: "Erro ao buscar a matricula." });
         setUserInfo(null);
         setNome("");
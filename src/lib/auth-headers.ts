@@ -0,0 +1,7 @@
+import { auth } from "@/lib/firebase";
+
+/** Cabeçalho com o ID token do usuário logado, exigido pelas rotas que conferem o perfil no servidor. */
+export async function authHeaders(): Promise<Record<string, string>> {
+  const token = await auth.currentUser?.getIdToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
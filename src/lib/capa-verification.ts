@@ -0,0 +1,309 @@
+import type { Firestore } from "firebase-admin/firestore";
+import { z } from "zod";
+import { getAdminDb } from "@/lib/firebase-admin";
+import { mapNonConformityDoc, serializeActions } from "@/lib/firestore/nc";
+import { sanitizeDate } from "@/lib/kpis/periodicity";
+import { isDowntimeNc, markMachineDownForNc } from "@/lib/machine-status";
+import { validateNcTransition } from "@/lib/nc-workflow";
+import type { RequestActor } from "@/lib/request-actor";
+import type { ChecklistAnswer } from "@/types/checklist";
+import type {
+  CapaVerification,
+  CapaVerificationEvidence,
+  NcAction,
+  NcAuditEntry,
+  NonConformity,
+} from "@/types/nonconformity";
+
+export const DEFAULT_CAPA_VERIFICATION_DAYS = 30;
+
+const MAX_FETCH = 500;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const REOPEN_REASON = "Ação preventiva não eficaz";
+
+export const capaConfirmationSchema = z.object({
+  actionId: z.string().trim().min(1),
+  effective: z.boolean(),
+  /** Obrigatória quando "não eficaz" reabre uma NC resolvida. */
+  justification: z.string().trim().max(1000).nullish(),
+});
+
+export type CapaConfirmationInput = z.infer<typeof capaConfirmationSchema>;
+
+export type CapaConfirmationResult =
+  | { ok: true; data: NonConformity; reopened: boolean }
+  | { ok: false; status: 400 | 403 | 404 | 409; error: string };
+
+export type CapaVerificationRun = {
+  scanned: number;
+  proposed: Array<{ ncId: string; actionId: string; proposal: "effective" | "not_effective" }>;
+};
+
+export type EvidenceResponse = {
+  id: string;
+  at?: string;
+  answers?: Array<Pick<ChecklistAnswer, "questionId" | "response">>;
+};
+
+/** Dias entre a conclusão da ação preventiva e a verificação (`CAPA_VERIFICATION_DAYS`). */
+export function resolveCapaVerificationDays(env: Record<string, string | undefined> = process.env): number {
+  const days = Number(env.CAPA_VERIFICATION_DAYS);
+  return env.CAPA_VERIFICATION_DAYS && Number.isFinite(days) && days > 0 ? days : DEFAULT_CAPA_VERIFICATION_DAYS;
+}
+
+/** Agenda a verificação das ações preventivas concluídas que ainda não têm uma. */
+export function scheduleCapaVerifications(actions: NcAction[], days: number): NcAction[] {
+  return actions.map((action) => {
+    if (action.type !== "preventiva" || !action.completedAt || action.verification) return action;
+    const completed = Date.parse(action.completedAt);
+    if (Number.isNaN(completed)) return action;
+    const verification: CapaVerification = {
+      dueAt: new Date(completed + days * DAY_MS).toISOString(),
+      status: "scheduled",
+    };
+    return { ...action, verification };
+  });
+}
+
+/**
+ * A verificação e a eficácia decidida nela são do servidor: prevalecem sobre o
+ * que vier do cliente enquanto a ação seguir concluída.
+ */
+export function preserveCapaVerifications(next: NcAction[], existing: NcAction[]): NcAction[] {
+  return next.map((action) => {
+    const stored = existing.find((item) => item.id === action.id);
+    if (!stored?.verification || !action.completedAt) {
+      return { ...action, verification: undefined };
+    }
+    return {
+      ...action,
+      verification: stored.verification,
+      ...(stored.effective !== undefined ? { effective: stored.effective } : {}),
+    };
+  });
+}
+
+export function nextCapaVerificationDueAt(actions: NcAction[]): string | null {
+  const pending = actions
+    .map((action) => (action.verification?.status === "scheduled" ? action.verification.dueAt : null))
+    .filter((dueAt): dueAt is string => Boolean(dueAt))
+    .sort();
+  return pending[0] ?? null;
+}
+
+/**
+ * Evidências entre a conclusão da ação e a data da verificação: respostas da
+ * pergunta de origem na mesma máquina e NCs novas do mesmo sistema (ou da
+ * mesma pergunta).
+ */
+export function evaluateCapaEvidence(
+  nc: Pick<NonConformity, "id" | "originQuestionId" | "systemCategory">,
+  action: NcAction,
+  responses: EvidenceResponse[],
+  ncs: Array<Pick<NonConformity, "id" | "title" | "createdAt" | "systemCategory" | "originQuestionId" | "recurrenceOfId">>,
+): CapaVerificationEvidence {
+  const from = Date.parse(action.completedAt ?? "");
+  const to = Date.parse(action.verification?.dueAt ?? "");
+  const inWindow = (at?: string) => {
+    const time = at ? Date.parse(at) : Number.NaN;
+    return time > from && time <= to;
+  };
+
+  const answered = nc.originQuestionId
+    ? responses
+        .filter((response) => inWindow(response.at))
+        .map((response) => ({
+          response,
+          answer: response.answers?.find(
+            (answer) => answer.questionId === nc.originQuestionId && answer.response !== "na",
+          ),
+        }))
+        .filter((item) => item.answer)
+    : [];
+
+  const relatedNcs = ncs
+    .filter((other) => other.id !== nc.id && inWindow(other.createdAt))
+    .filter(
+      (other) =>
+        other.recurrenceOfId === nc.id ||
+        Boolean(nc.systemCategory && other.systemCategory === nc.systemCategory) ||
+        Boolean(nc.originQuestionId && other.originQuestionId === nc.originQuestionId),
+    )
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .map((other) => ({ id: other.id, title: other.title, createdAt: other.createdAt }));
+
+  return {
+    inspections: answered.length,
+    failedInspections: answered
+      .filter((item) => item.answer?.response === "nc")
+      .map((item) => ({ responseId: item.response.id, at: item.response.at as string }))
+      .sort((a, b) => a.at.localeCompare(b.at)),
+    relatedNcs,
+  };
+}
+
+/** Qualquer reincidência no período torna a ação não eficaz. */
+export function proposeEffectiveness(evidence: CapaVerificationEvidence): "effective" | "not_effective" {
+  return evidence.failedInspections.length || evidence.relatedNcs.length ? "not_effective" : "effective";
+}
+
+async function loadEvidence(db: Firestore, nc: NonConformity, action: NcAction): Promise<CapaVerificationEvidence> {
+  const machineId = nc.linkedAsset?.id;
+  if (!machineId || !action.completedAt) return evaluateCapaEvidence(nc, action, [], []);
+
+  const [responsesSnap, ncSnap] = await Promise.all([
+    nc.originQuestionId
+      ? db
+          .collection("checklistResponses")
+          .where("machineId", "==", machineId)
+          .where("createdAt", ">=", action.completedAt)
+          .orderBy("createdAt", "desc")
+          .limit(MAX_FETCH)
+          .get()
+      : null,
+    db.collection("nonConformities").where("linkedAsset.id", "==", machineId).get(),
+  ]);
+
+  const responses: EvidenceResponse[] = (responsesSnap?.docs ?? []).map((docSnap) => {
+    const data = docSnap.data() as Record<string, unknown>;
+    return {
+      id: docSnap.id,
+      at: sanitizeDate(data.createdAt ?? data.createdAtTs),
+      answers: Array.isArray(data.answers) ? (data.answers as ChecklistAnswer[]) : [],
+    };
+  });
+  return evaluateCapaEvidence(nc, action, responses, ncSnap.docs.map((docSnap) => mapNonConformityDoc(docSnap)));
+}
+
+/**
+ * Propõe "eficaz" ou "não eficaz" para as ações preventivas com verificação
+ * vencida, com as evidências coletadas. A decisão final é confirmada no
+ * detalhe da NC (`confirmCapaVerification`).
+ */
+export async function runCapaVerification(
+  options: { db?: Firestore; now?: Date } = {},
+): Promise<CapaVerificationRun> {
+  const db = options.db ?? getAdminDb();
+  const now = options.now ?? new Date();
+  const atISO = now.toISOString();
+
+  const snapshot = await db.collection("nonConformities").where("capaVerificationDueAt", "<=", atISO).get();
+  const run: CapaVerificationRun = { scanned: snapshot.docs.length, proposed: [] };
+
+  for (const docSnap of snapshot.docs) {
+    const nc = mapNonConformityDoc(docSnap);
+    const before = nc.actions ?? [];
+    const actions: NcAction[] = [];
+    for (const action of before) {
+      const verification = action.verification;
+      if (verification?.status !== "scheduled" || verification.dueAt > atISO) {
+        actions.push(action);
+        continue;
+      }
+      const evidence = await loadEvidence(db, nc, action);
+      const proposal = proposeEffectiveness(evidence);
+      actions.push({ ...action, verification: { ...verification, status: "proposed", proposal, evidence, proposedAt: atISO } });
+      run.proposed.push({ ncId: nc.id, actionId: action.id, proposal });
+    }
+
+    const serialized = serializeActions(actions);
+    const capaVerificationDueAt = nextCapaVerificationDueAt(actions);
+    await docSnap.ref.update({ actions: serialized, capaVerificationDueAt, updatedAt: atISO });
+    if (!run.proposed.some((item) => item.ncId === nc.id)) continue;
+
+    const audit: Omit<NcAuditEntry, "id"> = {
+      type: "effectiveness_proposed",
+      byUserId: "system",
+      byNome: null,
+      byRole: null,
+      atISO,
+      diff: { actions: { before, after: serialized } },
+    };
+    await docSnap.ref.collection("audits").add(audit);
+  }
+
+  return run;
+}
+
+/**
+ * Confirma a eficácia de uma ação preventiva. "Não eficaz" reabre o CAPA: a NC
+ * resolvida volta para `aberta` pela regra do fluxo (só admin, com
+ * justificativa) e só encerra com uma nova ação preventiva.
+ */
+export async function confirmCapaVerification(
+  db: Firestore,
+  ncId: string,
+  input: CapaConfirmationInput,
+  actor: RequestActor,
+  now: Date = new Date(),
+): Promise<CapaConfirmationResult> {
+  const ref = db.collection("nonConformities").doc(ncId);
+  const snap = await ref.get();
+  if (!snap.exists) return { ok: false, status: 404, error: "NC não encontrada." };
+  const nc = mapNonConformityDoc(snap);
+
+  const before = nc.actions ?? [];
+  const target = before.find((action) => action.id === input.actionId);
+  if (!target || target.type !== "preventiva") {
+    return { ok: false, status: 404, error: "Ação preventiva não encontrada." };
+  }
+  if (!target.verification) {
+    return { ok: false, status: 409, error: "A ação não tem verificação de eficácia agendada." };
+  }
+  if (target.verification.status === "confirmed") {
+    return { ok: false, status: 409, error: "A eficácia desta ação já foi confirmada." };
+  }
+
+  const reopened = !input.effective && nc.status === "resolvida";
+  let reopenReason: string | undefined;
+  if (reopened) {
+    const transition = validateNcTransition(nc.status, "aberta", actor.role, { reason: input.justification });
+    if (!transition.ok) return { ok: false, status: transition.status, error: transition.error };
+    reopenReason = `${REOPEN_REASON}: ${transition.reason}`;
+  }
+
+  const atISO = now.toISOString();
+  const decidedBy = { id: actor.id, nome: actor.nome };
+  const actions = before.map((action) =>
+    action.id === target.id
+      ? {
+          ...action,
+          effective: input.effective,
+          verification: { ...target.verification!, status: "confirmed" as const, decidedAt: atISO, decidedBy },
+        }
+      : action,
+  );
+  const serialized = serializeActions(actions);
+
+  await ref.update({
+    actions: serialized,
+    capaVerificationDueAt: nextCapaVerificationDueAt(actions),
+    ...(reopened ? { status: "aberta", reopenCount: (nc.reopenCount ?? 0) + 1 } : {}),
+    updatedAt: atISO,
+  });
+
+  const audit: Omit<NcAuditEntry, "id"> = {
+    type: reopened ? "reopened" : "effectiveness_confirmed",
+    byUserId: decidedBy.id,
+    byNome: decidedBy.nome,
+    byRole: actor.role,
+    atISO,
+    diff: {
+      actions: { before, after: serialized },
+      ...(reopened ? { status: { before: nc.status, after: "aberta" } } : {}),
+    },
+    ...(reopened ? { transition: { from: nc.status, to: "aberta" as const, reason: reopenReason } } : {}),
+  };
+  await ref.collection("audits").add(audit);
+
+  if (reopened && isDowntimeNc(nc) && nc.linkedAsset?.id) {
+    try {
+      await markMachineDownForNc(db, { id: nc.id, title: nc.title, machineId: nc.linkedAsset.id }, now);
+    } catch (error) {
+      console.error(`Failed to mark machine down for reopened NC ${nc.id}`, error);
+    }
+  }
+
+  return { ok: true, data: mapNonConformityDoc(await ref.get()), reopened };
+}
@@ -1,5 +1,6 @@
 import {
   ChecklistActorKind,
+  ChecklistResponse,
   ChecklistResponseActorSnapshot,
   ChecklistTemplate,
   ChecklistTemplateActorConfig,
@@ -14,6 +15,9 @@ import {
   query,
   where,
 } from "firebase/firestore";
+import { METER_HISTORY_LIMIT, type MeterHistory, buildMeterHistory } from "@/lib/meter-readings";
+import { buildDefaultWorkingCalendar, normalizeWorkingCalendar } from "@/lib/working-calendar";
+import type { WorkingCalendar } from "@/types/working-calendar";
 
 type PreviousReading = {
   value: number | null;
@@ -134,6 +138,54 @@ export const getPreviousReading = async (
   }
 };
 
+/**
+ * Carrega as últimas leituras de KM e horímetro da máquina, junto com os
+ * deslocamentos acumulados de trocas de medidor. Retorna null quando a consulta
+ * falha (por exemplo, sem conexão), para não confundir com máquina sem leituras.
+ */
+export const getMeterHistory = async (
+  db: Firestore,
+  machineId: string,
+  max: number = METER_HISTORY_LIMIT,
+): Promise<MeterHistory | null> => {
+  try {
+    const responsesCol = collection(db, "checklistResponses");
+    const q = query(
+      responsesCol,
+      where("machineId", "==", machineId),
+      orderBy("createdAtTs", "desc"),
+      limit(max),
+    );
+    const snap = await getDocs(q);
+    return buildMeterHistory(
+      snap.docs.map((doc) => {
+        const data = doc.data() as Partial<ChecklistResponse>;
+        return { id: doc.id, at: data.createdAt, data };
+      }),
+    );
+  } catch (error) {
+    console.error("Failed to load machine meter history", error);
+    return null;
+  }
+};
+
+/** Calendário de trabalho do setor; sem configuração, usa o calendário padrão. */
+export const getWorkingCalendar = async (
+  db: Firestore,
+  setor: string,
+): Promise<WorkingCalendar> => {
+  try {
+    const q = query(collection(db, "workingCalendars"), where("setor", "==", setor), limit(1));
+    const snap = await getDocs(q);
+    const doc = snap.docs[0];
+    const calendar = doc ? normalizeWorkingCalendar(doc.id, doc.data()) : null;
+    return calendar ?? buildDefaultWorkingCalendar(setor);
+  } catch (error) {
+    console.error("Failed to load working calendar", error);
+    return buildDefaultWorkingCalendar(setor);
+  }
+};
+
 type ResolveDriverNameParams = {
   actorKind: ChecklistActorKind;
   formDriverName?: string | null;
@@ -0,0 +1,325 @@
+import type {
+  DecodedFaultCode,
+  FaultCodeCatalogEntry,
+  FaultCodeProtocol,
+} from "@/types/fault-code";
+import type { Severity } from "@/types/nonconformity";
+
+export const FAULT_CODE_CATALOG_COLLECTION = "faultCodeCatalog";
+
+const SEVERITY_ORDER: Record<Severity, number> = { baixa: 1, media: 2, alta: 3 };
+
+const maxSeverity = (a: Severity, b: Severity): Severity => (SEVERITY_ORDER[a] >= SEVERITY_ORDER[b] ? a : b);
+
+/** Modos de falha J1939-73 (FMI). 22–30 são reservados. */
+export const J1939_FMI: Record<number, { failureMode: string; severity: Severity }> = {
+  0: { failureMode: "Dado válido, acima da faixa normal (nível mais severo)", severity: "alta" },
+  1: { failureMode: "Dado válido, abaixo da faixa normal (nível mais severo)", severity: "alta" },
+  2: { failureMode: "Dado errático, intermitente ou incorreto", severity: "media" },
+  3: { failureMode: "Tensão acima do normal ou curto com alimentação", severity: "media" },
+  4: { failureMode: "Tensão abaixo do normal ou curto com o terra", severity: "media" },
+  5: { failureMode: "Corrente abaixo do normal ou circuito aberto", severity: "media" },
+  6: { failureMode: "Corrente acima do normal ou circuito aterrado", severity: "media" },
+  7: { failureMode: "Sistema mecânico sem resposta ou desajustado", severity: "media" },
+  8: { failureMode: "Frequência, largura de pulso ou período anormal", severity: "media" },
+  9: { failureMode: "Taxa de atualização anormal", severity: "baixa" },
+  10: { failureMode: "Taxa de variação anormal", severity: "media" },
+  11: { failureMode: "Causa raiz desconhecida", severity: "media" },
+  12: { failureMode: "Dispositivo ou componente com defeito", severity: "media" },
+  13: { failureMode: "Fora de calibração", severity: "baixa" },
+  14: { failureMode: "Instruções especiais do fabricante", severity: "media" },
+  15: { failureMode: "Dado válido, acima da faixa normal (nível menos severo)", severity: "baixa" },
+  16: { failureMode: "Dado válido, acima da faixa normal (nível moderado)", severity: "media" },
+  17: { failureMode: "Dado válido, abaixo da faixa normal (nível menos severo)", severity: "baixa" },
+  18: { failureMode: "Dado válido, abaixo da faixa normal (nível moderado)", severity: "media" },
+  19: { failureMode: "Erro no dado recebido da rede", severity: "baixa" },
+  20: { failureMode: "Dado com desvio para cima", severity: "baixa" },
+  21: { failureMode: "Dado com desvio para baixo", severity: "baixa" },
+  31: { failureMode: "Condição presente", severity: "media" },
+};
+
+type BuiltinSpn = { component: string; systemCategory: string; critical?: boolean };
+
+/** SPNs J1939-71 mais comuns em máquinas e caminhões. */
+const J1939_SPN: Record<number, BuiltinSpn> = {
+  84: { component: "Velocidade do veículo", systemCategory: "Transmissão" },
+  91: { component: "Pedal do acelerador", systemCategory: "Motor" },
+  94: { component: "Pressão de alimentação de combustível", systemCategory: "Combustível" },
+  97: { component: "Água no combustível", systemCategory: "Combustível" },
+  100: { component: "Pressão do óleo do motor", systemCategory: "Motor", critical: true },
+  102: { component: "Pressão do coletor de admissão (turbo)", systemCategory: "Motor" },
+  105: { component: "Temperatura do coletor de admissão", systemCategory: "Motor" },
+  110: { component: "Temperatura do líquido de arrefecimento", systemCategory: "Arrefecimento", critical: true },
+  111: { component: "Nível do líquido de arrefecimento", systemCategory: "Arrefecimento", critical: true },
+  117: { component: "Pressão de ar do freio (circuito primário)", systemCategory: "Freios", critical: true },
+  118: { component: "Pressão de ar do freio (circuito secundário)", systemCategory: "Freios", critical: true },
+  127: { component: "Pressão do óleo da transmissão", systemCategory: "Transmissão" },
+  157: { component: "Pressão do rail de combustível", systemCategory: "Combustível" },
+  158: { component: "Tensão da chave de ignição", systemCategory: "Elétrico" },
+  168: { component: "Tensão da bateria", systemCategory: "Elétrico" },
+  174: { component: "Temperatura do combustível", systemCategory: "Combustível" },
+  175: { component: "Temperatura do óleo do motor", systemCategory: "Motor" },
+  177: { component: "Temperatura do óleo da transmissão", systemCategory: "Transmissão" },
+  190: { component: "Rotação do motor", systemCategory: "Motor" },
+  639: { component: "Rede de comunicação J1939", systemCategory: "Elétrico" },
+  1638: { component: "Temperatura do óleo hidráulico", systemCategory: "Hidráulico" },
+  1761: { component: "Nível de ARLA 32", systemCategory: "Emissões" },
+  1762: { component: "Pressão hidráulica", systemCategory: "Hidráulico" },
+  3226: { component: "Sensor de NOx na saída do pós-tratamento", systemCategory: "Emissões" },
+  3251: { component: "Pressão diferencial do filtro de partículas", systemCategory: "Emissões" },
+  3364: { component: "Qualidade do ARLA 32", systemCategory: "Emissões" },
+};
+
+const OBD2_LETTER: Record<string, { component: string; systemCategory: string }> = {
+  P: { component: "Trem de força", systemCategory: "Motor" },
+  C: { component: "Chassi", systemCategory: "Chassi" },
+  B: { component: "Carroceria", systemCategory: "Carroceria" },
+  U: { component: "Rede de comunicação", systemCategory: "Elétrico" },
+};
+
+/** Subgrupos SAE J2012 dos códigos P0xxx/P2xxx pelo terceiro caractere. */
+const OBD2_POWERTRAIN_GROUP: Record<string, { component: string; systemCategory: string }> = {
+  "0": { component: "Medição de ar e combustível", systemCategory: "Combustível" },
+  "1": { component: "Medição de ar e combustível", systemCategory: "Combustível" },
+  "2": { component: "Circuito dos injetores", systemCategory: "Combustível" },
+  "3": { component: "Ignição e falha de combustão", systemCategory: "Motor" },
+  "4": { component: "Controle de emissões", systemCategory: "Emissões" },
+  "5": { component: "Velocidade e marcha lenta", systemCategory: "Motor" },
+  "6": { component: "Módulo de controle", systemCategory: "Elétrico" },
+  "7": { component: "Transmissão", systemCategory: "Transmissão" },
+  "8": { component: "Transmissão", systemCategory: "Transmissão" },
+  "9": { component: "Transmissão", systemCategory: "Transmissão" },
+  A: { component: "Propulsão híbrida", systemCategory: "Elétrico" },
+};
+
+const OBD2_CODES: Record<string, { component: string; failureMode: string; systemCategory: string; severity: Severity }> = {
+  P0128: { component: "Termostato", failureMode: "Temperatura abaixo da regulagem", systemCategory: "Arrefecimento", severity: "baixa" },
+  P0217: { component: "Motor", failureMode: "Superaquecimento", systemCategory: "Arrefecimento", severity: "alta" },
+  P0300: { component: "Cilindros", failureMode: "Falha de combustão aleatória", systemCategory: "Motor", severity: "media" },
+  P0335: { component: "Sensor de posição do virabrequim", failureMode: "Falha no circuito", systemCategory: "Motor", severity: "alta" },
+  P0524: { component: "Pressão do óleo do motor", failureMode: "Pressão muito baixa", systemCategory: "Motor", severity: "alta" },
+  P0562: { component: "Tensão do sistema", failureMode: "Tensão baixa", systemCategory: "Elétrico", severity: "media" },
+};
+
+export type ParsedFaultCode = {
+  raw: string;
+  protocol: FaultCodeProtocol;
+  code: string;
+  spn?: number;
+  fmi?: number;
+};
+
+const J1939_PATTERN = /^(?:SPN)?\s*(\d{1,6})(?:\s*(?:[-:/.]|\s)\s*(?:FMI)?\s*(\d{1,2}))?$/i;
+const J1939_LABELED_PATTERN = /^SPN\s*(\d{1,6})\s*[-:/.,]?\s*FMI\s*(\d{1,2})$/i;
+const OBD2_PATTERN = /^[PCBU][0-3][0-9A-F]{3}$/i;
+
+/**
+ * Identifica o protocolo do código: `SPN 100 FMI 1`, `100-1` e `100:1` são J1939;
+ * `P0300` é OBD-II; o resto é tratado como código do fabricante.
+ */
+export function parseFaultCode(raw: string): ParsedFaultCode {
+  const trimmed = raw.trim();
+  const labeled = trimmed.match(J1939_LABELED_PATTERN);
+  const plain = labeled ?? (/^SPN/i.test(trimmed) || /[-:/.]/.test(trimmed) ? trimmed.match(J1939_PATTERN) : null);
+  if (plain) {
+    const spn = Number(plain[1]);
+    const fmi = plain[2] === undefined ? undefined : Number(plain[2]);
+    return { raw, protocol: "j1939", code: fmi === undefined ? String(spn) : `${spn}:${fmi}`, spn, fmi };
+  }
+  if (OBD2_PATTERN.test(trimmed)) {
+    return { raw, protocol: "obd2", code: trimmed.toUpperCase() };
+  }
+  return { raw, protocol: "oem", code: trimmed.toUpperCase() };
+}
+
+const normalizeOem = (value?: string | null) => value?.trim().toLowerCase() || undefined;
+
+function findCatalogEntry(
+  parsed: ParsedFaultCode,
+  catalog: FaultCodeCatalogEntry[],
+  oem?: string,
+): FaultCodeCatalogEntry | undefined {
+  const targetOem = normalizeOem(oem);
+  const candidates = catalog.filter((entry) => {
+    if (entry.protocol !== parsed.protocol) return false;
+    const entryOem = normalizeOem(entry.oem);
+    return !entryOem || entryOem === targetOem;
+  });
+  const keys = parsed.protocol === "j1939" && parsed.fmi !== undefined ? [parsed.code, String(parsed.spn)] : [parsed.code];
+  for (const key of keys) {
+    const matches = candidates.filter((entry) => entry.code === key);
+    const match = matches.find((entry) => normalizeOem(entry.oem)) ?? matches[0];
+    if (match) return match;
+  }
+  return undefined;
+}
+
+/**
+ * Decodifica o código em componente, modo de falha, sistema e severidade sugerida.
+ * O catálogo importado tem prioridade sobre as tabelas embutidas; entradas do
+ * fabricante (`oem`) têm prioridade sobre as genéricas.
+ */
+export function decodeFaultCode(
+  raw: string,
+  catalog: FaultCodeCatalogEntry[] = [],
+  oem?: string,
+): DecodedFaultCode {
+  const parsed = parseFaultCode(raw);
+  const base = {
+    raw,
+    protocol: parsed.protocol,
+    code: parsed.code,
+    ...(parsed.spn === undefined ? {} : { spn: parsed.spn }),
+    ...(parsed.fmi === undefined ? {} : { fmi: parsed.fmi }),
+  };
+  const fmi = parsed.fmi === undefined ? undefined : J1939_FMI[parsed.fmi];
+
+  const entry = findCatalogEntry(parsed, catalog, oem);
+  if (entry) {
+    const matchedSpnOnly = parsed.protocol === "j1939" && entry.code !== parsed.code;
+    return {
+      ...base,
+      component: entry.component,
+      failureMode: matchedSpnOnly && fmi ? fmi.failureMode : entry.failureMode,
+      systemCategory: entry.systemCategory,
+      severity: matchedSpnOnly && fmi ? maxSeverity(entry.severity, fmi.severity) : entry.severity,
+      source: "catalog",
+    };
+  }
+
+  if (parsed.protocol === "j1939") {
+    const spn = parsed.spn === undefined ? undefined : J1939_SPN[parsed.spn];
+    let severity: Severity = fmi?.severity ?? "media";
+    if (spn?.critical && (parsed.fmi === 0 || parsed.fmi === 1 || parsed.fmi === 16 || parsed.fmi === 18)) {
+      severity = "alta";
+    }
+    return {
+      ...base,
+      component: spn?.component ?? `SPN ${parsed.spn}`,
+      failureMode: fmi?.failureMode ?? (parsed.fmi === undefined ? "FMI não informado" : `FMI ${parsed.fmi}`),
+      systemCategory: spn?.systemCategory ?? "Não classificado",
+      severity,
+      source: spn && fmi ? "builtin" : "generic",
+    };
+  }
+
+  if (parsed.protocol === "obd2") {
+    const known = OBD2_CODES[parsed.code];
+    if (known) return { ...base, ...known, source: "builtin" };
+    const letter = parsed.code[0];
+    const group =
+      letter === "P" && (parsed.code[1] === "0" || parsed.code[1] === "2")
+        ? OBD2_POWERTRAIN_GROUP[parsed.code[2]]
+        : undefined;
+    const fallback = group ?? OBD2_LETTER[letter];
+    return {
+      ...base,
+      component: fallback.component,
+      failureMode: parsed.code[1] === "1" || parsed.code[1] === "3" ? "Código específico do fabricante" : "Código genérico SAE",
+      systemCategory: fallback.systemCategory,
+      severity: "media",
+      source: "generic",
+    };
+  }
+
+  return {
+    ...base,
+    component: "Código do fabricante",
+    failureMode: "Não catalogado",
+    systemCategory: "Não classificado",
+    severity: "media",
+    source: "generic",
+  };
+}
+
+/** Mesma normalização de títulos usada pela Cloud Function (`normalizedTitle`). */
+export const normalizeLabel = (value: string) =>
+  value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+
+/** Sistema da pergunta do template, com a mesma precedência de `extractSystem` na Cloud Function. */
+export function extractQuestionSystem(question: Record<string, unknown>): string | undefined {
+  for (const key of ["systemCategory", "system", "category", "group", "section"]) {
+    const value = question[key];
+    if (typeof value === "string" && value.trim()) return value.trim();
+  }
+  return undefined;
+}
+
+/**
+ * Ajusta o sistema decodificado ao vocabulário já usado nos templates e NCs
+ * (ex.: "Hidráulico" → "Sistema hidráulico"). Sem correspondência, mantém o rótulo.
+ */
+export function resolveSystemCategory(system: string, vocabulary: Iterable<string>): string {
+  const target = normalizeLabel(system);
+  if (!target) return system;
+  let partial: string | undefined;
+  for (const candidate of vocabulary) {
+    const normalized = normalizeLabel(candidate);
+    if (normalized === target) return candidate;
+    if (!partial && normalized.split(" ").includes(target)) partial = candidate;
+  }
+  return partial ?? system;
+}
+
+const CSV_COLUMNS = ["code", "component", "failureMode", "systemCategory", "severity"] as const;
+
+const isSeverity = (value: string): value is Severity => value === "baixa" || value === "media" || value === "alta";
+
+export type FaultCodeImportRow = Pick<
+  FaultCodeCatalogEntry,
+  "code" | "component" | "failureMode" | "systemCategory" | "severity"
+>;
+
+/**
+ * Lê a tabela de importação (`code;component;failureMode;systemCategory;severity`,
+ * separada por `;` ou `,`, com cabeçalho opcional). Linhas inválidas voltam em `errors`.
+ */
+export function parseFaultCodeCsv(text: string): { rows: FaultCodeImportRow[]; errors: string[] } {
+  const rows: FaultCodeImportRow[] = [];
+  const errors: string[] = [];
+  const lines = text.split(/\r?\n/).map((line) => line.trim());
+
+  lines.forEach((line, index) => {
+    if (!line || line.startsWith("#")) return;
+    const separator = line.includes(";") ? ";" : ",";
+    const cells = line.split(separator).map((cell) => cell.trim());
+    if (index === 0 && cells[0]?.toLowerCase() === "code") return;
+    const [code, component, failureMode, systemCategory, severity = "media"] = cells;
+    if (!code || !component) {
+      errors.push(`Linha ${index + 1}: informe código e componente`);
+      return;
+    }
+    const normalizedSeverity = severity.toLowerCase().normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+    if (!isSeverity(normalizedSeverity)) {
+      errors.push(`Linha ${index + 1}: severidade inválida (${severity})`);
+      return;
+    }
+    rows.push({
+      code,
+      component,
+      failureMode: failureMode || "Não informado",
+      systemCategory: systemCategory || "Não classificado",
+      severity: normalizedSeverity,
+    });
+  });
+
+  return { rows, errors };
+}
+
+export const FAULT_CODE_CSV_HEADER = CSV_COLUMNS.join(";");
+
+/** Código no formato de chave do catálogo (`SPN:FMI`, `P0300`...). */
+export function catalogCode(protocol: FaultCodeProtocol, code: string): string {
+  const parsed = parseFaultCode(code);
+  if (protocol === "j1939" && parsed.protocol === "j1939") return parsed.code;
+  if (protocol === "j1939" && /^\d+$/.test(code.trim())) return String(Number(code));
+  return code.trim().toUpperCase();
+}
+
+export const faultCodeCatalogId = (entry: Pick<FaultCodeCatalogEntry, "protocol" | "code" | "oem">) =>
+  [entry.protocol, normalizeOem(entry.oem) ?? "any", entry.code].join("_").replace(/[^0-9A-Za-z_-]/g, "-");
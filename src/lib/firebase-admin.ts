@@ -1,4 +1,5 @@
 import { applicationDefault, cert, getApp, getApps, initializeApp } from "firebase-admin/app";
+import { getAuth } from "firebase-admin/auth";
 import { getFirestore } from "firebase-admin/firestore";
 
 type ServiceAccountConfig = {
@@ -87,9 +88,9 @@ function resolveCredential() {
 }
 
 let cachedDb: import("firebase-admin/firestore").Firestore | undefined;
+let cachedAuth: import("firebase-admin/auth").Auth | undefined;
 
-export function getAdminDb() {
-  if (cachedDb) return cachedDb;
+function getAdminApp() {
   const projectId = resolveProjectId();
   if (!projectId && !process.env.FIREBASE_SERVICE_ACCOUNT && !process.env.FIREBASE_PROJECT_ID) {
     // When using applicationDefault() outside GCP, Google Auth often can't infer projectId.
@@ -99,8 +100,18 @@ export function getAdminDb() {
     );
   }
 
-  const app =
-    getApps().length ? getApp() : initializeApp({ credential: resolveCredential(), projectId: projectId });
-  cachedDb = getFirestore(app);
+  return getApps().length ? getApp() : initializeApp({ credential: resolveCredential(), projectId: projectId });
+}
+
+export function getAdminDb() {
+  if (cachedDb) return cachedDb;
+  cachedDb = getFirestore(getAdminApp());
   return cachedDb;
 }
+
+/** Auth do Admin SDK, usado para verificar o ID token enviado pelo painel. */
+export function getAdminAuth() {
+  if (cachedAuth) return cachedAuth;
+  cachedAuth = getAuth(getAdminApp());
+  return cachedAuth;
+}
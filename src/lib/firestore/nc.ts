@@ -8,7 +8,22 @@ import type {
   QueryDocumentSnapshot as AdminQueryDocumentSnapshot,
   Timestamp as AdminTimestamp,
 } from "firebase-admin/firestore";
-import type { NcAction, NonConformity, Severity, TelemetryRef } from "@/types/nonconformity";
+import type {
+  CapaVerification,
+  NcAction,
+  NcActionCost,
+  NcOccurrence,
+  NcOwner,
+  NcWaitingPart,
+  NonConformity,
+  Severity,
+  TelemetryRef,
+} from "@/types/nonconformity";
+import { parseRootCauseAnalysis } from "@/lib/root-cause";
+import { computeSlaDueAt, resolveSlaPolicy } from "@/lib/sla";
+import type { NcRecurrenceMatch } from "@/types/recurrence";
+import type { NcRootCauseAnalysis } from "@/types/root-cause";
+import { SLA_ESCALATION_LEVELS, type NcEscalation, type SlaEscalationLevel, type SlaState } from "@/types/sla";
 
 type AnyDocumentSnapshot =
   | ClientQueryDocumentSnapshot
@@ -44,6 +59,43 @@ function ensureIsoDate(value?: unknown): string {
   return new Date().toISOString();
 }
 
+const COST_NUMBER_FIELDS = ["laborHours", "laborRate", "parts", "services"] as const;
+
+/** Custos válidos da ação (números finitos e não negativos); `undefined` se nada foi lançado. */
+export function mapActionCost(raw: unknown): NcActionCost | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  const data = raw as Record<string, unknown>;
+  const cost: NcActionCost = {};
+  for (const field of COST_NUMBER_FIELDS) {
+    const value = data[field];
+    if (typeof value === "number" && Number.isFinite(value) && value >= 0) cost[field] = value;
+  }
+  if (typeof data.servicesDescription === "string" && data.servicesDescription.trim()) {
+    cost.servicesDescription = data.servicesDescription.trim();
+  }
+  return Object.keys(cost).length ? cost : undefined;
+}
+
+function mapVerification(raw: unknown): CapaVerification | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  const data = raw as Record<string, unknown>;
+  if (typeof data.dueAt !== "string") return undefined;
+  const status = data.status === "proposed" || data.status === "confirmed" ? data.status : "scheduled";
+  return {
+    dueAt: data.dueAt,
+    status,
+    ...(data.proposal === "effective" || data.proposal === "not_effective" ? { proposal: data.proposal } : {}),
+    ...(data.evidence && typeof data.evidence === "object"
+      ? { evidence: data.evidence as CapaVerification["evidence"] }
+      : {}),
+    ...(typeof data.proposedAt === "string" ? { proposedAt: data.proposedAt } : {}),
+    ...(typeof data.decidedAt === "string" ? { decidedAt: data.decidedAt } : {}),
+    ...(data.decidedBy && typeof data.decidedBy === "object"
+      ? { decidedBy: data.decidedBy as CapaVerification["decidedBy"] }
+      : {}),
+  };
+}
+
 function mapAction(raw: unknown): NcAction | undefined {
   if (!raw || typeof raw !== "object") return undefined;
   const action = raw as Record<string, unknown>;
@@ -72,6 +124,10 @@ function mapAction(raw: unknown): NcAction | undefined {
   if (typeof action.startedAt === "string") mapped.startedAt = action.startedAt;
   if (typeof action.completedAt === "string") mapped.completedAt = action.completedAt;
   if (typeof action.effective === "boolean") mapped.effective = action.effective;
+  const cost = mapActionCost(action.cost);
+  if (cost) mapped.cost = cost;
+  const verification = mapVerification(action.verification);
+  if (verification) mapped.verification = verification;
 
   return mapped;
 }
@@ -92,6 +148,82 @@ function mapTelemetry(raw: unknown): TelemetryRef | undefined {
   return telemetry;
 }
 
+function mapWaitingPart(raw: unknown): NcWaitingPart | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  const data = raw as Record<string, unknown>;
+  if (typeof data.partNumber !== "string" || typeof data.expectedAt !== "string") return undefined;
+  return { partNumber: data.partNumber, expectedAt: data.expectedAt };
+}
+
+function mapRootCauseAnalysis(raw: unknown): NcRootCauseAnalysis | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  const parsed = parseRootCauseAnalysis(raw);
+  return parsed.ok && parsed.data ? parsed.data : undefined;
+}
+
+function mapOccurrence(raw: unknown): NcOccurrence | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  const data = raw as Record<string, unknown>;
+  if (typeof data.createdAt !== "string") return undefined;
+  const createdBy = (data.createdBy ?? {}) as Record<string, unknown>;
+  const reading = (data.reading ?? {}) as Record<string, unknown>;
+  return {
+    ...(typeof data.ncId === "string" ? { ncId: data.ncId } : {}),
+    title: typeof data.title === "string" ? data.title : "",
+    ...(typeof data.description === "string" ? { description: data.description } : {}),
+    createdAt: data.createdAt,
+    createdBy: {
+      id: typeof createdBy.id === "string" ? createdBy.id : "",
+      matricula: typeof createdBy.matricula === "string" ? createdBy.matricula : "",
+      ...(typeof createdBy.nome === "string" ? { nome: createdBy.nome } : {}),
+    },
+    originChecklistResponseId: typeof data.originChecklistResponseId === "string" ? data.originChecklistResponseId : "",
+    ...(typeof data.originQuestionId === "string" ? { originQuestionId: data.originQuestionId } : {}),
+    ...(Array.isArray(data.photoUrls)
+      ? { photoUrls: data.photoUrls.filter((url): url is string => typeof url === "string") }
+      : {}),
+    ...(typeof reading.km === "number" || typeof reading.horimetro === "number"
+      ? {
+          reading: {
+            ...(typeof reading.km === "number" ? { km: reading.km } : {}),
+            ...(typeof reading.horimetro === "number" ? { horimetro: reading.horimetro } : {}),
+          },
+        }
+      : {}),
+    ...(typeof data.mergedAt === "string" ? { mergedAt: data.mergedAt } : {}),
+  };
+}
+
+function mapOwner(raw: unknown): NcOwner | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  const data = raw as Record<string, unknown>;
+  if (typeof data.id !== "string" || !data.id) return undefined;
+  return { id: data.id, ...(typeof data.nome === "string" ? { nome: data.nome } : {}) };
+}
+
+function mapRecurrenceMatch(raw: unknown): NcRecurrenceMatch | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  const data = raw as Record<string, unknown>;
+  if (typeof data.ofId !== "string") return undefined;
+  const status = data.status === "confirmed" || data.status === "unlinked" ? data.status : "suggested";
+  return {
+    ofId: data.ofId,
+    status,
+    ...(data.rule === "origin_question" || data.rule === "text_similarity" ? { rule: data.rule } : {}),
+    ...(typeof data.score === "number" ? { score: data.score } : {}),
+    ...(typeof data.decidedAt === "string" ? { decidedAt: data.decidedAt } : {}),
+    ...(data.decidedBy && typeof data.decidedBy === "object"
+      ? { decidedBy: data.decidedBy as NcRecurrenceMatch["decidedBy"] }
+      : {}),
+  };
+}
+
+const isSlaState = (value: unknown): value is SlaState =>
+  value === "on_track" || value === "due_soon" || value === "overdue";
+
+const isSlaEscalationLevel = (value: unknown): value is SlaEscalationLevel =>
+  typeof value === "string" && (SLA_ESCALATION_LEVELS as readonly string[]).includes(value);
+
 function getSeverityRank(severity?: Severity, fallback?: number): number {
   if (severity && SEVERITY_RANK[severity]) {
     return SEVERITY_RANK[severity];
@@ -141,7 +273,7 @@ export function mapNonConformityDoc(doc: AnyDocumentSnapshot): NonConformity {
     linkedTemplateId:
       typeof data?.linkedTemplateId === "string" ? data?.linkedTemplateId : undefined,
     source:
-      data?.source === "checklist_extra" ? "checklist_extra" : "checklist_question",
+      data?.source === "checklist_extra" || data?.source === "telemetry" ? data.source : "checklist_question",
     originChecklistResponseId:
       typeof data?.originChecklistResponseId === "string"
         ? data?.originChecklistResponseId
@@ -149,15 +281,34 @@ export function mapNonConformityDoc(doc: AnyDocumentSnapshot): NonConformity {
     originQuestionId:
       typeof data?.originQuestionId === "string" ? data?.originQuestionId : undefined,
     rootCause: typeof data?.rootCause === "string" ? data?.rootCause : undefined,
+    rootCauseAnalysis: mapRootCauseAnalysis(data?.rootCauseAnalysis),
     actions,
+    owner: mapOwner(data?.owner),
     recurrenceOfId:
       typeof data?.recurrenceOfId === "string" ? data?.recurrenceOfId : undefined,
+    recurrenceMatch: mapRecurrenceMatch(data?.recurrenceMatch),
     telemetryRef: mapTelemetry(data?.telemetryRef),
     yearMonth:
       typeof data?.yearMonth === "string" ? data?.yearMonth : createdAtIso.slice(0, 7),
     severityRank: getSeverityRank(severity, data?.severityRank as number | undefined),
     systemCategory:
       typeof data?.systemCategory === "string" ? data?.systemCategory : undefined,
+    faultCode: typeof data?.faultCode === "string" ? data?.faultCode : undefined,
+    waitingPart: mapWaitingPart(data?.waitingPart),
+    blockedReason: typeof data?.blockedReason === "string" ? data?.blockedReason : undefined,
+    reopenCount: typeof data?.reopenCount === "number" ? data?.reopenCount : undefined,
+    slaState: isSlaState(data?.slaState) ? data.slaState : undefined,
+    slaPolicyId: typeof data?.slaPolicyId === "string" ? data?.slaPolicyId : undefined,
+    escalationLevel: isSlaEscalationLevel(data?.escalationLevel) ? data.escalationLevel : undefined,
+    escalations: Array.isArray(data?.escalations) ? (data.escalations as NcEscalation[]) : undefined,
+    workOrderId: typeof data?.workOrderId === "string" ? data?.workOrderId : undefined,
+    capaVerificationDueAt:
+      typeof data?.capaVerificationDueAt === "string" ? data?.capaVerificationDueAt : undefined,
+    occurrences: Array.isArray(data?.occurrences)
+      ? data.occurrences.map(mapOccurrence).filter((item): item is NcOccurrence => Boolean(item))
+      : undefined,
+    mergedIntoId: typeof data?.mergedIntoId === "string" ? data?.mergedIntoId : undefined,
+    splitFromId: typeof data?.splitFromId === "string" ? data?.splitFromId : undefined,
   };
 }
 
@@ -170,6 +321,8 @@ export function serializeActions(actions: NcAction[] | undefined): NcAction[] {
     startedAt: action.startedAt,
     completedAt: action.completedAt,
     effective: action.effective,
+    ...(action.cost ? { cost: action.cost } : {}),
+    ...(action.verification ? { verification: action.verification } : {}),
   }));
 }
 
@@ -177,9 +330,7 @@ export function severityRank(severity: Severity | undefined): number {
   return getSeverityRank(severity, undefined);
 }
 
+/** Prazo pela política padrão de SLA; `resolveSlaPolicy` considera as políticas configuradas. */
 export function defaultDueAt(createdAt: string, severity: Severity): string {
-  const base = new Date(createdAt);
-  const days = severity === "alta" ? 2 : severity === "media" ? 5 : 10;
-  base.setDate(base.getDate() + days);
-  return base.toISOString();
+  return computeSlaDueAt(createdAt, resolveSlaPolicy({ severity }));
 }
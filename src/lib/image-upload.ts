@@ -0,0 +1,90 @@
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const [header, data] = dataUrl.split(",");
+  if (!header || !data) {
+    throw new Error("INVALID_DATA_URL");
+  }
+  const mimeMatch = header.match(/data:(.*);base64/);
+  const mimeType = mimeMatch ? mimeMatch[1] : "image/png";
+  const binary = atob(data);
+  const length = binary.length;
+  const buffer = new Uint8Array(length);
+  for (let index = 0; index < length; index++) {
+    buffer[index] = binary.charCodeAt(index);
+  }
+  return new Blob([buffer], { type: mimeType });
+};
+
+const sanitizeFilenameSegment = (segment: string): string => {
+  return segment.replace(/[^a-zA-Z0-9-_]/g, "-");
+};
+
+export const resolveBlobExtension = (blob: Blob, fallback = "png"): string => {
+  if (typeof File !== "undefined" && blob instanceof File && typeof blob.name === "string") {
+    const extensionMatch = blob.name.match(/\.([a-zA-Z0-9]+)$/);
+    if (extensionMatch?.[1]) {
+      const normalized = extensionMatch[1].toLowerCase();
+      return normalized === "jpeg" ? "jpg" : normalized;
+    }
+  }
+  if (blob.type) {
+    const typeExtension = blob.type.split("/").pop();
+    if (typeExtension && typeExtension !== blob.type) {
+      const normalized = typeExtension.toLowerCase();
+      return normalized === "jpeg" ? "jpg" : normalized;
+    }
+  }
+  return fallback;
+};
+
+export const buildUploadFilename = (segments: string[], extension: string): string => {
+  const sanitizedSegments = segments
+    .map((segment) => sanitizeFilenameSegment(segment))
+    .filter((segment) => Boolean(segment));
+  const base = sanitizedSegments.length ? sanitizedSegments.join("-") : "upload";
+  const safeExtension = extension.replace(/[^a-zA-Z0-9]/g, "").toLowerCase() || "png";
+  return `${base}.${safeExtension}`;
+};
+
+export const uploadImageToR2 = async (image: Blob | File, filename: string): Promise<string> => {
+  const sanitizedFilename = filename.replace(/[^a-zA-Z0-9-_.]/g, "-");
+  const finalFilename = sanitizedFilename || "upload.png";
+  const baseName = finalFilename.replace(/\.[^./]+$/, "");
+
+  const formData = new FormData();
+  formData.append("image", image, finalFilename);
+  formData.append("filename", finalFilename);
+  formData.append("name", baseName || "upload");
+
+  let response: Response;
+  try {
+    response = await fetch("/api/images/upload", {
+      method: "POST",
+      body: formData,
+    });
+  } catch (networkError) {
+    console.error("Falha de rede ao enviar imagem para o R2", networkError);
+    throw new Error("R2_UPLOAD_NETWORK_ERROR");
+  }
+
+  type UploadResponse = { url?: string; error?: string };
+  let payload: UploadResponse | null = null;
+  try {
+    payload = (await response.json()) as UploadResponse;
+  } catch (parseError) {
+    console.error("Falha ao interpretar resposta da API de upload", parseError);
+  }
+
+  if (!response.ok) {
+    console.error("Resposta inválida ao enviar imagem", { status: response.status, payload });
+    throw new Error("R2_UPLOAD_FAILED");
+  }
+
+  const resolvedUrl = payload?.url;
+
+  if (!resolvedUrl) {
+    console.error("Resposta da API de upload sem URL", payload);
+    throw new Error("R2_UPLOAD_NO_URL");
+  }
+
+  return resolvedUrl;
+};
@@ -0,0 +1,96 @@
+import type { MachineStatus, MachineStatusPeriod } from "@/types/machine";
+
+const MS_IN_HOUR = 1000 * 60 * 60;
+
+export type MachineAvailability = {
+  machineId: string;
+  /** Horas do intervalo em que a máquina estava ativa (exclui o tempo desativada). */
+  scheduledHours: number;
+  availableHours: number;
+  restrictedHours: number;
+  downHours: number;
+  retiredHours: number;
+  /** Paradas iniciadas dentro do intervalo. */
+  downtimeEvents: number;
+  /** Percentual do tempo ativo fora de manutenção; null quando a máquina esteve desativada o tempo todo. */
+  availability: number | null;
+};
+
+export type FleetAvailability = Omit<MachineAvailability, "machineId"> & {
+  machines: number;
+  downNow: number;
+};
+
+type StatusPeriodInput = Pick<MachineStatusPeriod, "status" | "start" | "end">;
+
+const roundHours = (value: number) => Number(value.toFixed(1));
+
+function toPercent(value: number, total: number): number | null {
+  if (total <= 0) return null;
+  return Number(((value / total) * 100).toFixed(1));
+}
+
+/**
+ * Distribui o intervalo [from, to) entre os status registrados da máquina.
+ * Trechos sem período registrado contam como disponíveis.
+ */
+export function calcMachineAvailability(
+  machineId: string,
+  periods: StatusPeriodInput[],
+  from: Date,
+  to: Date,
+): MachineAvailability {
+  const fromMs = from.getTime();
+  const toMs = to.getTime();
+  const totals: Record<MachineStatus, number> = { available: 0, restricted: 0, down: 0, retired: 0 };
+  let downtimeEvents = 0;
+  let covered = 0;
+
+  for (const period of periods) {
+    const startMs = Date.parse(period.start);
+    const endMs = period.end ? Date.parse(period.end) : toMs;
+    if (Number.isNaN(startMs) || Number.isNaN(endMs)) continue;
+    const overlap = Math.min(endMs, toMs) - Math.max(startMs, fromMs);
+    if (overlap <= 0) continue;
+    totals[period.status] += overlap;
+    covered += overlap;
+    if (period.status === "down" && startMs >= fromMs) downtimeEvents += 1;
+  }
+
+  totals.available += Math.max(0, toMs - fromMs - covered);
+  const scheduled = totals.available + totals.restricted + totals.down;
+
+  return {
+    machineId,
+    scheduledHours: roundHours(scheduled / MS_IN_HOUR),
+    availableHours: roundHours(totals.available / MS_IN_HOUR),
+    restrictedHours: roundHours(totals.restricted / MS_IN_HOUR),
+    downHours: roundHours(totals.down / MS_IN_HOUR),
+    retiredHours: roundHours(totals.retired / MS_IN_HOUR),
+    downtimeEvents,
+    availability: toPercent(scheduled - totals.down, scheduled),
+  };
+}
+
+/** Consolida a frota somando as horas de cada máquina. */
+export function calcFleetAvailability(
+  machines: MachineAvailability[],
+  statuses: Array<MachineStatus | null | undefined> = [],
+): FleetAvailability {
+  const sum = (key: keyof Omit<MachineAvailability, "machineId" | "availability">) =>
+    machines.reduce((total, machine) => total + machine[key], 0);
+  const scheduledHours = sum("scheduledHours");
+  const downHours = sum("downHours");
+
+  return {
+    machines: machines.length,
+    downNow: statuses.filter((status) => status === "down").length,
+    scheduledHours: roundHours(scheduledHours),
+    availableHours: roundHours(sum("availableHours")),
+    restrictedHours: roundHours(sum("restrictedHours")),
+    downHours: roundHours(downHours),
+    retiredHours: roundHours(sum("retiredHours")),
+    downtimeEvents: sum("downtimeEvents"),
+    availability: toPercent(scheduledHours - downHours, scheduledHours),
+  };
+}
@@ -0,0 +1,202 @@
+import { type HourReading, operatingHoursByMachine } from "@/lib/kpis/reliability";
+import type { NcActionCost, NonConformity } from "@/types/nonconformity";
+
+const UNCLASSIFIED_SYSTEM = "Não classificado";
+const UNASSIGNED_SETOR = "Sem setor";
+
+export type KmReading = {
+  machineId: string;
+  at: string;
+  /** Odômetro acumulado (leitura + deslocamentos de troca de medidor). */
+  km: number;
+};
+
+export type CostBreakdown = {
+  labor: number;
+  parts: number;
+  services: number;
+  total: number;
+};
+
+export type CostEntry = CostBreakdown & {
+  ncId: string;
+  actionId: string;
+  machineId: string;
+  system: string;
+  /** Conclusão da ação ou, na falta dela, abertura da NC. */
+  at: string;
+};
+
+export type CostMetrics = CostBreakdown & {
+  ncs: number;
+  operatingHours: number;
+  kmDriven: number;
+  /** Custo por hora de operação; null sem horas registradas. */
+  costPerHour: number | null;
+  /** Custo por km rodado; null sem km registrados. */
+  costPerKm: number | null;
+};
+
+export type CostMachine = { id: string; tag?: string; modelo?: string; setor?: string };
+
+export type CostReport = {
+  fleet: CostMetrics;
+  byMachine: Array<CostMetrics & { machineId: string; tag: string; modelo: string; setor: string }>;
+  byModel: Array<CostMetrics & { modelo: string; machines: number }>;
+  bySetor: Array<CostMetrics & { setor: string; machines: number }>;
+  bySystem: Array<CostMetrics & { system: string }>;
+  byMonth: Array<CostMetrics & { month: string }>;
+};
+
+const round2 = (value: number) => Number(value.toFixed(2));
+
+const positive = (value?: number) => (typeof value === "number" && Number.isFinite(value) && value > 0 ? value : 0);
+
+export function actionCostBreakdown(cost?: NcActionCost): CostBreakdown {
+  const labor = positive(cost?.laborHours) * positive(cost?.laborRate);
+  const parts = positive(cost?.parts);
+  const services = positive(cost?.services);
+  return { labor: round2(labor), parts: round2(parts), services: round2(services), total: round2(labor + parts + services) };
+}
+
+/** Valor da hora de mão de obra padrão (`MAINTENANCE_LABOR_RATE`); null se não configurado. */
+export function resolveLaborRate(env: Record<string, string | undefined> = process.env): number | null {
+  const rate = Number(env.MAINTENANCE_LABOR_RATE);
+  return env.MAINTENANCE_LABOR_RATE && Number.isFinite(rate) && rate >= 0 ? rate : null;
+}
+
+/** Um lançamento por ação com custo; ações sem custo ficam de fora. */
+export function deriveCostEntries(
+  records: Array<Pick<NonConformity, "id" | "createdAt" | "systemCategory" | "actions"> & { linkedAsset: { id: string } }>,
+): CostEntry[] {
+  return records.flatMap((record) =>
+    (record.actions ?? [])
+      .filter((action) => action.cost)
+      .map((action) => ({
+        ncId: record.id,
+        actionId: action.id,
+        machineId: record.linkedAsset.id,
+        system: record.systemCategory?.trim() || UNCLASSIFIED_SYSTEM,
+        at: action.completedAt ?? record.createdAt,
+        ...actionCostBreakdown(action.cost),
+      }))
+      .filter((entry) => entry.total > 0 && !Number.isNaN(Date.parse(entry.at))),
+  );
+}
+
+export function calcCostMetrics(entries: CostEntry[], operatingHours: number, kmDriven: number): CostMetrics {
+  const sum = (key: keyof CostBreakdown) => entries.reduce((total, entry) => total + entry[key], 0);
+  const total = sum("total");
+  return {
+    labor: round2(sum("labor")),
+    parts: round2(sum("parts")),
+    services: round2(sum("services")),
+    total: round2(total),
+    ncs: new Set(entries.map((entry) => entry.ncId)).size,
+    operatingHours: Number(operatingHours.toFixed(1)),
+    kmDriven: Number(kmDriven.toFixed(1)),
+    costPerHour: operatingHours > 0 ? round2(total / operatingHours) : null,
+    costPerKm: kmDriven > 0 ? round2(total / kmDriven) : null,
+  };
+}
+
+/**
+ * Custos de manutenção das máquinas informadas, por máquina, modelo, setor,
+ * sistema (`systemCategory`) e mês. Horas e km vêm das leituras dos checklists;
+ * sistemas usam o uso de todas as máquinas do escopo.
+ */
+export function buildCostReport(options: {
+  machines: CostMachine[];
+  entries: CostEntry[];
+  hourReadings: HourReading[];
+  kmReadings: KmReading[];
+}): CostReport {
+  const machineIds = new Set(options.machines.map((machine) => machine.id));
+  const entries = options.entries.filter((entry) => machineIds.has(entry.machineId));
+  const hours = operatingHoursByMachine(options.hourReadings.filter((reading) => machineIds.has(reading.machineId)));
+  const km = operatingHoursByMachine(
+    options.kmReadings
+      .filter((reading) => machineIds.has(reading.machineId))
+      .map((reading) => ({ machineId: reading.machineId, at: reading.at, hours: reading.km })),
+  );
+  const hoursOf = (list: CostMachine[]) => list.reduce((total, machine) => total + (hours.get(machine.id)?.total ?? 0), 0);
+  const kmOf = (list: CostMachine[]) => list.reduce((total, machine) => total + (km.get(machine.id)?.total ?? 0), 0);
+
+  const groupBy = <K>(keyOf: (entry: CostEntry) => K) => {
+    const map = new Map<K, CostEntry[]>();
+    for (const entry of entries) {
+      const key = keyOf(entry);
+      map.set(key, [...(map.get(key) ?? []), entry]);
+    }
+    return map;
+  };
+  const groupMachines = (keyOf: (machine: CostMachine) => string) => {
+    const map = new Map<string, CostMachine[]>();
+    for (const machine of options.machines) {
+      const key = keyOf(machine);
+      map.set(key, [...(map.get(key) ?? []), machine]);
+    }
+    return map;
+  };
+
+  const entriesByMachine = groupBy((entry) => entry.machineId);
+  const machineMetrics = (list: CostMachine[]) =>
+    calcCostMetrics(
+      list.flatMap((machine) => entriesByMachine.get(machine.id) ?? []),
+      hoursOf(list),
+      kmOf(list),
+    );
+  const byTotal = <T extends { total: number }>(a: T, b: T) => b.total - a.total;
+
+  const byMachine = options.machines
+    .map((machine) => ({
+      machineId: machine.id,
+      tag: machine.tag || machine.id,
+      modelo: machine.modelo || machine.id,
+      setor: machine.setor?.trim() || UNASSIGNED_SETOR,
+      ...machineMetrics([machine]),
+    }))
+    .sort(byTotal);
+
+  const byModel = Array.from(groupMachines((machine) => machine.modelo || machine.id))
+    .map(([modelo, list]) => ({ modelo, machines: list.length, ...machineMetrics(list) }))
+    .sort(byTotal);
+
+  const bySetor = Array.from(groupMachines((machine) => machine.setor?.trim() || UNASSIGNED_SETOR))
+    .map(([setor, list]) => ({ setor, machines: list.length, ...machineMetrics(list) }))
+    .sort(byTotal);
+
+  const totalHours = hoursOf(options.machines);
+  const totalKm = kmOf(options.machines);
+  const bySystem = Array.from(groupBy((entry) => entry.system))
+    .map(([system, list]) => ({ system, ...calcCostMetrics(list, totalHours, totalKm) }))
+    .sort(byTotal);
+
+  const monthly = (source: Map<string, { byMonth: Map<string, number> }>) => {
+    const map = new Map<string, number>();
+    for (const machine of options.machines) {
+      for (const [month, value] of source.get(machine.id)?.byMonth ?? []) {
+        map.set(month, (map.get(month) ?? 0) + value);
+      }
+    }
+    return map;
+  };
+  const hoursByMonth = monthly(hours);
+  const kmByMonth = monthly(km);
+  const entriesByMonth = groupBy((entry) => new Date(entry.at).toISOString().slice(0, 7));
+  const byMonth = Array.from(new Set([...entriesByMonth.keys(), ...hoursByMonth.keys(), ...kmByMonth.keys()]))
+    .sort()
+    .map((month) => ({
+      month,
+      ...calcCostMetrics(entriesByMonth.get(month) ?? [], hoursByMonth.get(month) ?? 0, kmByMonth.get(month) ?? 0),
+    }));
+
+  return {
+    fleet: calcCostMetrics(entries, totalHours, totalKm),
+    byMachine,
+    byModel,
+    bySetor,
+    bySystem,
+    byMonth,
+  };
+}
@@ -1,4 +1,6 @@
-﻿import type { NcAction, NonConformity } from "@/types/nonconformity";
+﻿import { classifyRootCause } from "@/lib/root-cause";
+import type { NcAction, NonConformity } from "@/types/nonconformity";
+import { ISHIKAWA_CATEGORY_LABEL } from "@/types/root-cause";
 
 type TimeGranularity = "day" | "week";
 
@@ -8,6 +10,20 @@ export type TimeSeriesPoint = {
   closed: number;
 };
 
+/** NCs mescladas em outra (`mergedIntoId`) contam só como ocorrência da principal. */
+export function isMergedNc(record: Pick<NonConformity, "mergedIntoId">): boolean {
+  return Boolean(record.mergedIntoId);
+}
+
+export function countableNcs<T extends Pick<NonConformity, "mergedIntoId">>(records: T[]): T[] {
+  return records.filter((record) => !isMergedNc(record));
+}
+
+/** Relatos do problema: cada NC principal mais as ocorrências mescladas nela. */
+export function countOccurrences(records: NonConformity[]): number {
+  return countableNcs(records).reduce((sum, record) => sum + 1 + (record.occurrences?.length ?? 0), 0);
+}
+
 function getFirstCorrectiveAction(actions?: NcAction[]): NcAction | undefined {
   return actions?.find((action) => action.type === "corretiva");
 }
@@ -25,7 +41,7 @@ function hoursBetween(startISO?: string, endISO?: string): number | undefined {
 }
 
 export function calcOnTimePercentage(records: NonConformity[]): number {
-  const closed = records.filter((record) => record.status === "resolvida" && record.dueAt);
+  const closed = countableNcs(records).filter((record) => record.status === "resolvida" && record.dueAt);
   if (!closed.length) return 0;
   const onTime = closed.filter((record) => {
     const action = getCompletedCorrectiveAction(record.actions);
@@ -39,14 +55,15 @@ export function calcOnTimePercentage(records: NonConformity[]): number {
 }
 
 export function calcRecurrenceRate(records: NonConformity[]): number {
-  if (!records.length) return 0;
-  const recurrent = records.filter((record) => Boolean(record.recurrenceOfId)).length;
-  return Number(((recurrent / records.length) * 100).toFixed(1));
+  const countable = countableNcs(records);
+  if (!countable.length) return 0;
+  const recurrent = countable.filter((record) => Boolean(record.recurrenceOfId)).length;
+  return Number(((recurrent / countable.length) * 100).toFixed(1));
 }
 
 export function calcAvgContainmentHours(records: NonConformity[]): number {
   const durations: number[] = [];
-  for (const record of records) {
+  for (const record of countableNcs(records)) {
     const action = getFirstCorrectiveAction(record.actions);
     const duration = hoursBetween(record.createdAt, action?.startedAt);
     if (typeof duration === "number") {
@@ -60,7 +77,7 @@ export function calcAvgContainmentHours(records: NonConformity[]): number {
 
 export function calcAvgResolutionHours(records: NonConformity[]): number {
   const durations: number[] = [];
-  for (const record of records) {
+  for (const record of countableNcs(records)) {
     const action = getCompletedCorrectiveAction(record.actions);
     const duration = hoursBetween(record.createdAt, action?.completedAt);
     if (typeof duration === "number") {
@@ -104,6 +121,7 @@ export function groupByDayWeek(
   records: NonConformity[],
   granularity: TimeGranularity = "day",
 ): TimeSeriesPoint[] {
+  records = countableNcs(records);
   if (records.length === 0) return [];
   const periods = Array.from(collectPeriods(records, granularity)).sort();
   const openedMap = new Map<string, number>();
@@ -133,23 +151,34 @@ export function groupByDayWeek(
 }
 
 export function countOpenedBySeverity(records: NonConformity[]): Record<string, number> {
-  return records.reduce<Record<string, number>>((acc, record) => {
+  return countableNcs(records).reduce<Record<string, number>>((acc, record) => {
     const key = record.severity ?? "sem_classificacao";
     acc[key] = (acc[key] ?? 0) + 1;
     return acc;
   }, {});
 }
 
+/** Agrupa pela causa da taxonomia (`classifyRootCause`), não pelo texto livre. */
 export function groupByRootCause(records: NonConformity[]): Record<string, number> {
-  return records.reduce<Record<string, number>>((acc, record) => {
-    const key = record.rootCause?.trim() || "Sem causa definida";
+  return countableNcs(records).reduce<Record<string, number>>((acc, record) => {
+    const key = classifyRootCause(record).label;
+    acc[key] = (acc[key] ?? 0) + 1;
+    return acc;
+  }, {});
+}
+
+/** Contagem por categoria de Ishikawa; textos sem correspondência ficam em "Não classificada". */
+export function groupByRootCauseCategory(records: NonConformity[]): Record<string, number> {
+  return countableNcs(records).reduce<Record<string, number>>((acc, record) => {
+    const { category, label } = classifyRootCause(record);
+    const key = category ? ISHIKAWA_CATEGORY_LABEL[category] : label;
     acc[key] = (acc[key] ?? 0) + 1;
     return acc;
   }, {});
 }
 
 export function groupBySystem(records: NonConformity[]): Record<string, number> {
-  return records.reduce<Record<string, number>>((acc, record) => {
+  return countableNcs(records).reduce<Record<string, number>>((acc, record) => {
     const key = record.systemCategory || "Não classificado";
     acc[key] = (acc[key] ?? 0) + 1;
     return acc;
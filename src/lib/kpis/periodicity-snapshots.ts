@@ -0,0 +1,194 @@
+import type { DocumentSnapshot, Firestore } from "firebase-admin/firestore";
+import { getAdminDb } from "@/lib/firebase-admin";
+import { enqueueNotificationEvent, notificationEventId } from "@/lib/notifications";
+import {
+  type PeriodicityComplianceItem,
+  type PeriodicityComplianceResult,
+  loadPeriodicityCompliance,
+  sanitizeDate,
+} from "./periodicity";
+
+export const PERIODICITY_CACHE_TTL_MINUTES = 15;
+
+const CACHE_COLLECTION = "kpiCache";
+const CACHE_DOC = "periodicity";
+const SNAPSHOTS_COLLECTION = "periodicitySnapshots";
+export const MISSED_CHECKLIST_EVENTS_COLLECTION = "missedChecklistEvents";
+
+export type MissedChecklistEventStatus = "open" | "acknowledged" | "justified";
+
+export type MissedChecklistEventActor = {
+  id: string;
+  nome?: string | null;
+};
+
+/** Transição de `compliant` para `non_compliant` detectada entre duas execuções do job. */
+export type MissedChecklistEvent = {
+  id: string;
+  templateId: string;
+  templateName: string;
+  machineId: string;
+  machineName?: string;
+  unit: PeriodicityComplianceItem["unit"];
+  quantity: number;
+  anchor: PeriodicityComplianceItem["anchor"];
+  lastSubmissionAt?: string;
+  detectedAt: string;
+  snapshotId: string;
+  status: MissedChecklistEventStatus;
+  acknowledgedAt?: string;
+  acknowledgedBy?: MissedChecklistEventActor;
+  /** Motivo informado pelo supervisor, ex.: máquina parada ou em manutenção. */
+  justification?: string;
+  justifiedAt?: string;
+  justifiedBy?: MissedChecklistEventActor;
+};
+
+export type CachedPeriodicityCompliance = PeriodicityComplianceResult & {
+  cachedAt: string;
+  expiresAt: string;
+};
+
+const pairKey = (item: Pick<PeriodicityComplianceItem, "templateId" | "machineId">) =>
+  `${item.templateId}::${item.machineId}`;
+
+/**
+ * Itens que estavam em conformidade na execução anterior e deixaram de estar.
+ * Pares sem registro anterior (primeira execução ou vínculo novo) não geram transição.
+ */
+export function detectPeriodicityTransitions(
+  previous: PeriodicityComplianceItem[] | null,
+  current: PeriodicityComplianceItem[],
+): PeriodicityComplianceItem[] {
+  if (!previous) return [];
+  const previousStatus = new Map(previous.map((item) => [pairKey(item), item.status]));
+  return current.filter(
+    (item) => item.status === "non_compliant" && previousStatus.get(pairKey(item)) === "compliant",
+  );
+}
+
+/** Lê o cache do job; `null` se ausente ou expirado em `now`. */
+export async function readPeriodicityCache(
+  options: { db?: Firestore; now?: Date } = {},
+): Promise<CachedPeriodicityCompliance | null> {
+  const db = options.db ?? getAdminDb();
+  const now = options.now ?? new Date();
+  const snapshot = await db.collection(CACHE_COLLECTION).doc(CACHE_DOC).get();
+  if (!snapshot.exists) return null;
+  const data = snapshot.data() as Partial<CachedPeriodicityCompliance> | undefined;
+  const expiresAt = sanitizeDate(data?.expiresAt);
+  if (!data || !expiresAt || !Array.isArray(data.items) || !data.summary || !data.generatedAt) {
+    return null;
+  }
+  if (Date.parse(expiresAt) <= now.getTime()) return null;
+  return {
+    generatedAt: data.generatedAt,
+    summary: data.summary,
+    items: data.items,
+    cachedAt: data.cachedAt ?? data.generatedAt,
+    expiresAt,
+  };
+}
+
+/**
+ * Execução do job de periodicidade: recalcula a conformidade, grava um snapshot
+ * datado, registra as transições como eventos de checklist perdido (com aviso por
+ * e-mail) e atualiza o cache.
+ */
+export async function runPeriodicityCheck(options: { db?: Firestore; now?: Date } = {}): Promise<{
+  result: PeriodicityComplianceResult;
+  snapshotId: string;
+  events: MissedChecklistEvent[];
+}> {
+  const db = options.db ?? getAdminDb();
+  const now = options.now ?? new Date();
+  const cacheRef = db.collection(CACHE_COLLECTION).doc(CACHE_DOC);
+
+  const [result, previousSnap] = await Promise.all([
+    loadPeriodicityCompliance({ db, now }),
+    cacheRef.get(),
+  ]);
+  const previousItems = previousSnap.exists
+    ? ((previousSnap.data()?.items as PeriodicityComplianceItem[] | undefined) ?? null)
+    : null;
+  const transitions = detectPeriodicityTransitions(previousItems, result.items);
+
+  const snapshotRef = await db.collection(SNAPSHOTS_COLLECTION).add({
+    generatedAt: result.generatedAt,
+    summary: result.summary,
+    items: result.items,
+    transitions: transitions.length,
+  });
+
+  const events: MissedChecklistEvent[] = [];
+  for (const item of transitions) {
+    const event: Omit<MissedChecklistEvent, "id"> = {
+      templateId: item.templateId,
+      templateName: item.templateName,
+      machineId: item.machineId,
+      ...(item.machineName ? { machineName: item.machineName } : {}),
+      unit: item.unit,
+      quantity: item.quantity,
+      anchor: item.anchor,
+      ...(item.lastSubmissionAt ? { lastSubmissionAt: item.lastSubmissionAt } : {}),
+      detectedAt: result.generatedAt,
+      snapshotId: snapshotRef.id,
+      status: "open",
+    };
+    const eventRef = await db.collection(MISSED_CHECKLIST_EVENTS_COLLECTION).add(event);
+    events.push({ id: eventRef.id, ...event });
+    await enqueueNotificationEvent(
+      db,
+      { id: notificationEventId("checklist_missed", eventRef.id), kind: "checklist_missed", refId: eventRef.id },
+      now,
+    );
+  }
+
+  await cacheRef.set({
+    generatedAt: result.generatedAt,
+    summary: result.summary,
+    items: result.items,
+    cachedAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + PERIODICITY_CACHE_TTL_MINUTES * 60 * 1000).toISOString(),
+  });
+
+  return { result, snapshotId: snapshotRef.id, events };
+}
+
+function mapActor(raw: unknown): MissedChecklistEventActor | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  const data = raw as Record<string, unknown>;
+  if (typeof data.id !== "string" || !data.id) return undefined;
+  return { id: data.id, nome: typeof data.nome === "string" ? data.nome : null };
+}
+
+export function mapMissedChecklistEvent(doc: Pick<DocumentSnapshot, "id" | "data">): MissedChecklistEvent {
+  const data = (doc.data() ?? {}) as Record<string, unknown>;
+  const status: MissedChecklistEventStatus =
+    data.status === "acknowledged" || data.status === "justified" ? data.status : "open";
+  const event: MissedChecklistEvent = {
+    id: doc.id,
+    templateId: String(data.templateId ?? ""),
+    templateName: String(data.templateName ?? data.templateId ?? ""),
+    machineId: String(data.machineId ?? ""),
+    unit: (data.unit as MissedChecklistEvent["unit"]) ?? "day",
+    quantity: typeof data.quantity === "number" ? data.quantity : 1,
+    anchor: data.anchor === "calendar" ? "calendar" : "last_submission",
+    detectedAt: sanitizeDate(data.detectedAt) ?? new Date(0).toISOString(),
+    snapshotId: String(data.snapshotId ?? ""),
+    status,
+  };
+  if (typeof data.machineName === "string") event.machineName = data.machineName;
+  const lastSubmissionAt = sanitizeDate(data.lastSubmissionAt);
+  if (lastSubmissionAt) event.lastSubmissionAt = lastSubmissionAt;
+  const acknowledgedAt = sanitizeDate(data.acknowledgedAt);
+  if (acknowledgedAt) event.acknowledgedAt = acknowledgedAt;
+  const acknowledgedBy = mapActor(data.acknowledgedBy);
+  if (acknowledgedBy) event.acknowledgedBy = acknowledgedBy;
+  if (typeof data.justification === "string") event.justification = data.justification;
+  const justifiedAt = sanitizeDate(data.justifiedAt);
+  if (justifiedAt) event.justifiedAt = justifiedAt;
+  const justifiedBy = mapActor(data.justifiedBy);
+  if (justifiedBy) event.justifiedBy = justifiedBy;
+  return event;
+}
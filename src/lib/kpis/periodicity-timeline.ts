@@ -0,0 +1,336 @@
+import type { Firestore } from "firebase-admin/firestore";
+import { getAdminDb } from "@/lib/firebase-admin";
+import { isUsagePeriodicityUnit } from "@/lib/meter-readings";
+import {
+  type CalendarPeriod,
+  DEFAULT_CALENDAR_TIMEZONE,
+  buildDefaultWorkingCalendar,
+  isoWeekKeyForDay,
+  listCalendarPeriodsBetween,
+  listRollingPeriods,
+} from "@/lib/working-calendar";
+import type { ChecklistPeriodicityUnit } from "@/types/checklist";
+import type { WorkingCalendar } from "@/types/working-calendar";
+import {
+  type MachineRecord,
+  type TemplateRecord,
+  fetchMachines,
+  fetchTemplates,
+  fetchWorkingCalendars,
+  resolveMachineName,
+  sanitizeDate,
+} from "./periodicity";
+
+const MS_IN_DAY = 24 * 60 * 60 * 1000;
+/** Fração do período após o fim em que um envio ainda conta como atrasado (e não perdido). */
+const LATE_GRACE_RATIO = 0.5;
+
+export type PeriodicityPeriodStatus = "done" | "late" | "missed" | "open";
+
+export type PeriodicityTimelineGranularity = "day" | "week" | "month";
+
+export type PeriodicityTimelinePeriod = CalendarPeriod & {
+  status: PeriodicityPeriodStatus;
+  submittedAt?: string;
+};
+
+export type PeriodicityTimelineCounts = {
+  expected: number;
+  done: number;
+  late: number;
+  missed: number;
+  open: number;
+  /** Percentual de períodos encerrados com envio (no prazo ou atrasado). */
+  compliance: number | null;
+  /** Percentual de períodos encerrados com envio dentro do prazo. */
+  onTime: number | null;
+};
+
+export type PeriodicityTimelinePair = {
+  templateId: string;
+  templateName: string;
+  machineId: string;
+  machineName: string;
+  setor: string;
+  periods: PeriodicityTimelinePeriod[];
+};
+
+export type PeriodicityTimelineResult = {
+  generatedAt: string;
+  from: string;
+  to: string;
+  granularity: PeriodicityTimelineGranularity;
+  summary: PeriodicityTimelineCounts;
+  byMachine: Array<PeriodicityTimelineCounts & { machineId: string; machineName: string; setor: string }>;
+  bySetor: Array<PeriodicityTimelineCounts & { setor: string }>;
+  byTemplate: Array<PeriodicityTimelineCounts & { templateId: string; templateName: string }>;
+  trend: Array<PeriodicityTimelineCounts & { bucket: string }>;
+  heatmap: {
+    days: string[];
+    rows: Array<{
+      machineId: string;
+      machineName: string;
+      cells: PeriodicityTimelineCounts[];
+    }>;
+  };
+  /** Presente apenas quando solicitado, com cada período avaliado por par template/máquina. */
+  pairs?: PeriodicityTimelinePair[];
+};
+
+export type PeriodicityTimelineFilters = {
+  from: Date;
+  to: Date;
+  machineId?: string;
+  templateId?: string;
+  setor?: string;
+};
+
+type MutableCounts = Pick<PeriodicityTimelineCounts, "expected" | "done" | "late" | "missed" | "open">;
+
+const emptyCounts = (): MutableCounts => ({ expected: 0, done: 0, late: 0, missed: 0, open: 0 });
+
+const percent = (value: number, total: number) => (total ? Math.round((value / total) * 1000) / 10 : null);
+
+function finalizeCounts(counts: MutableCounts): PeriodicityTimelineCounts {
+  const closed = counts.done + counts.late + counts.missed;
+  return {
+    ...counts,
+    compliance: percent(counts.done + counts.late, closed),
+    onTime: percent(counts.done, closed),
+  };
+}
+
+function addStatus(counts: MutableCounts, status: PeriodicityPeriodStatus) {
+  counts.expected += 1;
+  counts[status] += 1;
+}
+
+function resolveGranularity(from: Date, to: Date): PeriodicityTimelineGranularity {
+  const days = (to.getTime() - from.getTime()) / MS_IN_DAY;
+  if (days <= 31) return "day";
+  if (days <= 120) return "week";
+  return "month";
+}
+
+function bucketFor(day: string, granularity: PeriodicityTimelineGranularity): string {
+  if (granularity === "week") return isoWeekKeyForDay(day);
+  if (granularity === "month") return day.slice(0, 7);
+  return day;
+}
+
+function listDays(from: Date, to: Date, timezone: string): string[] {
+  const days = listRollingPeriods(timezone, 1, from, to).map((period) => period.day);
+  return Array.from(new Set(days));
+}
+
+/**
+ * Classifica um período: `done` com envio dentro dele, `late` com envio até
+ * {@link LATE_GRACE_RATIO} do período após o fim, `missed` sem envio e `open`
+ * enquanto ainda é possível cumpri-lo.
+ */
+export function classifyPeriod(
+  period: Pick<CalendarPeriod, "start" | "end">,
+  submissions: number[],
+  now: Date,
+): { status: PeriodicityPeriodStatus; submittedAt?: string } {
+  const startMs = Date.parse(period.start);
+  const endMs = Date.parse(period.end);
+  const graceEndMs = endMs + (endMs - startMs) * LATE_GRACE_RATIO;
+
+  const inside = submissions.find((time) => time >= startMs && time < endMs);
+  if (inside !== undefined) return { status: "done", submittedAt: new Date(inside).toISOString() };
+
+  const late = submissions.find((time) => time >= endMs && time < graceEndMs);
+  if (late !== undefined && late <= now.getTime()) {
+    return { status: "late", submittedAt: new Date(late).toISOString() };
+  }
+
+  return { status: graceEndMs > now.getTime() ? "open" : "missed" };
+}
+
+function expectedPeriods(
+  template: TemplateRecord,
+  calendar: WorkingCalendar,
+  from: Date,
+  to: Date,
+): CalendarPeriod[] {
+  const { periodicity } = template;
+  if (periodicity.anchor === "calendar") {
+    return listCalendarPeriodsBetween(calendar, periodicity.unit as ChecklistPeriodicityUnit, from, to);
+  }
+  return listRollingPeriods(calendar.timezone, periodicity.windowDays, from, to);
+}
+
+async function fetchSubmissionTimes(
+  db: Firestore,
+  templateId: string,
+  from: Date,
+  until: Date,
+): Promise<Map<string, number[]>> {
+  const snapshot = await db
+    .collection("checklistResponses")
+    .where("templateId", "==", templateId)
+    .where("createdAt", ">=", from.toISOString())
+    .where("createdAt", "<=", until.toISOString())
+    .orderBy("createdAt", "desc")
+    .get();
+
+  const byMachine = new Map<string, number[]>();
+  for (const doc of snapshot.docs) {
+    const data = doc.data();
+    const machineId = typeof data.machineId === "string" ? data.machineId : null;
+    const createdAt = sanitizeDate(data.createdAt ?? data.createdAtTs);
+    if (!machineId || !createdAt) continue;
+    const list = byMachine.get(machineId) ?? [];
+    list.push(Date.parse(createdAt));
+    byMachine.set(machineId, list);
+  }
+  for (const list of byMachine.values()) list.sort((a, b) => a - b);
+  return byMachine;
+}
+
+/**
+ * Histórico de conformidade de periodicidade: divide cada par template/máquina
+ * nos períodos esperados do intervalo e agrega o resultado por máquina, setor,
+ * template e período. Periodicidades por uso (horas/km) não entram no histórico.
+ */
+export async function loadPeriodicityTimeline(options: {
+  filters: PeriodicityTimelineFilters;
+  granularity?: PeriodicityTimelineGranularity;
+  includePeriods?: boolean;
+  now?: Date;
+  db?: Firestore;
+}): Promise<PeriodicityTimelineResult> {
+  const db = options.db ?? getAdminDb();
+  const now = options.now ?? new Date();
+  const { filters } = options;
+  const from = filters.from;
+  const to = filters.to.getTime() > now.getTime() ? now : filters.to;
+  const granularity = options.granularity ?? resolveGranularity(from, to);
+
+  const [templates, allMachines, calendars] = await Promise.all([
+    fetchTemplates(db, filters),
+    fetchMachines(db, filters),
+    fetchWorkingCalendars(db),
+  ]);
+  const machines = filters.setor
+    ? allMachines.filter((machine) => machine.setor === filters.setor)
+    : allMachines;
+  const timeTemplates = templates.filter((template) => !isUsagePeriodicityUnit(template.periodicity.unit));
+
+  const summary = emptyCounts();
+  const byMachine = new Map<string, MutableCounts>();
+  const bySetor = new Map<string, MutableCounts>();
+  const byTemplate = new Map<string, MutableCounts>();
+  const trend = new Map<string, MutableCounts>();
+  const heatmapCells = new Map<string, Map<string, MutableCounts>>();
+  const pairs: PeriodicityTimelinePair[] = [];
+
+  const bump = <K>(map: Map<K, MutableCounts>, key: K, status: PeriodicityPeriodStatus) => {
+    let counts = map.get(key);
+    if (!counts) {
+      counts = emptyCounts();
+      map.set(key, counts);
+    }
+    addStatus(counts, status);
+  };
+
+  for (const template of timeTemplates) {
+    const assigned = machines.filter(
+      (machine: MachineRecord) =>
+        (machine.checklists ?? []).includes(template.id) ||
+        (filters.templateId === template.id && filters.machineId === machine.id),
+    );
+    if (!assigned.length) continue;
+
+    // Busca também envios logo após o intervalo, que podem marcar o último período como atrasado.
+    const lookahead = new Date(to.getTime() + Math.max(template.periodicity.windowDays, 31) * MS_IN_DAY);
+    const submissionsByMachine = await fetchSubmissionTimes(db, template.id, from, lookahead);
+
+    for (const machine of assigned) {
+      const calendar = calendars.get(machine.setor) ?? buildDefaultWorkingCalendar(machine.setor);
+      const submissions = submissionsByMachine.get(machine.id) ?? [];
+      const periods = expectedPeriods(template, calendar, from, to).map((period) => ({
+        ...period,
+        ...classifyPeriod(period, submissions, now),
+      }));
+
+      for (const period of periods) {
+        addStatus(summary, period.status);
+        bump(byMachine, machine.id, period.status);
+        bump(bySetor, machine.setor, period.status);
+        bump(byTemplate, template.id, period.status);
+        bump(trend, bucketFor(period.day, granularity), period.status);
+        let cells = heatmapCells.get(machine.id);
+        if (!cells) {
+          cells = new Map();
+          heatmapCells.set(machine.id, cells);
+        }
+        bump(cells, period.day, period.status);
+      }
+
+      if (options.includePeriods) {
+        pairs.push({
+          templateId: template.id,
+          templateName: template.title,
+          machineId: machine.id,
+          machineName: resolveMachineName(machine),
+          setor: machine.setor,
+          periods,
+        });
+      }
+    }
+  }
+
+  const machineById = new Map(machines.map((machine) => [machine.id, machine]));
+  const templateById = new Map(timeTemplates.map((template) => [template.id, template]));
+  const days = listDays(from, to, DEFAULT_CALENDAR_TIMEZONE);
+
+  const result: PeriodicityTimelineResult = {
+    generatedAt: now.toISOString(),
+    from: from.toISOString(),
+    to: to.toISOString(),
+    granularity,
+    summary: finalizeCounts(summary),
+    byMachine: Array.from(byMachine.entries())
+      .map(([machineId, counts]) => {
+        const machine = machineById.get(machineId)!;
+        return {
+          machineId,
+          machineName: resolveMachineName(machine),
+          setor: machine.setor,
+          ...finalizeCounts(counts),
+        };
+      })
+      .sort((a, b) => (a.compliance ?? 101) - (b.compliance ?? 101)),
+    bySetor: Array.from(bySetor.entries())
+      .map(([setor, counts]) => ({ setor, ...finalizeCounts(counts) }))
+      .sort((a, b) => a.setor.localeCompare(b.setor)),
+    byTemplate: Array.from(byTemplate.entries())
+      .map(([templateId, counts]) => ({
+        templateId,
+        templateName: templateById.get(templateId)?.title ?? templateId,
+        ...finalizeCounts(counts),
+      }))
+      .sort((a, b) => a.templateName.localeCompare(b.templateName)),
+    trend: Array.from(trend.entries())
+      .map(([bucket, counts]) => ({ bucket, ...finalizeCounts(counts) }))
+      .sort((a, b) => a.bucket.localeCompare(b.bucket)),
+    heatmap: {
+      days,
+      rows: Array.from(heatmapCells.entries())
+        .map(([machineId, cells]) => ({
+          machineId,
+          machineName: resolveMachineName(machineById.get(machineId)!),
+          cells: days.map((day) => finalizeCounts(cells.get(day) ?? emptyCounts())),
+        }))
+        .sort((a, b) => a.machineName.localeCompare(b.machineName)),
+    },
+  };
+
+  if (options.includePeriods) {
+    result.pairs = pairs;
+  }
+
+  return result;
+}
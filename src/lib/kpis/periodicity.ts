@@ -1,10 +1,30 @@
 import type { Firestore } from "firebase-admin/firestore";
 import { getAdminDb } from "@/lib/firebase-admin";
+import {
+  METER_HISTORY_LIMIT,
+  type MeterHistory,
+  USAGE_PERIODICITY_METER,
+  type UsagePeriodicityStatus,
+  buildMeterHistory,
+  computeAverageDailyUsage,
+  cumulativeReading,
+  cumulativeValue,
+  evaluateUsagePeriodicity,
+  isUsagePeriodicityUnit,
+} from "@/lib/meter-readings";
+import {
+  type CalendarPeriod,
+  buildDefaultWorkingCalendar,
+  evaluateCalendarCompliance,
+  normalizeWorkingCalendar,
+} from "@/lib/working-calendar";
 import type {
+  ChecklistResponse,
   ChecklistTemplate,
   ChecklistTemplatePeriodicity,
 } from "@/types/checklist";
 import type { Machine } from "@/types/machine";
+import type { WorkingCalendar } from "@/types/working-calendar";
 
 export type PeriodicityComplianceStatus = "compliant" | "non_compliant";
 
@@ -19,6 +39,10 @@ export type PeriodicityComplianceItem = {
   quantity: number;
   anchor: ChecklistTemplatePeriodicity["anchor"];
   status: PeriodicityComplianceStatus;
+  /** Presente nas periodicidades por uso (horas/km) quando há leituras. */
+  usage?: UsagePeriodicityStatus;
+  /** Na âncora `calendar`, período útil mais antigo que precisa estar coberto. */
+  calendarPeriod?: CalendarPeriod;
 };
 
 export type PeriodicityComplianceSummary = {
@@ -40,19 +64,19 @@ export type PeriodicityComplianceFilters = {
   templateId?: string;
 };
 
-type TemplateRecord = Pick<ChecklistTemplate, "id" | "title"> & {
+export type TemplateRecord = Pick<ChecklistTemplate, "id" | "title"> & {
   periodicity: ChecklistTemplatePeriodicity;
 };
 
-type MachineRecord = Pick<Machine, "id" | "modelo" | "tag" | "setor" | "checklists">;
+export type MachineRecord = Pick<Machine, "id" | "modelo" | "tag" | "setor" | "checklists">;
 
-function resolveMachineName(machine: MachineRecord): string {
+export function resolveMachineName(machine: MachineRecord): string {
   if (machine.modelo && machine.modelo.trim()) return machine.modelo;
   if (machine.tag && machine.tag.trim()) return machine.tag;
   return machine.id;
 }
 
-function sanitizeDate(value: unknown): string | undefined {
+export function sanitizeDate(value: unknown): string | undefined {
   if (typeof value === "string" && value) {
     const date = new Date(value);
     if (!Number.isNaN(date.getTime())) {
@@ -68,7 +92,7 @@ function sanitizeDate(value: unknown): string | undefined {
   return undefined;
 }
 
-async function fetchTemplates(db: Firestore, filters: PeriodicityComplianceFilters): Promise<TemplateRecord[]> {
+export async function fetchTemplates(db: Firestore, filters: PeriodicityComplianceFilters): Promise<TemplateRecord[]> {
   if (filters.templateId) {
     const doc = await db.collection("checklistTemplates").doc(filters.templateId).get();
     if (!doc.exists) {
@@ -105,7 +129,7 @@ async function fetchTemplates(db: Firestore, filters: PeriodicityComplianceFilte
     .filter((value): value is TemplateRecord => Boolean(value));
 }
 
-async function fetchMachines(db: Firestore, filters: PeriodicityComplianceFilters): Promise<MachineRecord[]> {
+export async function fetchMachines(db: Firestore, filters: PeriodicityComplianceFilters): Promise<MachineRecord[]> {
   if (filters.machineId) {
     const doc = await db.collection("machines").doc(filters.machineId).get();
     if (!doc.exists) {
@@ -140,12 +164,27 @@ async function fetchMachines(db: Firestore, filters: PeriodicityComplianceFilter
   });
 }
 
+export async function fetchWorkingCalendars(db: Firestore): Promise<Map<string, WorkingCalendar>> {
+  const snapshot = await db.collection("workingCalendars").get();
+  const calendars = new Map<string, WorkingCalendar>();
+  for (const doc of snapshot.docs) {
+    const calendar = normalizeWorkingCalendar(doc.id, doc.data());
+    if (calendar) calendars.set(calendar.setor, calendar);
+  }
+  return calendars;
+}
+
+type LastSubmission = {
+  at: string | undefined;
+  response: Partial<ChecklistResponse>;
+};
+
 async function fetchLastSubmission(
   db: Firestore,
   templateId: string,
   machineId: string,
   until?: Date,
-): Promise<string | undefined> {
+): Promise<LastSubmission | undefined> {
   let query = db
     .collection("checklistResponses")
     .where("templateId", "==", templateId)
@@ -160,7 +199,57 @@ async function fetchLastSubmission(
     return undefined;
   }
   const data = snapshot.docs[0].data();
-  return sanitizeDate(data.createdAt ?? data.createdAtTs);
+  return {
+    at: sanitizeDate(data.createdAt ?? data.createdAtTs),
+    response: data as Partial<ChecklistResponse>,
+  };
+}
+
+async function fetchMeterHistory(db: Firestore, machineId: string, until?: Date): Promise<MeterHistory> {
+  let query = db.collection("checklistResponses").where("machineId", "==", machineId);
+  if (until) {
+    query = query.where("createdAt", "<=", until.toISOString());
+  }
+  const snapshot = await query.orderBy("createdAt", "desc").limit(METER_HISTORY_LIMIT).get();
+  return buildMeterHistory(
+    snapshot.docs.map((doc) => {
+      const data = doc.data() as Partial<ChecklistResponse>;
+      return { id: doc.id, at: sanitizeDate(data.createdAt ?? data.createdAtTs), data };
+    }),
+  );
+}
+
+/**
+ * Avalia a periodicidade por uso comparando a leitura acumulada do último envio
+ * do template com a leitura mais recente da máquina (de qualquer checklist).
+ */
+function evaluateUsage(
+  periodicity: ChecklistTemplatePeriodicity,
+  last: LastSubmission | undefined,
+  history: MeterHistory,
+): UsagePeriodicityStatus | undefined {
+  if (!last?.at || !isUsagePeriodicityUnit(periodicity.unit)) return undefined;
+  const meter = USAGE_PERIODICITY_METER[periodicity.unit];
+  const entries = history.entries[meter];
+  const latest = entries[0];
+  if (!latest) return undefined;
+
+  const lastTime = new Date(last.at).getTime();
+  const baselineEntry = entries.find((entry) => new Date(entry.at).getTime() <= lastTime);
+  const lastCumulative =
+    cumulativeReading(last.response as Pick<ChecklistResponse, "km" | "horimetro" | "meterOffsets">, meter) ??
+    (baselineEntry ? cumulativeValue(baselineEntry) : null);
+  if (lastCumulative === null) return undefined;
+
+  return evaluateUsagePeriodicity({
+    meter,
+    interval: periodicity.quantity,
+    lastCumulative,
+    currentCumulative: cumulativeValue(latest),
+    currentOffset: latest.offset,
+    currentReadingAt: new Date(latest.at),
+    averageDailyUsage: computeAverageDailyUsage(entries),
+  });
 }
 
 export async function loadPeriodicityCompliance(options: {
@@ -173,9 +262,10 @@ export async function loadPeriodicityCompliance(options: {
   const now = options.now ?? new Date();
   const referenceTime = filters.to ?? now;
 
-  const [templates, machines] = await Promise.all([
+  const [templates, machines, calendars] = await Promise.all([
     fetchTemplates(db, filters),
     fetchMachines(db, filters),
+    fetchWorkingCalendars(db),
   ]);
 
   const combos: Array<{ template: TemplateRecord; machine: MachineRecord }> = [];
@@ -192,18 +282,48 @@ export async function loadPeriodicityCompliance(options: {
 
   const chunkSize = 10;
   const items: PeriodicityComplianceItem[] = [];
+  const historyByMachine = new Map<string, Promise<MeterHistory>>();
+  const loadHistory = (machineId: string) => {
+    let history = historyByMachine.get(machineId);
+    if (!history) {
+      history = fetchMeterHistory(db, machineId, referenceTime);
+      historyByMachine.set(machineId, history);
+    }
+    return history;
+  };
 
   for (let index = 0; index < combos.length; index += chunkSize) {
     const chunk = combos.slice(index, index + chunkSize);
     const results = await Promise.all(
       chunk.map(async ({ template, machine }) => {
-        const lastSubmissionAt = await fetchLastSubmission(db, template.id, machine.id, referenceTime);
-        const lastDate = lastSubmissionAt ? new Date(lastSubmissionAt) : null;
-        const windowMs = template.periodicity.windowDays * 24 * 60 * 60 * 1000;
-        const status: PeriodicityComplianceStatus =
-          lastDate && !Number.isNaN(lastDate.getTime()) && referenceTime.getTime() - lastDate.getTime() <= windowMs
-            ? "compliant"
-            : "non_compliant";
+        const last = await fetchLastSubmission(db, template.id, machine.id, referenceTime);
+        const lastSubmissionAt = last?.at;
+        let status: PeriodicityComplianceStatus;
+        let usage: UsagePeriodicityStatus | undefined;
+        let calendarPeriod: CalendarPeriod | undefined;
+        const { unit } = template.periodicity;
+
+        if (isUsagePeriodicityUnit(unit)) {
+          usage = evaluateUsage(template.periodicity, last, await loadHistory(machine.id));
+          status = usage && usage.remaining > 0 ? "compliant" : "non_compliant";
+        } else if (template.periodicity.anchor === "calendar") {
+          const evaluation = evaluateCalendarCompliance({
+            calendar: calendars.get(machine.setor) ?? buildDefaultWorkingCalendar(machine.setor),
+            unit,
+            quantity: template.periodicity.quantity,
+            lastSubmissionAt,
+            reference: referenceTime,
+          });
+          status = evaluation.status;
+          calendarPeriod = evaluation.duePeriod ?? undefined;
+        } else {
+          const lastDate = lastSubmissionAt ? new Date(lastSubmissionAt) : null;
+          const windowMs = template.periodicity.windowDays * 24 * 60 * 60 * 1000;
+          status =
+            lastDate && !Number.isNaN(lastDate.getTime()) && referenceTime.getTime() - lastDate.getTime() <= windowMs
+              ? "compliant"
+              : "non_compliant";
+        }
 
         return {
           templateId: template.id,
@@ -216,6 +336,8 @@ export async function loadPeriodicityCompliance(options: {
           quantity: template.periodicity.quantity,
           anchor: template.periodicity.anchor,
           status,
+          ...(usage ? { usage } : {}),
+          ...(calendarPeriod ? { calendarPeriod } : {}),
         } satisfies PeriodicityComplianceItem;
       }),
     );
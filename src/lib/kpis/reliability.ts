@@ -0,0 +1,234 @@
+import type { NcAction, NonConformity } from "@/types/nonconformity";
+
+const MS_IN_HOUR = 1000 * 60 * 60;
+const UNCLASSIFIED_SYSTEM = "Não classificado";
+
+export type HourReading = {
+  machineId: string;
+  at: string;
+  /** Horímetro acumulado (leitura + deslocamentos de troca de medidor). */
+  hours: number;
+};
+
+export type ReliabilityMetrics = {
+  failures: number;
+  repairedFailures: number;
+  operatingHours: number;
+  /** Horas de operação por falha; null sem falhas ou sem horas registradas. */
+  mtbf: number | null;
+  /** Média de horas entre a abertura da NC e a conclusão das ações corretivas. */
+  mttr: number | null;
+  /** Falhas por 1.000 h de operação. */
+  failureRatePer1000h: number | null;
+  /** Disponibilidade inerente: MTBF / (MTBF + MTTR), em %. */
+  availability: number | null;
+};
+
+export type ReliabilityFailure = {
+  ncId: string;
+  machineId: string;
+  system: string;
+  occurredAt: string;
+  repairHours: number | null;
+};
+
+type FailureSource = Pick<NonConformity, "id" | "createdAt" | "systemCategory" | "actions" | "status"> & {
+  linkedAsset: Pick<NonConformity["linkedAsset"], "id">;
+};
+
+const round = (value: number) => Number(value.toFixed(1));
+
+function completedCorrectiveEnd(actions?: NcAction[]): number | null {
+  const completed = (actions ?? [])
+    .filter((action) => action.type === "corretiva" && action.completedAt)
+    .map((action) => Date.parse(action.completedAt as string))
+    .filter((time) => !Number.isNaN(time));
+  return completed.length ? Math.max(...completed) : null;
+}
+
+/**
+ * NCs que representam falhas: ficam de fora as que só têm ações preventivas
+ * (melhorias, não quebras). O reparo termina na última ação corretiva concluída.
+ */
+export function deriveFailures(records: FailureSource[]): ReliabilityFailure[] {
+  return records
+    .filter((record) => {
+      const actions = record.actions ?? [];
+      return !actions.length || actions.some((action) => action.type === "corretiva");
+    })
+    .map((record) => {
+      const openedAt = Date.parse(record.createdAt);
+      const repairedAt = record.status === "resolvida" ? completedCorrectiveEnd(record.actions) : null;
+      return {
+        ncId: record.id,
+        machineId: record.linkedAsset.id,
+        system: record.systemCategory?.trim() || UNCLASSIFIED_SYSTEM,
+        occurredAt: record.createdAt,
+        repairHours:
+          repairedAt !== null && !Number.isNaN(openedAt) && repairedAt >= openedAt
+            ? (repairedAt - openedAt) / MS_IN_HOUR
+            : null,
+      };
+    })
+    .filter((failure) => !Number.isNaN(Date.parse(failure.occurredAt)));
+}
+
+/**
+ * Horas de operação por máquina no intervalo, somando os avanços positivos do
+ * horímetro entre leituras consecutivas. Cada avanço é atribuído ao mês da leitura posterior.
+ */
+export function operatingHoursByMachine(
+  readings: HourReading[],
+): Map<string, { total: number; byMonth: Map<string, number> }> {
+  const byMachine = new Map<string, HourReading[]>();
+  for (const reading of readings) {
+    if (!Number.isFinite(reading.hours) || Number.isNaN(Date.parse(reading.at))) continue;
+    const list = byMachine.get(reading.machineId) ?? [];
+    list.push(reading);
+    byMachine.set(reading.machineId, list);
+  }
+
+  const result = new Map<string, { total: number; byMonth: Map<string, number> }>();
+  for (const [machineId, list] of byMachine) {
+    list.sort((a, b) => Date.parse(a.at) - Date.parse(b.at));
+    const byMonth = new Map<string, number>();
+    let total = 0;
+    for (let index = 1; index < list.length; index += 1) {
+      const delta = list[index].hours - list[index - 1].hours;
+      if (delta <= 0) continue;
+      total += delta;
+      const month = new Date(list[index].at).toISOString().slice(0, 7);
+      byMonth.set(month, (byMonth.get(month) ?? 0) + delta);
+    }
+    result.set(machineId, { total, byMonth });
+  }
+  return result;
+}
+
+export function calcReliabilityMetrics(failures: ReliabilityFailure[], operatingHours: number): ReliabilityMetrics {
+  const repairs = failures
+    .map((failure) => failure.repairHours)
+    .filter((value): value is number => typeof value === "number");
+  const mtbf = failures.length && operatingHours > 0 ? operatingHours / failures.length : null;
+  const mttr = repairs.length ? repairs.reduce((sum, value) => sum + value, 0) / repairs.length : null;
+
+  return {
+    failures: failures.length,
+    repairedFailures: repairs.length,
+    operatingHours: round(operatingHours),
+    mtbf: mtbf === null ? null : round(mtbf),
+    mttr: mttr === null ? null : round(mttr),
+    failureRatePer1000h: operatingHours > 0 ? round((failures.length / operatingHours) * 1000) : null,
+    availability: mtbf !== null && mttr !== null ? round((mtbf / (mtbf + mttr)) * 100) : null,
+  };
+}
+
+/**
+ * Leituras de horímetro vindas da telemetria anexada às NCs (`telemetryRef.hours`),
+ * usadas quando a máquina não tem leituras suficientes nos checklists.
+ */
+export function telemetryHourReadings(
+  records: Array<Pick<NonConformity, "createdAt" | "telemetryRef"> & { linkedAsset: { id: string } }>,
+): HourReading[] {
+  return records
+    .filter((record) => typeof record.telemetryRef?.hours === "number")
+    .map((record) => ({
+      machineId: record.linkedAsset.id,
+      at: record.telemetryRef?.windowEnd ?? record.createdAt,
+      hours: record.telemetryRef?.hours as number,
+    }));
+}
+
+export type ReliabilityMachine = { id: string; modelo?: string };
+
+export type ReliabilityReport = {
+  fleet: ReliabilityMetrics;
+  byMachine: Array<ReliabilityMetrics & { machineId: string; modelo: string }>;
+  byModel: Array<ReliabilityMetrics & { modelo: string; machines: number }>;
+  bySystem: Array<ReliabilityMetrics & { system: string }>;
+  trend: Array<ReliabilityMetrics & { month: string }>;
+};
+
+/**
+ * Indicadores de confiabilidade das máquinas informadas: por máquina, modelo,
+ * sistema (`systemCategory`) e mês. Sistemas usam as horas de todas as máquinas do escopo.
+ * `fallbackReadings` substituem as leituras de checklist das máquinas com menos de duas delas.
+ */
+export function buildReliabilityReport(options: {
+  machines: ReliabilityMachine[];
+  failures: ReliabilityFailure[];
+  readings: HourReading[];
+  fallbackReadings?: HourReading[];
+}): ReliabilityReport {
+  const machineIds = new Set(options.machines.map((machine) => machine.id));
+  const failures = options.failures.filter((failure) => machineIds.has(failure.machineId));
+  const readingCount = new Map<string, number>();
+  for (const reading of options.readings) {
+    readingCount.set(reading.machineId, (readingCount.get(reading.machineId) ?? 0) + 1);
+  }
+  const hours = operatingHoursByMachine(
+    [
+      ...options.readings.filter((reading) => (readingCount.get(reading.machineId) ?? 0) >= 2),
+      ...(options.fallbackReadings ?? []).filter((reading) => (readingCount.get(reading.machineId) ?? 0) < 2),
+    ].filter((reading) => machineIds.has(reading.machineId)),
+  );
+  const hoursOf = (machineId: string) => hours.get(machineId)?.total ?? 0;
+  const totalHours = options.machines.reduce((sum, machine) => sum + hoursOf(machine.id), 0);
+
+  const groupBy = <K>(keyOf: (failure: ReliabilityFailure) => K) => {
+    const map = new Map<K, ReliabilityFailure[]>();
+    for (const failure of failures) {
+      const key = keyOf(failure);
+      map.set(key, [...(map.get(key) ?? []), failure]);
+    }
+    return map;
+  };
+
+  const failuresByMachine = groupBy((failure) => failure.machineId);
+  const byMachine = options.machines.map((machine) => ({
+    machineId: machine.id,
+    modelo: machine.modelo || machine.id,
+    ...calcReliabilityMetrics(failuresByMachine.get(machine.id) ?? [], hoursOf(machine.id)),
+  }));
+
+  const models = new Map<string, ReliabilityMachine[]>();
+  for (const machine of options.machines) {
+    const modelo = machine.modelo || machine.id;
+    models.set(modelo, [...(models.get(modelo) ?? []), machine]);
+  }
+  const byModel = Array.from(models.entries()).map(([modelo, list]) => ({
+    modelo,
+    machines: list.length,
+    ...calcReliabilityMetrics(
+      list.flatMap((machine) => failuresByMachine.get(machine.id) ?? []),
+      list.reduce((sum, machine) => sum + hoursOf(machine.id), 0),
+    ),
+  }));
+
+  const bySystem = Array.from(groupBy((failure) => failure.system).entries())
+    .map(([system, list]) => ({ system, ...calcReliabilityMetrics(list, totalHours) }))
+    .sort((a, b) => b.failures - a.failures);
+
+  const hoursByMonth = new Map<string, number>();
+  for (const machine of options.machines) {
+    for (const [month, value] of hours.get(machine.id)?.byMonth ?? []) {
+      hoursByMonth.set(month, (hoursByMonth.get(month) ?? 0) + value);
+    }
+  }
+  const failuresByMonth = groupBy((failure) => failure.occurredAt.slice(0, 7));
+  const months = new Set([...hoursByMonth.keys(), ...failuresByMonth.keys()]);
+  const trend = Array.from(months)
+    .sort()
+    .map((month) => ({
+      month,
+      ...calcReliabilityMetrics(failuresByMonth.get(month) ?? [], hoursByMonth.get(month) ?? 0),
+    }));
+
+  return {
+    fleet: calcReliabilityMetrics(failures, totalHours),
+    byMachine,
+    byModel,
+    bySystem,
+    trend,
+  };
+}
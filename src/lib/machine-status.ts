@@ -0,0 +1,193 @@
+import type { DocumentSnapshot, Firestore, Transaction } from "firebase-admin/firestore";
+import type { ChecklistTemplate } from "@/types/checklist";
+import {
+  type Machine,
+  type MachineStatus,
+  type MachineStatusPeriod,
+  type MachineStatusSource,
+  resolveMachineStatus,
+} from "@/types/machine";
+import type { NonConformity } from "@/types/nonconformity";
+
+export const MACHINE_STATUS_PERIODS_COLLECTION = "machineStatusPeriods";
+
+export type MachineStatusActor = { id: string; nome?: string | null };
+
+export type ChecklistAvailabilityGate = {
+  level: "block" | "warn";
+  message: string;
+};
+
+/** NC que tira a máquina de operação: severidade alta com risco à segurança. */
+export function isDowntimeNc(nc: Pick<NonConformity, "severity" | "safetyRisk">): boolean {
+  return nc.severity === "alta" && nc.safetyRisk === true;
+}
+
+/**
+ * Regra de envio de checklist conforme o status da máquina. Máquinas paradas
+ * aceitam apenas checklists de mecânico; desativadas não aceitam envios.
+ */
+export function resolveChecklistAvailabilityGate(
+  status: MachineStatus | null | undefined,
+  templateType?: ChecklistTemplate["type"],
+): ChecklistAvailabilityGate | null {
+  switch (resolveMachineStatus(status)) {
+    case "retired":
+      return { level: "block", message: "Máquina desativada: não é possível enviar checklists." };
+    case "down":
+      return templateType === "mecanico"
+        ? {
+            level: "warn",
+            message: "Máquina parada para manutenção. O checklist será registrado como inspeção de manutenção.",
+          }
+        : {
+            level: "block",
+            message: "Máquina parada para manutenção: checklist bloqueado até a liberação.",
+          };
+    case "restricted":
+      return { level: "warn", message: "Máquina liberada com restrições. Confira as observações do supervisor." };
+    default:
+      return null;
+  }
+}
+
+type StatusChange = {
+  status: MachineStatus;
+  source: MachineStatusSource;
+  reason?: string | null;
+  ncId?: string | null;
+  actor?: MachineStatusActor | null;
+  at?: Date;
+  /** Campos extras gravados junto no documento da máquina. */
+  machineUpdates?: Record<string, unknown>;
+};
+
+/**
+ * Grava a troca dentro da transação: encerra o período aberto, abre o novo e
+ * atualiza a máquina. Lê os períodos antes de qualquer escrita, como o
+ * Firestore exige.
+ */
+async function applyStatusChange(
+  db: Firestore,
+  tx: Transaction,
+  machineSnap: DocumentSnapshot,
+  change: StatusChange,
+): Promise<{ changed: boolean }> {
+  const machineRef = machineSnap.ref;
+  const current = resolveMachineStatus((machineSnap.data() as Partial<Machine> | undefined)?.status);
+  if (current === change.status) {
+    if (change.machineUpdates) tx.update(machineRef, change.machineUpdates);
+    return { changed: false };
+  }
+
+  const at = (change.at ?? new Date()).toISOString();
+  const periods = db.collection(MACHINE_STATUS_PERIODS_COLLECTION);
+  const openPeriods = await tx.get(periods.where("machineId", "==", machineRef.id).where("end", "==", null));
+  openPeriods.docs.forEach((doc) => tx.update(doc.ref, { end: at }));
+
+  const period: Omit<MachineStatusPeriod, "id"> = {
+    machineId: machineRef.id,
+    status: change.status,
+    start: at,
+    end: null,
+    reason: change.reason ?? null,
+    source: change.source,
+    ncId: change.ncId ?? null,
+    changedBy: change.actor ?? null,
+  };
+  tx.create(periods.doc(), period);
+
+  tx.update(machineRef, {
+    ...change.machineUpdates,
+    status: change.status,
+    statusSince: at,
+    statusReason: change.reason ?? null,
+    statusSource: change.source,
+  });
+
+  return { changed: true };
+}
+
+/**
+ * Troca o status da máquina, encerrando o período atual em `machineStatusPeriods`
+ * e abrindo um novo. Não faz nada se o status não mudar.
+ */
+export async function changeMachineStatus(
+  db: Firestore,
+  options: StatusChange & { machineId: string },
+): Promise<{ changed: boolean }> {
+  const machineRef = db.collection("machines").doc(options.machineId);
+  return db.runTransaction(async (tx) => {
+    const machineSnap = await tx.get(machineRef);
+    if (!machineSnap.exists) {
+      throw new Error(`Machine ${options.machineId} not found`);
+    }
+    return applyStatusChange(db, tx, machineSnap, options);
+  });
+}
+
+/**
+ * Para a máquina por causa de uma NC de segurança; máquinas desativadas ficam
+ * como estão. Lê e grava `downtimeNcIds` na mesma transação, como
+ * `markMachineDown` da Cloud Function, para não perder NCs concorrentes.
+ */
+export async function markMachineDownForNc(
+  db: Firestore,
+  nc: Pick<NonConformity, "id" | "title"> & { machineId: string },
+  at?: Date,
+): Promise<{ changed: boolean }> {
+  const machineRef = db.collection("machines").doc(nc.machineId);
+  return db.runTransaction(async (tx) => {
+    const snapshot = await tx.get(machineRef);
+    if (!snapshot.exists) {
+      throw new Error(`Machine ${nc.machineId} not found`);
+    }
+    const data = (snapshot.data() as Partial<Machine> | undefined) ?? {};
+    if (resolveMachineStatus(data.status) === "retired") return { changed: false };
+
+    const downtimeNcIds = Array.from(new Set([...(data.downtimeNcIds ?? []), nc.id]));
+    return applyStatusChange(db, tx, snapshot, {
+      status: "down",
+      source: "nc",
+      reason: `NC de segurança: ${nc.title}`,
+      ncId: nc.id,
+      at,
+      machineUpdates: { downtimeNcIds },
+    });
+  });
+}
+
+/**
+ * Remove a NC da lista de bloqueios da máquina. Quando nenhuma NC de segurança
+ * continua aberta e a parada foi automática, a máquina volta a ficar disponível.
+ */
+export async function releaseMachineForNc(
+  db: Firestore,
+  nc: Pick<NonConformity, "id" | "title"> & { machineId: string },
+  at?: Date,
+): Promise<{ changed: boolean }> {
+  const machineRef = db.collection("machines").doc(nc.machineId);
+  return db.runTransaction(async (tx) => {
+    const snapshot = await tx.get(machineRef);
+    if (!snapshot.exists) return { changed: false };
+    const data = (snapshot.data() as Partial<Machine> | undefined) ?? {};
+    const previous = data.downtimeNcIds ?? [];
+    if (!previous.includes(nc.id)) return { changed: false };
+
+    const downtimeNcIds = previous.filter((id) => id !== nc.id);
+    const autoDown = resolveMachineStatus(data.status) === "down" && data.statusSource === "nc";
+    if (downtimeNcIds.length || !autoDown) {
+      tx.update(machineRef, { downtimeNcIds });
+      return { changed: false };
+    }
+
+    return applyStatusChange(db, tx, snapshot, {
+      status: "available",
+      source: "nc",
+      reason: `NC resolvida: ${nc.title}`,
+      ncId: nc.id,
+      at,
+      machineUpdates: { downtimeNcIds },
+    });
+  });
+}
@@ -0,0 +1,318 @@
+import type {
+  ChecklistMeterKind,
+  ChecklistMeterReplacement,
+  ChecklistResponse,
+  ChecklistTemplatePeriodicity,
+  ChecklistUsagePeriodicityUnit,
+} from "@/types/checklist";
+
+const MS_IN_DAY = 24 * 60 * 60 * 1000;
+
+/** Quantidade de respostas consideradas no histórico de leituras da máquina. */
+export const METER_HISTORY_LIMIT = 30;
+
+/** Janela usada para estimar o uso médio diário da máquina. */
+const USAGE_WINDOW_DAYS = 90;
+/** Quantas vezes acima do uso médio uma leitura passa a ser considerada suspeita. */
+const JUMP_TOLERANCE_FACTOR = 3;
+/** Limite diário usado quando ainda não há histórico suficiente. */
+const DEFAULT_DAILY_CAP: Record<ChecklistMeterKind, number> = {
+  km: 1500,
+  horimetro: 24,
+};
+
+export const METER_LABEL: Record<ChecklistMeterKind, string> = {
+  km: "KM",
+  horimetro: "Horímetro",
+};
+
+export const METER_DEVICE_LABEL: Record<ChecklistMeterKind, string> = {
+  km: "hodômetro",
+  horimetro: "horímetro",
+};
+
+export const METER_UNIT_SUFFIX: Record<ChecklistMeterKind, string> = {
+  km: "km",
+  horimetro: "h",
+};
+
+export const USAGE_PERIODICITY_METER: Record<ChecklistUsagePeriodicityUnit, ChecklistMeterKind> = {
+  hours: "horimetro",
+  km: "km",
+};
+
+export type MeterHistoryEntry = {
+  responseId: string;
+  at: string;
+  value: number;
+  offset: number;
+};
+
+/** Leituras recentes da máquina (mais recente primeiro) e deslocamentos vigentes. */
+export type MeterHistory = {
+  entries: Record<ChecklistMeterKind, MeterHistoryEntry[]>;
+  offsets: NonNullable<ChecklistResponse["meterOffsets"]>;
+};
+
+export type MeterValidationIssue = {
+  code: "decrease" | "implausible_jump";
+  severity: "error" | "warning";
+  message: string;
+};
+
+export type MeterValidationResult = {
+  issues: MeterValidationIssue[];
+  previous: MeterHistoryEntry | null;
+  delta: number | null;
+  elapsedDays: number | null;
+  averageDailyUsage: number | null;
+  maxExpectedDelta: number | null;
+};
+
+const formatValue = (value: number) =>
+  new Intl.NumberFormat("pt-BR", { maximumFractionDigits: 1 }).format(value);
+
+const toTime = (iso: string): number => {
+  const time = new Date(iso).getTime();
+  return Number.isNaN(time) ? 0 : time;
+};
+
+export const cumulativeValue = (entry: Pick<MeterHistoryEntry, "value" | "offset">): number =>
+  entry.value + entry.offset;
+
+const sortByDate = (history: MeterHistoryEntry[]) =>
+  history.slice().sort((a, b) => toTime(a.at) - toTime(b.at));
+
+/**
+ * Monta o histórico de leituras a partir de respostas ordenadas da mais recente
+ * para a mais antiga. O deslocamento de cada medidor é herdado da resposta
+ * anterior quando a resposta não o traz; uma troca registrada sem
+ * `meterOffsets` (envio offline) soma o seu deslocamento ao herdado.
+ */
+export function buildMeterHistory(
+  responses: Array<{
+    id: string;
+    at: string | undefined;
+    data: Pick<Partial<ChecklistResponse>, "km" | "horimetro" | "meterOffsets" | "meterReplacements">;
+  }>,
+): MeterHistory {
+  const history: MeterHistory = { entries: { km: [], horimetro: [] }, offsets: {} };
+  const carried: Partial<Record<ChecklistMeterKind, number>> = {};
+  for (const { id, at, data } of responses.slice().reverse()) {
+    for (const kind of ["km", "horimetro"] as const) {
+      const explicit = data.meterOffsets?.[kind];
+      if (typeof explicit === "number" && Number.isFinite(explicit)) {
+        carried[kind] = explicit;
+      } else {
+        for (const replacement of data.meterReplacements ?? []) {
+          if (replacement.kind === kind) carried[kind] = (carried[kind] ?? 0) + replacement.offset;
+        }
+      }
+      const value = data[kind];
+      if (at && typeof value === "number" && Number.isFinite(value)) {
+        history.entries[kind].unshift({ responseId: id, at, value, offset: carried[kind] ?? 0 });
+      }
+    }
+  }
+  history.offsets = { ...carried };
+  return history;
+}
+
+/**
+ * Uso médio diário (km/dia ou h/dia) calculado sobre as leituras acumuladas
+ * dos últimos {@link USAGE_WINDOW_DAYS} dias. Retorna null sem histórico suficiente.
+ */
+export function computeAverageDailyUsage(history: MeterHistoryEntry[]): number | null {
+  const sorted = sortByDate(history);
+  if (sorted.length < 2) return null;
+  const last = sorted[sorted.length - 1];
+  const windowStart = toTime(last.at) - USAGE_WINDOW_DAYS * MS_IN_DAY;
+  const windowed = sorted.filter((entry) => toTime(entry.at) >= windowStart);
+  if (windowed.length < 2) return null;
+  const first = windowed[0];
+  const days = (toTime(last.at) - toTime(first.at)) / MS_IN_DAY;
+  if (days < 1) return null;
+  const usage = cumulativeValue(last) - cumulativeValue(first);
+  if (usage <= 0) return null;
+  return usage / days;
+}
+
+export function validateMeterReading(options: {
+  kind: ChecklistMeterKind;
+  value: number;
+  history: MeterHistoryEntry[];
+  at?: Date;
+  meterReplaced?: boolean;
+}): MeterValidationResult {
+  const { kind, value, history, meterReplaced = false } = options;
+  const at = options.at ?? new Date();
+  const sorted = sortByDate(history);
+  const previous = sorted[sorted.length - 1] ?? null;
+  const averageDailyUsage = computeAverageDailyUsage(sorted);
+  const result: MeterValidationResult = {
+    issues: [],
+    previous,
+    delta: null,
+    elapsedDays: null,
+    averageDailyUsage,
+    maxExpectedDelta: null,
+  };
+
+  // Sem leitura anterior ou com medidor novo não há base de comparação.
+  if (!previous || meterReplaced) {
+    return result;
+  }
+
+  const delta = value - previous.value;
+  const elapsedDays = Math.max((at.getTime() - toTime(previous.at)) / MS_IN_DAY, 0);
+  result.delta = delta;
+  result.elapsedDays = elapsedDays;
+
+  if (delta < 0) {
+    result.issues.push({
+      code: "decrease",
+      severity: "error",
+      message: `${METER_LABEL[kind]} menor que a última leitura (${formatValue(previous.value)}). Marque a troca do medidor se ele foi substituído.`,
+    });
+    return result;
+  }
+
+  const days = Math.max(elapsedDays, 1);
+  let maxExpectedDelta =
+    averageDailyUsage !== null
+      ? averageDailyUsage * days * JUMP_TOLERANCE_FACTOR
+      : DEFAULT_DAILY_CAP[kind] * days;
+  if (kind === "horimetro") {
+    // O horímetro não avança mais que o tempo decorrido.
+    maxExpectedDelta = Math.min(maxExpectedDelta, DEFAULT_DAILY_CAP.horimetro * days);
+  }
+  result.maxExpectedDelta = maxExpectedDelta;
+
+  if (delta > maxExpectedDelta) {
+    result.issues.push({
+      code: "implausible_jump",
+      severity: "warning",
+      message: `Aumento de ${formatValue(delta)} desde a última leitura (${formatValue(previous.value)}) está acima do esperado (até ${formatValue(maxExpectedDelta)}). Confira se não há dígito a mais.`,
+    });
+  }
+
+  return result;
+}
+
+export function buildMeterReplacement(options: {
+  kind: ChecklistMeterKind;
+  oldFinalValue: number;
+  newInitialValue: number;
+  replacedAt?: Date;
+}): ChecklistMeterReplacement {
+  const { kind, oldFinalValue, newInitialValue } = options;
+  return {
+    kind,
+    replacedAt: (options.replacedAt ?? new Date()).toISOString(),
+    oldFinalValue,
+    newInitialValue,
+    offset: oldFinalValue - newInitialValue,
+  };
+}
+
+/**
+ * Soma os deslocamentos das trocas registradas agora aos deslocamentos herdados
+ * da última resposta da máquina.
+ */
+export function resolveMeterOffsets(
+  previousOffsets: ChecklistResponse["meterOffsets"] | undefined,
+  replacements: ChecklistMeterReplacement[],
+): Partial<Record<ChecklistMeterKind, number>> {
+  const offsets: Partial<Record<ChecklistMeterKind, number>> = { ...(previousOffsets ?? {}) };
+  for (const replacement of replacements) {
+    offsets[replacement.kind] = (offsets[replacement.kind] ?? 0) + replacement.offset;
+  }
+  return offsets;
+}
+
+/**
+ * Acrescenta ao histórico a leitura que acabou de ser registrada, para que o
+ * cache do dispositivo continue encadeando leituras e trocas enquanto offline.
+ */
+export function appendMeterReading(
+  history: MeterHistory,
+  reading: {
+    responseId: string;
+    at: string;
+    values: Partial<Record<ChecklistMeterKind, number>>;
+    offsets: Partial<Record<ChecklistMeterKind, number>>;
+  },
+): MeterHistory {
+  const offsets = { ...history.offsets, ...reading.offsets };
+  const entries = { ...history.entries };
+  for (const kind of ["km", "horimetro"] as const) {
+    const value = reading.values[kind];
+    if (typeof value !== "number" || !Number.isFinite(value)) continue;
+    entries[kind] = [
+      { responseId: reading.responseId, at: reading.at, value, offset: offsets[kind] ?? 0 },
+      ...entries[kind],
+    ].slice(0, METER_HISTORY_LIMIT);
+  }
+  return { entries, offsets };
+}
+
+/** Leitura acumulada de uma resposta, considerando trocas de medidor anteriores. */
+export function cumulativeReading(
+  response: Pick<ChecklistResponse, "km" | "horimetro" | "meterOffsets">,
+  kind: ChecklistMeterKind,
+): number | null {
+  const value = response[kind];
+  if (typeof value !== "number" || !Number.isFinite(value)) return null;
+  return value + (response.meterOffsets?.[kind] ?? 0);
+}
+
+export const isUsagePeriodicityUnit = (
+  unit: ChecklistTemplatePeriodicity["unit"],
+): unit is ChecklistUsagePeriodicityUnit => unit === "hours" || unit === "km";
+
+export type UsagePeriodicityStatus = {
+  meter: ChecklistMeterKind;
+  interval: number;
+  /** Leitura do medidor atual em que o próximo checklist vence. */
+  dueAt: number;
+  currentReading: number;
+  currentReadingAt: string;
+  /** Uso restante até o vencimento; negativo quando já venceu. */
+  remaining: number;
+  averageDailyUsage: number | null;
+  /** Data estimada do vencimento pelo uso médio diário da máquina. */
+  projectedDueAt: string | null;
+};
+
+/**
+ * Avalia uma periodicidade por uso. As leituras devem ser acumuladas (valor +
+ * deslocamento) para atravessar trocas de medidor; o resultado é expresso no
+ * medidor atual, descontando `currentOffset`.
+ */
+export function evaluateUsagePeriodicity(options: {
+  meter: ChecklistMeterKind;
+  interval: number;
+  lastCumulative: number;
+  currentCumulative: number;
+  currentOffset: number;
+  currentReadingAt: Date;
+  averageDailyUsage: number | null;
+}): UsagePeriodicityStatus {
+  const { meter, interval, lastCumulative, currentCumulative, currentOffset, averageDailyUsage } = options;
+  const dueCumulative = lastCumulative + interval;
+  const remaining = dueCumulative - currentCumulative;
+  const projectedDueAt =
+    averageDailyUsage !== null && averageDailyUsage > 0
+      ? new Date(options.currentReadingAt.getTime() + (remaining / averageDailyUsage) * MS_IN_DAY).toISOString()
+      : null;
+  return {
+    meter,
+    interval,
+    dueAt: dueCumulative - currentOffset,
+    currentReading: currentCumulative - currentOffset,
+    currentReadingAt: options.currentReadingAt.toISOString(),
+    remaining,
+    averageDailyUsage,
+    projectedDueAt,
+  };
+}
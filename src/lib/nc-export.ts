@@ -0,0 +1,33 @@
+import type { NonConformity } from "@/types/nonconformity";
+
+const NC_CSV_COLUMNS: { header: string; value: (record: NonConformity) => unknown }[] = [
+  { header: "id", value: (record) => record.id },
+  { header: "titulo", value: (record) => record.title },
+  { header: "maquina", value: (record) => record.linkedAsset?.tag },
+  { header: "setor", value: (record) => record.linkedAsset?.setor },
+  { header: "sistema", value: (record) => record.systemCategory },
+  { header: "severidade", value: (record) => record.severity },
+  { header: "risco_seguranca", value: (record) => (record.safetyRisk ? "sim" : "nao") },
+  { header: "status", value: (record) => record.status },
+  { header: "responsavel", value: (record) => record.owner?.nome ?? record.owner?.id },
+  { header: "aberta_em", value: (record) => record.createdAt },
+  { header: "prazo", value: (record) => record.dueAt },
+  { header: "sla", value: (record) => record.slaState },
+  { header: "ocorrencias", value: (record) => 1 + (record.occurrences?.length ?? 0) },
+  { header: "ordem_servico", value: (record) => record.workOrderId },
+];
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  const text = String(value);
+  return /[;"\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Tabela das NCs separada por `;` (mesmo formato da importação de códigos de falha). */
+export function ncsToCsv(records: NonConformity[]): string {
+  const lines = [NC_CSV_COLUMNS.map((column) => column.header).join(";")];
+  for (const record of records) {
+    lines.push(NC_CSV_COLUMNS.map((column) => csvCell(column.value(record))).join(";"));
+  }
+  return lines.join("\r\n");
+}
@@ -0,0 +1,169 @@
+import {
+  Timestamp,
+  type DocumentData,
+  type DocumentSnapshot,
+  type Firestore,
+  type Query,
+  type QueryDocumentSnapshot,
+} from "firebase-admin/firestore";
+import { mapNonConformityDoc } from "@/lib/firestore/nc";
+import { parseNcSearchQuery } from "@/lib/nc-search";
+import type { NcStatus, NonConformity, Severity } from "@/types/nonconformity";
+
+/** Documentos lidos por requisição; acima disso a página volta incompleta com `nextCursor`. */
+const MAX_SCAN = 2000;
+
+const BATCH_SIZE = 100;
+
+type OrderField = "createdAtTs" | "createdAt";
+
+export type NcListFilters = {
+  status?: NcStatus;
+  severity?: Severity;
+  assetId?: string | null;
+  templateId?: string;
+  operatorMatricula?: string;
+  search?: string | null;
+  from?: Date | null;
+  to?: Date | null;
+};
+
+export type NcListPage = {
+  data: NonConformity[];
+  total: number;
+  /** `true` quando `total` não pôde ser contado exatamente (busca com vários termos ou contagem indisponível). */
+  totalEstimated: boolean;
+  hasMore: boolean;
+  /** ID da última NC da página; repassado em `cursor` para a próxima. */
+  nextCursor: string | null;
+};
+
+export type NcListResult = ({ ok: true } & NcListPage) | { ok: false; status: number; error: string };
+
+export function isMissingIndexError(error: unknown): boolean {
+  if (!error || typeof error !== "object") return false;
+  const code = (error as { code?: unknown }).code;
+  if (code !== "FAILED_PRECONDITION" && code !== 9) {
+    return false;
+  }
+  const message = (error as { message?: unknown }).message;
+  if (typeof message !== "string") return false;
+  return message.toLowerCase().includes("index");
+}
+
+/** Filtros que o Firestore resolve; o primeiro termo da busca vai em `array-contains`. */
+function filteredQuery(db: Firestore, filters: NcListFilters, terms: string[], order: OrderField): Query<DocumentData> {
+  let query: Query<DocumentData> = db.collection("nonConformities");
+  if (filters.status) query = query.where("status", "==", filters.status);
+  if (filters.severity) query = query.where("severity", "==", filters.severity);
+  if (filters.assetId) query = query.where("linkedAsset.id", "==", filters.assetId);
+  if (filters.templateId) query = query.where("linkedTemplateId", "==", filters.templateId);
+  if (filters.operatorMatricula) query = query.where("createdBy.matricula", "==", filters.operatorMatricula);
+  if (terms.length) query = query.where("searchTokens", "array-contains", terms[0]);
+
+  const bound = (date: Date) => (order === "createdAtTs" ? Timestamp.fromDate(date) : date.toISOString());
+  if (filters.from) query = query.where(order, ">=", bound(filters.from));
+  if (filters.to) query = query.where(order, "<=", bound(filters.to));
+  return query;
+}
+
+/** O que sobra para a memória: NCs mescladas e os demais termos da busca. */
+function acceptsDoc(doc: QueryDocumentSnapshot<DocumentData>, terms: string[]): boolean {
+  const data = doc.data();
+  if (typeof data.mergedIntoId === "string" && data.mergedIntoId) return false;
+  if (terms.length < 2) return true;
+  const tokens = new Set(Array.isArray(data.searchTokens) ? (data.searchTokens as unknown[]) : []);
+  return terms.every((term) => tokens.has(term));
+}
+
+async function scanPage(
+  query: Query<DocumentData>,
+  startAfter: DocumentSnapshot<DocumentData> | null,
+  wanted: number,
+  terms: string[],
+) {
+  const docs: QueryDocumentSnapshot<DocumentData>[] = [];
+  let last: DocumentSnapshot<DocumentData> | null = startAfter;
+  let scanned = 0;
+  while (scanned < MAX_SCAN) {
+    const snapshot = await (last ? query.startAfter(last) : query).limit(BATCH_SIZE).get();
+    for (const doc of snapshot.docs) {
+      last = doc;
+      scanned += 1;
+      if (!acceptsDoc(doc, terms)) continue;
+      docs.push(doc);
+      if (docs.length >= wanted) return { docs, exhausted: false, last };
+    }
+    if (snapshot.docs.length < BATCH_SIZE) return { docs, exhausted: true, last };
+  }
+  return { docs, exhausted: false, last };
+}
+
+/**
+ * Total da consulta sem as NCs mescladas, pela igualdade em `merged`, que se
+ * combina com os índices dos filtros; `null` quando a agregação falha (índice ausente).
+ */
+async function countDocs(query: Query<DocumentData>): Promise<number | null> {
+  try {
+    const snapshot = await query.where("merged", "==", false).count().get();
+    return snapshot.data().count;
+  } catch (error) {
+    console.warn("Failed to count nonConformities; returning an estimated total", error);
+    return null;
+  }
+}
+
+/**
+ * Página de NCs ordenada por `createdAtTs` (mais novas primeiro) com cursor.
+ * Sem `cursor`, `skip` pula itens do início (compatibilidade com `page`).
+ * Sem o índice composto, cai para a ordenação por `createdAt`.
+ */
+export async function listNonConformities(
+  db: Firestore,
+  filters: NcListFilters,
+  options: { pageSize: number; cursor?: string | null; skip?: number },
+): Promise<NcListResult> {
+  const terms = parseNcSearchQuery(filters.search);
+  if (filters.search && !terms.length) {
+    return { ok: true, data: [], total: 0, totalEstimated: false, hasMore: false, nextCursor: null };
+  }
+
+  let startAfter: DocumentSnapshot<DocumentData> | null = null;
+  if (options.cursor) {
+    startAfter = await db.collection("nonConformities").doc(options.cursor).get();
+    if (!startAfter.exists) {
+      return { ok: false, status: 400, error: "Cursor inválido" };
+    }
+  }
+
+  const skip = options.cursor ? 0 : options.skip ?? 0;
+  const wanted = skip + options.pageSize + 1;
+
+  let order: OrderField = "createdAtTs";
+  let scan: Awaited<ReturnType<typeof scanPage>>;
+  try {
+    scan = await scanPage(filteredQuery(db, filters, terms, order).orderBy(order, "desc"), startAfter, wanted, terms);
+  } catch (error) {
+    if (!isMissingIndexError(error)) {
+      throw error;
+    }
+    console.warn("Falling back to createdAt ordering for nonConformities query; createdAtTs index missing", error);
+    order = "createdAt";
+    scan = await scanPage(filteredQuery(db, filters, terms, order).orderBy(order, "desc"), startAfter, wanted, terms);
+  }
+
+  const pageDocs = scan.docs.slice(skip, skip + options.pageSize);
+  const hasMore = !scan.exhausted;
+  const cursorDoc = scan.docs.length >= wanted ? pageDocs.at(-1) : scan.last;
+  const counted = await countDocs(filteredQuery(db, filters, terms, order));
+  const loaded = skip + pageDocs.length + (hasMore ? 1 : 0);
+
+  return {
+    ok: true,
+    data: pageDocs.map((doc) => mapNonConformityDoc(doc)),
+    total: counted === null ? loaded : Math.max(counted, loaded),
+    totalEstimated: counted === null || terms.length > 1,
+    hasMore,
+    nextCursor: hasMore ? cursorDoc?.id ?? null : null,
+  };
+}
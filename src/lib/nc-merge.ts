@@ -0,0 +1,355 @@
+import { Timestamp, type Firestore } from "firebase-admin/firestore";
+import { z } from "zod";
+import { nextCapaVerificationDueAt } from "@/lib/capa-verification";
+import { mapNonConformityDoc, serializeActions, severityRank } from "@/lib/firestore/nc";
+import { isMergedNc } from "@/lib/kpis/nc";
+import { isDowntimeNc, markMachineDownForNc, releaseMachineForNc } from "@/lib/machine-status";
+import { buildNcSearchTokens } from "@/lib/nc-search";
+import { enqueueNotificationEvent, notificationEventId } from "@/lib/notifications";
+import type { RequestActor } from "@/lib/request-actor";
+import { computeSlaDueAt, resolveSlaPolicy } from "@/lib/sla";
+import { loadSlaPolicies } from "@/lib/sla-escalation";
+import type { ChecklistAnswer } from "@/types/checklist";
+import { occurrenceKey, type NcAction, type NcAuditEntry, type NcOccurrence, type NonConformity } from "@/types/nonconformity";
+
+export const ncMergeSchema = z.object({
+  primaryId: z.string().trim().min(1),
+  mergedIds: z.array(z.string().trim().min(1)).min(1).max(50),
+});
+
+export const ncSplitSchema = z.object({
+  title: z.string().trim().min(1).max(200),
+  description: z.string().trim().max(2000).nullish(),
+  severity: z.enum(["baixa", "media", "alta"]).optional(),
+  actionIds: z.array(z.string().trim().min(1)).default([]),
+  occurrenceIds: z.array(z.string().trim().min(1)).default([]),
+});
+
+export type NcMergeInput = z.infer<typeof ncMergeSchema>;
+export type NcSplitInput = z.infer<typeof ncSplitSchema>;
+
+export type NcMergeResult =
+  | { ok: true; data: NonConformity }
+  | { ok: false; status: 400 | 404 | 409; error: string };
+
+export type NcSplitResult =
+  | { ok: true; data: NonConformity; created: NonConformity }
+  | { ok: false; status: 400 | 404 | 409; error: string };
+
+/** Ações da NC principal seguidas das mescladas, sem repetir IDs. */
+export function combineActions(primary: NcAction[], merged: NcAction[][]): NcAction[] {
+  const seen = new Set(primary.map((action) => action.id));
+  const combined = [...primary];
+  for (const action of merged.flat()) {
+    if (seen.has(action.id)) continue;
+    seen.add(action.id);
+    combined.push(action);
+  }
+  return combined;
+}
+
+function photoUrlsFromResponse(nc: NonConformity, response: Record<string, unknown> | undefined): string[] {
+  if (!nc.originQuestionId) return [];
+  const answers = (response?.answers ?? []) as ChecklistAnswer[];
+  const answer = Array.isArray(answers) ? answers.find((item) => item.questionId === nc.originQuestionId) : undefined;
+  if (!answer) return [];
+  return answer.photoUrls?.length ? answer.photoUrls : answer.photoUrl ? [answer.photoUrl] : [];
+}
+
+function toOccurrence(nc: NonConformity, photoUrls: string[], mergedAt: string): NcOccurrence {
+  return {
+    ncId: nc.id,
+    title: nc.title,
+    ...(nc.description ? { description: nc.description } : {}),
+    createdAt: nc.createdAt,
+    createdBy: nc.createdBy,
+    originChecklistResponseId: nc.originChecklistResponseId,
+    ...(nc.originQuestionId ? { originQuestionId: nc.originQuestionId } : {}),
+    ...(photoUrls.length ? { photoUrls } : {}),
+    mergedAt,
+  };
+}
+
+const auditActor = (actor: RequestActor) => ({
+  byUserId: actor.id,
+  byNome: actor.nome,
+  byRole: actor.role,
+});
+
+/**
+ * Mescla NCs duplicadas da mesma máquina na principal: cada uma vira uma
+ * ocorrência (origem e fotos), as ações passam para a principal e a auditoria
+ * é copiada. A NC mesclada fica com `mergedIntoId` e, se parava a máquina,
+ * a parada passa para a principal, que herda a severidade e o risco. Tudo é
+ * gravado numa transação; a principal não pode estar resolvida.
+ */
+export async function mergeNonConformities(
+  db: Firestore,
+  input: NcMergeInput,
+  actor: RequestActor,
+  now: Date = new Date(),
+): Promise<NcMergeResult> {
+  const mergedIds = Array.from(new Set(input.mergedIds.filter((id) => id !== input.primaryId)));
+  if (!mergedIds.length) return { ok: false, status: 400, error: "Selecione ao menos uma NC além da principal." };
+
+  const collection = db.collection("nonConformities");
+  const primaryRef = collection.doc(input.primaryId);
+  const atISO = now.toISOString();
+
+  const outcome = await db.runTransaction(async (tx) => {
+    const snaps = await Promise.all(
+      [primaryRef, ...mergedIds.map((id) => collection.doc(id))].map((ref) => tx.get(ref)),
+    );
+    if (snaps.some((snap) => !snap.exists)) return { ok: false, status: 404, error: "NC não encontrada." } as const;
+    const [primary, ...merged] = snaps.map((snap) => mapNonConformityDoc(snap));
+
+    if ([primary, ...merged].some(isMergedNc)) {
+      return { ok: false, status: 409, error: "Uma das NCs já foi mesclada em outra." } as const;
+    }
+    if (primary.status === "resolvida") {
+      return {
+        ok: false,
+        status: 409,
+        error: "A NC principal está resolvida. Reabra-a antes de mesclar outras NCs nela.",
+      } as const;
+    }
+    if (merged.some((nc) => nc.linkedAsset.id !== primary.linkedAsset.id)) {
+      return { ok: false, status: 409, error: "Só é possível mesclar NCs da mesma máquina." } as const;
+    }
+
+    const responses = await Promise.all(
+      merged.map((nc) =>
+        nc.originChecklistResponseId && nc.originQuestionId
+          ? tx.get(db.collection("checklistResponses").doc(nc.originChecklistResponseId))
+          : null,
+      ),
+    );
+    const histories = await Promise.all(merged.map((nc) => tx.get(collection.doc(nc.id).collection("audits"))));
+
+    const occurrences = [
+      ...(primary.occurrences ?? []),
+      ...merged.flatMap((nc, index) => [
+        toOccurrence(nc, photoUrlsFromResponse(nc, responses[index]?.data()), atISO),
+        ...(nc.occurrences ?? []),
+      ]),
+    ];
+    const actions = combineActions(
+      primary.actions ?? [],
+      merged.map((nc) => nc.actions ?? []),
+    );
+    const serialized = serializeActions(actions);
+    // A principal herda a classificação mais grave e o prazo mais curto das mescladas.
+    const severity = [primary, ...merged]
+      .map((nc) => nc.severity ?? "media")
+      .reduce((worst, current) => (severityRank(current) > severityRank(worst) ? current : worst));
+    const safetyRisk = [primary, ...merged].some((nc) => nc.safetyRisk === true);
+    const dueAt = [primary, ...merged]
+      .map((nc) => nc.dueAt)
+      .filter((value): value is string => Boolean(value))
+      .sort()[0];
+
+    tx.update(primaryRef, {
+      occurrences,
+      actions: serialized,
+      capaVerificationDueAt: nextCapaVerificationDueAt(actions),
+      severity,
+      severityRank: severityRank(severity),
+      safetyRisk,
+      ...(dueAt ? { dueAt } : {}),
+      updatedAt: atISO,
+    });
+
+    const audits = primaryRef.collection("audits");
+    merged.forEach((nc, index) => {
+      const ref = collection.doc(nc.id);
+      for (const entry of histories[index].docs) {
+        tx.set(audits.doc(`${nc.id}_${entry.id}`), { ...entry.data(), mergedFromId: nc.id });
+      }
+      // Ocorrências que já estavam mescladas na NC passam a apontar para a principal.
+      for (const occurrence of nc.occurrences ?? []) {
+        if (occurrence.ncId) tx.update(collection.doc(occurrence.ncId), { mergedIntoId: primary.id, merged: true });
+      }
+      tx.update(ref, { mergedIntoId: primary.id, merged: true, occurrences: [], actions: [], capaVerificationDueAt: null, updatedAt: atISO });
+
+      const mergedAudit: Omit<NcAuditEntry, "id"> = {
+        type: "merged",
+        ...auditActor(actor),
+        atISO,
+        diff: { mergedIntoId: { before: null, after: primary.id }, actions: { before: nc.actions ?? [], after: [] } },
+      };
+      tx.set(ref.collection("audits").doc(), mergedAudit);
+    });
+
+    const primaryAudit: Omit<NcAuditEntry, "id"> = {
+      type: "merged",
+      ...auditActor(actor),
+      atISO,
+      diff: {
+        occurrences: { before: primary.occurrences ?? [], after: occurrences },
+        actions: { before: primary.actions ?? [], after: serialized },
+        ...(severity !== primary.severity ? { severity: { before: primary.severity ?? null, after: severity } } : {}),
+        ...(safetyRisk !== Boolean(primary.safetyRisk) ? { safetyRisk: { before: primary.safetyRisk ?? false, after: safetyRisk } } : {}),
+      },
+    };
+    tx.set(audits.doc(), primaryAudit);
+
+    return { ok: true, primary, merged, severity, safetyRisk } as const;
+  });
+  if (!outcome.ok) return outcome;
+  const { primary, merged, severity, safetyRisk } = outcome;
+
+  const machineId = primary.linkedAsset.id;
+  const downtime = merged.filter((nc) => nc.status !== "resolvida" && isDowntimeNc(nc));
+  if (downtime.length && machineId) {
+    try {
+      if (isDowntimeNc({ severity, safetyRisk })) {
+        await markMachineDownForNc(db, { id: primary.id, title: primary.title, machineId }, now);
+      }
+      for (const nc of downtime) {
+        await releaseMachineForNc(db, { id: nc.id, title: nc.title, machineId }, now);
+      }
+    } catch (error) {
+      console.error(`Failed to move machine downtime to NC ${primary.id}`, error);
+    }
+  }
+
+  return { ok: true, data: mapNonConformityDoc(await primaryRef.get()) };
+}
+
+/**
+ * Separa de uma NC um problema sem relação com ela: cria uma NC nova na mesma
+ * máquina com as ações e ocorrências escolhidas. Tudo é gravado numa
+ * transação; depois, como na abertura de uma NC, a nova para a máquina se for
+ * de segurança/alta e, se for alta, entra na fila de notificações.
+ */
+export async function splitNonConformity(
+  db: Firestore,
+  ncId: string,
+  input: NcSplitInput,
+  actor: RequestActor,
+  now: Date = new Date(),
+): Promise<NcSplitResult> {
+  const collection = db.collection("nonConformities");
+  const ref = collection.doc(ncId);
+  const createdRef = collection.doc();
+  const atISO = now.toISOString();
+  const policies = await loadSlaPolicies(db);
+
+  const outcome = await db.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists) return { ok: false, status: 404, error: "NC não encontrada." } as const;
+    const nc = mapNonConformityDoc(snap);
+    if (isMergedNc(nc)) {
+      return { ok: false, status: 409, error: "A NC foi mesclada em outra; separe pela NC principal." } as const;
+    }
+
+    const actions = nc.actions ?? [];
+    const occurrences = nc.occurrences ?? [];
+    const actionIds = new Set(input.actionIds);
+    const occurrenceIds = new Set(input.occurrenceIds);
+    if (
+      input.actionIds.some((id) => !actions.some((action) => action.id === id)) ||
+      input.occurrenceIds.some((id) => !occurrences.some((occurrence) => occurrenceKey(occurrence) === id))
+    ) {
+      return { ok: false, status: 400, error: "Ação ou ocorrência não pertence à NC." } as const;
+    }
+
+    const movedActions = actions.filter((action) => actionIds.has(action.id));
+    const keptActions = actions.filter((action) => !actionIds.has(action.id));
+    const movedOccurrences = occurrences.filter((occurrence) => occurrenceIds.has(occurrenceKey(occurrence)));
+    const keptOccurrences = occurrences.filter((occurrence) => !occurrenceIds.has(occurrenceKey(occurrence)));
+
+    const severity = input.severity ?? nc.severity ?? "media";
+    // A NC nova nasce do relato mais antigo entre as ocorrências levadas; sem elas, da origem da NC.
+    const origin = [...movedOccurrences].sort((a, b) => a.createdAt.localeCompare(b.createdAt))[0] ?? nc;
+    const policy = resolveSlaPolicy({ severity, safetyRisk: nc.safetyRisk, linkedAsset: nc.linkedAsset }, policies);
+
+    tx.set(createdRef, {
+      title: input.title,
+      description: input.description ?? null,
+      severity,
+      safetyRisk: nc.safetyRisk ?? false,
+      impactAvailability: nc.impactAvailability ?? false,
+      status: "aberta",
+      dueAt: computeSlaDueAt(origin.createdAt, policy),
+      slaPolicyId: policy.id,
+      createdAt: origin.createdAt,
+      createdAtTs: Timestamp.fromDate(new Date(origin.createdAt)),
+      createdBy: origin.createdBy,
+      linkedAsset: nc.linkedAsset,
+      linkedTemplateId: nc.linkedTemplateId ?? null,
+      source: nc.source,
+      originChecklistResponseId: origin.originChecklistResponseId,
+      originQuestionId: origin.originQuestionId ?? null,
+      rootCause: null,
+      actions: serializeActions(movedActions),
+      capaVerificationDueAt: nextCapaVerificationDueAt(movedActions),
+      occurrences: movedOccurrences,
+      yearMonth: origin.createdAt.slice(0, 7),
+      severityRank: severityRank(severity),
+      systemCategory: nc.systemCategory ?? null,
+      searchTokens: buildNcSearchTokens({
+        title: input.title,
+        description: input.description,
+        linkedAsset: nc.linkedAsset,
+        createdBy: origin.createdBy,
+      }),
+      merged: false,
+      splitFromId: nc.id,
+      updatedAt: atISO,
+    });
+
+    for (const occurrence of movedOccurrences) {
+      if (occurrence.ncId) tx.update(collection.doc(occurrence.ncId), { mergedIntoId: createdRef.id, merged: true });
+    }
+    const serializedKept = serializeActions(keptActions);
+    tx.update(ref, {
+      actions: serializedKept,
+      occurrences: keptOccurrences,
+      capaVerificationDueAt: nextCapaVerificationDueAt(keptActions),
+      updatedAt: atISO,
+    });
+
+    const splitAudit = (diff: NcAuditEntry["diff"]): Omit<NcAuditEntry, "id"> => ({
+      type: "split",
+      ...auditActor(actor),
+      atISO,
+      diff,
+    });
+    tx.set(
+      ref.collection("audits").doc(),
+      splitAudit({
+        splitInto: { before: null, after: createdRef.id },
+        actions: { before: actions, after: serializedKept },
+        occurrences: { before: occurrences, after: keptOccurrences },
+      }),
+    );
+    tx.set(createdRef.collection("audits").doc(), splitAudit({ splitFromId: { before: null, after: nc.id } }));
+
+    return { ok: true, nc, severity } as const;
+  });
+  if (!outcome.ok) return outcome;
+  const { nc, severity } = outcome;
+
+  const machineId = nc.linkedAsset.id;
+  if (machineId && isDowntimeNc({ severity, safetyRisk: nc.safetyRisk })) {
+    try {
+      await markMachineDownForNc(db, { id: createdRef.id, title: input.title, machineId }, now);
+    } catch (error) {
+      console.error(`Failed to mark machine down for NC ${createdRef.id}`, error);
+    }
+  }
+  if (severity === "alta") {
+    await enqueueNotificationEvent(
+      db,
+      { id: notificationEventId("nc_created", createdRef.id), kind: "nc_created", refId: createdRef.id },
+      now,
+    );
+  }
+
+  return {
+    ok: true,
+    data: mapNonConformityDoc(await ref.get()),
+    created: mapNonConformityDoc(await createdRef.get()),
+  };
+}
@@ -0,0 +1,54 @@
+import type { NonConformity } from "@/types/nonconformity";
+
+/** Prefixos mais longos que isso não entram no índice; a busca corta o termo no mesmo tamanho. */
+export const NC_SEARCH_MAX_TOKEN_LENGTH = 20;
+
+const MIN_TOKEN_LENGTH = 2;
+const MAX_TOKENS = 400;
+
+const words = (value: unknown): string[] =>
+  typeof value === "string"
+    ? value
+        .normalize("NFD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter((word) => word.length >= MIN_TOKEN_LENGTH)
+    : [];
+
+export type NcSearchSource = {
+  title?: string | null;
+  description?: string | null;
+  linkedAsset?: Pick<NonConformity["linkedAsset"], "tag"> | null;
+  createdBy?: { nome?: string | null; matricula?: string | null } | null;
+};
+
+/**
+ * Tokens de `searchTokens`: palavras normalizadas (sem acento, minúsculas) de
+ * título, descrição, TAG e operador, com seus prefixos, para `array-contains`.
+ * Mesma regra de `functions/src/search.ts`.
+ */
+export function buildNcSearchTokens(source: NcSearchSource): string[] {
+  const tokens = new Set<string>();
+  const fields = [
+    source.title,
+    source.description,
+    source.linkedAsset?.tag,
+    source.createdBy?.nome,
+    source.createdBy?.matricula,
+  ];
+  for (const word of fields.flatMap(words)) {
+    const limit = Math.min(word.length, NC_SEARCH_MAX_TOKEN_LENGTH);
+    for (let length = MIN_TOKEN_LENGTH; length <= limit; length += 1) {
+      tokens.add(word.slice(0, length));
+    }
+    if (tokens.size >= MAX_TOKENS) break;
+  }
+  return Array.from(tokens).slice(0, MAX_TOKENS);
+}
+
+/** Termos do `q=` já no formato do índice, do mais longo (mais seletivo) ao mais curto. */
+export function parseNcSearchQuery(query: string | null | undefined): string[] {
+  const terms = new Set(words(query).map((word) => word.slice(0, NC_SEARCH_MAX_TOKEN_LENGTH)));
+  return Array.from(terms).sort((a, b) => b.length - a.length);
+}
@@ -0,0 +1,243 @@
+import { Timestamp, type DocumentSnapshot, type Firestore } from "firebase-admin/firestore";
+import {
+  FAULT_CODE_CATALOG_COLLECTION,
+  decodeFaultCode,
+  extractQuestionSystem,
+  normalizeLabel,
+  parseFaultCode,
+  resolveSystemCategory,
+} from "@/lib/fault-codes";
+import { TELEMETRY_READINGS_COLLECTION, type MachineTelemetryReading } from "@/lib/telemetry/provider";
+import type { DecodedFaultCode, FaultCodeCatalogEntry, NcSuggestion } from "@/types/fault-code";
+import { severityRank } from "@/lib/firestore/nc";
+import { buildNcSearchTokens } from "@/lib/nc-search";
+import { computeSlaDueAt, resolveSlaPolicy } from "@/lib/sla";
+import { loadSlaPolicies } from "@/lib/sla-escalation";
+import { enqueueNotificationEvent, notificationEventId } from "@/lib/notifications";
+import type { NonConformity } from "@/types/nonconformity";
+
+export const NC_SUGGESTIONS_COLLECTION = "ncSuggestions";
+
+const faultKey = (raw: string) => {
+  const parsed = parseFaultCode(raw);
+  return `${parsed.protocol}:${parsed.code}`;
+};
+
+/** Códigos presentes na leitura atual e ausentes na anterior (falhas que acabaram de ficar ativas). */
+export function findNewActiveFaults(previous: string[] | undefined, current: string[] | undefined): string[] {
+  const before = new Set((previous ?? []).map(faultKey));
+  const seen = new Set<string>();
+  return (current ?? []).filter((code) => {
+    const key = faultKey(code);
+    if (before.has(key) || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+type OpenNcInfo = Pick<NonConformity, "status" | "systemCategory" | "telemetryRef"> & { faultCode?: string | null };
+
+/** Uma NC aberta da máquina cobre a falha quando cita o mesmo código ou o mesmo sistema. */
+export function hasMatchingOpenNc(fault: DecodedFaultCode, records: OpenNcInfo[]): boolean {
+  const key = `${fault.protocol}:${fault.code}`;
+  return records.some((record) => {
+    if (record.status === "resolvida") return false;
+    if (record.faultCode && faultKey(record.faultCode) === key) return true;
+    if ((record.telemetryRef?.faultCodes ?? []).some((code) => faultKey(code) === key)) return true;
+    return Boolean(record.systemCategory) && normalizeLabel(record.systemCategory ?? "") === normalizeLabel(fault.systemCategory);
+  });
+}
+
+export const ncSuggestionId = (machineId: string, fault: Pick<DecodedFaultCode, "protocol" | "code">) =>
+  `${machineId}_${fault.protocol}_${fault.code}`.replace(/[^0-9A-Za-z_-]/g, "-");
+
+export function mapFaultCodeCatalogEntry(docSnap: DocumentSnapshot): FaultCodeCatalogEntry {
+  const data = docSnap.data() ?? {};
+  return {
+    id: docSnap.id,
+    protocol: data.protocol === "j1939" || data.protocol === "obd2" ? data.protocol : "oem",
+    code: String(data.code ?? ""),
+    oem: typeof data.oem === "string" ? data.oem : null,
+    component: String(data.component ?? ""),
+    failureMode: String(data.failureMode ?? ""),
+    systemCategory: String(data.systemCategory ?? "Não classificado"),
+    severity: data.severity === "alta" || data.severity === "baixa" ? data.severity : "media",
+    importedAt: typeof data.importedAt === "string" ? data.importedAt : undefined,
+  };
+}
+
+export function mapNcSuggestion(docSnap: DocumentSnapshot): NcSuggestion {
+  const data = docSnap.data() ?? {};
+  return {
+    id: docSnap.id,
+    machineId: String(data.machineId ?? ""),
+    machineTag: typeof data.machineTag === "string" ? data.machineTag : null,
+    status: data.status === "accepted" || data.status === "dismissed" ? data.status : "pending",
+    title: String(data.title ?? ""),
+    fault: data.fault as DecodedFaultCode,
+    telemetry: (data.telemetry as NcSuggestion["telemetry"]) ?? null,
+    readingAt: String(data.readingAt ?? ""),
+    createdAt: String(data.createdAt ?? ""),
+    ncId: typeof data.ncId === "string" ? data.ncId : null,
+    resolvedAt: typeof data.resolvedAt === "string" ? data.resolvedAt : null,
+    resolvedBy: (data.resolvedBy as NcSuggestion["resolvedBy"]) ?? null,
+  };
+}
+
+export async function loadFaultCodeCatalog(db: Firestore): Promise<FaultCodeCatalogEntry[]> {
+  const snapshot = await db.collection(FAULT_CODE_CATALOG_COLLECTION).get();
+  return snapshot.docs.map(mapFaultCodeCatalogEntry);
+}
+
+/** Sistemas usados nas perguntas dos templates, o mesmo vocabulário das NCs de checklist. */
+export async function loadSystemVocabulary(db: Firestore): Promise<string[]> {
+  const snapshot = await db.collection("checklistTemplates").get();
+  const systems = new Set<string>();
+  for (const docSnap of snapshot.docs) {
+    const questions = docSnap.data().questions;
+    if (!Array.isArray(questions)) continue;
+    for (const question of questions) {
+      const system = question && typeof question === "object" ? extractQuestionSystem(question) : undefined;
+      if (system) systems.add(system);
+    }
+  }
+  return Array.from(systems);
+}
+
+/**
+ * Gera sugestões de NC para falhas que ficaram ativas nas leituras informadas,
+ * quando a máquina não tem NC aberta para o mesmo código ou sistema. Uma sugestão
+ * pendente para o mesmo código não é duplicada.
+ */
+export async function raiseFaultCodeSuggestions(options: {
+  db: Firestore;
+  readings: MachineTelemetryReading[];
+  machineTags?: Map<string, string | undefined>;
+  now?: Date;
+}): Promise<NcSuggestion[]> {
+  const { db } = options;
+  // O stub inventa códigos; só leituras reais geram sugestões.
+  const withFaults = options.readings.filter(
+    (reading) => reading.source !== "stub" && reading.telemetry.faultCodes?.length,
+  );
+  if (!withFaults.length) return [];
+
+  const nowIso = (options.now ?? new Date()).toISOString();
+  const [catalog, vocabulary] = await Promise.all([loadFaultCodeCatalog(db), loadSystemVocabulary(db)]);
+  const raised: NcSuggestion[] = [];
+
+  for (const reading of withFaults) {
+    const previousSnap = await db
+      .collection(TELEMETRY_READINGS_COLLECTION)
+      .where("machineId", "==", reading.machineId)
+      .where("at", "<", reading.at)
+      .orderBy("at", "desc")
+      .limit(1)
+      .get();
+    const previousCodes = previousSnap.docs[0]?.data().faultCodes as string[] | undefined;
+    const newFaults = findNewActiveFaults(previousCodes, reading.telemetry.faultCodes);
+    if (!newFaults.length) continue;
+
+    const ncSnap = await db.collection("nonConformities").where("linkedAsset.id", "==", reading.machineId).get();
+    const openNcs = ncSnap.docs.map((docSnap) => docSnap.data() as OpenNcInfo);
+
+    for (const raw of newFaults) {
+      const decoded = decodeFaultCode(raw, catalog, reading.oemName);
+      const fault = { ...decoded, systemCategory: resolveSystemCategory(decoded.systemCategory, vocabulary) };
+      if (hasMatchingOpenNc(fault, openNcs)) continue;
+
+      const ref = db.collection(NC_SUGGESTIONS_COLLECTION).doc(ncSuggestionId(reading.machineId, fault));
+      const existing = await ref.get();
+      if (existing.exists && existing.data()?.status === "pending") continue;
+
+      const suggestion: Omit<NcSuggestion, "id"> = {
+        machineId: reading.machineId,
+        machineTag: options.machineTags?.get(reading.machineId) ?? null,
+        status: "pending",
+        title: `${fault.component}: ${fault.failureMode}`,
+        fault,
+        telemetry: reading.telemetry,
+        readingAt: reading.at,
+        createdAt: nowIso,
+        ncId: null,
+        resolvedAt: null,
+        resolvedBy: null,
+      };
+      await ref.set(suggestion);
+      raised.push({ id: ref.id, ...suggestion });
+    }
+  }
+
+  return raised;
+}
+
+export type NcSuggestionActor = { id: string; nome?: string | null };
+
+/** Converte a sugestão em NC aberta (`source: "telemetry"`) e registra quem aceitou. */
+export async function acceptNcSuggestion(
+  db: Firestore,
+  suggestion: NcSuggestion,
+  actor: NcSuggestionActor,
+  now: Date = new Date(),
+): Promise<string> {
+  const machineSnap = await db.collection("machines").doc(suggestion.machineId).get();
+  const machine = machineSnap.data() ?? {};
+  const createdAt = now.toISOString();
+  const { fault } = suggestion;
+  const setor = typeof machine.setor === "string" ? machine.setor : null;
+  const policy = resolveSlaPolicy(
+    { severity: fault.severity, safetyRisk: false, linkedAsset: { setor: setor ?? undefined } },
+    await loadSlaPolicies(db),
+  );
+
+  const description = `Código ${fault.raw} (${fault.protocol.toUpperCase()}) ativo desde ${suggestion.readingAt}.`;
+  const linkedAsset = {
+    id: suggestion.machineId,
+    tag: typeof machine.tag === "string" ? machine.tag : suggestion.machineTag ?? "",
+    modelo: typeof machine.modelo === "string" ? machine.modelo : null,
+    setor,
+  };
+  const createdBy = { id: actor.id, matricula: "", nome: actor.nome ?? null };
+
+  const ncRef = await db.collection("nonConformities").add({
+    title: suggestion.title,
+    description,
+    severity: fault.severity,
+    safetyRisk: false,
+    impactAvailability: false,
+    status: "aberta",
+    dueAt: computeSlaDueAt(createdAt, policy),
+    slaPolicyId: policy.id,
+    createdAt,
+    createdAtTs: Timestamp.fromDate(now),
+    createdBy,
+    linkedAsset,
+    source: "telemetry",
+    originChecklistResponseId: "",
+    rootCause: null,
+    actions: [],
+    telemetryRef: suggestion.telemetry ?? null,
+    yearMonth: createdAt.slice(0, 7),
+    severityRank: severityRank(fault.severity),
+    systemCategory: fault.systemCategory,
+    faultCode: fault.raw,
+    normalizedTitle: normalizeLabel(suggestion.title),
+    searchTokens: buildNcSearchTokens({ title: suggestion.title, description, linkedAsset, createdBy }),
+    merged: false,
+  });
+
+  await db.collection(NC_SUGGESTIONS_COLLECTION).doc(suggestion.id).update({
+    status: "accepted",
+    ncId: ncRef.id,
+    resolvedAt: createdAt,
+    resolvedBy: { id: actor.id, nome: actor.nome ?? null },
+  });
+  if (fault.severity === "alta") {
+    await enqueueNotificationEvent(
+      db,
+      { id: notificationEventId("nc_created", ncRef.id), kind: "nc_created", refId: ncRef.id },
+      now,
+    );
+  }
+  return ncRef.id;
+}
@@ -0,0 +1,409 @@
+import type { Firestore } from "firebase-admin/firestore";
+import { z } from "zod";
+import {
+  nextCapaVerificationDueAt,
+  preserveCapaVerifications,
+  resolveCapaVerificationDays,
+  scheduleCapaVerifications,
+} from "@/lib/capa-verification";
+import {
+  mapActionCost,
+  mapNonConformityDoc,
+  serializeActions,
+  severityRank as computeSeverityRank,
+} from "@/lib/firestore/nc";
+import { isDowntimeNc, markMachineDownForNc, releaseMachineForNc } from "@/lib/machine-status";
+import { ncClosureError, validateNcTransition, type NcTransitionInput } from "@/lib/nc-workflow";
+import { enqueueNotificationEvent, notificationEventId } from "@/lib/notifications";
+import { ensurePartRequestForNc } from "@/lib/parts";
+import type { RequestActor } from "@/lib/request-actor";
+import { parseRootCauseAnalysis, rootCauseSummary } from "@/lib/root-cause";
+import { computeSlaDueAt, resolveSlaPolicy } from "@/lib/sla";
+import { loadSlaPolicies } from "@/lib/sla-escalation";
+import type { NcAction, NcAuditEntry, NcOwner, NonConformity, Severity, TelemetryRef } from "@/types/nonconformity";
+import type { SlaPolicy } from "@/types/sla";
+
+export type NcUpdateResult =
+  | { ok: true; data: NonConformity; changed: boolean }
+  | { ok: false; status: number; error: string };
+
+function parseActions(raw: unknown, fallback: NcAction[]): NcAction[] {
+  if (!Array.isArray(raw)) return fallback;
+  return raw
+    .map((item) => {
+      if (!item || typeof item !== "object") return undefined;
+      const record = item as Record<string, unknown>;
+      const description = typeof record.description === "string" ? record.description.trim() : "";
+      if (!description) return undefined;
+      const id = typeof record.id === "string" && record.id ? record.id : crypto.randomUUID();
+      const type = record.type === "preventiva" ? "preventiva" : "corretiva";
+      const parsed: NcAction = { id, type, description };
+
+      if (record.owner && typeof record.owner === "object") {
+        const owner = record.owner as Record<string, unknown>;
+        const ownerId = typeof owner.id === "string" ? owner.id : undefined;
+        if (ownerId) {
+          parsed.owner = {
+            id: ownerId,
+            nome: typeof owner.nome === "string" ? owner.nome : undefined,
+          };
+        }
+      }
+      if (typeof record.startedAt === "string") parsed.startedAt = record.startedAt;
+      if (typeof record.completedAt === "string") parsed.completedAt = record.completedAt;
+      if (typeof record.effective === "boolean") parsed.effective = record.effective;
+      const cost = mapActionCost(record.cost);
+      if (cost) parsed.cost = cost;
+
+      return parsed;
+    })
+    .filter((action): action is NcAction => Boolean(action));
+}
+
+function sanitizeTelemetry(raw: unknown): TelemetryRef | null {
+  if (!raw || typeof raw !== "object") return null;
+  const data = raw as Record<string, unknown>;
+  const telemetry: TelemetryRef = {};
+  if (typeof data.hours === "number") telemetry.hours = data.hours;
+  if (typeof data.odometerKm === "number") telemetry.odometerKm = data.odometerKm;
+  if (typeof data.fuelUsedL === "number") telemetry.fuelUsedL = data.fuelUsedL;
+  if (typeof data.idleTimeH === "number") telemetry.idleTimeH = data.idleTimeH;
+  if (Array.isArray(data.faultCodes)) {
+    telemetry.faultCodes = data.faultCodes.filter((code) => typeof code === "string") as string[];
+  }
+  if (typeof data.windowStart === "string") telemetry.windowStart = data.windowStart;
+  if (typeof data.windowEnd === "string") telemetry.windowEnd = data.windowEnd;
+  return Object.keys(telemetry).length ? telemetry : null;
+}
+
+/** `null` remove o responsável; valores sem `id` são ignorados. */
+function parseOwner(raw: unknown): NcOwner | null | undefined {
+  if (raw === null) return null;
+  if (!raw || typeof raw !== "object") return undefined;
+  const data = raw as Record<string, unknown>;
+  const id = typeof data.id === "string" ? data.id.trim() : "";
+  if (!id) return undefined;
+  return { id, ...(typeof data.nome === "string" && data.nome.trim() ? { nome: data.nome.trim() } : {}) };
+}
+
+/** Prazo pedido, limitado ao da política de SLA nas NCs de severidade alta. */
+function resolveDueAt(existing: NonConformity, severity: Severity, policy: SlaPolicy, requested?: string): string {
+  const fallback = computeSlaDueAt(existing.createdAt, policy);
+  if (!requested) {
+    return fallback;
+  }
+  const requestedDate = new Date(requested);
+  if (Number.isNaN(requestedDate.getTime())) {
+    return fallback;
+  }
+  const createdAtDate = new Date(existing.createdAt);
+  if (requestedDate.getTime() < createdAtDate.getTime()) {
+    return fallback;
+  }
+  if (severity === "alta" && requestedDate.getTime() > new Date(fallback).getTime()) {
+    return fallback;
+  }
+  return requestedDate.toISOString();
+}
+
+/** Enfileira o e-mail de atribuição para o responsável novo da NC e de cada ação. */
+async function notifyNewOwners(db: Firestore, before: NonConformity, after: NonConformity) {
+  const ncId = after.id;
+  const ncOwnerId = after.owner?.id;
+  if (ncOwnerId && after.status !== "resolvida" && before.owner?.id !== ncOwnerId) {
+    await enqueueNotificationEvent(db, {
+      id: notificationEventId("nc_assigned", ncId, ncOwnerId),
+      kind: "nc_assigned",
+      refId: ncId,
+      payload: { ownerId: ncOwnerId },
+    });
+  }
+
+  const previousOwners = new Map((before.actions ?? []).map((action) => [action.id, action.owner?.id]));
+  for (const action of after.actions ?? []) {
+    const ownerId = action.owner?.id;
+    if (!ownerId || action.completedAt || previousOwners.get(action.id) === ownerId) continue;
+    await enqueueNotificationEvent(db, {
+      id: notificationEventId("nc_assigned", ncId, action.id, ownerId),
+      kind: "nc_assigned",
+      refId: ncId,
+      payload: { actionId: action.id, ownerId },
+    });
+  }
+}
+
+function diffChanged(before: unknown, after: unknown): boolean {
+  return JSON.stringify(before) !== JSON.stringify(after);
+}
+
+/** Para a máquina quando a NC vira de segurança/alta e a libera quando ela é resolvida. */
+async function syncMachineAvailability(db: Firestore, before: NonConformity, after: NonConformity) {
+  const machineId = after.linkedAsset?.id;
+  if (!machineId) return;
+  const target = { id: after.id, title: after.title, machineId };
+  try {
+    if (after.status === "resolvida" || !isDowntimeNc(after)) {
+      await releaseMachineForNc(db, target);
+    } else if (before.status === "resolvida" || !isDowntimeNc(before)) {
+      await markMachineDownForNc(db, target);
+    }
+  } catch (error) {
+    console.error(`Failed to sync machine status for NC ${after.id}`, error);
+  }
+}
+
+/**
+ * Aplica a edição de uma NC com as regras do fluxo (transições por perfil,
+ * fechamento, prazo de SLA) e grava a auditoria. Usada pelo `PATCH
+ * /api/nc/{id}` e pelas ações em lote. Sem `dueAt` no payload, o prazo volta
+ * ao da política de SLA; `buildPayload` permite partir da NC atual. O perfil
+ * que autoriza as transições é o do `actor` verificado pela rota.
+ */
+export async function updateNonConformity(
+  db: Firestore,
+  id: string,
+  buildPayload: Record<string, unknown> | ((existing: NonConformity) => Record<string, unknown>),
+  actor: RequestActor,
+): Promise<NcUpdateResult> {
+  const ref = db.collection("nonConformities").doc(id);
+  const snapshot = await ref.get();
+  if (!snapshot.exists) {
+    return { ok: false, status: 404, error: "NC não encontrada" };
+  }
+
+  const existing = mapNonConformityDoc(snapshot);
+  if (existing.mergedIntoId) {
+    return { ok: false, status: 409, error: `NC mesclada em ${existing.mergedIntoId}; edite a NC principal.` };
+  }
+  const payload = typeof buildPayload === "function" ? buildPayload(existing) : buildPayload;
+
+  const nextSeverity = (payload.severity ?? existing.severity ?? "media") as Severity;
+  const nextStatus = (payload.status ?? existing.status) as NonConformity["status"];
+  const requestedDueAt = typeof payload.dueAt === "string" ? payload.dueAt : undefined;
+  const slaPolicy = resolveSlaPolicy(
+    {
+      severity: nextSeverity,
+      safetyRisk: payload.safetyRisk !== undefined ? Boolean(payload.safetyRisk) : existing.safetyRisk,
+      linkedAsset: existing.linkedAsset,
+    },
+    await loadSlaPolicies(db),
+  );
+  const nextDueAt = resolveDueAt(existing, nextSeverity, slaPolicy, requestedDueAt);
+
+  let nextAnalysis = existing.rootCauseAnalysis ?? null;
+  if (payload.rootCauseAnalysis !== undefined) {
+    const parsedAnalysis = parseRootCauseAnalysis(payload.rootCauseAnalysis);
+    if (!parsedAnalysis.ok) {
+      return { ok: false, status: 400, error: parsedAnalysis.error };
+    }
+    nextAnalysis = parsedAnalysis.data;
+  }
+
+  const requestedRootCause =
+    typeof payload.rootCause === "string" ? payload.rootCause.trim() : existing.rootCause;
+  const nextRootCause = requestedRootCause?.trim()
+    ? requestedRootCause
+    : nextAnalysis
+      ? rootCauseSummary(nextAnalysis)
+      : requestedRootCause;
+
+  const incomingActions = parseActions(payload.actions, existing.actions ?? []);
+  const nextActions = scheduleCapaVerifications(
+    preserveCapaVerifications(incomingActions.length ? incomingActions : existing.actions ?? [], existing.actions ?? []),
+    resolveCapaVerificationDays(),
+  );
+
+  const telemetry = sanitizeTelemetry(payload.telemetryRef ?? payload.telemetry);
+  const nextOwner = parseOwner(payload.owner);
+
+  const requiresCapa = Boolean(existing.recurrenceOfId);
+
+  const statusChanged = nextStatus !== existing.status;
+  const transition = statusChanged
+    ? validateNcTransition(existing.status, nextStatus, actor.role, (payload.transition ?? {}) as NcTransitionInput)
+    : null;
+  if (transition && !transition.ok) {
+    return { ok: false, status: transition.status, error: transition.error };
+  }
+
+  if (nextStatus === "resolvida") {
+    const closureError = ncClosureError(nextActions, { recurrent: requiresCapa, rootCause: nextRootCause });
+    if (closureError) {
+      return { ok: false, status: 400, error: closureError };
+    }
+  }
+
+  const updates: Record<string, unknown> = {};
+  const diff: Record<string, { before: unknown; after: unknown }> = {};
+
+  const applyChange = (key: string, before: unknown, after: unknown) => {
+    if (diffChanged(before, after)) {
+      updates[key] = after;
+      diff[key] = { before, after };
+    }
+  };
+
+  applyChange("status", existing.status, nextStatus);
+  if (transition?.ok) {
+    applyChange("waitingPart", existing.waitingPart ?? null, transition.waitingPart ?? null);
+    applyChange(
+      "blockedReason",
+      existing.blockedReason ?? null,
+      transition.rule.event === "blocked" ? transition.reason ?? null : null,
+    );
+    if (transition.rule.event === "reopened") {
+      applyChange("reopenCount", existing.reopenCount ?? 0, (existing.reopenCount ?? 0) + 1);
+    }
+  }
+  applyChange("severity", existing.severity, nextSeverity);
+  applyChange("severityRank", existing.severityRank, computeSeverityRank(nextSeverity));
+  applyChange("dueAt", existing.dueAt, nextDueAt);
+
+  if (nextRootCause !== undefined) {
+    const normalizedRootCause = nextRootCause?.trim() ? nextRootCause.trim() : null;
+    applyChange("rootCause", existing.rootCause ?? null, normalizedRootCause);
+  }
+
+  if (payload.rootCauseAnalysis !== undefined) {
+    applyChange("rootCauseAnalysis", existing.rootCauseAnalysis ?? null, nextAnalysis);
+  }
+
+  if (payload.safetyRisk !== undefined) {
+    applyChange("safetyRisk", existing.safetyRisk ?? false, Boolean(payload.safetyRisk));
+  }
+
+  if (payload.impactAvailability !== undefined) {
+    applyChange(
+      "impactAvailability",
+      existing.impactAvailability ?? false,
+      Boolean(payload.impactAvailability),
+    );
+  }
+
+  if (nextOwner !== undefined) {
+    applyChange("owner", existing.owner ?? null, nextOwner);
+  }
+
+  const serializedActions = serializeActions(nextActions);
+  applyChange("actions", existing.actions ?? [], serializedActions);
+  applyChange(
+    "capaVerificationDueAt",
+    existing.capaVerificationDueAt ?? null,
+    nextCapaVerificationDueAt(nextActions),
+  );
+
+  if (telemetry !== null) {
+    applyChange("telemetryRef", existing.telemetryRef ?? null, telemetry);
+  }
+
+  applyChange(
+    "updatedAt",
+    (snapshot.data() as Record<string, unknown>)?.updatedAt ?? null,
+    new Date().toISOString(),
+  );
+
+  if (Object.keys(diff).length === 0) {
+    return { ok: true, data: existing, changed: false };
+  }
+
+  await ref.update(updates);
+
+  const audit: Omit<NcAuditEntry, "id"> = {
+    type: transition?.ok ? transition.rule.event : "updated",
+    byUserId: actor.id,
+    byNome: actor.nome,
+    byRole: actor.role,
+    atISO: new Date().toISOString(),
+    diff,
+  };
+  if (transition?.ok) {
+    audit.transition = {
+      from: existing.status,
+      to: nextStatus,
+      ...(transition.reason ? { reason: transition.reason } : {}),
+      ...(transition.waitingPart ?? {}),
+    };
+  }
+  await ref.collection("audits").add(audit);
+
+  const updated = mapNonConformityDoc(await ref.get());
+
+  await notifyNewOwners(db, existing, updated);
+
+  await syncMachineAvailability(db, existing, updated);
+
+  if (transition?.ok && transition.waitingPart) {
+    await ensurePartRequestForNc(db, updated, transition.waitingPart, actor).catch((error) => {
+      console.error(`Failed to open part request for NC ${id}`, error);
+    });
+  }
+
+  return { ok: true, data: updated, changed: true };
+}
+
+export const ncBulkUpdateSchema = z.object({
+  ids: z.array(z.string().trim().min(1)).min(1).max(200),
+  changes: z
+    .object({
+      status: z.enum(["aberta", "em_execucao", "aguardando_peca", "bloqueada", "resolvida"]).optional(),
+      transition: z
+        .object({
+          reason: z.string().trim().nullish(),
+          partNumber: z.string().trim().nullish(),
+          expectedAt: z.string().trim().nullish(),
+        })
+        .optional(),
+      owner: z
+        .object({ id: z.string().trim().min(1), nome: z.string().trim().nullish() })
+        .nullable()
+        .optional(),
+      dueAt: z.string().datetime().optional(),
+      severity: z.enum(["baixa", "media", "alta"]).optional(),
+    })
+    .refine(
+      (changes) =>
+        changes.status !== undefined ||
+        changes.owner !== undefined ||
+        changes.dueAt !== undefined ||
+        changes.severity !== undefined,
+      { message: "Informe ao menos uma alteração." },
+    ),
+});
+
+export type NcBulkUpdateInput = z.infer<typeof ncBulkUpdateSchema>;
+
+export type NcBulkItemResult =
+  | { id: string; ok: true; changed: boolean; data: NonConformity }
+  | { id: string; ok: false; status: number; error: string };
+
+/**
+ * Aplica as mesmas alterações a várias NCs, uma a uma, pelas regras do
+ * `PATCH`. Cada NC tem sua auditoria; falhas não interrompem as demais.
+ * O prazo atual é mantido quando a alteração não o inclui.
+ */
+export async function bulkUpdateNonConformities(
+  db: Firestore,
+  input: NcBulkUpdateInput,
+  actor: RequestActor,
+): Promise<NcBulkItemResult[]> {
+  const results: NcBulkItemResult[] = [];
+  for (const id of Array.from(new Set(input.ids))) {
+    try {
+      const result = await updateNonConformity(
+        db,
+        id,
+        (existing) => ({ ...input.changes, dueAt: input.changes.dueAt ?? existing.dueAt }),
+        actor,
+      );
+      results.push(
+        result.ok
+          ? { id, ok: true, changed: result.changed, data: result.data }
+          : { id, ok: false, status: result.status, error: result.error },
+      );
+    } catch (error) {
+      console.error(`Bulk update failed for NC ${id}`, error);
+      results.push({ id, ok: false, status: 500, error: "Falha ao atualizar a NC" });
+    }
+  }
+  return results;
+}
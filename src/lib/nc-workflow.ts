@@ -0,0 +1,126 @@
+import type { NcAction, NcAuditEventType, NcStatus, NcWaitingPart } from "@/types/nonconformity";
+import type { UserRole } from "@/types/user";
+
+export type NcTransitionRequirement = "partRequest" | "blockerReason" | "justification";
+
+export type NcTransitionRule = {
+  from: NcStatus;
+  to: NcStatus;
+  event: NcAuditEventType;
+  roles: UserRole[];
+  requires?: NcTransitionRequirement;
+};
+
+const MAINTENANCE: UserRole[] = ["mecanico", "admin"];
+
+/**
+ * Fluxo de status da NC. Só as transições listadas são aceitas; `resolvida` só
+ * volta para `aberta` (reabertura, com justificativa e apenas por admin).
+ */
+export const NC_TRANSITIONS: NcTransitionRule[] = [
+  { from: "aberta", to: "em_execucao", event: "started", roles: MAINTENANCE },
+  { from: "aberta", to: "aguardando_peca", event: "waiting_part", roles: MAINTENANCE, requires: "partRequest" },
+  { from: "aberta", to: "bloqueada", event: "blocked", roles: MAINTENANCE, requires: "blockerReason" },
+  { from: "aberta", to: "resolvida", event: "resolved", roles: MAINTENANCE },
+  { from: "em_execucao", to: "aguardando_peca", event: "waiting_part", roles: MAINTENANCE, requires: "partRequest" },
+  { from: "em_execucao", to: "bloqueada", event: "blocked", roles: MAINTENANCE, requires: "blockerReason" },
+  { from: "em_execucao", to: "resolvida", event: "resolved", roles: MAINTENANCE },
+  { from: "aguardando_peca", to: "em_execucao", event: "resumed", roles: MAINTENANCE },
+  { from: "aguardando_peca", to: "bloqueada", event: "blocked", roles: MAINTENANCE, requires: "blockerReason" },
+  { from: "bloqueada", to: "em_execucao", event: "resumed", roles: MAINTENANCE },
+  { from: "bloqueada", to: "aguardando_peca", event: "waiting_part", roles: MAINTENANCE, requires: "partRequest" },
+  { from: "resolvida", to: "aberta", event: "reopened", roles: ["admin"], requires: "justification" },
+];
+
+export const USER_ROLES: readonly UserRole[] = ["operador", "motorista", "mecanico", "admin"];
+
+export const isUserRole = (value: unknown): value is UserRole =>
+  typeof value === "string" && (USER_ROLES as readonly string[]).includes(value);
+
+export function findNcTransition(from: NcStatus, to: NcStatus): NcTransitionRule | undefined {
+  return NC_TRANSITIONS.find((rule) => rule.from === from && rule.to === to);
+}
+
+/** Transições a partir do status atual; com `role`, só as que o perfil pode executar. */
+export function allowedNcTransitions(from: NcStatus, role?: UserRole | null): NcTransitionRule[] {
+  return NC_TRANSITIONS.filter((rule) => rule.from === from && (!role || rule.roles.includes(role)));
+}
+
+export type NcTransitionInput = {
+  reason?: string | null;
+  partNumber?: string | null;
+  expectedAt?: string | null;
+};
+
+export type NcTransitionResult =
+  | {
+      ok: true;
+      rule: NcTransitionRule;
+      reason?: string;
+      waitingPart?: NcWaitingPart;
+    }
+  | { ok: false; status: 400 | 403 | 409; error: string };
+
+/** Valida a troca de status: transição permitida, perfil do autor e campos obrigatórios. */
+export function validateNcTransition(
+  from: NcStatus,
+  to: NcStatus,
+  role: UserRole | null | undefined,
+  input: NcTransitionInput = {},
+): NcTransitionResult {
+  const rule = findNcTransition(from, to);
+  if (!rule) {
+    return { ok: false, status: 409, error: `Transição de "${from}" para "${to}" não permitida.` };
+  }
+  if (!role || !rule.roles.includes(role)) {
+    return { ok: false, status: 403, error: "Seu perfil não pode executar esta transição." };
+  }
+
+  const reason = input.reason?.trim() || undefined;
+  if (rule.requires === "blockerReason" && !reason) {
+    return { ok: false, status: 400, error: "Informe o motivo do bloqueio." };
+  }
+  if (rule.requires === "justification" && !reason) {
+    return { ok: false, status: 400, error: "Informe a justificativa da reabertura." };
+  }
+  if (rule.requires === "partRequest") {
+    const partNumber = input.partNumber?.trim();
+    const expectedAt = input.expectedAt ? new Date(input.expectedAt) : null;
+    if (!partNumber || !expectedAt || Number.isNaN(expectedAt.getTime())) {
+      return { ok: false, status: 400, error: "Informe o código da peça e a previsão de chegada." };
+    }
+    return { ok: true, rule, reason, waitingPart: { partNumber, expectedAt: expectedAt.toISOString() } };
+  }
+
+  return { ok: true, rule, reason };
+}
+
+/**
+ * Requisitos para encerrar a NC: uma ação corretiva concluída e, em NCs
+ * recorrentes ou com ação preventiva já julgada não eficaz, causa raiz e uma
+ * ação preventiva concluída que não tenha sido reprovada na verificação de
+ * eficácia (CAPA). `null` se atendidos.
+ */
+export function ncClosureError(
+  actions: NcAction[],
+  capa: { recurrent: boolean; rootCause?: string | null },
+): string | null {
+  if (!actions.some((action) => action.type === "corretiva" && Boolean(action.completedAt))) {
+    return "Finalize ao menos uma ação corretiva antes de encerrar a NC.";
+  }
+  const failedCapa = actions.some((action) => action.type === "preventiva" && action.effective === false);
+  if (!capa.recurrent && !failedCapa) return null;
+  if (!capa.rootCause?.trim()) {
+    return "Preencha a causa raiz para encerrar uma NC recorrente.";
+  }
+  if (
+    !actions.some(
+      (action) => action.type === "preventiva" && Boolean(action.completedAt) && action.effective !== false,
+    )
+  ) {
+    return failedCapa
+      ? "A ação preventiva anterior não foi eficaz. Conclua uma nova ação preventiva para encerrar a NC."
+      : "Conclua pelo menos uma ação preventiva para encerrar uma NC recorrente.";
+  }
+  return null;
+}
@@ -0,0 +1,362 @@
+import type { DocumentSnapshot, Firestore } from "firebase-admin/firestore";
+import { z } from "zod";
+import { getAdminDb } from "@/lib/firebase-admin";
+import { mapNonConformityDoc } from "@/lib/firestore/nc";
+import type { NonConformity } from "@/types/nonconformity";
+import {
+  NOTIFICATION_KIND_LABEL,
+  type NotificationDelivery,
+  type NotificationEvent,
+  type NotificationKind,
+  type NotificationSubscription,
+} from "@/types/notification";
+import { SLA_ESCALATION_LEVELS, type SlaEscalationLevel } from "@/types/sla";
+import {
+  type EmailContent,
+  checklistMissedEmail,
+  ncAssignedEmail,
+  ncCreatedEmail,
+  ncDueSoonEmail,
+  ncEscalatedEmail,
+} from "./templates";
+import { type EmailTransport, resolveEmailTransport } from "./transport";
+
+export const NOTIFICATION_SUBSCRIPTIONS_COLLECTION = "notificationSubscriptions";
+export const NOTIFICATION_EVENTS_COLLECTION = "notificationEvents";
+export const NOTIFICATION_DELIVERIES_COLLECTION = "notificationDeliveries";
+
+/** Tentativas por envio antes de marcar como `failed`. */
+export const NOTIFICATION_MAX_ATTEMPTS = 5;
+const RETRY_BASE_MINUTES = 5;
+const BATCH_LIMIT = 100;
+
+const NOTIFICATION_KINDS = Object.keys(NOTIFICATION_KIND_LABEL) as NotificationKind[];
+
+const isNotificationKind = (value: unknown): value is NotificationKind =>
+  NOTIFICATION_KINDS.includes(value as NotificationKind);
+
+const isEmail = (value: unknown): value is string => typeof value === "string" && /^[^\s@]+@[^\s@]+$/.test(value.trim());
+
+const normalize = (value?: string | null) => value?.trim().toLowerCase() || null;
+
+/** Corpo aceito pelas rotas de assinaturas. */
+export const notificationSubscriptionInputSchema = z.object({
+  nome: z.string().trim().min(1).max(120),
+  email: z.string().trim().email(),
+  userId: z.string().trim().min(1).nullish(),
+  kinds: z.array(z.enum(NOTIFICATION_KINDS as [NotificationKind, ...NotificationKind[]])).min(1),
+  setores: z.array(z.string().trim().min(1).max(80)).max(50).default([]),
+  machineIds: z.array(z.string().trim().min(1)).max(200).default([]),
+  active: z.boolean().default(true),
+});
+
+const stringList = (value: unknown) =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === "string" && Boolean(item.trim())) : [];
+
+export function mapNotificationSubscription(docSnap: Pick<DocumentSnapshot, "id" | "data">): NotificationSubscription {
+  const data = docSnap.data() ?? {};
+  return {
+    id: docSnap.id,
+    nome: typeof data.nome === "string" ? data.nome : "",
+    email: typeof data.email === "string" ? data.email : "",
+    userId: typeof data.userId === "string" ? data.userId : null,
+    kinds: stringList(data.kinds).filter(isNotificationKind),
+    setores: stringList(data.setores),
+    machineIds: stringList(data.machineIds),
+    active: data.active !== false,
+    updatedAt: typeof data.updatedAt === "string" ? data.updatedAt : undefined,
+  };
+}
+
+export function mapNotificationDelivery(docSnap: Pick<DocumentSnapshot, "id" | "data">): NotificationDelivery {
+  const data = docSnap.data() ?? {};
+  const text = (value: unknown) => (typeof value === "string" ? value : null);
+  return {
+    id: docSnap.id,
+    eventId: text(data.eventId) ?? "",
+    kind: isNotificationKind(data.kind) ? data.kind : "nc_created",
+    refId: text(data.refId) ?? "",
+    to: text(data.to) ?? "",
+    subject: text(data.subject) ?? "",
+    text: text(data.text) ?? "",
+    html: text(data.html) ?? "",
+    status: data.status === "sent" || data.status === "failed" ? data.status : "pending",
+    attempts: typeof data.attempts === "number" ? data.attempts : 0,
+    lastError: text(data.lastError),
+    transport: text(data.transport),
+    createdAt: text(data.createdAt) ?? "",
+    nextAttemptAt: text(data.nextAttemptAt),
+    sentAt: text(data.sentAt),
+  };
+}
+
+/**
+ * Assinaturas ativas do tipo informado. Sem setores nem máquinas, a assinatura
+ * vale para toda a frota; com filtros, basta bater o setor ou a máquina.
+ */
+export function matchSubscriptions(
+  subscriptions: NotificationSubscription[],
+  kind: NotificationKind,
+  scope: { setor?: string | null; machineId?: string | null },
+): NotificationSubscription[] {
+  const setor = normalize(scope.setor);
+  return subscriptions.filter((subscription) => {
+    if (!subscription.active || !subscription.kinds.includes(kind)) return false;
+    if (!subscription.setores.length && !subscription.machineIds.length) return true;
+    const setorMatch = setor !== null && subscription.setores.some((item) => normalize(item) === setor);
+    const machineMatch = Boolean(scope.machineId) && subscription.machineIds.includes(scope.machineId as string);
+    return setorMatch || machineMatch;
+  });
+}
+
+/** ID determinístico: o mesmo fato não gera dois eventos. */
+export const notificationEventId = (kind: NotificationKind, ...parts: Array<string | null | undefined>) =>
+  [kind, ...parts.filter(Boolean)].join("_").replace(/[^0-9A-Za-z_-]+/g, "-");
+
+/** Atraso antes da próxima tentativa: 5, 10, 20, 40 min... */
+export const notificationRetryDelayMs = (attempts: number) =>
+  RETRY_BASE_MINUTES * 60 * 1000 * 2 ** Math.max(0, attempts - 1);
+
+/**
+ * Registra um evento para o job de notificações. Falhas só vão para o log: a
+ * notificação nunca impede a operação que a originou.
+ */
+export async function enqueueNotificationEvent(
+  db: Firestore,
+  event: Pick<NotificationEvent, "id" | "kind" | "refId" | "payload">,
+  now: Date = new Date(),
+): Promise<boolean> {
+  try {
+    const ref = db.collection(NOTIFICATION_EVENTS_COLLECTION).doc(event.id);
+    const existing = await ref.get();
+    if (existing.exists) return false;
+    await ref.set({
+      kind: event.kind,
+      refId: event.refId,
+      createdAt: now.toISOString(),
+      processedAt: null,
+      ...(event.payload ? { payload: event.payload } : {}),
+    });
+    return true;
+  } catch (error) {
+    console.error(`Failed to enqueue notification event ${event.id}`, error);
+    return false;
+  }
+}
+
+type Recipient = { email: string; nome?: string };
+
+function mapEvent(docSnap: Pick<DocumentSnapshot, "id" | "data">): NotificationEvent | null {
+  const data = docSnap.data() ?? {};
+  if (!isNotificationKind(data.kind) || typeof data.refId !== "string") return null;
+  return {
+    id: docSnap.id,
+    kind: data.kind,
+    refId: data.refId,
+    createdAt: typeof data.createdAt === "string" ? data.createdAt : "",
+    processedAt: typeof data.processedAt === "string" ? data.processedAt : null,
+    payload: data.payload && typeof data.payload === "object" ? (data.payload as NotificationEvent["payload"]) : undefined,
+  };
+}
+
+async function userEmail(db: Firestore, userId?: string | null): Promise<Recipient | null> {
+  if (!userId) return null;
+  const snapshot = await db.collection("users").doc(userId).get();
+  const data = snapshot.exists ? snapshot.data() : undefined;
+  return isEmail(data?.email) ? { email: data.email, nome: typeof data.nome === "string" ? data.nome : undefined } : null;
+}
+
+const subscribers = (subscriptions: NotificationSubscription[], kind: NotificationKind, nc: NonConformity) =>
+  matchSubscriptions(subscriptions, kind, { setor: nc.linkedAsset?.setor, machineId: nc.linkedAsset?.id }).map(
+    (subscription) => ({ email: subscription.email, nome: subscription.nome }),
+  );
+
+/** Destinatários e conteúdo do evento; `null` quando a origem não existe mais. */
+async function buildEventEmails(
+  db: Firestore,
+  event: NotificationEvent,
+  subscriptions: NotificationSubscription[],
+  baseUrl?: string,
+): Promise<{ recipients: Recipient[]; content: EmailContent } | null> {
+  if (event.kind === "checklist_missed") {
+    const missedSnap = await db.collection("missedChecklistEvents").doc(event.refId).get();
+    const missed = missedSnap.exists ? missedSnap.data() : undefined;
+    if (!missed || typeof missed.machineId !== "string") return null;
+    const machineSnap = await db.collection("machines").doc(missed.machineId).get();
+    const setor = machineSnap.exists ? (machineSnap.data()?.setor as string | undefined) : undefined;
+    return {
+      recipients: matchSubscriptions(subscriptions, event.kind, { setor, machineId: missed.machineId }),
+      content: checklistMissedEmail(
+        {
+          templateName: String(missed.templateName ?? ""),
+          machineId: missed.machineId,
+          machineName: typeof missed.machineName === "string" ? missed.machineName : undefined,
+          detectedAt: String(missed.detectedAt ?? event.createdAt),
+          lastSubmissionAt: typeof missed.lastSubmissionAt === "string" ? missed.lastSubmissionAt : undefined,
+        },
+        baseUrl,
+      ),
+    };
+  }
+
+  const ncSnap = await db.collection("nonConformities").doc(event.refId).get();
+  if (!ncSnap.exists) return null;
+  const nc = mapNonConformityDoc(ncSnap);
+
+  switch (event.kind) {
+    case "nc_created":
+      return { recipients: subscribers(subscriptions, event.kind, nc), content: ncCreatedEmail(nc, baseUrl) };
+    case "nc_assigned": {
+      const ownerId = event.payload?.ownerId;
+      const actionId = event.payload?.actionId;
+      // Sem `actionId`, o responsável atribuído é o da própria NC.
+      const action = actionId ? nc.actions?.find((item) => item.id === actionId) : undefined;
+      const assignedId = actionId ? action?.owner?.id : nc.owner?.id;
+      if (!ownerId || assignedId !== ownerId) return null;
+      const owner = await userEmail(db, ownerId);
+      const linked = subscriptions
+        .filter((subscription) => subscription.active && subscription.userId === ownerId)
+        .filter((subscription) => subscription.kinds.includes(event.kind))
+        .map((subscription) => ({ email: subscription.email, nome: subscription.nome }));
+      return { recipients: [...(owner ? [owner] : []), ...linked], content: ncAssignedEmail(nc, action ?? null, baseUrl) };
+    }
+    case "nc_due_soon": {
+      const owners = await Promise.all(
+        (nc.actions ?? []).filter((action) => !action.completedAt).map((action) => userEmail(db, action.owner?.id)),
+      );
+      return {
+        recipients: [...subscribers(subscriptions, event.kind, nc), ...owners.filter((item): item is Recipient => !!item)],
+        content: ncDueSoonEmail(nc, baseUrl),
+      };
+    }
+    case "nc_escalated": {
+      const level = event.payload?.level as SlaEscalationLevel | undefined;
+      if (!level || !SLA_ESCALATION_LEVELS.includes(level)) return null;
+      const contact = event.payload?.contact;
+      const recipient = isEmail(contact?.email)
+        ? { email: contact.email, nome: contact.nome }
+        : await userEmail(db, contact?.id);
+      return {
+        recipients: recipient ? [recipient] : [],
+        content: ncEscalatedEmail(nc, { level, overdueHours: event.payload?.overdueHours }, baseUrl),
+      };
+    }
+  }
+}
+
+export type NotificationProcessingRun = { processed: number; queued: number };
+
+/**
+ * Converte os eventos pendentes em envios (`notificationDeliveries`), um por
+ * destinatário. O mesmo e-mail recebe uma única cópia por evento.
+ */
+export async function processNotificationEvents(
+  options: { db?: Firestore; now?: Date; baseUrl?: string } = {},
+): Promise<NotificationProcessingRun> {
+  const db = options.db ?? getAdminDb();
+  const now = options.now ?? new Date();
+  const baseUrl = options.baseUrl ?? process.env.APP_BASE_URL;
+
+  const [eventsSnap, subscriptionsSnap] = await Promise.all([
+    db.collection(NOTIFICATION_EVENTS_COLLECTION).where("processedAt", "==", null).limit(BATCH_LIMIT).get(),
+    db.collection(NOTIFICATION_SUBSCRIPTIONS_COLLECTION).get(),
+  ]);
+  const subscriptions = subscriptionsSnap.docs.map(mapNotificationSubscription);
+
+  const run: NotificationProcessingRun = { processed: 0, queued: 0 };
+  for (const docSnap of eventsSnap.docs) {
+    const event = mapEvent(docSnap);
+    const built = event ? await buildEventEmails(db, event, subscriptions, baseUrl) : null;
+
+    const seen = new Set<string>();
+    for (const recipient of built?.recipients ?? []) {
+      const email = recipient.email.trim().toLowerCase();
+      if (!event || !built || !isEmail(email) || seen.has(email)) continue;
+      seen.add(email);
+      const deliveryRef = db
+        .collection(NOTIFICATION_DELIVERIES_COLLECTION)
+        .doc(`${event.id}_${email.replace(/[^0-9a-z]+/g, "-")}`);
+      if ((await deliveryRef.get()).exists) continue;
+      const delivery: Omit<NotificationDelivery, "id"> = {
+        eventId: event.id,
+        kind: event.kind,
+        refId: event.refId,
+        to: recipient.email.trim(),
+        ...built.content,
+        status: "pending",
+        attempts: 0,
+        lastError: null,
+        transport: null,
+        createdAt: now.toISOString(),
+        nextAttemptAt: now.toISOString(),
+        sentAt: null,
+      };
+      await deliveryRef.set(delivery);
+      run.queued += 1;
+    }
+
+    await db
+      .collection(NOTIFICATION_EVENTS_COLLECTION)
+      .doc(docSnap.id)
+      .update({ processedAt: now.toISOString(), deliveries: seen.size });
+    run.processed += 1;
+  }
+
+  return run;
+}
+
+export type NotificationDeliveryRun = { sent: number; retrying: number; failed: number };
+
+/**
+ * Envia os e-mails pendentes cuja próxima tentativa já venceu. Falhas voltam
+ * para a fila com espera exponencial até `NOTIFICATION_MAX_ATTEMPTS`.
+ */
+export async function deliverPendingNotifications(
+  options: { db?: Firestore; now?: Date; transport?: EmailTransport } = {},
+): Promise<NotificationDeliveryRun> {
+  const db = options.db ?? getAdminDb();
+  const now = options.now ?? new Date();
+  const transport = options.transport ?? resolveEmailTransport();
+
+  // Filtra as vencidas na consulta: entregas em espera não podem ocupar o lote e travar as demais.
+  const snapshot = await db
+    .collection(NOTIFICATION_DELIVERIES_COLLECTION)
+    .where("status", "==", "pending")
+    .where("nextAttemptAt", "<=", now.toISOString())
+    .orderBy("nextAttemptAt")
+    .limit(BATCH_LIMIT)
+    .get();
+
+  const run: NotificationDeliveryRun = { sent: 0, retrying: 0, failed: 0 };
+  for (const docSnap of snapshot.docs) {
+    const delivery = mapNotificationDelivery(docSnap);
+    const attempts = delivery.attempts + 1;
+    const ref = db.collection(NOTIFICATION_DELIVERIES_COLLECTION).doc(docSnap.id);
+    try {
+      await transport.send({ to: delivery.to, subject: delivery.subject, text: delivery.text, html: delivery.html });
+      await ref.update({
+        status: "sent",
+        attempts,
+        lastError: null,
+        transport: transport.name,
+        nextAttemptAt: null,
+        sentAt: now.toISOString(),
+      });
+      run.sent += 1;
+    } catch (error) {
+      const exhausted = attempts >= NOTIFICATION_MAX_ATTEMPTS;
+      console.warn(`Notification delivery ${docSnap.id} failed (attempt ${attempts})`, error);
+      await ref.update({
+        status: exhausted ? "failed" : "pending",
+        attempts,
+        lastError: error instanceof Error ? error.message : String(error),
+        transport: transport.name,
+        nextAttemptAt: exhausted ? null : new Date(now.getTime() + notificationRetryDelayMs(attempts)).toISOString(),
+      });
+      if (exhausted) run.failed += 1;
+      else run.retrying += 1;
+    }
+  }
+
+  return run;
+}
@@ -0,0 +1,199 @@
+import { randomUUID } from "crypto";
+import net from "net";
+import tls from "tls";
+
+export type SmtpConfig = {
+  host: string;
+  port: number;
+  /** TLS desde a conexão (porta 465). Sem ele, usa STARTTLS quando o servidor oferece. */
+  secure: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+  heloName?: string;
+  timeoutMs?: number;
+};
+
+export type SmtpMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+};
+
+type SmtpReply = { code: number; lines: string[] };
+
+const DEFAULT_TIMEOUT_MS = 15_000;
+
+/** Conexão SMTP mínima: lê respostas (inclusive multilinha) e envia comandos em sequência. */
+class SmtpConnection {
+  private buffer = "";
+  private replies: SmtpReply[] = [];
+  private waiting: Array<{ resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }> = [];
+  private failure: Error | null = null;
+  private current: string[] = [];
+
+  constructor(private socket: net.Socket, private readonly timeoutMs: number) {
+    this.attach(socket);
+  }
+
+  private readonly listeners = {
+    data: (chunk: string) => this.onData(chunk),
+    timeout: () => this.fail(new Error("SMTP timeout")),
+    error: (error: Error) => this.fail(error),
+    close: () => this.fail(new Error("SMTP connection closed")),
+  };
+
+  private attach(socket: net.Socket) {
+    this.socket = socket;
+    socket.setEncoding("utf8");
+    socket.setTimeout(this.timeoutMs);
+    socket.on("data", this.listeners.data);
+    socket.on("timeout", this.listeners.timeout);
+    socket.on("error", this.listeners.error);
+    socket.on("close", this.listeners.close);
+  }
+
+  /** Solta o socket atual: depois do STARTTLS, só o socket TLS pode falhar a conexão. */
+  private detach(socket: net.Socket) {
+    socket.setTimeout(0);
+    socket.off("data", this.listeners.data);
+    socket.off("timeout", this.listeners.timeout);
+    socket.off("error", this.listeners.error);
+    socket.off("close", this.listeners.close);
+  }
+
+  private onData(chunk: string) {
+    this.buffer += chunk;
+    let index: number;
+    while ((index = this.buffer.indexOf("\r\n")) >= 0) {
+      const line = this.buffer.slice(0, index);
+      this.buffer = this.buffer.slice(index + 2);
+      this.current.push(line.slice(4));
+      // "250-..." continua a resposta; "250 ..." encerra.
+      if (line[3] !== "-") {
+        this.push({ code: Number(line.slice(0, 3)), lines: this.current });
+        this.current = [];
+      }
+    }
+  }
+
+  private push(reply: SmtpReply) {
+    const waiter = this.waiting.shift();
+    if (waiter) waiter.resolve(reply);
+    else this.replies.push(reply);
+  }
+
+  private fail(error: Error) {
+    if (this.failure) return;
+    this.failure = error;
+    for (const waiter of this.waiting.splice(0)) waiter.reject(error);
+  }
+
+  read(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) return Promise.resolve(reply);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => this.waiting.push({ resolve, reject }));
+  }
+
+  async expect(codes: number[], line?: string): Promise<SmtpReply> {
+    if (line !== undefined) this.socket.write(`${line}\r\n`);
+    const reply = await this.read();
+    if (!codes.includes(reply.code)) {
+      const command = line?.split(" ")[0] ?? "greeting";
+      throw new Error(`SMTP ${command} failed: ${reply.code} ${reply.lines.join(" ")}`);
+    }
+    return reply;
+  }
+
+  async upgrade(host: string) {
+    const secured = tls.connect({ socket: this.socket, servername: host });
+    this.detach(this.socket);
+    await new Promise<void>((resolve, reject) => {
+      secured.once("secureConnect", resolve);
+      secured.once("error", reject);
+    });
+    this.attach(secured);
+  }
+
+  close() {
+    this.socket.end();
+  }
+}
+
+function connect(config: SmtpConfig, timeoutMs: number): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host })
+      : net.connect({ host: config.host, port: config.port });
+    socket.setTimeout(timeoutMs, () => socket.destroy(new Error("SMTP connection timeout")));
+    socket.once(config.secure ? "secureConnect" : "connect", () => resolve(socket));
+    socket.once("error", reject);
+  });
+}
+
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+
+const base64Lines = (value: string) =>
+  (Buffer.from(value, "utf8").toString("base64").match(/.{1,76}/g) ?? []).join("\r\n");
+
+const addressOf = (value: string) => value.match(/<([^>]+)>/)?.[1] ?? value.trim();
+
+/** Monta a mensagem MIME (texto e HTML em base64, sem linhas iniciadas por ponto). */
+export function buildMimeMessage(from: string, message: SmtpMessage, date: Date = new Date()): string {
+  const boundary = `fleet-${randomUUID()}`;
+  const domain = addressOf(from).split("@")[1] ?? "localhost";
+  return [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    "MIME-Version: 1.0",
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Lines(message.text),
+    `--${boundary}`,
+    "Content-Type: text/html; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Lines(message.html),
+    `--${boundary}--`,
+    "",
+  ].join("\r\n");
+}
+
+/** Envia uma mensagem e devolve a resposta do servidor ao fim do DATA. */
+export async function sendSmtpMail(config: SmtpConfig, message: SmtpMessage): Promise<string> {
+  const timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const connection = new SmtpConnection(await connect(config, timeoutMs), timeoutMs);
+  const helo = config.heloName ?? "localhost";
+
+  try {
+    await connection.expect([220]);
+    let ehlo = await connection.expect([250], `EHLO ${helo}`);
+    if (!config.secure && ehlo.lines.some((line) => line.toUpperCase().startsWith("STARTTLS"))) {
+      await connection.expect([220], "STARTTLS");
+      await connection.upgrade(config.host);
+      ehlo = await connection.expect([250], `EHLO ${helo}`);
+    }
+    if (config.user) {
+      const token = Buffer.from(`\u0000${config.user}\u0000${config.password ?? ""}`, "utf8").toString("base64");
+      await connection.expect([235], `AUTH PLAIN ${token}`);
+    }
+    await connection.expect([250], `MAIL FROM:<${addressOf(config.from)}>`);
+    await connection.expect([250, 251], `RCPT TO:<${addressOf(message.to)}>`);
+    await connection.expect([354], "DATA");
+    const accepted = await connection.expect([250], `${buildMimeMessage(config.from, message)}\r\n.`);
+    await connection.expect([221], "QUIT").catch(() => undefined);
+    return accepted.lines.join(" ");
+  } finally {
+    connection.close();
+  }
+}
@@ -0,0 +1,135 @@
+import type { EmailMessage } from "./transport";
+import type { NonConformity, Severity } from "@/types/nonconformity";
+import { SLA_ESCALATION_LEVEL_LABEL, type SlaEscalationLevel } from "@/types/sla";
+
+export type EmailContent = Omit<EmailMessage, "to">;
+
+const SEVERITY_LABEL: Record<Severity, string> = { baixa: "Baixa", media: "Média", alta: "Alta" };
+
+type TemplateNc = Pick<NonConformity, "id" | "title" | "severity" | "safetyRisk" | "dueAt" | "linkedAsset"> & {
+  description?: string;
+};
+
+export type MissedChecklistInfo = {
+  templateName: string;
+  machineId: string;
+  machineName?: string;
+  detectedAt: string;
+  lastSubmissionAt?: string;
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const formatDate = (iso?: string | null) => {
+  if (!iso) return "-";
+  const date = new Date(iso);
+  return Number.isNaN(date.getTime())
+    ? iso
+    : date.toLocaleString("pt-BR", { timeZone: "America/Sao_Paulo", dateStyle: "short", timeStyle: "short" });
+};
+
+const joinUrl = (baseUrl: string | undefined, path: string) => (baseUrl ? `${baseUrl.replace(/\/$/, "")}${path}` : null);
+
+/** Texto e HTML a partir das mesmas linhas "rótulo: valor". */
+function render(subject: string, intro: string, rows: Array<[string, string]>, link: string | null): EmailContent {
+  const text = [
+    intro,
+    "",
+    ...rows.map(([label, value]) => `${label}: ${value}`),
+    ...(link ? ["", `Abrir: ${link}`] : []),
+  ].join("\n");
+  const html = [
+    `<p>${escapeHtml(intro)}</p>`,
+    "<table>",
+    ...rows.map(
+      ([label, value]) => `<tr><th align="left">${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`,
+    ),
+    "</table>",
+    ...(link ? [`<p><a href="${escapeHtml(link)}">Abrir no painel</a></p>`] : []),
+  ].join("\n");
+  return { subject, text, html };
+}
+
+function ncRows(nc: TemplateNc): Array<[string, string]> {
+  return [
+    ["NC", nc.title],
+    ["Máquina", nc.linkedAsset?.tag ?? "-"],
+    ["Severidade", nc.severity ? SEVERITY_LABEL[nc.severity] : "-"],
+    ["Risco de segurança", nc.safetyRisk ? "Sim" : "Não"],
+    ["Prazo", formatDate(nc.dueAt)],
+  ];
+}
+
+const ncLink = (nc: TemplateNc, baseUrl?: string) => joinUrl(baseUrl, `/admin/non-conformities/${nc.id}`);
+
+export function ncCreatedEmail(nc: TemplateNc, baseUrl?: string): EmailContent {
+  const reason = nc.safetyRisk ? "com risco de segurança" : "de severidade alta";
+  return render(
+    `[NC] Nova NC ${reason}: ${nc.title} (${nc.linkedAsset?.tag ?? "-"})`,
+    `Uma nova não conformidade ${reason} foi aberta.`,
+    [...ncRows(nc), ...(nc.description ? ([["Descrição", nc.description]] as Array<[string, string]>) : [])],
+    ncLink(nc, baseUrl),
+  );
+}
+
+/** Sem `action`, o aviso é de responsável pela própria NC. */
+export function ncAssignedEmail(nc: TemplateNc, action: { description: string } | null, baseUrl?: string): EmailContent {
+  if (!action) {
+    return render(
+      `[NC] Não conformidade atribuída a você: ${nc.title}`,
+      "Você foi definido como responsável por uma não conformidade.",
+      ncRows(nc),
+      ncLink(nc, baseUrl),
+    );
+  }
+  return render(
+    `[NC] Ação atribuída a você: ${nc.title}`,
+    "Você foi definido como responsável por uma ação de não conformidade.",
+    [...ncRows(nc), ["Ação", action.description]],
+    ncLink(nc, baseUrl),
+  );
+}
+
+export function ncDueSoonEmail(nc: TemplateNc, baseUrl?: string): EmailContent {
+  return render(
+    `[NC] Prazo próximo: ${nc.title} (${nc.linkedAsset?.tag ?? "-"})`,
+    "O prazo desta não conformidade está próximo do vencimento.",
+    ncRows(nc),
+    ncLink(nc, baseUrl),
+  );
+}
+
+export function ncEscalatedEmail(
+  nc: TemplateNc,
+  escalation: { level: SlaEscalationLevel; overdueHours?: number },
+  baseUrl?: string,
+): EmailContent {
+  return render(
+    `[NC] Escalonamento (${SLA_ESCALATION_LEVEL_LABEL[escalation.level]}): ${nc.title}`,
+    "Esta não conformidade venceu o prazo de SLA e foi escalonada para você.",
+    [
+      ...ncRows(nc),
+      ["Nível", SLA_ESCALATION_LEVEL_LABEL[escalation.level]],
+      ...(escalation.overdueHours !== undefined
+        ? ([["Atraso", `${escalation.overdueHours} h`]] as Array<[string, string]>)
+        : []),
+    ],
+    ncLink(nc, baseUrl),
+  );
+}
+
+export function checklistMissedEmail(event: MissedChecklistInfo, baseUrl?: string): EmailContent {
+  const machine = event.machineName ?? event.machineId;
+  return render(
+    `[Checklist] Checklist perdido: ${event.templateName} (${machine})`,
+    "Um checklist periódico não foi enviado dentro do prazo.",
+    [
+      ["Checklist", event.templateName],
+      ["Máquina", machine],
+      ["Detectado em", formatDate(event.detectedAt)],
+      ["Último envio", formatDate(event.lastSubmissionAt)],
+    ],
+    joinUrl(baseUrl, `/admin/machines/${event.machineId}`),
+  );
+}
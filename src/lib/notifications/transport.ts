@@ -0,0 +1,51 @@
+import { sendSmtpMail, type SmtpMessage } from "./smtp";
+
+export type EmailMessage = SmtpMessage;
+
+/** Canal de envio de e-mails; trocável por configuração e nos testes. */
+export interface EmailTransport {
+  name: string;
+  send(message: EmailMessage): Promise<{ response: string }>;
+}
+
+type NotificationEnv = Record<string, string | undefined>;
+
+/** Sem SMTP configurado: apenas registra no log do servidor. */
+export const logEmailTransport: EmailTransport = {
+  name: "log",
+  async send(message) {
+    console.info(`Email (log transport) to ${message.to}: ${message.subject}`);
+    return { response: "logged" };
+  },
+};
+
+export function createSmtpTransport(config: Parameters<typeof sendSmtpMail>[0]): EmailTransport {
+  return {
+    name: "smtp",
+    async send(message) {
+      return { response: await sendSmtpMail(config, message) };
+    },
+  };
+}
+
+/**
+ * `SMTP_HOST` habilita o envio real; sem ele os e-mails só vão para o log.
+ * Para desenvolvimento, aponte para um capturador local (ex.: Mailpit em
+ * `SMTP_HOST=localhost` e `SMTP_PORT=1025`).
+ */
+export function resolveEmailTransport(env: NotificationEnv = process.env): EmailTransport {
+  if (!env.SMTP_HOST) return logEmailTransport;
+  const secure = env.SMTP_SECURE === "true";
+  const port = Number(env.SMTP_PORT) || (secure ? 465 : 587);
+  if (!env.SMTP_FROM) {
+    console.warn("SMTP_HOST without SMTP_FROM; using no-reply@localhost as sender");
+  }
+  return createSmtpTransport({
+    host: env.SMTP_HOST,
+    port,
+    secure,
+    user: env.SMTP_USER || undefined,
+    password: env.SMTP_PASSWORD || undefined,
+    from: env.SMTP_FROM || "Fleet <no-reply@localhost>",
+  });
+}
@@ -0,0 +1,71 @@
+import type { MeterHistory } from "@/lib/meter-readings";
+import type { ChecklistTemplate } from "@/types/checklist";
+import type { Machine } from "@/types/machine";
+import type { UserRole } from "@/types/user";
+import { idbGet, idbPut, isIndexedDbAvailable } from "./idb";
+
+export type CachedEntry<T> = {
+  value: T;
+  cachedAt: string;
+};
+
+export type CachedMachineBundle = {
+  machine: Machine;
+  templates: ChecklistTemplate[];
+};
+
+export type CachedDirectoryUser = {
+  id: string;
+  matricula: string;
+  nome: string;
+  role: UserRole;
+};
+
+const machineKey = (tag: string) => `machine:${tag}`;
+const meterHistoryKey = (machineId: string) => `meters:${machineId}`;
+const USERS_KEY = "users";
+
+async function writeEntry<T>(key: string, value: T): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+  try {
+    await idbPut<CachedEntry<T>>("cache", key, { value, cachedAt: new Date().toISOString() });
+  } catch (error) {
+    console.warn("Falha ao gravar cache offline", { key, error });
+  }
+}
+
+async function readEntry<T>(key: string): Promise<CachedEntry<T> | null> {
+  if (!isIndexedDbAvailable()) return null;
+  try {
+    return (await idbGet<CachedEntry<T>>("cache", key)) ?? null;
+  } catch (error) {
+    console.warn("Falha ao ler cache offline", { key, error });
+    return null;
+  }
+}
+
+export function cacheMachineBundle(tag: string, bundle: CachedMachineBundle): Promise<void> {
+  return writeEntry(machineKey(tag), bundle);
+}
+
+export function loadCachedMachineBundle(tag: string): Promise<CachedEntry<CachedMachineBundle> | null> {
+  return readEntry<CachedMachineBundle>(machineKey(tag));
+}
+
+export function cacheMeterHistory(machineId: string, history: MeterHistory): Promise<void> {
+  return writeEntry(meterHistoryKey(machineId), history);
+}
+
+export function loadCachedMeterHistory(machineId: string): Promise<CachedEntry<MeterHistory> | null> {
+  return readEntry<MeterHistory>(meterHistoryKey(machineId));
+}
+
+export function cacheUserDirectory(users: CachedDirectoryUser[]): Promise<void> {
+  return writeEntry(USERS_KEY, users);
+}
+
+export async function findCachedUser(matricula: string): Promise<CachedDirectoryUser | null> {
+  const entry = await readEntry<CachedDirectoryUser[]>(USERS_KEY);
+  if (!entry) return null;
+  return entry.value.find((user) => user.matricula === matricula) ?? null;
+}
@@ -0,0 +1,93 @@
+import type { ChecklistExtraNonConformity, ChecklistRecurrenceStatus } from "@/types/checklist";
+import { idbDelete, idbGet, idbGetAll, idbPut, isIndexedDbAvailable } from "./idb";
+
+const DEFAULT_DRAFT_TTL_HOURS = 12;
+
+const resolveDraftTtlMs = (): number => {
+  const raw = Number(process.env.NEXT_PUBLIC_CHECKLIST_DRAFT_TTL_HOURS);
+  const hours = Number.isFinite(raw) && raw > 0 ? raw : DEFAULT_DRAFT_TTL_HOURS;
+  return hours * 60 * 60 * 1000;
+};
+
+export type ChecklistDraftPhoto = {
+  id: string;
+  name: string;
+  blob: Blob;
+};
+
+export type ChecklistDraftAnswer = {
+  questionId: string;
+  response?: "ok" | "nc" | "na";
+  observation?: string;
+  photos: ChecklistDraftPhoto[];
+  variableValue?: string | number | boolean | null;
+};
+
+export type ChecklistDraft = {
+  key: string;
+  tag: string;
+  templateId: string;
+  matricula: string;
+  savedAt: string;
+  answers: Record<string, ChecklistDraftAnswer>;
+  extraNcs: ChecklistExtraNonConformity[];
+  recurrenceDecisions: Record<string, ChecklistRecurrenceStatus | undefined>;
+  km: string;
+  horimetro: string;
+  driverMatricula: string;
+  driverNome: string;
+  operatorSignatureDataUrl: string | null;
+  driverSignatureDataUrl: string | null;
+};
+
+export const buildDraftKey = (tag: string, templateId: string, matricula: string): string =>
+  [tag, templateId, matricula].map((segment) => segment.trim()).join("|");
+
+const isExpired = (draft: ChecklistDraft, now: Date): boolean => {
+  const savedAt = new Date(draft.savedAt).getTime();
+  if (Number.isNaN(savedAt)) return true;
+  return now.getTime() - savedAt > resolveDraftTtlMs();
+};
+
+export async function saveDraft(draft: Omit<ChecklistDraft, "savedAt">): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+  await idbPut<ChecklistDraft>("drafts", draft.key, { ...draft, savedAt: new Date().toISOString() });
+}
+
+/**
+ * Retorna o rascunho salvo para a chave, descartando-o quando já expirou.
+ */
+export async function loadDraft(key: string, now: Date = new Date()): Promise<ChecklistDraft | null> {
+  if (!isIndexedDbAvailable()) return null;
+  const draft = await idbGet<ChecklistDraft>("drafts", key);
+  if (!draft) return null;
+  if (isExpired(draft, now)) {
+    await idbDelete("drafts", key);
+    return null;
+  }
+  return draft;
+}
+
+export async function clearDraft(key: string): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+  await idbDelete("drafts", key);
+}
+
+export async function purgeExpiredDrafts(now: Date = new Date()): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+  const drafts = await idbGetAll<ChecklistDraft>("drafts");
+  await Promise.all(
+    drafts.filter((draft) => isExpired(draft, now)).map((draft) => idbDelete("drafts", draft.key)),
+  );
+}
+
+export const hasDraftContent = (draft: Pick<ChecklistDraft, "answers" | "extraNcs" | "recurrenceDecisions">) =>
+  Object.values(draft.answers).some(
+    (answer) =>
+      Boolean(answer.response) ||
+      Boolean(answer.observation?.trim()) ||
+      answer.photos.length > 0 ||
+      (answer.variableValue !== undefined && answer.variableValue !== null && answer.variableValue !== ""),
+  ) ||
+  draft.extraNcs.some((extra) => Boolean(extra.title?.trim())) ||
+  Object.values(draft.recurrenceDecisions).some(Boolean);
@@ -0,0 +1,72 @@
+const DB_NAME = "fleet-offline";
+const DB_VERSION = 2;
+
+export type OfflineStoreName = "cache" | "outbox" | "drafts";
+
+const STORE_NAMES: readonly OfflineStoreName[] = ["cache", "outbox", "drafts"];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function isIndexedDbAvailable(): boolean {
+  return typeof indexedDB !== "undefined";
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDb(): Promise<IDBDatabase> {
+  if (!isIndexedDbAvailable()) {
+    return Promise.reject(new Error("INDEXEDDB_UNAVAILABLE"));
+  }
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const database = request.result;
+        for (const name of STORE_NAMES) {
+          if (!database.objectStoreNames.contains(name)) {
+            database.createObjectStore(name);
+          }
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(
+  storeName: OfflineStoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const database = await openDb();
+  const transaction = database.transaction(storeName, mode);
+  return requestToPromise(run(transaction.objectStore(storeName)));
+}
+
+export async function idbGet<T>(storeName: OfflineStoreName, key: string): Promise<T | undefined> {
+  const value = await withStore(storeName, "readonly", (store) => store.get(key));
+  return (value as T | undefined) ?? undefined;
+}
+
+export async function idbGetAll<T>(storeName: OfflineStoreName): Promise<T[]> {
+  const values = await withStore(storeName, "readonly", (store) => store.getAll());
+  return values as T[];
+}
+
+export async function idbPut<T>(storeName: OfflineStoreName, key: string, value: T): Promise<void> {
+  await withStore(storeName, "readwrite", (store) => store.put(value, key));
+}
+
+export async function idbDelete(storeName: OfflineStoreName, key: string): Promise<void> {
+  await withStore(storeName, "readwrite", (store) => store.delete(key));
+}
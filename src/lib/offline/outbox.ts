@@ -0,0 +1,211 @@
+import { type Firestore, doc, serverTimestamp, setDoc } from "firebase/firestore";
+import type { ChecklistAnswer, ChecklistResponse } from "@/types/checklist";
+import { idbDelete, idbGetAll, idbPut } from "./idb";
+
+export type OutboxStatus = "pending" | "syncing" | "failed";
+
+/**
+ * Resposta do checklist como será gravada em `checklistResponses`, sem as URLs
+ * de fotos e assinaturas, que só são conhecidas após o upload.
+ */
+export type OutboxResponsePayload = Omit<ChecklistResponse, "id" | "createdAtTs" | "signatures">;
+
+export type OutboxPhoto = {
+  id: string;
+  questionId: string;
+  blob: Blob;
+  filename: string;
+  url?: string;
+};
+
+export type OutboxSignature = {
+  role: "operator" | "driver";
+  dataUrl: string;
+  filename: string;
+  url?: string;
+};
+
+export type OutboxEntry = {
+  /** Também é o id do documento em `checklistResponses`, o que torna o envio idempotente. */
+  id: string;
+  label: string;
+  queuedAt: string;
+  updatedAt: string;
+  status: OutboxStatus;
+  attempts: number;
+  /**
+   * Uma gravação da resposta já foi enviada e terminou sem confirmação. Só
+   * então "permission-denied" pode significar que o documento já existe.
+   */
+  writeAttempted?: boolean;
+  lastError?: string | null;
+  response: OutboxResponsePayload;
+  photos: OutboxPhoto[];
+  signatures: OutboxSignature[];
+};
+
+export type OutboxSyncDeps = {
+  upload: (blob: Blob, filename: string) => Promise<string>;
+  writeResponse: (
+    id: string,
+    payload: OutboxResponsePayload & { signatures: NonNullable<ChecklistResponse["signatures"]> },
+    options: { writeAttempted: boolean },
+  ) => Promise<void>;
+  dataUrlToBlob: (dataUrl: string) => Blob;
+};
+
+export type OutboxSyncResult = {
+  synced: string[];
+  failed: string[];
+};
+
+let inFlight: Promise<OutboxSyncResult> | null = null;
+let followUp: Promise<OutboxSyncResult> | null = null;
+
+const nowIso = () => new Date().toISOString();
+
+const isPermissionDenied = (error: unknown) => (error as { code?: unknown } | null)?.code === "permission-denied";
+
+export async function enqueueChecklist(
+  entry: Omit<OutboxEntry, "queuedAt" | "updatedAt" | "status" | "attempts" | "lastError">,
+): Promise<OutboxEntry> {
+  const queuedAt = nowIso();
+  const stored: OutboxEntry = {
+    ...entry,
+    queuedAt,
+    updatedAt: queuedAt,
+    status: "pending",
+    attempts: 0,
+    lastError: null,
+  };
+  await idbPut("outbox", stored.id, stored);
+  return stored;
+}
+
+export async function listOutbox(): Promise<OutboxEntry[]> {
+  const entries = await idbGetAll<OutboxEntry>("outbox");
+  return entries.sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+}
+
+async function saveEntry(entry: OutboxEntry): Promise<void> {
+  entry.updatedAt = nowIso();
+  await idbPut("outbox", entry.id, entry);
+}
+
+function attachPhotoUrls(answers: ChecklistAnswer[], photos: OutboxPhoto[]): ChecklistAnswer[] {
+  return answers.map((answer) => {
+    const urls = photos
+      .filter((photo) => photo.questionId === answer.questionId && photo.url)
+      .map((photo) => photo.url as string);
+    return urls.length ? { ...answer, photoUrls: urls } : answer;
+  });
+}
+
+async function syncEntry(entry: OutboxEntry, deps: OutboxSyncDeps): Promise<void> {
+  entry.status = "syncing";
+  entry.attempts += 1;
+  await saveEntry(entry);
+
+  // Cada URL é persistida assim que o upload termina, para que uma nova
+  // tentativa não envie a mesma foto duas vezes.
+  for (const photo of entry.photos) {
+    if (photo.url) continue;
+    photo.url = await deps.upload(photo.blob, photo.filename);
+    await saveEntry(entry);
+  }
+
+  for (const signature of entry.signatures) {
+    if (signature.url) continue;
+    signature.url = await deps.upload(deps.dataUrlToBlob(signature.dataUrl), signature.filename);
+    await saveEntry(entry);
+  }
+
+  const operatorUrl = entry.signatures.find((item) => item.role === "operator")?.url ?? null;
+  const driverUrl = entry.signatures.find((item) => item.role === "driver")?.url ?? null;
+
+  // Marcada antes de gravar: se a aba fechar ou a rede cair no meio, a próxima
+  // tentativa sabe que o documento pode já ter sido criado.
+  const writeAttempted = Boolean(entry.writeAttempted);
+  entry.writeAttempted = true;
+  await saveEntry(entry);
+
+  try {
+    await deps.writeResponse(
+      entry.id,
+      {
+        ...entry.response,
+        answers: attachPhotoUrls(entry.response.answers, entry.photos),
+        signatures: { operatorUrl, driverUrl },
+      },
+      { writeAttempted },
+    );
+  } catch (error) {
+    // Recusada pelas regras: nada foi gravado.
+    if (isPermissionDenied(error)) entry.writeAttempted = writeAttempted;
+    throw error;
+  }
+
+  await idbDelete("outbox", entry.id);
+}
+
+async function runSync(deps: OutboxSyncDeps): Promise<OutboxSyncResult> {
+  const result: OutboxSyncResult = { synced: [], failed: [] };
+  const entries = await listOutbox();
+  for (const entry of entries) {
+    try {
+      await syncEntry(entry, deps);
+      result.synced.push(entry.id);
+    } catch (error) {
+      console.error("Falha ao sincronizar checklist pendente", { id: entry.id, error });
+      entry.status = "failed";
+      entry.lastError = error instanceof Error ? error.message : String(error);
+      await saveEntry(entry).catch(() => undefined);
+      result.failed.push(entry.id);
+    }
+  }
+  return result;
+}
+
+/**
+ * Envia todos os checklists pendentes do dispositivo. Uma chamada durante a
+ * sincronização em andamento agenda uma única rodada seguinte, que pega as
+ * entradas enfileiradas depois que a atual leu a lista.
+ */
+export function syncOutbox(deps: OutboxSyncDeps): Promise<OutboxSyncResult> {
+  if (!inFlight) {
+    inFlight = runSync(deps).finally(() => {
+      inFlight = null;
+    });
+    return inFlight;
+  }
+  if (!followUp) {
+    followUp = inFlight
+      .catch(() => undefined)
+      .then(() => {
+        followUp = null;
+        return syncOutbox(deps);
+      });
+  }
+  return followUp;
+}
+
+export const createFirestoreResponseWriter = (
+  firestore: Firestore,
+): OutboxSyncDeps["writeResponse"] => {
+  return async (id, payload, { writeAttempted }) => {
+    try {
+      await setDoc(doc(firestore, "checklistResponses", id), {
+        ...payload,
+        createdAtTs: serverTimestamp(),
+      });
+    } catch (error) {
+      // Operadores anônimos podem criar, mas não atualizar respostas. Depois de
+      // uma gravação sem confirmação, "permission-denied" indica que o documento
+      // já foi criado; sem ela, é uma recusa de verdade e a entrada fica na fila.
+      if (writeAttempted && isPermissionDenied(error)) {
+        return;
+      }
+      throw error;
+    }
+  };
+};
@@ -0,0 +1,413 @@
+import type { DocumentSnapshot, Firestore } from "firebase-admin/firestore";
+import { z } from "zod";
+import { mapNonConformityDoc } from "@/lib/firestore/nc";
+import { validateNcTransition } from "@/lib/nc-workflow";
+import type { RequestActor } from "@/lib/request-actor";
+import type { NcAuditEntry, NcWaitingPart, NonConformity } from "@/types/nonconformity";
+import type { BlockingPartsEntry, Part, PartRequest, PartRequestStatus } from "@/types/part";
+
+export const PARTS_COLLECTION = "parts";
+export const PART_REQUESTS_COLLECTION = "partRequests";
+
+export const OPEN_PART_REQUEST_STATUSES: PartRequestStatus[] = ["requested", "ordered"];
+
+/** Fluxo da requisição: solicitada → pedida → recebida; cancelamento enquanto em aberto. */
+export const PART_REQUEST_TRANSITIONS: Record<PartRequestStatus, PartRequestStatus[]> = {
+  requested: ["ordered", "received", "cancelled"],
+  ordered: ["received", "cancelled"],
+  received: [],
+  cancelled: [],
+};
+
+const MAX_FETCH = 500;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const isoDateSchema = z
+  .string()
+  .trim()
+  .refine((value) => !Number.isNaN(new Date(value).getTime()), "Data inválida");
+
+/** Corpo aceito pelas rotas do catálogo de peças. */
+export const partInputSchema = z.object({
+  code: z.string().trim().min(1).max(80),
+  description: z.string().trim().min(1).max(200),
+  compatibleModels: z.array(z.string().trim().min(1).max(80)).max(100).default([]),
+  unitCost: z.number().min(0).nullish(),
+  active: z.boolean().default(true),
+});
+
+export const partRequestCreateSchema = z
+  .object({
+    ncId: z.string().trim().min(1),
+    /** Item do catálogo; sem ele, `partCode` e `description` descrevem a peça. */
+    partId: z.string().trim().min(1).optional(),
+    partCode: z.string().trim().min(1).max(80).optional(),
+    description: z.string().trim().max(200).optional(),
+    quantity: z.number().positive().default(1),
+    expectedAt: isoDateSchema.nullish(),
+    workOrderId: z.string().trim().min(1).nullish(),
+  })
+  .refine((input) => Boolean(input.partId || input.partCode), { message: "Informe a peça" });
+
+export const partRequestUpdateSchema = z.object({
+  status: z.enum(["requested", "ordered", "received", "cancelled"]).optional(),
+  expectedAt: isoDateSchema.nullish(),
+  purchaseOrder: z.string().trim().max(120).nullish(),
+});
+
+export type PartInput = z.infer<typeof partInputSchema>;
+export type PartRequestCreateInput = z.infer<typeof partRequestCreateSchema>;
+export type PartRequestUpdateInput = z.infer<typeof partRequestUpdateSchema>;
+
+export type PartRequestResult =
+  | { ok: true; data: PartRequest; ncResumed: boolean }
+  | { ok: false; status: 400 | 404 | 409; error: string };
+
+const PART_REQUEST_STATUSES = Object.keys(PART_REQUEST_TRANSITIONS) as PartRequestStatus[];
+
+const text = (value: unknown) => (typeof value === "string" ? value : null);
+
+const normalizeModel = (value: string) => value.trim().toLowerCase();
+
+export function mapPartDoc(docSnap: Pick<DocumentSnapshot, "id" | "data">): Part {
+  const data = docSnap.data() ?? {};
+  return {
+    id: docSnap.id,
+    code: text(data.code) ?? docSnap.id,
+    description: text(data.description) ?? "",
+    compatibleModels: Array.isArray(data.compatibleModels)
+      ? data.compatibleModels.filter((model: unknown): model is string => typeof model === "string")
+      : [],
+    unitCost: typeof data.unitCost === "number" ? data.unitCost : null,
+    active: data.active !== false,
+    updatedAt: text(data.updatedAt) ?? undefined,
+  };
+}
+
+export function mapPartRequestDoc(docSnap: Pick<DocumentSnapshot, "id" | "data">): PartRequest {
+  const data = docSnap.data() ?? {};
+  return {
+    id: docSnap.id,
+    partId: text(data.partId),
+    partCode: text(data.partCode) ?? "",
+    description: text(data.description) ?? "",
+    quantity: typeof data.quantity === "number" ? data.quantity : 1,
+    ncId: text(data.ncId) ?? "",
+    ncTitle: text(data.ncTitle) ?? "",
+    workOrderId: text(data.workOrderId),
+    machineId: text(data.machineId) ?? "",
+    machineTag: text(data.machineTag) ?? "",
+    status: PART_REQUEST_STATUSES.includes(data.status) ? data.status : "requested",
+    expectedAt: text(data.expectedAt),
+    purchaseOrder: text(data.purchaseOrder),
+    requestedAt: text(data.requestedAt) ?? "",
+    requestedBy: (data.requestedBy as PartRequest["requestedBy"]) ?? { id: "system" },
+    orderedAt: text(data.orderedAt),
+    receivedAt: text(data.receivedAt),
+    updatedAt: text(data.updatedAt) ?? undefined,
+  };
+}
+
+export const isOpenPartRequest = (request: Pick<PartRequest, "status">) =>
+  OPEN_PART_REQUEST_STATUSES.includes(request.status);
+
+/** Peça sem modelos cadastrados serve para qualquer máquina. */
+export function isPartCompatible(part: Pick<Part, "compatibleModels">, modelo?: string | null): boolean {
+  if (!part.compatibleModels.length) return true;
+  if (!modelo?.trim()) return false;
+  const target = normalizeModel(modelo);
+  return part.compatibleModels.some((model) => normalizeModel(model) === target);
+}
+
+/** Resumo das requisições em aberto gravado em `waitingPart` da NC. */
+export function summarizeWaitingPart(requests: PartRequest[], fallback?: NcWaitingPart): NcWaitingPart | null {
+  const open = requests.filter(isOpenPartRequest);
+  if (!open.length) return null;
+  const expected = open
+    .map((request) => request.expectedAt)
+    .filter((value): value is string => Boolean(value))
+    .sort()
+    .at(-1);
+  const expectedAt = expected ?? fallback?.expectedAt;
+  if (!expectedAt) return null;
+  return { partNumber: Array.from(new Set(open.map((request) => request.partCode))).join(", "), expectedAt };
+}
+
+async function findPartByCode(db: Firestore, code: string): Promise<Part | null> {
+  const snapshot = await db.collection(PARTS_COLLECTION).where("code", "==", code.trim()).limit(1).get();
+  return snapshot.docs[0] ? mapPartDoc(snapshot.docs[0]) : null;
+}
+
+async function loadNcPartRequests(db: Firestore, ncId: string): Promise<PartRequest[]> {
+  const snapshot = await db.collection(PART_REQUESTS_COLLECTION).where("ncId", "==", ncId).get();
+  return snapshot.docs.map(mapPartRequestDoc);
+}
+
+/**
+ * Alinha a NC às suas requisições: enquanto houver peças em aberto, atualiza
+ * `waitingPart`; quando todas chegam, a NC em `aguardando_peca` volta para
+ * `em_execucao` pelo fluxo da NC, se o perfil de quem recebeu a peça puder
+ * retomá-la. Retorna `true` se a NC foi retomada.
+ */
+export async function syncNcPartRequests(
+  db: Firestore,
+  ncId: string,
+  actor: RequestActor,
+  now: Date = new Date(),
+): Promise<boolean> {
+  const ref = db.collection("nonConformities").doc(ncId);
+  const snap = await ref.get();
+  if (!snap.exists) return false;
+  const nc = mapNonConformityDoc(snap);
+  if (nc.status !== "aguardando_peca") return false;
+
+  const requests = await loadNcPartRequests(db, ncId);
+  const updatedAt = now.toISOString();
+  if (requests.some(isOpenPartRequest)) {
+    const waitingPart = summarizeWaitingPart(requests, nc.waitingPart);
+    if (
+      waitingPart &&
+      (waitingPart.partNumber !== nc.waitingPart?.partNumber || waitingPart.expectedAt !== nc.waitingPart?.expectedAt)
+    ) {
+      await ref.update({ waitingPart, updatedAt });
+    }
+    return false;
+  }
+  if (!requests.some((request) => request.status === "received")) return false;
+  const transition = validateNcTransition("aguardando_peca", "em_execucao", actor.role);
+  if (!transition.ok) return false;
+
+  await ref.update({ status: "em_execucao", waitingPart: null, updatedAt });
+  const audit: Omit<NcAuditEntry, "id"> = {
+    type: transition.rule.event,
+    byUserId: actor.id,
+    byNome: actor.nome,
+    byRole: actor.role,
+    atISO: updatedAt,
+    transition: { from: "aguardando_peca", to: "em_execucao", reason: "Peças recebidas" },
+    diff: {
+      status: { before: "aguardando_peca", after: "em_execucao" },
+      waitingPart: { before: nc.waitingPart ?? null, after: null },
+    },
+  };
+  await ref.collection("audits").add(audit);
+  return true;
+}
+
+/** Abre uma requisição de peça para a NC, validando a compatibilidade com o modelo da máquina. */
+export async function createPartRequest(
+  db: Firestore,
+  input: PartRequestCreateInput,
+  actor: RequestActor,
+  now: Date = new Date(),
+): Promise<PartRequestResult> {
+  const ncSnap = await db.collection("nonConformities").doc(input.ncId).get();
+  if (!ncSnap.exists) return { ok: false, status: 404, error: "NC não encontrada." };
+  const nc: NonConformity = mapNonConformityDoc(ncSnap);
+  if (nc.status === "resolvida") {
+    return { ok: false, status: 409, error: "Não é possível requisitar peças para uma NC resolvida." };
+  }
+
+  let part: Part | null = null;
+  if (input.partId) {
+    const partSnap = await db.collection(PARTS_COLLECTION).doc(input.partId).get();
+    if (!partSnap.exists) return { ok: false, status: 404, error: "Peça não encontrada no catálogo." };
+    part = mapPartDoc(partSnap);
+  } else if (input.partCode) {
+    part = await findPartByCode(db, input.partCode);
+  }
+  if (part) {
+    const machineSnap = nc.linkedAsset?.id ? await db.collection("machines").doc(nc.linkedAsset.id).get() : null;
+    const modelo = (machineSnap?.exists ? text(machineSnap.data()?.modelo) : null) ?? nc.linkedAsset?.modelo ?? null;
+    if (!isPartCompatible(part, modelo)) {
+      return {
+        ok: false,
+        status: 400,
+        error: `A peça ${part.code} não é compatível com o modelo ${modelo ?? "da máquina"}.`,
+      };
+    }
+  }
+
+  const workOrderId = input.workOrderId ?? nc.workOrderId ?? null;
+  if (input.workOrderId) {
+    const orderSnap = await db.collection("workOrders").doc(input.workOrderId).get();
+    const ncIds = orderSnap.exists ? orderSnap.data()?.ncIds : null;
+    if (!Array.isArray(ncIds) || !ncIds.includes(nc.id)) {
+      return { ok: false, status: 400, error: "A ordem de serviço não inclui esta NC." };
+    }
+  }
+
+  const requestedAt = now.toISOString();
+  const request: Omit<PartRequest, "id"> = {
+    partId: part?.id ?? null,
+    partCode: part?.code ?? input.partCode ?? "",
+    description: part?.description ?? input.description ?? "",
+    quantity: input.quantity,
+    ncId: nc.id,
+    ncTitle: nc.title,
+    workOrderId,
+    machineId: nc.linkedAsset?.id ?? "",
+    machineTag: nc.linkedAsset?.tag ?? "",
+    status: "requested",
+    expectedAt: input.expectedAt ? new Date(input.expectedAt).toISOString() : null,
+    purchaseOrder: null,
+    requestedAt,
+    requestedBy: { id: actor.id, nome: actor.nome },
+    orderedAt: null,
+    receivedAt: null,
+    updatedAt: requestedAt,
+  };
+  const ref = await db.collection(PART_REQUESTS_COLLECTION).add(request);
+  await syncNcPartRequests(db, nc.id, actor, now);
+  return { ok: true, data: { id: ref.id, ...request }, ncResumed: false };
+}
+
+/** Avança o status da requisição; ao receber ou cancelar, retoma a NC se não restarem peças pendentes. */
+export async function updatePartRequest(
+  db: Firestore,
+  id: string,
+  input: PartRequestUpdateInput,
+  actor: RequestActor,
+  now: Date = new Date(),
+): Promise<PartRequestResult> {
+  const ref = db.collection(PART_REQUESTS_COLLECTION).doc(id);
+  const snap = await ref.get();
+  if (!snap.exists) return { ok: false, status: 404, error: "Requisição de peça não encontrada." };
+  const existing = mapPartRequestDoc(snap);
+
+  const updatedAt = now.toISOString();
+  const updates: Record<string, unknown> = { updatedAt };
+  if (input.status && input.status !== existing.status) {
+    if (!PART_REQUEST_TRANSITIONS[existing.status].includes(input.status)) {
+      return {
+        ok: false,
+        status: 409,
+        error: `Requisição ${existing.status} não pode passar para ${input.status}.`,
+      };
+    }
+    updates.status = input.status;
+    if (input.status === "ordered") updates.orderedAt = updatedAt;
+    if (input.status === "received") updates.receivedAt = updatedAt;
+  } else if (!isOpenPartRequest(existing)) {
+    return { ok: false, status: 409, error: "Requisição encerrada não pode ser alterada." };
+  }
+  if (input.expectedAt !== undefined) {
+    updates.expectedAt = input.expectedAt ? new Date(input.expectedAt).toISOString() : null;
+  }
+  if (input.purchaseOrder !== undefined) updates.purchaseOrder = input.purchaseOrder ?? null;
+
+  await ref.update(updates);
+  const ncResumed = existing.ncId ? await syncNcPartRequests(db, existing.ncId, actor, now) : false;
+  return { ok: true, data: mapPartRequestDoc(await ref.get()), ncResumed };
+}
+
+/**
+ * Garante uma requisição para a peça informada ao mover a NC para
+ * `aguardando_peca`, casando o código com o catálogo quando possível.
+ */
+export async function ensurePartRequestForNc(
+  db: Firestore,
+  nc: Pick<NonConformity, "id" | "title" | "linkedAsset" | "workOrderId">,
+  waitingPart: NcWaitingPart,
+  actor: RequestActor,
+  now: Date = new Date(),
+): Promise<void> {
+  const requests = await loadNcPartRequests(db, nc.id);
+  const code = waitingPart.partNumber.trim().toLowerCase();
+  if (requests.some((request) => isOpenPartRequest(request) && request.partCode.trim().toLowerCase() === code)) {
+    return;
+  }
+  const part = await findPartByCode(db, waitingPart.partNumber);
+  const requestedAt = now.toISOString();
+  const request: Omit<PartRequest, "id"> = {
+    partId: part?.id ?? null,
+    partCode: part?.code ?? waitingPart.partNumber,
+    description: part?.description ?? "",
+    quantity: 1,
+    ncId: nc.id,
+    ncTitle: nc.title,
+    workOrderId: nc.workOrderId ?? null,
+    machineId: nc.linkedAsset?.id ?? "",
+    machineTag: nc.linkedAsset?.tag ?? "",
+    status: "requested",
+    expectedAt: waitingPart.expectedAt,
+    purchaseOrder: null,
+    requestedAt,
+    requestedBy: { id: actor.id, nome: actor.nome },
+    orderedAt: null,
+    receivedAt: null,
+    updatedAt: requestedAt,
+  };
+  await db.collection(PART_REQUESTS_COLLECTION).add(request);
+  await syncNcPartRequests(db, nc.id, actor, now);
+}
+
+/**
+ * Relatório de peças que seguram máquinas: requisições em aberto agrupadas por
+ * máquina, com atraso em relação à previsão. Máquinas paradas vêm primeiro.
+ */
+export function buildBlockingPartsReport(
+  requests: PartRequest[],
+  ncs: Array<Pick<NonConformity, "id" | "status">>,
+  machines: Array<{ id: string; tag?: string; status?: string | null }>,
+  now: Date = new Date(),
+): BlockingPartsEntry[] {
+  const ncStatus = new Map(ncs.map((nc) => [nc.id, nc.status]));
+  const machineById = new Map(machines.map((machine) => [machine.id, machine]));
+  const entries = new Map<string, BlockingPartsEntry>();
+
+  for (const request of requests) {
+    if (!isOpenPartRequest(request) || ncStatus.get(request.ncId) === "resolvida") continue;
+    const machine = machineById.get(request.machineId);
+    const entry = entries.get(request.machineId) ?? {
+      machineId: request.machineId,
+      machineTag: machine?.tag ?? request.machineTag,
+      machineDown: machine?.status === "down",
+      waitingNcIds: [],
+      requests: [],
+      lastExpectedAt: null,
+    };
+    if (ncStatus.get(request.ncId) === "aguardando_peca" && !entry.waitingNcIds.includes(request.ncId)) {
+      entry.waitingNcIds.push(request.ncId);
+    }
+    const requestedAt = new Date(request.requestedAt).getTime();
+    entry.requests.push({
+      ...request,
+      overdue: Boolean(request.expectedAt && new Date(request.expectedAt).getTime() < now.getTime()),
+      waitingDays: Number.isNaN(requestedAt) ? 0 : Math.max(0, Math.floor((now.getTime() - requestedAt) / DAY_MS)),
+    });
+    if (request.expectedAt && (!entry.lastExpectedAt || request.expectedAt > entry.lastExpectedAt)) {
+      entry.lastExpectedAt = request.expectedAt;
+    }
+    entries.set(request.machineId, entry);
+  }
+
+  return Array.from(entries.values()).sort(
+    (a, b) =>
+      Number(b.machineDown) - Number(a.machineDown) ||
+      b.waitingNcIds.length - a.waitingNcIds.length ||
+      a.machineTag.localeCompare(b.machineTag),
+  );
+}
+
+export async function loadBlockingPartsReport(db: Firestore, now: Date = new Date()): Promise<BlockingPartsEntry[]> {
+  // Filtra as abertas na consulta: requisições antigas ainda pendentes não podem sair pelo limite.
+  const snapshot = await db
+    .collection(PART_REQUESTS_COLLECTION)
+    .where("status", "in", OPEN_PART_REQUEST_STATUSES)
+    .orderBy("requestedAt", "desc")
+    .limit(MAX_FETCH)
+    .get();
+  const requests = snapshot.docs.map(mapPartRequestDoc);
+  const ncIds = Array.from(new Set(requests.map((request) => request.ncId).filter(Boolean)));
+  const machineIds = Array.from(new Set(requests.map((request) => request.machineId).filter(Boolean)));
+  const [ncSnaps, machineSnaps] = await Promise.all([
+    Promise.all(ncIds.map((id) => db.collection("nonConformities").doc(id).get())),
+    Promise.all(machineIds.map((id) => db.collection("machines").doc(id).get())),
+  ]);
+  const ncs = ncSnaps.filter((snap) => snap.exists).map((snap) => mapNonConformityDoc(snap));
+  const machines = machineSnaps
+    .filter((snap) => snap.exists)
+    .map((snap) => ({ id: snap.id, tag: text(snap.data()?.tag) ?? undefined, status: text(snap.data()?.status) }));
+  return buildBlockingPartsReport(requests, ncs, machines, now);
+}
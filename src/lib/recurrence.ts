@@ -0,0 +1,103 @@
+import type { Firestore } from "firebase-admin/firestore";
+import { z } from "zod";
+import { mapNonConformityDoc } from "@/lib/firestore/nc";
+import type { NcAuditEntry, NonConformity } from "@/types/nonconformity";
+import type { NcRecurrenceMatch, RecurrenceSettings } from "@/types/recurrence";
+
+export const RECURRENCE_SETTINGS_COLLECTION = "settings";
+export const RECURRENCE_SETTINGS_DOC = "recurrence";
+
+/** Padrões do motor de recorrência (mesmos de `functions/src/recurrence.ts`). */
+export const DEFAULT_RECURRENCE_SETTINGS: RecurrenceSettings = {
+  similarityThreshold: 0.6,
+  windowDays: { baixa: 30, media: 30, alta: 30 },
+  escalateAfterChecklists: 3,
+};
+
+const windowDaysSchema = z.number().int().min(1).max(365);
+
+export const recurrenceSettingsSchema = z.object({
+  similarityThreshold: z.number().min(0.1).max(1),
+  windowDays: z.object({ baixa: windowDaysSchema, media: windowDaysSchema, alta: windowDaysSchema }),
+  escalateAfterChecklists: z
+    .number()
+    .int()
+    .min(2)
+    .max(50)
+    .default(DEFAULT_RECURRENCE_SETTINGS.escalateAfterChecklists),
+});
+
+export const recurrenceDecisionSchema = z.object({
+  decision: z.enum(["confirm", "unlink"]),
+  actor: z
+    .object({
+      id: z.string().trim().min(1),
+      nome: z.string().trim().nullish(),
+    })
+    .optional(),
+});
+
+export type RecurrenceDecisionInput = z.infer<typeof recurrenceDecisionSchema>;
+
+export type RecurrenceDecisionResult =
+  | { ok: true; data: NonConformity }
+  | { ok: false; status: 404 | 409; error: string };
+
+export async function loadRecurrenceSettings(db: Firestore): Promise<RecurrenceSettings> {
+  const snap = await db.collection(RECURRENCE_SETTINGS_COLLECTION).doc(RECURRENCE_SETTINGS_DOC).get();
+  const parsed = recurrenceSettingsSchema.safeParse(snap.data());
+  if (!parsed.success) return DEFAULT_RECURRENCE_SETTINGS;
+  const updatedAt = snap.data()?.updatedAt;
+  return { ...parsed.data, ...(typeof updatedAt === "string" ? { updatedAt } : {}) };
+}
+
+/**
+ * Confirma ou desfaz a recorrência sugerida. Desvincular limpa `recurrenceOfId`
+ * (a NC deixa de exigir CAPA e sai da taxa de recorrência); confirmar uma
+ * recorrência desvinculada refaz o vínculo.
+ */
+export async function decideRecurrence(
+  db: Firestore,
+  ncId: string,
+  input: RecurrenceDecisionInput,
+  now: Date = new Date(),
+): Promise<RecurrenceDecisionResult> {
+  const ref = db.collection("nonConformities").doc(ncId);
+  const snap = await ref.get();
+  if (!snap.exists) return { ok: false, status: 404, error: "NC não encontrada." };
+  const nc = mapNonConformityDoc(snap);
+
+  const ofId = nc.recurrenceOfId ?? nc.recurrenceMatch?.ofId;
+  if (!ofId) return { ok: false, status: 409, error: "A NC não está vinculada a uma recorrência." };
+
+  const status = input.decision === "confirm" ? "confirmed" : "unlinked";
+  if (nc.recurrenceMatch?.status === status) {
+    return {
+      ok: false,
+      status: 409,
+      error: status === "confirmed" ? "A recorrência já foi confirmada." : "A recorrência já foi desvinculada.",
+    };
+  }
+
+  const atISO = now.toISOString();
+  const decidedBy = { id: input.actor?.id ?? "system", nome: input.actor?.nome ?? null };
+  const recurrenceMatch: NcRecurrenceMatch = { ...nc.recurrenceMatch, ofId, status, decidedAt: atISO, decidedBy };
+  const recurrenceOfId = status === "confirmed" ? ofId : null;
+
+  await ref.update({ recurrenceOfId, recurrenceMatch, updatedAt: atISO });
+
+  const audit: Omit<NcAuditEntry, "id"> = {
+    type: "updated",
+    byUserId: decidedBy.id,
+    byNome: decidedBy.nome,
+    byRole: null,
+    atISO,
+    diff: {
+      recurrenceOfId: { before: nc.recurrenceOfId ?? null, after: recurrenceOfId },
+      recurrenceMatch: { before: nc.recurrenceMatch ?? null, after: recurrenceMatch },
+    },
+  };
+  await ref.collection("audits").add(audit);
+
+  return { ok: true, data: mapNonConformityDoc(await ref.get()) };
+}
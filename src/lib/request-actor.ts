@@ -0,0 +1,46 @@
+import type { DecodedIdToken } from "firebase-admin/auth";
+import type { Firestore } from "firebase-admin/firestore";
+import { getAdminAuth } from "@/lib/firebase-admin";
+import { isUserRole } from "@/lib/nc-workflow";
+import type { UserRole } from "@/types/user";
+
+/** Usuário autenticado que faz a requisição, com o perfil conferido no servidor. */
+export type RequestActor = {
+  id: string;
+  nome: string | null;
+  role: UserRole;
+};
+
+export type RequestActorResult =
+  | { ok: true; actor: RequestActor }
+  | { ok: false; status: 401 | 403; error: string };
+
+/**
+ * Identifica o usuário pelo ID token do Firebase (`Authorization: Bearer`).
+ * O perfil vem da claim `role` do token ou do cadastro em `users/{uid}`; o que
+ * o cliente manda no corpo da requisição nunca é usado.
+ */
+export async function resolveRequestActor(request: Request, db: Firestore): Promise<RequestActorResult> {
+  const match = /^Bearer\s+(\S+)$/i.exec(request.headers.get("authorization")?.trim() ?? "");
+  if (!match) {
+    return { ok: false, status: 401, error: "Sessão não identificada. Entre novamente no painel." };
+  }
+
+  let token: DecodedIdToken;
+  try {
+    token = await getAdminAuth().verifyIdToken(match[1]);
+  } catch (error) {
+    console.warn("Rejected invalid ID token", error);
+    return { ok: false, status: 401, error: "Sessão expirada. Entre novamente no painel." };
+  }
+
+  const userSnap = await db.collection("users").doc(token.uid).get();
+  const profile = (userSnap.exists ? userSnap.data() : undefined) ?? {};
+  const role = isUserRole(token.role) ? token.role : isUserRole(profile.role) ? profile.role : null;
+  if (!role) {
+    return { ok: false, status: 403, error: "Seu usuário não tem perfil cadastrado para esta operação." };
+  }
+
+  const nome = typeof profile.nome === "string" && profile.nome ? profile.nome : token.name ?? token.email ?? null;
+  return { ok: true, actor: { id: token.uid, nome, role } };
+}
@@ -0,0 +1,119 @@
+import { z } from "zod";
+import type { NonConformity } from "@/types/nonconformity";
+import {
+  ISHIKAWA_CATEGORIES,
+  ISHIKAWA_CATEGORY_LABEL,
+  type IshikawaCategory,
+  type NcRootCauseAnalysis,
+  type RootCauseOption,
+} from "@/types/root-cause";
+
+export const MAX_WHYS = 5;
+
+export const NO_ROOT_CAUSE = "Sem causa definida";
+export const UNCLASSIFIED_ROOT_CAUSE = "Não classificada";
+
+/** Taxonomia controlada de causas, agrupada pelas categorias de Ishikawa. */
+export const ROOT_CAUSE_TAXONOMY: RootCauseOption[] = [
+  { code: "desgaste_componente", label: "Desgaste natural de componente", category: "maquina", keywords: ["desgaste", "vida util"] },
+  { code: "fadiga_quebra", label: "Fadiga ou quebra de componente", category: "maquina", keywords: ["fadiga", "quebra", "trinca", "ruptura"] },
+  { code: "falha_projeto", label: "Falha de projeto ou fabricação", category: "maquina", keywords: ["projeto", "fabricacao", "fabricante"] },
+  { code: "lubrificacao", label: "Lubrificação deficiente", category: "metodo", keywords: ["lubrific", "graxa", "engraxa"] },
+  { code: "plano_manutencao", label: "Plano de manutenção inadequado", category: "metodo", keywords: ["plano", "preventiva", "intervalo"] },
+  { code: "procedimento", label: "Procedimento inexistente ou inadequado", category: "metodo", keywords: ["procedimento", "instrucao"] },
+  { code: "operacao_incorreta", label: "Operação incorreta", category: "mao_de_obra", keywords: ["operacao", "operador", "mau uso"] },
+  { code: "treinamento", label: "Falta de treinamento", category: "mao_de_obra", keywords: ["treinamento", "capacitacao"] },
+  { code: "montagem_incorreta", label: "Montagem ou reparo incorreto", category: "mao_de_obra", keywords: ["montagem", "reparo", "aperto", "torque"] },
+  { code: "peca_fora_especificacao", label: "Peça fora de especificação", category: "material", keywords: ["especificacao", "peca errada", "paralela"] },
+  { code: "fluido_contaminado", label: "Óleo ou combustível contaminado", category: "material", keywords: ["contamina", "combustivel", "oleo"] },
+  { code: "poeira", label: "Poeira, lama ou sujeira", category: "meio_ambiente", keywords: ["poeira", "lama", "sujeira"] },
+  { code: "terreno", label: "Condições do terreno ou da via", category: "meio_ambiente", keywords: ["terreno", "buraco", "pista", "estrada"] },
+  { code: "clima", label: "Temperatura ou clima", category: "meio_ambiente", keywords: ["chuva", "calor", "temperatura", "umidade"] },
+  { code: "instrumento", label: "Instrumento ou sensor descalibrado", category: "medicao", keywords: ["calibra", "sensor", "instrumento"] },
+  { code: "inspecao", label: "Inspeção não detectou a falha", category: "medicao", keywords: ["inspecao", "checklist"] },
+  { code: "leitura_incorreta", label: "Leitura ou registro incorreto", category: "medicao", keywords: ["leitura", "registro", "horimetro"] },
+];
+
+export function rootCauseOption(code?: string | null): RootCauseOption | undefined {
+  return code ? ROOT_CAUSE_TAXONOMY.find((option) => option.code === code) : undefined;
+}
+
+export const rootCauseAnalysisSchema = z
+  .object({
+    whys: z
+      .array(z.string().trim().max(500))
+      .max(MAX_WHYS, `Informe no máximo ${MAX_WHYS} porquês.`)
+      .default([])
+      .transform((whys) => whys.filter(Boolean)),
+    category: z.enum(ISHIKAWA_CATEGORIES, { message: "Categoria de causa inválida." }),
+    causeCode: z.string().trim().min(1).nullish(),
+  })
+  .refine((input) => !input.causeCode || rootCauseOption(input.causeCode)?.category === input.category, {
+    message: "A causa não pertence à categoria informada.",
+  });
+
+/** Valida a análise enviada; `null` remove a análise da NC. */
+export function parseRootCauseAnalysis(
+  raw: unknown,
+): { ok: true; data: NcRootCauseAnalysis | null } | { ok: false; error: string } {
+  if (raw === null) return { ok: true, data: null };
+  const parsed = rootCauseAnalysisSchema.safeParse(raw);
+  if (!parsed.success) {
+    return { ok: false, error: parsed.error.issues[0]?.message ?? "Análise de causa raiz inválida." };
+  }
+  const { whys, category, causeCode } = parsed.data;
+  return { ok: true, data: { whys, category, ...(causeCode ? { causeCode } : {}) } };
+}
+
+/** Texto de causa raiz derivado da análise, usado quando a NC não tem um descrito. */
+export function rootCauseSummary(analysis: NcRootCauseAnalysis): string {
+  const label = rootCauseOption(analysis.causeCode)?.label ?? ISHIKAWA_CATEGORY_LABEL[analysis.category];
+  const lastWhy = analysis.whys.at(-1);
+  return lastWhy ? `${label}: ${lastWhy}` : label;
+}
+
+const STOPWORDS = new Set(["a", "o", "as", "os", "de", "da", "do", "das", "dos", "e", "em", "na", "no", "por"]);
+
+/** Minúsculas, sem acentos, pontuação e preposições ("Falta de lubrificação" → "falta lubrificacao"). */
+export function normalizeCauseText(value: string): string {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .split(" ")
+    .filter((word) => word && !STOPWORDS.has(word))
+    .join(" ");
+}
+
+export type RootCauseClassification = {
+  category: IshikawaCategory | null;
+  code: string | null;
+  label: string;
+};
+
+/**
+ * Classificação usada nos KPIs: a análise estruturada, quando existe; senão,
+ * o texto livre comparado com os termos da taxonomia.
+ */
+export function classifyRootCause(
+  record: Pick<NonConformity, "rootCause" | "rootCauseAnalysis">,
+): RootCauseClassification {
+  const analysis = record.rootCauseAnalysis;
+  if (analysis) {
+    const option = rootCauseOption(analysis.causeCode);
+    return {
+      category: analysis.category,
+      code: option?.code ?? null,
+      label: option?.label ?? ISHIKAWA_CATEGORY_LABEL[analysis.category],
+    };
+  }
+  const text = record.rootCause ? normalizeCauseText(record.rootCause) : "";
+  if (!text) return { category: null, code: null, label: NO_ROOT_CAUSE };
+  const option = ROOT_CAUSE_TAXONOMY.find((candidate) =>
+    candidate.keywords.some((keyword) => text.includes(keyword)),
+  );
+  return option
+    ? { category: option.category, code: option.code, label: option.label }
+    : { category: null, code: null, label: UNCLASSIFIED_ROOT_CAUSE };
+}
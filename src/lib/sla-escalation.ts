@@ -0,0 +1,210 @@
+import type { DocumentSnapshot, Firestore } from "firebase-admin/firestore";
+import { z } from "zod";
+import { getAdminDb } from "@/lib/firebase-admin";
+import { mapNonConformityDoc } from "@/lib/firestore/nc";
+import { enqueueNotificationEvent, notificationEventId } from "@/lib/notifications";
+import {
+  SLA_CONTACTS_COLLECTION,
+  SLA_POLICIES_COLLECTION,
+  classifySla,
+  nextEscalationStep,
+  overdueHours,
+  resolveEscalationContact,
+  resolveSlaPolicy,
+} from "@/lib/sla";
+import type { NcAuditEntry, NcStatus } from "@/types/nonconformity";
+import {
+  SLA_ESCALATION_LEVELS,
+  type NcEscalation,
+  type SetorEscalationContacts,
+  type SlaContact,
+  type SlaEscalationStep,
+  type SlaPolicy,
+  type SlaState,
+} from "@/types/sla";
+
+const OPEN_STATUSES: NcStatus[] = ["aberta", "em_execucao", "aguardando_peca", "bloqueada"];
+
+const contactSchema = z.object({
+  id: z.string().trim().nullish(),
+  nome: z.string().trim().min(1),
+  email: z.string().trim().email().nullish(),
+});
+
+/** Corpo aceito pelas rotas de políticas de SLA. */
+export const slaPolicyInputSchema = z.object({
+  name: z.string().trim().min(1).max(120),
+  severity: z.enum(["baixa", "media", "alta"]).nullable(),
+  safetyRisk: z.boolean().nullable(),
+  setor: z.string().trim().max(80).nullable(),
+  resolutionHours: z.number().positive().max(24 * 365),
+  dueSoonHours: z.number().min(0).max(24 * 365),
+  escalation: z
+    .array(z.object({ level: z.enum(["responsible", "supervisor", "manager"]), afterOverdueHours: z.number().min(0) }))
+    .max(3),
+});
+
+export const escalationContactsInputSchema = z.object({
+  setor: z.string().trim().max(80).nullable(),
+  supervisor: contactSchema.nullable(),
+  manager: contactSchema.nullable(),
+});
+
+/** Um documento por setor; o sem setor vale para os demais. */
+export const escalationContactsId = (setor: string | null) =>
+  setor?.trim() ? setor.trim().toLowerCase().replace(/[^0-9a-z_-]+/g, "-") : "default";
+
+const toNumber = (value: unknown, fallback: number) =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0 ? value : fallback;
+
+function mapContact(raw: unknown): SlaContact | null {
+  if (!raw || typeof raw !== "object") return null;
+  const data = raw as Record<string, unknown>;
+  if (typeof data.nome !== "string" || !data.nome.trim()) return null;
+  return {
+    id: typeof data.id === "string" ? data.id : null,
+    nome: data.nome,
+    email: typeof data.email === "string" ? data.email : null,
+  };
+}
+
+export function mapSlaPolicy(docSnap: Pick<DocumentSnapshot, "id" | "data">): SlaPolicy {
+  const data = docSnap.data() ?? {};
+  const escalation = Array.isArray(data.escalation)
+    ? (data.escalation as Array<Record<string, unknown>>)
+        .filter((step) => SLA_ESCALATION_LEVELS.includes(step?.level as SlaEscalationStep["level"]))
+        .map((step) => ({
+          level: step.level as SlaEscalationStep["level"],
+          afterOverdueHours: toNumber(step.afterOverdueHours, 0),
+        }))
+    : [];
+  return {
+    id: docSnap.id,
+    name: typeof data.name === "string" ? data.name : docSnap.id,
+    severity: data.severity === "alta" || data.severity === "media" || data.severity === "baixa" ? data.severity : null,
+    safetyRisk: typeof data.safetyRisk === "boolean" ? data.safetyRisk : null,
+    setor: typeof data.setor === "string" && data.setor.trim() ? data.setor : null,
+    resolutionHours: toNumber(data.resolutionHours, 120),
+    dueSoonHours: toNumber(data.dueSoonHours, 24),
+    escalation,
+    updatedAt: typeof data.updatedAt === "string" ? data.updatedAt : undefined,
+  };
+}
+
+export function mapEscalationContacts(docSnap: Pick<DocumentSnapshot, "id" | "data">): SetorEscalationContacts {
+  const data = docSnap.data() ?? {};
+  return {
+    id: docSnap.id,
+    setor: typeof data.setor === "string" && data.setor.trim() ? data.setor : null,
+    supervisor: mapContact(data.supervisor),
+    manager: mapContact(data.manager),
+    updatedAt: typeof data.updatedAt === "string" ? data.updatedAt : undefined,
+  };
+}
+
+export async function loadSlaPolicies(db: Firestore): Promise<SlaPolicy[]> {
+  const snapshot = await db.collection(SLA_POLICIES_COLLECTION).get();
+  return snapshot.docs.map(mapSlaPolicy);
+}
+
+export async function loadEscalationContacts(db: Firestore): Promise<SetorEscalationContacts[]> {
+  const snapshot = await db.collection(SLA_CONTACTS_COLLECTION).get();
+  return snapshot.docs.map(mapEscalationContacts);
+}
+
+export type SlaEscalationRun = {
+  scanned: number;
+  byState: Record<SlaState, number>;
+  escalated: Array<{ ncId: string; escalation: NcEscalation }>;
+};
+
+/**
+ * Classifica as NCs abertas pelo SLA e aciona o próximo nível de escalonamento
+ * das vencidas. Cada escalonamento entra no histórico `escalations` da NC e
+ * gera um evento `escalated` na auditoria; prazo próximo e escalonamento
+ * também enfileiram e-mails.
+ */
+export async function runSlaEscalation(options: { db?: Firestore; now?: Date } = {}): Promise<SlaEscalationRun> {
+  const db = options.db ?? getAdminDb();
+  const now = options.now ?? new Date();
+  const atISO = now.toISOString();
+
+  const [policies, contacts, ncSnap] = await Promise.all([
+    loadSlaPolicies(db),
+    loadEscalationContacts(db),
+    db.collection("nonConformities").where("status", "in", OPEN_STATUSES).get(),
+  ]);
+
+  const run: SlaEscalationRun = {
+    scanned: ncSnap.docs.length,
+    byState: { on_track: 0, due_soon: 0, overdue: 0 },
+    escalated: [],
+  };
+
+  for (const docSnap of ncSnap.docs) {
+    const nc = mapNonConformityDoc(docSnap);
+    // O prazo da NC mesclada passa a ser o da principal.
+    if (nc.mergedIntoId) continue;
+    const policy = resolveSlaPolicy(nc, policies);
+    const state = classifySla(nc, policy, now);
+    run.byState[state] += 1;
+
+    const updates: Record<string, unknown> = {};
+    if (nc.slaState !== state) updates.slaState = state;
+    if (nc.slaPolicyId !== policy.id) updates.slaPolicyId = policy.id;
+    // Prazo prorrogado: o próximo vencimento recomeça do primeiro nível.
+    if (state !== "overdue" && nc.escalationLevel) updates.escalationLevel = null;
+
+    const step = nextEscalationStep(nc, policy, now);
+    let escalation: NcEscalation | null = null;
+    if (step) {
+      escalation = {
+        level: step.level,
+        at: atISO,
+        overdueHours: Math.round(overdueHours(nc, policy, now) * 10) / 10,
+        policyId: policy.id,
+        notified: resolveEscalationContact(step.level, nc, contacts),
+      };
+      updates.escalationLevel = step.level;
+      updates.escalations = [...(nc.escalations ?? []), escalation];
+    }
+
+    if (!Object.keys(updates).length) continue;
+    await docSnap.ref.update(updates);
+
+    if (state === "due_soon" && nc.slaState !== "due_soon") {
+      await enqueueNotificationEvent(
+        db,
+        { id: notificationEventId("nc_due_soon", docSnap.id, nc.dueAt), kind: "nc_due_soon", refId: docSnap.id },
+        now,
+      );
+    }
+
+    if (escalation) {
+      const audit: Omit<NcAuditEntry, "id"> = {
+        type: "escalated",
+        byUserId: "system",
+        byNome: "Escalonamento de SLA",
+        byRole: null,
+        atISO,
+        diff: { escalationLevel: { before: nc.escalationLevel ?? null, after: escalation.level } },
+      };
+      await docSnap.ref.collection("audits").add(audit);
+      if (escalation.notified) {
+        await enqueueNotificationEvent(
+          db,
+          {
+            id: notificationEventId("nc_escalated", docSnap.id, escalation.level, atISO),
+            kind: "nc_escalated",
+            refId: docSnap.id,
+            payload: { level: escalation.level, overdueHours: escalation.overdueHours, contact: escalation.notified },
+          },
+          now,
+        );
+      }
+      run.escalated.push({ ncId: docSnap.id, escalation });
+    }
+  }
+
+  return run;
+}
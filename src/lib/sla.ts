@@ -0,0 +1,124 @@
+import type { NcAction, NonConformity, Severity } from "@/types/nonconformity";
+import {
+  SLA_ESCALATION_LEVELS,
+  type SetorEscalationContacts,
+  type SlaContact,
+  type SlaEscalationLevel,
+  type SlaEscalationStep,
+  type SlaPolicy,
+  type SlaState,
+} from "@/types/sla";
+
+export const SLA_POLICIES_COLLECTION = "slaPolicies";
+export const SLA_CONTACTS_COLLECTION = "slaEscalationContacts";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const defaultPolicy = (severity: Severity, resolutionHours: number, dueSoonHours: number, steps: number[]): SlaPolicy => ({
+  id: `default-${severity}`,
+  name: `Padrão (${severity})`,
+  severity,
+  safetyRisk: null,
+  setor: null,
+  resolutionHours,
+  dueSoonHours,
+  escalation: SLA_ESCALATION_LEVELS.map((level, index) => ({ level, afterOverdueHours: steps[index] })),
+});
+
+/** Prazos padrão (2, 5 e 10 dias), usados quando nenhuma política configurada se aplica. */
+export const DEFAULT_SLA_POLICIES: SlaPolicy[] = [
+  defaultPolicy("alta", 48, 12, [0, 8, 24]),
+  defaultPolicy("media", 120, 24, [0, 24, 72]),
+  defaultPolicy("baixa", 240, 48, [0, 48, 120]),
+];
+
+const normalizeSetor = (value?: string | null) => value?.trim().toLowerCase() || null;
+
+export type SlaSubject = Pick<NonConformity, "severity" | "safetyRisk"> & {
+  linkedAsset?: Pick<NonConformity["linkedAsset"], "setor">;
+};
+
+function mostSpecificPolicy(nc: SlaSubject, policies: SlaPolicy[]): SlaPolicy | undefined {
+  const severity = nc.severity ?? "media";
+  const safetyRisk = nc.safetyRisk ?? false;
+  const setor = normalizeSetor(nc.linkedAsset?.setor);
+
+  let best: { policy: SlaPolicy; score: number } | undefined;
+  for (const policy of policies) {
+    if (policy.severity && policy.severity !== severity) continue;
+    if (policy.safetyRisk !== null && policy.safetyRisk !== safetyRisk) continue;
+    const policySetor = normalizeSetor(policy.setor);
+    if (policySetor && policySetor !== setor) continue;
+    const score = (policySetor ? 4 : 0) + (policy.safetyRisk !== null ? 2 : 0) + (policy.severity ? 1 : 0);
+    if (!best || score > best.score) best = { policy, score };
+  }
+  return best?.policy;
+}
+
+/**
+ * Escolhe a política configurada mais específica para a NC: setor vale mais que
+ * risco de segurança, que vale mais que severidade. Sem nenhuma, usa o padrão.
+ */
+export function resolveSlaPolicy(nc: SlaSubject, policies: SlaPolicy[] = []): SlaPolicy {
+  return mostSpecificPolicy(nc, policies) ?? mostSpecificPolicy(nc, DEFAULT_SLA_POLICIES) ?? DEFAULT_SLA_POLICIES[1];
+}
+
+export function computeSlaDueAt(createdAt: string, policy: Pick<SlaPolicy, "resolutionHours">): string {
+  return new Date(new Date(createdAt).getTime() + policy.resolutionHours * HOUR_MS).toISOString();
+}
+
+function dueTime(nc: Pick<NonConformity, "createdAt" | "dueAt">, policy: SlaPolicy): number {
+  const due = nc.dueAt ? new Date(nc.dueAt).getTime() : Number.NaN;
+  return Number.isNaN(due) ? new Date(computeSlaDueAt(nc.createdAt, policy)).getTime() : due;
+}
+
+/** Horas além do prazo (0 enquanto dentro dele). */
+export function overdueHours(nc: Pick<NonConformity, "createdAt" | "dueAt">, policy: SlaPolicy, now: Date): number {
+  return Math.max(0, (now.getTime() - dueTime(nc, policy)) / HOUR_MS);
+}
+
+export function classifySla(nc: Pick<NonConformity, "createdAt" | "dueAt">, policy: SlaPolicy, now: Date): SlaState {
+  const remainingMs = dueTime(nc, policy) - now.getTime();
+  if (remainingMs < 0) return "overdue";
+  return remainingMs <= policy.dueSoonHours * HOUR_MS ? "due_soon" : "on_track";
+}
+
+const levelIndex = (level?: SlaEscalationLevel | null) => (level ? SLA_ESCALATION_LEVELS.indexOf(level) : -1);
+
+/**
+ * Próximo nível a acionar: o mais alto já alcançado pelo atraso e acima do nível
+ * atual da NC. Níveis intermediários vencidos no mesmo ciclo não são repetidos.
+ */
+export function nextEscalationStep(
+  nc: Pick<NonConformity, "createdAt" | "dueAt" | "escalationLevel">,
+  policy: SlaPolicy,
+  now: Date,
+): SlaEscalationStep | null {
+  if (classifySla(nc, policy, now) !== "overdue") return null;
+  const late = overdueHours(nc, policy, now);
+  const current = levelIndex(nc.escalationLevel);
+  const reached = policy.escalation
+    .filter((step) => step.afterOverdueHours <= late && levelIndex(step.level) > current)
+    .sort((a, b) => levelIndex(b.level) - levelIndex(a.level));
+  return reached[0] ?? null;
+}
+
+function openActionOwner(actions: NcAction[] | undefined): SlaContact | null {
+  const owned = (actions ?? []).filter((action) => action.owner?.id);
+  const action = owned.find((item) => !item.completedAt) ?? owned[0];
+  return action?.owner ? { id: action.owner.id, nome: action.owner.nome ?? action.owner.id } : null;
+}
+
+/** Quem recebe o escalonamento: dono da ação em aberto ou supervisor/gerente do setor da máquina. */
+export function resolveEscalationContact(
+  level: SlaEscalationLevel,
+  nc: Pick<NonConformity, "actions" | "linkedAsset">,
+  contacts: SetorEscalationContacts[],
+): SlaContact | null {
+  if (level === "responsible") return openActionOwner(nc.actions);
+  const setor = normalizeSetor(nc.linkedAsset?.setor);
+  const entry =
+    contacts.find((item) => setor && normalizeSetor(item.setor) === setor) ??
+    contacts.find((item) => !normalizeSetor(item.setor));
+  return (level === "supervisor" ? entry?.supervisor : entry?.manager) ?? null;
+}
@@ -0,0 +1,284 @@
+import type { TelemetryRef } from "@/types/nonconformity";
+import type { MachineTelemetryReading, TelemetryMachine, TelemetryProvider } from "./provider";
+
+const KM_PER_MILE = 1.609344;
+const LITRES_PER_GALLON = 3.785411784;
+const DEFAULT_MAX_PAGES = 20;
+
+/** Equipamento de um snapshot ISO 15143-3 (AEMP 2.0), com unidades já convertidas. */
+export type AempEquipmentSnapshot = {
+  serialNumber?: string;
+  pin?: string;
+  equipmentId?: string;
+  oemName?: string;
+  model?: string;
+  at?: string;
+  hours?: number;
+  odometerKm?: number;
+  fuelUsedL?: number;
+  idleTimeH?: number;
+  faultCodes?: string[];
+};
+
+export type AempFleetPage = {
+  snapshotTime?: string;
+  equipment: AempEquipmentSnapshot[];
+  nextHref?: string;
+};
+
+type XmlValue = string | XmlObject | XmlValue[];
+type XmlObject = { [key: string]: XmlValue };
+
+const localName = (name: string) => name.replace(/^.*:/, "");
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+function appendChild(target: XmlObject, key: string, value: XmlValue) {
+  const current = target[key];
+  if (current === undefined) target[key] = value;
+  else if (Array.isArray(current)) current.push(value);
+  else target[key] = [current, value];
+}
+
+/**
+ * Converte o XML do AEMP no mesmo formato do JSON: atributos e filhos viram
+ * propriedades; folhas sem atributos viram texto. Não trata DTD nem CDATA aninhado.
+ */
+export function parseAempXml(xml: string): XmlObject {
+  const root: XmlObject = {};
+  const stack: Array<{ name: string; node: XmlObject; text: string }> = [{ name: "", node: root, text: "" }];
+  const tokens = xml.replace(/<\?[\s\S]*?\?>|<!--[\s\S]*?-->/g, "").matchAll(/<(\/?)([^\s/>]+)([^>]*?)(\/?)>|([^<]+)/g);
+
+  for (const [, closing, rawName, rawAttributes, selfClosing, text] of tokens) {
+    const top = stack[stack.length - 1];
+    if (text !== undefined) {
+      top.text += text;
+      continue;
+    }
+    const name = localName(rawName);
+    if (closing) {
+      const finished = stack.pop();
+      const parent = stack[stack.length - 1];
+      if (!finished || !parent) break;
+      const value = decodeEntities(finished.text.trim());
+      const hasChildren = Object.keys(finished.node).length > 0;
+      appendChild(parent.node, name, hasChildren ? (value ? { ...finished.node, "#text": value } : finished.node) : value);
+      continue;
+    }
+    const node: XmlObject = {};
+    for (const [, key, , doubleQuoted, singleQuoted] of (rawAttributes ?? "").matchAll(/([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g)) {
+      if (key.startsWith("xmlns")) continue;
+      node[localName(key)] = decodeEntities(doubleQuoted ?? singleQuoted ?? "");
+    }
+    if (selfClosing) {
+      appendChild(top.node, name, Object.keys(node).length ? node : "");
+    } else {
+      stack.push({ name, node, text: "" });
+    }
+  }
+  return root;
+}
+
+/** Lê uma propriedade ignorando maiúsculas/minúsculas (o JSON dos fabricantes varia). */
+function pick(source: unknown, key: string): XmlValue | undefined {
+  if (!source || typeof source !== "object" || Array.isArray(source)) return undefined;
+  const lower = key.toLowerCase();
+  const match = Object.keys(source).find((candidate) => candidate.toLowerCase() === lower);
+  return match ? (source as XmlObject)[match] : undefined;
+}
+
+const asList = (value: XmlValue | undefined): XmlValue[] =>
+  value === undefined ? [] : Array.isArray(value) ? value : [value];
+
+function asText(value: XmlValue | number | undefined): string | undefined {
+  if (typeof value === "number") return String(value);
+  if (typeof value === "string") return value.trim() || undefined;
+  if (value && !Array.isArray(value)) return asText(pick(value, "#text"));
+  return undefined;
+}
+
+function asNumber(value: XmlValue | undefined): number | undefined {
+  const number = Number(asText(value));
+  return asText(value) !== undefined && Number.isFinite(number) ? number : undefined;
+}
+
+function asIso(value: XmlValue | undefined): string | undefined {
+  const text = asText(value);
+  if (!text) return undefined;
+  const date = new Date(text);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+const round = (value: number) => Number(value.toFixed(1));
+
+function parseEquipment(raw: XmlValue): AempEquipmentSnapshot {
+  const header = pick(raw, "EquipmentHeader");
+  const hoursNode = pick(raw, "CumulativeOperatingHours");
+  const distanceNode = pick(raw, "Distance");
+  const idleNode = pick(raw, "CumulativeIdleHours");
+  const fuelNode = pick(raw, "FuelUsed");
+
+  const odometer = asNumber(pick(distanceNode, "Odometer"));
+  const odometerUnits = asText(pick(distanceNode, "OdometerUnits"))?.toLowerCase();
+  const fuel = asNumber(pick(fuelNode, "FuelConsumed"));
+  const fuelUnits = asText(pick(fuelNode, "FuelUnits"))?.toLowerCase();
+
+  const faultCodes = asList(pick(pick(raw, "FaultCodes"), "FaultCode"))
+    .map((fault) => asText(pick(fault, "CodeIdentifier")) ?? asText(pick(fault, "Code")) ?? asText(fault))
+    .filter((code): code is string => Boolean(code));
+
+  const times = [hoursNode, distanceNode, idleNode, fuelNode]
+    .map((node) => asIso(pick(node, "datetime")))
+    .filter((value): value is string => Boolean(value))
+    .sort();
+
+  return {
+    serialNumber: asText(pick(header, "SerialNumber")),
+    pin: asText(pick(header, "PIN")),
+    equipmentId: asText(pick(header, "EquipmentID")),
+    oemName: asText(pick(header, "OEMName")),
+    model: asText(pick(header, "Model")),
+    at: times.at(-1),
+    hours: asNumber(pick(hoursNode, "Hour")),
+    odometerKm:
+      odometer === undefined ? undefined : round(odometerUnits?.startsWith("mile") ? odometer * KM_PER_MILE : odometer),
+    fuelUsedL: fuel === undefined ? undefined : round(fuelUnits?.startsWith("gallon") ? fuel * LITRES_PER_GALLON : fuel),
+    idleTimeH: asNumber(pick(idleNode, "Hour")),
+    faultCodes: faultCodes.length ? faultCodes : undefined,
+  };
+}
+
+/** Interpreta uma página do snapshot `Fleet` do AEMP 2.0, em XML ou JSON. */
+export function parseAempFleetSnapshot(body: string): AempFleetPage {
+  const trimmed = body.trim();
+  const document = trimmed.startsWith("<") ? parseAempXml(trimmed) : (JSON.parse(trimmed) as XmlObject);
+  const fleet = pick(document, "Fleet") ?? document;
+
+  const nextLink = asList(pick(fleet, "Links")).find((link) => asText(pick(link, "rel"))?.toLowerCase() === "next");
+
+  return {
+    snapshotTime: asIso(pick(fleet, "snapshotTime")),
+    equipment: asList(pick(fleet, "Equipment")).map(parseEquipment),
+    nextHref: asText(pick(nextLink, "href")),
+  };
+}
+
+const normalizeIdentifier = (value?: string) => value?.replace(/\s+/g, "").toUpperCase() || undefined;
+
+/** Casa equipamentos do snapshot com o cadastro pelo PIN ou, na falta dele, pelo número de série. */
+export function matchAempEquipment(
+  equipment: AempEquipmentSnapshot[],
+  machines: TelemetryMachine[],
+  fallbackAt: string,
+): { readings: MachineTelemetryReading[]; unmatched: AempEquipmentSnapshot[] } {
+  const byPin = new Map<string, TelemetryMachine>();
+  const bySerial = new Map<string, TelemetryMachine>();
+  for (const machine of machines) {
+    const pin = normalizeIdentifier(machine.pin);
+    const serial = normalizeIdentifier(machine.serialNumber);
+    if (pin) byPin.set(pin, machine);
+    if (serial) bySerial.set(serial, machine);
+  }
+
+  const readings: MachineTelemetryReading[] = [];
+  const unmatched: AempEquipmentSnapshot[] = [];
+  for (const item of equipment) {
+    const pin = normalizeIdentifier(item.pin);
+    const serial = normalizeIdentifier(item.serialNumber);
+    const machine = (pin && byPin.get(pin)) || (serial && bySerial.get(serial)) || undefined;
+    if (!machine) {
+      unmatched.push(item);
+      continue;
+    }
+    const at = item.at ?? fallbackAt;
+    const telemetry: TelemetryRef = { windowEnd: at };
+    if (item.hours !== undefined) telemetry.hours = item.hours;
+    if (item.odometerKm !== undefined) telemetry.odometerKm = item.odometerKm;
+    if (item.fuelUsedL !== undefined) telemetry.fuelUsedL = item.fuelUsedL;
+    if (item.idleTimeH !== undefined) telemetry.idleTimeH = item.idleTimeH;
+    if (item.faultCodes) telemetry.faultCodes = item.faultCodes;
+    readings.push({
+      machineId: machine.id,
+      at,
+      telemetry,
+      source: "aemp",
+      ...(item.serialNumber ? { serialNumber: item.serialNumber } : {}),
+      ...(item.pin ? { pin: item.pin } : {}),
+      ...(item.oemName ? { oemName: item.oemName } : {}),
+    });
+  }
+  return { readings, unmatched };
+}
+
+export type AempClientOptions = {
+  /** URL base da API do fabricante; o snapshot é lido em `{baseUrl}/Fleet/1`. */
+  baseUrl: string;
+  username?: string;
+  password?: string;
+  token?: string;
+  maxPages?: number;
+  fetchImpl?: typeof fetch;
+};
+
+/**
+ * Lê todas as páginas do snapshot `Fleet`, seguindo os links `next`. Só segue
+ * links na mesma origem da `baseUrl`, para não mandar as credenciais a outro host.
+ */
+export async function fetchAempFleet(options: AempClientOptions): Promise<AempFleetPage> {
+  const fetchImpl = options.fetchImpl ?? fetch;
+  const headers: Record<string, string> = { Accept: "application/json, application/xml;q=0.9" };
+  if (options.token) {
+    headers.Authorization = `Bearer ${options.token}`;
+  } else if (options.username) {
+    headers.Authorization = `Basic ${Buffer.from(`${options.username}:${options.password ?? ""}`).toString("base64")}`;
+  }
+
+  const equipment: AempEquipmentSnapshot[] = [];
+  let snapshotTime: string | undefined;
+  let url: string | undefined = `${options.baseUrl.replace(/\/+$/, "")}/Fleet/1`;
+  const origin = new URL(url).origin;
+  const visited = new Set<string>();
+
+  for (let page = 0; url && page < (options.maxPages ?? DEFAULT_MAX_PAGES); page += 1) {
+    if (visited.has(url)) break;
+    visited.add(url);
+    const response = await fetchImpl(url, { headers, cache: "no-store" });
+    if (!response.ok) {
+      throw new Error(`AEMP respondeu ${response.status} em ${url}`);
+    }
+    const parsed = parseAempFleetSnapshot(await response.text());
+    snapshotTime ??= parsed.snapshotTime;
+    equipment.push(...parsed.equipment);
+    const next: URL | undefined = parsed.nextHref ? new URL(parsed.nextHref, url) : undefined;
+    if (next && next.origin !== origin) {
+      console.warn(`Ignoring AEMP next link outside ${origin}: ${next.toString()}`);
+    }
+    url = next?.origin === origin ? next.toString() : undefined;
+  }
+
+  return { snapshotTime, equipment };
+}
+
+export function createAempTelemetryProvider(options: AempClientOptions): TelemetryProvider {
+  return {
+    name: "aemp",
+    async fetchReadings(machines, atIso) {
+      const fleet = await fetchAempFleet(options);
+      const { readings, unmatched } = matchAempEquipment(fleet.equipment, machines, fleet.snapshotTime ?? atIso);
+      if (unmatched.length) {
+        console.warn("AEMP equipment without matching machine", {
+          count: unmatched.length,
+          serials: unmatched.map((item) => item.pin ?? item.serialNumber ?? item.equipmentId).slice(0, 20),
+        });
+      }
+      return readings;
+    },
+  };
+}
@@ -0,0 +1,86 @@
+import type { Firestore } from "firebase-admin/firestore";
+import { getAdminDb } from "@/lib/firebase-admin";
+import { raiseFaultCodeSuggestions } from "@/lib/nc-suggestions";
+import { createAempTelemetryProvider } from "./aemp";
+import {
+  type MachineTelemetryReading,
+  type TelemetryMachine,
+  type TelemetryProvider,
+  TELEMETRY_READINGS_COLLECTION,
+} from "./provider";
+import { stubTelemetryProvider } from "./stub";
+
+type TelemetryEnv = Record<string, string | undefined>;
+
+/**
+ * Escolhe o provedor pela configuração: `TELEMETRY_PROVIDER=aemp` com `AEMP_BASE_URL`
+ * usa a API do fabricante; qualquer outro caso cai no stub.
+ */
+export function resolveTelemetryProvider(env: TelemetryEnv = process.env): TelemetryProvider {
+  if (env.TELEMETRY_PROVIDER !== "aemp") return stubTelemetryProvider;
+  if (!env.AEMP_BASE_URL) {
+    console.warn("TELEMETRY_PROVIDER=aemp without AEMP_BASE_URL; falling back to stub");
+    return stubTelemetryProvider;
+  }
+  return createAempTelemetryProvider({
+    baseUrl: env.AEMP_BASE_URL,
+    username: env.AEMP_USERNAME,
+    password: env.AEMP_PASSWORD,
+    token: env.AEMP_TOKEN,
+  });
+}
+
+/** ID determinístico: reprocessar o mesmo snapshot não duplica a série. */
+export const telemetryReadingId = (reading: Pick<MachineTelemetryReading, "machineId" | "at">) =>
+  `${reading.machineId}_${reading.at.replace(/[^0-9A-Za-z]/g, "")}`;
+
+/**
+ * Busca as leituras do provedor, grava a série temporal em `telemetryReadings` e
+ * sugere NCs para códigos de falha que ficaram ativos.
+ */
+export async function ingestTelemetry(options: {
+  db?: Firestore;
+  provider?: TelemetryProvider;
+  now?: Date;
+} = {}) {
+  const db = options.db ?? getAdminDb();
+  const provider = options.provider ?? resolveTelemetryProvider();
+  const now = options.now ?? new Date();
+
+  const machinesSnap = await db.collection("machines").get();
+  const machineTags = new Map<string, string | undefined>();
+  const machines: TelemetryMachine[] = machinesSnap.docs.map((docSnap) => {
+    const data = docSnap.data() as { serialNumber?: string; pin?: string; tag?: string };
+    machineTags.set(docSnap.id, data.tag);
+    return { id: docSnap.id, serialNumber: data.serialNumber, pin: data.pin };
+  });
+
+  const readings = await provider.fetchReadings(machines, now.toISOString());
+  const ingestedAt = now.toISOString();
+  await Promise.all(
+    readings.map((reading) =>
+      db
+        .collection(TELEMETRY_READINGS_COLLECTION)
+        .doc(telemetryReadingId(reading))
+        .set({
+          machineId: reading.machineId,
+          at: reading.at,
+          ...reading.telemetry,
+          source: reading.source,
+          serialNumber: reading.serialNumber ?? null,
+          pin: reading.pin ?? null,
+          oemName: reading.oemName ?? null,
+          ingestedAt,
+        }),
+    ),
+  );
+
+  const suggestions = await raiseFaultCodeSuggestions({ db, readings, machineTags, now });
+
+  return {
+    provider: provider.name,
+    machines: machines.length,
+    readings: readings.length,
+    suggestions: suggestions.length,
+  };
+}
@@ -0,0 +1,30 @@
+import type { TelemetryRef } from "@/types/nonconformity";
+
+export type TelemetryProviderName = "aemp" | "stub";
+
+export const TELEMETRY_READINGS_COLLECTION = "telemetryReadings";
+
+/** Máquina vista pelo provedor: o AEMP casa por número de série ou PIN. */
+export type TelemetryMachine = {
+  id: string;
+  serialNumber?: string;
+  pin?: string;
+};
+
+/** Leitura de telemetria já associada a uma máquina do cadastro. */
+export type MachineTelemetryReading = {
+  machineId: string;
+  /** Momento da leitura informado pelo provedor. */
+  at: string;
+  telemetry: TelemetryRef;
+  source: TelemetryProviderName;
+  serialNumber?: string;
+  pin?: string;
+  /** Fabricante informado pelo provedor; seleciona as tabelas de códigos de falha do OEM. */
+  oemName?: string;
+};
+
+export interface TelemetryProvider {
+  name: TelemetryProviderName;
+  fetchReadings(machines: TelemetryMachine[], atIso: string): Promise<MachineTelemetryReading[]>;
+}
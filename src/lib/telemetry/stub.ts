@@ -1,4 +1,5 @@
 import type { TelemetryRef } from "@/types/nonconformity";
+import type { TelemetryProvider } from "./provider";
 
 function pseudoRandom(seed: string): number {
   let hash = 0;
@@ -24,3 +25,18 @@ export async function fetchTelemetrySnapshot(assetId: string, atIso: string): Pr
     windowEnd,
   };
 }
+
+/** Provedor de demonstração: gera valores a partir do ID da máquina, sem integração real. */
+export const stubTelemetryProvider: TelemetryProvider = {
+  name: "stub",
+  async fetchReadings(machines, atIso) {
+    return Promise.all(
+      machines.map(async (machine) => ({
+        machineId: machine.id,
+        at: atIso,
+        telemetry: await fetchTelemetrySnapshot(machine.id, atIso),
+        source: "stub" as const,
+      })),
+    );
+  },
+};
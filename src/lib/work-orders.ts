@@ -0,0 +1,437 @@
+import { randomUUID } from "node:crypto";
+import type { DocumentSnapshot, Firestore } from "firebase-admin/firestore";
+import { z } from "zod";
+import { mapNonConformityDoc } from "@/lib/firestore/nc";
+import { resolveLaborRate } from "@/lib/kpis/costs";
+import { releaseMachineForNc } from "@/lib/machine-status";
+import { ncClosureError, validateNcTransition } from "@/lib/nc-workflow";
+import type { RequestActor } from "@/lib/request-actor";
+import type { NcAction, NcActionCost, NcAuditEntry, NonConformity } from "@/types/nonconformity";
+import type {
+  WorkOrder,
+  WorkOrderLabor,
+  WorkOrderMechanic,
+  WorkOrderPart,
+  WorkOrderStatus,
+  WorkOrderTask,
+} from "@/types/work-order";
+
+export const WORK_ORDERS_COLLECTION = "workOrders";
+
+export const OPEN_WORK_ORDER_STATUSES: WorkOrderStatus[] = ["planejada", "em_execucao"];
+
+const plannedDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+export const workOrderCreateSchema = z.object({
+  ncIds: z.array(z.string().trim().min(1)).min(1).max(50),
+  title: z.string().trim().max(160).optional(),
+  description: z.string().trim().max(2000).nullish(),
+  plannedDate: plannedDateSchema,
+  mechanicIds: z.array(z.string().trim().min(1)).max(20).default([]),
+  /** Sem tarefas informadas, usa as ações corretivas em aberto das NCs. */
+  tasks: z.array(z.string().trim().min(1).max(300)).max(100).optional(),
+});
+
+export const workOrderUpdateSchema = z.object({
+  title: z.string().trim().min(1).max(160).optional(),
+  description: z.string().trim().max(2000).nullish(),
+  plannedDate: plannedDateSchema.optional(),
+  mechanicIds: z.array(z.string().trim().min(1)).max(20).optional(),
+  tasks: z
+    .array(z.object({ id: z.string().trim().min(1).optional(), description: z.string().trim().min(1).max(300), done: z.boolean() }))
+    .max(100)
+    .optional(),
+  labor: z
+    .array(
+      z.object({
+        id: z.string().trim().min(1).optional(),
+        mechanicId: z.string().trim().min(1),
+        hours: z.number().positive().max(24),
+        date: plannedDateSchema,
+        note: z.string().trim().max(300).nullish(),
+      }),
+    )
+    .max(200)
+    .optional(),
+  parts: z
+    .array(
+      z.object({
+        id: z.string().trim().min(1).optional(),
+        partNumber: z.string().trim().min(1).max(80),
+        description: z.string().trim().max(200).default(""),
+        quantity: z.number().positive(),
+        unitCost: z.number().min(0).nullish(),
+      }),
+    )
+    .max(200)
+    .optional(),
+  status: z.enum(["planejada", "em_execucao", "cancelada"]).optional(),
+  cancelReason: z.string().trim().max(500).nullish(),
+});
+
+export const workOrderCompleteSchema = z.object({
+  signOff: z.object({
+    nome: z.string().trim().min(1).max(120),
+    signatureUrl: z.string().trim().url(),
+  }),
+});
+
+export type WorkOrderCreateInput = z.infer<typeof workOrderCreateSchema>;
+export type WorkOrderUpdateInput = z.infer<typeof workOrderUpdateSchema>;
+export type WorkOrderCompleteInput = z.infer<typeof workOrderCompleteSchema>;
+
+export type WorkOrderResult =
+  | { ok: true; data: WorkOrder }
+  | { ok: false; status: 400 | 403 | 404 | 409; error: string };
+
+const WORK_ORDER_STATUSES: WorkOrderStatus[] = ["planejada", "em_execucao", "concluida", "cancelada"];
+
+const text = (value: unknown) => (typeof value === "string" ? value : null);
+const list = <T>(value: unknown) => (Array.isArray(value) ? (value as T[]) : []);
+
+export function mapWorkOrderDoc(docSnap: Pick<DocumentSnapshot, "id" | "data">): WorkOrder {
+  const data = docSnap.data() ?? {};
+  return {
+    id: docSnap.id,
+    title: text(data.title) ?? docSnap.id,
+    description: text(data.description),
+    machineId: text(data.machineId) ?? "",
+    machineTag: text(data.machineTag) ?? "",
+    ncIds: list<string>(data.ncIds).filter((id) => typeof id === "string"),
+    plannedDate: text(data.plannedDate) ?? "",
+    mechanics: list<WorkOrderMechanic>(data.mechanics),
+    tasks: list<WorkOrderTask>(data.tasks),
+    labor: list<WorkOrderLabor>(data.labor),
+    parts: list<WorkOrderPart>(data.parts),
+    status: WORK_ORDER_STATUSES.includes(data.status) ? data.status : "planejada",
+    createdAt: text(data.createdAt) ?? "",
+    createdBy: (data.createdBy as WorkOrder["createdBy"]) ?? { id: "system" },
+    updatedAt: text(data.updatedAt) ?? undefined,
+    startedAt: text(data.startedAt),
+    completedAt: text(data.completedAt),
+    signOff: (data.signOff as WorkOrder["signOff"]) ?? null,
+    cancelReason: text(data.cancelReason),
+  };
+}
+
+/** Total de horas apontadas na ordem. */
+export const workOrderLaborHours = (order: Pick<WorkOrder, "labor">) =>
+  order.labor.reduce((total, entry) => total + (Number.isFinite(entry.hours) ? entry.hours : 0), 0);
+
+/** Mecânicos pelo cadastro de `users`; `null` se algum ID não existir ou não for mecânico. */
+async function loadMechanics(db: Firestore, ids: string[]): Promise<WorkOrderMechanic[] | null> {
+  const unique = Array.from(new Set(ids));
+  const snaps = await Promise.all(unique.map((id) => db.collection("users").doc(id).get()));
+  const mechanics: WorkOrderMechanic[] = [];
+  for (const snap of snaps) {
+    const data = snap.exists ? snap.data() : undefined;
+    if (!data || data.role !== "mecanico") return null;
+    mechanics.push({ id: snap.id, nome: String(data.nome ?? ""), matricula: text(data.matricula) });
+  }
+  return mechanics;
+}
+
+async function loadNcs(db: Firestore, ids: string[]) {
+  const refs = Array.from(new Set(ids)).map((id) => db.collection("nonConformities").doc(id));
+  const snaps = await Promise.all(refs.map((ref) => ref.get()));
+  return snaps.map((snap, index) => ({ ref: refs[index], nc: snap.exists ? mapNonConformityDoc(snap) : null }));
+}
+
+function cleanAction(action: NcAction): NcAction {
+  return {
+    id: action.id,
+    type: action.type,
+    description: action.description,
+    ...(action.owner ? { owner: { id: action.owner.id, ...(action.owner.nome ? { nome: action.owner.nome } : {}) } } : {}),
+    ...(action.startedAt ? { startedAt: action.startedAt } : {}),
+    ...(action.completedAt ? { completedAt: action.completedAt } : {}),
+    ...(action.effective !== undefined ? { effective: action.effective } : {}),
+    ...(action.cost ? { cost: action.cost } : {}),
+    ...(action.verification ? { verification: action.verification } : {}),
+  };
+}
+
+/**
+ * Custo da ordem rateado igualmente entre as NCs encerradas: horas apontadas
+ * (ao valor da hora padrão, se configurado) e peças com custo unitário.
+ */
+function workOrderCostShare(order: WorkOrder, ncCount: number, laborRate: number | null): NcActionCost | undefined {
+  if (!ncCount) return undefined;
+  const hours = workOrderLaborHours(order);
+  const parts = order.parts.reduce((total, part) => total + part.quantity * (part.unitCost ?? 0), 0);
+  if (hours <= 0 && parts <= 0) return undefined;
+  const round2 = (value: number) => Number(value.toFixed(2));
+  return {
+    ...(hours > 0 ? { laborHours: round2(hours / ncCount) } : {}),
+    ...(hours > 0 && laborRate !== null ? { laborRate } : {}),
+    ...(parts > 0 ? { parts: round2(parts / ncCount) } : {}),
+  };
+}
+
+/**
+ * Abre uma ordem de serviço para NCs abertas da mesma máquina. Cada NC fica
+ * vinculada à ordem (`workOrderId`) até ela ser concluída ou cancelada.
+ */
+export async function createWorkOrder(
+  db: Firestore,
+  input: WorkOrderCreateInput,
+  actor: RequestActor,
+  now: Date = new Date(),
+): Promise<WorkOrderResult> {
+  const entries = await loadNcs(db, input.ncIds);
+  const ncs: NonConformity[] = [];
+  for (const entry of entries) {
+    if (!entry.nc) return { ok: false, status: 404, error: "NC não encontrada." };
+    ncs.push(entry.nc);
+  }
+
+  const machineId = ncs[0].linkedAsset?.id;
+  if (!machineId || ncs.some((nc) => nc.linkedAsset?.id !== machineId)) {
+    return { ok: false, status: 400, error: "As NCs da ordem de serviço precisam ser da mesma máquina." };
+  }
+  const merged = ncs.find((nc) => nc.mergedIntoId);
+  if (merged) {
+    return { ok: false, status: 409, error: `A NC "${merged.title}" foi mesclada em ${merged.mergedIntoId}; use a NC principal.` };
+  }
+  const resolved = ncs.find((nc) => nc.status === "resolvida");
+  if (resolved) {
+    return { ok: false, status: 409, error: `A NC "${resolved.title}" já está resolvida.` };
+  }
+  for (const nc of ncs) {
+    if (!nc.workOrderId) continue;
+    const current = await db.collection(WORK_ORDERS_COLLECTION).doc(nc.workOrderId).get();
+    if (current.exists && OPEN_WORK_ORDER_STATUSES.includes(current.data()?.status)) {
+      return { ok: false, status: 409, error: `A NC "${nc.title}" já está em outra ordem de serviço aberta.` };
+    }
+  }
+
+  const mechanics = await loadMechanics(db, input.mechanicIds);
+  if (!mechanics) {
+    return { ok: false, status: 400, error: "Selecione apenas usuários com perfil de mecânico." };
+  }
+
+  const openActions = ncs.flatMap((nc) =>
+    (nc.actions ?? []).filter((action) => action.type === "corretiva" && !action.completedAt),
+  );
+  const taskDescriptions = input.tasks?.length
+    ? input.tasks
+    : openActions.length
+      ? openActions.map((action) => action.description)
+      : ncs.map((nc) => nc.title);
+
+  const createdAt = now.toISOString();
+  const order: Omit<WorkOrder, "id"> = {
+    title: input.title || (ncs.length === 1 ? ncs[0].title : `${ncs[0].linkedAsset.tag}: ${ncs.length} NCs`),
+    description: input.description ?? null,
+    machineId,
+    machineTag: ncs[0].linkedAsset.tag,
+    ncIds: ncs.map((nc) => nc.id),
+    plannedDate: input.plannedDate,
+    mechanics,
+    tasks: taskDescriptions.map((description) => ({ id: randomUUID(), description, done: false })),
+    labor: [],
+    parts: [],
+    status: "planejada",
+    createdAt,
+    createdBy: { id: actor.id, nome: actor.nome },
+    updatedAt: createdAt,
+    startedAt: null,
+    completedAt: null,
+    signOff: null,
+    cancelReason: null,
+  };
+  const ref = await db.collection(WORK_ORDERS_COLLECTION).add(order);
+
+  await Promise.all(
+    entries.map(async ({ ref: ncRef, nc }) => {
+      await ncRef.update({ workOrderId: ref.id, updatedAt: createdAt });
+      const audit: Omit<NcAuditEntry, "id"> = {
+        type: "updated",
+        byUserId: order.createdBy.id,
+        byNome: order.createdBy.nome ?? null,
+        byRole: actor.role,
+        atISO: createdAt,
+        diff: { workOrderId: { before: nc?.workOrderId ?? null, after: ref.id } },
+      };
+      await ncRef.collection("audits").add(audit);
+    }),
+  );
+
+  return { ok: true, data: { id: ref.id, ...order } };
+}
+
+/** Planejamento, apontamentos e peças; `cancelada` libera as NCs para outra ordem. */
+export async function updateWorkOrder(
+  db: Firestore,
+  id: string,
+  input: WorkOrderUpdateInput,
+  now: Date = new Date(),
+): Promise<WorkOrderResult> {
+  const ref = db.collection(WORK_ORDERS_COLLECTION).doc(id);
+  const snap = await ref.get();
+  if (!snap.exists) return { ok: false, status: 404, error: "Ordem de serviço não encontrada." };
+  const existing = mapWorkOrderDoc(snap);
+  if (!OPEN_WORK_ORDER_STATUSES.includes(existing.status)) {
+    return { ok: false, status: 409, error: "Ordem de serviço encerrada não pode ser alterada." };
+  }
+
+  const updates: Record<string, unknown> = { updatedAt: now.toISOString() };
+  if (input.title !== undefined) updates.title = input.title;
+  if (input.description !== undefined) updates.description = input.description ?? null;
+  if (input.plannedDate !== undefined) updates.plannedDate = input.plannedDate;
+
+  let mechanics = existing.mechanics;
+  if (input.mechanicIds) {
+    const loaded = await loadMechanics(db, input.mechanicIds);
+    if (!loaded) return { ok: false, status: 400, error: "Selecione apenas usuários com perfil de mecânico." };
+    mechanics = loaded;
+    updates.mechanics = loaded;
+  }
+  if (input.tasks) {
+    updates.tasks = input.tasks.map((task) => ({ id: task.id ?? randomUUID(), description: task.description, done: task.done }));
+  }
+  if (input.labor) {
+    const mechanicIds = new Set(mechanics.map((mechanic) => mechanic.id));
+    if (input.labor.some((entry) => !mechanicIds.has(entry.mechanicId))) {
+      return { ok: false, status: 400, error: "Aponte horas apenas para mecânicos designados na ordem." };
+    }
+    updates.labor = input.labor.map((entry) => ({
+      id: entry.id ?? randomUUID(),
+      mechanicId: entry.mechanicId,
+      hours: entry.hours,
+      date: entry.date,
+      note: entry.note ?? null,
+    }));
+  }
+  if (input.parts) {
+    updates.parts = input.parts.map((part) => ({
+      id: part.id ?? randomUUID(),
+      partNumber: part.partNumber,
+      description: part.description,
+      quantity: part.quantity,
+      unitCost: part.unitCost ?? null,
+    }));
+  }
+
+  if (input.status && input.status !== existing.status) {
+    updates.status = input.status;
+    if (input.status === "em_execucao" && !existing.startedAt) updates.startedAt = now.toISOString();
+    if (input.status === "cancelada") {
+      if (!input.cancelReason?.trim()) {
+        return { ok: false, status: 400, error: "Informe o motivo do cancelamento." };
+      }
+      updates.cancelReason = input.cancelReason.trim();
+      const entries = await loadNcs(db, existing.ncIds);
+      await Promise.all(
+        entries
+          .filter(({ nc }) => nc?.workOrderId === id)
+          .map(({ ref: ncRef }) => ncRef.update({ workOrderId: null, updatedAt: now.toISOString() })),
+      );
+    }
+  }
+
+  await ref.update(updates);
+  return { ok: true, data: mapWorkOrderDoc(await ref.get()) };
+}
+
+/**
+ * Encerra a ordem com a assinatura de conclusão: conclui as ações corretivas em
+ * aberto das NCs vinculadas e move as NCs para `resolvida`. Horas e peças da
+ * ordem viram o custo da ação que encerra cada NC, com o perfil de quem assina
+ * a conclusão. NCs mescladas ficam de fora; nada é gravado se alguma NC não
+ * puder ser encerrada.
+ */
+export async function completeWorkOrder(
+  db: Firestore,
+  id: string,
+  input: WorkOrderCompleteInput,
+  actor: RequestActor,
+  now: Date = new Date(),
+): Promise<WorkOrderResult> {
+  const ref = db.collection(WORK_ORDERS_COLLECTION).doc(id);
+  const snap = await ref.get();
+  if (!snap.exists) return { ok: false, status: 404, error: "Ordem de serviço não encontrada." };
+  const order = mapWorkOrderDoc(snap);
+  if (!OPEN_WORK_ORDER_STATUSES.includes(order.status)) {
+    return { ok: false, status: 409, error: "Ordem de serviço já encerrada." };
+  }
+
+  const completedAt = now.toISOString();
+  const entries = await loadNcs(db, order.ncIds);
+  const closures: Array<{ ref: (typeof entries)[number]["ref"]; nc: NonConformity; actions: NcAction[] }> = [];
+  for (const { ref: ncRef, nc } of entries) {
+    if (!nc || nc.status === "resolvida" || nc.mergedIntoId) continue;
+    const transition = validateNcTransition(nc.status, "resolvida", actor.role);
+    if (!transition.ok) {
+      return { ok: false, status: transition.status, error: `NC "${nc.title}": ${transition.error}` };
+    }
+    const existingActions = nc.actions ?? [];
+    const actions = existingActions.map((action) =>
+      action.type === "corretiva" && !action.completedAt
+        ? { ...action, startedAt: action.startedAt ?? order.startedAt ?? completedAt, completedAt }
+        : action,
+    );
+    if (!actions.some((action) => action.type === "corretiva")) {
+      actions.push({
+        id: randomUUID(),
+        type: "corretiva",
+        description: `Ordem de serviço: ${order.title}`,
+        startedAt: order.startedAt ?? completedAt,
+        completedAt,
+      });
+    }
+    const closureError = ncClosureError(actions, { recurrent: Boolean(nc.recurrenceOfId), rootCause: nc.rootCause });
+    if (closureError) {
+      return { ok: false, status: 400, error: `NC "${nc.title}": ${closureError}` };
+    }
+    closures.push({ ref: ncRef, nc, actions: actions.map(cleanAction) });
+  }
+
+  const costShare = workOrderCostShare(order, closures.length, resolveLaborRate());
+  if (costShare) {
+    for (const closure of closures) {
+      const closing = closure.actions.find(
+        (action) => action.type === "corretiva" && action.completedAt === completedAt && !action.cost,
+      );
+      if (closing) closing.cost = costShare;
+    }
+  }
+
+  const signer = { id: actor.id, nome: actor.nome ?? input.signOff.nome };
+  for (const { ref: ncRef, nc, actions } of closures) {
+    await ncRef.update({
+      status: "resolvida",
+      actions,
+      waitingPart: null,
+      blockedReason: null,
+      updatedAt: completedAt,
+    });
+    const audit: Omit<NcAuditEntry, "id"> = {
+      type: "resolved",
+      byUserId: signer.id,
+      byNome: signer.nome,
+      byRole: actor.role,
+      atISO: completedAt,
+      transition: { from: nc.status, to: "resolvida", reason: `Ordem de serviço ${id} concluída` },
+      diff: {
+        status: { before: nc.status, after: "resolvida" },
+        actions: { before: nc.actions ?? [], after: actions },
+      },
+    };
+    await ncRef.collection("audits").add(audit);
+    if (nc.linkedAsset?.id) {
+      await releaseMachineForNc(db, { id: nc.id, title: nc.title, machineId: nc.linkedAsset.id }, now).catch((error) => {
+        console.error(`Failed to release machine for NC ${nc.id}`, error);
+      });
+    }
+  }
+
+  await ref.update({
+    status: "concluida",
+    completedAt,
+    startedAt: order.startedAt ?? completedAt,
+    signOff: { ...input.signOff, signedAt: completedAt, byUserId: signer.id },
+    updatedAt: completedAt,
+  });
+  return { ok: true, data: mapWorkOrderDoc(await ref.get()) };
+}
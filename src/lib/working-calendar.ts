@@ -0,0 +1,377 @@
+import type { ChecklistPeriodicityUnit } from "@/types/checklist";
+import type { WorkingCalendar, WorkingShift } from "@/types/working-calendar";
+
+const MS_IN_DAY = 24 * 60 * 60 * 1000;
+const MS_IN_MINUTE = 60 * 1000;
+/** Limite de busca retroativa por períodos úteis (cobre meses inteiros de parada). */
+const MAX_LOOKBACK_DAYS = 400;
+
+export const DEFAULT_CALENDAR_TIMEZONE = "America/Sao_Paulo";
+
+export const ALL_WEEKDAYS: readonly number[] = [0, 1, 2, 3, 4, 5, 6];
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Calendário usado quando o setor não possui configuração: todos os dias, turno único. */
+export const buildDefaultWorkingCalendar = (setor: string): WorkingCalendar => ({
+  id: "",
+  setor,
+  weekdays: [...ALL_WEEKDAYS],
+  shifts: [],
+  holidays: [],
+  timezone: DEFAULT_CALENDAR_TIMEZONE,
+});
+
+export function isValidTimeZone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const isValidShiftTime = (value: string): boolean => TIME_PATTERN.test(value);
+
+export const isValidHoliday = (value: string): boolean =>
+  DATE_PATTERN.test(value) && !Number.isNaN(new Date(`${value}T00:00:00.000Z`).getTime());
+
+function mapShift(raw: unknown): WorkingShift | null {
+  if (!raw || typeof raw !== "object") return null;
+  const shift = raw as Record<string, unknown>;
+  const start = typeof shift.start === "string" ? shift.start.trim() : "";
+  const end = typeof shift.end === "string" ? shift.end.trim() : "";
+  if (!isValidShiftTime(start) || !isValidShiftTime(end)) return null;
+  const name = typeof shift.name === "string" && shift.name.trim() ? shift.name.trim() : `${start}-${end}`;
+  const id = typeof shift.id === "string" && shift.id.trim() ? shift.id.trim() : name;
+  return { id, name, start, end };
+}
+
+/**
+ * Mapeia um documento de `workingCalendars`, descartando turnos e feriados
+ * inválidos. Retorna null quando o documento não identifica o setor.
+ */
+export function normalizeWorkingCalendar(id: string, raw: unknown): WorkingCalendar | null {
+  if (!raw || typeof raw !== "object") return null;
+  const data = raw as Record<string, unknown>;
+  const setor = typeof data.setor === "string" ? data.setor.trim() : "";
+  if (!setor) return null;
+
+  const weekdays = Array.isArray(data.weekdays)
+    ? Array.from(
+        new Set(
+          data.weekdays.filter(
+            (value): value is number => Number.isInteger(value) && value >= 0 && value <= 6,
+          ),
+        ),
+      ).sort((a, b) => a - b)
+    : [...ALL_WEEKDAYS];
+  const shifts = Array.isArray(data.shifts)
+    ? data.shifts.map(mapShift).filter((shift): shift is WorkingShift => Boolean(shift))
+    : [];
+  const holidays = Array.isArray(data.holidays)
+    ? Array.from(
+        new Set(
+          data.holidays.filter((value): value is string => typeof value === "string" && isValidHoliday(value)),
+        ),
+      ).sort()
+    : [];
+  const timezone =
+    typeof data.timezone === "string" && isValidTimeZone(data.timezone)
+      ? data.timezone
+      : DEFAULT_CALENDAR_TIMEZONE;
+
+  const calendar: WorkingCalendar = { id, setor, weekdays, shifts, holidays, timezone };
+  if (typeof data.updatedAt === "string") calendar.updatedAt = data.updatedAt;
+  return calendar;
+}
+
+/* ============================
+   Datas no fuso do calendário
+============================ */
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatterCache.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+function zonedParts(date: Date, timezone: string) {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timezone).formatToParts(date)) {
+    if (part.type !== "literal") parts[part.type] = Number(part.value);
+  }
+  return parts as Record<"year" | "month" | "day" | "hour" | "minute" | "second", number>;
+}
+
+function timeZoneOffsetMs(time: number, timezone: string): number {
+  const parts = zonedParts(new Date(time), timezone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - Math.floor(time / 1000) * 1000;
+}
+
+/** Instante UTC de um dia local (dias desde 1970-01-01) somado a minutos locais. */
+function zonedToUtc(dayNumber: number, minutes: number, timezone: string): number {
+  const guess = dayNumber * MS_IN_DAY + minutes * MS_IN_MINUTE;
+  const offset = timeZoneOffsetMs(guess, timezone);
+  const adjusted = guess - offset;
+  const correctedOffset = timeZoneOffsetMs(adjusted, timezone);
+  return correctedOffset === offset ? adjusted : guess - correctedOffset;
+}
+
+function localDayNumber(time: number, timezone: string): number {
+  const parts = zonedParts(new Date(time), timezone);
+  return Date.UTC(parts.year, parts.month - 1, parts.day) / MS_IN_DAY;
+}
+
+const dayDate = (dayNumber: number) => new Date(dayNumber * MS_IN_DAY);
+const dayKey = (dayNumber: number) => dayDate(dayNumber).toISOString().slice(0, 10);
+const weekdayOf = (dayNumber: number) => dayDate(dayNumber).getUTCDay();
+
+const parseMinutes = (value: string): number => {
+  const [hours, minutes] = value.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+export function isWorkingDay(calendar: WorkingCalendar, dayNumber: number): boolean {
+  return calendar.weekdays.includes(weekdayOf(dayNumber)) && !calendar.holidays.includes(dayKey(dayNumber));
+}
+
+/* ============================
+   Períodos
+============================ */
+
+export type CalendarPeriod = {
+  /** Identificador estável: YYYY-MM-DD, YYYY-MM-DD#turno, YYYY-Www ou YYYY-MM. */
+  key: string;
+  /** Dia local (YYYY-MM-DD) em que o período começa. */
+  day: string;
+  start: string;
+  end: string;
+  shiftName?: string;
+};
+
+type PeriodRange = { key: string; day: number; startMs: number; endMs: number; shiftName?: string };
+
+const toPeriod = (range: PeriodRange): CalendarPeriod => ({
+  key: range.key,
+  day: dayKey(range.day),
+  start: new Date(range.startMs).toISOString(),
+  end: new Date(range.endMs).toISOString(),
+  ...(range.shiftName ? { shiftName: range.shiftName } : {}),
+});
+
+function isoWeekKey(monday: number): string {
+  const thursday = dayDate(monday + 3);
+  const year = thursday.getUTCFullYear();
+  const firstDay = Date.UTC(year, 0, 1) / MS_IN_DAY;
+  const week = Math.floor((monday + 3 - firstDay) / 7) + 1;
+  return `${year}-W${String(week).padStart(2, "0")}`;
+}
+
+/** Semana ISO (YYYY-Www) de um dia no formato YYYY-MM-DD. */
+export function isoWeekKeyForDay(day: string): string {
+  const dayNumber = Date.parse(`${day}T00:00:00.000Z`) / MS_IN_DAY;
+  return isoWeekKey(dayNumber - ((weekdayOf(dayNumber) + 6) % 7));
+}
+
+function hasWorkingDay(calendar: WorkingCalendar, from: number, to: number): boolean {
+  for (let day = from; day < to; day += 1) {
+    if (isWorkingDay(calendar, day)) return true;
+  }
+  return false;
+}
+
+/** Períodos úteis que começam no dia local informado, do mais tardio ao mais cedo. */
+function periodsStartingOn(
+  calendar: WorkingCalendar,
+  unit: ChecklistPeriodicityUnit,
+  day: number,
+): PeriodRange[] {
+  const { timezone } = calendar;
+
+  if (unit === "week") {
+    if (weekdayOf(day) !== 1 || !hasWorkingDay(calendar, day, day + 7)) return [];
+    return [
+      {
+        key: isoWeekKey(day),
+        day,
+        startMs: zonedToUtc(day, 0, timezone),
+        endMs: zonedToUtc(day + 7, 0, timezone),
+      },
+    ];
+  }
+
+  if (unit === "month") {
+    const date = dayDate(day);
+    if (date.getUTCDate() !== 1) return [];
+    const nextMonth = Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1) / MS_IN_DAY;
+    if (!hasWorkingDay(calendar, day, nextMonth)) return [];
+    return [
+      {
+        key: dayKey(day).slice(0, 7),
+        day,
+        startMs: zonedToUtc(day, 0, timezone),
+        endMs: zonedToUtc(nextMonth, 0, timezone),
+      },
+    ];
+  }
+
+  if (!isWorkingDay(calendar, day)) return [];
+  if (!calendar.shifts.length) {
+    return [
+      {
+        key: dayKey(day),
+        day,
+        startMs: zonedToUtc(day, 0, timezone),
+        endMs: zonedToUtc(day + 1, 0, timezone),
+      },
+    ];
+  }
+
+  return calendar.shifts
+    .map((shift) => {
+      const startMinutes = parseMinutes(shift.start);
+      const endMinutes = parseMinutes(shift.end);
+      const endDay = endMinutes <= startMinutes ? day + 1 : day;
+      return {
+        key: `${dayKey(day)}#${shift.id}`,
+        day,
+        startMs: zonedToUtc(day, startMinutes, timezone),
+        endMs: zonedToUtc(endDay, endMinutes, timezone),
+        shiftName: shift.name,
+      } satisfies PeriodRange;
+    })
+    .sort((a, b) => b.startMs - a.startMs);
+}
+
+/**
+ * Períodos úteis iniciados até `reference`, do mais recente ao mais antigo.
+ * A busca para quando `completedCount` períodos encerrados forem encontrados.
+ */
+export function listCalendarPeriods(
+  calendar: WorkingCalendar,
+  unit: ChecklistPeriodicityUnit,
+  reference: Date,
+  completedCount: number,
+): CalendarPeriod[] {
+  const referenceMs = reference.getTime();
+  const referenceDay = localDayNumber(referenceMs, calendar.timezone);
+  const ranges: PeriodRange[] = [];
+  let completed = 0;
+
+  for (let offset = 0; offset <= MAX_LOOKBACK_DAYS && completed < completedCount; offset += 1) {
+    for (const range of periodsStartingOn(calendar, unit, referenceDay - offset)) {
+      if (range.startMs > referenceMs) continue;
+      ranges.push(range);
+      if (range.endMs <= referenceMs) completed += 1;
+    }
+  }
+
+  return ranges.map(toPeriod);
+}
+
+/** Períodos úteis iniciados entre `from` (inclusive) e `to` (exclusive), em ordem cronológica. */
+export function listCalendarPeriodsBetween(
+  calendar: WorkingCalendar,
+  unit: ChecklistPeriodicityUnit,
+  from: Date,
+  to: Date,
+): CalendarPeriod[] {
+  const fromMs = from.getTime();
+  const toMs = to.getTime();
+  const firstDay = localDayNumber(fromMs, calendar.timezone);
+  const lastDay = localDayNumber(toMs, calendar.timezone);
+  const ranges: PeriodRange[] = [];
+  for (let day = firstDay; day <= lastDay; day += 1) {
+    for (const range of periodsStartingOn(calendar, unit, day).reverse()) {
+      if (range.startMs >= fromMs && range.startMs < toMs) ranges.push(range);
+    }
+  }
+  return ranges.map(toPeriod);
+}
+
+/**
+ * Janelas consecutivas de `windowDays` dias, a partir da meia-noite local do dia
+ * de `from`, usadas no histórico da âncora `last_submission`.
+ */
+export function listRollingPeriods(
+  timezone: string,
+  windowDays: number,
+  from: Date,
+  to: Date,
+): CalendarPeriod[] {
+  const step = Math.max(1, Math.floor(windowDays) || 1);
+  const toMs = to.getTime();
+  const periods: CalendarPeriod[] = [];
+  for (let day = localDayNumber(from.getTime(), timezone); ; day += step) {
+    const startMs = zonedToUtc(day, 0, timezone);
+    if (startMs >= toMs) break;
+    periods.push(
+      toPeriod({ key: dayKey(day), day, startMs, endMs: zonedToUtc(day + step, 0, timezone) }),
+    );
+  }
+  return periods;
+}
+
+export type CalendarComplianceEvaluation = {
+  status: "compliant" | "non_compliant";
+  /** Período em andamento na data de referência (null fora do expediente). */
+  currentPeriod: CalendarPeriod | null;
+  /** Período encerrado mais antigo que ainda precisa estar coberto por um envio. */
+  duePeriod: CalendarPeriod | null;
+  submittedInCurrentPeriod: boolean;
+};
+
+/**
+ * Avalia a âncora `calendar`: é exigido ao menos um envio desde o início do
+ * N-ésimo período útil encerrado (dia/turno, semana ISO ou mês do calendário).
+ * Dias não úteis e feriados não geram períodos e, portanto, não contam como falhas.
+ */
+export function evaluateCalendarCompliance(options: {
+  calendar: WorkingCalendar;
+  unit: ChecklistPeriodicityUnit;
+  quantity: number;
+  lastSubmissionAt?: string | null;
+  reference: Date;
+}): CalendarComplianceEvaluation {
+  const { calendar, unit, reference } = options;
+  const quantity = Math.max(1, Math.floor(options.quantity) || 1);
+  const referenceMs = reference.getTime();
+  const periods = listCalendarPeriods(calendar, unit, reference, quantity);
+  const currentPeriod =
+    periods.find((period) => Date.parse(period.start) <= referenceMs && referenceMs < Date.parse(period.end)) ??
+    null;
+  const completed = periods.filter((period) => Date.parse(period.end) <= referenceMs);
+  const duePeriod = completed[Math.min(quantity, completed.length) - 1] ?? null;
+
+  const lastMs = options.lastSubmissionAt ? Date.parse(options.lastSubmissionAt) : Number.NaN;
+  const hasSubmission = !Number.isNaN(lastMs);
+  const submittedInCurrentPeriod =
+    hasSubmission &&
+    currentPeriod !== null &&
+    lastMs >= Date.parse(currentPeriod.start) &&
+    lastMs < Date.parse(currentPeriod.end);
+
+  let status: CalendarComplianceEvaluation["status"] = "compliant";
+  if (duePeriod && !(hasSubmission && lastMs >= Date.parse(duePeriod.start))) {
+    status = "non_compliant";
+  }
+
+  return { status, currentPeriod, duePeriod, submittedInCurrentPeriod };
+}
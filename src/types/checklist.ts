@@ -84,6 +84,24 @@ export interface ChecklistQuestionVariable {
   periodicity?: ChecklistVariablePeriodicity;
 }
 
+export type ChecklistNcSeverity = "baixa" | "media" | "alta";
+
+export type ChecklistSeverityRuleOperator = "gt" | "gte" | "lt" | "lte" | "eq";
+
+/**
+ * Regra aplicada pela Cloud Function ao abrir a NC da pergunta: quando o valor
+ * da variável atende à comparação, a NC nasce com a classificação da regra.
+ * Regras só agravam a classificação padrão da pergunta, nunca a abrandam.
+ */
+export interface ChecklistSeverityRule {
+  operator: ChecklistSeverityRuleOperator;
+  /** Números para comparações; `eq` também aceita texto e booleano. */
+  value: number | string | boolean;
+  severity: ChecklistNcSeverity;
+  safetyRisk?: boolean;
+  impactAvailability?: boolean;
+}
+
 export interface ChecklistQuestion {
   id: string;
   text: string;
@@ -99,6 +117,13 @@ export interface ChecklistQuestion {
    * conforme a condição definida.
    */
   variable?: ChecklistQuestionVariable;
+  /** Classificação padrão da NC aberta pela pergunta (sem valor: média, sem risco). */
+  severity?: ChecklistNcSeverity;
+  safetyRisk?: boolean;
+  impactAvailability?: boolean;
+  /** Sistema da máquina (ex.: Freios, Hidráulico); agrupa KPIs e a busca de recorrência. */
+  systemCategory?: string;
+  severityRules?: ChecklistSeverityRule[];
   /**
    * @deprecated Usado apenas para manter compatibilidade com registros
    *             existentes. Utilize `photoRule`.
@@ -108,11 +133,15 @@ export interface ChecklistQuestion {
 
 export type ChecklistPeriodicityUnit = "day" | "week" | "month";
 
+/** Periodicidade por uso: a cada N horas de horímetro ou N km rodados. */
+export type ChecklistUsagePeriodicityUnit = "hours" | "km";
+
 export type ChecklistPeriodicityAnchor = "last_submission" | "calendar";
 
 export interface ChecklistTemplatePeriodicity {
   quantity: number;
-  unit: ChecklistPeriodicityUnit;
+  unit: ChecklistPeriodicityUnit | ChecklistUsagePeriodicityUnit;
+  /** Janela em dias; 0 para periodicidades por uso. */
   windowDays: number;
   anchor: ChecklistPeriodicityAnchor;
   active: boolean;
@@ -183,7 +212,7 @@ export type NonConformityStatus = "open" | "in_progress" | "resolved";
 export interface ChecklistExtraNonConformity {
   title: string;
   description?: string;
-  severity?: "baixa" | "media" | "alta";
+  severity?: ChecklistNcSeverity;
   safetyRisk?: boolean;
   impactAvailability?: boolean;
 }
@@ -224,6 +253,33 @@ export interface ChecklistResponseSignatures {
   driverUrl?: string | null;
 }
 
+export type ChecklistMeterKind = "km" | "horimetro";
+
+/**
+ * Troca de hodômetro/horímetro registrada junto com o checklist.
+ * `offset` é somado às leituras do medidor novo para manter o uso acumulado contínuo.
+ */
+export interface ChecklistMeterReplacement {
+  kind: ChecklistMeterKind;
+  replacedAt: string;
+  oldFinalValue: number;
+  newInitialValue: number;
+  offset: number;
+}
+
+export type ChecklistReadingFlagCode = "implausible_jump";
+
+/**
+ * Leitura fora do padrão de uso da máquina, confirmada pelo operador no envio.
+ */
+export interface ChecklistReadingFlag {
+  kind: ChecklistMeterKind;
+  code: ChecklistReadingFlagCode;
+  value: number;
+  previousValue: number;
+  maxExpectedDelta: number;
+}
+
 export interface ChecklistResponse {
   id: string;
   machineId: string;
@@ -239,6 +295,10 @@ export interface ChecklistResponse {
   nonConformityTreatments?: ChecklistNonConformityTreatment[];
   extraNonConformities?: ChecklistExtraNonConformity[];
   previousKm?: number | null;
+  /** Deslocamento acumulado por trocas de medidor (leitura acumulada = leitura + offset). */
+  meterOffsets?: Partial<Record<ChecklistMeterKind, number>>;
+  meterReplacements?: ChecklistMeterReplacement[];
+  readingFlags?: ChecklistReadingFlag[];
   headerFrozen?: ChecklistResponseHeaderFrozen;
   actor?: ChecklistResponseActorSnapshot;
   signatures?: ChecklistResponseSignatures;
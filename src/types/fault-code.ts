@@ -0,0 +1,57 @@
+import type { Severity, TelemetryRef } from "./nonconformity";
+
+export type FaultCodeProtocol = "j1939" | "obd2" | "oem";
+
+export const FAULT_CODE_PROTOCOL_LABEL: Record<FaultCodeProtocol, string> = {
+  j1939: "J1939 (SPN/FMI)",
+  obd2: "OBD-II",
+  oem: "Fabricante",
+};
+
+/** Entrada importada do catálogo (`faultCodeCatalog`). */
+export interface FaultCodeCatalogEntry {
+  id: string;
+  protocol: FaultCodeProtocol;
+  /** `SPN:FMI` ou só `SPN` no J1939; código em maiúsculas nos demais. */
+  code: string;
+  /** Fabricante ao qual o código se aplica; ausente vale para todos. */
+  oem?: string | null;
+  component: string;
+  failureMode: string;
+  systemCategory: string;
+  severity: Severity;
+  importedAt?: string;
+}
+
+export type DecodedFaultCodeSource = "catalog" | "builtin" | "generic";
+
+export interface DecodedFaultCode {
+  raw: string;
+  protocol: FaultCodeProtocol;
+  code: string;
+  spn?: number;
+  fmi?: number;
+  component: string;
+  failureMode: string;
+  systemCategory: string;
+  severity: Severity;
+  source: DecodedFaultCodeSource;
+}
+
+export type NcSuggestionStatus = "pending" | "accepted" | "dismissed";
+
+/** NC sugerida a partir de uma falha ativa nova na telemetria (`ncSuggestions`). */
+export interface NcSuggestion {
+  id: string;
+  machineId: string;
+  machineTag?: string | null;
+  status: NcSuggestionStatus;
+  title: string;
+  fault: DecodedFaultCode;
+  telemetry?: TelemetryRef | null;
+  readingAt: string;
+  createdAt: string;
+  ncId?: string | null;
+  resolvedAt?: string | null;
+  resolvedBy?: { id: string; nome?: string | null } | null;
+}
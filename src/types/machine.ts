@@ -35,6 +35,34 @@ export const resolveMachineActorLabel = (
   return MACHINE_PRIMARY_ACTOR_LABEL[resolveMachineFleetType(machine?.fleetType)];
 };
 
+export type MachineStatus = "available" | "restricted" | "down" | "retired";
+
+export const MACHINE_STATUS_LABEL: Record<MachineStatus, string> = {
+  available: "Disponível",
+  restricted: "Restrita",
+  down: "Parada para manutenção",
+  retired: "Desativada",
+};
+
+export const resolveMachineStatus = (status?: MachineStatus | null): MachineStatus => {
+  return status && status in MACHINE_STATUS_LABEL ? status : "available";
+};
+
+export type MachineStatusSource = "manual" | "nc";
+
+/** Intervalo em que a máquina permaneceu em um status; `end` nulo indica o período atual. */
+export interface MachineStatusPeriod {
+  id: string;
+  machineId: string;
+  status: MachineStatus;
+  start: string;
+  end: string | null;
+  reason?: string | null;
+  source: MachineStatusSource;
+  ncId?: string | null;
+  changedBy?: { id: string; nome?: string | null } | null;
+}
+
 export interface Machine {
   id: string;
   modelo: string;
@@ -42,6 +70,16 @@ export interface Machine {
   tag: string;
   setor: string;
   combustivel?: string;
+  /** Número de série do fabricante, usado para casar a máquina com a telemetria AEMP. */
+  serialNumber?: string;
+  /** PIN (Product Identification Number) ISO 10261. */
+  pin?: string;
   checklists: string[];
   fleetType?: MachineFleetType | null;
+  status?: MachineStatus | null;
+  statusSince?: string | null;
+  statusReason?: string | null;
+  statusSource?: MachineStatusSource | null;
+  /** NCs de segurança de severidade alta que mantêm a máquina parada. */
+  downtimeNcIds?: string[];
 }
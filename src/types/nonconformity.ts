@@ -1,3 +1,8 @@
+import type { NcRecurrenceMatch } from "@/types/recurrence";
+import type { NcRootCauseAnalysis } from "@/types/root-cause";
+import type { NcEscalation, SlaEscalationLevel, SlaState } from "@/types/sla";
+import type { UserRole } from "@/types/user";
+
 export type Severity = "baixa" | "media" | "alta";
 
 export type NcStatus =
@@ -17,6 +22,36 @@ export type TelemetryRef = {
   windowEnd?: string;
 };
 
+/** Custos lançados na ação, em R$: mão de obra (horas × valor da hora), peças e serviços de terceiros. */
+export type NcActionCost = {
+  laborHours?: number;
+  laborRate?: number;
+  parts?: number;
+  services?: number;
+  servicesDescription?: string;
+};
+
+export type CapaVerificationStatus = "scheduled" | "proposed" | "confirmed";
+
+export type CapaVerificationEvidence = {
+  /** Respostas da mesma pergunta na mesma máquina após a ação. */
+  inspections: number;
+  failedInspections: Array<{ responseId: string; at: string }>;
+  /** NCs novas da máquina no mesmo `systemCategory`. */
+  relatedNcs: Array<{ id: string; title: string; createdAt: string }>;
+};
+
+/** Verificação de eficácia agendada ao concluir uma ação preventiva. */
+export type CapaVerification = {
+  dueAt: string;
+  status: CapaVerificationStatus;
+  proposal?: "effective" | "not_effective";
+  evidence?: CapaVerificationEvidence;
+  proposedAt?: string;
+  decidedAt?: string;
+  decidedBy?: { id: string; nome?: string | null };
+};
+
 export type NcAction = {
   id: string;
   type: "corretiva" | "preventiva";
@@ -25,8 +60,78 @@ export type NcAction = {
   startedAt?: string;
   completedAt?: string;
   effective?: boolean;
+  cost?: NcActionCost;
+  verification?: CapaVerification;
+};
+
+/** Peça aguardada enquanto a NC está em `aguardando_peca`. */
+export type NcWaitingPart = {
+  partNumber: string;
+  expectedAt: string;
+};
+
+/**
+ * Ocorrência registrada na NC: uma NC mesclada na principal (`ncId`; a
+ * original continua no Firestore com `mergedIntoId`, sem ações próprias) ou
+ * um checklist que relatou de novo o problema enquanto a NC estava aberta.
+ */
+export type NcOccurrence = {
+  /** NC mesclada; ausente quando a ocorrência veio direto de um checklist. */
+  ncId?: string;
+  title: string;
+  description?: string;
+  createdAt: string;
+  createdBy: { id: string; matricula: string; nome?: string };
+  originChecklistResponseId: string;
+  originQuestionId?: string;
+  /** Fotos da resposta de origem. */
+  photoUrls?: string[];
+  /** Leituras do checklist que repetiu a NC. */
+  reading?: { km?: number; horimetro?: number };
+  mergedAt?: string;
 };
 
+/** Identifica a ocorrência dentro da NC: a NC mesclada ou o checklist de origem. */
+export const occurrenceKey = (occurrence: Pick<NcOccurrence, "ncId" | "originChecklistResponseId">): string =>
+  occurrence.ncId ?? occurrence.originChecklistResponseId;
+
+/** Eventos gravados em `nonConformities/{id}/audits`; cada transição de status tem o seu. */
+export type NcAuditEventType =
+  | "updated"
+  | "started"
+  | "waiting_part"
+  | "blocked"
+  | "resumed"
+  | "resolved"
+  | "reopened"
+  | "escalated"
+  | "effectiveness_proposed"
+  | "effectiveness_confirmed"
+  | "merged"
+  | "split";
+
+export type NcAuditEntry = {
+  id: string;
+  type: NcAuditEventType;
+  byUserId: string;
+  byNome?: string | null;
+  byRole?: UserRole | null;
+  atISO: string;
+  transition?: {
+    from: NcStatus;
+    to: NcStatus;
+    reason?: string;
+    partNumber?: string;
+    expectedAt?: string;
+  };
+  diff?: Record<string, { before: unknown; after: unknown }>;
+  /** Evento copiado da NC mesclada. */
+  mergedFromId?: string;
+};
+
+/** Responsável pela tratativa da NC como um todo (as ações têm os seus). */
+export type NcOwner = { id: string; nome?: string };
+
 export type NonConformity = {
   id: string;
   title: string;
@@ -40,14 +145,38 @@ export type NonConformity = {
   createdBy: { id: string; matricula: string; nome?: string };
   linkedAsset: { id: string; tag: string; modelo?: string; tipo?: string; setor?: string };
   linkedTemplateId?: string;
-  source: "checklist_question" | "checklist_extra";
+  source: "checklist_question" | "checklist_extra" | "telemetry";
   originChecklistResponseId: string;
   originQuestionId?: string;
   rootCause?: string;
+  /** 5 porquês e classificação Ishikawa; base dos KPIs de causa raiz. */
+  rootCauseAnalysis?: NcRootCauseAnalysis;
   actions?: NcAction[];
+  owner?: NcOwner;
   recurrenceOfId?: string;
+  /** Por que a NC foi ligada a `recurrenceOfId` e se o vínculo foi revisado. */
+  recurrenceMatch?: NcRecurrenceMatch;
   telemetryRef?: TelemetryRef;
   yearMonth: string;
   severityRank: number;
   systemCategory?: string;
+  /** Código de falha da telemetria que originou a NC (`source: "telemetry"`). */
+  faultCode?: string;
+  waitingPart?: NcWaitingPart;
+  blockedReason?: string;
+  reopenCount?: number;
+  slaState?: SlaState;
+  slaPolicyId?: string;
+  escalationLevel?: SlaEscalationLevel;
+  escalations?: NcEscalation[];
+  /** Ordem de serviço aberta para a NC (`workOrders`). */
+  workOrderId?: string;
+  /** Próxima verificação de eficácia agendada; consultada pelo job de CAPA. */
+  capaVerificationDueAt?: string;
+  /** NCs duplicadas mescladas nesta, cada uma com sua origem e fotos. */
+  occurrences?: NcOccurrence[];
+  /** NC principal em que esta foi mesclada; fica fora das listas e dos KPIs. */
+  mergedIntoId?: string;
+  /** NC de que esta foi separada. */
+  splitFromId?: string;
 };
@@ -0,0 +1,62 @@
+export type NotificationKind = "nc_created" | "nc_assigned" | "nc_due_soon" | "nc_escalated" | "checklist_missed";
+
+export const NOTIFICATION_KIND_LABEL: Record<NotificationKind, string> = {
+  nc_created: "NC de severidade alta ou segurança",
+  nc_assigned: "NC ou ação atribuída",
+  nc_due_soon: "Prazo de NC próximo",
+  nc_escalated: "Escalonamento de SLA",
+  checklist_missed: "Checklist perdido",
+};
+
+/**
+ * Preferência de e-mail (`notificationSubscriptions`). Listas de setores e
+ * máquinas vazias valem para toda a frota.
+ */
+export interface NotificationSubscription {
+  id: string;
+  nome: string;
+  email: string;
+  userId?: string | null;
+  kinds: NotificationKind[];
+  setores: string[];
+  machineIds: string[];
+  active: boolean;
+  updatedAt?: string;
+}
+
+/** Fato a notificar (`notificationEvents`), convertido em envios pelo job de notificações. */
+export interface NotificationEvent {
+  id: string;
+  kind: NotificationKind;
+  refId: string;
+  createdAt: string;
+  processedAt: string | null;
+  payload?: {
+    actionId?: string;
+    ownerId?: string;
+    level?: string;
+    overdueHours?: number;
+    contact?: { id?: string | null; nome: string; email?: string | null } | null;
+  };
+}
+
+export type NotificationDeliveryStatus = "pending" | "sent" | "failed";
+
+/** Registro de envio (`notificationDeliveries`), com as tentativas feitas. */
+export interface NotificationDelivery {
+  id: string;
+  eventId: string;
+  kind: NotificationKind;
+  refId: string;
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  status: NotificationDeliveryStatus;
+  attempts: number;
+  lastError: string | null;
+  transport: string | null;
+  createdAt: string;
+  nextAttemptAt: string | null;
+  sentAt: string | null;
+}
@@ -0,0 +1,58 @@
+/** Item do catálogo de peças (`parts`). */
+export interface Part {
+  id: string;
+  /** Código da peça (part number do fabricante ou do almoxarifado). */
+  code: string;
+  description: string;
+  /** Modelos de máquina compatíveis (`Machine.modelo`); vazio vale para qualquer modelo. */
+  compatibleModels: string[];
+  unitCost?: number | null;
+  active: boolean;
+  updatedAt?: string;
+}
+
+export type PartRequestStatus = "requested" | "ordered" | "received" | "cancelled";
+
+export const PART_REQUEST_STATUS_LABEL: Record<PartRequestStatus, string> = {
+  requested: "Solicitada",
+  ordered: "Pedida",
+  received: "Recebida",
+  cancelled: "Cancelada",
+};
+
+/** Requisição de peça (`partRequests`) vinculada a uma NC e, opcionalmente, à ordem de serviço. */
+export interface PartRequest {
+  id: string;
+  partId?: string | null;
+  partCode: string;
+  description: string;
+  quantity: number;
+  ncId: string;
+  ncTitle: string;
+  workOrderId?: string | null;
+  machineId: string;
+  machineTag: string;
+  status: PartRequestStatus;
+  /** Previsão de entrega (ISO). */
+  expectedAt?: string | null;
+  /** Pedido de compra ou referência do fornecedor. */
+  purchaseOrder?: string | null;
+  requestedAt: string;
+  requestedBy: { id: string; nome?: string | null };
+  orderedAt?: string | null;
+  receivedAt?: string | null;
+  updatedAt?: string;
+}
+
+/** Máquina com requisições de peça em aberto, para o relatório de bloqueios. */
+export interface BlockingPartsEntry {
+  machineId: string;
+  machineTag: string;
+  /** Máquina parada para manutenção (`status = down`). */
+  machineDown: boolean;
+  /** NCs da máquina em `aguardando_peca`. */
+  waitingNcIds: string[];
+  requests: Array<PartRequest & { overdue: boolean; waitingDays: number }>;
+  /** Previsão de entrega mais distante entre as requisições em aberto. */
+  lastExpectedAt: string | null;
+}
@@ -0,0 +1,40 @@
+import type { Severity } from "@/types/nonconformity";
+
+/** Critério que ligou a NC à anterior: mesma pergunta de origem ou texto semelhante. */
+export type RecurrenceRule = "origin_question" | "text_similarity";
+
+export const RECURRENCE_RULE_LABEL: Record<RecurrenceRule, string> = {
+  origin_question: "Mesma pergunta do checklist",
+  text_similarity: "Texto semelhante",
+};
+
+export type RecurrenceMatchStatus = "suggested" | "confirmed" | "unlinked";
+
+export const RECURRENCE_STATUS_LABEL: Record<RecurrenceMatchStatus, string> = {
+  suggested: "Sugerida",
+  confirmed: "Confirmada",
+  unlinked: "Desvinculada",
+};
+
+/**
+ * Vínculo de recorrência gravado pela Cloud Function. Desvincular limpa o
+ * `recurrenceOfId` da NC, mas mantém aqui a NC e o motivo da sugestão.
+ */
+export type NcRecurrenceMatch = {
+  ofId: string;
+  rule?: RecurrenceRule;
+  /** Similaridade de 0 a 1 (1 para a mesma pergunta). */
+  score?: number;
+  status: RecurrenceMatchStatus;
+  decidedAt?: string;
+  decidedBy?: { id: string; nome?: string | null };
+};
+
+/** Configuração do motor de recorrência (`settings/recurrence`). */
+export type RecurrenceSettings = {
+  similarityThreshold: number;
+  windowDays: Record<Severity, number>;
+  /** Checklists seguidos com a NC ainda aberta para subir a severidade um nível. */
+  escalateAfterChecklists: number;
+  updatedAt?: string;
+};
@@ -0,0 +1,36 @@
+/** Categorias do diagrama de Ishikawa (6M). */
+export const ISHIKAWA_CATEGORIES = [
+  "maquina",
+  "metodo",
+  "mao_de_obra",
+  "material",
+  "meio_ambiente",
+  "medicao",
+] as const;
+
+export type IshikawaCategory = (typeof ISHIKAWA_CATEGORIES)[number];
+
+export const ISHIKAWA_CATEGORY_LABEL: Record<IshikawaCategory, string> = {
+  maquina: "Máquina",
+  metodo: "Método",
+  mao_de_obra: "Mão de obra",
+  material: "Material",
+  meio_ambiente: "Meio ambiente",
+  medicao: "Medição",
+};
+
+/** Causa da taxonomia controlada usada nas análises e nos KPIs. */
+export type RootCauseOption = {
+  code: string;
+  label: string;
+  category: IshikawaCategory;
+  /** Termos (sem acento, minúsculos) que classificam textos livres antigos. */
+  keywords: string[];
+};
+
+/** Análise de causa raiz estruturada: cadeia de 5 porquês e classificação Ishikawa. */
+export type NcRootCauseAnalysis = {
+  whys: string[];
+  category: IshikawaCategory;
+  causeCode?: string;
+};
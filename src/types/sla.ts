@@ -0,0 +1,66 @@
+import type { Severity } from "@/types/nonconformity";
+
+export type SlaState = "on_track" | "due_soon" | "overdue";
+
+export const SLA_STATE_LABEL: Record<SlaState, string> = {
+  on_track: "No prazo",
+  due_soon: "Vence em breve",
+  overdue: "Vencida",
+};
+
+/** Níveis de escalonamento, do primeiro ao último: responsável → supervisor → gerente do setor. */
+export type SlaEscalationLevel = "responsible" | "supervisor" | "manager";
+
+export const SLA_ESCALATION_LEVELS: readonly SlaEscalationLevel[] = ["responsible", "supervisor", "manager"];
+
+export const SLA_ESCALATION_LEVEL_LABEL: Record<SlaEscalationLevel, string> = {
+  responsible: "Responsável",
+  supervisor: "Supervisor",
+  manager: "Gerente",
+};
+
+export interface SlaEscalationStep {
+  level: SlaEscalationLevel;
+  /** Horas após o vencimento para acionar o nível. */
+  afterOverdueHours: number;
+}
+
+/**
+ * Política de SLA (`slaPolicies`). Critérios nulos valem para qualquer valor; a
+ * política mais específica (setor > risco de segurança > severidade) prevalece.
+ */
+export interface SlaPolicy {
+  id: string;
+  name: string;
+  severity: Severity | null;
+  safetyRisk: boolean | null;
+  setor: string | null;
+  resolutionHours: number;
+  dueSoonHours: number;
+  escalation: SlaEscalationStep[];
+  updatedAt?: string;
+}
+
+export type SlaContact = {
+  id?: string | null;
+  nome: string;
+  email?: string | null;
+};
+
+/** Supervisor e gerente de um setor (`slaEscalationContacts`); `setor: null` vale para os demais. */
+export interface SetorEscalationContacts {
+  id: string;
+  setor: string | null;
+  supervisor: SlaContact | null;
+  manager: SlaContact | null;
+  updatedAt?: string;
+}
+
+/** Escalonamento registrado no histórico da NC. */
+export type NcEscalation = {
+  level: SlaEscalationLevel;
+  at: string;
+  overdueHours: number;
+  policyId: string;
+  notified: SlaContact | null;
+};
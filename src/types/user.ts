@@ -6,4 +6,6 @@ export interface User {
   nome: string;
   role: UserRole;
   setor?: string;
+  /** Destino das notificações de ações atribuídas. */
+  email?: string;
 }
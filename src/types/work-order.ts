@@ -0,0 +1,55 @@
+export type WorkOrderStatus = "planejada" | "em_execucao" | "concluida" | "cancelada";
+
+export const WORK_ORDER_STATUS_LABEL: Record<WorkOrderStatus, string> = {
+  planejada: "Planejada",
+  em_execucao: "Em execução",
+  concluida: "Concluída",
+  cancelada: "Cancelada",
+};
+
+/** Usuário com perfil `mecanico` designado para a ordem. */
+export type WorkOrderMechanic = { id: string; nome: string; matricula?: string | null };
+
+export type WorkOrderTask = { id: string; description: string; done: boolean };
+
+/** Apontamento de mão de obra de um mecânico. */
+export type WorkOrderLabor = { id: string; mechanicId: string; hours: number; date: string; note?: string | null };
+
+export type WorkOrderPart = {
+  id: string;
+  partNumber: string;
+  description: string;
+  quantity: number;
+  unitCost?: number | null;
+};
+
+export type WorkOrderSignOff = {
+  nome: string;
+  signatureUrl: string;
+  signedAt: string;
+  byUserId: string;
+};
+
+/** Ordem de serviço (`workOrders`) aberta a partir de uma ou mais NCs da mesma máquina. */
+export interface WorkOrder {
+  id: string;
+  title: string;
+  description?: string | null;
+  machineId: string;
+  machineTag: string;
+  ncIds: string[];
+  /** Data planejada (YYYY-MM-DD). */
+  plannedDate: string;
+  mechanics: WorkOrderMechanic[];
+  tasks: WorkOrderTask[];
+  labor: WorkOrderLabor[];
+  parts: WorkOrderPart[];
+  status: WorkOrderStatus;
+  createdAt: string;
+  createdBy: { id: string; nome?: string | null };
+  updatedAt?: string;
+  startedAt?: string | null;
+  completedAt?: string | null;
+  signOff?: WorkOrderSignOff | null;
+  cancelReason?: string | null;
+}
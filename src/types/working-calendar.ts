@@ -0,0 +1,26 @@
+export interface WorkingShift {
+  id: string;
+  name: string;
+  /** Horário local de início no formato HH:mm. */
+  start: string;
+  /** Horário local de término (HH:mm); menor ou igual ao início indica virada de dia. */
+  end: string;
+}
+
+/**
+ * Calendário de trabalho de um setor, usado pela âncora `calendar` da
+ * periodicidade para não contar dias não úteis como falhas.
+ */
+export interface WorkingCalendar {
+  id: string;
+  setor: string;
+  /** Dias da semana trabalhados (0 = domingo ... 6 = sábado). */
+  weekdays: number[];
+  /** Turnos do dia; vazio equivale a um turno único de 24 h. */
+  shifts: WorkingShift[];
+  /** Feriados e paradas no formato YYYY-MM-DD. */
+  holidays: string[];
+  /** Fuso IANA usado para delimitar dias, semanas e meses. */
+  timezone: string;
+  updatedAt?: string;
+}
@@ -3,6 +3,7 @@ import { Timestamp, type OrderByDirection, type WhereFilterOp } from "firebase-a
 import { beforeEach, describe, expect, it, vi } from "vitest";
 
 import { GET } from "@/app/api/nc/route";
+import { buildNcSearchTokens } from "@/lib/nc-search";
 
 class FakeDocSnapshot {
   constructor(private readonly idValue: string, private readonly dataValue: Record<string, unknown>) {}
@@ -39,21 +40,57 @@ class FakeNcQuery {
     private readonly orderByField: string | null = null,
     private readonly orderDirection: OrderByDirection = "desc",
     private readonly limitValue?: number,
+    private readonly startAfterId?: string,
   ) {}
 
   where(field: string, op: WhereFilterOp, value: unknown) {
-    if (op !== "==" && op !== ">=" && op !== "<=") {
+    if (op !== "==" && op !== ">=" && op !== "<=" && op !== "!=" && op !== "array-contains") {
       throw new Error(`Unsupported operator ${op}`);
     }
-    return new FakeNcQuery(this.docs, [...this.filters, { field, op, value }], this.orderByField, this.orderDirection, this.limitValue);
+    return new FakeNcQuery(
+      this.docs,
+      [...this.filters, { field, op, value }],
+      this.orderByField,
+      this.orderDirection,
+      this.limitValue,
+      this.startAfterId,
+    );
   }
 
   orderBy(field: string, direction: OrderByDirection = "desc") {
-    return new FakeNcQuery(this.docs, this.filters, field, direction, this.limitValue);
+    return new FakeNcQuery(this.docs, this.filters, field, direction, this.limitValue, this.startAfterId);
   }
 
   limit(value: number) {
-    return new FakeNcQuery(this.docs, this.filters, this.orderByField, this.orderDirection, value);
+    return new FakeNcQuery(this.docs, this.filters, this.orderByField, this.orderDirection, value, this.startAfterId);
+  }
+
+  startAfter(snapshot: { id: string }) {
+    return new FakeNcQuery(this.docs, this.filters, this.orderByField, this.orderDirection, this.limitValue, snapshot.id);
+  }
+
+  doc(id: string) {
+    const doc = this.docs.find((item) => item.id === id);
+    return {
+      async get() {
+        return { id, exists: Boolean(doc), data: () => doc?.data };
+      },
+    };
+  }
+
+  count() {
+    return {
+      get: async () => {
+        // Desigualdade junto com outros filtros pede um índice composto que não existe.
+        if (this.filters.some((filter) => filter.op === "!=") && this.filters.length > 1) {
+          const error = new Error("The query requires an index");
+          (error as { code?: unknown }).code = "FAILED_PRECONDITION";
+          throw error;
+        }
+        const { docs } = await this.get();
+        return { data: () => ({ count: docs.length }) };
+      },
+    };
   }
 
   async get() {
@@ -72,6 +109,15 @@ class FakeNcQuery {
         if (filter.op === "==") {
           return fieldValue === filter.value;
         }
+        if (filter.op === "!=") {
+          return fieldValue !== undefined && fieldValue !== filter.value;
+        }
+        if (filter.op === "array-contains") {
+          return Array.isArray(fieldValue) && fieldValue.includes(filter.value);
+        }
+        if (typeof fieldValue === "string" && typeof filter.value === "string") {
+          return filter.op === ">=" ? fieldValue >= filter.value : fieldValue <= filter.value;
+        }
         if (!(fieldValue instanceof Timestamp) || !(filter.value instanceof Timestamp)) {
           return false;
         }
@@ -93,18 +139,23 @@ class FakeNcQuery {
         const valueB = getValueByPath(b.data, field);
 
         if (valueA instanceof Timestamp && valueB instanceof Timestamp) {
-          return valueA.toMillis() - valueB.toMillis();
+          return valueA.toMillis() - valueB.toMillis() || a.id.localeCompare(b.id);
         }
 
         const dateA = typeof valueA === "string" ? new Date(valueA).getTime() : 0;
         const dateB = typeof valueB === "string" ? new Date(valueB).getTime() : 0;
-        return dateA - dateB;
+        return dateA - dateB || a.id.localeCompare(b.id);
       });
       if (direction === "desc") {
         results.reverse();
       }
     }
 
+    if (this.startAfterId) {
+      const index = results.findIndex((doc) => doc.id === this.startAfterId);
+      results = results.slice(index + 1);
+    }
+
     if (typeof this.limitValue === "number") {
       results = results.slice(0, this.limitValue);
     }
@@ -167,10 +218,19 @@ const olderDoc: NcDoc = {
 };
 
 function createDb(docs: NcDoc[]) {
+  // Os writers gravam `searchTokens` e `merged` junto com a NC.
+  const indexed = docs.map((doc) => ({
+    ...doc,
+    data: {
+      searchTokens: buildNcSearchTokens(doc.data as Parameters<typeof buildNcSearchTokens>[0]),
+      merged: false,
+      ...doc.data,
+    },
+  }));
   return {
     collection(name: string) {
       if (name === "nonConformities") {
-        return new FakeNcQuery(docs);
+        return new FakeNcQuery(indexed);
       }
       throw new Error(`Unknown collection ${name}`);
     },
@@ -230,4 +290,96 @@ describe("GET /api/nc", () => {
     expect(payload.data[0].id).toBe("nc-1");
     expect(payload.data[1].id).toBe("nc-2");
   });
+
+  it("pages with a cursor and reports an exact total without merged NCs", async () => {
+    const docs = Array.from({ length: 25 }, (_, index): NcDoc => {
+      const createdAt = new Date(Date.UTC(2025, 8, 1 + index)).toISOString();
+      return {
+        id: `nc-${String(index).padStart(2, "0")}`,
+        data: {
+          ...olderDoc.data,
+          status: "aberta",
+          createdAt,
+          createdAtTs: Timestamp.fromDate(new Date(createdAt)),
+          ...(index === 24 ? { mergedIntoId: "nc-00", merged: true } : {}),
+        },
+      };
+    });
+    currentDb = createDb(docs);
+
+    const first = await (await GET(new NextRequest("http://localhost/api/nc?pageSize=10"))).json();
+    expect(first.data.map((record: { id: string }) => record.id)).toEqual(
+      Array.from({ length: 10 }, (_, index) => `nc-${String(23 - index).padStart(2, "0")}`),
+    );
+    expect(first).toMatchObject({ total: 24, totalEstimated: false, hasMore: true, nextCursor: "nc-14" });
+
+    const second = await (await GET(new NextRequest(`http://localhost/api/nc?pageSize=10&cursor=${first.nextCursor}`))).json();
+    expect(second.data[0].id).toBe("nc-13");
+    const third = await (await GET(new NextRequest(`http://localhost/api/nc?pageSize=10&cursor=${second.nextCursor}`))).json();
+    expect(third.data.map((record: { id: string }) => record.id)).toEqual(["nc-03", "nc-02", "nc-01", "nc-00"]);
+    expect(third).toMatchObject({ hasMore: false, nextCursor: null });
+
+    const legacyPage = await (await GET(new NextRequest("http://localhost/api/nc?pageSize=10&page=2"))).json();
+    expect(legacyPage.data.map((record: { id: string }) => record.id)).toEqual(
+      second.data.map((record: { id: string }) => record.id),
+    );
+
+    const invalid = await GET(new NextRequest("http://localhost/api/nc?cursor=nao-existe"));
+    expect(invalid.status).toBe(400);
+  });
+
+  it("counts the filtered total exactly without merged NCs", async () => {
+    const docs = Array.from({ length: 30 }, (_, index): NcDoc => {
+      const createdAt = new Date(Date.UTC(2025, 8, 1 + index)).toISOString();
+      return {
+        id: `nc-${String(index).padStart(2, "0")}`,
+        data: {
+          ...baseDoc.data,
+          status: index % 3 === 0 ? "resolvida" : "aberta",
+          createdAt,
+          createdAtTs: Timestamp.fromDate(new Date(createdAt)),
+          ...(index === 10 ? { mergedIntoId: "nc-01", merged: true } : {}),
+        },
+      };
+    });
+    currentDb = createDb(docs);
+
+    const payload = await (
+      await GET(
+        new NextRequest("http://localhost/api/nc?pageSize=10&status=aberta&assetId=asset-1&dateFrom=2025-09-02&q=sensor"),
+      )
+    ).json();
+
+    expect(payload.data).toHaveLength(10);
+    expect(payload.data[0].id).toBe("nc-29");
+    expect(payload).toMatchObject({ total: 19, totalEstimated: false, hasMore: true });
+  });
+
+  it("searches the token index ignoring accents and word endings", async () => {
+    const single = await (await GET(new NextRequest("http://localhost/api/nc?q=TRANSMISSAO"))).json();
+    expect(single.data.map((record: { id: string }) => record.id)).toEqual(["nc-2"]);
+    expect(single.totalEstimated).toBe(false);
+
+    const operator = await (await GET(new NextRequest("http://localhost/api/nc?q=marc"))).json();
+    expect(operator.data.map((record: { id: string }) => record.id)).toEqual(["nc-1"]);
+
+    const multi = await (await GET(new NextRequest("http://localhost/api/nc?q=ruido%20engren"))).json();
+    expect(multi).toMatchObject({ total: 1, totalEstimated: true });
+    expect(multi.data[0].id).toBe("nc-2");
+
+    const none = await (await GET(new NextRequest("http://localhost/api/nc?q=sensor%20engrenagem"))).json();
+    expect(none.data).toHaveLength(0);
+  });
+});
+
+describe("buildNcSearchTokens", () => {
+  it("indexes normalized words and their prefixes", () => {
+    const tokens = buildNcSearchTokens({
+      title: "Vazamento",
+      linkedAsset: { tag: "ESC-01" },
+      createdBy: { nome: "João", matricula: "7" },
+    });
+    expect(tokens).toEqual(expect.arrayContaining(["va", "vaza", "vazamento", "esc", "01", "jo", "joao"]));
+    expect(tokens).not.toContain("7");
+  });
 });
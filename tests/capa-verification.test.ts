@@ -0,0 +1,168 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/machine-status", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/machine-status")>()),
+  markMachineDownForNc: vi.fn(async () => ({ changed: true })),
+}));
+
+import {
+  confirmCapaVerification,
+  evaluateCapaEvidence,
+  nextCapaVerificationDueAt,
+  preserveCapaVerifications,
+  proposeEffectiveness,
+  runCapaVerification,
+  scheduleCapaVerifications,
+} from "@/lib/capa-verification";
+import { markMachineDownForNc } from "@/lib/machine-status";
+import { ncClosureError } from "@/lib/nc-workflow";
+import type { NcAction } from "@/types/nonconformity";
+import { createDb, type Store } from "./helpers/firestore";
+
+const preventive = (overrides: Partial<NcAction> = {}): NcAction => ({
+  id: "p1",
+  type: "preventiva",
+  description: "Incluir engraxamento no plano",
+  completedAt: "2025-01-10T00:00:00.000Z",
+  ...overrides,
+});
+
+const nc = (overrides: Record<string, unknown> = {}) => ({
+  title: "Pino da caçamba sem graxa",
+  severity: "alta",
+  status: "resolvida",
+  createdAt: "2025-01-01T00:00:00.000Z",
+  createdBy: { id: "op", matricula: "1" },
+  linkedAsset: { id: "m1", tag: "EXC-01" },
+  source: "checklist_question",
+  originChecklistResponseId: "r0",
+  originQuestionId: "q-graxa",
+  systemCategory: "Lubrificação",
+  actions: [
+    { id: "c1", type: "corretiva", description: "Engraxar", completedAt: "2025-01-02T00:00:00.000Z" },
+    preventive({ verification: { dueAt: "2025-02-09T00:00:00.000Z", status: "scheduled" } }),
+  ],
+  capaVerificationDueAt: "2025-02-09T00:00:00.000Z",
+  ...overrides,
+});
+
+describe("capa verification scheduling", () => {
+  it("schedules completed preventive actions and keeps server-owned verification on edits", () => {
+    const scheduled = scheduleCapaVerifications(
+      [preventive(), preventive({ id: "p2", completedAt: undefined }), { id: "c1", type: "corretiva", description: "X" }],
+      30,
+    );
+    expect(scheduled[0].verification).toEqual({ dueAt: "2025-02-09T00:00:00.000Z", status: "scheduled" });
+    expect(scheduled[1].verification).toBeUndefined();
+    expect(nextCapaVerificationDueAt(scheduled)).toBe("2025-02-09T00:00:00.000Z");
+
+    const stored = preventive({ effective: false, verification: { dueAt: "2025-02-09T00:00:00.000Z", status: "confirmed" } });
+    const [kept] = preserveCapaVerifications([preventive({ effective: true })], [stored]);
+    expect(kept).toMatchObject({ effective: false, verification: { status: "confirmed" } });
+    const [cleared] = preserveCapaVerifications([preventive({ completedAt: undefined })], [stored]);
+    expect(cleared.verification).toBeUndefined();
+  });
+
+  it("requires a new preventive action once the previous one was judged not effective", () => {
+    const corrective: NcAction = { id: "c1", type: "corretiva", description: "X", completedAt: "2025-01-02T00:00:00.000Z" };
+    expect(ncClosureError([corrective, preventive()], { recurrent: true, rootCause: "Lubrificação" })).toBeNull();
+    expect(ncClosureError([corrective, preventive({ effective: false })], { recurrent: false, rootCause: "Lubrificação" })).toBe(
+      "A ação preventiva anterior não foi eficaz. Conclua uma nova ação preventiva para encerrar a NC.",
+    );
+    expect(
+      ncClosureError([corrective, preventive({ effective: false }), preventive({ id: "p2" })], {
+        recurrent: false,
+        rootCause: "Lubrificação",
+      }),
+    ).toBeNull();
+  });
+});
+
+describe("capa verification evidence", () => {
+  it("counts answers to the origin question and new NCs of the same system within the window", () => {
+    const action = preventive({ verification: { dueAt: "2025-02-09T00:00:00.000Z", status: "scheduled" } });
+    const evidence = evaluateCapaEvidence(
+      { id: "nc1", originQuestionId: "q-graxa", systemCategory: "Lubrificação" },
+      action,
+      [
+        { id: "r1", at: "2025-01-05T00:00:00.000Z", answers: [{ questionId: "q-graxa", response: "nc" }] },
+        { id: "r2", at: "2025-01-15T00:00:00.000Z", answers: [{ questionId: "q-graxa", response: "ok" }] },
+        { id: "r3", at: "2025-01-20T00:00:00.000Z", answers: [{ questionId: "q-graxa", response: "na" }] },
+        { id: "r4", at: "2025-01-25T00:00:00.000Z", answers: [{ questionId: "q-graxa", response: "nc" }] },
+      ],
+      [
+        { id: "nc1", title: "Origem", createdAt: "2025-01-01T00:00:00.000Z", systemCategory: "Lubrificação" },
+        { id: "nc2", title: "Motor", createdAt: "2025-01-20T00:00:00.000Z", systemCategory: "Motor" },
+        { id: "nc3", title: "Graxa de novo", createdAt: "2025-02-01T00:00:00.000Z", systemCategory: "Lubrificação" },
+      ],
+    );
+
+    expect(evidence).toEqual({
+      inspections: 2,
+      failedInspections: [{ responseId: "r4", at: "2025-01-25T00:00:00.000Z" }],
+      relatedNcs: [{ id: "nc3", title: "Graxa de novo", createdAt: "2025-02-01T00:00:00.000Z" }],
+    });
+    expect(proposeEffectiveness(evidence)).toBe("not_effective");
+    expect(proposeEffectiveness({ inspections: 3, failedInspections: [], relatedNcs: [] })).toBe("effective");
+  });
+});
+
+describe("capa verification job", () => {
+  it("proposes effectiveness at the due date and reopens the NC when confirmed not effective", async () => {
+    const store: Store = {
+      nonConformities: { nc1: nc({ safetyRisk: true }) },
+      checklistResponses: {
+        r1: { machineId: "m1", createdAt: "2025-01-20T00:00:00.000Z", answers: [{ questionId: "q-graxa", response: "nc" }] },
+      },
+    };
+    const db = createDb(store) as never;
+
+    expect(await runCapaVerification({ db, now: new Date("2025-02-01T00:00:00.000Z") })).toEqual({ scanned: 0, proposed: [] });
+
+    const dueAt = new Date("2025-02-09T06:00:00.000Z");
+    const run = await runCapaVerification({ db, now: dueAt });
+    expect(run.proposed).toEqual([{ ncId: "nc1", actionId: "p1", proposal: "not_effective" }]);
+    const [, proposed] = store.nonConformities.nc1.actions as NcAction[];
+    expect(proposed.verification).toMatchObject({
+      status: "proposed",
+      proposal: "not_effective",
+      proposedAt: dueAt.toISOString(),
+      evidence: { inspections: 1, failedInspections: [{ responseId: "r1" }] },
+    });
+    expect(store.nonConformities.nc1.capaVerificationDueAt).toBeNull();
+    expect(Object.values(store["nonConformities/nc1/audits"])).toEqual([
+      expect.objectContaining({ type: "effectiveness_proposed", byUserId: "system" }),
+    ]);
+
+    const admin = { id: "adm", nome: "Ana", role: "admin" } as const;
+    const mechanic = { id: "mec1", nome: "Carlos", role: "mecanico" } as const;
+    const decidedAt = new Date("2025-02-10T00:00:00.000Z");
+    const notEffective = { actionId: "p1", effective: false, justification: "Lubrificação segue falhando" };
+    expect(await confirmCapaVerification(db, "nc1", notEffective, mechanic, decidedAt)).toMatchObject({
+      ok: false,
+      status: 403,
+    });
+    expect(
+      await confirmCapaVerification(db, "nc1", { actionId: "p1", effective: false }, admin, decidedAt),
+    ).toMatchObject({ ok: false, status: 400, error: "Informe a justificativa da reabertura." });
+    expect(store.nonConformities.nc1.status).toBe("resolvida");
+
+    const result = await confirmCapaVerification(db, "nc1", notEffective, admin, decidedAt);
+    expect(result).toMatchObject({ ok: true, reopened: true, data: { status: "aberta", reopenCount: 1 } });
+    expect((store.nonConformities.nc1.actions as NcAction[])[1]).toMatchObject({
+      effective: false,
+      verification: { status: "confirmed", decidedBy: { id: "adm", nome: "Ana" } },
+    });
+    expect(Object.values(store["nonConformities/nc1/audits"]).at(-1)).toMatchObject({
+      type: "reopened",
+      byRole: "admin",
+      transition: { from: "resolvida", to: "aberta", reason: "Ação preventiva não eficaz: Lubrificação segue falhando" },
+    });
+    expect(markMachineDownForNc).toHaveBeenCalledTimes(1);
+
+    expect(await confirmCapaVerification(db, "nc1", { actionId: "p1", effective: true }, admin)).toMatchObject({
+      ok: false,
+      status: 409,
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+
+import { actionCostBreakdown, buildCostReport, deriveCostEntries, resolveLaborRate } from "@/lib/kpis/costs";
+
+describe("maintenance cost kpis", () => {
+  it("prices labour, parts and services, ignoring invalid values", () => {
+    expect(actionCostBreakdown({ laborHours: 2.5, laborRate: 80, parts: 310.4, services: 150 })).toEqual({
+      labor: 200,
+      parts: 310.4,
+      services: 150,
+      total: 660.4,
+    });
+    expect(actionCostBreakdown({ laborHours: 3, parts: -10 })).toEqual({ labor: 0, parts: 0, services: 0, total: 0 });
+    expect(resolveLaborRate({ MAINTENANCE_LABOR_RATE: "95.5" })).toBe(95.5);
+    expect(resolveLaborRate({ MAINTENANCE_LABOR_RATE: "abc" })).toBeNull();
+    expect(resolveLaborRate({})).toBeNull();
+  });
+
+  it("aggregates costs per machine, model, sector, system and month with cost per hour and km", () => {
+    const entries = deriveCostEntries([
+      {
+        id: "nc-1",
+        createdAt: "2024-01-05T00:00:00.000Z",
+        systemCategory: "Hidráulico",
+        linkedAsset: { id: "m1" },
+        actions: [
+          {
+            id: "a1",
+            type: "corretiva",
+            description: "Troca de mangueira",
+            completedAt: "2024-01-06T00:00:00.000Z",
+            cost: { laborHours: 4, laborRate: 100, parts: 600 },
+          },
+          { id: "a2", type: "preventiva", description: "Inspeção" },
+        ],
+      },
+      {
+        id: "nc-2",
+        createdAt: "2024-02-10T00:00:00.000Z",
+        linkedAsset: { id: "m2" },
+        actions: [{ id: "a3", type: "corretiva", description: "Retífica", cost: { services: 500 } }],
+      },
+    ]);
+
+    expect(entries).toHaveLength(2);
+    expect(entries[1]).toMatchObject({ system: "Não classificado", at: "2024-02-10T00:00:00.000Z", total: 500 });
+
+    const report = buildCostReport({
+      machines: [
+        { id: "m1", tag: "EXC-01", modelo: "PC200", setor: "Mina" },
+        { id: "m2", tag: "CAM-02", modelo: "FH540" },
+      ],
+      entries,
+      hourReadings: [
+        { machineId: "m1", at: "2024-01-01T00:00:00.000Z", hours: 1000 },
+        { machineId: "m1", at: "2024-01-31T00:00:00.000Z", hours: 1200 },
+      ],
+      kmReadings: [
+        { machineId: "m2", at: "2024-02-01T00:00:00.000Z", km: 50000 },
+        { machineId: "m2", at: "2024-02-28T00:00:00.000Z", km: 55000 },
+      ],
+    });
+
+    expect(report.fleet).toMatchObject({ total: 1500, labor: 400, parts: 600, services: 500, ncs: 2 });
+    expect(report.byMachine[0]).toMatchObject({ tag: "EXC-01", total: 1000, operatingHours: 200, costPerHour: 5 });
+    expect(report.byMachine[1]).toMatchObject({ tag: "CAM-02", total: 500, kmDriven: 5000, costPerKm: 0.1, costPerHour: null });
+    expect(report.byModel.map((row) => row.modelo)).toEqual(["PC200", "FH540"]);
+    expect(report.bySetor.map((row) => [row.setor, row.total])).toEqual([
+      ["Mina", 1000],
+      ["Sem setor", 500],
+    ]);
+    expect(report.bySystem.map((row) => row.system)).toEqual(["Hidráulico", "Não classificado"]);
+    expect(report.byMonth.map((row) => [row.month, row.total])).toEqual([
+      ["2024-01", 1000],
+      ["2024-02", 500],
+    ]);
+  });
+});
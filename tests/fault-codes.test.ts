@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+
+import { decodeFaultCode, parseFaultCode, parseFaultCodeCsv, resolveSystemCategory } from "@/lib/fault-codes";
+import { findNewActiveFaults, hasMatchingOpenNc } from "@/lib/nc-suggestions";
+import type { FaultCodeCatalogEntry } from "@/types/fault-code";
+
+const catalogEntry = (overrides: Partial<FaultCodeCatalogEntry>): FaultCodeCatalogEntry => ({
+  id: "entry",
+  protocol: "oem",
+  code: "E123",
+  oem: null,
+  component: "Componente",
+  failureMode: "Falha",
+  systemCategory: "Hidráulico",
+  severity: "media",
+  ...overrides,
+});
+
+describe("fault code decoding", () => {
+  it("recognises J1939, OBD-II and OEM codes", () => {
+    expect(parseFaultCode("SPN 100 FMI 1")).toMatchObject({ protocol: "j1939", code: "100:1", spn: 100, fmi: 1 });
+    expect(parseFaultCode("110-16")).toMatchObject({ protocol: "j1939", code: "110:16" });
+    expect(parseFaultCode("p0300")).toMatchObject({ protocol: "obd2", code: "P0300" });
+    expect(parseFaultCode("E123")).toMatchObject({ protocol: "oem", code: "E123" });
+  });
+
+  it("decodes built-in tables and escalates critical SPNs", () => {
+    expect(decodeFaultCode("100:1")).toMatchObject({
+      component: "Pressão do óleo do motor",
+      systemCategory: "Motor",
+      severity: "alta",
+      source: "builtin",
+    });
+    expect(decodeFaultCode("110:2").severity).toBe("media");
+    expect(decodeFaultCode("P0217")).toMatchObject({ systemCategory: "Arrefecimento", severity: "alta" });
+    expect(decodeFaultCode("P0171")).toMatchObject({ source: "generic", failureMode: "Código genérico SAE" });
+    expect(decodeFaultCode("E123")).toMatchObject({ failureMode: "Não catalogado", source: "generic" });
+  });
+
+  it("prefers OEM catalog entries and combines SPN-only entries with the FMI", () => {
+    const catalog = [
+      catalogEntry({ id: "generic", component: "Genérico" }),
+      catalogEntry({ id: "cat", oem: "CAT", component: "Bomba hidráulica principal", severity: "alta" }),
+      catalogEntry({ id: "spn", protocol: "j1939", code: "5000", component: "Sensor do implemento", severity: "baixa" }),
+    ];
+
+    expect(decodeFaultCode("E123", catalog, "cat")).toMatchObject({
+      component: "Bomba hidráulica principal",
+      severity: "alta",
+      source: "catalog",
+    });
+    expect(decodeFaultCode("E123", catalog, "Volvo").component).toBe("Genérico");
+    expect(decodeFaultCode("5000:0", catalog)).toMatchObject({
+      component: "Sensor do implemento",
+      failureMode: "Dado válido, acima da faixa normal (nível mais severo)",
+      severity: "alta",
+    });
+  });
+
+  it("parses CSV imports and reports invalid lines", () => {
+    const { rows, errors } = parseFaultCodeCsv(
+      ["code;component;failureMode;systemCategory;severity", "E123;Bomba;Sobrecarga;Hidráulico;Média", "E9;;x;y;alta", "E10,Válvula,Travada,Hidráulico,grave"].join("\n"),
+    );
+
+    expect(rows).toEqual([
+      { code: "E123", component: "Bomba", failureMode: "Sobrecarga", systemCategory: "Hidráulico", severity: "media" },
+    ]);
+    expect(errors).toEqual(["Linha 3: informe código e componente", "Linha 4: severidade inválida (grave)"]);
+  });
+
+  it("maps decoded systems onto the checklist vocabulary", () => {
+    expect(resolveSystemCategory("Freios", ["Sistema de Freios", "Motor"])).toBe("Sistema de Freios");
+    expect(resolveSystemCategory("motor", ["Motor"])).toBe("Motor");
+    expect(resolveSystemCategory("Arrefecimento", ["Motor"])).toBe("Arrefecimento");
+  });
+});
+
+describe("NC suggestions", () => {
+  it("only treats codes absent from the previous reading as new", () => {
+    expect(findNewActiveFaults(["SPN 100 FMI 1"], ["100:1", "P0300", "p0300"])).toEqual(["P0300"]);
+    expect(findNewActiveFaults(undefined, ["E123"])).toEqual(["E123"]);
+  });
+
+  it("skips faults already covered by an open NC", () => {
+    const fault = decodeFaultCode("100:1");
+
+    expect(hasMatchingOpenNc(fault, [{ status: "aberta", systemCategory: "Motor" }])).toBe(true);
+    expect(hasMatchingOpenNc(fault, [{ status: "aberta", faultCode: "SPN 100 FMI 1" }])).toBe(true);
+    expect(hasMatchingOpenNc(fault, [{ status: "aberta", telemetryRef: { faultCodes: ["100-1"] } }])).toBe(true);
+    expect(hasMatchingOpenNc(fault, [{ status: "resolvida", systemCategory: "Motor" }])).toBe(false);
+    expect(hasMatchingOpenNc(fault, [{ status: "aberta", systemCategory: "Freios" }])).toBe(false);
+  });
+});
@@ -1,10 +1,12 @@
 import { describe, expect, it } from "vitest";
 import {
   mapChecklistResponseToDocs,
+  mapRepeatedOccurrences,
   type ChecklistResponseDoc,
   type MachineDoc,
   type TemplateQuestion,
   type ExistingNcInfo,
+  type OpenNcInfo,
 } from "../functions/src/mappers";
 
 const response: ChecklistResponseDoc = {
@@ -68,4 +70,204 @@ describe("mapChecklistResponseToDocs", () => {
     expect(fromExtra.severity).toBe("baixa");
     expect(fromExtra.linkedAsset.tag).toBe("TAG-99");
   });
+
+  it("applies the most specific configured SLA policy to the due date", () => {
+    const docs = mapChecklistResponseToDocs({
+      responseId: "resp-123",
+      response,
+      machine,
+      templateQuestions: questions,
+      recent: [],
+      telemetry: undefined,
+      createdAtISO: "2024-03-10T08:00:00.000Z",
+      slaPolicies: [
+        { id: "all-baixa", severity: "baixa", resolutionHours: 72 },
+        { id: "operacao-baixa", severity: "baixa", setor: "operacao", resolutionHours: 24 },
+      ],
+    });
+
+    const [fromQuestion, fromExtra] = docs;
+    expect(fromQuestion).toMatchObject({ slaPolicyId: "default-media", dueAt: "2024-03-15T08:00:00.000Z" });
+    expect(fromExtra).toMatchObject({ slaPolicyId: "operacao-baixa", dueAt: "2024-03-11T08:00:00.000Z" });
+  });
+});
+
+describe("question NC classification", () => {
+  const brakes = new Map<string, TemplateQuestion>([
+    [
+      "q-freio",
+      {
+        id: "q-freio",
+        text: "Freio de estacionamento segura a máquina?",
+        systemCategory: "Freios",
+        severity: "alta",
+        safetyRisk: true,
+        impactAvailability: true,
+      },
+    ],
+    [
+      "q-pneu",
+      {
+        id: "q-pneu",
+        text: "Pressão dos pneus (psi)",
+        severity: "baixa",
+        severityRules: [
+          { operator: "lt", value: 80, severity: "media" },
+          { operator: "lt", value: 60, severity: "alta", safetyRisk: true },
+        ],
+      },
+    ],
+    ["q-cabine", { id: "q-cabine", text: "Cabine limpa?" }],
+  ]);
+
+  const classify = (answers: ChecklistResponseDoc["answers"]) =>
+    mapChecklistResponseToDocs({
+      responseId: "resp-400",
+      response: { ...response, answers, extraNonConformities: [] },
+      machine,
+      templateQuestions: brakes,
+      recent: [],
+      createdAtISO: "2024-03-10T08:00:00.000Z",
+    });
+
+  it("uses the question defaults and worsens them with matching rules", () => {
+    const docs = classify([
+      { questionId: "q-freio", response: "nc" },
+      { questionId: "q-pneu", response: "nc", variableValue: 55 },
+      { questionId: "q-cabine", response: "nc" },
+    ]);
+
+    expect(docs.map(({ severity, safetyRisk, impactAvailability, severityRank }) => ({
+      severity,
+      safetyRisk,
+      impactAvailability,
+      severityRank,
+    }))).toEqual([
+      { severity: "alta", safetyRisk: true, impactAvailability: true, severityRank: 3 },
+      { severity: "alta", safetyRisk: true, impactAvailability: false, severityRank: 3 },
+      { severity: "media", safetyRisk: false, impactAvailability: false, severityRank: 2 },
+    ]);
+    expect(docs[0]).toMatchObject({ systemCategory: "Freios", dueAt: "2024-03-12T08:00:00.000Z" });
+  });
+
+  it("keeps the default when no rule matches the value", () => {
+    expect(classify([{ questionId: "q-pneu", response: "nc", variableValue: "85" }])[0].severity).toBe("baixa");
+    expect(classify([{ questionId: "q-pneu", response: "nc", variableValue: "75,5" }])[0].severity).toBe("media");
+    expect(classify([{ questionId: "q-pneu", response: "nc" }])[0].severity).toBe("baixa");
+  });
+});
+
+describe("mapRepeatedOccurrences", () => {
+  const open: OpenNcInfo[] = [
+    {
+      id: "nc-open",
+      originQuestionId: "q1",
+      createdAt: new Date("2024-03-01T08:00:00Z").getTime(),
+      severity: "media",
+      safetyRisk: false,
+      checklistCount: 1,
+    },
+  ];
+  const repeated: ChecklistResponseDoc = {
+    ...response,
+    horimetro: 1520,
+    answers: [
+      {
+        questionId: "q1",
+        response: "nc",
+        observation: "Ruido continua",
+        photoUrls: ["https://img/ruido.jpg"],
+        recurrence: { previousResponseId: "resp-100", status: "still_nc" },
+      },
+    ],
+  };
+
+  it("appends the answer to the open NC instead of creating a duplicate", () => {
+    const options = {
+      responseId: "resp-200",
+      response: repeated,
+      templateQuestions: questions,
+      openNcs: open,
+      createdAtISO: "2024-03-10T08:00:00.000Z",
+    };
+
+    const docs = mapChecklistResponseToDocs({ ...options, machine, recent: [] });
+    expect(docs.map((doc) => doc.source)).toEqual(["checklist_extra"]);
+
+    expect(mapRepeatedOccurrences({ ...options, escalateAfterChecklists: 3 })).toEqual([
+      {
+        ncId: "nc-open",
+        checklistCount: 2,
+        occurrence: {
+          title: "Motor apresenta ruidos?",
+          description: "Ruido continua",
+          createdAt: "2024-03-10T08:00:00.000Z",
+          createdBy: { id: "user-1", matricula: "123", nome: "Operador" },
+          originChecklistResponseId: "resp-200",
+          originQuestionId: "q1",
+          photoUrls: ["https://img/ruido.jpg"],
+          reading: { horimetro: 1520 },
+        },
+      },
+    ]);
+  });
+
+  it("raises the severity once the problem persists for the configured number of checklists", () => {
+    const [update] = mapRepeatedOccurrences({
+      responseId: "resp-300",
+      response: repeated,
+      templateQuestions: questions,
+      openNcs: [{ ...open[0], checklistCount: 2, dueAt: "2024-03-06T08:00:00.000Z" }],
+      createdAtISO: "2024-03-12T08:00:00.000Z",
+      escalateAfterChecklists: 3,
+      machine,
+      slaPolicies: [
+        { id: "alta-geral", severity: "alta", resolutionHours: 48 },
+        { id: "alta-operacao", severity: "alta", setor: "operacao", resolutionHours: 24 },
+      ],
+    });
+
+    expect(update).toMatchObject({
+      checklistCount: 3,
+      raisedSeverity: {
+        before: "media",
+        after: "alta",
+        severityRank: 3,
+        dueAt: "2024-03-02T08:00:00.000Z",
+        dueAtBefore: "2024-03-06T08:00:00.000Z",
+        slaPolicyId: "alta-operacao",
+      },
+    });
+  });
+  it("applies the configured question and variable severity to a repeat", () => {
+    const tyres = new Map<string, TemplateQuestion>([
+      [
+        "q1",
+        {
+          id: "q1",
+          text: "Pressão dos pneus (psi)",
+          severity: "baixa",
+          severityRules: [{ operator: "lt", value: 60, severity: "alta", safetyRisk: true }],
+        },
+      ],
+    ]);
+    const options = {
+      responseId: "resp-500",
+      templateQuestions: tyres,
+      openNcs: open,
+      createdAtISO: "2024-03-12T08:00:00.000Z",
+      escalateAfterChecklists: 3,
+      machine,
+    };
+    const answer = (variableValue: number) => ({
+      ...repeated,
+      answers: [{ questionId: "q1", response: "nc" as const, variableValue }],
+    });
+
+    expect(mapRepeatedOccurrences({ ...options, response: answer(70) })[0].raisedSeverity).toBeUndefined();
+    expect(mapRepeatedOccurrences({ ...options, response: answer(50) })[0]).toMatchObject({
+      checklistCount: 2,
+      raisedSeverity: { before: "media", after: "alta", slaPolicyId: "default-alta" },
+    });
+  });
 });
@@ -0,0 +1,100 @@
+/**
+ * Firestore em memória para os testes: `store[coleção][id]`, com subcoleções
+ * em chaves como `"nonConformities/nc1/audits"`. Cobre só o que as libs usam
+ * (`doc`, `add`, `set`, `update`, `where` com `==`, `in`, `<`, `<=` e `>=` e
+ * `runTransaction`, que aplica as escritas só no fim); `orderBy` e `limit` são
+ * ignorados. Passe o resultado como `as never`.
+ */
+export type Store = Record<string, Record<string, Record<string, unknown>>>;
+
+type Filter = [field: string, op: string, value: unknown];
+
+type WritableRef = {
+  set(data: Record<string, unknown>, options?: { merge?: boolean }): Promise<void>;
+  update(data: Record<string, unknown>): Promise<void>;
+};
+
+const readField = (data: Record<string, unknown>, field: string) =>
+  field.split(".").reduce<unknown>((value, key) => (value as Record<string, unknown> | undefined)?.[key], data);
+
+const matches = (data: Record<string, unknown>, [field, op, value]: Filter) => {
+  const current = readField(data, field) ?? null;
+  if (op === "<") return current !== null && (current as string) < (value as string);
+  if (op === "<=") return current !== null && (current as string) <= (value as string);
+  if (op === ">=") return current !== null && (current as string) >= (value as string);
+  if (op === "in") return (value as unknown[]).includes(current);
+  return current === value;
+};
+
+export function createDb(store: Store) {
+  let sequence = 0;
+  const docs = (name: string) => (store[name] ??= {});
+
+  const docRef = (name: string, id: string) => {
+    const ref = {
+      id,
+      async get() {
+        const data = docs(name)[id];
+        return { id, ref, exists: Boolean(data), data: () => (data ? structuredClone(data) : undefined) };
+      },
+      async set(data: Record<string, unknown>, options?: { merge?: boolean }) {
+        docs(name)[id] = options?.merge ? { ...docs(name)[id], ...structuredClone(data) } : structuredClone(data);
+      },
+      async update(data: Record<string, unknown>) {
+        docs(name)[id] = { ...docs(name)[id], ...structuredClone(data) };
+      },
+      collection: (sub: string) => collectionRef(`${name}/${id}/${sub}`),
+    };
+    return ref;
+  };
+
+  const query = (name: string, filters: Filter[]) => ({
+    where: (field: string, op: string, value: unknown) => query(name, [...filters, [field, op, value]]),
+    orderBy: () => query(name, filters),
+    limit: () => query(name, filters),
+    async get() {
+      const entries = Object.entries(docs(name)).filter(([, data]) => filters.every((filter) => matches(data, filter)));
+      return {
+        empty: !entries.length,
+        size: entries.length,
+        docs: entries.map(([id, data]) => ({ id, ref: docRef(name, id), data: () => structuredClone(data) })),
+      };
+    },
+  });
+
+  const nextId = (name: string) => `${name.split("/").at(-1)}-${++sequence}`;
+
+  const collectionRef = (name: string) => ({
+    ...query(name, []),
+    doc: (id?: string) => docRef(name, id ?? nextId(name)),
+    async add(data: Record<string, unknown>) {
+      const id = nextId(name);
+      docs(name)[id] = structuredClone(data);
+      return docRef(name, id);
+    },
+  });
+
+  async function runTransaction<T>(run: (tx: unknown) => Promise<T>): Promise<T> {
+    const writes: Array<() => Promise<void>> = [];
+    const tx = {
+      get: (target: { get(): Promise<unknown> }) => target.get(),
+      set(ref: WritableRef, data: Record<string, unknown>, options?: { merge?: boolean }) {
+        writes.push(() => ref.set(data, options));
+        return tx;
+      },
+      create(ref: WritableRef, data: Record<string, unknown>) {
+        writes.push(() => ref.set(data));
+        return tx;
+      },
+      update(ref: WritableRef, data: Record<string, unknown>) {
+        writes.push(() => ref.update(data));
+        return tx;
+      },
+    };
+    const result = await run(tx);
+    for (const write of writes) await write();
+    return result;
+  }
+
+  return { collection: collectionRef, runTransaction };
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+
+import { requiresMachineDowntime } from "../functions/src/mappers";
+import { calcFleetAvailability, calcMachineAvailability } from "@/lib/kpis/availability";
+import {
+  markMachineDownForNc,
+  releaseMachineForNc,
+  resolveChecklistAvailabilityGate,
+} from "@/lib/machine-status";
+import { createDb, type Store } from "./helpers/firestore";
+
+describe("machine availability", () => {
+  const from = new Date("2024-01-01T00:00:00.000Z");
+  const to = new Date("2024-01-11T00:00:00.000Z");
+
+  it("splits the range between recorded status periods", () => {
+    const result = calcMachineAvailability(
+      "m1",
+      [
+        { status: "down", start: "2023-12-31T12:00:00.000Z", end: "2024-01-01T12:00:00.000Z" },
+        { status: "restricted", start: "2024-01-05T00:00:00.000Z", end: "2024-01-06T00:00:00.000Z" },
+        { status: "down", start: "2024-01-08T00:00:00.000Z", end: null },
+      ],
+      from,
+      to,
+    );
+
+    expect(result.downHours).toBe(84);
+    expect(result.restrictedHours).toBe(24);
+    expect(result.availableHours).toBe(132);
+    expect(result.downtimeEvents).toBe(1);
+    expect(result.availability).toBe(65);
+  });
+
+  it("excludes retired time and aggregates the fleet", () => {
+    const retired = calcMachineAvailability(
+      "m2",
+      [{ status: "retired", start: "2024-01-06T00:00:00.000Z", end: null }],
+      from,
+      to,
+    );
+    expect(retired.scheduledHours).toBe(120);
+    expect(retired.availability).toBe(100);
+
+    const idle = calcMachineAvailability("m3", [], from, to);
+    const fleet = calcFleetAvailability([retired, idle], ["retired", "available"]);
+    expect(fleet.scheduledHours).toBe(360);
+    expect(fleet.availability).toBe(100);
+    expect(fleet.downNow).toBe(0);
+  });
+
+  it("blocks or warns checklist submissions according to the machine status", () => {
+    expect(resolveChecklistAvailabilityGate("available", "operador")).toBeNull();
+    expect(resolveChecklistAvailabilityGate("down", "operador")?.level).toBe("block");
+    expect(resolveChecklistAvailabilityGate("down", "mecanico")?.level).toBe("warn");
+    expect(resolveChecklistAvailabilityGate("retired", "mecanico")?.level).toBe("block");
+    expect(resolveChecklistAvailabilityGate("restricted")?.level).toBe("warn");
+  });
+
+  it("only treats high-severity safety NCs as downtime in the Cloud Function", () => {
+    expect(requiresMachineDowntime({ severity: "alta", safetyRisk: true })).toBe(true);
+    expect(requiresMachineDowntime({ severity: "alta", safetyRisk: false })).toBe(false);
+    expect(requiresMachineDowntime({ severity: "media", safetyRisk: true })).toBe(false);
+  });
+
+  it("takes the machine down for safety NCs and releases it after the last one is resolved", async () => {
+    const store: Store = { machines: { m1: { modelo: "Escavadeira", status: "available" } } };
+    const db = createDb(store) as never;
+    const first = { id: "nc-1", title: "Freio sem resposta", machineId: "m1" };
+    const second = { id: "nc-2", title: "Cinto danificado", machineId: "m1" };
+
+    await markMachineDownForNc(db, first, new Date("2024-01-02T08:00:00.000Z"));
+    await markMachineDownForNc(db, second, new Date("2024-01-02T09:00:00.000Z"));
+    expect(store.machines.m1).toMatchObject({ status: "down", statusSource: "nc", downtimeNcIds: ["nc-1", "nc-2"] });
+    expect(Object.keys(store.machineStatusPeriods)).toHaveLength(1);
+
+    await releaseMachineForNc(db, first, new Date("2024-01-03T08:00:00.000Z"));
+    expect(store.machines.m1.status).toBe("down");
+
+    await releaseMachineForNc(db, second, new Date("2024-01-03T10:00:00.000Z"));
+    expect(store.machines.m1).toMatchObject({ status: "available", downtimeNcIds: [] });
+    expect(Object.values(store.machineStatusPeriods)).toEqual([
+      expect.objectContaining({ status: "down", start: "2024-01-02T08:00:00.000Z", end: "2024-01-03T10:00:00.000Z" }),
+      expect.objectContaining({ status: "available", start: "2024-01-03T10:00:00.000Z", end: null }),
+    ]);
+  });
+});
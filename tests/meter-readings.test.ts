@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import {
+  appendMeterReading,
+  buildMeterHistory,
+  buildMeterReplacement,
+  computeAverageDailyUsage,
+  cumulativeReading,
+  resolveMeterOffsets,
+  validateMeterReading,
+  type MeterHistoryEntry,
+} from "@/lib/meter-readings";
+
+const history: MeterHistoryEntry[] = [
+  { responseId: "r1", at: "2024-03-01T08:00:00.000Z", value: 1000, offset: 0 },
+  { responseId: "r2", at: "2024-03-11T08:00:00.000Z", value: 1100, offset: 0 },
+  { responseId: "r3", at: "2024-03-21T08:00:00.000Z", value: 1200, offset: 0 },
+];
+
+describe("meter readings", () => {
+  it("estimates the average daily usage from cumulative readings", () => {
+    expect(computeAverageDailyUsage(history)).toBeCloseTo(10, 5);
+    expect(computeAverageDailyUsage(history.slice(0, 1))).toBeNull();
+  });
+
+  it("rejects decreases unless the meter was replaced", () => {
+    const at = new Date("2024-03-22T08:00:00.000Z");
+    const decreased = validateMeterReading({ kind: "horimetro", value: 1190, history, at });
+    expect(decreased.issues.map((issue) => issue.code)).toEqual(["decrease"]);
+
+    const replaced = validateMeterReading({ kind: "horimetro", value: 3, history, at, meterReplaced: true });
+    expect(replaced.issues).toHaveLength(0);
+  });
+
+  it("flags jumps above the usage-based expectation", () => {
+    const at = new Date("2024-03-23T08:00:00.000Z");
+    const plausible = validateMeterReading({ kind: "km", value: 1250, history, at });
+    expect(plausible.issues).toHaveLength(0);
+
+    const typo = validateMeterReading({ kind: "km", value: 12000, history, at });
+    expect(typo.issues.map((issue) => issue.code)).toEqual(["implausible_jump"]);
+    expect(typo.maxExpectedDelta).toBeCloseTo(60, 5);
+  });
+
+  it("never lets the hourmeter advance faster than the elapsed time", () => {
+    const at = new Date("2024-03-22T08:00:00.000Z");
+    const result = validateMeterReading({ kind: "horimetro", value: 1230, history: history.slice(2), at });
+    expect(result.issues.map((issue) => issue.code)).toEqual(["implausible_jump"]);
+  });
+
+  it("keeps cumulative usage continuous across a meter replacement", () => {
+    const replacement = buildMeterReplacement({ kind: "horimetro", oldFinalValue: 1200, newInitialValue: 0 });
+    const offsets = resolveMeterOffsets({ km: 50 }, [replacement]);
+    expect(offsets).toEqual({ km: 50, horimetro: 1200 });
+    expect(cumulativeReading({ horimetro: 15, meterOffsets: offsets }, "horimetro")).toBe(1215);
+  });
+
+  it("carries an older meter reset forward when later responses omit the offsets", () => {
+    const replacement = buildMeterReplacement({ kind: "horimetro", oldFinalValue: 1200, newInitialValue: 0 });
+    const built = buildMeterHistory([
+      { id: "r4", at: "2024-03-04T08:00:00.000Z", data: { horimetro: 40 } },
+      { id: "r3", at: "2024-03-03T08:00:00.000Z", data: { horimetro: 20, meterReplacements: [replacement] } },
+      { id: "r2", at: "2024-03-02T08:00:00.000Z", data: { horimetro: 10, km: 500, meterOffsets: { km: 50 } } },
+      { id: "r1", at: "2024-03-01T08:00:00.000Z", data: { horimetro: 1190 } },
+    ]);
+
+    expect(built.offsets).toEqual({ km: 50, horimetro: 1200 });
+    expect(built.entries.horimetro.map((entry) => [entry.responseId, entry.offset])).toEqual([
+      ["r4", 1200],
+      ["r3", 1200],
+      ["r2", 0],
+      ["r1", 0],
+    ]);
+    expect(built.entries.km[0]).toMatchObject({ responseId: "r2", offset: 50 });
+  });
+
+  it("appends the submitted reading to a cached history", () => {
+    const built = buildMeterHistory([
+      { id: "r1", at: "2024-03-01T08:00:00.000Z", data: { km: 1000, meterOffsets: { km: 50 } } },
+    ]);
+    const next = appendMeterReading(built, {
+      responseId: "outbox-1",
+      at: "2024-03-02T08:00:00.000Z",
+      values: { km: 1100 },
+      offsets: { km: 50 },
+    });
+
+    expect(next.entries.km.map((entry) => entry.responseId)).toEqual(["outbox-1", "r1"]);
+    expect(next.entries.horimetro).toEqual([]);
+    expect(validateMeterReading({ kind: "km", value: 1050, history: next.entries.km }).issues[0]?.code).toBe(
+      "decrease",
+    );
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/machine-status", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/machine-status")>()),
+  markMachineDownForNc: vi.fn(),
+  releaseMachineForNc: vi.fn(),
+}));
+
+import { ncsToCsv } from "@/lib/nc-export";
+import { bulkUpdateNonConformities, ncBulkUpdateSchema } from "@/lib/nc-update";
+import { processNotificationEvents } from "@/lib/notifications";
+import type { NonConformity } from "@/types/nonconformity";
+import { createDb, type Store } from "./helpers/firestore";
+
+const nc = (overrides: Record<string, unknown> = {}) => ({
+  title: "Vazamento no cilindro",
+  severity: "media",
+  status: "aberta",
+  dueAt: "2025-03-20T08:00:00.000Z",
+  createdAt: "2025-03-01T08:00:00.000Z",
+  createdBy: { id: "op1", matricula: "100" },
+  linkedAsset: { id: "m1", tag: "ESC-01" },
+  source: "checklist_question",
+  originChecklistResponseId: "r1",
+  actions: [],
+  ...overrides,
+});
+
+const actor = { id: "mec1", nome: "Carlos", role: "mecanico" } as const;
+
+describe("bulkUpdateNonConformities", () => {
+  it("applies the changes NC by NC and reports each result", async () => {
+    const store: Store = {
+      nonConformities: {
+        nc1: nc(),
+        nc2: nc({ status: "resolvida" }),
+        nc3: nc({ mergedIntoId: "nc1" }),
+      },
+    };
+    const db = createDb(store) as never;
+
+    const results = await bulkUpdateNonConformities(
+      db,
+      {
+        ids: ["nc1", "nc2", "nc3", "nc9", "nc1"],
+        changes: { status: "em_execucao", owner: { id: "u7", nome: "Bruna" } },
+      },
+      actor,
+    );
+
+    expect(results.map(({ id, ok }) => ({ id, ok }))).toEqual([
+      { id: "nc1", ok: true },
+      { id: "nc2", ok: false },
+      { id: "nc3", ok: false },
+      { id: "nc9", ok: false },
+    ]);
+    expect(results.slice(1)).toMatchObject([{ status: 409 }, { status: 409 }, { status: 404 }]);
+    expect(store.nonConformities.nc1).toMatchObject({
+      status: "em_execucao",
+      owner: { id: "u7", nome: "Bruna" },
+      dueAt: "2025-03-20T08:00:00.000Z",
+    });
+    expect(store.nonConformities.nc2.status).toBe("resolvida");
+    expect(Object.values(store["nonConformities/nc1/audits"])).toEqual([
+      expect.objectContaining({
+        type: "started",
+        byUserId: "mec1",
+        diff: expect.objectContaining({ owner: { before: null, after: { id: "u7", nome: "Bruna" } } }),
+      }),
+    ]);
+    expect(store["nonConformities/nc2/audits"]).toBeUndefined();
+  });
+
+  it("authorizes transitions with the verified actor role", async () => {
+    const store: Store = { nonConformities: { nc1: nc() } };
+
+    const [result] = await bulkUpdateNonConformities(
+      createDb(store) as never,
+      { ids: ["nc1"], changes: { status: "resolvida" } },
+      { id: "op1", nome: null, role: "operador" },
+    );
+
+    expect(result).toMatchObject({ ok: false, status: 403 });
+  });
+
+  it("reclassifies severity and changes the due date", async () => {
+    const store: Store = { nonConformities: { nc1: nc(), nc2: nc({ owner: { id: "u1" } }) } };
+
+    const results = await bulkUpdateNonConformities(
+      createDb(store) as never,
+      { ids: ["nc1", "nc2"], changes: { severity: "baixa", dueAt: "2025-03-25T12:00:00.000Z", owner: null } },
+      actor,
+    );
+
+    expect(results.every((result) => result.ok)).toBe(true);
+    expect(store.nonConformities.nc1).toMatchObject({ severity: "baixa", dueAt: "2025-03-25T12:00:00.000Z" });
+    expect(store.nonConformities.nc2.owner).toBeNull();
+  });
+
+  it("notifies the NC owner only where the assignment is new", async () => {
+    const store: Store = {
+      nonConformities: { nc1: nc(), nc2: nc({ owner: { id: "u7", nome: "Bruna" } }) },
+      users: { u7: { nome: "Bruna", email: "bruna@example.com" } },
+    };
+    const db = createDb(store) as never;
+
+    await bulkUpdateNonConformities(db, { ids: ["nc1", "nc2"], changes: { owner: { id: "u7", nome: "Bruna" } } }, actor);
+
+    expect(store.notificationEvents).toEqual({
+      nc_assigned_nc1_u7: expect.objectContaining({ kind: "nc_assigned", refId: "nc1", payload: { ownerId: "u7" } }),
+    });
+    expect(await processNotificationEvents({ db })).toEqual({ processed: 1, queued: 1 });
+    expect(Object.values(store.notificationDeliveries)).toEqual([
+      expect.objectContaining({
+        to: "bruna@example.com",
+        subject: "[NC] Não conformidade atribuída a você: Vazamento no cilindro",
+      }),
+    ]);
+  });
+});
+
+describe("ncBulkUpdateSchema", () => {
+  it("requires at least one change", () => {
+    expect(ncBulkUpdateSchema.safeParse({ ids: ["nc1"], changes: {} }).success).toBe(false);
+    expect(ncBulkUpdateSchema.safeParse({ ids: [], changes: { severity: "alta" } }).success).toBe(false);
+    expect(ncBulkUpdateSchema.safeParse({ ids: ["nc1"], changes: { owner: null } }).success).toBe(true);
+  });
+});
+
+describe("ncsToCsv", () => {
+  it("writes one row per NC and quotes separators", () => {
+    const csv = ncsToCsv([
+      {
+        ...nc({ title: 'Vazamento; "grave"', owner: { id: "u7", nome: "Bruna" } }),
+        id: "nc1",
+        occurrences: [{}],
+      } as unknown as NonConformity,
+    ]);
+
+    const [header, row] = csv.split("\r\n");
+    expect(header.split(";")).toContain("responsavel");
+    expect(row).toBe(
+      'nc1;"Vazamento; ""grave""";ESC-01;;;media;nao;aberta;Bruna;2025-03-01T08:00:00.000Z;2025-03-20T08:00:00.000Z;;2;',
+    );
+  });
+});
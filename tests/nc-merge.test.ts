@@ -0,0 +1,241 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/machine-status", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/machine-status")>()),
+  markMachineDownForNc: vi.fn(async () => ({ changed: true })),
+  releaseMachineForNc: vi.fn(async () => ({ changed: true })),
+}));
+
+import { countOccurrences, countableNcs, calcRecurrenceRate } from "@/lib/kpis/nc";
+import { markMachineDownForNc, releaseMachineForNc } from "@/lib/machine-status";
+import { mergeNonConformities, splitNonConformity } from "@/lib/nc-merge";
+import type { NonConformity } from "@/types/nonconformity";
+import { createDb, type Store } from "./helpers/firestore";
+
+const nc = (overrides: Record<string, unknown> = {}) => ({
+  title: "Vazamento no cilindro",
+  severity: "media",
+  safetyRisk: false,
+  status: "aberta",
+  createdAt: "2025-03-01T08:00:00.000Z",
+  createdBy: { id: "op1", matricula: "100", nome: "João" },
+  linkedAsset: { id: "m1", tag: "ESC-01" },
+  originChecklistResponseId: "r1",
+  originQuestionId: "q1",
+  actions: [],
+  ...overrides,
+});
+
+const at = new Date("2025-03-05T12:00:00.000Z");
+const admin = { id: "adm", nome: "Ana", role: "admin" } as const;
+
+describe("mergeNonConformities", () => {
+  it("turns duplicates into occurrences of the primary NC", async () => {
+    const store: Store = {
+      nonConformities: {
+        nc1: nc({
+          dueAt: "2025-03-08T08:00:00.000Z",
+          actions: [{ id: "a1", type: "corretiva", description: "Trocar vedação" }],
+        }),
+        nc2: nc({
+          title: "Cilindro vazando óleo",
+          severity: "alta",
+          safetyRisk: true,
+          createdAt: "2025-03-03T08:00:00.000Z",
+          dueAt: "2025-03-04T08:00:00.000Z",
+          originChecklistResponseId: "r2",
+          actions: [
+            { id: "a1", type: "corretiva", description: "Trocar vedação" },
+            { id: "a2", type: "contencao", description: "Isolar área" },
+          ],
+        }),
+      },
+      "nonConformities/nc2/audits": { h1: { type: "created", byUserId: "op1", atISO: "2025-03-03T08:00:00.000Z" } },
+      checklistResponses: {
+        r2: { answers: [{ questionId: "q1", response: "nc", photoUrls: ["https://img/1.jpg"] }] },
+      },
+    };
+    const db = createDb(store) as never;
+
+    const result = await mergeNonConformities(
+      db,
+      { primaryId: "nc1", mergedIds: ["nc2"] },
+      admin,
+      at,
+    );
+
+    expect(result).toMatchObject({
+      ok: true,
+      data: {
+        id: "nc1",
+        severity: "alta",
+        safetyRisk: true,
+        dueAt: "2025-03-04T08:00:00.000Z",
+        occurrences: [
+          {
+            ncId: "nc2",
+            title: "Cilindro vazando óleo",
+            originChecklistResponseId: "r2",
+            photoUrls: ["https://img/1.jpg"],
+            mergedAt: at.toISOString(),
+          },
+        ],
+      },
+    });
+    if (!result.ok) throw new Error("merge failed");
+    expect(result.data.actions?.map((action) => action.id)).toEqual(["a1", "a2"]);
+    expect(store.nonConformities.nc2).toMatchObject({ mergedIntoId: "nc1", actions: [], occurrences: [] });
+    expect(Object.values(store["nonConformities/nc1/audits"])).toEqual([
+      expect.objectContaining({ type: "created", mergedFromId: "nc2" }),
+      expect.objectContaining({ type: "merged", byUserId: "adm", byNome: "Ana", byRole: "admin" }),
+    ]);
+    expect(markMachineDownForNc).toHaveBeenCalledWith(db, { id: "nc1", title: "Vazamento no cilindro", machineId: "m1" }, at);
+    expect(releaseMachineForNc).toHaveBeenCalledWith(db, { id: "nc2", title: "Cilindro vazando óleo", machineId: "m1" }, at);
+
+    expect(await mergeNonConformities(db, { primaryId: "nc1", mergedIds: ["nc2"] }, admin, at)).toMatchObject({
+      ok: false,
+      status: 409,
+    });
+  });
+
+  it("refuses a resolved primary without writing anything", async () => {
+    const store: Store = {
+      nonConformities: {
+        nc1: nc({ status: "resolvida" }),
+        nc2: nc({ actions: [{ id: "a2", type: "corretiva", description: "Isolar área" }] }),
+      },
+      "nonConformities/nc2/audits": { h1: { type: "created", byUserId: "op1", atISO: "2025-03-03T08:00:00.000Z" } },
+    };
+    const before = structuredClone(store);
+
+    const result = await mergeNonConformities(createDb(store) as never, { primaryId: "nc1", mergedIds: ["nc2"] }, admin, at);
+
+    expect(result).toMatchObject({
+      ok: false,
+      status: 409,
+      error: "A NC principal está resolvida. Reabra-a antes de mesclar outras NCs nela.",
+    });
+    expect(store).toEqual(before);
+  });
+
+  it("refuses NCs from different machines", async () => {
+    const db = createDb({
+      nonConformities: { nc1: nc(), nc2: nc({ linkedAsset: { id: "m2", tag: "ESC-02" } }) },
+    }) as never;
+
+    expect(await mergeNonConformities(db, { primaryId: "nc1", mergedIds: ["nc2"] }, admin, at)).toMatchObject({
+      ok: false,
+      status: 409,
+      error: "Só é possível mesclar NCs da mesma máquina.",
+    });
+    expect(await mergeNonConformities(db, { primaryId: "nc1", mergedIds: ["nc1"] }, admin, at)).toMatchObject({
+      ok: false,
+      status: 400,
+    });
+  });
+});
+
+describe("splitNonConformity", () => {
+  it("moves the chosen actions and occurrences to a new NC", async () => {
+    const occurrence = {
+      ncId: "nc2",
+      title: "Pneu furado",
+      createdAt: "2025-03-02T08:00:00.000Z",
+      createdBy: { id: "op2", matricula: "200" },
+      originChecklistResponseId: "r2",
+      mergedAt: "2025-03-03T00:00:00.000Z",
+    };
+    const store: Store = {
+      nonConformities: {
+        nc1: nc({
+          actions: [
+            { id: "a1", type: "corretiva", description: "Trocar vedação" },
+            { id: "a2", type: "corretiva", description: "Trocar pneu" },
+          ],
+          occurrences: [occurrence],
+        }),
+        nc2: nc({ title: "Pneu furado", mergedIntoId: "nc1" }),
+      },
+    };
+    const db = createDb(store) as never;
+
+    const result = await splitNonConformity(
+      db,
+      "nc1",
+      { title: "Pneu furado", severity: "baixa", actionIds: ["a2"], occurrenceIds: ["nc2"] },
+      admin,
+      at,
+    );
+
+    expect(result).toMatchObject({
+      ok: true,
+      data: { id: "nc1", occurrences: [] },
+      created: {
+        title: "Pneu furado",
+        severity: "baixa",
+        splitFromId: "nc1",
+        createdAt: "2025-03-02T08:00:00.000Z",
+        originChecklistResponseId: "r2",
+        occurrences: [expect.objectContaining({ ncId: "nc2" })],
+      },
+    });
+    if (!result.ok) throw new Error("split failed");
+    expect(result.data.actions?.map((action) => action.id)).toEqual(["a1"]);
+    expect(result.created.actions?.map((action) => action.id)).toEqual(["a2"]);
+    expect(store.nonConformities.nc2.mergedIntoId).toBe(result.created.id);
+    expect(Object.values(store["nonConformities/nc1/audits"])).toEqual([
+      expect.objectContaining({ type: "split", byUserId: "adm", byRole: "admin" }),
+    ]);
+    expect(store.notificationEvents).toBeUndefined();
+
+    expect(
+      await splitNonConformity(db, "nc1", { title: "Outro", actionIds: ["a9"], occurrenceIds: [] }, admin, at),
+    ).toMatchObject({ ok: false, status: 400 });
+    expect(
+      await splitNonConformity(db, "nc2", { title: "Outro", actionIds: [], occurrenceIds: [] }, admin, at),
+    ).toMatchObject({ ok: false, status: 409 });
+  });
+
+  it("stops the machine and notifies when the new NC is a high-severity safety NC", async () => {
+    const store: Store = {
+      nonConformities: {
+        nc1: nc({ safetyRisk: true, actions: [{ id: "a1", type: "corretiva", description: "Trocar vedação" }] }),
+      },
+    };
+    const db = createDb(store) as never;
+
+    const result = await splitNonConformity(
+      db,
+      "nc1",
+      { title: "Freio sem pressão", severity: "alta", actionIds: ["a1"], occurrenceIds: [] },
+      admin,
+      at,
+    );
+
+    if (!result.ok) throw new Error("split failed");
+    expect(markMachineDownForNc).toHaveBeenCalledWith(
+      db,
+      { id: result.created.id, title: "Freio sem pressão", machineId: "m1" },
+      at,
+    );
+    expect(store.notificationEvents[`nc_created_${result.created.id}`]).toMatchObject({
+      kind: "nc_created",
+      refId: result.created.id,
+    });
+  });
+});
+
+describe("KPIs with merged NCs", () => {
+  it("ignores merged NCs and counts their occurrences on the primary", () => {
+    const records = [
+      { status: "aberta", occurrences: [{ ncId: "b" }, { ncId: "c" }] },
+      { status: "aberta", mergedIntoId: "a", recurrenceOfId: "x" },
+      { status: "aberta", mergedIntoId: "a" },
+      { status: "aberta", recurrenceOfId: "y" },
+    ] as unknown as NonConformity[];
+
+    expect(countableNcs(records)).toHaveLength(2);
+    expect(countOccurrences(records)).toBe(4);
+    expect(calcRecurrenceRate(records)).toBe(50);
+  });
+});
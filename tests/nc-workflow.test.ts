@@ -0,0 +1,157 @@
+import { NextRequest } from "next/server";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { PATCH } from "@/app/api/nc/[id]/route";
+import { allowedNcTransitions, validateNcTransition } from "@/lib/nc-workflow";
+import { createDb, type Store } from "./helpers/firestore";
+
+let currentDb: unknown;
+
+vi.mock("@/lib/firebase-admin", () => ({
+  getAdminDb: () => currentDb,
+  // O token de teste é o próprio uid; "expired" simula um token rejeitado.
+  getAdminAuth: () => ({
+    verifyIdToken: async (token: string) => {
+      if (token === "expired") throw new Error("auth/id-token-expired");
+      return { uid: token };
+    },
+  }),
+}));
+
+vi.mock("@/lib/machine-status", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/machine-status")>()),
+  markMachineDownForNc: vi.fn(),
+  releaseMachineForNc: vi.fn(),
+}));
+
+/** Grava a NC "nc-1" e os usuários no Firestore em memória usado pela rota. */
+function seed(nc: Record<string, unknown>, users: Store[string] = {}): Store {
+  const store: Store = { nonConformities: { "nc-1": nc }, users };
+  currentDb = createDb(store);
+  return store;
+}
+
+const auditsOf = (store: Store) => Object.values(store["nonConformities/nc-1/audits"] ?? {});
+
+const patch = (body: Record<string, unknown>, uid?: string) =>
+  PATCH(
+    new NextRequest("http://localhost/api/nc/nc-1", {
+      method: "PATCH",
+      headers: uid ? { Authorization: `Bearer ${uid}` } : {},
+      body: JSON.stringify(body),
+    }),
+    { params: Promise.resolve({ id: "nc-1" }) },
+  );
+
+const baseNc = () => ({
+  title: "Vazamento hidráulico",
+  severity: "media",
+  status: "aberta",
+  createdAt: "2025-09-01T10:00:00.000Z",
+  createdBy: { id: "op-1", matricula: "100" },
+  linkedAsset: { id: "m-1", tag: "EXC-01" },
+  source: "checklist_question",
+  originChecklistResponseId: "resp-1",
+  actions: [{ id: "a1", type: "corretiva", description: "Troca da mangueira", completedAt: "2025-09-02T10:00:00.000Z" }],
+});
+
+describe("NC workflow rules", () => {
+  it("lists only transitions defined for the current status and role", () => {
+    expect(allowedNcTransitions("resolvida").map((rule) => rule.to)).toEqual(["aberta"]);
+    expect(allowedNcTransitions("resolvida", "mecanico")).toEqual([]);
+    expect(allowedNcTransitions("aguardando_peca", "mecanico").map((rule) => rule.to)).toEqual([
+      "em_execucao",
+      "bloqueada",
+    ]);
+  });
+
+  it("enforces roles and required fields", () => {
+    expect(validateNcTransition("bloqueada", "resolvida", "admin")).toMatchObject({ ok: false, status: 409 });
+    expect(validateNcTransition("aberta", "em_execucao", "operador")).toMatchObject({ ok: false, status: 403 });
+    expect(validateNcTransition("aberta", "bloqueada", "mecanico", { reason: "  " })).toMatchObject({
+      ok: false,
+      error: "Informe o motivo do bloqueio.",
+    });
+    expect(
+      validateNcTransition("em_execucao", "aguardando_peca", "mecanico", {
+        partNumber: " 4T-1234 ",
+        expectedAt: "2025-09-10",
+      }),
+    ).toMatchObject({
+      ok: true,
+      rule: { event: "waiting_part" },
+      waitingPart: { partNumber: "4T-1234", expectedAt: "2025-09-10T00:00:00.000Z" },
+    });
+  });
+});
+
+describe("PATCH /api/nc/[id] status transitions", () => {
+  beforeEach(() => {
+    currentDb = undefined;
+  });
+
+  it("rejects jumps outside the workflow", async () => {
+    const store = seed(
+      { ...baseNc(), status: "bloqueada", blockedReason: "Sem acesso" },
+      { "admin-1": { role: "admin" } },
+    );
+
+    const response = await patch({ status: "resolvida" }, "admin-1");
+
+    expect(response.status).toBe(409);
+    expect(auditsOf(store)).toHaveLength(0);
+  });
+
+  it("requires a verified session with a stored role", async () => {
+    const store = seed(baseNc(), { "op-1": { role: "operador" } });
+
+    expect((await patch({ status: "em_execucao", actor: { id: "op-1", role: "admin" } })).status).toBe(401);
+    expect((await patch({ status: "em_execucao" }, "expired")).status).toBe(401);
+    expect((await patch({ status: "em_execucao" }, "unknown")).status).toBe(403);
+    expect((await patch({ status: "em_execucao", actor: { id: "op-1", role: "admin" } }, "op-1")).status).toBe(403);
+    expect(store.nonConformities["nc-1"].status).toBe("aberta");
+    expect(auditsOf(store)).toHaveLength(0);
+  });
+
+  it("records blocking and reopening as typed audit events", async () => {
+    const store = seed(baseNc(), {
+      "mec-1": { role: "mecanico", nome: "Carlos" },
+      "admin-1": { role: "admin", nome: "Ana" },
+    });
+
+    const blocked = await patch(
+      { status: "bloqueada", transition: { reason: "Aguardando liberação da área" } },
+      "mec-1",
+    );
+    expect(blocked.status).toBe(200);
+    expect(store.nonConformities["nc-1"]).toMatchObject({ status: "bloqueada", blockedReason: "Aguardando liberação da área" });
+
+    await patch({ status: "em_execucao" }, "mec-1");
+    await patch({ status: "resolvida" }, "mec-1");
+    expect(store.nonConformities["nc-1"]).toMatchObject({ status: "resolvida", blockedReason: null });
+
+    const notAdmin = await patch({ status: "aberta", transition: { reason: "Vazamento voltou" } }, "mec-1");
+    expect(notAdmin.status).toBe(403);
+
+    const missingJustification = await patch({ status: "aberta" }, "admin-1");
+    expect(missingJustification.status).toBe(400);
+
+    const reopened = await patch({ status: "aberta", transition: { reason: "Vazamento voltou" } }, "admin-1");
+    expect(reopened.status).toBe(200);
+    expect(store.nonConformities["nc-1"]).toMatchObject({ status: "aberta", reopenCount: 1 });
+
+    const audits = auditsOf(store);
+    expect(audits.map((audit) => audit.type)).toEqual(["blocked", "resumed", "resolved", "reopened"]);
+    expect(audits[0]).toMatchObject({
+      byUserId: "mec-1",
+      byNome: "Carlos",
+      byRole: "mecanico",
+      transition: { from: "aberta", to: "bloqueada", reason: "Aguardando liberação da área" },
+    });
+    expect(audits[3]).toMatchObject({
+      byUserId: "admin-1",
+      byRole: "admin",
+      transition: { from: "resolvida", to: "aberta", reason: "Vazamento voltou" },
+    });
+  });
+});
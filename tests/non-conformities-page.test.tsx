@@ -6,8 +6,15 @@ const firestoreMockState = {
   machinesDocs: [] as Array<{ id: string; data: () => unknown }>,
   templatesDocs: [] as Array<{ id: string; data: () => unknown }>,
   responsesDocs: [] as Array<{ id: string; data: () => unknown }>,
+  ncDocs: [] as Array<{ id: string; data: () => unknown }>,
+  usersDocs: [] as Array<{ id: string; data: () => unknown }>,
 };
 
+const fetchMock = vi.fn<[string, RequestInit?], Promise<{ ok: boolean; json: () => Promise<unknown> }>>(async () => ({
+  ok: true,
+  json: async () => ({ results: [{ id: "nc1", ok: true, changed: true }], succeeded: 1, failed: 0 }),
+}));
+
 const makeDoc = (id: string, data: unknown) => ({ id, data: () => data });
 
 vi.mock("next/image", () => ({
@@ -18,6 +25,8 @@ vi.mock("next/image", () => ({
 
 vi.mock("@/lib/firebase", () => ({ db: {} }));
 
+vi.mock("@/lib/auth-headers", () => ({ authHeaders: async () => ({ Authorization: "Bearer token" }) }));
+
 vi.mock("firebase/firestore", () => ({
   collection: (_db: unknown, name: string) => ({ __collection: name }),
   query: (col: { __collection: string }) => ({ __collection: col.__collection }),
@@ -31,6 +40,10 @@ vi.mock("firebase/firestore", () => ({
         ? firestoreMockState.templatesDocs
         : name === "checklistResponses"
         ? firestoreMockState.responsesDocs
+        : name === "nonConformities"
+        ? firestoreMockState.ncDocs
+        : name === "users"
+        ? firestoreMockState.usersDocs
         : [];
     return { docs };
   },
@@ -69,6 +82,10 @@ beforeEach(() => {
   firestoreMockState.machinesDocs = [];
   firestoreMockState.templatesDocs = [];
   firestoreMockState.responsesDocs = [];
+  firestoreMockState.ncDocs = [];
+  firestoreMockState.usersDocs = [];
+  fetchMock.mockClear();
+  vi.stubGlobal("fetch", fetchMock);
 });
 
 describe("NonConformitiesAdminPage", () => {
@@ -128,4 +145,95 @@ describe("NonConformitiesAdminPage", () => {
 
     unmount();
   });
+
+  it("seleciona a NC vinculada ao item e atribui um responsável do cadastro em lote", async () => {
+    firestoreMockState.machinesDocs = [
+      makeDoc("m1", {
+        modelo: "Modelo",
+        tag: "MCH-1",
+        setor: "Setor",
+        checklists: ["t1"],
+        fleetType: "machine",
+      }),
+    ];
+    firestoreMockState.templatesDocs = [
+      makeDoc("t1", {
+        type: "operador",
+        title: "Checklist diário",
+        version: 1,
+        isActive: true,
+        questions: [{ id: "q1", text: "Pergunta 1", photoRule: "optional" }],
+      }),
+    ];
+    firestoreMockState.responsesDocs = [
+      makeDoc("r1", {
+        machineId: "m1",
+        userId: "u1",
+        templateId: "t1",
+        createdAt: "2025-10-01T10:00:00.000Z",
+        answers: [{ questionId: "q1", response: "nc", observation: "Obs", photoUrls: [] }],
+        nonConformityTreatments: [],
+      }),
+    ];
+    firestoreMockState.ncDocs = [
+      makeDoc("nc1", {
+        title: "Pergunta 1",
+        status: "aberta",
+        severity: "media",
+        originChecklistResponseId: "r1",
+        originQuestionId: "q1",
+        linkedAsset: { id: "m1", tag: "MCH-1" },
+        createdAt: "2025-10-01T10:00:00.000Z",
+      }),
+    ];
+    firestoreMockState.usersDocs = [
+      makeDoc("u-mec", { nome: "Carlos", role: "mecanico" }),
+      makeDoc("u-op", { nome: "Operador", role: "operador" }),
+    ];
+
+    const { container, unmount } = await renderPage();
+    await flushPromises();
+    await flushPromises();
+
+    const checkbox = container.querySelector<HTMLInputElement>(
+      'input[aria-label="Selecionar Pergunta 1 para ações em lote"]',
+    );
+    expect(checkbox).not.toBeNull();
+    expect(container.querySelector('a[href="/admin/non-conformities/nc1"]')).not.toBeNull();
+
+    const ownerSelect = Array.from(container.querySelectorAll("select")).find((select) =>
+      Array.from(select.options).some((option) => option.value === "u-mec"),
+    );
+    expect(Array.from(ownerSelect?.options ?? []).map((option) => option.textContent)).toEqual([
+      "Manter",
+      "Remover responsável",
+      "Carlos",
+    ]);
+
+    act(() => checkbox!.click());
+    act(() => {
+      ownerSelect!.value = "u-mec";
+      ownerSelect!.dispatchEvent(new Event("change", { bubbles: true }));
+    });
+    expect(container.textContent).toContain("1 NC(s) selecionada(s)");
+
+    const applyButton = Array.from(container.querySelectorAll("button")).find(
+      (button) => button.textContent === "Aplicar às selecionadas",
+    );
+    await act(async () => {
+      applyButton!.click();
+    });
+    await flushPromises();
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("/api/nc/bulk");
+    expect(JSON.parse(String(init?.body))).toEqual({
+      ids: ["nc1"],
+      changes: { owner: { id: "u-mec", nome: "Carlos" } },
+    });
+    expect(container.textContent).toContain("1 NC(s) atualizada(s).");
+
+    unmount();
+  });
 });
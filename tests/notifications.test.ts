@@ -0,0 +1,231 @@
+import { type AddressInfo, type Server, type Socket, createServer } from "net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+import {
+  NOTIFICATION_MAX_ATTEMPTS,
+  deliverPendingNotifications,
+  enqueueNotificationEvent,
+  matchSubscriptions,
+  processNotificationEvents,
+} from "@/lib/notifications";
+import { sendSmtpMail } from "@/lib/notifications/smtp";
+import { type EmailTransport, resolveEmailTransport } from "@/lib/notifications/transport";
+import type { NotificationSubscription } from "@/types/notification";
+import { createDb, type Store } from "./helpers/firestore";
+
+const subscription = (overrides: Partial<NotificationSubscription>): NotificationSubscription => ({
+  id: "s",
+  nome: "Assinante",
+  email: "assinante@example.com",
+  kinds: ["nc_created"],
+  setores: [],
+  machineIds: [],
+  active: true,
+  ...overrides,
+});
+
+describe("notification subscriptions", () => {
+  it("matches by kind, setor or machine and skips inactive entries", () => {
+    const subscriptions = [
+      subscription({ id: "all" }),
+      subscription({ id: "mina", setores: ["Mina"] }),
+      subscription({ id: "m2", machineIds: ["m2"] }),
+      subscription({ id: "off", active: false }),
+      subscription({ id: "missed", kinds: ["checklist_missed"] }),
+    ];
+
+    const ids = (scope: { setor?: string; machineId?: string }) =>
+      matchSubscriptions(subscriptions, "nc_created", scope).map((item) => item.id);
+
+    expect(ids({ setor: " mina ", machineId: "m1" })).toEqual(["all", "mina"]);
+    expect(ids({ setor: "Porto", machineId: "m2" })).toEqual(["all", "m2"]);
+    expect(ids({})).toEqual(["all"]);
+  });
+});
+
+describe("notification delivery", () => {
+  const nc = {
+    title: "Freio <traseiro>",
+    severity: "alta",
+    status: "aberta",
+    createdAt: "2025-01-01T00:00:00.000Z",
+    createdBy: { id: "op", matricula: "1" },
+    linkedAsset: { id: "m1", tag: "EXC-01", setor: "Mina" },
+    source: "checklist_question",
+    originChecklistResponseId: "r1",
+    actions: [{ id: "a1", type: "corretiva", description: "Trocar pastilha", owner: { id: "u1", nome: "Ana" } }],
+  };
+
+  it("queues one delivery per recipient and retries with backoff", async () => {
+    const store: Store = {
+      nonConformities: { nc1: structuredClone(nc) },
+      users: { u1: { nome: "Ana", email: "ana@example.com" } },
+      notificationSubscriptions: {
+        s1: { nome: "Supervisor", email: "SUP@example.com", kinds: ["nc_created", "nc_assigned"], setores: ["Mina"] },
+        s2: { nome: "Supervisor", email: "sup@example.com", kinds: ["nc_created"], setores: [], machineIds: [] },
+        s3: { nome: "Porto", email: "porto@example.com", kinds: ["nc_created"], setores: ["Porto"] },
+      },
+    };
+    const db = createDb(store) as never;
+    const now = new Date("2025-01-01T12:00:00.000Z");
+
+    expect(await enqueueNotificationEvent(db, { id: "nc_created_nc1", kind: "nc_created", refId: "nc1" }, now)).toBe(true);
+    expect(await enqueueNotificationEvent(db, { id: "nc_created_nc1", kind: "nc_created", refId: "nc1" }, now)).toBe(false);
+    await enqueueNotificationEvent(
+      db,
+      { id: "nc_assigned_nc1_a1_u1", kind: "nc_assigned", refId: "nc1", payload: { actionId: "a1", ownerId: "u1" } },
+      now,
+    );
+
+    expect(await processNotificationEvents({ db, now, baseUrl: "https://frota.example.com/" })).toEqual({
+      processed: 2,
+      queued: 2,
+    });
+    expect(await processNotificationEvents({ db, now })).toEqual({ processed: 0, queued: 0 });
+
+    const deliveries = Object.values(store.notificationDeliveries);
+    expect(deliveries.map((item) => item.to).sort()).toEqual(["SUP@example.com", "ana@example.com"]);
+    const created = deliveries.find((item) => item.kind === "nc_created")!;
+    expect(created.subject).toBe("[NC] Nova NC de severidade alta: Freio <traseiro> (EXC-01)");
+    expect(created.html).toContain("Freio &lt;traseiro&gt;");
+    expect(created.text).toContain("Abrir: https://frota.example.com/admin/non-conformities/nc1");
+
+    let calls = 0;
+    const flaky: EmailTransport = {
+      name: "test",
+      async send() {
+        calls += 1;
+        if (calls <= 2) throw new Error("451 try again");
+        return { response: "ok" };
+      },
+    };
+
+    expect(await deliverPendingNotifications({ db, now, transport: flaky })).toEqual({ sent: 0, retrying: 2, failed: 0 });
+    const retry = Object.values(store.notificationDeliveries)[0];
+    expect(retry).toMatchObject({
+      status: "pending",
+      attempts: 1,
+      lastError: "451 try again",
+      nextAttemptAt: "2025-01-01T12:05:00.000Z",
+    });
+
+    expect(await deliverPendingNotifications({ db, now, transport: flaky })).toEqual({ sent: 0, retrying: 0, failed: 0 });
+    const later = new Date("2025-01-01T12:05:00.000Z");
+    expect(await deliverPendingNotifications({ db, now: later, transport: flaky })).toEqual({
+      sent: 2,
+      retrying: 0,
+      failed: 0,
+    });
+    expect(Object.values(store.notificationDeliveries).every((item) => item.status === "sent")).toBe(true);
+  });
+
+  it("gives up after the maximum number of attempts", async () => {
+    const store: Store = {
+      notificationDeliveries: {
+        d1: {
+          to: "ana@example.com",
+          subject: "x",
+          text: "x",
+          html: "x",
+          status: "pending",
+          attempts: NOTIFICATION_MAX_ATTEMPTS - 1,
+          nextAttemptAt: "2025-01-01T12:00:00.000Z",
+        },
+      },
+    };
+    const failing: EmailTransport = {
+      name: "test",
+      async send() {
+        throw new Error("550 mailbox unavailable");
+      },
+    };
+
+    const run = await deliverPendingNotifications({ db: createDb(store) as never, transport: failing });
+
+    expect(run).toEqual({ sent: 0, retrying: 0, failed: 1 });
+    expect(store.notificationDeliveries.d1).toMatchObject({ status: "failed", attempts: 5, nextAttemptAt: null });
+  });
+});
+
+describe("SMTP transport", () => {
+  let server: Server;
+  let port: number;
+  const sessions: Array<{ commands: string[]; data: string }> = [];
+
+  beforeAll(async () => {
+    server = createServer((socket: Socket) => {
+      const session = { commands: [] as string[], data: "" };
+      sessions.push(session);
+      let buffer = "";
+      let inData = false;
+      socket.write("220 catcher ESMTP\r\n");
+      socket.on("data", (chunk) => {
+        buffer += chunk.toString("utf8");
+        let index: number;
+        while ((index = buffer.indexOf("\r\n")) >= 0) {
+          const line = buffer.slice(0, index);
+          buffer = buffer.slice(index + 2);
+          if (inData) {
+            if (line === ".") {
+              inData = false;
+              socket.write("250 2.0.0 queued as 42\r\n");
+            } else {
+              session.data += `${line}\n`;
+            }
+            continue;
+          }
+          session.commands.push(line);
+          if (line.startsWith("EHLO")) socket.write("250-catcher\r\n250-AUTH PLAIN\r\n250 SIZE 1000000\r\n");
+          else if (line.startsWith("AUTH")) socket.write("235 ok\r\n");
+          else if (line.startsWith("RCPT") && line.includes("blocked")) socket.write("550 no such user\r\n");
+          else if (line === "DATA") {
+            inData = true;
+            socket.write("354 go ahead\r\n");
+          } else if (line === "QUIT") socket.end("221 bye\r\n");
+          else socket.write("250 ok\r\n");
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("delivers a multipart message with authentication", async () => {
+    const response = await sendSmtpMail(
+      { host: "127.0.0.1", port, secure: false, user: "frota", password: "segredo", from: "Frota <no-reply@frota.dev>" },
+      { to: "ana@example.com", subject: "Ação atribuída", text: "Olá", html: "<p>Olá</p>" },
+    );
+
+    const session = sessions.at(-1)!;
+    expect(response).toBe("2.0.0 queued as 42");
+    expect(session.commands).toEqual([
+      "EHLO localhost",
+      `AUTH PLAIN ${Buffer.from("\u0000frota\u0000segredo").toString("base64")}`,
+      "MAIL FROM:<no-reply@frota.dev>",
+      "RCPT TO:<ana@example.com>",
+      "DATA",
+      "QUIT",
+    ]);
+    expect(session.data).toContain(`Subject: =?UTF-8?B?${Buffer.from("Ação atribuída").toString("base64")}?=`);
+    expect(session.data).toContain("Content-Type: multipart/alternative");
+    expect(session.data).toContain(Buffer.from("<p>Olá</p>").toString("base64"));
+  });
+
+  it("surfaces rejected recipients as errors", async () => {
+    await expect(
+      sendSmtpMail(
+        { host: "127.0.0.1", port, secure: false, from: "no-reply@frota.dev" },
+        { to: "blocked@example.com", subject: "x", text: "x", html: "x" },
+      ),
+    ).rejects.toThrow("SMTP RCPT failed: 550 no such user");
+  });
+
+  it("uses the log transport until SMTP is configured", () => {
+    expect(resolveEmailTransport({}).name).toBe("log");
+    expect(resolveEmailTransport({ SMTP_HOST: "localhost", SMTP_PORT: "1025", SMTP_FROM: "a@b.c" }).name).toBe("smtp");
+  });
+});
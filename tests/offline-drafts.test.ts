@@ -0,0 +1,100 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const store = new Map<string, unknown>();
+
+vi.mock("@/lib/offline/idb", () => ({
+  isIndexedDbAvailable: () => true,
+  idbGet: async (_store: string, key: string) => store.get(key),
+  idbGetAll: async () => Array.from(store.values()),
+  idbPut: async (_store: string, key: string, value: unknown) => {
+    store.set(key, structuredClone(value));
+  },
+  idbDelete: async (_store: string, key: string) => {
+    store.delete(key);
+  },
+}));
+
+import {
+  buildDraftKey,
+  clearDraft,
+  hasDraftContent,
+  loadDraft,
+  purgeExpiredDrafts,
+  saveDraft,
+  type ChecklistDraft,
+} from "@/lib/offline/drafts";
+
+const key = buildDraftKey(" MCH-1 ", "tpl-1", "1001 ");
+
+const sampleDraft = (overrides: Partial<ChecklistDraft> = {}): Omit<ChecklistDraft, "savedAt"> => ({
+  key,
+  tag: "MCH-1",
+  templateId: "tpl-1",
+  matricula: "1001",
+  answers: {
+    q1: {
+      questionId: "q1",
+      response: "nc",
+      observation: "Vazamento",
+      photos: [{ id: "p1", name: "p1.jpg", blob: new Blob(["a"]) }],
+    },
+  },
+  extraNcs: [],
+  recurrenceDecisions: {},
+  km: "1200",
+  horimetro: "",
+  driverMatricula: "",
+  driverNome: "",
+  operatorSignatureDataUrl: null,
+  driverSignatureDataUrl: null,
+  ...overrides,
+});
+
+beforeEach(() => {
+  store.clear();
+  vi.useRealTimers();
+});
+
+describe("checklist drafts", () => {
+  it("saves and restores a draft by machine, template and operator", async () => {
+    expect(key).toBe("MCH-1|tpl-1|1001");
+    await saveDraft(sampleDraft());
+
+    const restored = await loadDraft(key);
+
+    expect(restored).toMatchObject({
+      tag: "MCH-1",
+      km: "1200",
+      answers: { q1: { response: "nc", observation: "Vazamento" } },
+    });
+    expect(restored?.answers.q1.photos).toHaveLength(1);
+    expect(typeof restored?.savedAt).toBe("string");
+    expect(await loadDraft(buildDraftKey("MCH-1", "tpl-1", "2002"))).toBeNull();
+  });
+
+  it("discards the draft on clear and once it expires", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-03-01T08:00:00.000Z"));
+    await saveDraft(sampleDraft());
+    await saveDraft(sampleDraft({ key: "MCH-2|tpl-1|1001", tag: "MCH-2" }));
+    vi.useRealTimers();
+
+    expect(await loadDraft(key, new Date("2025-03-01T19:00:00.000Z"))).not.toBeNull();
+    expect(await loadDraft(key, new Date("2025-03-01T21:00:00.000Z"))).toBeNull();
+    expect(store.has(key)).toBe(false);
+
+    await purgeExpiredDrafts(new Date("2025-03-02T08:00:00.000Z"));
+    expect(store.size).toBe(0);
+
+    await saveDraft(sampleDraft());
+    await clearDraft(key);
+    expect(await loadDraft(key)).toBeNull();
+  });
+
+  it("only treats filled answers as draft content", () => {
+    const empty = sampleDraft({ answers: { q1: { questionId: "q1", photos: [], observation: "  " } } });
+    expect(hasDraftContent(empty)).toBe(false);
+    expect(hasDraftContent({ ...empty, recurrenceDecisions: { q1: "still_nc" } })).toBe(true);
+    expect(hasDraftContent(sampleDraft())).toBe(true);
+  });
+});
@@ -0,0 +1,170 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const store = new Map<string, unknown>();
+const setDoc = vi.hoisted(() => vi.fn<[unknown, unknown], Promise<void>>(async () => {}));
+
+vi.mock("@/lib/offline/idb", () => ({
+  isIndexedDbAvailable: () => true,
+  idbGet: async (_store: string, key: string) => store.get(key),
+  idbGetAll: async () => Array.from(store.values()),
+  idbPut: async (_store: string, key: string, value: unknown) => {
+    store.set(key, structuredClone(value));
+  },
+  idbDelete: async (_store: string, key: string) => {
+    store.delete(key);
+  },
+}));
+
+vi.mock("firebase/firestore", () => ({
+  doc: (_db: unknown, collection: string, id: string) => ({ path: `${collection}/${id}` }),
+  serverTimestamp: () => "server-timestamp",
+  setDoc,
+}));
+
+import {
+  createFirestoreResponseWriter,
+  enqueueChecklist,
+  listOutbox,
+  syncOutbox,
+  type OutboxSyncDeps,
+} from "@/lib/offline/outbox";
+
+const baseResponse = {
+  machineId: "machine-1",
+  userId: "user-1",
+  operatorMatricula: "1001",
+  operatorNome: "Operador",
+  templateId: "tpl-1",
+  createdAt: "2024-05-01T10:00:00.000Z",
+  answers: [
+    { questionId: "q1", response: "nc" as const },
+    { questionId: "q2", response: "ok" as const },
+  ],
+};
+
+async function enqueueSample() {
+  return enqueueChecklist({
+    id: "resp-offline-1",
+    label: "MCH-1 – Diário",
+    response: baseResponse,
+    photos: [
+      { id: "p1", questionId: "q1", blob: new Blob(["a"]), filename: "p1.jpg" },
+      { id: "p2", questionId: "q1", blob: new Blob(["b"]), filename: "p2.jpg" },
+    ],
+    signatures: [{ role: "operator", dataUrl: "data:image/png;base64,AA==", filename: "sig.png" }],
+  });
+}
+
+const firebaseError = (code: string) => Object.assign(new Error(code), { code });
+
+beforeEach(() => {
+  store.clear();
+  setDoc.mockReset();
+});
+
+describe("offline outbox", () => {
+  it("uploads photos and signatures before writing the response with a stable id", async () => {
+    await enqueueSample();
+    const writeResponse = vi.fn<Parameters<OutboxSyncDeps["writeResponse"]>, Promise<void>>(async () => {});
+    const upload = vi.fn(async (_blob: Blob, filename: string) => `https://cdn/${filename}`);
+
+    const result = await syncOutbox({ upload, writeResponse, dataUrlToBlob: () => new Blob(["s"]) });
+
+    expect(result.synced).toEqual(["resp-offline-1"]);
+    expect(upload).toHaveBeenCalledTimes(3);
+    const [id, payload, options] = writeResponse.mock.calls[0];
+    expect(id).toBe("resp-offline-1");
+    expect(options.writeAttempted).toBe(false);
+    expect(payload.answers[0].photoUrls).toEqual(["https://cdn/p1.jpg", "https://cdn/p2.jpg"]);
+    expect(payload.answers[1].photoUrls).toBeUndefined();
+    expect(payload.signatures).toEqual({ operatorUrl: "https://cdn/sig.png", driverUrl: null });
+    expect(await listOutbox()).toHaveLength(0);
+  });
+
+  it("keeps uploaded photos when a sync fails and does not upload them again on retry", async () => {
+    await enqueueSample();
+    let calls = 0;
+    const upload = vi.fn(async (_blob: Blob, filename: string) => {
+      calls += 1;
+      if (calls === 2) throw new Error("R2_UPLOAD_NETWORK_ERROR");
+      return `https://cdn/${filename}`;
+    });
+    const writeResponse = vi.fn<Parameters<OutboxSyncDeps["writeResponse"]>, Promise<void>>(async () => {});
+    const deps = { upload, writeResponse, dataUrlToBlob: () => new Blob(["s"]) };
+
+    const first = await syncOutbox(deps);
+    expect(first.failed).toEqual(["resp-offline-1"]);
+    const [pending] = await listOutbox();
+    expect(pending.status).toBe("failed");
+    expect(pending.photos[0].url).toBe("https://cdn/p1.jpg");
+    expect(pending.photos[1].url).toBeUndefined();
+
+    const second = await syncOutbox(deps);
+    expect(second.synced).toEqual(["resp-offline-1"]);
+    expect(upload).toHaveBeenCalledTimes(4);
+    expect(writeResponse).toHaveBeenCalledTimes(1);
+    expect(writeResponse.mock.calls[0][2]).toEqual({ writeAttempted: false });
+  });
+
+  it("keeps the checklist when the rules refuse a write that was never made before", async () => {
+    await enqueueSample();
+    let uploads = 0;
+    const deps = {
+      upload: async (_blob: Blob, filename: string) => {
+        uploads += 1;
+        if (uploads === 1) throw new Error("R2_UPLOAD_NETWORK_ERROR");
+        return filename;
+      },
+      writeResponse: createFirestoreResponseWriter({} as never),
+      dataUrlToBlob: () => new Blob(["s"]),
+    };
+    setDoc.mockRejectedValue(firebaseError("permission-denied"));
+
+    expect((await syncOutbox(deps)).failed).toEqual(["resp-offline-1"]);
+    expect(setDoc).not.toHaveBeenCalled();
+    expect((await syncOutbox(deps)).failed).toEqual(["resp-offline-1"]);
+    expect((await syncOutbox(deps)).failed).toEqual(["resp-offline-1"]);
+
+    const [pending] = await listOutbox();
+    expect(pending).toMatchObject({ status: "failed", writeAttempted: false, lastError: "permission-denied" });
+  });
+
+  it("treats permission-denied after an unconfirmed write as an already created response", async () => {
+    await enqueueSample();
+    const deps = {
+      upload: async (_blob: Blob, filename: string) => filename,
+      writeResponse: createFirestoreResponseWriter({} as never),
+      dataUrlToBlob: () => new Blob(["s"]),
+    };
+    setDoc.mockRejectedValueOnce(firebaseError("unavailable")).mockRejectedValueOnce(firebaseError("permission-denied"));
+
+    expect((await syncOutbox(deps)).failed).toEqual(["resp-offline-1"]);
+    expect((await listOutbox())[0].writeAttempted).toBe(true);
+    expect((await syncOutbox(deps)).synced).toEqual(["resp-offline-1"]);
+    expect(setDoc).toHaveBeenCalledTimes(2);
+    expect(await listOutbox()).toHaveLength(0);
+  });
+
+  it("runs again for entries queued while a sync is in progress", async () => {
+    await enqueueSample();
+    let releaseFirst: () => void = () => {};
+    const writeResponse = vi.fn<Parameters<OutboxSyncDeps["writeResponse"]>, Promise<void>>(async (id) => {
+      if (id === "resp-offline-1") await new Promise<void>((resolve) => (releaseFirst = resolve));
+    });
+    const deps = {
+      upload: async (_blob: Blob, filename: string) => filename,
+      writeResponse,
+      dataUrlToBlob: () => new Blob(["s"]),
+    };
+
+    const first = syncOutbox(deps);
+    await vi.waitFor(() => expect(writeResponse).toHaveBeenCalledTimes(1));
+    await enqueueChecklist({ id: "resp-offline-2", label: "MCH-1", response: baseResponse, photos: [], signatures: [] });
+    const second = syncOutbox(deps);
+    releaseFirst();
+
+    expect((await first).synced).toEqual(["resp-offline-1"]);
+    expect((await second).synced).toEqual(["resp-offline-2"]);
+    expect(await listOutbox()).toHaveLength(0);
+  });
+});
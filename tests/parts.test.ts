@@ -0,0 +1,189 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  buildBlockingPartsReport,
+  createPartRequest,
+  ensurePartRequestForNc,
+  isPartCompatible,
+  loadBlockingPartsReport,
+  updatePartRequest,
+} from "@/lib/parts";
+import type { PartRequest } from "@/types/part";
+import { createDb, type Store } from "./helpers/firestore";
+
+const baseStore = (): Store => ({
+  machines: { m1: { tag: "EXC-01", modelo: "PC200", status: "down" } },
+  parts: {
+    filtro: { code: "FH-100", description: "Filtro hidráulico", compatibleModels: ["pc200"], active: true },
+    pastilha: { code: "PF-9", description: "Pastilha de freio", compatibleModels: ["D6T"], active: true },
+  },
+  nonConformities: {
+    nc1: {
+      title: "Vazamento hidráulico",
+      severity: "alta",
+      status: "aguardando_peca",
+      waitingPart: { partNumber: "FH-100", expectedAt: "2025-01-05T00:00:00.000Z" },
+      createdAt: "2025-01-01T00:00:00.000Z",
+      createdBy: { id: "op", matricula: "1" },
+      linkedAsset: { id: "m1", tag: "EXC-01" },
+      source: "checklist_question",
+      originChecklistResponseId: "r1",
+    },
+  },
+});
+
+const now = new Date("2025-01-02T10:00:00.000Z");
+const mechanic = { id: "mec1", nome: "Carlos", role: "mecanico" } as const;
+const operator = { id: "op1", nome: "João", role: "operador" } as const;
+
+describe("parts catalog", () => {
+  it("matches compatible machine models case-insensitively", () => {
+    expect(isPartCompatible({ compatibleModels: [] }, null)).toBe(true);
+    expect(isPartCompatible({ compatibleModels: ["PC200"] }, " pc200 ")).toBe(true);
+    expect(isPartCompatible({ compatibleModels: ["PC200"] }, "D6T")).toBe(false);
+    expect(isPartCompatible({ compatibleModels: ["PC200"] }, undefined)).toBe(false);
+  });
+});
+
+describe("part requests", () => {
+  it("rejects catalog parts that do not fit the machine model", async () => {
+    const db = createDb(baseStore()) as never;
+
+    expect(await createPartRequest(db, { ncId: "nc1", partId: "pastilha", quantity: 1 }, mechanic, now)).toMatchObject({
+      ok: false,
+      status: 400,
+      error: "A peça PF-9 não é compatível com o modelo PC200.",
+    });
+    expect(await createPartRequest(db, { ncId: "missing", partCode: "X", quantity: 1 }, mechanic, now)).toMatchObject({
+      ok: false,
+      status: 404,
+    });
+  });
+
+  it("tracks open requests on the NC and resumes it once every part is received", async () => {
+    const store = baseStore();
+    const db = createDb(store) as never;
+
+    await ensurePartRequestForNc(
+      db,
+      { id: "nc1", title: "Vazamento hidráulico", linkedAsset: { id: "m1", tag: "EXC-01" } },
+      { partNumber: "FH-100", expectedAt: "2025-01-05T00:00:00.000Z" },
+      mechanic,
+      now,
+    );
+    await ensurePartRequestForNc(
+      db,
+      { id: "nc1", title: "Vazamento hidráulico", linkedAsset: { id: "m1", tag: "EXC-01" } },
+      { partNumber: "fh-100", expectedAt: "2025-01-05T00:00:00.000Z" },
+      mechanic,
+      now,
+    );
+    const [filterId] = Object.keys(store.partRequests);
+    expect(Object.keys(store.partRequests)).toHaveLength(1);
+    expect(store.partRequests[filterId]).toMatchObject({ partId: "filtro", description: "Filtro hidráulico" });
+
+    const seal = await createPartRequest(
+      db,
+      { ncId: "nc1", partCode: "VD-7", description: "Vedação", quantity: 2, expectedAt: "2025-01-08T00:00:00.000Z" },
+      mechanic,
+      now,
+    );
+    if (!seal.ok) throw new Error(seal.error);
+    expect(store.nonConformities.nc1.waitingPart).toEqual({
+      partNumber: "FH-100, VD-7",
+      expectedAt: "2025-01-08T00:00:00.000Z",
+    });
+
+    const ordered = await updatePartRequest(db, filterId, { status: "ordered", purchaseOrder: "PO-1" }, mechanic, now);
+    expect(ordered).toMatchObject({ ok: true, ncResumed: false, data: { status: "ordered", orderedAt: now.toISOString() } });
+    expect(await updatePartRequest(db, filterId, { status: "requested" }, mechanic, now)).toMatchObject({ ok: false, status: 409 });
+
+    await updatePartRequest(db, filterId, { status: "received" }, mechanic, now);
+    expect(store.nonConformities.nc1.status).toBe("aguardando_peca");
+    expect(store.nonConformities.nc1.waitingPart).toEqual({ partNumber: "VD-7", expectedAt: "2025-01-08T00:00:00.000Z" });
+
+    const later = new Date("2025-01-04T09:00:00.000Z");
+    const received = await updatePartRequest(db, seal.data.id, { status: "received" }, mechanic, later);
+
+    expect(received).toMatchObject({ ok: true, ncResumed: true, data: { receivedAt: later.toISOString() } });
+    expect(store.nonConformities.nc1).toMatchObject({ status: "em_execucao", waitingPart: null });
+    expect(Object.values(store["nonConformities/nc1/audits"])).toEqual([
+      expect.objectContaining({
+        type: "resumed",
+        byUserId: "mec1",
+        byRole: "mecanico",
+        transition: { from: "aguardando_peca", to: "em_execucao", reason: "Peças recebidas" },
+      }),
+    ]);
+  });
+
+  it("leaves the NC waiting when the last part is received by a profile that cannot resume it", async () => {
+    const store = baseStore();
+    store.partRequests = {
+      req1: { partCode: "FH-100", ncId: "nc1", machineId: "m1", status: "ordered", requestedAt: now.toISOString() },
+    };
+    const db = createDb(store) as never;
+
+    expect(await updatePartRequest(db, "req1", { status: "received" }, operator, now)).toMatchObject({
+      ok: true,
+      ncResumed: false,
+    });
+    expect(store.nonConformities.nc1.status).toBe("aguardando_peca");
+    expect(store["nonConformities/nc1/audits"]).toBeUndefined();
+  });
+});
+
+describe("blocking parts report", () => {
+  const request = (overrides: Partial<PartRequest>): PartRequest => ({
+    id: "r",
+    partCode: "FH-100",
+    description: "",
+    quantity: 1,
+    ncId: "nc1",
+    ncTitle: "NC",
+    machineId: "m1",
+    machineTag: "EXC-01",
+    status: "requested",
+    expectedAt: null,
+    requestedAt: "2025-01-01T00:00:00.000Z",
+    requestedBy: { id: "u" },
+    ...overrides,
+  });
+
+  it("groups open requests by machine, down machines first, flagging late deliveries", () => {
+    const report = buildBlockingPartsReport(
+      [
+        request({ id: "a", machineId: "m2", machineTag: "CAM-02", ncId: "nc2" }),
+        request({ id: "b", expectedAt: "2025-01-03T00:00:00.000Z", status: "ordered" }),
+        request({ id: "c", status: "received" }),
+        request({ id: "d", ncId: "done" }),
+      ],
+      [
+        { id: "nc1", status: "aguardando_peca" },
+        { id: "nc2", status: "em_execucao" },
+        { id: "done", status: "resolvida" },
+      ],
+      [{ id: "m1", tag: "EXC-01", status: "down" }],
+      new Date("2025-01-04T12:00:00.000Z"),
+    );
+
+    expect(report.map((entry) => entry.machineTag)).toEqual(["EXC-01", "CAM-02"]);
+    expect(report[0]).toMatchObject({ machineDown: true, waitingNcIds: ["nc1"], lastExpectedAt: "2025-01-03T00:00:00.000Z" });
+    expect(report[0].requests).toEqual([expect.objectContaining({ id: "b", overdue: true, waitingDays: 3 })]);
+    expect(report[1]).toMatchObject({ machineDown: false, waitingNcIds: [] });
+  });
+
+  it("loads only open requests from Firestore", async () => {
+    const store = baseStore();
+    store.partRequests = {
+      old: { partCode: "FH-100", ncId: "nc1", machineId: "m1", status: "requested", requestedAt: "2024-01-01T00:00:00.000Z" },
+      done: { partCode: "VD-7", ncId: "nc1", machineId: "m1", status: "received", requestedAt: "2025-01-01T00:00:00.000Z" },
+    };
+
+    const report = await loadBlockingPartsReport(createDb(store) as never, now);
+
+    expect(report).toHaveLength(1);
+    expect(report[0]).toMatchObject({ machineTag: "EXC-01", machineDown: true, waitingNcIds: ["nc1"] });
+    expect(report[0].requests.map((item) => item.id)).toEqual(["old"]);
+  });
+});
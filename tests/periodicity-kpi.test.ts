@@ -3,7 +3,9 @@ import { beforeEach, describe, expect, it, vi } from "vitest";
 
 import { GET as getPeriodicityCompliance } from "@/app/api/kpi/periodicity-compliance/route";
 import { PATCH as patchTemplatePeriodicity } from "@/app/api/templates/[templateId]/periodicity/route";
+import { GET as getPeriodicityTimeline } from "@/app/api/kpi/periodicity-timeline/route";
 import { loadPeriodicityCompliance } from "@/lib/kpis/periodicity";
+import { classifyPeriod, loadPeriodicityTimeline } from "@/lib/kpis/periodicity-timeline";
 import type { ChecklistTemplate } from "@/types/checklist";
 import type { Machine } from "@/types/machine";
 
@@ -22,6 +24,7 @@ type ResponseDoc = {
   templateId: string;
   machineId: string;
   createdAt: string;
+  horimetro?: number;
 };
 
 class FakeDocSnapshot<T> {
@@ -59,9 +62,9 @@ class FakeTemplateCollection {
     return {
       async get() {
         if (!doc) {
-          return { exists: false, data: () => undefined };
+          return { id, exists: false, data: () => undefined };
         }
-        return { exists: true, data: () => doc.data };
+        return { id, exists: true, data: () => doc.data };
       },
       async update(payload: { periodicity?: ChecklistTemplate["periodicity"] }) {
         if (!doc) {
@@ -83,7 +86,15 @@ class FakeMachineCollection {
   }
 }
 
-type ResponseFilter = { field: string; op: "==" | "<="; value: unknown };
+class FakeCalendarCollection {
+  constructor(private readonly docs: Array<{ id: string; data: Record<string, unknown> }>) {}
+
+  async get() {
+    return { docs: this.docs.map((doc) => new FakeDocSnapshot(doc.id, doc.data)) };
+  }
+}
+
+type ResponseFilter = { field: string; op: "==" | "<=" | ">="; value: unknown };
 
 class FakeResponseQuery {
   constructor(
@@ -94,7 +105,7 @@ class FakeResponseQuery {
     private readonly limitValue?: number,
   ) {}
 
-  where(field: string, op: "==" | "<=", value: unknown) {
+  where(field: string, op: ResponseFilter["op"], value: unknown) {
     return new FakeResponseQuery(this.docs, [...this.filters, { field, op, value }], this.orderField, this.orderDirection, this.limitValue);
   }
 
@@ -111,12 +122,15 @@ class FakeResponseQuery {
     for (const filter of this.filters) {
       if (filter.op === "==") {
         results = results.filter((doc) => (doc as Record<string, unknown>)[filter.field] === filter.value);
-      } else if (filter.op === "<=") {
+      } else {
         if (typeof filter.value !== "string") {
           throw new Error("Expected ISO string for createdAt filter");
         }
         const threshold = new Date(filter.value).getTime();
-        results = results.filter((doc) => new Date(doc.createdAt).getTime() <= threshold);
+        results = results.filter((doc) => {
+          const time = new Date(doc.createdAt).getTime();
+          return filter.op === "<=" ? time <= threshold : time >= threshold;
+        });
       }
     }
 
@@ -147,7 +161,7 @@ class FakeResponseQuery {
 class FakeResponsesCollection {
   constructor(private readonly docs: ResponseDoc[]) {}
 
-  where(field: string, op: "==" | "<=", value: unknown) {
+  where(field: string, op: ResponseFilter["op"], value: unknown) {
     return new FakeResponseQuery(this.docs, [{ field, op, value }]);
   }
 }
@@ -155,6 +169,9 @@ class FakeResponsesCollection {
 type FakeDb = {
   collection: (name: string) => unknown;
   templates: TemplateDoc[];
+  machines: MachineDoc[];
+  responses: ResponseDoc[];
+  calendars: Array<{ id: string; data: Record<string, unknown> }>;
 };
 
 let currentDb: FakeDb;
@@ -235,8 +252,13 @@ function createDb() {
     },
   ];
 
+  const calendars: FakeDb["calendars"] = [];
+
   return {
     templates,
+    machines,
+    responses,
+    calendars,
     collection(name: string) {
       if (name === "checklistTemplates") {
         return new FakeTemplateCollection(templates);
@@ -247,6 +269,9 @@ function createDb() {
       if (name === "checklistResponses") {
         return new FakeResponsesCollection(responses);
       }
+      if (name === "workingCalendars") {
+        return new FakeCalendarCollection(calendars);
+      }
       throw new Error(`Unknown collection ${name}`);
     },
   } satisfies FakeDb;
@@ -272,6 +297,73 @@ describe("periodicity compliance", () => {
     expect(nonCompliant?.status).toBe("non_compliant");
   });
 
+  it("evaluates usage-based periodicity from horimetro readings", async () => {
+    currentDb.templates.push({
+      id: "tpl-c",
+      data: {
+        title: "Lubrificação 250 h",
+        type: "mecanico",
+        version: 1,
+        isActive: true,
+        questions: [],
+        periodicity: { active: true, quantity: 250, unit: "hours", windowDays: 0, anchor: "last_submission" },
+      },
+    });
+    currentDb.machines.push({
+      id: "machine-2",
+      data: { modelo: "Escavadeira", tag: "MCH-2", setor: "Operação", combustivel: "diesel", checklists: ["tpl-c"] },
+    });
+    currentDb.responses.push(
+      { id: "m2-1", templateId: "tpl-x", machineId: "machine-2", createdAt: "2024-01-01T12:00:00.000Z", horimetro: 1000 },
+      { id: "m2-2", templateId: "tpl-c", machineId: "machine-2", createdAt: "2024-01-02T12:00:00.000Z", horimetro: 1010 },
+      { id: "m2-3", templateId: "tpl-x", machineId: "machine-2", createdAt: "2024-01-09T12:00:00.000Z", horimetro: 1200 },
+    );
+
+    const now = new Date("2024-01-10T12:00:00.000Z");
+    const result = await loadPeriodicityCompliance({ db: currentDb as never, now });
+    const item = result.items.find((candidate) => candidate.templateId === "tpl-c");
+    expect(item?.status).toBe("compliant");
+    expect(item?.usage?.dueAt).toBe(1260);
+    expect(item?.usage?.currentReading).toBe(1200);
+    expect(item?.usage?.averageDailyUsage).toBeCloseTo(25, 5);
+    expect(item?.usage?.projectedDueAt).toBe("2024-01-11T21:36:00.000Z");
+
+    currentDb.responses.push({
+      id: "m2-4",
+      templateId: "tpl-x",
+      machineId: "machine-2",
+      createdAt: "2024-01-10T08:00:00.000Z",
+      horimetro: 1270,
+    });
+    const overdue = await loadPeriodicityCompliance({ db: currentDb as never, now });
+    expect(overdue.items.find((candidate) => candidate.templateId === "tpl-c")?.status).toBe("non_compliant");
+  });
+
+  it("uses the setor working calendar for calendar-anchored templates", async () => {
+    const template = currentDb.templates.find((doc) => doc.id === "tpl-a");
+    template!.data.periodicity = { active: true, quantity: 1, unit: "day", windowDays: 1, anchor: "calendar" };
+    currentDb.calendars.push({
+      id: "cal-op",
+      data: { setor: "Operação", weekdays: [1, 2, 3, 4, 5], shifts: [], holidays: [], timezone: "America/Sao_Paulo" },
+    });
+
+    // Segunda-feira: o último envio foi na terça anterior, e a sexta útil ficou sem checklist.
+    const monday = new Date("2024-01-15T13:00:00.000Z");
+    const result = await loadPeriodicityCompliance({ db: currentDb as never, now: monday });
+    const item = result.items.find((candidate) => candidate.templateId === "tpl-a");
+    expect(item?.status).toBe("non_compliant");
+    expect(item?.calendarPeriod?.key).toBe("2024-01-12");
+
+    currentDb.responses.push({
+      id: "resp-friday",
+      templateId: "tpl-a",
+      machineId: "machine-1",
+      createdAt: "2024-01-12T15:00:00.000Z",
+    });
+    const afterFriday = await loadPeriodicityCompliance({ db: currentDb as never, now: monday });
+    expect(afterFriday.items.find((candidate) => candidate.templateId === "tpl-a")?.status).toBe("compliant");
+  });
+
   it("serves compliance data through the API", async () => {
     const request = new NextRequest(
       "http://localhost/api/kpi/periodicity-compliance?to=2024-01-10T12:00:00.000Z",
@@ -296,3 +388,85 @@ describe("periodicity compliance", () => {
     expect(updated?.data.periodicity?.active).toBe(true);
   });
 });
+
+describe("periodicity timeline", () => {
+  const useWeekdayCalendar = () => {
+    const template = currentDb.templates.find((doc) => doc.id === "tpl-a");
+    template!.data.periodicity = { active: true, quantity: 1, unit: "day", windowDays: 1, anchor: "calendar" };
+    currentDb.calendars.push({
+      id: "cal-op",
+      data: { setor: "Operação", weekdays: [1, 2, 3, 4, 5], shifts: [], holidays: [], timezone: "UTC" },
+    });
+    currentDb.responses.push(
+      { id: "resp-mon", templateId: "tpl-a", machineId: "machine-1", createdAt: "2024-01-08T10:00:00.000Z" },
+      { id: "resp-sat", templateId: "tpl-a", machineId: "machine-1", createdAt: "2024-01-13T08:00:00.000Z" },
+    );
+  };
+
+  it("classifies periods as done, late, missed or open", () => {
+    const period = { start: "2024-01-08T00:00:00.000Z", end: "2024-01-09T00:00:00.000Z" };
+    const now = new Date("2024-01-20T00:00:00.000Z");
+    expect(classifyPeriod(period, [Date.parse("2024-01-08T09:00:00.000Z")], now).status).toBe("done");
+    expect(classifyPeriod(period, [Date.parse("2024-01-09T06:00:00.000Z")], now)).toEqual({
+      status: "late",
+      submittedAt: "2024-01-09T06:00:00.000Z",
+    });
+    expect(classifyPeriod(period, [Date.parse("2024-01-09T18:00:00.000Z")], now).status).toBe("missed");
+    expect(classifyPeriod(period, [], new Date("2024-01-09T06:00:00.000Z")).status).toBe("open");
+  });
+
+  it("aggregates expected working-day periods for calendar-anchored templates", async () => {
+    useWeekdayCalendar();
+    const result = await loadPeriodicityTimeline({
+      db: currentDb as never,
+      filters: {
+        from: new Date("2024-01-08T00:00:00.000Z"),
+        to: new Date("2024-01-14T00:00:00.000Z"),
+        templateId: "tpl-a",
+      },
+      includePeriods: true,
+      now: new Date("2024-01-15T12:00:00.000Z"),
+    });
+
+    // Seg e ter no prazo, qua e qui perdidos, sex atrasada (envio no sábado); fim de semana não conta.
+    expect(result.granularity).toBe("day");
+    expect(result.summary).toMatchObject({ expected: 5, done: 2, late: 1, missed: 2, open: 0 });
+    expect(result.summary.compliance).toBe(60);
+    expect(result.summary.onTime).toBe(40);
+    expect(result.pairs?.[0].periods.map((period) => period.status)).toEqual([
+      "done",
+      "done",
+      "missed",
+      "missed",
+      "late",
+    ]);
+    expect(result.bySetor).toEqual([expect.objectContaining({ setor: "Operação", expected: 5 })]);
+    expect(result.trend.map((bucket) => bucket.bucket)).toEqual([
+      "2024-01-08",
+      "2024-01-09",
+      "2024-01-10",
+      "2024-01-11",
+      "2024-01-12",
+    ]);
+    expect(result.heatmap.rows).toHaveLength(1);
+  });
+
+  it("serves the timeline through the API and validates the range", async () => {
+    useWeekdayCalendar();
+    const response = await getPeriodicityTimeline(
+      new NextRequest(
+        "http://localhost/api/kpi/periodicity-timeline?from=2024-01-08T00:00:00.000Z&to=2024-01-14T00:00:00.000Z&granularity=week&templateId=tpl-a",
+      ),
+    );
+    expect(response.status).toBe(200);
+    const payload = await response.json();
+    expect(payload.granularity).toBe("week");
+    expect(payload.trend).toHaveLength(1);
+    expect(payload.pairs).toBeUndefined();
+
+    const invalid = await getPeriodicityTimeline(
+      new NextRequest("http://localhost/api/kpi/periodicity-timeline?from=2024-03-01&to=2024-01-01"),
+    );
+    expect(invalid.status).toBe(400);
+  });
+});
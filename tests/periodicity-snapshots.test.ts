@@ -0,0 +1,159 @@
+import { NextRequest } from "next/server";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { PATCH as patchMissedEvent } from "@/app/api/periodicity/events/[id]/route";
+import { GET as getMissedEvents } from "@/app/api/periodicity/events/route";
+import { GET as getPeriodicityCompliance } from "@/app/api/kpi/periodicity-compliance/route";
+import type { PeriodicityComplianceItem, PeriodicityComplianceResult } from "@/lib/kpis/periodicity";
+import {
+  detectPeriodicityTransitions,
+  readPeriodicityCache,
+  runPeriodicityCheck,
+} from "@/lib/kpis/periodicity-snapshots";
+import { createDb, type Store } from "./helpers/firestore";
+
+let store: Store;
+let currentDb: ReturnType<typeof createDb>;
+
+const complianceResults: PeriodicityComplianceResult[] = [];
+
+vi.mock("@/lib/firebase-admin", () => ({
+  getAdminDb: () => currentDb,
+}));
+
+vi.mock("@/lib/kpis/periodicity", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/lib/kpis/periodicity")>();
+  return {
+    ...actual,
+    loadPeriodicityCompliance: vi.fn(async () => {
+      const next = complianceResults.shift();
+      if (!next) throw new Error("No compliance result queued");
+      return next;
+    }),
+  };
+});
+
+function item(
+  templateId: string,
+  machineId: string,
+  status: PeriodicityComplianceItem["status"],
+): PeriodicityComplianceItem {
+  return {
+    templateId,
+    templateName: `Template ${templateId}`,
+    machineId,
+    machineName: `Máquina ${machineId}`,
+    lastSubmissionAt: "2024-01-08T12:00:00.000Z",
+    windowDays: 1,
+    unit: "day",
+    quantity: 1,
+    anchor: "last_submission",
+    status,
+  };
+}
+
+function result(generatedAt: string, items: PeriodicityComplianceItem[]): PeriodicityComplianceResult {
+  const nonCompliant = items.filter((entry) => entry.status === "non_compliant").length;
+  return {
+    generatedAt,
+    summary: { totalTracked: items.length, compliant: items.length - nonCompliant, nonCompliant },
+    items,
+  };
+}
+
+beforeEach(() => {
+  store = {};
+  currentDb = createDb(store);
+  complianceResults.length = 0;
+});
+
+describe("periodicity snapshots", () => {
+  it("only reports pairs that went from compliant to non_compliant", () => {
+    const previous = [item("tpl-a", "m1", "compliant"), item("tpl-a", "m2", "non_compliant")];
+    const current = [
+      item("tpl-a", "m1", "non_compliant"),
+      item("tpl-a", "m2", "non_compliant"),
+      item("tpl-b", "m1", "non_compliant"),
+    ];
+    expect(detectPeriodicityTransitions(previous, current).map((entry) => entry.machineId)).toEqual(["m1"]);
+    expect(detectPeriodicityTransitions(null, current)).toEqual([]);
+  });
+
+  it("appends snapshots, records transitions and refreshes the cache", async () => {
+    complianceResults.push(
+      result("2024-01-09T10:00:00.000Z", [item("tpl-a", "m1", "compliant")]),
+      result("2024-01-09T10:15:00.000Z", [item("tpl-a", "m1", "non_compliant")]),
+    );
+
+    const first = await runPeriodicityCheck({ db: currentDb as never, now: new Date("2024-01-09T10:00:00.000Z") });
+    expect(first.events).toHaveLength(0);
+
+    const second = await runPeriodicityCheck({ db: currentDb as never, now: new Date("2024-01-09T10:15:00.000Z") });
+    expect(second.events).toHaveLength(1);
+    expect(second.events[0]).toMatchObject({
+      templateId: "tpl-a",
+      machineId: "m1",
+      status: "open",
+      detectedAt: "2024-01-09T10:15:00.000Z",
+      snapshotId: second.snapshotId,
+    });
+    expect(Object.keys(store.periodicitySnapshots)).toHaveLength(2);
+
+    const fresh = await readPeriodicityCache({ db: currentDb as never, now: new Date("2024-01-09T10:20:00.000Z") });
+    expect(fresh?.summary.nonCompliant).toBe(1);
+    const expired = await readPeriodicityCache({ db: currentDb as never, now: new Date("2024-01-09T10:31:00.000Z") });
+    expect(expired).toBeNull();
+  });
+
+  it("serves unfiltered compliance requests from a fresh cache", async () => {
+    await currentDb.collection("kpiCache").doc("periodicity").set({
+      ...result("2024-01-09T10:00:00.000Z", [item("tpl-a", "m1", "compliant")]),
+      cachedAt: "2024-01-09T10:00:00.000Z",
+      expiresAt: new Date(Date.now() + 60_000).toISOString(),
+    });
+
+    const response = await getPeriodicityCompliance(new NextRequest("http://localhost/api/kpi/periodicity-compliance"));
+    expect(response.status).toBe(200);
+    const payload = await response.json();
+    expect(payload.cachedAt).toBe("2024-01-09T10:00:00.000Z");
+    expect(payload.items).toHaveLength(1);
+  });
+
+  it("lists, acknowledges and justifies missed checklist events", async () => {
+    complianceResults.push(
+      result("2024-01-09T10:00:00.000Z", [item("tpl-a", "m1", "compliant")]),
+      result("2024-01-09T10:15:00.000Z", [item("tpl-a", "m1", "non_compliant")]),
+    );
+    await runPeriodicityCheck({ db: currentDb as never });
+    const { events } = await runPeriodicityCheck({ db: currentDb as never });
+    const eventId = events[0].id;
+    const context = { params: Promise.resolve({ id: eventId }) };
+    const patch = (body: unknown) =>
+      patchMissedEvent(
+        new NextRequest(`http://localhost/api/periodicity/events/${eventId}`, {
+          method: "PATCH",
+          body: JSON.stringify(body),
+        }),
+        context,
+      );
+
+    const listed = await getMissedEvents(new NextRequest("http://localhost/api/periodicity/events?status=open"));
+    expect((await listed.json()).data.map((event: { id: string }) => event.id)).toEqual([eventId]);
+
+    expect((await patch({ action: "justify" })).status).toBe(400);
+
+    const acknowledged = await patch({ action: "acknowledge", actor: { id: "sup-1", nome: "Supervisor" } });
+    expect((await acknowledged.json()).data).toMatchObject({
+      status: "acknowledged",
+      acknowledgedBy: { id: "sup-1", nome: "Supervisor" },
+    });
+    expect((await patch({ action: "acknowledge" })).status).toBe(409);
+
+    const justified = await patch({ action: "justify", justification: "Máquina em manutenção" });
+    expect((await justified.json()).data).toMatchObject({
+      status: "justified",
+      justification: "Máquina em manutenção",
+      acknowledgedBy: { id: "sup-1" },
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+
+import type { ExistingNcInfo } from "../functions/src/mappers";
+import { findRecurrence, resolveRecurrenceConfig } from "../functions/src/recurrence";
+import { decideRecurrence } from "@/lib/recurrence";
+import { createDb, type Store } from "./helpers/firestore";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date("2025-03-31T12:00:00.000Z").getTime();
+
+const existing = (overrides: Partial<ExistingNcInfo> & { id: string }): ExistingNcInfo => ({
+  createdAt: now - 5 * DAY_MS,
+  normalizedTitle: "",
+  ...overrides,
+});
+
+describe("recurrence engine", () => {
+  const recent = [
+    existing({ id: "hyd-1", normalizedTitle: "vazamento oleo cilindro lanca", systemCategory: "Hidráulico" }),
+    existing({ id: "hyd-2", normalizedTitle: "mangueira do braco ressecada", systemCategory: "Hidráulico" }),
+    existing({ id: "motor", normalizedTitle: "vazamento de oleo no carter", systemCategory: "Motor" }),
+    existing({ id: "old-q", normalizedTitle: "nivel de oleo", originQuestionId: "q-oleo", createdAt: now - 40 * DAY_MS }),
+  ];
+
+  it("matches the same origin question first, within the severity window", () => {
+    const nc = { title: "Nível de óleo baixo?", severity: "alta", originQuestionId: "q-oleo", createdAt: now };
+    expect(findRecurrence(recent, nc)).toBeUndefined();
+    expect(findRecurrence(recent, nc, resolveRecurrenceConfig({ windowDays: { alta: 60 } }))).toEqual({
+      ofId: "old-q",
+      rule: "origin_question",
+      score: 1,
+      status: "suggested",
+    });
+  });
+
+  it("matches reworded titles of the same system and ignores the rest of the system", () => {
+    expect(
+      findRecurrence(recent, {
+        title: "Cilindro da lança com vazamento de óleo",
+        severity: "media",
+        systemCategory: "Hidráulico",
+        createdAt: now,
+      }),
+    ).toEqual({ ofId: "hyd-1", rule: "text_similarity", score: 1, status: "suggested" });
+
+    expect(
+      findRecurrence(recent, { title: "Engate rápido travando", severity: "media", systemCategory: "Hidráulico", createdAt: now }),
+    ).toBeUndefined();
+    expect(
+      findRecurrence(recent, { title: "Vazamento de óleo no cárter", severity: "media", systemCategory: "Hidráulico", createdAt: now }),
+    ).toBeUndefined();
+  });
+
+  it("falls back to defaults for invalid settings", () => {
+    expect(resolveRecurrenceConfig({ similarityThreshold: 3, windowDays: { baixa: -1, alta: 90 } })).toEqual({
+      similarityThreshold: 0.6,
+      windowDays: { baixa: 30, media: 30, alta: 90 },
+      escalateAfterChecklists: 3,
+    });
+  });
+});
+
+describe("recurrence review", () => {
+  it("unlinks and relinks a suggested recurrence with an audit entry", async () => {
+    const store: Store = {
+      nonConformities: {
+        nc2: {
+          title: "Cilindro com vazamento",
+          status: "aberta",
+          createdAt: "2025-03-31T12:00:00.000Z",
+          recurrenceOfId: "hyd-1",
+          recurrenceMatch: { ofId: "hyd-1", rule: "text_similarity", score: 0.75, status: "suggested" },
+        },
+        nc3: { title: "Sem recorrência", status: "aberta", createdAt: "2025-03-31T12:00:00.000Z" },
+      },
+    };
+    const db = createDb(store) as never;
+    const at = new Date("2025-04-01T00:00:00.000Z");
+
+    const unlinked = await decideRecurrence(db, "nc2", { decision: "unlink", actor: { id: "adm", nome: "Ana" } }, at);
+    expect(unlinked).toMatchObject({
+      ok: true,
+      data: {
+        recurrenceOfId: undefined,
+        recurrenceMatch: { ofId: "hyd-1", rule: "text_similarity", score: 0.75, status: "unlinked", decidedAt: at.toISOString() },
+      },
+    });
+    expect(Object.values(store["nonConformities/nc2/audits"])).toEqual([
+      expect.objectContaining({
+        type: "updated",
+        byUserId: "adm",
+        diff: expect.objectContaining({ recurrenceOfId: { before: "hyd-1", after: null } }),
+      }),
+    ]);
+    expect(await decideRecurrence(db, "nc2", { decision: "unlink" }, at)).toMatchObject({ ok: false, status: 409 });
+
+    const relinked = await decideRecurrence(db, "nc2", { decision: "confirm" }, at);
+    expect(relinked).toMatchObject({ ok: true, data: { recurrenceOfId: "hyd-1", recurrenceMatch: { status: "confirmed" } } });
+
+    expect(await decideRecurrence(db, "nc3", { decision: "confirm" }, at)).toMatchObject({ ok: false, status: 409 });
+    expect(await decideRecurrence(db, "missing", { decision: "confirm" }, at)).toMatchObject({ ok: false, status: 404 });
+  });
+});
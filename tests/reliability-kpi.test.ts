@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  buildReliabilityReport,
+  calcReliabilityMetrics,
+  deriveFailures,
+  telemetryHourReadings,
+} from "@/lib/kpis/reliability";
+import type { NonConformity } from "@/types/nonconformity";
+
+type NcInput = Pick<NonConformity, "id" | "createdAt" | "status" | "systemCategory" | "actions" | "telemetryRef"> & {
+  linkedAsset: { id: string };
+};
+
+const nc = (overrides: Partial<NcInput> & Pick<NcInput, "id" | "createdAt">): NcInput => ({
+  status: "aberta",
+  linkedAsset: { id: "m1" },
+  ...overrides,
+});
+
+describe("reliability kpis", () => {
+  it("derives failures from NCs, skipping preventive-only actions", () => {
+    const failures = deriveFailures([
+      nc({
+        id: "nc-1",
+        createdAt: "2024-01-10T00:00:00.000Z",
+        status: "resolvida",
+        systemCategory: "Hidráulico",
+        actions: [
+          { id: "a1", type: "corretiva", description: "Troca", completedAt: "2024-01-10T04:00:00.000Z" },
+          { id: "a2", type: "corretiva", description: "Teste", completedAt: "2024-01-10T06:00:00.000Z" },
+          { id: "a3", type: "preventiva", description: "Inspeção", completedAt: "2024-01-12T00:00:00.000Z" },
+        ],
+      }),
+      nc({
+        id: "nc-2",
+        createdAt: "2024-01-15T00:00:00.000Z",
+        actions: [{ id: "a4", type: "preventiva", description: "Lubrificação" }],
+      }),
+      nc({ id: "nc-3", createdAt: "2024-02-01T00:00:00.000Z" }),
+    ]);
+
+    expect(failures.map((failure) => failure.ncId)).toEqual(["nc-1", "nc-3"]);
+    expect(failures[0]).toMatchObject({ system: "Hidráulico", repairHours: 6 });
+    expect(failures[1]).toMatchObject({ system: "Não classificado", repairHours: null });
+
+    expect(calcReliabilityMetrics(failures, 200)).toEqual({
+      failures: 2,
+      repairedFailures: 1,
+      operatingHours: 200,
+      mtbf: 100,
+      mttr: 6,
+      failureRatePer1000h: 10,
+      availability: 94.3,
+    });
+  });
+
+  it("groups by machine, model and system using checklist hours or telemetry", () => {
+    const records = [
+      nc({
+        id: "nc-1",
+        createdAt: "2024-01-20T00:00:00.000Z",
+        status: "resolvida",
+        systemCategory: "Motor",
+        actions: [{ id: "a1", type: "corretiva", description: "Reparo", completedAt: "2024-01-20T10:00:00.000Z" }],
+      }),
+      nc({ id: "nc-2", createdAt: "2024-02-05T00:00:00.000Z", systemCategory: "Motor", linkedAsset: { id: "m2" } }),
+      nc({
+        id: "nc-3",
+        createdAt: "2024-01-05T00:00:00.000Z",
+        linkedAsset: { id: "m2" },
+        telemetryRef: { hours: 1000, windowEnd: "2024-01-05T00:00:00.000Z" },
+      }),
+      nc({
+        id: "nc-4",
+        createdAt: "2024-02-10T00:00:00.000Z",
+        linkedAsset: { id: "m2" },
+        telemetryRef: { hours: 1300 },
+      }),
+    ];
+
+    const report = buildReliabilityReport({
+      machines: [
+        { id: "m1", modelo: "Escavadeira" },
+        { id: "m2", modelo: "Escavadeira" },
+        { id: "m3", modelo: "Trator" },
+      ],
+      failures: deriveFailures(records),
+      readings: [
+        { machineId: "m1", at: "2024-01-01T00:00:00.000Z", hours: 500 },
+        { machineId: "m1", at: "2024-01-31T00:00:00.000Z", hours: 600 },
+        { machineId: "m1", at: "2024-02-15T00:00:00.000Z", hours: 700 },
+        { machineId: "m2", at: "2024-01-01T00:00:00.000Z", hours: 10 },
+      ],
+      fallbackReadings: telemetryHourReadings(records),
+    });
+
+    expect(report.byMachine.find((item) => item.machineId === "m1")).toMatchObject({
+      failures: 1,
+      operatingHours: 200,
+      mtbf: 200,
+      mttr: 10,
+    });
+    expect(report.byMachine.find((item) => item.machineId === "m2")).toMatchObject({
+      failures: 3,
+      operatingHours: 300,
+      mtbf: 100,
+    });
+    expect(report.byModel).toEqual([
+      expect.objectContaining({ modelo: "Escavadeira", machines: 2, failures: 4, operatingHours: 500 }),
+      expect.objectContaining({ modelo: "Trator", machines: 1, failures: 0, mtbf: null }),
+    ]);
+    expect(report.bySystem[0]).toMatchObject({ system: "Motor", failures: 2, mtbf: 250 });
+    expect(report.trend.map((item) => [item.month, item.failures, item.operatingHours])).toEqual([
+      ["2024-01", 2, 100],
+      ["2024-02", 2, 400],
+    ]);
+    expect(report.fleet).toMatchObject({ failures: 4, operatingHours: 500, mtbf: 125 });
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+
+import { groupByRootCause, groupByRootCauseCategory } from "@/lib/kpis/nc";
+import { classifyRootCause, parseRootCauseAnalysis, rootCauseSummary } from "@/lib/root-cause";
+import type { NonConformity } from "@/types/nonconformity";
+
+const nc = (overrides: Partial<NonConformity>): NonConformity => ({
+  id: crypto.randomUUID(),
+  title: "Teste",
+  status: "resolvida",
+  createdAt: "2024-01-01T00:00:00.000Z",
+  createdBy: { id: "user", matricula: "000" },
+  linkedAsset: { id: "asset", tag: "TAG-1" },
+  source: "checklist_question",
+  originChecklistResponseId: "response-1",
+  yearMonth: "2024-01",
+  severityRank: 2,
+  ...overrides,
+});
+
+describe("root cause analysis", () => {
+  it("validates the 5 whys chain against the controlled taxonomy", () => {
+    expect(
+      parseRootCauseAnalysis({ whys: [" Mangueira rompeu ", "", "Sem engraxamento"], category: "metodo", causeCode: "lubrificacao" }),
+    ).toEqual({
+      ok: true,
+      data: { whys: ["Mangueira rompeu", "Sem engraxamento"], category: "metodo", causeCode: "lubrificacao" },
+    });
+    expect(parseRootCauseAnalysis({ whys: [], category: "maquina", causeCode: "lubrificacao" })).toEqual({
+      ok: false,
+      error: "A causa não pertence à categoria informada.",
+    });
+    expect(parseRootCauseAnalysis({ whys: ["1", "2", "3", "4", "5", "6"], category: "maquina" })).toMatchObject({
+      ok: false,
+    });
+    expect(parseRootCauseAnalysis({ category: "sorte" })).toMatchObject({ ok: false });
+    expect(parseRootCauseAnalysis(null)).toEqual({ ok: true, data: null });
+
+    expect(rootCauseSummary({ whys: ["Filtro saturado"], category: "meio_ambiente", causeCode: "poeira" })).toBe(
+      "Poeira, lama ou sujeira: Filtro saturado",
+    );
+    expect(rootCauseSummary({ whys: [], category: "medicao" })).toBe("Medição");
+  });
+
+  it("aggregates KPIs on taxonomy causes and categories instead of free text", () => {
+    const records = [
+      nc({ rootCause: "falta de lubrificação" }),
+      nc({ rootCause: "Falta lubrificação" }),
+      nc({ rootCause: "Outro", rootCauseAnalysis: { whys: [], category: "metodo", causeCode: "lubrificacao" } }),
+      nc({ rootCause: "Poeira no filtro de ar" }),
+      nc({ rootCause: "Motivo desconhecido" }),
+      nc({ rootCauseAnalysis: { whys: ["Operador novo"], category: "mao_de_obra" } }),
+    ];
+
+    expect(classifyRootCause(records[0])).toEqual({ category: "metodo", code: "lubrificacao", label: "Lubrificação deficiente" });
+    expect(groupByRootCause(records)).toEqual({
+      "Lubrificação deficiente": 3,
+      "Poeira, lama ou sujeira": 1,
+      "Não classificada": 1,
+      "Mão de obra": 1,
+    });
+    expect(groupByRootCauseCategory(records)).toEqual({
+      Método: 3,
+      "Meio ambiente": 1,
+      "Não classificada": 1,
+      "Mão de obra": 1,
+    });
+    expect(groupByRootCause([nc({})])).toEqual({ "Sem causa definida": 1 });
+  });
+});
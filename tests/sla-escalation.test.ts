@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+
+import { classifySla, nextEscalationStep, resolveEscalationContact, resolveSlaPolicy } from "@/lib/sla";
+import { runSlaEscalation } from "@/lib/sla-escalation";
+import type { SlaPolicy } from "@/types/sla";
+import { createDb, type Store } from "./helpers/firestore";
+
+const policy = (overrides: Partial<SlaPolicy>): SlaPolicy => ({
+  id: "policy",
+  name: "Política",
+  severity: null,
+  safetyRisk: null,
+  setor: null,
+  resolutionHours: 24,
+  dueSoonHours: 6,
+  escalation: [
+    { level: "responsible", afterOverdueHours: 0 },
+    { level: "supervisor", afterOverdueHours: 4 },
+    { level: "manager", afterOverdueHours: 12 },
+  ],
+  ...overrides,
+});
+
+describe("SLA policies", () => {
+  it("picks the most specific configured policy and falls back to the defaults", () => {
+    const policies = [
+      policy({ id: "alta", severity: "alta" }),
+      policy({ id: "safety", safetyRisk: true }),
+      policy({ id: "mina-alta", severity: "alta", setor: "Mina" }),
+    ];
+
+    expect(resolveSlaPolicy({ severity: "alta", linkedAsset: { setor: "mina" } }, policies).id).toBe("mina-alta");
+    expect(resolveSlaPolicy({ severity: "alta", safetyRisk: true }, policies).id).toBe("safety");
+    expect(resolveSlaPolicy({ severity: "alta" }, policies).id).toBe("alta");
+    expect(resolveSlaPolicy({ severity: "baixa" }, policies)).toMatchObject({ id: "default-baixa", resolutionHours: 240 });
+  });
+
+  it("classifies deadlines and escalates to the highest level reached", () => {
+    const rule = policy({});
+    const nc = { createdAt: "2025-01-01T00:00:00.000Z", dueAt: "2025-01-02T00:00:00.000Z" };
+
+    expect(classifySla(nc, rule, new Date("2025-01-01T12:00:00.000Z"))).toBe("on_track");
+    expect(classifySla(nc, rule, new Date("2025-01-01T20:00:00.000Z"))).toBe("due_soon");
+    expect(classifySla(nc, rule, new Date("2025-01-02T01:00:00.000Z"))).toBe("overdue");
+
+    expect(nextEscalationStep(nc, rule, new Date("2025-01-02T01:00:00.000Z"))?.level).toBe("responsible");
+    expect(nextEscalationStep(nc, rule, new Date("2025-01-02T13:00:00.000Z"))?.level).toBe("manager");
+    expect(
+      nextEscalationStep({ ...nc, escalationLevel: "supervisor" }, rule, new Date("2025-01-02T05:00:00.000Z")),
+    ).toBeNull();
+  });
+
+  it("notifies the open action owner, then the setor contacts", () => {
+    const nc = {
+      linkedAsset: { id: "m1", tag: "M1", setor: "Mina" },
+      actions: [
+        { id: "a1", type: "corretiva" as const, description: "Troca", owner: { id: "u1", nome: "Ana" }, completedAt: "x" },
+        { id: "a2", type: "corretiva" as const, description: "Teste", owner: { id: "u2", nome: "Bruno" } },
+      ],
+    };
+    const contacts = [
+      { id: "default", setor: null, supervisor: { nome: "Geral" }, manager: null },
+      { id: "mina", setor: "mina", supervisor: { nome: "Sup. Mina" }, manager: null },
+    ];
+
+    expect(resolveEscalationContact("responsible", nc, contacts)).toEqual({ id: "u2", nome: "Bruno" });
+    expect(resolveEscalationContact("supervisor", nc, contacts)?.nome).toBe("Sup. Mina");
+    expect(resolveEscalationContact("supervisor", { ...nc, linkedAsset: { ...nc.linkedAsset, setor: "Porto" } }, contacts)?.nome).toBe("Geral");
+    expect(resolveEscalationContact("manager", nc, contacts)).toBeNull();
+  });
+});
+
+describe("runSlaEscalation", () => {
+  it("records state and escalation history on open NCs", async () => {
+    const store: Store = {
+      nonConformities: {
+        late: {
+          title: "Freio",
+          status: "em_execucao",
+          severity: "alta",
+          createdAt: "2025-01-01T00:00:00.000Z",
+          dueAt: "2025-01-03T00:00:00.000Z",
+          linkedAsset: { id: "m1", tag: "M1", setor: "Mina" },
+        },
+        fine: {
+          title: "Lanterna",
+          status: "aberta",
+          severity: "baixa",
+          createdAt: "2025-01-02T00:00:00.000Z",
+          linkedAsset: { id: "m2", tag: "M2" },
+        },
+      },
+      slaEscalationContacts: {
+        mina: { setor: "Mina", supervisor: { nome: "Sup. Mina" }, manager: null },
+      },
+    };
+    const db = createDb(store) as never;
+
+    const first = await runSlaEscalation({ db, now: new Date("2025-01-03T10:00:00.000Z") });
+    const second = await runSlaEscalation({ db, now: new Date("2025-01-03T11:00:00.000Z") });
+
+    expect(first).toMatchObject({ scanned: 2, byState: { on_track: 1, due_soon: 0, overdue: 1 } });
+    expect(first.escalated).toEqual([
+      {
+        ncId: "late",
+        escalation: {
+          level: "supervisor",
+          at: "2025-01-03T10:00:00.000Z",
+          overdueHours: 10,
+          policyId: "default-alta",
+          notified: { id: null, nome: "Sup. Mina", email: null },
+        },
+      },
+    ]);
+    expect(second.escalated).toEqual([]);
+    expect(store.nonConformities.late).toMatchObject({ slaState: "overdue", escalationLevel: "supervisor", slaPolicyId: "default-alta" });
+    expect(store.nonConformities.fine).toMatchObject({ slaState: "on_track", slaPolicyId: "default-baixa" });
+    expect(Object.values(store["nonConformities/late/audits"])).toEqual([
+      expect.objectContaining({ type: "escalated", byUserId: "system" }),
+    ]);
+    expect(store["nonConformities/fine/audits"]).toBeUndefined();
+    expect(store.notificationEvents).toEqual({
+      "nc_escalated_late_supervisor_2025-01-03T10-00-00-000Z": expect.objectContaining({
+        kind: "nc_escalated",
+        refId: "late",
+        payload: { level: "supervisor", overdueHours: 10, contact: { id: null, nome: "Sup. Mina", email: null } },
+      }),
+    });
+  });
+});
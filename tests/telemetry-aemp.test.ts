@@ -0,0 +1,121 @@
+import { readFileSync } from "fs";
+import { type Server, createServer } from "http";
+import type { AddressInfo } from "net";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+import { createAempTelemetryProvider, fetchAempFleet, parseAempFleetSnapshot } from "@/lib/telemetry/aemp";
+import { ingestTelemetry, resolveTelemetryProvider } from "@/lib/telemetry";
+import { createDb, type Store } from "./helpers/firestore";
+
+const fixture = (name: string) => readFileSync(path.join(__dirname, "fixtures", "aemp", name), "utf-8");
+
+const machines = [
+  { id: "m-exc", serialNumber: "CAT0320AB1234", pin: "cat0320abc1234567" },
+  { id: "m-trk", serialNumber: "9BSR6X400A1234567" },
+  { id: "m-none" },
+];
+
+describe("AEMP 2.0 telemetry", () => {
+  let server: Server;
+  let baseUrl: string;
+  const authHeaders: Array<string | undefined> = [];
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      authHeaders.push(request.headers.authorization);
+      if (request.url === "/aemp/Fleet/1") {
+        response.writeHead(200, { "Content-Type": "application/xml" }).end(fixture("fleet-page-1.xml"));
+      } else if (request.url === "/Fleet/2") {
+        response.writeHead(200, { "Content-Type": "application/json" }).end(fixture("fleet-page-2.json"));
+      } else {
+        response.writeHead(404).end();
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/aemp`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("parses XML snapshots with units and pagination links", () => {
+    const page = parseAempFleetSnapshot(fixture("fleet-page-1.xml"));
+
+    expect(page.snapshotTime).toBe("2024-03-01T12:00:00.000Z");
+    expect(page.nextHref).toBe("/Fleet/2");
+    expect(page.equipment[0]).toEqual({
+      serialNumber: "CAT0320AB1234",
+      pin: "CAT0320ABC1234567",
+      equipmentId: "EXC-01",
+      oemName: "CAT",
+      model: "320",
+      at: "2024-03-01T11:30:00.000Z",
+      hours: 1520.5,
+      odometerKm: undefined,
+      fuelUsedL: 378.5,
+      idleTimeH: 310.2,
+      faultCodes: ["E123"],
+    });
+  });
+
+  it("follows pages from a fixture server and maps equipment to machines by PIN or serial", async () => {
+    const provider = createAempTelemetryProvider({ baseUrl, username: "fleet", password: "secret" });
+    const readings = await provider.fetchReadings(machines, "2024-03-02T00:00:00.000Z");
+
+    expect(authHeaders[0]).toBe(`Basic ${Buffer.from("fleet:secret").toString("base64")}`);
+    expect(readings).toEqual([
+      expect.objectContaining({
+        machineId: "m-exc",
+        at: "2024-03-01T11:30:00.000Z",
+        source: "aemp",
+        telemetry: expect.objectContaining({ hours: 1520.5, idleTimeH: 310.2, faultCodes: ["E123"] }),
+      }),
+      expect.objectContaining({
+        machineId: "m-trk",
+        at: "2024-03-01T09:15:00.000Z",
+        telemetry: expect.objectContaining({ hours: 8400, odometerKm: 1609.3 }),
+      }),
+    ]);
+  });
+
+  it("does not follow next links to another origin", async () => {
+    const fetchImpl = vi.fn<[RequestInfo | URL, RequestInit?], Promise<Response>>(
+      async () =>
+        new Response(JSON.stringify({ Links: [{ rel: "next", href: "https://evil.example/Fleet/2" }], Equipment: [] })),
+    );
+
+    await fetchAempFleet({ baseUrl: "https://oem.example/aemp", token: "t0k3n", fetchImpl });
+
+    expect(fetchImpl.mock.calls.map(([url]) => String(url))).toEqual(["https://oem.example/aemp/Fleet/1"]);
+  });
+
+  it("stores the time series and falls back to the stub without configuration", async () => {
+    expect(resolveTelemetryProvider({}).name).toBe("stub");
+    expect(resolveTelemetryProvider({ TELEMETRY_PROVIDER: "aemp" }).name).toBe("stub");
+    expect(resolveTelemetryProvider({ TELEMETRY_PROVIDER: "aemp", AEMP_BASE_URL: baseUrl }).name).toBe("aemp");
+
+    const store: Store = { machines: Object.fromEntries(machines.map(({ id, ...data }) => [id, data])) };
+    const db = createDb(store) as never;
+
+    const provider = resolveTelemetryProvider({ TELEMETRY_PROVIDER: "aemp", AEMP_BASE_URL: baseUrl });
+    const result = await ingestTelemetry({ db, provider, now: new Date("2024-03-02T00:00:00.000Z") });
+    await ingestTelemetry({ db, provider, now: new Date("2024-03-02T01:00:00.000Z") });
+
+    expect(result).toEqual({ provider: "aemp", machines: 3, readings: 2, suggestions: 1 });
+    expect(Object.keys(store.telemetryReadings)).toEqual(["m-exc_20240301T113000000Z", "m-trk_20240301T091500000Z"]);
+    expect(Object.keys(store.ncSuggestions)).toEqual(["m-exc_oem_E123"]);
+    expect(store.ncSuggestions["m-exc_oem_E123"]).toMatchObject({
+      machineId: "m-exc",
+      status: "pending",
+      fault: expect.objectContaining({ raw: "E123", protocol: "oem" }),
+    });
+    expect(store.telemetryReadings["m-exc_20240301T113000000Z"]).toMatchObject({
+      machineId: "m-exc",
+      hours: 1520.5,
+      source: "aemp",
+      ingestedAt: "2024-03-02T01:00:00.000Z",
+    });
+  });
+});
@@ -0,0 +1,206 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/machine-status", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/machine-status")>()),
+  releaseMachineForNc: vi.fn(async () => undefined),
+}));
+
+import { releaseMachineForNc } from "@/lib/machine-status";
+import { completeWorkOrder, createWorkOrder, updateWorkOrder } from "@/lib/work-orders";
+import { createDb, type Store } from "./helpers/firestore";
+
+const nc = (overrides: Record<string, unknown> = {}) => ({
+  title: "Vazamento hidráulico",
+  severity: "media",
+  status: "aberta",
+  createdAt: "2025-01-01T00:00:00.000Z",
+  createdBy: { id: "op", matricula: "1" },
+  linkedAsset: { id: "m1", tag: "EXC-01" },
+  source: "checklist_question",
+  originChecklistResponseId: "r1",
+  actions: [],
+  ...overrides,
+});
+
+const baseStore = (): Store => ({
+  users: {
+    mec1: { nome: "Carlos", role: "mecanico", matricula: "77" },
+    op1: { nome: "Olga", role: "operador" },
+  },
+  nonConformities: {
+    nc1: nc({ actions: [{ id: "a1", type: "corretiva", description: "Trocar mangueira" }] }),
+    nc2: nc({ title: "Farol queimado" }),
+    other: nc({ linkedAsset: { id: "m2", tag: "CAM-02" } }),
+  },
+});
+
+const now = new Date("2025-01-02T10:00:00.000Z");
+
+const admin = { id: "adm", nome: "Admin", role: "admin" } as const;
+const mechanic = { id: "mec1", nome: "Carlos", role: "mecanico" } as const;
+
+describe("createWorkOrder", () => {
+  it("links the NCs and plans tasks from open corrective actions", async () => {
+    const store = baseStore();
+    const db = createDb(store) as never;
+
+    const result = await createWorkOrder(
+      db,
+      { ncIds: ["nc1", "nc2"], plannedDate: "2025-01-03", mechanicIds: ["mec1"] },
+      admin,
+      now,
+    );
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.data).toMatchObject({
+      title: "EXC-01: 2 NCs",
+      machineId: "m1",
+      status: "planejada",
+      mechanics: [{ id: "mec1", nome: "Carlos", matricula: "77" }],
+    });
+    expect(result.data.tasks.map((task) => task.description)).toEqual(["Trocar mangueira"]);
+    expect(store.nonConformities.nc1.workOrderId).toBe(result.data.id);
+    expect(store.nonConformities.nc2.workOrderId).toBe(result.data.id);
+    expect(Object.values(store["nonConformities/nc1/audits"])[0]).toMatchObject({
+      type: "updated",
+      diff: { workOrderId: { before: null, after: result.data.id } },
+    });
+
+    const again = await createWorkOrder(db, { ncIds: ["nc2"], plannedDate: "2025-01-04", mechanicIds: [] }, admin, now);
+    expect(again).toMatchObject({ ok: false, status: 409 });
+  });
+
+  it("rejects NCs from different machines and users that are not mechanics", async () => {
+    const db = createDb(baseStore()) as never;
+
+    expect(
+      await createWorkOrder(db, { ncIds: ["nc1", "other"], plannedDate: "2025-01-03", mechanicIds: [] }, admin, now),
+    ).toMatchObject({ ok: false, status: 400 });
+    expect(
+      await createWorkOrder(db, { ncIds: ["nc1"], plannedDate: "2025-01-03", mechanicIds: ["op1"] }, admin, now),
+    ).toMatchObject({ ok: false, status: 400, error: "Selecione apenas usuários com perfil de mecânico." });
+  });
+
+  it("frees the NCs when the order is cancelled", async () => {
+    const store = baseStore();
+    const db = createDb(store) as never;
+    const created = await createWorkOrder(db, { ncIds: ["nc2"], plannedDate: "2025-01-03", mechanicIds: [] }, admin, now);
+    if (!created.ok) throw new Error(created.error);
+
+    expect(await updateWorkOrder(db, created.data.id, { status: "cancelada" }, now)).toMatchObject({
+      ok: false,
+      status: 400,
+    });
+    const cancelled = await updateWorkOrder(db, created.data.id, { status: "cancelada", cancelReason: "Duplicada" }, now);
+
+    expect(cancelled).toMatchObject({ ok: true, data: { status: "cancelada", cancelReason: "Duplicada" } });
+    expect(store.nonConformities.nc2.workOrderId).toBeNull();
+  });
+});
+
+describe("completeWorkOrder", () => {
+  const signOff = { nome: "Carlos", signatureUrl: "https://cdn.example.com/sign.png" };
+
+  it("completes corrective actions, resolves the NCs and records the sign-off", async () => {
+    const store = baseStore();
+    const db = createDb(store) as never;
+    const created = await createWorkOrder(
+      db,
+      { ncIds: ["nc1", "nc2"], plannedDate: "2025-01-03", mechanicIds: ["mec1"] },
+      admin,
+      now,
+    );
+    if (!created.ok) throw new Error(created.error);
+
+    const logged = await updateWorkOrder(
+      db,
+      created.data.id,
+      { status: "em_execucao", labor: [{ mechanicId: "mec1", hours: 2.5, date: "2025-01-03" }] },
+      now,
+    );
+    expect(logged).toMatchObject({ ok: true, data: { status: "em_execucao", startedAt: now.toISOString() } });
+    expect(
+      await updateWorkOrder(db, created.data.id, { labor: [{ mechanicId: "op1", hours: 1, date: "2025-01-03" }] }, now),
+    ).toMatchObject({ ok: false, status: 400 });
+
+    const doneAt = new Date("2025-01-03T15:00:00.000Z");
+    const result = await completeWorkOrder(db, created.data.id, { signOff }, mechanic, doneAt);
+
+    expect(result).toMatchObject({
+      ok: true,
+      data: {
+        status: "concluida",
+        completedAt: doneAt.toISOString(),
+        signOff: { ...signOff, signedAt: doneAt.toISOString(), byUserId: "mec1" },
+      },
+    });
+    expect(store.nonConformities.nc1).toMatchObject({
+      status: "resolvida",
+      actions: [
+        { id: "a1", completedAt: doneAt.toISOString(), startedAt: now.toISOString(), cost: { laborHours: 1.25 } },
+      ],
+    });
+    const nc2Actions = store.nonConformities.nc2.actions as Array<Record<string, unknown>>;
+    expect(nc2Actions).toHaveLength(1);
+    expect(nc2Actions[0]).toMatchObject({ type: "corretiva", completedAt: doneAt.toISOString() });
+    expect(Object.values(store["nonConformities/nc2/audits"]).at(-1)).toMatchObject({
+      type: "resolved",
+      transition: { from: "aberta", to: "resolvida" },
+    });
+    expect(releaseMachineForNc).toHaveBeenCalledTimes(2);
+  });
+
+  it("writes nothing when a linked NC cannot be resolved", async () => {
+    const store = baseStore();
+    const db = createDb(store) as never;
+    const created = await createWorkOrder(
+      db,
+      { ncIds: ["nc1", "nc2"], plannedDate: "2025-01-03", mechanicIds: [] },
+      admin,
+      now,
+    );
+    if (!created.ok) throw new Error(created.error);
+    store.nonConformities.nc2.status = "aguardando_peca";
+
+    const result = await completeWorkOrder(db, created.data.id, { signOff }, mechanic, now);
+
+    expect(result).toMatchObject({ ok: false, status: 409 });
+    expect(store.nonConformities.nc1.status).toBe("aberta");
+    expect(store.workOrders[created.data.id].status).toBe("planejada");
+  });
+
+  it("resolves with the signer's role and leaves merged NCs alone", async () => {
+    const store = baseStore();
+    const db = createDb(store) as never;
+    const created = await createWorkOrder(
+      db,
+      { ncIds: ["nc1", "nc2"], plannedDate: "2025-01-03", mechanicIds: [] },
+      admin,
+      now,
+    );
+    if (!created.ok) throw new Error(created.error);
+    store.nonConformities.nc2.mergedIntoId = "nc1";
+
+    const operator = { id: "op1", nome: "Olga", role: "operador" } as const;
+    expect(await completeWorkOrder(db, created.data.id, { signOff }, operator, now)).toMatchObject({
+      ok: false,
+      status: 403,
+    });
+    expect(store.nonConformities.nc1.status).toBe("aberta");
+
+    const result = await completeWorkOrder(db, created.data.id, { signOff }, admin, now);
+
+    expect(result.ok).toBe(true);
+    expect(store.nonConformities.nc1.status).toBe("resolvida");
+    expect(store.nonConformities.nc2.status).toBe("aberta");
+    expect(Object.values(store["nonConformities/nc1/audits"]).at(-1)).toMatchObject({
+      type: "resolved",
+      byUserId: "adm",
+      byRole: "admin",
+    });
+    expect(
+      await createWorkOrder(db, { ncIds: ["nc2"], plannedDate: "2025-01-04", mechanicIds: [] }, admin, now),
+    ).toMatchObject({ ok: false, status: 409 });
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildDefaultWorkingCalendar,
+  evaluateCalendarCompliance,
+  normalizeWorkingCalendar,
+} from "@/lib/working-calendar";
+import type { WorkingCalendar } from "@/types/working-calendar";
+
+const weekdaysCalendar = (overrides: Partial<WorkingCalendar> = {}): WorkingCalendar => ({
+  ...buildDefaultWorkingCalendar("Operação"),
+  weekdays: [1, 2, 3, 4, 5],
+  ...overrides,
+});
+
+describe("working calendar compliance", () => {
+  it("does not count weekends and holidays as missed working days", () => {
+    const monday = evaluateCalendarCompliance({
+      calendar: weekdaysCalendar(),
+      unit: "day",
+      quantity: 1,
+      lastSubmissionAt: "2024-01-05T12:00:00.000Z",
+      reference: new Date("2024-01-08T13:00:00.000Z"),
+    });
+    expect(monday.status).toBe("compliant");
+    expect(monday.duePeriod?.key).toBe("2024-01-05");
+    expect(monday.currentPeriod?.key).toBe("2024-01-08");
+
+    const tuesday = evaluateCalendarCompliance({
+      calendar: weekdaysCalendar(),
+      unit: "day",
+      quantity: 1,
+      lastSubmissionAt: "2024-01-05T12:00:00.000Z",
+      reference: new Date("2024-01-09T13:00:00.000Z"),
+    });
+    expect(tuesday.status).toBe("non_compliant");
+    expect(tuesday.duePeriod).toMatchObject({
+      key: "2024-01-08",
+      start: "2024-01-08T03:00:00.000Z",
+      end: "2024-01-09T03:00:00.000Z",
+    });
+
+    const afterHoliday = evaluateCalendarCompliance({
+      calendar: weekdaysCalendar({ holidays: ["2024-01-08"] }),
+      unit: "day",
+      quantity: 1,
+      lastSubmissionAt: "2024-01-05T12:00:00.000Z",
+      reference: new Date("2024-01-09T13:00:00.000Z"),
+    });
+    expect(afterHoliday.status).toBe("compliant");
+  });
+
+  it("treats each shift as its own period, including overnight shifts", () => {
+    const calendar = weekdaysCalendar({
+      shifts: [
+        { id: "a", name: "Turno A", start: "06:00", end: "14:00" },
+        { id: "b", name: "Turno B", start: "14:00", end: "22:00" },
+        { id: "c", name: "Turno C", start: "22:00", end: "06:00" },
+      ],
+    });
+    const result = evaluateCalendarCompliance({
+      calendar,
+      unit: "day",
+      quantity: 1,
+      lastSubmissionAt: "2024-01-09T12:00:00.000Z",
+      reference: new Date("2024-01-09T18:00:00.000Z"),
+    });
+    expect(result.status).toBe("compliant");
+    expect(result.duePeriod?.key).toBe("2024-01-09#a");
+    expect(result.currentPeriod?.key).toBe("2024-01-09#b");
+    expect(result.submittedInCurrentPeriod).toBe(false);
+
+    const overnight = evaluateCalendarCompliance({
+      calendar,
+      unit: "day",
+      quantity: 1,
+      lastSubmissionAt: "2024-01-10T03:30:00.000Z",
+      reference: new Date("2024-01-10T05:00:00.000Z"),
+    });
+    expect(overnight.currentPeriod).toMatchObject({
+      key: "2024-01-09#c",
+      end: "2024-01-10T09:00:00.000Z",
+      shiftName: "Turno C",
+    });
+    expect(overnight.submittedInCurrentPeriod).toBe(true);
+  });
+
+  it("anchors weekly checklists to ISO weeks and monthly ones to calendar months", () => {
+    const weekly = evaluateCalendarCompliance({
+      calendar: weekdaysCalendar(),
+      unit: "week",
+      quantity: 1,
+      lastSubmissionAt: "2023-12-29T12:00:00.000Z",
+      reference: new Date("2024-01-10T12:00:00.000Z"),
+    });
+    expect(weekly.duePeriod?.key).toBe("2024-W01");
+    expect(weekly.status).toBe("non_compliant");
+
+    const monthly = evaluateCalendarCompliance({
+      calendar: weekdaysCalendar(),
+      unit: "month",
+      quantity: 1,
+      lastSubmissionAt: "2024-02-28T12:00:00.000Z",
+      reference: new Date("2024-03-05T12:00:00.000Z"),
+    });
+    expect(monthly.duePeriod).toMatchObject({
+      key: "2024-02",
+      start: "2024-02-01T03:00:00.000Z",
+      end: "2024-03-01T03:00:00.000Z",
+    });
+    expect(monthly.status).toBe("compliant");
+  });
+
+  it("normalizes stored calendars defensively", () => {
+    const calendar = normalizeWorkingCalendar("cal-1", {
+      setor: " Operação ",
+      weekdays: [5, 1, 1, 9],
+      shifts: [{ name: "Manhã", start: "06:00", end: "14:00" }, { name: "Inválido", start: "25:00", end: "x" }],
+      holidays: ["2024-12-25", "25/12/2024"],
+      timezone: "Mars/Base",
+    });
+    expect(calendar).toMatchObject({
+      setor: "Operação",
+      weekdays: [1, 5],
+      shifts: [{ id: "Manhã", name: "Manhã", start: "06:00", end: "14:00" }],
+      holidays: ["2024-12-25"],
+      timezone: "America/Sao_Paulo",
+    });
+    expect(normalizeWorkingCalendar("cal-2", { weekdays: [1] })).toBeNull();
+  });
+});